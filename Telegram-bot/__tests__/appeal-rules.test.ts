@@ -0,0 +1,31 @@
+import { appealBanKey, checkAppealEligibility, normalizeAppealMessage, reducedBanUntil } from '../src/services/appeals/appeal-rules';
+
+describe('ban appeal rules', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  const ban = { blockedAt: '2026-02-28T10:00:00Z', reason: 'Multi-account violation' };
+
+  it('allows one appeal per ban', () => {
+    expect(checkAppealEligibility(ban, null, now)).toBeNull();
+    expect(checkAppealEligibility(ban, { status: 'draft' }, now)).toBeNull();
+    expect(checkAppealEligibility(ban, { status: 'pending' }, now)).toBe('already_appealed');
+    expect(checkAppealEligibility(ban, { status: 'upheld' }, now)).toBe('already_appealed');
+
+    expect(checkAppealEligibility(null, null, now)).toBe('not_blocked');
+    expect(checkAppealEligibility({ ...ban, blockedUntil: '2026-03-01T11:59:00Z' }, null, now)).toBe('not_blocked');
+    expect(checkAppealEligibility({ ...ban, reason: 'Spam detected' }, null, now)).toBe('spam_freeze');
+
+    // Being banned again later starts a new appeal
+    expect(appealBanKey('42', ban.blockedAt)).not.toBe(appealBanKey('42', '2026-04-01T00:00:00Z'));
+  });
+
+  it('validates the explanation and reduced ban length', () => {
+    expect(normalizeAppealMessage('  too   short ')).toEqual({ error: 'too_short' });
+    expect(normalizeAppealMessage('x'.repeat(1001))).toEqual({ error: 'too_long' });
+    expect(normalizeAppealMessage('My brother and I share\n\nthe same phone.')).toEqual({ message: 'My brother and I share the same phone.' });
+
+    expect(reducedBanUntil(24, now)).toBe('2026-03-02T12:00:00.000Z');
+    expect(reducedBanUntil(0, now)).toBeNull();
+    expect(reducedBanUntil('abc', now)).toBeNull();
+    expect(reducedBanUntil(24 * 91, now)).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  buildInlineKeyboard,
+  buildSegmentQuery,
+  canTransitionBroadcast,
+  classifyDeliveryError,
+  parseBroadcastSegment,
+  validateBroadcastContent
+} from '../src/services/broadcast/broadcast-rules';
+
+describe('broadcast rules', () => {
+  it('validates content and buttons', () => {
+    expect(validateBroadcastContent({ type: 'text', message: 'hi' })).toBeNull();
+    expect(validateBroadcastContent({ type: 'video', message: 'caption' })).toMatch(/mediaUrl/);
+    expect(validateBroadcastContent({ type: 'document', message: 'x'.repeat(1025), mediaUrl: 'https://x/y.pdf' })).toMatch(/Caption/);
+    expect(validateBroadcastContent({ type: 'text', message: 'hi', buttons: [[{ text: 'Go', url: 'javascript:alert(1)' }]] })).toMatch(/invalid URL/);
+    expect(validateBroadcastContent({ type: 'text', message: 'hi', buttons: [[{ text: 'Both', url: 'https://a.b', callbackData: 'x' }]] })).toMatch(/either/);
+    expect(validateBroadcastContent({ type: 'text', message: 'hi', buttons: [[{ text: 'Cb', callbackData: 'é'.repeat(33) }]] })).toMatch(/64 bytes/);
+
+    const buttons = [[{ text: 'Open', url: 'https://t.me/x' }, { text: 'Claim', callbackData: 'claim' }]];
+    expect(validateBroadcastContent({ type: 'text', message: 'hi', buttons })).toBeNull();
+    expect(buildInlineKeyboard(buttons)).toEqual({
+      inline_keyboard: [[{ text: 'Open', url: 'https://t.me/x' }, { text: 'Claim', callback_data: 'claim' }]]
+    });
+  });
+
+  it('builds segment queries that skip users who blocked the bot by default', () => {
+    const now = Date.parse('2026-01-31T00:00:00.000Z');
+    const query = buildSegmentQuery(parseBroadcastSegment({ hasWallet: true, verified: false, country: 'us, Germany', activeDays: 7, minPoints: '10' }), now);
+    expect(query.$and).toEqual(expect.arrayContaining([
+      { botBlocked: { $ne: true } },
+      { walletAddress: { $exists: true, $nin: [null, ''] } },
+      { points: { $gte: 10 } },
+      { lastActiveAt: { $gte: '2026-01-24T00:00:00.000Z' } },
+      { $or: [
+        { 'locationData.countryCode': { $in: ['US', 'GERMANY'] } },
+        { 'locationData.country': { $in: ['us', 'Germany'] } },
+        { country: { $in: ['us', 'Germany'] } }
+      ] }
+    ]));
+    expect(JSON.stringify(query)).not.toContain('isVerified');
+    expect(buildSegmentQuery({ includeBlocked: true }).$or).toEqual([{ isBlocked: true }, { botBlocked: true }]);
+  });
+
+  it('classifies Telegram errors and guards state changes', () => {
+    expect(classifyDeliveryError({ code: 403, description: 'Forbidden: bot was blocked by the user' })).toEqual({ kind: 'blocked' });
+    expect(classifyDeliveryError({ response: { error_code: 429, parameters: { retry_after: 3 } } })).toEqual({ kind: 'rate_limited', retryAfterMs: 3000 });
+    expect(classifyDeliveryError(new Error('socket hang up')).kind).toBe('failed');
+
+    expect(canTransitionBroadcast('processing', 'paused')).toBe(true);
+    expect(canTransitionBroadcast('paused', 'processing')).toBe(false);
+    expect(canTransitionBroadcast('sent', 'cancelled')).toBe(false);
+  });
+});
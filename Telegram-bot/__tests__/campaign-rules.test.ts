@@ -0,0 +1,58 @@
+import {
+  buildCampaignFunnel,
+  campaignState,
+  evaluateCampaign,
+  lockedCampaignTasks,
+  parseCampaignInput,
+  progressBar
+} from '../src/services/campaigns/campaign-rules';
+import { CampaignStep } from '../src/types/campaign.types';
+
+const steps: CampaignStep[] = [
+  { id: 'join', title: 'Join channel', taskIds: ['t_join'], mode: 'all', unlock: 'previous' },
+  { id: 'social', title: 'Follow and retweet', taskIds: ['t_follow', 't_retweet'], mode: 'all', unlock: 'previous' },
+  { id: 'invite', title: 'Invite friends', taskIds: ['t_invite'], mode: 'all', unlock: 'previous' },
+  { id: 'daily', title: 'Any daily', taskIds: ['t_daily', 't_quiz'], mode: 'any', unlock: 'start' }
+];
+
+describe('campaign rules', () => {
+  it('derives the campaign state from its dates', () => {
+    const now = new Date('2026-03-01T12:00:00.000Z');
+    expect(campaignState({ isActive: true }, now)).toBe('running');
+    expect(campaignState({ isActive: false }, now)).toBe('inactive');
+    expect(campaignState({ isActive: true, startsAt: '2026-03-02T00:00:00.000Z' }, now)).toBe('scheduled');
+    expect(campaignState({ isActive: true, endsAt: '2026-03-01T12:00:00.000Z' }, now)).toBe('ended');
+  });
+
+  it('opens steps in order, runs parallel steps from the start and locks the rest', () => {
+    const done = new Set(['t_follow', 't_quiz']);
+    const evaluation = evaluateCampaign({ steps }, done);
+    expect(evaluation.steps.map(s => [s.unlocked, s.completed])).toEqual([[true, false], [false, false], [false, false], [true, true]]);
+    expect(evaluation.completedSteps).toBe(1);
+
+    const locked = lockedCampaignTasks({ title: 'Launch' }, evaluation, done);
+    expect([...locked.keys()]).toEqual(['t_retweet', 't_invite']);
+    expect(locked.get('t_invite')).toEqual({ campaign: 'Launch', step: 'Join channel' });
+
+    const all = evaluateCampaign({ steps }, new Set(['t_join', 't_follow', 't_retweet', 't_invite', 't_daily']));
+    expect(all.completed).toBe(true);
+    expect(progressBar(1, 4, 8)).toBe('▰▰▱▱▱▱▱▱');
+  });
+
+  it('reports drop-off against the previous stage', () => {
+    const funnel = buildCampaignFunnel({ id: 'cmp_1', steps: steps.slice(0, 3) }, 100, { join: 80, social: 50, invite: 10 }, 10);
+    expect(funnel.steps.map(s => s.dropOff)).toEqual([20, 30, 40]);
+    expect(funnel.steps[1].conversion).toBe(0.5);
+  });
+
+  it('validates campaign input', () => {
+    const known = new Set(['t_join', 't_follow']);
+    const { value } = parseCampaignInput({ title: ' Launch ', bonusPoints: 500, steps: [{ title: 'Join', taskIds: ['t_join'] }] }, known);
+    expect(value).toMatchObject({ title: 'Launch', bonusPoints: 500, isActive: true, steps: [{ id: 'step_1', mode: 'all', unlock: 'previous' }] });
+
+    expect(parseCampaignInput({ title: 'x', steps: [] }, known).error).toMatch(/steps/);
+    expect(parseCampaignInput({ title: 'x', steps: [{ title: 'a', taskIds: ['t_other'] }] }, known).error).toMatch(/unknown task/);
+    expect(parseCampaignInput({ title: 'x', steps: [{ title: 'a', taskIds: ['t_join'] }, { title: 'b', taskIds: ['t_join'] }] }, known).error).toMatch(/more than one step/);
+    expect(parseCampaignInput({ title: 'x', bonusPoints: -1, steps: [{ title: 'a', taskIds: ['t_join'] }] }, known).error).toMatch(/bonusPoints/);
+  });
+});
@@ -0,0 +1,41 @@
+import { capDay, explorerTxUrl, fitsDailyCap, normalizeNetwork, normalizeToken, sessionChainIds } from '../src/services/chains/chain-rules';
+
+describe('chain rules', () => {
+  it('fills network defaults and rejects bad input', () => {
+    const { value } = normalizeNetwork({ chainId: '137', rpcUrl: 'https://polygon-rpc.com', explorerUrl: 'https://polygonscan.com/' });
+    expect(value).toMatchObject({
+      chainId: 137,
+      name: 'Polygon',
+      explorerUrl: 'https://polygonscan.com',
+      nativeCurrency: { symbol: 'POL', decimals: 18 },
+      walletConnectChainReference: 'eip155:137',
+      enabled: true,
+      dailyPayoutCapTokens: 0,
+    });
+    expect(normalizeNetwork({ chainId: 0, rpcUrl: 'https://x' }).error).toMatch(/chainId/);
+    expect(normalizeNetwork({ chainId: 999, rpcUrl: 'https://x' }).error).toMatch(/name/);
+    expect(normalizeNetwork({ chainId: 1, rpcUrl: 'ftp://x' }).error).toMatch(/rpcUrl/);
+    expect(normalizeNetwork({ dailyPayoutCapTokens: -1 }, value).error).toMatch(/dailyPayoutCapTokens/);
+    expect(normalizeNetwork({ enabled: false }, value).value).toMatchObject({ chainId: 137, enabled: false });
+
+    expect(normalizeToken({ chainId: 137, address: '0x0000000000000000000000000000000000000001', symbol: 'PTS', decimals: 6 }).value)
+      .toMatchObject({ name: 'PTS', decimals: 6, enabled: true });
+    expect(normalizeToken({ chainId: 137, address: 'nope', symbol: 'PTS', decimals: 6 }).error).toMatch(/address/);
+    expect(normalizeToken({ chainId: 137, address: '0x0000000000000000000000000000000000000001', symbol: 'PTS', decimals: 40 }).error).toMatch(/decimals/);
+  });
+
+  it('derives session chains, explorer links and daily caps', () => {
+    const namespaces = { eip155: { accounts: ['eip155:1:0xAbC', 'eip155:8453:0xabc', 'eip155:10:0xdef'] } };
+    expect(sessionChainIds(namespaces)).toEqual([1, 8453, 10]);
+    expect(sessionChainIds(namespaces, '0xabc')).toEqual([1, 8453]);
+    expect(sessionChainIds(undefined)).toEqual([]);
+
+    expect(explorerTxUrl('https://basescan.org/', '0x12')).toBe('https://basescan.org/tx/0x12');
+    expect(explorerTxUrl('', '0x12')).toBeUndefined();
+    expect(capDay(new Date('2026-03-04T23:59:59Z'))).toBe('2026-03-04');
+
+    expect(fitsDailyCap(0, 1e9, 5)).toBe(true);
+    expect(fitsDailyCap(100, 95, 5)).toBe(true);
+    expect(fitsDailyCap(100, 96, 5)).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { buildClusters, clusterId, scoreCluster } from '../src/services/clusters/cluster-graph';
+
+describe('account cluster graph', () => {
+  it('joins accounts through shared attributes and scores the components', () => {
+    const { clusters, skippedAttributes } = buildClusters([
+      { kind: 'device', value: 'dev-1', userIds: ['1', '2'] },
+      { kind: 'wallet', value: '0xabc', userIds: ['2', '3'] },
+      { kind: 'ip', value: '10.0.0.1', userIds: ['7', '8'] },
+      // Shared by more accounts than allowed: ignored
+      { kind: 'ip', value: '100.64.0.1', userIds: ['1', '7', '9', '10'] },
+      { kind: 'canvas', value: 'solo', userIds: ['4'] }
+    ], [
+      { referrerId: '3', referredUserId: '7' },
+      // Referrer outside every cluster does not pull its invitee in
+      { referrerId: '5', referredUserId: '1' }
+    ], { maxSharedAccounts: 3 });
+
+    expect(skippedAttributes).toBe(1);
+    expect(clusters).toHaveLength(1);
+    const [cluster] = clusters;
+    expect(cluster.members).toEqual(['1', '2', '3', '7', '8']);
+    expect(cluster.id).toBe(clusterId(['8', '7', '3', '2', '1']));
+    expect(cluster.linkCounts).toEqual({ device: 1, wallet: 1, ip: 1, referral: 1 });
+    expect(cluster.score).toBe(scoreCluster(cluster.members, cluster.edges));
+  });
+
+  it('scores device-linked clusters above IP-only ones', () => {
+    const members = ['a', 'b', 'c'];
+    const byDevice = scoreCluster(members, [
+      { source: 'a', target: 'b', kind: 'device', value: 'd' },
+      { source: 'a', target: 'c', kind: 'device', value: 'd' }
+    ]);
+    const byIp = scoreCluster(members, [
+      { source: 'a', target: 'b', kind: 'ip', value: 'i' },
+      { source: 'a', target: 'c', kind: 'ip', value: 'i' }
+    ]);
+    expect(byDevice).toBe(0.9);
+    expect(byIp).toBe(0.3);
+    expect(scoreCluster(members, [{ source: 'a', target: 'b', kind: 'ip', value: 'i' }])).toBe(0.2);
+  });
+});
@@ -0,0 +1,44 @@
+import { BotHarness } from './harness';
+
+describe('captcha-gated registration', () => {
+  let harness: BotHarness;
+
+  beforeAll(async () => {
+    harness = await BotHarness.start({ env: { SVG_CAPTCHA_ENABLED: 'true' } });
+  }, 120000);
+
+  afterAll(async () => {
+    await harness?.stop();
+  });
+
+  it('holds a new user at the text captcha and registers them once it is solved', async () => {
+    const dana = harness.user(301, { first_name: 'Dana' });
+    await dana.sends('/start');
+
+    expect(dana.buttons()).toEqual(['Start Text Verification']);
+    expect(await harness.getUser(301)).toBeNull();
+
+    const [challenge] = await dana.taps('Start Text Verification');
+    expect(challenge).toMatchObject({ method: 'sendPhoto', caption: '❇️ Please enter the captcha:' });
+
+    await dana.sends((await harness.captchaAnswer(301)).toLowerCase());
+    await dana.waitForMessage("Let's Get You Started");
+    expect(await harness.getUser(301)).toMatchObject({
+      firstName: 'Dana',
+      svgCaptchaVerified: true,
+      registrationStatus: 'completed'
+    });
+  });
+
+  it('keeps the referral code across the captcha', async () => {
+    await harness.seedUser({ telegramId: '310', firstName: 'Rex', referralCode: 'REX2024' });
+    const eli = harness.user(311, { first_name: 'Eli' });
+    await eli.sends('/start', { ref: 'REX2024' });
+    await eli.taps('Start Text Verification');
+    await eli.sends(await harness.captchaAnswer(311));
+
+    await eli.waitForMessage("Let's Get You Started");
+    await harness.user(310).waitForMessage('New Referral Found');
+    expect(await harness.getUser(311)).toMatchObject({ referredBy: '310', points: 7 });
+  });
+});
@@ -0,0 +1,490 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * In-process stand-in for the Telegram Bot API. The bot talks to it over
+ * plain HTTP (`TELEGRAM_API_ROOT`); every call is recorded, messages the bot
+ * sends are kept per chat so edits and button taps resolve against them, and
+ * getChatMember answers from statuses the test sets. Updates are built here
+ * too so update and message ids follow one sequence, like a real chat.
+ */
+
+export interface ApiCall {
+  method: string;
+  payload: Record<string, any>;
+  at: number;
+}
+
+export interface InlineButton {
+  text: string;
+  callback_data?: string;
+  url?: string;
+  [key: string]: any;
+}
+
+export interface ChatMessage {
+  message_id: number;
+  chatId: string;
+  from: 'bot' | 'user';
+  /** Method that produced the current content (sendMessage, editMessageText, ...) */
+  method: string;
+  text?: string;
+  caption?: string;
+  /** Set for photos, documents and other media */
+  media?: string;
+  reply_markup?: { inline_keyboard?: InlineButton[][]; [key: string]: any };
+  deleted?: boolean;
+  /** Bumped on every send or edit, for "changed since" checks */
+  revision: number;
+}
+
+export interface TelegramProfile {
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+  is_premium?: boolean;
+}
+
+type Responder = (payload: Record<string, any>) => any;
+type UpdateHandler = (update: any) => Promise<void>;
+
+/** Throw from a responder to answer with `{ ok: false }` like Telegram does */
+export class FakeApiError extends Error {
+  constructor(readonly errorCode: number, readonly description: string) {
+    super(description);
+    this.name = 'FakeApiError';
+  }
+}
+
+const SEND_METHODS: Record<string, string> = {
+  sendMessage: 'text',
+  sendPhoto: 'photo',
+  sendDocument: 'document',
+  sendAnimation: 'animation',
+  sendVideo: 'video',
+  sendAudio: 'audio',
+  sendVoice: 'voice',
+  sendSticker: 'sticker'
+};
+const MEMBER_STATUSES = new Set(['creator', 'administrator', 'member', 'restricted', 'left', 'kicked']);
+
+export class FakeBotApi {
+  readonly token: string;
+  readonly botInfo: { id: number; is_bot: true; first_name: string; username: string; can_join_groups: boolean; can_read_all_group_messages: boolean; supports_inline_queries: boolean };
+  readonly calls: ApiCall[] = [];
+
+  private server: http.Server | null = null;
+  private root = '';
+  private readonly chats = new Map<string, ChatMessage[]>();
+  private readonly members = new Map<string, string>();
+  private readonly responders = new Map<string, Responder>();
+  /** callback_query id → user who tapped */
+  private readonly callbackOwners = new Map<string, number>();
+  private updateHandler: UpdateHandler | null = null;
+  private nextMessageId = 1;
+  private nextUpdateId = 1;
+  private nextCallbackId = 1;
+  private revision = 0;
+  private inFlight = 0;
+  private lastActivityAt = Date.now();
+
+  constructor(options: { token?: string; username?: string } = {}) {
+    this.token = options.token || '100000001:E2E_TEST_TOKEN';
+    this.botInfo = {
+      id: Number(this.token.split(':')[0]) || 100000001,
+      is_bot: true,
+      first_name: 'E2E Bot',
+      username: options.username || 'e2e_test_bot',
+      can_join_groups: true,
+      can_read_all_group_messages: false,
+      supports_inline_queries: false
+    };
+  }
+
+  /** Base URL to hand to Telegraf as `apiRoot` */
+  get apiRoot(): string {
+    if (!this.root) throw new Error('FakeBotApi is not started');
+    return this.root;
+  }
+
+  async start(): Promise<string> {
+    if (this.server) return this.root;
+    const server = http.createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    this.root = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.root;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    server.closeAllConnections?.();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /** Replace the built-in answer for a method; return the result or throw FakeApiError */
+  respond(method: string, responder: Responder | null): void {
+    if (responder) this.responders.set(method, responder);
+    else this.responders.delete(method);
+  }
+
+  /** Fail the next `times` calls to a method, e.g. 403 "bot was blocked by the user" */
+  failNext(method: string, errorCode: number, description: string, times = 1): void {
+    let left = times;
+    const previous = this.responders.get(method);
+    this.respond(method, payload => {
+      if (left-- > 0) throw new FakeApiError(errorCode, description);
+      this.respond(method, previous || null);
+      return previous ? previous(payload) : this.builtIn(method, payload);
+    });
+  }
+
+  /** Status getChatMember reports for the user in the chat; everyone else has 'left' */
+  setChatMember(chatId: number | string, userId: number | string, status: string): void {
+    if (!MEMBER_STATUSES.has(status)) throw new Error(`Unknown chat member status: ${status}`);
+    this.members.set(`${chatId}:${userId}`, status);
+  }
+
+  /** Where injected updates go, normally `bot.handleUpdate` */
+  onUpdate(handler: UpdateHandler): void {
+    this.updateHandler = handler;
+  }
+
+  async inject(update: any): Promise<void> {
+    if (!this.updateHandler) throw new Error('No update handler registered; call onUpdate() first');
+    this.touch();
+    await this.updateHandler(update);
+  }
+
+  /** A private text message from the user, recorded in the chat */
+  messageUpdate(from: { id: number } & TelegramProfile, text: string): any {
+    const message = this.record(String(from.id), 'user', 'message', { text });
+    const entities = text.startsWith('/') ? [{ type: 'bot_command', offset: 0, length: text.split(/\s/)[0].length }] : undefined;
+    return {
+      update_id: this.nextUpdateId++,
+      message: {
+        message_id: message.message_id,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: from.id, type: 'private', first_name: from.first_name, username: from.username },
+        from: this.userObject(from),
+        text,
+        ...(entities ? { entities } : {})
+      }
+    };
+  }
+
+  /** A tap on an inline button of a message the bot sent in the user's chat */
+  callbackUpdate(from: { id: number } & TelegramProfile, message: ChatMessage, data: string): any {
+    const id = String(this.nextCallbackId++);
+    this.callbackOwners.set(id, from.id);
+    return {
+      update_id: this.nextUpdateId++,
+      callback_query: {
+        id,
+        from: this.userObject(from),
+        chat_instance: String(from.id),
+        data,
+        message: this.messageObject(message)
+      }
+    };
+  }
+
+  /** A chat_member update for a user joining or leaving a chat; also updates getChatMember */
+  chatMemberUpdate(chatId: number | string, from: { id: number } & TelegramProfile, oldStatus: string, newStatus: string): any {
+    this.setChatMember(chatId, from.id, newStatus);
+    const user = this.userObject(from);
+    return {
+      update_id: this.nextUpdateId++,
+      chat_member: {
+        chat: this.chatObject(String(chatId)),
+        from: user,
+        date: Math.floor(Date.now() / 1000),
+        old_chat_member: { status: oldStatus, user },
+        new_chat_member: { status: newStatus, user }
+      }
+    };
+  }
+
+  callsTo(method: string): ApiCall[] {
+    return this.calls.filter(call => call.method === method);
+  }
+
+  lastCall(method: string): ApiCall | undefined {
+    const calls = this.callsTo(method);
+    return calls[calls.length - 1];
+  }
+
+  /** Toast texts shown for the user's button taps, oldest first */
+  callbackAnswers(userId: number): string[] {
+    return this.callsTo('answerCallbackQuery')
+      .filter(call => this.callbackOwners.get(String(call.payload.callback_query_id)) === userId && typeof call.payload.text === 'string')
+      .map(call => call.payload.text);
+  }
+
+  /** Messages in the chat that were not deleted, oldest first */
+  transcript(chatId: number | string): ChatMessage[] {
+    return (this.chats.get(String(chatId)) || []).filter(message => !message.deleted);
+  }
+
+  botMessages(chatId: number | string): ChatMessage[] {
+    return this.transcript(chatId).filter(message => message.from === 'bot');
+  }
+
+  /** Newest message of the bot whose keyboard has a button with this callback data or label */
+  findButton(chatId: number | string, label: string): { message: ChatMessage; button: InlineButton } | null {
+    const messages = this.botMessages(chatId);
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const rows = messages[i].reply_markup?.inline_keyboard || [];
+      for (const row of rows) {
+        const button = row.find(b => b.callback_data === label) || row.find(b => b.text === label);
+        if (button) return { message: messages[i], button };
+      }
+    }
+    return null;
+  }
+
+  /** Current sequence number; pass to `changedSince` to find what the bot sent or edited afterwards */
+  mark(): number {
+    return this.revision;
+  }
+
+  changedSince(chatId: number | string, mark: number): ChatMessage[] {
+    return this.botMessages(chatId).filter(message => message.revision > mark);
+  }
+
+  clearCalls(): void {
+    this.calls.length = 0;
+  }
+
+  /** Resolves once the bot has made no calls for `quietMs` and none is in progress */
+  async settle(quietMs = 150, timeoutMs = 10000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const idleFor = Date.now() - this.lastActivityAt;
+      if (this.inFlight === 0 && idleFor >= quietMs) return;
+      await sleep(Math.max(10, quietMs - idleFor));
+    }
+    throw new Error(`Bot did not settle within ${timeoutMs}ms (${this.inFlight} calls in progress)`);
+  }
+
+  /** Polls until the predicate returns something truthy and returns it */
+  async waitFor<T>(predicate: () => T | null | undefined | false, timeoutMs = 5000, description = 'condition'): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const value = predicate();
+      if (value) return value;
+      if (Date.now() >= deadline) throw new Error(`Timed out after ${timeoutMs}ms waiting for ${description}`);
+      await sleep(20);
+    }
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    this.inFlight++;
+    this.touch();
+    let status = 200;
+    let body: any;
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const match = url.pathname.match(/^\/bot([^/]+)\/(?:test\/)?([A-Za-z]+)$/);
+      if (!match) {
+        status = 404;
+        body = { ok: false, error_code: 404, description: 'Not Found' };
+      } else if (match[1] !== this.token) {
+        status = 401;
+        body = { ok: false, error_code: 401, description: 'Unauthorized' };
+      } else {
+        const method = match[2];
+        const payload = { ...Object.fromEntries(url.searchParams), ...(await readPayload(req)) };
+        delete payload.method;
+        this.calls.push({ method, payload, at: Date.now() });
+        try {
+          const responder = this.responders.get(method);
+          body = { ok: true, result: responder ? responder(payload) : this.builtIn(method, payload) };
+        } catch (error) {
+          if (!(error instanceof FakeApiError)) throw error;
+          status = error.errorCode;
+          body = { ok: false, error_code: error.errorCode, description: error.description };
+        }
+      }
+    } catch (error) {
+      status = 500;
+      body = { ok: false, error_code: 500, description: (error as Error)?.message || String(error) };
+    } finally {
+      this.inFlight--;
+      this.touch();
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  /** Answers modelled on the real API, including its errors for edits that change nothing */
+  private builtIn(method: string, payload: Record<string, any>): any {
+    if (method in SEND_METHODS) {
+      const kind = SEND_METHODS[method];
+      const message = this.record(String(payload.chat_id), 'bot', method, {
+        text: kind === 'text' ? String(payload.text ?? '') : undefined,
+        caption: kind === 'text' ? undefined : payload.caption,
+        media: kind === 'text' ? undefined : kind,
+        reply_markup: payload.reply_markup
+      });
+      return this.messageObject(message);
+    }
+
+    switch (method) {
+      case 'getMe':
+        return this.botInfo;
+      case 'editMessageText':
+      case 'editMessageCaption':
+      case 'editMessageReplyMarkup':
+        return this.edit(method, payload);
+      case 'deleteMessage': {
+        const message = this.find(payload.chat_id, payload.message_id);
+        if (!message) throw new FakeApiError(400, 'Bad Request: message to delete not found');
+        message.deleted = true;
+        return true;
+      }
+      case 'getChatMember': {
+        const status = this.members.get(`${payload.chat_id}:${payload.user_id}`) || 'left';
+        const user = { id: Number(payload.user_id), is_bot: false, first_name: 'User' };
+        return status === 'restricted' ? { status, user, is_member: true } : { status, user };
+      }
+      case 'getChat':
+        return this.chatObject(String(payload.chat_id));
+      case 'getUpdates':
+        return [];
+      default:
+        // answerCallbackQuery, setMyCommands, sendChatAction, deleteWebhook, ...
+        return true;
+    }
+  }
+
+  private edit(method: string, payload: Record<string, any>): any {
+    if (payload.inline_message_id) return true;
+    const message = this.find(payload.chat_id, payload.message_id);
+    if (!message) throw new FakeApiError(400, 'Bad Request: message to edit not found');
+
+    const next = { text: message.text, caption: message.caption, reply_markup: payload.reply_markup };
+    if (method === 'editMessageText') {
+      if (message.media) throw new FakeApiError(400, 'Bad Request: there is no text in the message to edit');
+      next.text = String(payload.text ?? '');
+    } else if (method === 'editMessageCaption') {
+      if (!message.media) throw new FakeApiError(400, 'Bad Request: there is no caption in the message to edit');
+      next.caption = payload.caption;
+    }
+    if (next.text === message.text && next.caption === message.caption &&
+        JSON.stringify(next.reply_markup ?? null) === JSON.stringify(message.reply_markup ?? null)) {
+      throw new FakeApiError(400, 'Bad Request: message is not modified: specified new message content and reply markup are exactly the same as a current content and reply markup of the message');
+    }
+    Object.assign(message, next, { method, revision: ++this.revision });
+    return this.messageObject(message);
+  }
+
+  private record(chatId: string, from: 'bot' | 'user', method: string, content: Pick<ChatMessage, 'text' | 'caption' | 'media' | 'reply_markup'>): ChatMessage {
+    const message: ChatMessage = { message_id: this.nextMessageId++, chatId, from, method, ...content, revision: ++this.revision };
+    if (!this.chats.has(chatId)) this.chats.set(chatId, []);
+    this.chats.get(chatId)!.push(message);
+    return message;
+  }
+
+  private find(chatId: unknown, messageId: unknown): ChatMessage | undefined {
+    return this.transcript(String(chatId)).find(message => message.message_id === Number(messageId));
+  }
+
+  private messageObject(message: ChatMessage): any {
+    return {
+      message_id: message.message_id,
+      date: Math.floor(Date.now() / 1000),
+      chat: this.chatObject(message.chatId),
+      ...(message.from === 'bot' ? { from: { id: this.botInfo.id, is_bot: true, first_name: this.botInfo.first_name, username: this.botInfo.username } } : {}),
+      ...(message.text !== undefined ? { text: message.text } : {}),
+      ...(message.caption !== undefined ? { caption: message.caption } : {}),
+      ...(message.media === 'photo' ? { photo: [{ file_id: `photo_${message.message_id}`, file_unique_id: `p${message.message_id}`, width: 320, height: 120 }] } : {}),
+      ...(message.media && message.media !== 'photo' ? { [message.media]: { file_id: `${message.media}_${message.message_id}`, file_unique_id: `f${message.message_id}` } } : {}),
+      ...(message.reply_markup?.inline_keyboard ? { reply_markup: message.reply_markup } : {})
+    };
+  }
+
+  private chatObject(chatId: string): any {
+    if (/^\d+$/.test(chatId)) return { id: Number(chatId), type: 'private', first_name: 'User' };
+    if (/^-\d+$/.test(chatId)) return { id: Number(chatId), type: 'supergroup', title: `Chat ${chatId}` };
+    return { id: chatId, type: 'channel', title: chatId, username: chatId.replace(/^@/, '') };
+  }
+
+  private userObject(from: { id: number } & TelegramProfile): any {
+    return {
+      id: from.id,
+      is_bot: false,
+      first_name: from.first_name || `User ${from.id}`,
+      ...(from.last_name ? { last_name: from.last_name } : {}),
+      ...(from.username ? { username: from.username } : {}),
+      language_code: from.language_code || 'en',
+      ...(from.is_premium ? { is_premium: true } : {})
+    };
+  }
+
+  private touch(): void {
+    this.lastActivityAt = Date.now();
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Telegraf posts JSON, or multipart/form-data when a file is attached */
+async function readPayload(req: http.IncomingMessage): Promise<Record<string, any>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const raw = Buffer.concat(chunks);
+  if (!raw.length) return {};
+
+  const type = String(req.headers['content-type'] || '');
+  if (type.startsWith('application/json')) return JSON.parse(raw.toString('utf8'));
+  if (type.startsWith('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(Object.entries(Object.fromEntries(new URLSearchParams(raw.toString('utf8')))).map(([k, v]) => [k, parseField(v)]));
+  }
+  const boundary = type.match(/boundary=("?)([^";]+)\1/)?.[2];
+  if (type.startsWith('multipart/form-data') && boundary) return parseMultipart(raw, boundary);
+  return {};
+}
+
+function parseMultipart(raw: Buffer, boundary: string): Record<string, any> {
+  const payload: Record<string, any> = {};
+  const delimiter = Buffer.from(`--${boundary}`);
+  let start = raw.indexOf(delimiter);
+  while (start !== -1) {
+    const partStart = start + delimiter.length;
+    if (raw.slice(partStart, partStart + 2).toString() === '--') break;
+    const end = raw.indexOf(delimiter, partStart);
+    if (end === -1) break;
+    const part = raw.slice(partStart + 2, end - 2);
+    const split = part.indexOf('\r\n\r\n');
+    if (split !== -1) {
+      const headers = part.slice(0, split).toString('utf8');
+      const body = part.slice(split + 4);
+      const name = headers.match(/name="([^"]*)"/)?.[1];
+      const filename = headers.match(/filename="([^"]*)"/)?.[1];
+      if (name) payload[name] = filename !== undefined ? { filename, size: body.length } : parseField(body.toString('utf8'));
+    }
+    start = end;
+  }
+  return payload;
+}
+
+/** Multipart and form fields carry objects as JSON strings */
+function parseField(value: string): any {
+  if (/^[[{]/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
@@ -0,0 +1,133 @@
+import { jest } from '@jest/globals';
+import type { MongoMemoryReplSet } from 'mongodb-memory-server';
+import type { TelegramBot } from '../../src/bot/telegram-bot';
+import type { User } from '../../src/types/user.types';
+import { FakeBotApi, TelegramProfile } from './fake-bot-api';
+import { ScenarioOptions, ScenarioUser } from './scenario';
+
+export interface BotHarnessOptions extends ScenarioOptions {
+  /** Environment for config on top of the harness defaults, e.g. captcha switches */
+  env?: Record<string, string>;
+}
+
+/** Channel the default task_01 and withdrawals check membership of */
+export const E2E_TASK_CHANNEL_ID = '-1001000000001';
+export const E2E_REQUIRED_CHANNEL = '@e2e_channel';
+
+const DEFAULT_ENV: Record<string, string> = {
+  NODE_ENV: 'test',
+  MONGODB_DATABASE: 'airdrop_bot_e2e',
+  // Served by ioredis-mock (jest.e2e.config.ts maps the module), so sessions and dedup run the Redis code path
+  REDIS_HOST: '127.0.0.1',
+  MINIAPP_CAPTCHA_ENABLED: 'false',
+  SVG_CAPTCHA_ENABLED: 'false',
+  WALLETCONNECT_PROJECT_ID: 'e2e-project',
+  REQUIRED_CHANNEL_ID: E2E_REQUIRED_CHANNEL,
+  TASK_TELEGRAM_CHANNEL_ID: E2E_TASK_CHANNEL_ID,
+  ADMIN_USER_IDS: '',
+  WITHDRAW_ALERT_CHANNEL_ID: ''
+};
+
+/**
+ * The whole bot — middleware, sessions, handlers, storage — against
+ * mongodb-memory-server, ioredis-mock and the fake Bot API, with no network.
+ * Config is read when modules load, so the harness sets the environment
+ * first and imports the bot afterwards; suites should import bot modules
+ * only as types. Jest gives every suite a fresh module registry, so each
+ * file can start one harness with its own settings.
+ */
+export class BotHarness {
+  private readonly users = new Map<number, ScenarioUser>();
+
+  private constructor(
+    readonly api: FakeBotApi,
+    readonly bot: TelegramBot,
+    private readonly mongo: MongoMemoryReplSet,
+    private readonly options: BotHarnessOptions
+  ) {}
+
+  static async start(options: BotHarnessOptions = {}): Promise<BotHarness> {
+    const api = new FakeBotApi();
+    await api.start();
+    const { MongoMemoryReplSet } = await import('mongodb-memory-server');
+    // A one-node replica set, so the points ledger posts inside transactions as in production
+    const mongo = await MongoMemoryReplSet.create({ replSet: { count: 1 } });
+
+    Object.assign(process.env, DEFAULT_ENV, {
+      BOT_TOKEN: api.token,
+      BOT_USERNAME: api.botInfo.username,
+      TELEGRAM_API_ROOT: api.apiRoot,
+      MONGODB_URL: mongo.getUri()
+    }, options.env);
+
+    const { storage } = await import('../../src/storage');
+    await storage.initialize();
+    const { runtimeSettingsService } = await import('../../src/services/settings/runtime-settings.service');
+    await runtimeSettingsService.initialize();
+
+    // The WalletConnect relay is a websocket service; scenarios never open wallet sessions
+    const { WalletConnectService } = await import('../../src/services/walletconnect.service');
+    jest.spyOn(WalletConnectService.prototype, 'initialize').mockResolvedValue(undefined);
+
+    const { TelegramBot } = await import('../../src/bot/telegram-bot');
+    const bot = new TelegramBot();
+    await bot.initialize();
+    api.onUpdate(update => bot.getInstance().handleUpdate(update));
+    await api.settle();
+    api.clearCalls();
+
+    return new BotHarness(api, bot, mongo, options);
+  }
+
+  /** The scenario handle for a Telegram user; the same object for the same id */
+  user(id: number, profile: TelegramProfile = {}): ScenarioUser {
+    if (!this.users.has(id)) {
+      this.users.set(id, new ScenarioUser(this.api, id, { first_name: `User${id}`, username: `user${id}`, ...profile }, this.options));
+    }
+    return this.users.get(id)!;
+  }
+
+  /** Stores an already registered user, for scenarios that start past onboarding */
+  async seedUser(data: Partial<User> & { telegramId: string }): Promise<User> {
+    const { UserFactory } = await import('../../src/factories/user-factory');
+    const { storage } = await import('../../src/storage');
+    const user = UserFactory.createUserData({
+      firstName: `User${data.telegramId}`,
+      username: `user${data.telegramId}`,
+      ...data
+    });
+    if (!(await storage.createUser(user))) throw new Error(`Could not seed user ${data.telegramId}`);
+    return user;
+  }
+
+  async getUser(id: number | string): Promise<User | null> {
+    const { storage } = await import('../../src/storage');
+    return storage.getUser(String(id));
+  }
+
+  /** Answer of the newest captcha the bot issued to a user; the image itself cannot be read back */
+  async captchaAnswer(id: number | string): Promise<string> {
+    const { MongoClient } = await import('mongodb');
+    const client = await MongoClient.connect(this.mongo.getUri());
+    try {
+      const session = await client
+        .db(process.env.MONGODB_DATABASE)
+        .collection('captcha_sessions')
+        .findOne({ userId: String(id) }, { sort: { createdAt: -1 } });
+      if (!session?.answer) throw new Error(`No captcha issued to user ${id}`);
+      return session.answer;
+    } finally {
+      await client.close();
+    }
+  }
+
+  async stop(): Promise<void> {
+    const { runtimeSettingsService } = await import('../../src/services/settings/runtime-settings.service');
+    const { storage } = await import('../../src/storage');
+    await runtimeSettingsService.stop();
+    await storage.close();
+    await this.mongo.stop();
+    await this.api.stop();
+    jest.restoreAllMocks();
+  }
+}
@@ -0,0 +1,56 @@
+import { BotHarness } from './harness';
+
+describe('registration and referrals', () => {
+  let harness: BotHarness;
+
+  beforeAll(async () => {
+    harness = await BotHarness.start();
+  }, 120000);
+
+  afterAll(async () => {
+    await harness?.stop();
+  });
+
+  it('registers a new user and replaces the setup message with the onboarding guide', async () => {
+    const alice = harness.user(101, { first_name: 'Alice' });
+    await alice.sends('/start');
+
+    await alice.waitForMessage("Let's Get You Started");
+    expect(alice.texts()).not.toContain('👋 Welcome! Setting up your account...');
+    expect(alice.buttons()).toContain('Start Earning Now');
+    expect(await harness.getUser(101)).toMatchObject({ firstName: 'Alice', username: 'user101', points: 0 });
+
+    await alice.taps('Start Earning Now');
+    await alice.waitForMessage('Welcome, Alice!');
+    expect(alice.buttons()).toEqual(expect.arrayContaining(['Tasks', 'Wallet']));
+  });
+
+  it('opens the main menu for a returning user instead of registering again', async () => {
+    const alice = harness.user(101);
+    const reply = await alice.sends('/start');
+
+    expect(reply.map(message => message.text)).toEqual([expect.stringContaining('Welcome, Alice!')]);
+    expect(alice.texts().filter(text => text.includes("Let's Get You Started"))).toHaveLength(1);
+  });
+
+  it('links a referred user, pays the welcome bonus and tells the referrer', async () => {
+    await harness.seedUser({ telegramId: '201', firstName: 'Rita', referralCode: 'RITA2024' });
+    const bob = harness.user(202, { first_name: 'Bob' });
+    await bob.sends('/start', { ref: 'RITA2024' });
+
+    await bob.waitForMessage("Let's Get You Started");
+    await harness.user(201).waitForMessage('New Referral Found');
+    expect(await harness.getUser(202)).toMatchObject({ referredBy: '201', points: 7 });
+    expect(await harness.getUser(201)).toMatchObject({ totalReferrals: 1, points: 0 });
+  });
+
+  it('registers without a referrer when the code is unknown', async () => {
+    const carl = harness.user(203, { first_name: 'Carl' });
+    await carl.sends('/start', { ref: 'NO_SUCH_CODE' });
+
+    await carl.waitForMessage("Let's Get You Started");
+    const user = await harness.getUser(203);
+    expect(user?.referredBy).toBeUndefined();
+    expect(user?.points).toBe(0);
+  });
+});
@@ -0,0 +1,168 @@
+import { jest } from '@jest/globals';
+import { Collection } from 'mongodb';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import type { PointsLedgerService } from '../../src/services/ledger/points-ledger.service';
+
+/**
+ * The ledger against a standalone mongod, i.e. without transactions: every
+ * post runs the pending entry → conditional $inc → commit protocol.
+ */
+describe('points ledger (pending-entry protocol)', () => {
+  let mongo: MongoMemoryServer;
+  let ledger: PointsLedgerService;
+  let storage: typeof import('../../src/storage').storage;
+
+  const entries = async (userId: string) => {
+    const raw = (storage.getStorageInstance() as any).getRawCollection('point_transactions');
+    return raw.find({ userId }).sort({ _id: 1 }).toArray();
+  };
+
+  const expectNoDrift = async (userId: string) => {
+    const { balance } = await ledger.getLedgerBalance(userId);
+    expect(await ledger.getBalance(userId)).toBe(balance);
+  };
+
+  const seed = async (userId: string, credit = 0) => {
+    const { UserFactory } = await import('../../src/factories/user-factory');
+    await storage.createUser(UserFactory.createUserData({ telegramId: userId }));
+    if (credit) await ledger.post({ userId, amount: credit, type: 'earned', description: 'seed', idempotencyKey: `seed:${userId}` });
+  };
+
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    Object.assign(process.env, {
+      NODE_ENV: 'test',
+      MONGODB_URL: mongo.getUri(),
+      MONGODB_DATABASE: 'airdrop_bot_ledger'
+    });
+    ({ storage } = await import('../../src/storage'));
+    await storage.initialize();
+    ledger = (await import('../../src/services/ledger/points-ledger.service')).PointsLedgerService.getInstance();
+  }, 120000);
+
+  afterAll(async () => {
+    await storage?.close();
+    await mongo?.stop();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('commits the entry after moving the balance', async () => {
+    await seed('1');
+    const result = await ledger.post({ userId: '1', amount: 25, type: 'earned', description: 'Task' });
+
+    expect(result).toMatchObject({ success: true, newBalance: 25 });
+    expect(await entries('1')).toEqual([expect.objectContaining({ amount: 25, status: 'committed', balanceAfter: 25 })]);
+    await expectNoDrift('1');
+  });
+
+  it('moves points once per idempotency key, also when replays race', async () => {
+    await seed('2');
+    const request = { userId: '2', amount: 10, type: 'bonus' as const, description: 'Welcome', idempotencyKey: 'welcome:2' };
+    const results = await Promise.all([ledger.post(request), ledger.post(request), ledger.post(request)]);
+    const again = await ledger.post(request);
+
+    expect(results.filter(r => !r.duplicate)).toHaveLength(1);
+    expect(again).toMatchObject({ success: true, duplicate: true, newBalance: 10 });
+    expect(await entries('2')).toHaveLength(1);
+    await expectNoDrift('2');
+  });
+
+  it('voids the pending entry when the balance update fails', async () => {
+    await seed('3', 50);
+    jest.spyOn(Collection.prototype, 'findOneAndUpdate').mockRejectedValueOnce(new Error('connection reset'));
+
+    const result = await ledger.post({ userId: '3', amount: -20, type: 'spent', description: 'Withdrawal' });
+
+    expect(result).toMatchObject({ success: false, error: 'storage_error' });
+    expect(await ledger.getBalance('3')).toBe(50);
+    expect((await entries('3')).map((e: any) => e.status)).toEqual(['committed', 'void']);
+    await expectNoDrift('3');
+  });
+
+  it('never lets debits take the balance below zero', async () => {
+    await seed('4', 100);
+    const debit = { userId: '4', amount: -60, type: 'spent' as const, description: 'Purchase' };
+    const results = await Promise.all([ledger.post(debit), ledger.post(debit)]);
+
+    expect(results.map(r => r.success).sort()).toEqual([false, true]);
+    expect(results.find(r => !r.success)?.error).toBe('insufficient_balance');
+    expect(await ledger.getBalance('4')).toBe(40);
+
+    const clamped = await ledger.post({ userId: '4', amount: -500, type: 'penalty', description: 'Penalty', clampToZero: true });
+    expect(clamped).toMatchObject({ success: true, newBalance: 0 });
+    expect(clamped.entry?.metadata).toMatchObject({ requestedAmount: -500 });
+    await expectNoDrift('4');
+  });
+
+  it('transfers both legs and refunds the sender when the credit cannot land', async () => {
+    await seed('5', 200);
+    await seed('6');
+
+    const sent = await ledger.transfer({
+      transferId: 't1', senderId: '5', receiverId: '6', debitAmount: 100, creditAmount: 98,
+      senderDescription: 'Sent', receiverDescription: 'Received'
+    });
+    expect(sent).toMatchObject({ success: true, senderBalance: 100, receiverBalance: 98 });
+
+    const replay = await ledger.transfer({
+      transferId: 't1', senderId: '5', receiverId: '6', debitAmount: 100, creditAmount: 98,
+      senderDescription: 'Sent', receiverDescription: 'Received'
+    });
+    expect(replay).toMatchObject({ success: true, duplicate: true, senderBalance: 100, receiverBalance: 98 });
+
+    const failed = await ledger.transfer({
+      transferId: 't2', senderId: '5', receiverId: 'nobody', debitAmount: 50, creditAmount: 49,
+      senderDescription: 'Sent', receiverDescription: 'Received'
+    });
+    expect(failed).toMatchObject({ success: false, error: 'user_not_found', senderBalance: 100 });
+    expect((await entries('5')).map((e: any) => [e.type, e.amount])).toEqual([
+      ['earned', 200], ['transfer_sent', -100], ['transfer_sent', -50], ['refund', 50]
+    ]);
+    await expectNoDrift('5');
+    await expectNoDrift('6');
+  });
+
+  it('leaves a balance alone while a posting for the user is still pending', async () => {
+    const { LedgerReconciliationService } = await import('../../src/services/ledger/ledger-reconciliation.service');
+    await seed('7', 30);
+    // A post() stopped between its $inc and its commit
+    const raw = (storage.getStorageInstance() as any);
+    await raw.getRawCollection('point_transactions').insertOne({
+      id: 'tx_inflight_7', userId: '7', amount: 5, type: 'earned', status: 'pending', createdAt: new Date(), timestamp: new Date()
+    });
+    await raw.getRawCollection('users').updateOne({ id: '7' }, { $inc: { points: 5 } });
+
+    const report = await LedgerReconciliationService.getInstance().reconcile({ repair: 'rebuild', userIds: ['7'] });
+
+    expect(report.deferred).toBe(1);
+    expect(report.drifts).toEqual([expect.objectContaining({ userId: '7', drift: 5, action: 'deferred' })]);
+    expect(await ledger.getBalance('7')).toBe(35);
+  });
+
+  it('does not backfill drift that a concurrent post created between the balance and ledger reads', async () => {
+    const { LedgerReconciliationService } = await import('../../src/services/ledger/ledger-reconciliation.service');
+    const reconciliation = LedgerReconciliationService.getInstance() as any;
+    await seed('8', 20);
+    // Points granted before the ledger existed: the real drift is 10
+    await (storage.getStorageInstance() as any).getRawCollection('users').updateOne({ id: '8' }, { $inc: { points: 10 } });
+
+    // The post lands after the balances were read but before the ledger sums
+    const getLedgerSums = reconciliation.getLedgerSums.bind(reconciliation);
+    jest.spyOn(reconciliation, 'getLedgerSums').mockImplementationOnce(async (ids: any) => {
+      await ledger.post({ userId: '8', amount: 5, type: 'earned', description: 'Task' });
+      return getLedgerSums(ids);
+    });
+
+    const raced = await reconciliation.reconcile({ repair: 'backfill', userIds: ['8'] });
+    expect(raced.drifts).toEqual([expect.objectContaining({ userId: '8', drift: 5, action: 'deferred' })]);
+    expect((await entries('8')).filter((e: any) => e.type === 'adjustment')).toEqual([]);
+
+    const settled = await reconciliation.reconcile({ repair: 'backfill', userIds: ['8'] });
+    expect(settled.drifts).toEqual([expect.objectContaining({ userId: '8', drift: 10, action: 'backfilled' })]);
+    expect(await ledger.getBalance('8')).toBe(35);
+    await expectNoDrift('8');
+  });
+});
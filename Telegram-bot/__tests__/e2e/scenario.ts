@@ -0,0 +1,116 @@
+import { ChatMessage, FakeBotApi, TelegramProfile } from './fake-bot-api';
+
+/** How long the bot must stay quiet before a step counts as done; handlers often reply after returning */
+const DEFAULT_QUIET_MS = 150;
+/** TelegramBot drops taps on a message for 1.2s after handling the previous one (double-click guard) */
+const SAME_MESSAGE_TAP_GAP_MS = 1250;
+
+export interface ScenarioOptions {
+  quietMs?: number;
+}
+
+/**
+ * One Telegram user in a scenario. Each step injects an update, waits for
+ * the bot to go quiet and leaves the chat transcript on the fake API for
+ * assertions:
+ *
+ *   const alice = harness.user(1);
+ *   await alice.sends('/start', { ref: 'FRIEND1' });
+ *   await alice.taps('menu_tasks');
+ *   await alice.taps('task_details_task_01');
+ *   expect(alice.lastMessage()?.text).toContain('Join our Telegram Channel');
+ */
+export class ScenarioUser {
+  private readonly quietMs: number;
+  private readonly lastTapAt = new Map<number, number>();
+
+  constructor(
+    private readonly api: FakeBotApi,
+    readonly id: number,
+    readonly profile: TelegramProfile = {},
+    options: ScenarioOptions = {}
+  ) {
+    this.quietMs = options.quietMs ?? DEFAULT_QUIET_MS;
+  }
+
+  /** Sends a text message; `ref` appends a deep-link payload to /start */
+  async sends(text: string, options: { ref?: string } = {}): Promise<ChatMessage[]> {
+    const body = options.ref ? `${text} ${options.ref}` : text;
+    return this.step(() => this.api.messageUpdate(this.from(), body));
+  }
+
+  /**
+   * Taps an inline button by its callback data or its label. Only buttons the
+   * bot actually showed in this chat can be tapped, newest message first.
+   */
+  async taps(label: string): Promise<ChatMessage[]> {
+    const found = this.api.findButton(this.id, label);
+    if (!found) {
+      throw new Error(`User ${this.id} has no button "${label}"; visible: ${this.buttons().map(b => JSON.stringify(b)).join(', ') || 'none'}`);
+    }
+    if (!found.button.callback_data) throw new Error(`Button "${label}" opens ${found.button.url || 'something else'}, not a callback`);
+    const wait = (this.lastTapAt.get(found.message.message_id) ?? 0) + SAME_MESSAGE_TAP_GAP_MS - Date.now();
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+    try {
+      return await this.step(() => this.api.callbackUpdate(this.from(), found.message, found.button.callback_data!));
+    } finally {
+      this.lastTapAt.set(found.message.message_id, Date.now());
+    }
+  }
+
+  /** Joins or leaves a chat the way Telegram reports it (chat_member update) */
+  async changesMembership(chatId: number | string, from: string, to: string): Promise<ChatMessage[]> {
+    return this.step(() => this.api.chatMemberUpdate(chatId, this.from(), from, to));
+  }
+
+  /** Messages the bot sent here, oldest first (edits show their latest content) */
+  messages(): ChatMessage[] {
+    return this.api.botMessages(this.id);
+  }
+
+  lastMessage(): ChatMessage | undefined {
+    const messages = this.messages();
+    return messages[messages.length - 1];
+  }
+
+  /** Text or caption of every bot message, handy for `toContain` / `toMatch` */
+  texts(): string[] {
+    return this.messages().map(message => message.text ?? message.caption ?? '');
+  }
+
+  /** Labels of the buttons on the newest message that has a keyboard */
+  buttons(): string[] {
+    const messages = this.messages();
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const rows = messages[i].reply_markup?.inline_keyboard;
+      if (rows?.length) return rows.flat().map(button => button.text);
+    }
+    return [];
+  }
+
+  /** Waits for a bot message (sent or edited) whose text matches; for work that outlives the quiet period */
+  async waitForMessage(pattern: string | RegExp, timeoutMs = 5000): Promise<ChatMessage> {
+    const matches = (message: ChatMessage) => {
+      const text = message.text ?? message.caption ?? '';
+      return typeof pattern === 'string' ? text.includes(pattern) : pattern.test(text);
+    };
+    return this.api.waitFor(() => [...this.messages()].reverse().find(matches), timeoutMs, `user ${this.id} to receive ${pattern}`);
+  }
+
+  /** Toasts the bot showed for this user's button taps */
+  callbackAnswers(): string[] {
+    return this.api.callbackAnswers(this.id);
+  }
+
+  private from(): { id: number } & TelegramProfile {
+    return { id: this.id, ...this.profile };
+  }
+
+  /** Runs one update through the bot and returns the messages it sent or edited in this chat */
+  private async step(build: () => any): Promise<ChatMessage[]> {
+    const mark = this.api.mark();
+    await this.api.inject(build());
+    await this.api.settle(this.quietMs);
+    return this.api.changedSince(this.id, mark);
+  }
+}
@@ -0,0 +1,45 @@
+import { BotHarness, E2E_TASK_CHANNEL_ID } from './harness';
+
+describe('channel join task', () => {
+  let harness: BotHarness;
+
+  beforeAll(async () => {
+    harness = await BotHarness.start({ env: { POINTS_CHANNEL_JOIN: '10' } });
+    await harness.seedUser({ telegramId: '401', firstName: 'Finn' });
+  }, 120000);
+
+  afterAll(async () => {
+    await harness?.stop();
+  });
+
+  it('shows the task from the main menu', async () => {
+    const finn = harness.user(401);
+    await finn.sends('/start');
+    await finn.taps('menu_tasks');
+    await finn.waitForMessage('Tasks Hub');
+    await finn.taps('task_details_task_01');
+
+    expect(finn.lastMessage()?.text).toContain('Join our Telegram Channel');
+    expect(finn.buttons()).toEqual(expect.arrayContaining(['📢 Join Channel', '✅ Check & Complete']));
+  });
+
+  it('refuses completion until Telegram reports the user in the channel', async () => {
+    const finn = harness.user(401);
+    await finn.taps('✅ Check & Complete');
+
+    expect(finn.callbackAnswers()).toContain('❌ Please join our channel first, then click Check & Complete.');
+    expect(String(harness.api.lastCall('getChatMember')?.payload.chat_id)).toBe(E2E_TASK_CHANNEL_ID);
+    expect(await harness.getUser(401)).toMatchObject({ points: 0 });
+  });
+
+  it('awards the points once the user has joined', async () => {
+    const finn = harness.user(401);
+    harness.api.setChatMember(E2E_TASK_CHANNEL_ID, 401, 'member');
+    await finn.taps('✅ Check & Complete');
+
+    await finn.waitForMessage('Thank you for joining our channel! You earned 10 points!');
+    expect(finn.callbackAnswers()).toContain('✅ Task completed!');
+    await finn.waitForMessage(/Completed: 1 task\b/);
+    expect(await harness.getUser(401)).toMatchObject({ points: 10 });
+  });
+});
@@ -0,0 +1,59 @@
+import { BotHarness } from './harness';
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+
+describe('point transfers', () => {
+  let harness: BotHarness;
+
+  beforeAll(async () => {
+    harness = await BotHarness.start({ env: { TRANSFER_FEE_PERCENTAGE: '2', TRANSFER_DAILY_LIMIT: '1' } });
+    await harness.seedUser({ telegramId: '501', firstName: 'Gina', points: 500, walletAddress: WALLET });
+    await harness.seedUser({ telegramId: '502', firstName: 'Hugo', username: 'hugo' });
+    await harness.seedUser({ telegramId: '503', firstName: 'Ivan', points: 500, walletAddress: WALLET });
+  }, 120000);
+
+  afterAll(async () => {
+    await harness?.stop();
+  });
+
+  it('moves points to another user by username, less the fee, and notifies them', async () => {
+    const gina = harness.user(501);
+    await gina.sends('/wallet');
+    await gina.taps('Transfer Points');
+    expect(gina.lastMessage()?.text).toContain('Ready to transfer!');
+
+    await gina.taps('Start Transfer');
+    await gina.sends('@hugo');
+    expect(gina.lastMessage()?.text).toContain('Step 2: Enter Amount');
+
+    await gina.sends('100');
+    expect(gina.lastMessage()?.text).toContain('Recipient Receives:</b> 98 points');
+
+    await gina.taps('Confirm Transfer');
+    expect(gina.lastMessage()?.text).toContain('Transfer Sent Successfully!');
+    await harness.user(502).waitForMessage('Points Received!');
+    expect(await harness.getUser(501)).toMatchObject({ points: 400 });
+    expect(await harness.getUser(502)).toMatchObject({ points: 98 });
+  });
+
+  it('allows one transfer a day', async () => {
+    const gina = harness.user(501);
+    await gina.sends('/wallet');
+    await gina.taps('Transfer Points');
+
+    expect(gina.lastMessage()?.text).toContain('Daily limit reached');
+    expect(gina.buttons()).not.toContain('Start Transfer');
+  });
+
+  it('rejects an unknown recipient and leaves balances alone', async () => {
+    const ivan = harness.user(503);
+    await ivan.sends('/wallet');
+    await ivan.taps('Transfer Points');
+    await ivan.taps('Start Transfer');
+    await ivan.sends('@nobody_here');
+
+    expect(ivan.lastMessage()?.text).toContain('Recipient Not Found');
+    expect(ivan.buttons()).toEqual(['Try Again', 'Cancel']);
+    expect(await harness.getUser(503)).toMatchObject({ points: 500 });
+  });
+});
@@ -0,0 +1,54 @@
+import { BotHarness, E2E_REQUIRED_CHANNEL } from './harness';
+
+const WALLET = '0x2222222222222222222222222222222222222222';
+
+describe('withdrawals', () => {
+  let harness: BotHarness;
+
+  beforeAll(async () => {
+    harness = await BotHarness.start({ env: { WITHDRAW_REQUIRE_CHANNEL_JOIN: 'true', MIN_WITHDRAW_POINTS: '100' } });
+    await harness.seedUser({ telegramId: '601', firstName: 'Jade', points: 40, walletAddress: WALLET });
+    await harness.seedUser({ telegramId: '602', firstName: 'Kim', points: 500, walletAddress: WALLET });
+  }, 120000);
+
+  afterAll(async () => {
+    await harness?.stop();
+  });
+
+  it('sends users outside the required channel to join it first', async () => {
+    const kim = harness.user(602);
+    await kim.sends('/wallet');
+    await kim.taps('Withdraw');
+
+    expect(kim.lastMessage()?.text).toContain('Channel Join Required');
+    expect(kim.buttons()).toContain('I Joined - Check Again');
+  });
+
+  it('opens the withdrawal screen once the user has joined', async () => {
+    const kim = harness.user(602);
+    harness.api.setChatMember(E2E_REQUIRED_CHANNEL, 602, 'member');
+    await kim.taps('I Joined - Check Again');
+
+    expect(kim.lastMessage()?.text).toContain('Withdraw Points');
+    expect(kim.buttons()).toContain('Withdraw Tokens');
+  });
+
+  it('asks for a fresh wallet session before paying out', async () => {
+    const kim = harness.user(602);
+    await kim.taps('Withdraw Tokens');
+
+    await kim.waitForMessage('Wallet Session Expired');
+    expect(kim.buttons()).toContain('Reconnect Wallet');
+    expect(await harness.getUser(602)).toMatchObject({ points: 500 });
+  });
+
+  it('offers no withdrawal below the minimum balance', async () => {
+    const jade = harness.user(601);
+    harness.api.setChatMember(E2E_REQUIRED_CHANNEL, 601, 'member');
+    await jade.sends('/wallet');
+    await jade.taps('Withdraw');
+
+    expect(jade.lastMessage()?.text).toContain('Withdraw Points');
+    expect(jade.buttons()).not.toContain('Withdraw Tokens');
+  });
+});
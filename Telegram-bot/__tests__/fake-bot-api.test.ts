@@ -0,0 +1,116 @@
+import { Telegraf, TelegramError } from 'telegraf';
+import { FakeBotApi } from './e2e/fake-bot-api';
+import { ScenarioUser } from './e2e/scenario';
+
+describe('fake Bot API and scenario DSL', () => {
+  const api = new FakeBotApi();
+  const errors: unknown[] = [];
+  let count = 0;
+
+  beforeAll(async () => {
+    await api.start();
+    const bot = new Telegraf(api.token, { telegram: { apiRoot: api.apiRoot } });
+    const counter = () => ({ inline_keyboard: [[{ text: 'Add one', callback_data: 'count' }, { text: 'Same', callback_data: 'same' }]] });
+
+    bot.start(ctx => ctx.reply(`Hi ${ctx.payload || 'there'}`, { reply_markup: counter() }));
+    bot.action('count', async ctx => {
+      count++;
+      await ctx.editMessageText(`Count ${count}`, { reply_markup: counter() });
+      await ctx.answerCbQuery(`now ${count}`);
+    });
+    bot.action('same', ctx => ctx.editMessageText(`Count ${count}`, { reply_markup: counter() }));
+    bot.command('member', async ctx => {
+      const member = await ctx.telegram.getChatMember('@club', ctx.from.id);
+      await ctx.reply(member.status);
+    });
+    bot.command('photo', ctx => ctx.replyWithPhoto({ source: Buffer.from('not really a png') }, { caption: 'A picture' }));
+    bot.command('later', ctx => {
+      setTimeout(() => void ctx.reply('Done in the background'), 300);
+    });
+    bot.catch(error => {
+      errors.push(error);
+    });
+    api.onUpdate(update => bot.handleUpdate(update));
+  });
+
+  afterAll(async () => {
+    await api.stop();
+  });
+
+  beforeEach(() => {
+    errors.length = 0;
+  });
+
+  it('records replies and passes the /start payload through', async () => {
+    const user = new ScenarioUser(api, 1);
+    const changed = await user.sends('/start', { ref: 'FRIEND1' });
+
+    expect(changed.map(message => message.text)).toEqual(['Hi FRIEND1']);
+    expect(user.buttons()).toEqual(['Add one', 'Same']);
+    expect(api.lastCall('sendMessage')?.payload).toMatchObject({ chat_id: 1, text: 'Hi FRIEND1' });
+  });
+
+  it('taps buttons by label or callback data and applies edits in place', async () => {
+    const user = new ScenarioUser(api, 2);
+    await user.sends('/start');
+    await user.taps('Add one');
+    await user.taps('count');
+
+    expect(user.messages()).toHaveLength(1);
+    expect(user.lastMessage()).toMatchObject({ method: 'editMessageText', text: 'Count 2' });
+    expect(user.callbackAnswers()).toEqual(['now 1', 'now 2']);
+  });
+
+  it('answers an edit that changes nothing with Telegram\'s error', async () => {
+    const user = new ScenarioUser(api, 3);
+    await user.sends('/start');
+    await user.taps('Add one');
+    await user.taps('Same');
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(TelegramError);
+    expect((errors[0] as TelegramError).description).toContain('message is not modified');
+  });
+
+  it('refuses to tap a button the bot never showed', async () => {
+    const user = new ScenarioUser(api, 4);
+    await user.sends('/start');
+
+    await expect(user.taps('Withdraw')).rejects.toThrow('visible: "Add one", "Same"');
+  });
+
+  it('reports chat membership the test sets', async () => {
+    const user = new ScenarioUser(api, 5);
+    await user.sends('/member');
+    api.setChatMember('@club', 5, 'member');
+    await user.sends('/member');
+
+    expect(user.texts()).toEqual(['left', 'member']);
+  });
+
+  it('reads multipart uploads', async () => {
+    const user = new ScenarioUser(api, 6);
+    const [photo] = await user.sends('/photo');
+
+    expect(photo).toMatchObject({ method: 'sendPhoto', media: 'photo', caption: 'A picture' });
+  });
+
+  it('fails the next calls to a method and then recovers', async () => {
+    const user = new ScenarioUser(api, 7);
+    api.failNext('sendMessage', 403, 'Forbidden: bot was blocked by the user');
+    await user.sends('/start');
+    await user.sends('/start');
+
+    expect(errors).toHaveLength(1);
+    expect((errors[0] as TelegramError).code).toBe(403);
+    expect(user.texts()).toEqual(['Hi there']);
+  });
+
+  it('waits for replies that outlive the update', async () => {
+    const user = new ScenarioUser(api, 8);
+    const changed = await user.sends('/later');
+
+    expect(changed).toEqual([]);
+    await expect(user.waitForMessage('Done in the background')).resolves.toMatchObject({ chatId: '8' });
+  });
+});
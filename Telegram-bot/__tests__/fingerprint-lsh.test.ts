@@ -0,0 +1,68 @@
+import { compareFeatures, fingerprintFeatures, minHashSignature, signatureBands } from '../src/security/fingerprint-lsh';
+
+const device = (overrides: { userAgent?: string; canvas?: string; screen?: string; renderer?: string } = {}) => ({
+  hardware: {
+    screenResolution: overrides.screen || '1920x1080',
+    screenColorDepth: '24',
+    timezone: 'Europe/Berlin',
+    language: 'de-DE',
+    languages: ['de-DE', 'en-US'],
+    platform: 'Win32',
+    hardwareConcurrency: 8,
+    deviceMemory: 8,
+    maxTouchPoints: 0
+  },
+  browser: {
+    userAgent: overrides.userAgent || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.109 Safari/537.36',
+    vendor: 'Google Inc.',
+    product: 'Gecko',
+    plugins: ['PDF Viewer', 'Chrome PDF Viewer'],
+    mimeTypes: ['application/pdf']
+  },
+  rendering: {
+    canvasFingerprint: overrides.canvas || 'c4nv45',
+    webGLVendor: 'Google Inc. (NVIDIA)',
+    webGLRenderer: overrides.renderer || 'ANGLE (NVIDIA GeForce RTX 3060)',
+    webGLExtensions: ['EXT_color_buffer_float', 'OES_texture_float'],
+    audioFingerprint: '124.04347527516074',
+    fontFingerprint: 'Arial,Calibri,Segoe UI'
+  }
+});
+
+describe('fingerprint LSH', () => {
+  it('puts near-duplicate devices in shared buckets with a per-component breakdown', () => {
+    const original = fingerprintFeatures(device());
+    // Browser patch update: only the build number in the user agent changes
+    const updated = fingerprintFeatures(device({ userAgent: device().browser.userAgent.replace('6099.109', '6099.217') }));
+    expect(updated).toEqual(original);
+
+    const respoofed = fingerprintFeatures(device({ canvas: 'n01sy-canvas' }));
+    const similarity = compareFeatures(original, respoofed);
+    expect(similarity.components.hardware).toBe(1);
+    expect(similarity.components.browser).toBe(1);
+    expect(similarity.components.rendering).toBeLessThan(1);
+    expect(similarity.overall).toBeGreaterThan(0.9);
+
+    const bandsA = signatureBands(minHashSignature(original));
+    const bandsB = signatureBands(minHashSignature(respoofed));
+    expect(bandsA).toHaveLength(32);
+    expect(bandsA.filter(b => bandsB.includes(b)).length).toBeGreaterThan(0);
+  });
+
+  it('keeps unrelated devices apart and skips empty fingerprints', () => {
+    const desktop = fingerprintFeatures(device());
+    const phone = fingerprintFeatures({
+      hardware: { screenResolution: '390x844', platform: 'iPhone', hardwareConcurrency: 6, timezone: 'America/New_York', language: 'en-US', maxTouchPoints: 5 },
+      browser: { userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148', vendor: 'Apple Computer, Inc.' },
+      rendering: { webGLVendor: 'Apple Inc.', webGLRenderer: 'Apple GPU', canvasFingerprint: 'ios-canvas' }
+    });
+    const similarity = compareFeatures(desktop, phone);
+    expect(similarity.overall).toBeLessThan(0.3);
+    expect(similarity.components.hardware).toBeLessThan(0.2);
+
+    const empty = fingerprintFeatures({ hardware: { platform: 'unknown' }, browser: {}, rendering: { canvasFingerprint: '' } });
+    expect(minHashSignature(empty)).toEqual([]);
+    expect(signatureBands(minHashSignature(empty))).toEqual([]);
+    expect(compareFeatures(empty, desktop)).toEqual({ overall: 0, components: {} });
+  });
+});
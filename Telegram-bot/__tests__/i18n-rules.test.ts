@@ -0,0 +1,83 @@
+import {
+  catalogCoverage,
+  fallbackChain,
+  localizeTask,
+  normalizeLocale,
+  parseTaskTranslations,
+  pickTranslation,
+  resolveLocale,
+  samePlaceholders
+} from '../src/services/i18n/i18n-rules';
+import { BUILT_IN_CATALOGS } from '../src/locales';
+
+describe('i18n rules', () => {
+  it('normalizes Telegram and BCP 47 language tags', () => {
+    expect(normalizeLocale('pt_BR')).toBe('pt-br');
+    expect(normalizeLocale(' RU ')).toBe('ru');
+    expect(normalizeLocale('')).toBeNull();
+    expect(normalizeLocale('not a tag')).toBeNull();
+  });
+
+  it('resolves the first supported candidate, by exact tag, base language or regional variant', () => {
+    const supported = ['en', 'ru', 'pt-br'];
+    expect(resolveLocale([null, 'ru'], supported, 'en')).toBe('ru');
+    expect(resolveLocale(['ru-ua'], supported, 'en')).toBe('ru');
+    expect(resolveLocale(['pt'], supported, 'en')).toBe('pt-br');
+    expect(resolveLocale(['de', 'ru'], supported, 'en')).toBe('ru');
+    expect(resolveLocale(['de'], supported, 'en')).toBe('en');
+  });
+
+  it('looks keys up in the locale, its base language, then the default', () => {
+    expect(fallbackChain('pt-br', 'en')).toEqual(['pt-br', 'pt', 'en']);
+    expect(fallbackChain('ru', 'en')).toEqual(['ru', 'en']);
+    expect(fallbackChain('en', 'en')).toEqual(['en']);
+  });
+
+  it('compares placeholders regardless of order and plural branches', () => {
+    expect(samePlaceholders('{a} and {b}', '{b} и {a}')).toBe(true);
+    expect(samePlaceholders('{n, plural, one {# x} other {# xs}}', '{n, plural, one {# x} few {# x} many {# x} other {# x}}')).toBe(true);
+    expect(samePlaceholders('{a} {b}', '{a}')).toBe(false);
+  });
+
+  it('reports missing and mismatched keys against the reference catalog', () => {
+    const reference = { a: 'A {name}', b: 'B', c: 'C', d: 'D {n}' };
+    const coverage = catalogCoverage('xx', reference, { a: 'A {other}', b: ' ', c: 'broken {', d: 'D {n}' }, 2);
+    expect(coverage).toEqual({ locale: 'xx', total: 4, translated: 2, missing: ['b', 'c'], mismatched: ['a'], overrides: 2 });
+  });
+
+  it('ships complete en and ru catalogs and a partial bn one', () => {
+    const reference = BUILT_IN_CATALOGS.en;
+    const ru = catalogCoverage('ru', reference, BUILT_IN_CATALOGS.ru);
+    expect(ru.missing).toEqual([]);
+    expect(ru.mismatched).toEqual([]);
+    expect(Object.keys(BUILT_IN_CATALOGS.ru).filter(key => !(key in reference))).toEqual([]);
+    expect(catalogCoverage('en', reference, reference).missing).toEqual([]);
+
+    const bn = catalogCoverage('bn', reference, BUILT_IN_CATALOGS.bn);
+    expect(bn.missing.length).toBeGreaterThan(0);
+    expect(bn.mismatched).toEqual([]);
+  });
+
+  it('swaps in the translated task title and description where present', () => {
+    const task = { title: 'Join', description: 'Join the channel', translations: { ru: { title: 'Вступить' }, pt: { title: '', description: 'Entre no canal' } } };
+    expect(localizeTask(task, 'ru')).toMatchObject({ title: 'Вступить', description: 'Join the channel' });
+    expect(localizeTask(task, 'pt-br')).toMatchObject({ title: 'Join', description: 'Entre no canal' });
+    expect(localizeTask(task, 'en')).toBe(task);
+  });
+
+  it('validates task translations from the admin panel', () => {
+    expect(parseTaskTranslations({ RU: { title: ' Вступить ', description: '' }, bn: { title: '' } }, ['en', 'ru', 'bn']))
+      .toEqual({ value: { ru: { title: 'Вступить' } } });
+    expect(parseTaskTranslations({ de: { title: 'Beitreten' } }, ['en', 'ru']).error).toMatch(/not enabled/);
+    expect(parseTaskTranslations({ ru: { title: 'x'.repeat(201) } }, ['ru']).error).toMatch(/title/);
+    expect(parseTaskTranslations([], ['ru']).error).toBeDefined();
+  });
+
+  it('picks the broadcast copy for the recipient locale', () => {
+    const translations = { ru: { message: 'Привет' }, pt: { message: ' ' } };
+    expect(pickTranslation('Hello', translations, 'ru')).toBe('Привет');
+    expect(pickTranslation('Hello', translations, 'pt-br')).toBe('Hello');
+    expect(pickTranslation('Hello', undefined, 'ru')).toBe('Hello');
+    expect(pickTranslation('Hello', translations, undefined)).toBe('Hello');
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  heartbeatIntervalMs,
+  isExhausted,
+  nextPollDelay,
+  rateWindow,
+  resolveQueuePolicy,
+  retryDelayMs
+} from '../src/services/job-queue-rules';
+import { QueuePolicy } from '../src/types/job-queue.types';
+
+const defaults: QueuePolicy = {
+  maxAttempts: 5,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 10000,
+  jitter: 0.5,
+  visibilityTimeoutMs: 60000
+};
+
+describe('job queue rules', () => {
+  it('merges queue overrides and pulls bad values back into range', () => {
+    expect(resolveQueuePolicy(defaults, { maxAttempts: 1 })).toEqual({ ...defaults, maxAttempts: 1 });
+    const policy = resolveQueuePolicy(defaults, { maxAttempts: 0, jitter: 3, visibilityTimeoutMs: 10, backoffMaxMs: 1, rateLimit: { max: 10, windowMs: 1000 } });
+    expect(policy).toEqual({ maxAttempts: 1, backoffBaseMs: 1000, backoffMaxMs: 1000, jitter: 1, visibilityTimeoutMs: 5000, rateLimit: { max: 10, windowMs: 1000 } });
+    expect(resolveQueuePolicy(defaults, { rateLimit: { max: 0, windowMs: 1000 } }).rateLimit).toBeUndefined();
+  });
+
+  it('backs off exponentially up to the cap with jitter taken off the delay', () => {
+    const noJitter = { ...defaults, jitter: 0 };
+    expect([1, 2, 3, 4, 5, 6].map(n => retryDelayMs(noJitter, n))).toEqual([1000, 2000, 4000, 8000, 10000, 10000]);
+    expect(retryDelayMs(defaults, 3, 0)).toBe(4000);
+    expect(retryDelayMs(defaults, 3, 0.999)).toBe(2002);
+    expect(isExhausted(defaults, 4)).toBe(false);
+    expect(isExhausted(defaults, 5)).toBe(true);
+  });
+
+  it('spaces out idle polls and buckets rate-limit windows', () => {
+    expect(nextPollDelay(0, 250, 5000)).toBe(250);
+    expect(nextPollDelay(250, 250, 5000)).toBe(500);
+    expect(nextPollDelay(4000, 250, 5000)).toBe(5000);
+    expect(rateWindow(12_345, 1000)).toEqual({ start: 12_000, end: 13_000 });
+    expect(heartbeatIntervalMs(defaults)).toBe(20000);
+  });
+});
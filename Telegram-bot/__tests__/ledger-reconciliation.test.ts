@@ -0,0 +1,21 @@
+import { computeDrift, resolvePendingEntries } from '../src/services/ledger/reconciliation-rules';
+
+describe('ledger reconciliation helpers', () => {
+  it('computes drift between stored balance and ledger sum', () => {
+    expect(computeDrift(120, 100)).toBe(20);
+    expect(computeDrift(undefined, 30)).toBe(-30);
+    expect(computeDrift(50, 50)).toBe(0);
+  });
+
+  it('commits pending entries whose balance update already landed', () => {
+    expect(resolvePendingEntries(150, 100, 50)).toBe('commit');
+  });
+
+  it('voids pending entries whose balance update never happened', () => {
+    expect(resolvePendingEntries(100, 100, 50)).toBe('void');
+  });
+
+  it('leaves ambiguous pending entries for manual review', () => {
+    expect(resolvePendingEntries(130, 100, 50)).toBe('unresolved');
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  DEFAULT_FEATURE_MESSAGES,
+  activeFullWindow,
+  announcementSchedule,
+  parseWindowInput,
+  resolveFeatureBlock,
+  windowState
+} from '../src/services/maintenance/maintenance-rules';
+import { MaintenanceWindow } from '../src/types/maintenance.types';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+
+function window(overrides: Partial<MaintenanceWindow>): MaintenanceWindow {
+  return {
+    id: 'mw_1',
+    title: 'Node upgrade',
+    message: '',
+    startsAt: '2026-03-01T11:00:00.000Z',
+    endsAt: '2026-03-01T13:00:00.000Z',
+    features: [],
+    announceMinutesBefore: [],
+    audience: 'active',
+    announcements: [],
+    status: 'scheduled',
+    createdBy: 'admin',
+    createdAt: '2026-02-28T00:00:00.000Z',
+    updatedAt: '2026-02-28T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('maintenance rules', () => {
+  it('derives the window state from its times and status', () => {
+    expect(windowState(window({}), now)).toBe('active');
+    expect(windowState(window({ startsAt: '2026-03-01T12:30:00.000Z' }), now)).toBe('upcoming');
+    expect(windowState(window({ endsAt: '2026-03-01T12:00:00.000Z' }), now)).toBe('ended');
+    expect(windowState(window({ status: 'cancelled' }), now)).toBe('cancelled');
+  });
+
+  it('blocks a feature by flag first, then by running windows that cover it', () => {
+    const payoutsOnly = window({ id: 'mw_payouts', features: ['withdrawals'], message: 'Payout node upgrade' });
+
+    expect(resolveFeatureBlock('withdrawals', { withdrawals: { enabled: false, message: '' } }, [payoutsOnly], now))
+      .toEqual({ feature: 'withdrawals', message: DEFAULT_FEATURE_MESSAGES.withdrawals });
+    expect(resolveFeatureBlock('withdrawals', {}, [payoutsOnly], now))
+      .toEqual({ feature: 'withdrawals', message: 'Payout node upgrade', until: payoutsOnly.endsAt, windowId: 'mw_payouts' });
+    expect(resolveFeatureBlock('tasks', {}, [payoutsOnly], now)).toBeNull();
+    // A window without features covers every feature
+    expect(resolveFeatureBlock('tasks', { tasks: { enabled: true, message: 'Tasks paused' } }, [window({})], now)?.message).toBe('Tasks paused');
+    expect(resolveFeatureBlock('tasks', {}, [window({ status: 'cancelled' })], now)).toBeNull();
+
+    expect(activeFullWindow([payoutsOnly], now)).toBeNull();
+    expect(activeFullWindow([payoutsOnly, window({ id: 'mw_full' })], now)?.id).toBe('mw_full');
+  });
+
+  it('schedules only announcements that are still ahead, longest lead first', () => {
+    const schedule = announcementSchedule('2026-03-01T13:00:00.000Z', [10, 120, 30, 10], now);
+    expect(schedule.map(s => s.leadMinutes)).toEqual([30, 10]);
+    expect(schedule[0].at.toISOString()).toBe('2026-03-01T12:30:00.000Z');
+  });
+
+  it('validates window input', () => {
+    const base = { title: ' Chain migration ', startsAt: '2026-03-02T00:00:00Z', endsAt: '2026-03-02T02:00:00Z' };
+    const { value } = parseWindowInput({ ...base, features: ['transfers', 'transfers'] }, now);
+    expect(value).toMatchObject({ title: 'Chain migration', features: ['transfers'], announceMinutesBefore: [60, 10], audience: 'active' });
+
+    expect(parseWindowInput({ ...base, endsAt: base.startsAt }, now).error).toMatch(/after startsAt/);
+    expect(parseWindowInput({ ...base, features: ['payments'] }, now).error).toMatch(/features/);
+    expect(parseWindowInput({ ...base, announceMinutesBefore: [0] }, now).error).toMatch(/announcements/);
+    expect(parseWindowInput({ ...base, startsAt: '2026-02-01T00:00:00Z', endsAt: '2026-02-01T01:00:00Z' }, now).error).toMatch(/already over/);
+  });
+});
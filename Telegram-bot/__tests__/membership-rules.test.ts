@@ -0,0 +1,52 @@
+import {
+  chatRefs,
+  enforceAt,
+  isChatMember,
+  membershipChange,
+  normalizeChatRef,
+  rejoinUrl,
+  resolveMembershipPolicy,
+  taskChatId
+} from '../src/services/membership/membership-rules';
+import { TaskMembershipPolicy } from '../src/types/membership.types';
+
+const defaults: TaskMembershipPolicy = { onLeave: 'revoke_points', graceMinutes: 60 };
+
+describe('membership rules', () => {
+  it('tells joins from leaves and ignores other member changes', () => {
+    expect(membershipChange({ status: 'left' }, { status: 'member' })).toBe('joined');
+    expect(membershipChange({ status: 'member' }, { status: 'kicked' })).toBe('left');
+    expect(membershipChange({ status: 'member' }, { status: 'administrator' })).toBeNull();
+    expect(membershipChange({ status: 'member' }, { status: 'restricted', is_member: true })).toBeNull();
+    expect(membershipChange({ status: 'restricted', is_member: true }, { status: 'restricted', is_member: false })).toBe('left');
+    expect(isChatMember(null)).toBe(false);
+  });
+
+  it('resolves the chat a task points at and matches update chats', () => {
+    expect(normalizeChatRef('-1001234567890')).toBe('-1001234567890');
+    expect(normalizeChatRef('@MyChannel')).toBe('@mychannel');
+    expect(normalizeChatRef('https://t.me/MyChannel?start=1')).toBe('@mychannel');
+    expect(normalizeChatRef('https://t.me/+AbCdEf123')).toBeNull();
+    expect(normalizeChatRef('https://t.me/joinchat/AbCdEf')).toBeNull();
+
+    expect(taskChatId({ metadata: { channelId: '-100555' } })).toBe('-100555');
+    expect(taskChatId({ metadata: { targetUrl: 'https://t.me/News_Hub' } })).toBe('@news_hub');
+    expect(taskChatId({ metadata: {} }, '@fallback')).toBe('@fallback');
+    expect(taskChatId({ metadata: {} })).toBeNull();
+    expect(chatRefs({ id: -100555, username: 'News_Hub' })).toEqual(['-100555', '@news_hub']);
+  });
+
+  it('applies task overrides, clamps the grace period and builds rejoin links', () => {
+    expect(resolveMembershipPolicy({ metadata: {} }, defaults)).toEqual(defaults);
+    expect(resolveMembershipPolicy({ metadata: { membership: { onLeave: 'mark_incomplete' } } }, defaults)).toEqual({ onLeave: 'mark_incomplete', graceMinutes: 60 });
+    expect(resolveMembershipPolicy({ metadata: { membership: { onLeave: 'bogus' as any, graceMinutes: -5 } } }, defaults)).toEqual({ onLeave: 'revoke_points', graceMinutes: 0 });
+    expect(resolveMembershipPolicy({ metadata: { membership: { graceMinutes: 1e9 } } }, defaults).graceMinutes).toBe(7 * 24 * 60);
+
+    expect(enforceAt(new Date('2026-05-01T12:00:00.000Z'), 90).toISOString()).toBe('2026-05-01T13:30:00.000Z');
+
+    expect(rejoinUrl({ metadata: { targetUrl: 'https://t.me/+invite' }, buttons: [] })).toBe('https://t.me/+invite');
+    expect(rejoinUrl({ metadata: { channelId: '@news_hub' }, buttons: [] })).toBe('https://t.me/news_hub');
+    expect(rejoinUrl({ metadata: { channelId: '-100555' }, buttons: [{ text: 'Join', action: 'open_url', url: 'https://t.me/+abc' }] })).toBe('https://t.me/+abc');
+    expect(rejoinUrl({ metadata: { channelId: '-100555' }, buttons: [] })).toBeNull();
+  });
+});
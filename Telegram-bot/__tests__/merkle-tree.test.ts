@@ -0,0 +1,33 @@
+import { buildMerkleTree, getMerkleProof, hashLeaf, verifyMerkleProof } from '../src/services/airdrop/merkle-tree';
+
+describe('merkle airdrop tree', () => {
+  const leaves = [
+    { index: 0, account: '0x1111111111111111111111111111111111111111', amount: '1000000000000000000' },
+    { index: 1, account: '0x2222222222222222222222222222222222222222', amount: '250000000000000000' },
+    { index: 2, account: '0x3333333333333333333333333333333333333333', amount: '42' },
+    { index: 3, account: '0x4444444444444444444444444444444444444444', amount: '7' },
+    { index: 4, account: '0x5555555555555555555555555555555555555555', amount: '99' }
+  ];
+
+  it('produces a proof for every leaf, including the odd one out', () => {
+    const tree = buildMerkleTree(leaves);
+    for (const leaf of leaves) {
+      expect(verifyMerkleProof(tree.root, leaf, getMerkleProof(tree, leaf.index))).toBe(true);
+    }
+    expect(getMerkleProof(tree, 4)).toHaveLength(1);
+  });
+
+  it('rejects tampered leaves and gapped indexes', () => {
+    const tree = buildMerkleTree(leaves);
+    const proof = getMerkleProof(tree, 1);
+    expect(verifyMerkleProof(tree.root, { ...leaves[1], amount: '250000000000000001' }, proof)).toBe(false);
+    expect(verifyMerkleProof(tree.root, { ...leaves[1], index: 0 }, proof)).toBe(false);
+    expect(() => buildMerkleTree([leaves[0], leaves[2]])).toThrow(/contiguous/);
+  });
+
+  it('uses the single leaf as the root', () => {
+    const tree = buildMerkleTree([leaves[0]]);
+    expect(tree.root).toBe(hashLeaf(leaves[0]));
+    expect(getMerkleProof(tree, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import { formatMessage, placeholdersOf, validateMessage } from '../src/services/i18n/message-format';
+
+describe('message format', () => {
+  it('substitutes arguments and leaves unknown ones visible', () => {
+    expect(formatMessage('Hello, {name}!', { name: 'Ana' })).toBe('Hello, Ana!');
+    expect(formatMessage('Hello, {name}!', {})).toBe('Hello, {name}!');
+    expect(formatMessage('No arguments')).toBe('No arguments');
+  });
+
+  it('formats numbers for the locale', () => {
+    expect(formatMessage('{n, number}', { n: 12345 }, 'en')).toBe('12,345');
+    expect(formatMessage('{n, number, integer}', { n: 2.6 }, 'en')).toBe('3');
+    expect(formatMessage('{n, number, percent}', { n: 0.25 }, 'en')).toBe('25%');
+  });
+
+  it('picks plural forms by locale rules, exact matches first', () => {
+    const en = '{count, plural, =0 {no tasks} one {# task} other {# tasks}}';
+    expect(formatMessage(en, { count: 0 }, 'en')).toBe('no tasks');
+    expect(formatMessage(en, { count: 1 }, 'en')).toBe('1 task');
+    expect(formatMessage(en, { count: 1500 }, 'en')).toBe('1,500 tasks');
+
+    const ru = '{count, plural, one {# задание} few {# задания} many {# заданий} other {# задания}}';
+    expect(formatMessage(ru, { count: 1 }, 'ru')).toBe('1 задание');
+    expect(formatMessage(ru, { count: 3 }, 'ru')).toBe('3 задания');
+    expect(formatMessage(ru, { count: 5 }, 'ru')).toBe('5 заданий');
+    expect(formatMessage(ru, { count: 21 }, 'ru')).toBe('21 задание');
+  });
+
+  it('applies plural offsets to # but matches exact values before the offset', () => {
+    const message = '{n, plural, offset:1 =0 {nobody} =1 {{who}} one {{who} and # other} other {{who} and # others}}';
+    expect(formatMessage(message, { n: 1, who: 'Ana' })).toBe('Ana');
+    expect(formatMessage(message, { n: 2, who: 'Ana' })).toBe('Ana and 1 other');
+    expect(formatMessage(message, { n: 4, who: 'Ana' })).toBe('Ana and 3 others');
+  });
+
+  it('selects a branch and falls back to other', () => {
+    const message = '{mode, select, auto {Following Telegram} other {Chosen}}';
+    expect(formatMessage(message, { mode: 'auto' })).toBe('Following Telegram');
+    expect(formatMessage(message, { mode: 'manual' })).toBe('Chosen');
+  });
+
+  it('treats apostrophes as ICU quotes only around syntax characters', () => {
+    expect(formatMessage("You haven't started")).toBe("You haven't started");
+    expect(formatMessage("It''s {name}", { name: 'x' })).toBe("It's x");
+    expect(formatMessage("Use '{name}' literally", { name: 'x' })).toBe('Use {name} literally');
+  });
+
+  it('validates syntax without throwing', () => {
+    expect(validateMessage('{count, plural, one {# point} other {# points}}').valid).toBe(true);
+    expect(validateMessage('{count, plural, one {# point}}').valid).toBe(false);
+    expect(validateMessage('Unclosed {name').valid).toBe(false);
+    expect(validateMessage('{x, currency}').valid).toBe(false);
+  });
+
+  it('lists the argument names a message uses, including nested ones', () => {
+    expect(placeholdersOf('{b} {a, plural, one {# {c}} other {# {c}}} {b}')).toEqual(['a', 'b', 'c']);
+    expect(placeholdersOf('plain text')).toEqual([]);
+  });
+});
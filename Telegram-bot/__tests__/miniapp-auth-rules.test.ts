@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import {
+  signInitData,
+  signMiniAppSession,
+  verifyInitData,
+  verifyMiniAppSession
+} from '../src/services/security/miniapp-auth-rules';
+
+const BOT_TOKEN = '123456:TEST-token';
+const now = new Date('2026-05-01T12:00:00.000Z');
+const nowSeconds = Math.floor(now.getTime() / 1000);
+
+function initData(fields: Record<string, string>, token = BOT_TOKEN): string {
+  const params = new URLSearchParams(fields);
+  params.set('hash', signInitData(params, token));
+  return params.toString();
+}
+
+const user = JSON.stringify({ id: 777000111, first_name: 'Ada', username: 'ada', language_code: 'en' });
+
+describe('mini app auth rules', () => {
+  it('accepts initData signed with the bot token and returns the user', () => {
+    const result = verifyInitData(initData({ auth_date: String(nowSeconds - 30), query_id: 'AAE', user }), BOT_TOKEN, 3600, now);
+    expect(result.ok).toBe(true);
+    expect(result.identity).toEqual({ id: '777000111', firstName: 'Ada', username: 'ada', languageCode: 'en', lastName: undefined, isPremium: undefined });
+    expect(result.hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('rejects tampered, foreign, stale and user-less payloads', () => {
+    const good = initData({ auth_date: String(nowSeconds), user });
+    const tampered = good.replace('777000111', '777000112');
+    expect(verifyInitData(tampered, BOT_TOKEN, 3600, now).error).toBe('bad_signature');
+    expect(verifyInitData(initData({ auth_date: String(nowSeconds), user }, '999:other'), BOT_TOKEN, 3600, now).error).toBe('bad_signature');
+    expect(verifyInitData(initData({ auth_date: String(nowSeconds - 3601), user }), BOT_TOKEN, 3600, now).error).toBe('expired');
+    expect(verifyInitData(initData({ auth_date: String(nowSeconds - 3601), user }), BOT_TOKEN, 0, now).ok).toBe(true);
+    expect(verifyInitData(initData({ auth_date: String(nowSeconds) }), BOT_TOKEN, 3600, now).error).toBe('no_user');
+    expect(verifyInitData('user=%7B%7D', BOT_TOKEN, 3600, now).error).toBe('malformed');
+    expect(verifyInitData('', BOT_TOKEN, 3600, now).error).toBe('missing');
+  });
+
+  it('issues session tokens bound to the user that expire', () => {
+    const secret = crypto.createHash('sha256').update('test-secret').digest();
+    const { token, expiresAt } = signMiniAppSession({ id: '42', username: 'bob' }, secret, 900, now);
+    expect(expiresAt).toBe(nowSeconds + 900);
+
+    const verified = verifyMiniAppSession(token, secret, now);
+    expect(verified.ok).toBe(true);
+    expect(verified.identity).toEqual({ id: '42', username: 'bob' });
+
+    expect(verifyMiniAppSession(token, secret, new Date(now.getTime() + 900_000)).error).toBe('expired');
+    expect(verifyMiniAppSession(token, crypto.randomBytes(32), now).error).toBe('bad_signature');
+
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: '43', usr: { id: '43' }, iat: nowSeconds, exp: nowSeconds + 900 })).toString('base64url');
+    expect(verifyMiniAppSession(`${forged}.${signature}`, secret, now).error).toBe('bad_signature');
+    expect(verifyMiniAppSession('garbage', secret, now).error).toBe('malformed');
+  });
+});
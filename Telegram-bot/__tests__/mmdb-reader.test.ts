@@ -0,0 +1,63 @@
+import { ipToBytes, MmdbReader } from '../src/services/location/mmdb-reader';
+
+const str = (value: string) => Buffer.concat([Buffer.from([0x40 | value.length]), Buffer.from(value)]);
+const map = (size: number) => Buffer.from([0xe0 | size]);
+const uint16 = (value: number) => Buffer.from([0xa2, value >> 8, value & 0xff]);
+const uint32 = (value: number) => {
+  const out = Buffer.alloc(5);
+  out[0] = 0xc4;
+  out.writeUInt32BE(value, 1);
+  return out;
+};
+
+/** IPv6 database with a single record for 1.0.0.0/8 (stored under ::/96) */
+function buildDatabase(): Buffer {
+  const nodeCount = 104;
+  const tree = Buffer.alloc(nodeCount * 6);
+  for (let node = 0; node < nodeCount; node++) {
+    const last = node === nodeCount - 1;
+    // The path is 96 zero bits followed by 00000001
+    tree.writeUIntBE(last ? nodeCount : node + 1, node * 6, 3);
+    tree.writeUIntBE(last ? nodeCount + 16 + 3 : nodeCount, node * 6 + 3, 3);
+  }
+  const data = Buffer.concat([
+    str('AU'),
+    map(2),
+    str('country'), map(1), str('iso_code'), Buffer.from([0x20, 0x00]),
+    str('autonomous_system_number'), uint32(13335)
+  ]);
+  const metadata = Buffer.concat([
+    Buffer.from('abcdef4d61784d696e642e636f6d', 'hex'),
+    map(4),
+    str('node_count'), uint32(nodeCount),
+    str('record_size'), uint16(24),
+    str('ip_version'), uint16(6),
+    str('database_type'), str('Test-City')
+  ]);
+  return Buffer.concat([tree, Buffer.alloc(16), data, metadata]);
+}
+
+describe('MaxMind DB reader', () => {
+  it('finds IPv4 and IPv6 addresses through the search tree', () => {
+    const reader = new MmdbReader(buildDatabase());
+    expect(reader.metadata).toMatchObject({ nodeCount: 104, recordSize: 24, ipVersion: 6, databaseType: 'Test-City' });
+
+    const expected = { country: { iso_code: 'AU' }, autonomous_system_number: 13335 };
+    expect(reader.get('1.2.3.4')).toEqual({ data: expected, prefixLength: 8 });
+    expect(reader.get('::ffff:1.9.9.9')?.data).toEqual(expected);
+    expect(reader.get('::100:1')).toEqual({ data: expected, prefixLength: 104 });
+    expect(reader.get('2.0.0.1')).toBeNull();
+    expect(reader.get('2001:db8::1')).toBeNull();
+    expect(reader.get('not-an-ip')).toBeNull();
+
+    expect(() => new MmdbReader(Buffer.from('plain text'))).toThrow(/metadata marker/);
+  });
+
+  it('parses address strings into bytes', () => {
+    expect(ipToBytes('10.0.0.255')).toEqual([10, 0, 0, 255]);
+    expect(ipToBytes('::ffff:10.0.0.1')).toEqual([10, 0, 0, 1]);
+    expect(ipToBytes('2001:db8::ff00:42')).toEqual([0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0x00, 0x00, 0x42]);
+    expect(ipToBytes('::1')).toHaveLength(16);
+    expect(ipToBytes('999.1.1.1')).toBeNull();
+  });
+});
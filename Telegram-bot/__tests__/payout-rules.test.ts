@@ -0,0 +1,21 @@
+import { bumpGasFees, getReviewReason } from '../src/services/withdrawal/payout-rules';
+
+describe('payout rules', () => {
+  const policy = { enabled: true, thresholdTokens: 1000, riskScore: 0.6 };
+
+  it('holds large, risky or unscored withdrawals for review', () => {
+    expect(getReviewReason({ tokenAmount: 10, riskScore: 0.1 }, policy)).toBeNull();
+    expect(getReviewReason({ tokenAmount: 1000, riskScore: 0.1 }, policy)).toMatch(/review threshold of 1000/);
+    expect(getReviewReason({ tokenAmount: 10, riskScore: 0.75 }, policy)).toMatch(/Risk score 0.75/);
+    expect(getReviewReason({ tokenAmount: 10, riskScore: null }, policy)).toBe('Risk score unavailable');
+    expect(getReviewReason({ tokenAmount: 10, riskScore: null }, { ...policy, riskScore: 0 })).toBeNull();
+    expect(getReviewReason({ tokenAmount: 5000 }, { ...policy, enabled: false })).toBeNull();
+  });
+
+  it('bumps fees by at least the replacement minimum and respects the cap', () => {
+    expect(bumpGasFees({ gasPrice: '100' }, 5)).toEqual({ gasPrice: '110' });
+    expect(bumpGasFees({ maxFeePerGas: '200', maxPriorityFeePerGas: '10' }, 25)).toEqual({ maxFeePerGas: '250', maxPriorityFeePerGas: '13' });
+    expect(bumpGasFees({ gasPrice: '100' }, 50, '120')).toEqual({ gasPrice: '120' });
+    expect(bumpGasFees({ gasPrice: '100' }, 50, '105')).toBeNull();
+  });
+});
@@ -0,0 +1,19 @@
+import { DHASH_HEIGHT, DHASH_WIDTH, differenceHash, hammingDistance, hashBands } from '../src/services/proofs/perceptual-hash';
+
+describe('perceptual hash', () => {
+  const gradient = Array.from({ length: DHASH_WIDTH * DHASH_HEIGHT }, (_, i) => 255 - (i % DHASH_WIDTH) * 20);
+
+  it('hashes a 9x8 thumbnail to 64 bits', () => {
+    expect(differenceHash(gradient)).toBe('ffffffffffffffff');
+    expect(differenceHash(gradient.slice().reverse())).toBe('0000000000000000');
+  });
+
+  it('keeps near-duplicates within a small distance', () => {
+    const tweaked = gradient.slice();
+    tweaked[3] = 0;
+    const a = differenceHash(gradient);
+    const b = differenceHash(tweaked);
+    expect(hammingDistance(a, b)).toBe(1);
+    expect(hashBands(a).filter(k => hashBands(b).includes(k)).length).toBe(7);
+  });
+});
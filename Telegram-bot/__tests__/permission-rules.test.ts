@@ -0,0 +1,38 @@
+import { ALL_ADMIN_PERMISSIONS, ephemeralLoginRole, hasPermission, normalizePermissions, resolvePermissions } from '../src/services/admin/permission-rules';
+
+describe('admin permission rules', () => {
+  it('layers role defaults, grants and revocations', () => {
+    const viewer = resolvePermissions({ role: 'viewer' });
+    expect(viewer).toContain('users.view');
+    expect(viewer).not.toContain('db.write');
+
+    const support = resolvePermissions({ role: 'support' });
+    expect(support).toEqual(expect.arrayContaining(['support.reply', 'users.message']));
+    expect(support).not.toContain('submissions.review');
+
+    const custom = resolvePermissions({ role: 'moderator', granted: ['broadcast.send'], revoked: ['logs.delete', 'users.view'] });
+    expect(custom).toContain('broadcast.send');
+    expect(custom).not.toContain('logs.delete');
+    expect(hasPermission(custom, 'users.view')).toBe(false);
+  });
+
+  it('keeps super admins whole and shuts out inactive or unknown roles', () => {
+    const sa = resolvePermissions({ role: 'super_admin', revoked: ['admins.manage'] });
+    expect(sa).toHaveLength(ALL_ADMIN_PERMISSIONS.length);
+    expect(hasPermission(sa, 'all')).toBe(true);
+
+    expect(resolvePermissions({ role: 'admin', isActive: false })).toEqual([]);
+    expect(resolvePermissions({ role: 'owner' })).toEqual([]);
+    expect(normalizePermissions(['users.read', 'db.admin', 'db.admin', 42])).toEqual(['db.admin']);
+  });
+
+  it('never gives a one-time login a role that requires 2FA', () => {
+    const mfaRoles = ['super_admin', 'admin'];
+    expect(ephemeralLoginRole('viewer', mfaRoles)).toBe('viewer');
+    expect(ephemeralLoginRole('moderator', mfaRoles)).toBe('moderator');
+    expect(ephemeralLoginRole('super_admin', mfaRoles)).toBeNull();
+    expect(ephemeralLoginRole('admin', mfaRoles)).toBeNull();
+    expect(ephemeralLoginRole('owner', mfaRoles)).toBeNull();
+    expect(ephemeralLoginRole('super_admin', [])).toBe('super_admin');
+  });
+});
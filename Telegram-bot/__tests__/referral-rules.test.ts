@@ -0,0 +1,46 @@
+import {
+  canTransition,
+  effectiveStatus,
+  isMultiAccountBlock,
+  normalizeCommissionRates,
+  pendingTransitions,
+  splitCommissions
+} from '../src/services/referrals/referral-rules';
+
+describe('referral program rules', () => {
+  const rules = { taskThreshold: 3, requireCaptcha: true };
+
+  it('unlocks only after captcha and the task threshold', () => {
+    expect(pendingTransitions('pending', { captchaPassed: false, tasksCompleted: 5 }, rules)).toEqual([]);
+    expect(pendingTransitions('pending', { captchaPassed: true, tasksCompleted: 2 }, rules)).toEqual(['active']);
+    expect(pendingTransitions('pending', { captchaPassed: true, tasksCompleted: 3 }, rules)).toEqual(['active', 'bonus_eligible']);
+    expect(pendingTransitions('active', { captchaPassed: true, tasksCompleted: 3 }, { ...rules, requireCaptcha: false })).toEqual(['bonus_eligible']);
+    expect(pendingTransitions('bonus_awarded', { captchaPassed: true, tasksCompleted: 10 }, rules)).toEqual([]);
+  });
+
+  it('only lets blocked end the lifecycle', () => {
+    expect(canTransition('pending', 'bonus_awarded')).toBe(false);
+    expect(canTransition('bonus_eligible', 'bonus_awarded')).toBe(true);
+    expect(canTransition('bonus_awarded', 'blocked')).toBe(true);
+    expect(canTransition('blocked', 'active')).toBe(false);
+    expect(effectiveStatus(undefined)).toBe('bonus_awarded');
+  });
+
+  it('splits commissions down the chain and rounds down', () => {
+    const rates = normalizeCommissionRates(['10', '3', '1', '0']);
+    expect(rates).toEqual([0.1, 0.03, 0.01]);
+    expect(splitCommissions(30, rates, ['a', 'b'])).toEqual([{ level: 1, userId: 'a', amount: 3 }]);
+    expect(splitCommissions(100, rates, ['a', 'b', 'c', 'd'])).toEqual([
+      { level: 1, userId: 'a', amount: 10 },
+      { level: 2, userId: 'b', amount: 3 },
+      { level: 3, userId: 'c', amount: 1 }
+    ]);
+  });
+
+  it('recognises multi-account blocks', () => {
+    expect(isMultiAccountBlock({ isBlocked: true, multiAccountDetected: true })).toBe(true);
+    expect(isMultiAccountBlock({ isBlocked: true, blockReason: 'spam' }, { type: 'device_ban' })).toBe(true);
+    expect(isMultiAccountBlock({ isBlocked: true, blockReason: 'blocked by admin' }, { type: 'manual' })).toBe(false);
+    expect(isMultiAccountBlock({ isBlocked: false, multiAccountDetected: true })).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  DEFAULT_QUIZ_MAX_ATTEMPTS,
+  DEFAULT_QUIZ_PASS_THRESHOLD,
+  parseQuizDefinition,
+  parseSurveyDefinition,
+  scoreQuiz,
+  toCsv
+} from '../src/services/task-responses/response-rules';
+
+describe('task response rules', () => {
+  const question = (extra: Record<string, any> = {}) => ({ text: 'Which chain?', options: ['BSC', 'ETH'], correct: 0, ...extra });
+
+  it('reads pass thresholds as fractions or percentages', () => {
+    expect(parseQuizDefinition({ questions: [question()], passThreshold: 0.8 })?.passThreshold).toBe(0.8);
+    expect(parseQuizDefinition({ questions: [question()], passThreshold: 80 })?.passThreshold).toBe(0.8);
+    expect(parseQuizDefinition({ questions: [question()], passThreshold: 250 })?.passThreshold).toBe(1);
+    expect(parseQuizDefinition({ questions: [question()], passThreshold: 0 })?.passThreshold).toBe(DEFAULT_QUIZ_PASS_THRESHOLD);
+    expect(parseQuizDefinition({ questions: [question()], passThreshold: 'lots' })?.passThreshold).toBe(DEFAULT_QUIZ_PASS_THRESHOLD);
+    expect(parseQuizDefinition({ questions: [question()], maxAttempts: -1 })?.maxAttempts).toBe(DEFAULT_QUIZ_MAX_ATTEMPTS);
+  });
+
+  it('caps options and drops correct indexes that point nowhere', () => {
+    const options = Array.from({ length: 14 }, (_, i) => `Option ${i + 1}`);
+    const quiz = parseQuizDefinition({ questions: [question({ question: 'Pick', text: undefined, correct: undefined, options, answer: [1, 1, 11, -1, 'x'] })] });
+
+    expect(quiz?.questions).toEqual([{ id: 'q1', text: 'Pick', options: options.slice(0, 10), correct: [1] }]);
+  });
+
+  it('skips unusable questions and returns null when none are left', () => {
+    const quiz = parseQuizDefinition({
+      questions: [
+        question({ text: ' ' }),
+        question({ options: ['Only one', ''] }),
+        question({ correct: 5 }),
+        question({ id: 'kept' })
+      ]
+    });
+
+    expect(quiz?.questions.map(q => q.id)).toEqual(['kept']);
+    expect(parseQuizDefinition({ questions: [question({ correct: [7] })] })).toBeNull();
+    expect(parseQuizDefinition(undefined)).toBeNull();
+  });
+
+  it('passes a score sitting exactly on the threshold', () => {
+    const questions = Array.from({ length: 10 }, (_, i) => question({ id: `q${i}` }));
+    const quiz = parseQuizDefinition({ questions, passThreshold: 0.7 })!;
+    const answers = (right: number) => Object.fromEntries(quiz.questions.map((q, i) => [q.id, i < right ? 0 : 1]));
+
+    expect(scoreQuiz(quiz, answers(7))).toMatchObject({ correct: 7, total: 10, passed: true });
+    expect(scoreQuiz(quiz, answers(6))).toMatchObject({ correct: 6, passed: false });
+    expect(scoreQuiz(quiz, {})).toMatchObject({ correct: 0, score: 0, passed: false });
+  });
+
+  it('reads surveys with choice and text fields', () => {
+    const survey = parseSurveyDefinition({
+      fields: [
+        { label: 'How did you find us?', options: ['Twitter', 'Friend'] },
+        { id: 'why', text: 'Why?', type: 'text', options: ['ignored'], required: false, maxLength: 80 },
+        { text: 'Anything else?', maxLength: 0 },
+        { options: ['No text'] }
+      ]
+    });
+
+    expect(survey?.fields).toEqual([
+      { id: 'f1', text: 'How did you find us?', type: 'choice', options: ['Twitter', 'Friend'], required: true, maxLength: 500 },
+      { id: 'why', text: 'Why?', type: 'text', options: [], required: false, maxLength: 80 },
+      { id: 'f3', text: 'Anything else?', type: 'text', options: [], required: true, maxLength: 500 }
+    ]);
+    expect(parseSurveyDefinition({ fields: [] })).toBeNull();
+  });
+
+  it('quotes CSV cells and keeps formulas as text', () => {
+    const csv = toCsv(['user', 'answer', 'points'], [
+      ['1', 'He said "hi",\nthen left', 5],
+      ['2', '=HYPERLINK("http://x")', -3],
+      ['3', '+1', null],
+      ['4', '@SUM(A1)', undefined],
+      ['5', '\tcmd', '-2']
+    ]);
+
+    expect(csv.split('\n')[0]).toBe('"user","answer","points"');
+    expect(csv).toContain('"1","He said ""hi"",\nthen left","5"');
+    expect(csv).toContain('"2","\'=HYPERLINK(""http://x"")","-3"');
+    expect(csv).toContain('"3","\'+1",');
+    expect(csv).toContain('"4","\'@SUM(A1)",');
+    expect(csv).toContain('"5","\'\tcmd","\'-2"');
+  });
+});
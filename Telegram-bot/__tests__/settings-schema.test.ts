@@ -0,0 +1,34 @@
+import { applySection, diffSection, mergeSectionPatch, readSection } from '../src/services/settings/settings-schema';
+
+describe('runtime settings schema', () => {
+  const baseConfig = () => ({
+    points: { transfer: { enabled: true, minAmount: 10, maxAmount: 100, maxDailyAmount: 500, feePercentage: 0, dailyLimit: 5, requireConfirmation: true } },
+    captcha: { geoBlocking: { enabled: false, blockedCountries: ['KP'], allowedCountries: [], suspiciousCountries: [] }, riskThresholds: { low: 0.2 } }
+  });
+
+  it('merges partial updates with type checks and cross-field rules', () => {
+    const current = readSection('transfer', baseConfig());
+    expect(mergeSectionPatch('transfer', current, { minAmount: '20', requireConfirmation: 'false' }).values).toMatchObject({ minAmount: 20, maxAmount: 100, requireConfirmation: false });
+    expect(mergeSectionPatch('transfer', current, { feePercentage: 101 }).error).toBe('Invalid feePercentage');
+    expect(mergeSectionPatch('transfer', current, { enabled: 'yes' }).error).toBe('Invalid enabled');
+    expect(mergeSectionPatch('transfer', current, { minAmount: 200 }).error).toBe('minAmount cannot exceed maxAmount');
+    expect(mergeSectionPatch('walletConfig', {}, { withdrawMode: 'instant' }).error).toMatch(/claim, server/);
+  });
+
+  it('applies nested values to config and env, and diffs by field', () => {
+    const config: any = baseConfig();
+    const env: Record<string, string | undefined> = {};
+    const before = readSection('captcha', config);
+    const { values } = mergeSectionPatch('captcha', before, { geoBlocking: { blockedCountries: 'KP, IR' }, riskThresholds: { low: 0.3 } });
+
+    applySection('captcha', values!, config, env);
+    expect(config.captcha.geoBlocking.blockedCountries).toEqual(['KP', 'IR']);
+    expect(config.captcha.riskThresholds.low).toBe(0.3);
+    expect(env.BLOCKED_COUNTRIES).toBe('KP,IR');
+
+    expect(diffSection('captcha', before, values!)).toEqual([
+      { key: 'geoBlocking.blockedCountries', from: ['KP'], to: ['KP', 'IR'] },
+      { key: 'riskThresholds.low', from: 0.2, to: 0.3 }
+    ]);
+  });
+});
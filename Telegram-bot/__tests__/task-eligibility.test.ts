@@ -0,0 +1,52 @@
+import { buildEligibilityProfile, evaluateTaskEligibility } from '../src/services/task-eligibility/eligibility-rules';
+
+describe('task eligibility rules', () => {
+  const now = new Date('2026-03-01T12:00:00.000Z');
+  const user = {
+    registeredAt: '2026-02-20T00:00:00.000Z',
+    locationData: { countryCode: 'DE', country: 'Germany' },
+    walletAddress: '0xabc',
+    isPremium: false,
+    tasksCompleted: 2
+  };
+
+  it('accepts tasks without requirements or window', () => {
+    const result = evaluateTaskEligibility({}, buildEligibilityProfile(user), { now });
+    expect(result).toEqual({ eligible: true, visible: true, failures: [] });
+  });
+
+  it('hides tasks outside their validity window', () => {
+    const early = evaluateTaskEligibility({ validFrom: '2026-04-01T00:00:00.000Z' }, buildEligibilityProfile(user), { now });
+    const late = evaluateTaskEligibility({ validTo: '2026-02-01T00:00:00.000Z' }, buildEligibilityProfile(user), { now });
+    expect(early.visible).toBe(false);
+    expect(early.failures[0].code).toBe('not_started');
+    expect(late.visible).toBe(false);
+    expect(late.failures[0].code).toBe('expired');
+  });
+
+  it('matches countries by code or name', () => {
+    const profile = buildEligibilityProfile(user);
+    expect(evaluateTaskEligibility({ requirements: { requiredCountry: ['de'] } }, profile, { now }).eligible).toBe(true);
+    expect(evaluateTaskEligibility({ requirements: { requiredCountry: ['Germany'] } }, profile, { now }).eligible).toBe(true);
+    const blocked = evaluateTaskEligibility({ requirements: { blockedCountry: ['DE'] } }, profile, { now });
+    expect(blocked.visible).toBe(false);
+    expect(blocked.failures[0].code).toBe('country_blocked');
+  });
+
+  it('locks (but shows) tasks whose user requirements are unmet', () => {
+    const result = evaluateTaskEligibility(
+      { requirements: { minimumAccountAge: 30, premiumRequired: true, minimumTasks: 3, walletRequired: true } },
+      buildEligibilityProfile(user),
+      { now }
+    );
+    expect(result.visible).toBe(true);
+    expect(result.eligible).toBe(false);
+    expect(result.failures.map(f => f.code)).toEqual(['account_too_new', 'premium_required', 'minimum_tasks']);
+  });
+
+  it('enforces the task-wide daily cap', () => {
+    const task = { requirements: { maxPerDay: 100 } };
+    expect(evaluateTaskEligibility(task, buildEligibilityProfile(user), { now, completionsToday: 99 }).eligible).toBe(true);
+    expect(evaluateTaskEligibility(task, buildEligibilityProfile(user), { now, completionsToday: 100 }).failures[0].code).toBe('daily_limit_reached');
+  });
+});
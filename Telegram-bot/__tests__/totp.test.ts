@@ -0,0 +1,34 @@
+import { base32Decode, base32Encode, generateRecoveryCodes, hashRecoveryCode, hotp, ipRange, totpCounter, verifyTotp } from '../src/services/admin/totp';
+
+describe('admin TOTP', () => {
+  // RFC 6238 appendix B, SHA-1 key
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('matches the RFC 6238 test vectors', () => {
+    expect(base32Decode(secret).toString()).toBe('12345678901234567890');
+    expect(hotp(secret, totpCounter(59 * 1000))).toBe('287082');
+    expect(hotp(secret, totpCounter(1111111109 * 1000))).toBe('081804');
+    expect(hotp(secret, totpCounter(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('accepts one step of drift and rejects replays', () => {
+    const now = 1234567890 * 1000;
+    const counter = totpCounter(now);
+    expect(verifyTotp(secret, '005924', { now })).toBe(counter);
+    expect(verifyTotp(secret, '005924', { now: now + 30 * 1000 })).toBe(counter);
+    expect(verifyTotp(secret, '005924', { now: now + 90 * 1000 })).toBeNull();
+    expect(verifyTotp(secret, '005924', { now, afterCounter: counter })).toBeNull();
+    expect(verifyTotp(secret, 'abc', { now })).toBeNull();
+  });
+
+  it('hashes recovery codes loosely and pins sessions to a network range', () => {
+    const [code] = generateRecoveryCodes(1);
+    expect(code).toMatch(/^[a-z0-9]{4}-[a-z0-9]{4}$/);
+    expect(hashRecoveryCode(code.toUpperCase().replace('-', ' '))).toBe(hashRecoveryCode(code));
+
+    expect(ipRange('203.0.113.57')).toBe('203.0.113.0/24');
+    expect(ipRange('::ffff:203.0.113.9')).toBe('203.0.113.0/24');
+    expect(ipRange('2001:db8:abcd:12::1')).toBe('2001:db8:abcd:12::/64');
+    expect(ipRange('2001:db8::1')).toBe('2001:db8:0:0::/64');
+  });
+});
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import {
+  buildProofMessage,
+  decodeSignatureCandidates,
+  getProofChain,
+  looksLikeSignature,
+  solanaPublicKey,
+  verifyEd25519,
+  verifyEvmSignature
+} from '../src/services/wallet-ownership/wallet-proof';
+
+describe('wallet ownership proofs', () => {
+  const fields = {
+    domain: 't.me',
+    statement: 'I own this wallet.',
+    uri: 'https://t.me/airdrop_bot',
+    chainId: 1,
+    nonce: 'a1b2c3d4e5f6a7b8',
+    issuedAt: '2026-01-01T00:00:00.000Z',
+    expirationTime: '2026-01-01T00:15:00.000Z'
+  };
+
+  it('builds an EIP-4361 message and accepts only the signing account', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const address = wallet.address.toLowerCase();
+    const message = buildProofMessage('evm', { ...fields, address });
+    expect(message.split('\n').slice(0, 2)).toEqual(['t.me wants you to sign in with your Ethereum account:', wallet.address]);
+    expect(message).toContain('Chain ID: 1\nNonce: a1b2c3d4e5f6a7b8');
+
+    const signature = await wallet.signMessage(message);
+    expect(looksLikeSignature(signature)).toBe(true);
+    const [decoded] = decodeSignatureCandidates(signature);
+    expect(verifyEvmSignature(message, decoded, address)).toBe(true);
+    expect(verifyEvmSignature(message, decoded, ethers.Wallet.createRandom().address)).toBe(false);
+    expect(verifyEvmSignature(message.replace('a1b2', 'ffff'), decoded, address)).toBe(false);
+  });
+
+  it('verifies ed25519 signatures against a Solana address in any encoding', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    const raw = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32);
+    const address = ethers.utils.base58.encode(raw);
+    expect(getProofChain(address)).toBe('solana');
+    expect(getProofChain('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa')).toBeNull();
+
+    const message = buildProofMessage('solana', { ...fields, address });
+    expect(message).not.toContain('Chain ID');
+    const signature = crypto.sign(null, Buffer.from(message), privateKey);
+    const key = solanaPublicKey(address)!;
+    for (const encoded of [signature.toString('hex'), signature.toString('base64'), ethers.utils.base58.encode(signature)]) {
+      expect(decodeSignatureCandidates(encoded).some(sig => verifyEd25519(message, sig, key))).toBe(true);
+    }
+    expect(verifyEd25519(`${message}!`, signature, key)).toBe(false);
+    expect(looksLikeSignature('just a normal chat message')).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+import { canTransition, classifyWithdrawalError, isActiveState } from '../src/services/withdrawal/withdrawal-state';
+
+describe('withdrawal state machine', () => {
+  it('allows the forward path and terminal outcomes', () => {
+    expect(canTransition('requested', 'signed')).toBe(true);
+    expect(canTransition('signed', 'submitted')).toBe(true);
+    expect(canTransition('submitted', 'confirmed')).toBe(true);
+    expect(canTransition('submitted', 'expired')).toBe(true);
+  });
+
+  it('rejects skipping back or leaving confirmed', () => {
+    expect(canTransition('submitted', 'requested')).toBe(false);
+    expect(canTransition('confirmed', 'failed')).toBe(false);
+    expect(canTransition('requested', 'submitted')).toBe(false);
+  });
+
+  it('lets recovery confirm a claim that landed after expiry', () => {
+    expect(canTransition('expired', 'confirmed')).toBe(true);
+    expect(isActiveState('expired')).toBe(false);
+    expect(isActiveState('signed')).toBe(true);
+  });
+
+  it('holds reviewed payouts until an admin approves or denies them', () => {
+    expect(isActiveState('pending_review')).toBe(true);
+    expect(canTransition('pending_review', 'requested')).toBe(true);
+    expect(canTransition('pending_review', 'denied')).toBe(true);
+    expect(canTransition('pending_review', 'signed')).toBe(false);
+    expect(canTransition('denied', 'confirmed')).toBe(false);
+  });
+
+  it('classifies wallet errors', () => {
+    expect(classifyWithdrawalError('User rejected the request', 4001)).toBe('rejected');
+    expect(classifyWithdrawalError('insufficient funds for gas')).toBe('insufficient_gas');
+    expect(classifyWithdrawalError('execution reverted: bad sig')).toBe('reverted');
+    expect(classifyWithdrawalError('something odd')).toBe('unknown');
+  });
+});
@@ -0,0 +1,19 @@
+import type { Config } from 'jest';
+import base from './jest.config';
+
+/**
+ * Suites that need a real mongod (mongodb-memory-server): bot scenarios
+ * against the fake Bot API and store-level tests such as the points ledger.
+ * Redis is ioredis-mock.
+ */
+const config: Config = {
+  ...base,
+  testMatch: ['**/__tests__/e2e/**/*.e2e.ts'],
+  moduleNameMapper: {
+    '^ioredis$': 'ioredis-mock'
+  },
+  // Service singletons keep interval timers that nothing tears down in tests
+  forceExit: true,
+};
+
+export default config;
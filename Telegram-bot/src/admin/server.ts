@@ -15,7 +15,36 @@ import { ObjectId } from 'mongodb';
 import { logger } from '../services/logger';
 import { SystemStatsService } from '../services/admin/system-stats.service';
 import { PointsHandler } from '../bot/handlers/points-handler';
+import { PointsLedgerService } from '../services/ledger/points-ledger.service';
+import { LedgerReconciliationService } from '../services/ledger/ledger-reconciliation.service';
+import { TaskEligibilityService } from '../services/task-eligibility/task-eligibility.service';
+import { TaskResponseService } from '../services/task-responses/task-response.service';
+import { SubmissionProofService } from '../services/proofs/submission-proof.service';
+import { ReferralProgramService } from '../services/referrals/referral-program.service';
+import { AccountClusterService, CLUSTER_ACTIONS, ClusterAction } from '../services/clusters/account-cluster.service';
+import { BanAppealService } from '../services/appeals/ban-appeal.service';
+import { MAX_REDUCED_BAN_HOURS } from '../services/appeals/appeal-rules';
+import { AirdropSnapshotService } from '../services/airdrop/airdrop-snapshot.service';
+import { WithdrawalService } from '../services/withdrawal/withdrawal.service';
+import { PayoutService } from '../services/withdrawal/payout.service';
+import { ChainRegistryService } from '../services/chains/chain-registry.service';
+import { AdminSecurityService } from '../services/admin/admin-security.service';
+import { RuntimeSettingsService } from '../services/settings/runtime-settings.service';
+import { SETTINGS_SECTIONS, SettingsSectionId, isSettingsSection } from '../services/settings/settings-schema';
+import { FeatureFlagService } from '../services/maintenance/feature-flag.service';
+import { MaintenanceWindowService } from '../services/maintenance/maintenance-window.service';
+import { AsyncJobQueueService } from '../services/async-job-queue.service';
+import { CampaignService } from '../services/campaigns/campaign.service';
+import { ChannelMembershipService } from '../services/membership/channel-membership.service';
+import { windowState } from '../services/maintenance/maintenance-rules';
+import { LocalizationService } from '../services/i18n/localization.service';
+import { parseTaskTranslations } from '../services/i18n/i18n-rules';
+import { AdminIdentity, AdminPermissionService } from '../services/admin/admin-permission.service';
+import { ADMIN_PERMISSION_DESCRIPTIONS, ADMIN_ROLES, ephemeralLoginRole, isAdminRole, resolvePermissions } from '../services/admin/permission-rules';
+import { AdminPermission } from '../types/admin.types';
+import { parseQuizDefinition, parseSurveyDefinition } from '../services/task-responses/response-rules';
 import { BroadcastQueueService } from '../services/broadcast-queue.service';
+import { BroadcastSegment, BroadcastTargetType, BroadcastType, DeliveryStatus, parseBroadcastSegment, validateBroadcastContent } from '../services/broadcast/broadcast-rules';
 import { storage } from '../storage';
 import { TelegramNotifyService } from '../services/telegram-notify.service';
 import UserDataExportService from '../services/user-data-export.service';
@@ -202,29 +231,79 @@ export class AdminServer {
       next();
     });
 
-    const requireAuth: express.RequestHandler = (req, res, next) => {
+    const adminSecurity = AdminSecurityService.getInstance();
+    const clientIp = (req: express.Request): string => req.ip || req.socket?.remoteAddress || '';
+    const reportedDevice = (req: express.Request): string | undefined => {
+      const value = String((req.body || {}).deviceFingerprint || '').trim();
+      return value ? value.slice(0, 128) : undefined;
+    };
+
+    const requireAuth: express.RequestHandler = async (req, res, next) => {
+      let payload: any;
       try {
         const header = req.headers.authorization || '';
         const token = header.startsWith('Bearer ') ? header.slice(7) : (req.cookies?.admin_token as string | undefined);
         if (!token) { res.status(401).json({ success: false, message: 'Unauthorized' }); return; }
-        const payload = jwt.verify(token, config.jwt.secret as unknown as import('jsonwebtoken').Secret) as any;
-        (req as any).admin = payload;
-        next();
+        payload = jwt.verify(token, config.jwt.secret as unknown as import('jsonwebtoken').Secret) as any;
       } catch {
         res.status(401).json({ success: false, message: 'Unauthorized' }); return;
       }
+      // Tokens issued before sessions were tracked carry no sid
+      if (!payload?.sid) { res.status(401).json({ success: false, message: 'Session expired, please sign in again' }); return; }
+      try {
+        const check = await adminSecurity.checkSession(payload.sid, { deviceKey: req.cookies?.admin_device, ip: clientIp(req) });
+        if (!check.ok) {
+          logger.warn(`Rejected admin session ${payload.sid} (${check.reason})`, { username: payload.username, ip: clientIp(req) });
+          res.status(401).json({ success: false, message: 'Unauthorized', reason: check.reason });
+          return;
+        }
+        (req as any).admin = payload;
+        (req as any).adminSession = check.session;
+        next();
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to verify session' });
+      }
     };
 
-    const roleOrder: Record<string, number> = { viewer: 1, moderator: 2, admin: 3, super_admin: 4 };
-    const requireRole = (minRole: 'viewer' | 'moderator' | 'admin' | 'super_admin'): express.RequestHandler => (req, res, next) => {
+    const issueAdminSession = async (
+      req: express.Request,
+      res: express.Response,
+      identity: { subject: string; id?: string; username: string; role: string; method: 'persistent' | 'ephemeral'; mfa: boolean }
+    ): Promise<string> => {
+      const ttlMs = parseDurationMs(config.jwt.adminExpiresIn) || 24 * 60 * 60 * 1000;
+      const { session, deviceKey } = await adminSecurity.createSession({
+        subject: identity.subject,
+        username: identity.username,
+        role: identity.role,
+        method: identity.method,
+        mfa: identity.mfa,
+        deviceFingerprint: reportedDevice(req),
+        ip: clientIp(req),
+        userAgent: req.get('user-agent'),
+        ttlMs
+      });
+      const payload = { ...(identity.id ? { id: identity.id } : {}), username: identity.username, role: identity.role, method: identity.method, sid: session.id };
+      const token = jwt.sign(payload, config.jwt.secret as unknown as import('jsonwebtoken').Secret, { expiresIn: (config.jwt.adminExpiresIn || '24h') as any });
+      const isProd = process.env.NODE_ENV === 'production';
+      res.cookie('admin_token', token, { httpOnly: true, secure: isProd, sameSite: 'strict', maxAge: ttlMs });
+      res.cookie('admin_device', deviceKey, { httpOnly: true, secure: isProd, sameSite: 'strict', maxAge: ttlMs });
+      return token;
+    };
+
+    // Routes declare the permission they need; see services/admin/permission-rules.ts
+    const adminPermissions = AdminPermissionService.getInstance();
+    const requirePermission = (permission: AdminPermission): express.RequestHandler => async (req, res, next) => {
+      const admin = (req as any).admin as AdminIdentity | undefined;
       try {
-        const role = (((req as any).admin?.role) || 'viewer') as keyof typeof roleOrder;
-        if (roleOrder[role] >= roleOrder[minRole]) return next();
-      } catch {}
-      res.status(403).json({ success: false, message: 'Forbidden' });
+        if (admin && await adminPermissions.can(admin, permission)) return next();
+      } catch (e: any) {
+        logger.error(`Permission check failed for ${permission}: ${e?.message}`);
+      }
+      await adminPermissions.recordDenial(admin, { permission, method: req.method, path: req.originalUrl.split('?')[0], ip: clientIp(req) });
+      res.status(403).json({ success: false, message: 'Forbidden', permission });
     };
 
-    router.get('/logs', requireRole('viewer'), async (req, res) => {
+    router.get('/logs', requireAuth, requirePermission('logs.view'), async (req, res) => {
       try {
         const type = req.query.type === 'error' ? 'error' : 'app';
         const limit = Math.min(500, Math.max(1, Number(req.query.limit) || 200));
@@ -263,7 +342,7 @@ export class AdminServer {
       }
     });
 
-    router.get('/logs/download', requireRole('viewer'), async (req, res) => {
+    router.get('/logs/download', requireAuth, requirePermission('logs.view'), async (req, res) => {
       try {
         const type = req.query.type === 'error' ? 'error' : 'app';
         const file = resolveLogFile(type);
@@ -285,7 +364,7 @@ export class AdminServer {
       }
     });
 
-    router.post('/logs/delete', requireAuth, requireRole('moderator'), async (req, res) => {
+    router.post('/logs/delete', requireAuth, requirePermission('logs.delete'), async (req, res) => {
       try {
         const body = req.body || {};
         const type = body.type === 'error' ? 'error' : 'app';
@@ -336,6 +415,7 @@ export class AdminServer {
     // Public routes
     router.post('/login/request', async (req, res) => {
       try {
+        if (!config.admin.auth.ephemeralLogin) { res.status(403).json({ success: false, message: 'One-time login is disabled; sign in with your admin account' }); return; }
         const { username, password, deviceFingerprint } = req.body || {};
 
         // Generate one-time credentials if not provided
@@ -384,14 +464,17 @@ export class AdminServer {
           res.status(400).json({ success: false, message: 'Username and password are required' }); return;
         }
 
-        // Try ephemeral credentials first (must have recent request and match)
+        // Try ephemeral credentials first (must have recent request and match). The
+        // password was generated by us and delivered to the admin Telegram chats;
+        // there is no TOTP step, so the session gets ADMIN_EPHEMERAL_ROLE and never
+        // a role that requires 2FA.
         const recentWindowMs = 10 * 60 * 1000;
         let matchedRequest: any | null = null;
         try {
-          const ids = await storage.list('admin_login_requests');
+          const ids = config.admin.auth.ephemeralLogin ? await storage.list('admin_login_requests') : [];
           for (const id of ids) {
             const reqItem = await storage.get<any>('admin_login_requests', id);
-            if (!reqItem) continue;
+            if (!reqItem || reqItem.usedAt || reqItem.generated === false) continue;
             if (reqItem.username === username) {
               const ts = new Date(reqItem.createdAt).getTime();
               if (!isNaN(ts) && Date.now() - ts <= recentWindowMs) {
@@ -405,14 +488,15 @@ export class AdminServer {
         } catch {}
 
         if (matchedRequest) {
-          const payload = { username, role: 'super_admin', method: 'ephemeral' };
-          const token = jwt.sign(payload, config.jwt.secret as unknown as import('jsonwebtoken').Secret, { expiresIn: (config.jwt.adminExpiresIn || '24h') as any });
-          const isProd = process.env.NODE_ENV === 'production';
-          const ttlMs = parseDurationMs(config.jwt.adminExpiresIn) || 24 * 60 * 60 * 1000;
-          res.cookie('admin_token', token, { httpOnly: true, secure: isProd, sameSite: 'strict', maxAge: ttlMs });
           // Mark as used
           try { await storage.update('admin_login_requests', { usedAt: new Date().toISOString() }, matchedRequest.id); } catch {}
-          res.json({ success: true, token, user: { username, role: 'super_admin' } }); return;
+          const role = ephemeralLoginRole(config.admin.auth.ephemeralRole, config.admin.auth.mfaRequiredRoles);
+          if (!role) {
+            logger.warn('Ephemeral admin login refused: ADMIN_EPHEMERAL_ROLE is unknown or requires 2FA', { role: config.admin.auth.ephemeralRole });
+            res.status(403).json({ success: false, message: 'One-time login cannot grant this role; sign in with your admin account' }); return;
+          }
+          const token = await issueAdminSession(req, res, { subject: `ephemeral:${username}`, username, role, method: 'ephemeral', mfa: false });
+          res.json({ success: true, token, user: { username, role } }); return;
         }
 
         // Fallback: persistent admin credentials
@@ -429,30 +513,167 @@ export class AdminServer {
           return;
         }
 
-        const payload = { id: admin.id, username: admin.username, role: admin.role, method: 'persistent' };
-        const token = jwt.sign(payload, config.jwt.secret as unknown as import('jsonwebtoken').Secret, { expiresIn: (config.jwt.adminExpiresIn || '24h') as any });
-        const isProd = process.env.NODE_ENV === 'production';
-        const ttlMs = parseDurationMs(config.jwt.adminExpiresIn) || 24 * 60 * 60 * 1000;
-        res.cookie('admin_token', token, { httpOnly: true, secure: isProd, sameSite: 'strict', maxAge: ttlMs });
+        // Password is right; a second factor is still needed for enrolled admins and required roles
+        const mfa = await adminSecurity.getMfaStatus(admin.id);
+        if (mfa.enabled || adminSecurity.isMfaRequired(admin.role)) {
+          const challenge = await adminSecurity.createChallenge({
+            adminId: admin.id,
+            username: admin.username,
+            role: admin.role,
+            enrollment: !mfa.enabled,
+            deviceFingerprint: reportedDevice(req),
+            ip: clientIp(req)
+          });
+          if (mfa.enabled) {
+            res.json({ success: true, mfaRequired: true, challengeId: challenge.id }); return;
+          }
+          const enrollment = await adminSecurity.startEnrollment(admin.id, admin.username);
+          res.json({ success: true, mfaEnrollmentRequired: true, challengeId: challenge.id, enrollment }); return;
+        }
+
+        const token = await issueAdminSession(req, res, { subject: admin.id, id: admin.id, username: admin.username, role: admin.role, method: 'persistent', mfa: false });
         res.json({ success: true, token, user: { id: admin.id, username: admin.username, role: admin.role } }); return;
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Login failed' });
       }
     });
 
+    router.post('/auth/mfa/verify', async (req, res) => {
+      try {
+        const { challengeId, code, recoveryCode } = req.body || {};
+        if (!challengeId || (!code && !recoveryCode)) { res.status(400).json({ success: false, message: 'challengeId and code are required' }); return; }
+        const challenge = await adminSecurity.useChallenge(String(challengeId), { deviceFingerprint: reportedDevice(req), ip: clientIp(req) });
+        if (!challenge) { res.status(401).json({ success: false, message: 'Verification expired, please sign in again' }); return; }
+        const admin = await storage.getAdminUser(challenge.adminId);
+        if (!admin || !admin.isActive) { res.status(401).json({ success: false, message: 'Invalid credentials' }); return; }
+
+        let recoveryCodes: string[] | undefined;
+        if (challenge.enrollment) {
+          const codes = await adminSecurity.confirmEnrollment(admin.id, String(code || ''));
+          if (!codes) { res.status(401).json({ success: false, message: 'Invalid code' }); return; }
+          recoveryCodes = codes;
+        } else {
+          const ok = await adminSecurity.verifySecondFactor(admin.id, { code: code ? String(code) : undefined, recoveryCode: recoveryCode ? String(recoveryCode) : undefined });
+          if (!ok) { res.status(401).json({ success: false, message: 'Invalid code' }); return; }
+        }
+
+        await adminSecurity.completeChallenge(challenge.id);
+        const token = await issueAdminSession(req, res, { subject: admin.id, id: admin.id, username: admin.username, role: admin.role, method: 'persistent', mfa: true });
+        res.json({ success: true, token, user: { id: admin.id, username: admin.username, role: admin.role }, recoveryCodes });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Verification failed' });
+      }
+    });
+
     router.get('/auth/me', requireAuth, async (req, res) => {
       const me = (req as any).admin;
-      res.json({ success: true, user: me });
+      try {
+        const access = await adminPermissions.resolve(me);
+        res.json({ success: true, user: { ...me, role: access.role, permissions: access.permissions } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load permissions' });
+      }
     });
 
     router.post('/auth/logout', requireAuth, async (req, res) => {
+      try {
+        await adminSecurity.revokeSession((req as any).admin.sid, (req as any).admin.username || 'self');
+      } catch (e: any) {
+        logger.warn(`Failed to revoke admin session on logout: ${e?.message}`);
+      }
       res.clearCookie('admin_token');
+      res.clearCookie('admin_device');
       res.json({ success: true });
     });
 
+    // Own 2FA management; ephemeral Telegram logins have no account to enroll
+    const requirePersistentAdmin: express.RequestHandler = (req, res, next) => {
+      if ((req as any).admin?.method !== 'persistent' || !(req as any).admin?.id) {
+        res.status(400).json({ success: false, message: 'Two-factor authentication is only available for admin accounts' }); return;
+      }
+      next();
+    };
+    router.get('/auth/mfa', requireAuth, async (req, res) => {
+      try {
+        const me = (req as any).admin;
+        const status = me?.id && me.method === 'persistent' ? await adminSecurity.getMfaStatus(me.id) : { enabled: false, recoveryCodesRemaining: 0 };
+        res.json({ success: true, data: { ...status, available: me?.method === 'persistent', required: adminSecurity.isMfaRequired(me?.role) } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load 2FA status' });
+      }
+    });
+    router.post('/auth/mfa/enroll', requireAuth, requirePersistentAdmin, async (req, res) => {
+      try {
+        const me = (req as any).admin;
+        if ((await adminSecurity.getMfaStatus(me.id)).enabled) { res.status(409).json({ success: false, message: 'Two-factor authentication is already enabled' }); return; }
+        const enrollment = await adminSecurity.startEnrollment(me.id, me.username);
+        res.json({ success: true, data: enrollment });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to start enrollment' });
+      }
+    });
+    router.post('/auth/mfa/enroll/confirm', requireAuth, requirePersistentAdmin, async (req, res) => {
+      try {
+        const recoveryCodes = await adminSecurity.confirmEnrollment((req as any).admin.id, String((req.body || {}).code || ''));
+        if (!recoveryCodes) { res.status(400).json({ success: false, message: 'Invalid code' }); return; }
+        res.json({ success: true, data: { recoveryCodes } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to confirm enrollment' });
+      }
+    });
+    router.post('/auth/mfa/recovery-codes', requireAuth, requirePersistentAdmin, async (req, res) => {
+      try {
+        const me = (req as any).admin;
+        const ok = await adminSecurity.verifySecondFactor(me.id, { code: String((req.body || {}).code || '') });
+        if (!ok) { res.status(400).json({ success: false, message: 'Invalid code' }); return; }
+        const recoveryCodes = await adminSecurity.regenerateRecoveryCodes(me.id);
+        res.json({ success: true, data: { recoveryCodes } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to regenerate recovery codes' });
+      }
+    });
+    router.post('/auth/mfa/disable', requireAuth, requirePersistentAdmin, async (req, res) => {
+      try {
+        const me = (req as any).admin;
+        if (adminSecurity.isMfaRequired(me.role)) { res.status(403).json({ success: false, message: 'Two-factor authentication is mandatory for your role' }); return; }
+        const ok = await adminSecurity.verifySecondFactor(me.id, { code: String((req.body || {}).code || '') });
+        if (!ok) { res.status(400).json({ success: false, message: 'Invalid code' }); return; }
+        await adminSecurity.resetMfa(me.id);
+        res.json({ success: true });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to disable 2FA' });
+      }
+    });
+
+    // Admin sessions: everyone sees their own, super admins can see and revoke all
+    router.get('/auth/sessions', requireAuth, async (req, res) => {
+      try {
+        const me = (req as any).admin;
+        const subject = me.method === 'persistent' ? me.id : `ephemeral:${me.username}`;
+        const all = req.query.all === '1' && me.role === 'super_admin';
+        const sessions = await adminSecurity.listSessions(all ? {} : { subject });
+        res.json({ success: true, data: sessions.map(s => ({ ...s, current: s.id === me.sid })) });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load sessions' });
+      }
+    });
+    router.delete('/auth/sessions/:id', requireAuth, async (req, res) => {
+      try {
+        const me = (req as any).admin;
+        const session = await adminSecurity.getSession(String(req.params.id));
+        if (!session) { res.status(404).json({ success: false, message: 'Session not found' }); return; }
+        const ownSubject = me.method === 'persistent' ? me.id : `ephemeral:${me.username}`;
+        if (session.subject !== ownSubject && me.role !== 'super_admin') { res.status(403).json({ success: false, message: 'Forbidden' }); return; }
+        const revoked = await adminSecurity.revokeSession(session.id, me.username || 'unknown');
+        res.json({ success: true, revoked });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to revoke session' });
+      }
+    });
+
     // System status
     router.use('/system', requireAuth);
-    router.get('/system/bot-status', requireRole('admin'), async (_req, res) => {
+    router.get('/system/bot-status', requirePermission('system.settings.view'), async (_req, res) => {
       try {
         const status = MaintenanceMiddleware.getInstance().getMaintenanceStatus();
         res.json({ success: true, data: status });
@@ -460,7 +681,7 @@ export class AdminServer {
         res.status(500).json({ success: false, message: e?.message || 'Failed to get bot status' });
       }
     });
-    router.post('/system/bot-status', requireRole('admin'), async (req, res) => {
+    router.post('/system/bot-status', requirePermission('system.settings.edit'), async (req, res) => {
       try {
         const { maintenanceMode, botOnline, duration, reason } = req.body || {};
         const mm = MaintenanceMiddleware.getInstance();
@@ -483,46 +704,30 @@ export class AdminServer {
       }
     });
 
+    // Runtime settings are versioned and shared by every replica; saves go
+    // through the service, reads come from the config it keeps up to date
+    const runtimeSettings = RuntimeSettingsService.getInstance();
+    const saveSettings = async (req: express.Request, res: express.Response, section: SettingsSectionId): Promise<boolean> => {
+      const author = (req as any).admin?.username || 'unknown';
+      const result = await runtimeSettings.update(section, req.body || {}, author);
+      if (!result.success) {
+        res.status(result.error === 'conflict' ? 409 : 400).json({ success: false, message: result.message });
+        return false;
+      }
+      return true;
+    };
+
     // Withdrawal settings
-    router.get('/system/withdraw-settings', requireRole('admin'), async (_req, res) => {
+    router.get('/system/withdraw-settings', requirePermission('system.settings.view'), async (_req, res) => {
       try {
         res.json({ success: true, data: { minWithdraw: config.points.minWithdraw, conversionRate: config.points.conversionRate, requireChannelJoinForWithdrawal: config.points.requireChannelJoinForWithdrawal, requiredChannelId: config.bot.requiredChannelId, withdrawAlertChannelId: config.bot.withdrawAlertChannelId } });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to get withdraw settings' });
       }
     });
-    router.post('/system/withdraw-settings', requireRole('admin'), async (req, res) => {
+    router.post('/system/withdraw-settings', requirePermission('system.settings.edit'), async (req, res) => {
       try {
-        const { minWithdraw, conversionRate, requireChannelJoinForWithdrawal, requiredChannelId, withdrawAlertChannelId } = req.body || {};
-        if (minWithdraw !== undefined) {
-          const val = Number(minWithdraw);
-          if (isNaN(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid minWithdraw' }); return; }
-          config.points.minWithdraw = val;
-          process.env.MIN_WITHDRAW_POINTS = String(val);
-        }
-        if (conversionRate !== undefined) {
-          const val = Number(conversionRate);
-          if (isNaN(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid conversionRate' }); return; }
-          config.points.conversionRate = val;
-          process.env.POINTS_TO_TOKEN_CONVERSION_RATE = String(val);
-        }
-        if (requireChannelJoinForWithdrawal !== undefined) {
-          config.points.requireChannelJoinForWithdrawal = !!requireChannelJoinForWithdrawal;
-          process.env.WITHDRAW_REQUIRE_CHANNEL_JOIN = String(!!requireChannelJoinForWithdrawal);
-        }
-        if (requiredChannelId !== undefined) {
-          config.bot.requiredChannelId = String(requiredChannelId || '');
-          process.env.REQUIRED_CHANNEL_ID = String(requiredChannelId || '');
-        }
-        if (withdrawAlertChannelId !== undefined) {
-          config.bot.withdrawAlertChannelId = String(withdrawAlertChannelId || '');
-          process.env.WITHDRAW_ALERT_CHANNEL_ID = String(withdrawAlertChannelId || '');
-        }
-        try {
-          const current = await storage.get<any>('system_config', 'global') || {};
-          const updated = { ...current, points: { ...(current.points||{}), minWithdraw: config.points.minWithdraw, conversionRate: config.points.conversionRate, requireChannelJoinForWithdrawal: config.points.requireChannelJoinForWithdrawal }, bot: { ...(current.bot||{}), requiredChannelId: config.bot.requiredChannelId, withdrawAlertChannelId: config.bot.withdrawAlertChannelId } };
-          if (current && current.id) await storage.update('system_config', updated, 'global'); else await storage.set('system_config', { ...updated, id: 'global' }, 'global');
-        } catch {}
+        if (!await saveSettings(req, res, 'withdraw')) return;
         res.json({ success: true, data: { minWithdraw: config.points.minWithdraw, conversionRate: config.points.conversionRate, requireChannelJoinForWithdrawal: config.points.requireChannelJoinForWithdrawal, requiredChannelId: config.bot.requiredChannelId, withdrawAlertChannelId: config.bot.withdrawAlertChannelId } });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to update withdraw settings' });
@@ -530,27 +735,16 @@ export class AdminServer {
     });
 
     // Task settings
-    router.get('/system/task-settings', requireRole('admin'), async (_req, res) => {
+    router.get('/system/task-settings', requirePermission('system.settings.view'), async (_req, res) => {
       try {
         res.json({ success: true, data: { autoApproveSubmissions: config.task.autoApproveSubmissions } });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to get task settings' });
       }
     });
-    router.post('/system/task-settings', requireRole('admin'), async (req, res) => {
+    router.post('/system/task-settings', requirePermission('system.settings.edit'), async (req, res) => {
       try {
-        const { autoApproveSubmissions } = req.body || {};
-        if (autoApproveSubmissions !== undefined) {
-          const v = !!autoApproveSubmissions;
-          config.task.autoApproveSubmissions = v;
-          process.env.AUTO_APPROVE_SUBMISSIONS = String(v);
-          try {
-            const current = await storage.get<any>('system_config', 'global') || {};
-            const updated = { ...current, task: { ...(current.task||{}), autoApproveSubmissions: v } };
-            if (current && current.id) await storage.update('system_config', updated, 'global'); else await storage.set('system_config', { ...updated, id: 'global' }, 'global');
-          } catch {}
-        }
-
+        if (!await saveSettings(req, res, 'task')) return;
         res.json({ success: true, data: { autoApproveSubmissions: config.task.autoApproveSubmissions } });
 
         (async () => {
@@ -595,68 +789,16 @@ export class AdminServer {
     });
 
     // Transfer settings
-    router.get('/system/transfer-settings', requireRole('admin'), async (_req, res) => {
+    router.get('/system/transfer-settings', requirePermission('system.settings.view'), async (_req, res) => {
       try {
         res.json({ success: true, data: config.points.transfer });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to get transfer settings' });
       }
     });
-    router.post('/system/transfer-settings', requireRole('admin'), async (req, res) => {
-      try {
-        const { enabled, minAmount, maxAmount, maxDailyAmount, feePercentage, dailyLimit, requireConfirmation } = req.body || {};
-        if (enabled !== undefined) {
-          config.points.transfer.enabled = !!enabled;
-          process.env.TRANSFER_ENABLED = String(!!enabled);
-        }
-        if (minAmount !== undefined) {
-          const val = Number(minAmount);
-          if (isNaN(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid minAmount' }); return; }
-          config.points.transfer.minAmount = val;
-          process.env.TRANSFER_MIN_POINTS = String(val);
-        }
-        if (maxAmount !== undefined) {
-          const val = Number(maxAmount);
-          if (isNaN(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid maxAmount' }); return; }
-          config.points.transfer.maxAmount = val;
-          process.env.TRANSFER_MAX_POINTS = String(val);
-        }
-        if (maxDailyAmount !== undefined) {
-          const val = Number(maxDailyAmount);
-          if (isNaN(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid maxDailyAmount' }); return; }
-          config.points.transfer.maxDailyAmount = val;
-          process.env.TRANSFER_MAX_DAILY_POINTS = String(val);
-        }
-        if (feePercentage !== undefined) {
-          const val = Number(feePercentage);
-          if (isNaN(val) || val < 0 || val > 100) { res.status(400).json({ success: false, message: 'Invalid feePercentage' }); return; }
-          config.points.transfer.feePercentage = val;
-          process.env.TRANSFER_FEE_PERCENTAGE = String(val);
-        }
-        if (dailyLimit !== undefined) {
-          const val = Number(dailyLimit);
-          if (!Number.isFinite(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid dailyLimit' }); return; }
-          config.points.transfer.dailyLimit = val;
-          process.env.TRANSFER_DAILY_LIMIT = String(val);
-        }
-        if (requireConfirmation !== undefined) {
-          const val = !!requireConfirmation;
-          config.points.transfer.requireConfirmation = val;
-          process.env.TRANSFER_REQUIRE_CONFIRMATION = String(val);
-        }
-        if (config.points.transfer.minAmount > config.points.transfer.maxAmount) {
-          res.status(400).json({ success: false, message: 'minAmount cannot exceed maxAmount' });
-          return;
-        }
-        if (config.points.transfer.maxDailyAmount < config.points.transfer.minAmount) {
-          res.status(400).json({ success: false, message: 'maxDailyAmount cannot be less than minAmount' });
-          return;
-        }
-        try {
-          const current = await storage.get<any>('system_config', 'global') || {};
-          const updated = { ...current, points: { ...(current.points||{}), transfer: { ...(current.points?.transfer||{}), ...config.points.transfer } } };
-          if (current && current.id) await storage.update('system_config', updated, 'global'); else await storage.set('system_config', { ...updated, id: 'global' }, 'global');
-        } catch {}
+    router.post('/system/transfer-settings', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        if (!await saveSettings(req, res, 'transfer')) return;
         res.json({ success: true, data: config.points.transfer });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to update transfer settings' });
@@ -664,44 +806,16 @@ export class AdminServer {
     });
 
     // Wallet support settings
-    router.get('/system/wallet-support', requireRole('admin'), async (_req, res) => {
+    router.get('/system/wallet-support', requirePermission('system.settings.view'), async (_req, res) => {
       try {
         res.json({ success: true, data: { apps: config.wallet.apps, qr: { expirySeconds: config.wallet.qrCode.expirySeconds, dailyLimit: config.wallet.qrCode.dailyLimit } } });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to get wallet support settings' });
       }
     });
-    router.post('/system/wallet-support', requireRole('admin'), async (req, res) => {
+    router.post('/system/wallet-support', requirePermission('system.settings.edit'), async (req, res) => {
       try {
-        const body = req.body || {};
-        const apps = (body.apps || {}) as Record<string, any>;
-        const qr = (body.qr || {}) as Record<string, any>;
-        const allowed = ['metamask','trust','coinbase','rainbow','bitget','phantom','exodus','atomic','safepal','tokenpocket'];
-        for (const key of allowed) {
-          if (apps[key] !== undefined) {
-            const v = !!apps[key];
-            (config.wallet.apps as any)[key] = v;
-            const envKey = 'SHOW_' + key.toUpperCase() + '_WALLET';
-            process.env[envKey] = String(v);
-          }
-        }
-        if (qr.dailyLimit !== undefined) {
-          const val = Number(qr.dailyLimit);
-          if (!Number.isInteger(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid dailyLimit' }); return; }
-          config.wallet.qrCode.dailyLimit = val;
-          process.env.DAILY_QR_LIMIT = String(val);
-        }
-        if (qr.expirySeconds !== undefined) {
-          const val = Number(qr.expirySeconds);
-          if (!Number.isInteger(val) || val < 1) { res.status(400).json({ success: false, message: 'Invalid expirySeconds' }); return; }
-          config.wallet.qrCode.expirySeconds = val;
-          process.env.QR_CODE_EXPIRY_TIME = String(val);
-        }
-        try {
-          const current = await storage.get<any>('system_config', 'global') || {};
-          const updated = { ...current, wallet: { ...(current.wallet||{}), apps: { ...(current.wallet?.apps||{}), ...config.wallet.apps }, qrCode: { ...(current.wallet?.qrCode||{}), expirySeconds: config.wallet.qrCode.expirySeconds, dailyLimit: config.wallet.qrCode.dailyLimit } } };
-          if (current && current.id) await storage.update('system_config', updated, 'global'); else await storage.set('system_config', { ...updated, id: 'global' }, 'global');
-        } catch {}
+        if (!await saveSettings(req, res, 'walletSupport')) return;
         res.json({ success: true, data: { apps: config.wallet.apps, qr: { expirySeconds: config.wallet.qrCode.expirySeconds, dailyLimit: config.wallet.qrCode.dailyLimit } } });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to update wallet support settings' });
@@ -709,125 +823,51 @@ export class AdminServer {
     });
 
     // Blockchain wallet config (safe fields only)
-    router.get('/system/wallet-config', requireRole('admin'), async (_req, res) => {
+    const walletConfigView = () => ({
+      network: {
+        chainId: config.wallet.chainId,
+        rpcUrl: config.wallet.rpcUrl,
+        explorerUrl: config.wallet.explorerUrl,
+        withdrawMode: config.wallet.withdrawMode || 'claim',
+        confirmationsToWait: config.wallet.confirmationsToWait || 1,
+      },
+      payouts: {
+        reviewEnabled: config.wallet.payouts.reviewEnabled,
+        reviewThresholdTokens: config.wallet.payouts.reviewThresholdTokens,
+        reviewRiskScore: config.wallet.payouts.reviewRiskScore,
+        dailyCapTokens: config.wallet.payouts.dailyCapTokens,
+      },
+      ownershipProof: {
+        requireForWithdrawal: config.wallet.ownershipProof.requireForWithdrawal,
+      },
+      contracts: {
+        tokenContractAddress: config.wallet.tokenContractAddress,
+        claimContractAddress: config.wallet.claimContractAddress,
+      },
+      token: {
+        tokenSymbol: config.wallet.tokenSymbol,
+        tokenDecimals: config.wallet.tokenDecimals,
+      }
+    });
+    router.get('/system/wallet-config', requirePermission('system.settings.view'), async (_req, res) => {
       try {
-        res.json({
-          success: true,
-          data: {
-            network: {
-              chainId: config.wallet.chainId,
-              rpcUrl: config.wallet.rpcUrl,
-              explorerUrl: config.wallet.explorerUrl,
-              withdrawMode: config.wallet.withdrawMode || 'claim',
-              confirmationsToWait: config.wallet.confirmationsToWait || 1,
-            },
-            contracts: {
-              tokenContractAddress: config.wallet.tokenContractAddress,
-              claimContractAddress: config.wallet.claimContractAddress,
-            },
-            token: {
-              tokenSymbol: config.wallet.tokenSymbol,
-              tokenDecimals: config.wallet.tokenDecimals,
-            }
-          }
-        });
+        res.json({ success: true, data: walletConfigView() });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to get wallet config' });
       }
     });
 
-    router.post('/system/wallet-config', requireRole('admin'), async (req, res) => {
-      try {
-        const b = req.body || {};
-        if (b.chainId !== undefined) {
-          const val = Number(b.chainId);
-          if (!Number.isInteger(val) || val <= 0) { res.status(400).json({ success: false, message: 'Invalid chainId' }); return; }
-          config.wallet.chainId = val;
-          process.env.CHAIN_ID = String(val);
-        }
-        if (b.rpcUrl !== undefined) {
-          const val = String(b.rpcUrl);
-          if (!val) { res.status(400).json({ success: false, message: 'Invalid rpcUrl' }); return; }
-          config.wallet.rpcUrl = val;
-          process.env.RPC_URL = val;
-        }
-        if (b.explorerUrl !== undefined) {
-          const val = String(b.explorerUrl);
-          if (!val) { res.status(400).json({ success: false, message: 'Invalid explorerUrl' }); return; }
-          config.wallet.explorerUrl = val;
-          process.env.EXPLORER_URL = val;
-        }
-        if (b.withdrawMode !== undefined) {
-          const val = String(b.withdrawMode) === 'server' ? 'server' : 'claim';
-          config.wallet.withdrawMode = val as any;
-          process.env.WITHDRAW_MODE = val;
-        }
-        if (b.confirmationsToWait !== undefined) {
-          const val = Number(b.confirmationsToWait);
-          if (!Number.isInteger(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid confirmationsToWait' }); return; }
-          config.wallet.confirmationsToWait = val;
-          process.env.WITHDRAW_CONFIRMATIONS = String(val);
-        }
-        if (b.tokenContractAddress !== undefined) {
-          const val = String(b.tokenContractAddress);
-          config.wallet.tokenContractAddress = val;
-          process.env.TOKEN_CONTRACT_ADDRESS = val;
-        }
-        if (b.claimContractAddress !== undefined) {
-          const val = String(b.claimContractAddress);
-          config.wallet.claimContractAddress = val;
-          process.env.CLAIM_CONTRACT_ADDRESS = val;
-        }
-        if (b.tokenSymbol !== undefined) {
-          const val = String(b.tokenSymbol);
-          config.wallet.tokenSymbol = val;
-          process.env.TOKEN_SYMBOL = val;
-        }
-        if (b.tokenDecimals !== undefined) {
-          const val = Number(b.tokenDecimals);
-          if (!Number.isInteger(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid tokenDecimals' }); return; }
-          config.wallet.tokenDecimals = val;
-          process.env.TOKEN_DECIMALS = String(val);
-        }
-        try {
-          const current = await storage.get<any>('system_config', 'global') || {};
-          const updated = { ...current, walletConfig: {
-            ...(current.walletConfig||{}),
-            chainId: config.wallet.chainId,
-            rpcUrl: config.wallet.rpcUrl,
-            explorerUrl: config.wallet.explorerUrl,
-            confirmationsToWait: config.wallet.confirmationsToWait,
-            tokenContractAddress: config.wallet.tokenContractAddress,
-            claimContractAddress: config.wallet.claimContractAddress,
-            tokenSymbol: config.wallet.tokenSymbol,
-            tokenDecimals: config.wallet.tokenDecimals
-          }};
-          if (current && current.id) await storage.update('system_config', updated, 'global'); else await storage.set('system_config', { ...updated, id: 'global' }, 'global');
-        } catch {}
-        res.json({ success: true, data: {
-          network: {
-            chainId: config.wallet.chainId,
-            rpcUrl: config.wallet.rpcUrl,
-            explorerUrl: config.wallet.explorerUrl,
-            withdrawMode: config.wallet.withdrawMode || 'claim',
-            confirmationsToWait: config.wallet.confirmationsToWait || 1,
-          },
-          contracts: {
-            tokenContractAddress: config.wallet.tokenContractAddress,
-            claimContractAddress: config.wallet.claimContractAddress,
-          },
-          token: {
-            tokenSymbol: config.wallet.tokenSymbol,
-            tokenDecimals: config.wallet.tokenDecimals,
-          }
-        }});
+    router.post('/system/wallet-config', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        if (!await saveSettings(req, res, 'walletConfig')) return;
+        res.json({ success: true, data: walletConfigView() });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to update wallet config' });
       }
     });
 
     // User data export (automatic CSV to admin)
-    router.get('/system/user-data-export', requireRole('admin'), async (_req, res) => {
+    router.get('/system/user-data-export', requirePermission('users.export'), async (_req, res) => {
       try {
         const enabled = process.env.ENABLE_USER_DATA_EXPORT === 'true';
         const interval = (process.env.USER_DATA_EXPORT_INTERVAL || process.env.USER_DATA_EXPORT_INTERVAL_HOURS || '1h');
@@ -840,7 +880,7 @@ export class AdminServer {
       }
     });
 
-    router.post('/system/user-data-export', requireRole('admin'), async (req, res) => {
+    router.post('/system/user-data-export', requirePermission('users.export'), async (req, res) => {
       try {
         const body = req.body || {};
         const has = (v: any) => v !== undefined;
@@ -894,7 +934,7 @@ export class AdminServer {
       }
     });
 
-    router.post('/system/user-data-export/force', requireRole('admin'), async (_req, res) => {
+    router.post('/system/user-data-export/force', requirePermission('users.export'), async (_req, res) => {
       try {
         const result = await SimpleUserExportScheduler.forceExport();
         res.json({ success: result.success, message: result.message });
@@ -903,92 +943,16 @@ export class AdminServer {
       }
     });
 
-    router.get('/system/captcha-settings', requireRole('admin'), async (_req, res) => {
+    router.get('/system/captcha-settings', requirePermission('system.settings.view'), async (_req, res) => {
       try {
         res.json({ success: true, data: config.captcha });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to get captcha settings' });
       }
     });
-    router.post('/system/captcha-settings', requireRole('admin'), async (req, res) => {
+    router.post('/system/captcha-settings', requirePermission('system.settings.edit'), async (req, res) => {
       try {
-        const body = req.body || {};
-        const has = (v: any) => v !== undefined;
-        const toArray = (v: any) => Array.isArray(v) ? v.map((x: any) => String(x)) : (typeof v === 'string' ? v.split(',').map((s: string) => s.trim()).filter(Boolean) : undefined);
-
-        if (has(body.miniappEnabled)) {
-          const v = !!body.miniappEnabled;
-          config.captcha.miniappEnabled = v;
-          process.env.MINIAPP_CAPTCHA_ENABLED = String(v);
-        }
-        if (has(body.svgEnabled)) {
-          const v = !!body.svgEnabled;
-          config.captcha.svgEnabled = v;
-          process.env.SVG_CAPTCHA_ENABLED = String(v);
-        }
-        if (has(body.requireAtLeastOne)) {
-          const v = !!body.requireAtLeastOne;
-          config.captcha.requireAtLeastOne = v;
-          process.env.REQUIRE_AT_LEAST_ONE_CAPTCHA = String(v);
-        }
-        if (has(body.forExistingUsers)) {
-          const v = !!body.forExistingUsers;
-          config.captcha.forExistingUsers = v;
-          process.env.CAPTCHA_FOR_EXISTING_USERS = String(v);
-        }
-        if (has(body.sessionTimeout)) {
-          const v = Number(body.sessionTimeout);
-          if (!Number.isFinite(v) || v < 0) { res.status(400).json({ success: false, message: 'Invalid sessionTimeout' }); return; }
-          config.captcha.sessionTimeout = v;
-          process.env.CAPTCHA_SESSION_TIMEOUT = String(v);
-        }
-        if (has(body.maxAttempts)) {
-          const v = Number(body.maxAttempts);
-          if (!Number.isInteger(v) || v < 1) { res.status(400).json({ success: false, message: 'Invalid maxAttempts' }); return; }
-          config.captcha.maxAttempts = v;
-          process.env.CAPTCHA_MAX_ATTEMPTS = String(v);
-        }
-        if (has(body.geoBlocking)) {
-          const gb = body.geoBlocking || {};
-          if (has(gb.enabled)) config.captcha.geoBlocking.enabled = !!gb.enabled;
-          const bc = toArray(gb.blockedCountries);
-          if (bc) { config.captcha.geoBlocking.blockedCountries = bc; process.env.BLOCKED_COUNTRIES = bc.join(','); }
-          const ac = toArray(gb.allowedCountries);
-          if (ac) { config.captcha.geoBlocking.allowedCountries = ac; process.env.ALLOWED_COUNTRIES = ac.join(','); }
-          const sc = toArray(gb.suspiciousCountries);
-          if (sc) { config.captcha.geoBlocking.suspiciousCountries = sc; process.env.SUSPICIOUS_COUNTRIES = sc.join(','); }
-        }
-        if (has(body.riskThresholds)) {
-          const rt = body.riskThresholds || {};
-          const clamp = (x: any) => {
-            const n = Number(x);
-            if (!Number.isFinite(n)) return undefined;
-            return Math.max(0, Math.min(1, n));
-          };
-          const low = clamp(rt.low);
-          const medium = clamp(rt.medium);
-          const high = clamp(rt.high);
-          const critical = clamp(rt.critical);
-          if (low !== undefined) config.captcha.riskThresholds.low = low;
-          if (medium !== undefined) config.captcha.riskThresholds.medium = medium;
-          if (high !== undefined) config.captcha.riskThresholds.high = high;
-          if (critical !== undefined) config.captcha.riskThresholds.critical = critical;
-        }
-
-        try {
-          const current = await storage.get<any>('system_config', 'global') || {};
-          const updated = { ...current, captcha: {
-            ...(current.captcha||{}),
-            miniappEnabled: config.captcha.miniappEnabled,
-            svgEnabled: config.captcha.svgEnabled,
-            requireAtLeastOne: config.captcha.requireAtLeastOne,
-            forExistingUsers: config.captcha.forExistingUsers,
-            sessionTimeout: config.captcha.sessionTimeout,
-            maxAttempts: config.captcha.maxAttempts
-          }};
-          if (current && current.id) await storage.update('system_config', updated, 'global'); else await storage.set('system_config', { ...updated, id: 'global' }, 'global');
-        } catch {}
-
+        if (!await saveSettings(req, res, 'captcha')) return;
         res.json({ success: true, data: config.captcha });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to update captcha settings' });
@@ -996,7 +960,7 @@ export class AdminServer {
     });
 
     // Protected analytics
-    router.get('/system/referral-settings', requireRole('admin'), async (_req, res) => {
+    router.get('/system/referral-settings', requirePermission('system.settings.view'), async (_req, res) => {
   try {
     res.json({ success: true, data: {
       referralBonus: config.bot.referralBonus,
@@ -1010,50 +974,9 @@ export class AdminServer {
   }
 });
 
-router.post('/system/referral-settings', requireRole('admin'), async (req, res) => {
+router.post('/system/referral-settings', requirePermission('system.settings.edit'), async (req, res) => {
   try {
-    const { referralBonus, referralWelcomeBonus, referralWelcomeBonusEnabled, codeLength, taskThreshold } = req.body || {};
-    if (referralBonus !== undefined) {
-      const val = Number(referralBonus);
-      if (!Number.isFinite(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid referralBonus' }); return; }
-      config.bot.referralBonus = val;
-      process.env.REFERRAL_BONUS = String(val);
-    }
-    if (referralWelcomeBonus !== undefined) {
-      const val = Number(referralWelcomeBonus);
-      if (!Number.isFinite(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid referralWelcomeBonus' }); return; }
-      config.bot.referralWelcomeBonus = val;
-      process.env.REFERRAL_WELCOME_BONUS = String(val);
-    }
-    if (referralWelcomeBonusEnabled !== undefined) {
-      const v = !!referralWelcomeBonusEnabled;
-      config.bot.referralWelcomeBonusEnabled = v;
-      process.env.REFERRAL_WELCOME_BONUS_ENABLED = String(v);
-    }
-    if (codeLength !== undefined) {
-      const val = Number(codeLength);
-      if (!Number.isInteger(val) || val < 4 || val > 20) { res.status(400).json({ success: false, message: 'Invalid codeLength (4-20)' }); return; }
-      config.referral.codeLength = val;
-      process.env.REFERRAL_CODE_LENGTH = String(val);
-    }
-    if (taskThreshold !== undefined) {
-      const val = Number(taskThreshold);
-      if (!Number.isInteger(val) || val < 0) { res.status(400).json({ success: false, message: 'Invalid taskThreshold' }); return; }
-      config.referral.taskThreshold = val;
-      process.env.REFERRAL_TASK_THRESHOLD = String(val);
-    }
-    try {
-      const current = await storage.get<any>('system_config', 'global') || {};
-      const updated = { ...current, referral: {
-        ...(current.referral||{}),
-        referralBonus: config.bot.referralBonus,
-        referralWelcomeBonus: config.bot.referralWelcomeBonus,
-        referralWelcomeBonusEnabled: config.bot.referralWelcomeBonusEnabled,
-        codeLength: config.referral.codeLength,
-        taskThreshold: config.referral.taskThreshold
-      }};
-      if (current && current.id) await storage.update('system_config', updated, 'global'); else await storage.set('system_config', { ...updated, id: 'global' }, 'global');
-    } catch {}
+    if (!await saveSettings(req, res, 'referral')) return;
     res.json({ success: true, data: {
       referralBonus: config.bot.referralBonus,
       referralWelcomeBonus: config.bot.referralWelcomeBonus,
@@ -1066,9 +989,207 @@ router.post('/system/referral-settings', requireRole('admin'), async (req, res)
   }
 });
 
+    // Versioned runtime settings: current version per section, history and rollback
+    router.get('/system/settings', requirePermission('system.settings.view'), async (_req, res) => {
+      try {
+        const records = await runtimeSettings.list();
+        res.json({ success: true, data: records.map(r => ({ section: r.section, label: SETTINGS_SECTIONS[r.section].label, version: r.version, updatedAt: r.updatedAt, updatedBy: r.updatedBy, values: r.values })) });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load settings' });
+      }
+    });
+    router.get('/system/settings/:section/history', requirePermission('system.settings.view'), async (req, res) => {
+      try {
+        const section = String(req.params.section);
+        if (!isSettingsSection(section)) { res.status(404).json({ success: false, message: 'Unknown settings section' }); return; }
+        const data = await runtimeSettings.history(section, Number(req.query.limit) || 50);
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load settings history' });
+      }
+    });
+    router.post('/system/settings/:section/rollback', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        const section = String(req.params.section);
+        if (!isSettingsSection(section)) { res.status(404).json({ success: false, message: 'Unknown settings section' }); return; }
+        const version = Number((req.body || {}).version);
+        if (!Number.isInteger(version) || version < 1) { res.status(400).json({ success: false, message: 'version required' }); return; }
+        const result = await runtimeSettings.rollback(section, version, (req as any).admin?.username || 'unknown');
+        if (!result.success) {
+          res.status(result.error === 'not_found' ? 404 : result.error === 'conflict' ? 409 : 400).json({ success: false, message: result.message });
+          return;
+        }
+        res.json({ success: true, data: { version: result.record?.version, changes: result.changes } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to roll back settings' });
+      }
+    });
+
+    // Feature flags (the `features` settings section) and scheduled maintenance windows
+    const featureFlagsPayload = () => ({
+      flags: FeatureFlagService.getInstance().getStatus(),
+      allowlist: config.features.allowlist,
+      activeWindows: MaintenanceWindowService.getInstance().getWindows().filter(w => windowState(w) === 'active')
+    });
+    router.get('/system/features', requirePermission('system.settings.view'), async (_req, res) => {
+      try {
+        res.json({ success: true, data: featureFlagsPayload() });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to get feature flags' });
+      }
+    });
+    router.post('/system/features', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        if (!await saveSettings(req, res, 'features')) return;
+        res.json({ success: true, data: featureFlagsPayload() });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to update feature flags' });
+      }
+    });
+    router.get('/system/maintenance-windows', requirePermission('system.settings.view'), async (req, res) => {
+      try {
+        const data = await MaintenanceWindowService.getInstance().list({ includePast: req.query.includePast === 'true', limit: Number(req.query.limit) || 50 });
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load maintenance windows' });
+      }
+    });
+    router.post('/system/maintenance-windows', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        const result = await MaintenanceWindowService.getInstance().create(req.body || {}, (req as any).admin, req.ip);
+        if (!result.success) { res.status(400).json({ success: false, message: result.message || 'Invalid maintenance window' }); return; }
+        res.json({ success: true, data: result.window });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to schedule maintenance' });
+      }
+    });
+    router.post('/system/maintenance-windows/:id/cancel', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        const result = await MaintenanceWindowService.getInstance().cancel(String(req.params.id), (req as any).admin, req.ip);
+        if (!result.success) {
+          res.status(result.error === 'not_found' ? 404 : 409).json({ success: false, message: result.error === 'not_found' ? 'Maintenance window not found' : 'Maintenance window has already ended or been cancelled' });
+          return;
+        }
+        res.json({ success: true, data: result.window });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to cancel maintenance' });
+      }
+    });
+
+    // Job queues: depth, pause/resume and the dead-letter queue
+    const jobQueue = AsyncJobQueueService.getInstance();
+    router.get('/system/queues', requirePermission('system.settings.view'), async (_req, res) => {
+      try {
+        res.json({ success: true, data: await jobQueue.getOverview() });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load queues' });
+      }
+    });
+    router.post('/system/queues/:queue/pause', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        await jobQueue.pauseQueue(String(req.params.queue), (req as any).admin, req.ip);
+        res.json({ success: true, data: (await jobQueue.getOverview([String(req.params.queue)]))[0] });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to pause queue' });
+      }
+    });
+    router.post('/system/queues/:queue/resume', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        await jobQueue.resumeQueue(String(req.params.queue), (req as any).admin, req.ip);
+        res.json({ success: true, data: (await jobQueue.getOverview([String(req.params.queue)]))[0] });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to resume queue' });
+      }
+    });
+    router.get('/system/queues/dead-letter', requirePermission('system.settings.view'), async (req, res) => {
+      try {
+        const data = await jobQueue.listDeadLetters({
+          queue: req.query.queue ? String(req.query.queue) : undefined,
+          limit: Number(req.query.limit) || 50,
+          skip: Number(req.query.skip) || 0
+        });
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load dead-lettered jobs' });
+      }
+    });
+    router.post('/system/queues/dead-letter/:id/replay', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        const result = await jobQueue.replayDeadLetter(String(req.params.id), (req as any).admin, req.ip);
+        if (!result.success) { res.status(404).json({ success: false, message: 'Dead-lettered job not found' }); return; }
+        res.json({ success: true, data: { replayed: result.count } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to replay job' });
+      }
+    });
+    router.post('/system/queues/:queue/dead-letter/replay', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        const result = await jobQueue.replayDeadLetters(String(req.params.queue), (req as any).admin, req.ip);
+        res.json({ success: true, data: { replayed: result.count } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to replay jobs' });
+      }
+    });
+    router.delete('/system/queues/dead-letter/:id', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        const result = await jobQueue.discardDeadLetter(String(req.params.id), (req as any).admin, req.ip);
+        if (!result.success) { res.status(404).json({ success: false, message: 'Dead-lettered job not found' }); return; }
+        res.json({ success: true });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to discard job' });
+      }
+    });
+
+    // Translations: per-locale coverage and admin overrides of catalog messages
+    const i18n = LocalizationService.getInstance();
+    router.get('/system/i18n/locales', requirePermission('system.settings.view'), async (_req, res) => {
+      try {
+        const coverage = await i18n.getCoverage();
+        res.json({
+          success: true,
+          data: {
+            defaultLocale: i18n.defaultLocale,
+            locales: coverage.map(c => ({ ...c, label: i18n.localeLabel(c.locale) }))
+          }
+        });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load locales' });
+      }
+    });
+    router.get('/system/i18n/catalog/:locale', requirePermission('system.settings.view'), async (req, res) => {
+      try {
+        const data = await i18n.getCatalog(String(req.params.locale));
+        if (!data) { res.status(404).json({ success: false, message: 'Locale is not enabled' }); return; }
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load catalog' });
+      }
+    });
+    router.put('/system/i18n/catalog/:locale/:key', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        const result = await i18n.setTranslation(String(req.params.locale), String(req.params.key), (req.body || {}).value, (req as any).admin, req.ip);
+        if (!result.success) {
+          res.status(result.error === 'invalid' ? 400 : 404).json({ success: false, message: result.message });
+          return;
+        }
+        res.json({ success: true });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to save translation' });
+      }
+    });
+    router.delete('/system/i18n/catalog/:locale/:key', requirePermission('system.settings.edit'), async (req, res) => {
+      try {
+        const removed = await i18n.deleteTranslation(String(req.params.locale), String(req.params.key), (req as any).admin, req.ip);
+        if (!removed) { res.status(404).json({ success: false, message: 'No override for this message' }); return; }
+        res.json({ success: true });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to revert translation' });
+      }
+    });
+
 router.use('/analytics', requireAuth);
 
-    router.get('/analytics/overview', async (_req, res) => {
+    router.get('/analytics/overview', requirePermission('analytics.view'), async (_req, res) => {
       try {
         const data = await this.stats.getSystemStats();
         res.json({ success: true, data });
@@ -1077,7 +1198,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/analytics/users', async (_req, res) => {
+    router.get('/analytics/users', requirePermission('analytics.view'), async (_req, res) => {
       try {
         const data = await this.stats.getUserStats();
         res.json({ success: true, data });
@@ -1086,7 +1207,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/analytics/tasks', async (_req, res) => {
+    router.get('/analytics/tasks', requirePermission('analytics.view'), async (_req, res) => {
       try {
         const data = await this.stats.getTaskStats();
         res.json({ success: true, data });
@@ -1095,7 +1216,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/analytics/security', async (_req, res) => {
+    router.get('/analytics/security', requirePermission('analytics.view'), async (_req, res) => {
       try {
         const data = await this.stats.getSecurityStats();
         res.json({ success: true, data });
@@ -1104,7 +1225,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/analytics/claims', async (_req, res) => {
+    router.get('/analytics/claims', requirePermission('analytics.view'), async (_req, res) => {
       try {
         const data = await this.stats.getClaimStats();
         res.json({ success: true, data });
@@ -1114,7 +1235,7 @@ router.use('/analytics', requireAuth);
     });
 
     router.use('/users', requireAuth);
-    router.get('/users', requireRole('viewer'), async (req, res) => {
+    router.get('/users', requirePermission('users.view'), async (req, res) => {
       try {
         const q = (req.query.q as string | undefined) || '';
         const verified = req.query.verified as string | undefined;
@@ -1161,7 +1282,7 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to load users' });
       }
     });
-    router.get('/users/:id', requireRole('viewer'), async (req, res) => {
+    router.get('/users/:id', requirePermission('users.view'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const user = await storage.getUser(id);
@@ -1182,7 +1303,7 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to load user' });
       }
     });
-    router.post('/users/:id/message', requireRole('moderator'), async (req, res) => {
+    router.post('/users/:id/message', requirePermission('users.message'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const body = req.body || {};
@@ -1201,23 +1322,24 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/users/:id/points', requireRole('admin'), async (req, res) => {
+    router.post('/users/:id/points', requirePermission('users.points.adjust'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const delta = Number((req.body || {}).delta);
         const reason = ((req.body || {}).reason as string) || 'Admin adjustment';
         if (!delta || isNaN(delta) || delta === 0) { res.status(400).json({ success: false, message: 'Invalid delta' }); return; }
+        const idempotencyKey = req.get('Idempotency-Key') ? `admin:${String(req.get('Idempotency-Key')).slice(0, 100)}` : undefined;
         const handler = new PointsHandler();
         const ok = delta > 0
-          ? await handler.awardPoints(id, delta, reason, { source: 'admin' })
-          : await handler.deductPoints(id, Math.abs(delta), reason, { source: 'admin' });
+          ? await handler.awardPoints(id, delta, reason, { source: 'admin' }, idempotencyKey)
+          : await handler.deductPoints(id, Math.abs(delta), reason, { source: 'admin' }, idempotencyKey);
         if (!ok) { res.status(400).json({ success: false, message: 'Operation failed' }); return; }
         res.json({ success: true });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to adjust points' });
       }
     });
-    router.post('/users/:id/block', requireRole('admin'), async (req, res) => {
+    router.post('/users/:id/block', requirePermission('users.block'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const body = req.body || {};
@@ -1228,7 +1350,7 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to block user' });
       }
     });
-    router.post('/users/:id/unblock', requireRole('admin'), async (req, res) => {
+    router.post('/users/:id/unblock', requirePermission('users.block'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const reason = (req.body || {}).reason || 'unblocked by admin';
@@ -1249,7 +1371,7 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to unblock user' });
       }
     });
-    router.post('/users/:id/reset-progress', requireRole('admin'), async (req, res) => {
+    router.post('/users/:id/reset-progress', requirePermission('users.reset'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const updates: any = {
@@ -1266,7 +1388,7 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to reset progress' });
       }
     });
-    router.get('/users/export', requireRole('admin'), async (req, res) => {
+    router.get('/users/export', requirePermission('users.export'), async (req, res) => {
       try {
         const q = (req.query.q as string | undefined) || '';
         const verified = req.query.verified as string | undefined;
@@ -1309,8 +1431,52 @@ router.use('/analytics', requireAuth);
       }
     });
 
+    router.get('/users/:id/ledger', requirePermission('users.ledger.view'), async (req, res) => {
+      try {
+        const id = String(req.params.id);
+        const limit = Math.min(1000, Math.max(1, Number(req.query.limit ?? 100) || 100));
+        const ledger = PointsLedgerService.getInstance();
+        const [storedBalance, { balance: ledgerBalance, entries: entryCount }, entries] = await Promise.all([
+          ledger.getBalance(id),
+          ledger.getLedgerBalance(id),
+          ledger.getEntries(id, limit)
+        ]);
+        res.json({ success: true, data: { storedBalance, ledgerBalance, drift: storedBalance - ledgerBalance, entryCount, entries } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load ledger' });
+      }
+    });
+
+    router.use('/points', requireAuth);
+    router.get('/points/reconcile', requirePermission('points.reconcile.view'), async (req, res) => {
+      try {
+        if (String(req.query.last || '') === 'true') {
+          res.json({ success: true, data: LedgerReconciliationService.getInstance().getLastReport() });
+          return;
+        }
+        const userIds = req.query.userIds ? String(req.query.userIds).split(',').map(s => s.trim()).filter(Boolean) : undefined;
+        const report = await LedgerReconciliationService.getInstance().reconcile({ repair: 'none', userIds });
+        res.json({ success: true, data: report });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to reconcile ledger' });
+      }
+    });
+    router.post('/points/reconcile', requirePermission('points.reconcile.apply'), async (req, res) => {
+      try {
+        const body = req.body || {};
+        const repair = String(body.repair || '');
+        if (!['rebuild', 'backfill'].includes(repair)) { res.status(400).json({ success: false, message: 'repair must be rebuild or backfill' }); return; }
+        const userIds = Array.isArray(body.userIds) ? body.userIds.map((v: any) => String(v)) : undefined;
+        const report = await LedgerReconciliationService.getInstance().reconcile({ repair: repair as 'rebuild' | 'backfill', userIds });
+        logger.warn('Admin ran ledger repair', { admin: (req as any).admin?.username, repair, repaired: report.repaired, runId: report.runId });
+        res.json({ success: true, data: report });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to repair ledger' });
+      }
+    });
+
     router.use('/tasks', requireAuth);
-    router.get('/tasks', requireRole('viewer'), async (req, res) => {
+    router.get('/tasks', requirePermission('tasks.view'), async (req, res) => {
       try {
         const filter: any = {};
         if (req.query.category) filter.category = String(req.query.category);
@@ -1319,12 +1485,13 @@ router.use('/analytics', requireAuth);
         if (req.query.isDaily !== undefined && req.query.isDaily !== '') filter.isDaily = String(req.query.isDaily) === 'true';
         if (req.query.search) filter.search = String(req.query.search);
         const data = await storage.getFilteredTasks(filter);
-        res.json({ success: true, data });
+        // Default locale first; the panel offers the rest for task translations
+        res.json({ success: true, data, locales: LocalizationService.getInstance().getLocales() });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to load tasks' });
       }
     });
-    router.post('/tasks', requireRole('admin'), async (req, res) => {
+    router.post('/tasks', requirePermission('tasks.edit'), async (req, res) => {
       try {
         const body = req.body || {};
         const id = body.id || `task_${Date.now()}`;
@@ -1333,73 +1500,286 @@ router.use('/analytics', requireAuth);
         await storage.saveTask(task);
         res.json({ success: true, task });
       } catch (e: any) {
-        res.status(500).json({ success: false, message: e?.message || 'Failed to create task' });
+        res.status(500).json({ success: false, message: e?.message || 'Failed to create task' });
+      }
+    });
+    router.put('/tasks/:id', requirePermission('tasks.edit'), async (req, res) => {
+      try {
+        const id = String(req.params.id);
+        const body = req.body || {};
+        const now = new Date().toISOString();
+        await storage.saveTask({ ...body, id, updatedAt: now });
+        res.json({ success: true });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to update task' });
+      }
+    });
+    router.post('/tasks/:id/toggle', requirePermission('tasks.edit'), async (req, res) => {
+      try {
+        const id = String(req.params.id);
+        const t = await storage.getTask(id);
+        if (!t) { res.status(404).json({ success: false, message: 'Task not found' }); return; }
+        await storage.saveTask({ ...t, isActive: !t.isActive, updatedAt: new Date().toISOString() });
+        res.json({ success: true });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to toggle task' });
+      }
+    });
+    router.get('/tasks/:id/eligibility', requirePermission('tasks.view'), async (req, res) => {
+      try {
+        const t = await storage.getTask(String(req.params.id));
+        if (!t) { res.status(404).json({ success: false, message: 'Task not found' }); return; }
+        const maxUsers = req.query.maxUsers ? Number(req.query.maxUsers) || undefined : undefined;
+        const data = await TaskEligibilityService.getInstance().previewSegments(t, { maxUsers });
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to preview task eligibility' });
+      }
+    });
+    // Preview for unsaved task drafts: body carries requirements/validFrom/validTo
+    router.post('/tasks/eligibility/preview', requirePermission('tasks.edit'), async (req, res) => {
+      try {
+        const body = req.body || {};
+        const draft = {
+          id: String(body.id || ''),
+          requirements: body.requirements || {},
+          validFrom: body.validFrom || undefined,
+          validTo: body.validTo || undefined
+        };
+        const maxUsers = body.maxUsers ? Number(body.maxUsers) || undefined : undefined;
+        const data = await TaskEligibilityService.getInstance().previewSegments(draft, { maxUsers });
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to preview task eligibility' });
+      }
+    });
+    // Quiz questions / survey fields live in metadata.customData; validate before saving
+    router.put('/tasks/:id/questions', requirePermission('tasks.edit'), async (req, res) => {
+      try {
+        const t = await storage.getTask(String(req.params.id));
+        if (!t) { res.status(404).json({ success: false, message: 'Task not found' }); return; }
+        if (t.type !== 'quiz' && t.type !== 'survey') { res.status(400).json({ success: false, message: 'Task is not a quiz or survey' }); return; }
+        const customData = (req.body || {}).customData;
+        const parsed = t.type === 'quiz' ? parseQuizDefinition(customData) : parseSurveyDefinition(customData);
+        if (!parsed) {
+          const hint = t.type === 'quiz'
+            ? 'Each question needs text, at least two options and a valid correct option index'
+            : 'Each field needs text';
+          res.status(400).json({ success: false, message: `Invalid ${t.type} definition. ${hint}.` });
+          return;
+        }
+        await storage.saveTask({ ...t, metadata: { ...(t.metadata || {}), customData }, updatedAt: new Date().toISOString() });
+        res.json({ success: true, data: parsed });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to save questions' });
+      }
+    });
+    // Leave policy and join/leave history of telegram_join tasks
+    router.get('/tasks/:id/membership', requirePermission('tasks.view'), async (req, res) => {
+      try {
+        const data = await ChannelMembershipService.getInstance().getTaskOverview(String(req.params.id));
+        if (!data) { res.status(404).json({ success: false, message: 'Telegram join task not found' }); return; }
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load membership overview' });
+      }
+    });
+    router.put('/tasks/:id/membership', requirePermission('tasks.edit'), async (req, res) => {
+      try {
+        const { onLeave, graceMinutes } = req.body || {};
+        const result = await ChannelMembershipService.getInstance().updateTaskPolicy(String(req.params.id), { onLeave, graceMinutes });
+        if (!result.success) {
+          const status = result.error === 'not_found' ? 404 : 400;
+          const message = result.error === 'not_found'
+            ? 'Task not found'
+            : result.error === 'not_telegram_join'
+              ? 'Leave policies only apply to telegram_join tasks'
+              : 'onLeave must be keep, revoke_points or mark_incomplete and graceMinutes between 0 and 10080';
+          res.status(status).json({ success: false, message });
+          return;
+        }
+        res.json({ success: true, data: result.policy });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to save leave policy' });
+      }
+    });
+    // Per-locale title/description; fields left empty fall back to the task's own text
+    router.put('/tasks/:id/translations', requirePermission('tasks.edit'), async (req, res) => {
+      try {
+        const t = await storage.getTask(String(req.params.id));
+        if (!t) { res.status(404).json({ success: false, message: 'Task not found' }); return; }
+        const parsed = parseTaskTranslations((req.body || {}).translations, LocalizationService.getInstance().getLocales());
+        if (!parsed.value) { res.status(400).json({ success: false, message: parsed.error }); return; }
+        const translations = parsed.value;
+        await storage.saveTask({ ...t, translations, updatedAt: new Date().toISOString() });
+        res.json({ success: true, data: translations });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to save translations' });
+      }
+    });
+    router.get('/tasks/:id/responses', requirePermission('tasks.responses.view'), async (req, res) => {
+      try {
+        const t = await storage.getTask(String(req.params.id));
+        if (!t) { res.status(404).json({ success: false, message: 'Task not found' }); return; }
+        const limit = Math.min(10000, Math.max(1, Number(req.query.limit ?? 500) || 500));
+        const responses = await TaskResponseService.getInstance().getResponses(t.id, undefined, limit);
+        const scored = responses.filter(r => r.score);
+        const summary = {
+          responses: responses.length,
+          respondents: new Set(responses.map(r => r.userId)).size,
+          passed: scored.filter(r => r.score?.passed).length,
+          averageScore: scored.length ? scored.reduce((sum, r) => sum + (r.score?.score || 0), 0) / scored.length : null
+        };
+        res.json({ success: true, data: { summary, responses } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load responses' });
+      }
+    });
+    router.get('/tasks/:id/responses/export', requirePermission('tasks.responses.view'), async (req, res) => {
+      try {
+        const t = await storage.getTask(String(req.params.id));
+        if (!t) { res.status(404).json({ success: false, message: 'Task not found' }); return; }
+        if (t.type !== 'survey') { res.status(400).json({ success: false, message: 'Only survey responses can be exported' }); return; }
+        const csv = await TaskResponseService.getInstance().exportSurveyCsv(t);
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="survey_${t.id}.csv"`);
+        res.status(200).send(csv);
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to export responses' });
+      }
+    });
+    router.post('/tasks/reorder', requirePermission('tasks.edit'), async (req, res) => {
+      try {
+        const order = ((req.body || {}).order as Array<{id: string; order: number}>) || [];
+        for (const o of order) {
+          const t = await storage.getTask(o.id);
+          if (t) await storage.saveTask({ ...t, order: o.order, updatedAt: new Date().toISOString() });
+        }
+        res.json({ success: true });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to reorder tasks' });
+      }
+    });
+
+    router.use('/campaigns', requireAuth);
+    router.get('/campaigns', requirePermission('tasks.view'), async (_req, res) => {
+      try {
+        const data = await CampaignService.getInstance().list();
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load campaigns' });
+      }
+    });
+    router.post('/campaigns', requirePermission('tasks.edit'), async (req, res) => {
+      try {
+        const result = await CampaignService.getInstance().create(req.body || {}, (req as any).admin, req.ip);
+        if (!result.success) { res.status(400).json({ success: false, message: result.message || 'Invalid campaign' }); return; }
+        res.json({ success: true, data: result.campaign });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to create campaign' });
       }
     });
-    router.put('/tasks/:id', requireRole('admin'), async (req, res) => {
+    router.put('/campaigns/:id', requirePermission('tasks.edit'), async (req, res) => {
       try {
-        const id = String(req.params.id);
-        const body = req.body || {};
-        const now = new Date().toISOString();
-        await storage.saveTask({ ...body, id, updatedAt: now });
-        res.json({ success: true });
+        const result = await CampaignService.getInstance().update(String(req.params.id), req.body || {}, (req as any).admin, req.ip);
+        if (!result.success) {
+          res.status(result.error === 'not_found' ? 404 : 400).json({ success: false, message: result.error === 'not_found' ? 'Campaign not found' : result.message || 'Invalid campaign' });
+          return;
+        }
+        res.json({ success: true, data: result.campaign });
       } catch (e: any) {
-        res.status(500).json({ success: false, message: e?.message || 'Failed to update task' });
+        res.status(500).json({ success: false, message: e?.message || 'Failed to update campaign' });
       }
     });
-    router.post('/tasks/:id/toggle', requireRole('admin'), async (req, res) => {
+    router.delete('/campaigns/:id', requirePermission('tasks.edit'), async (req, res) => {
       try {
-        const id = String(req.params.id);
-        const t = await storage.getTask(id);
-        if (!t) { res.status(404).json({ success: false, message: 'Task not found' }); return; }
-        await storage.saveTask({ ...t, isActive: !t.isActive, updatedAt: new Date().toISOString() });
+        const result = await CampaignService.getInstance().remove(String(req.params.id), (req as any).admin, req.ip);
+        if (!result.success) { res.status(404).json({ success: false, message: 'Campaign not found' }); return; }
         res.json({ success: true });
       } catch (e: any) {
-        res.status(500).json({ success: false, message: e?.message || 'Failed to toggle task' });
+        res.status(500).json({ success: false, message: e?.message || 'Failed to delete campaign' });
       }
     });
-    router.post('/tasks/reorder', requireRole('admin'), async (req, res) => {
+    router.get('/campaigns/:id/funnel', requirePermission('tasks.view'), async (req, res) => {
       try {
-        const order = ((req.body || {}).order as Array<{id: string; order: number}>) || [];
-        for (const o of order) {
-          const t = await storage.getTask(o.id);
-          if (t) await storage.saveTask({ ...t, order: o.order, updatedAt: new Date().toISOString() });
-        }
-        res.json({ success: true });
+        const data = await CampaignService.getInstance().getFunnel(String(req.params.id));
+        if (!data) { res.status(404).json({ success: false, message: 'Campaign not found' }); return; }
+        res.json({ success: true, data });
       } catch (e: any) {
-        res.status(500).json({ success: false, message: e?.message || 'Failed to reorder tasks' });
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load campaign funnel' });
       }
     });
 
     router.use('/submissions', requireAuth);
-    router.get('/submissions/pending', requireRole('moderator'), async (req, res) => {
+    router.get('/submissions/pending', requirePermission('submissions.review'), async (req, res) => {
       try {
         const page = Math.max(1, Number(req.query.page ?? 1) || 1);
         const pageSize = Math.min(200, Math.max(1, Number(req.query.pageSize ?? 20) || 20));
         const skip = (page - 1) * pageSize;
         const query: any = { status: 'pending' };
         const total = await storage.countDocuments('task_submissions', query);
-        const data = await storage.findByQuery<any>('task_submissions', query, { sort: { submittedAt: -1 }, skip, limit: pageSize });
+        const rows = await storage.findByQuery<any>('task_submissions', query, { sort: { submittedAt: -1 }, skip, limit: pageSize });
+        // Proof images are served separately; the list only carries what the UI needs to render them
+        const data = rows.map((s: any) => {
+          const proofs: any[] = Array.isArray(s.metadata?.proofs) ? s.metadata.proofs : [];
+          return {
+            ...s,
+            proofs: proofs.map((p, index) => ({
+              index,
+              kind: p.kind,
+              mimeType: p.mimeType,
+              fileName: p.fileName,
+              width: p.width,
+              height: p.height,
+              reusedFrom: p.reusedFrom || []
+            })),
+            proofReused: proofs.some(p => Array.isArray(p.reusedFrom) && p.reusedFrom.length > 0)
+          };
+        });
         res.json({ success: true, data, total, page, pageSize });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to load submissions' });
       }
     });
-    router.post('/submissions/:id/approve', requireRole('moderator'), async (req, res) => {
+    router.get('/submissions/:id/proofs/:index', requirePermission('submissions.review'), async (req, res) => {
+      try {
+        const submission: any = await storage.get('task_submissions', String(req.params.id));
+        const proof = submission?.metadata?.proofs?.[Number(req.params.index)];
+        if (!proof) { res.status(404).json({ success: false, message: 'Proof not found' }); return; }
+
+        const proofService = SubmissionProofService.getInstance();
+        res.setHeader('Cache-Control', 'private, max-age=3600');
+        const mirrored = proofService.resolveMirroredPath(proof.localPath);
+        if (mirrored) {
+          res.type(proof.mimeType || 'application/octet-stream');
+          res.sendFile(mirrored);
+          return;
+        }
+
+        const file = await proofService.downloadFile(proof.fileId);
+        if (!file) { res.status(502).json({ success: false, message: 'Failed to fetch proof from Telegram' }); return; }
+        res.type(proof.mimeType || 'application/octet-stream');
+        res.send(file.buffer);
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load proof' });
+      }
+    });
+    router.post('/submissions/:id/approve', requirePermission('submissions.review'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const body = req.body || {};
         await storage.update('task_submissions', { status: 'approved', reviewedAt: new Date().toISOString(), reviewedBy: (req as any).admin?.username || 'admin', reviewNotes: body.reviewNotes || '' }, id);
         if (body.points && Number(body.points) > 0 && body.userId) {
           const handler = new PointsHandler();
-          await handler.awardPoints(String(body.userId), Number(body.points), 'Task submission approved', { taskId: body.taskId || '', source: 'submission' });
+          const awarded = await handler.awardPoints(String(body.userId), Number(body.points), 'Task submission approved', { taskId: body.taskId || '', source: 'submission' }, `submission:${id}`);
+          if (awarded) await ReferralProgramService.getInstance().recordEarning(String(body.userId), Number(body.points), `submission:${id}`);
         }
         res.json({ success: true });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to approve submission' });
       }
     });
-    router.post('/submissions/:id/reject', requireRole('moderator'), async (req, res) => {
+    router.post('/submissions/:id/reject', requirePermission('submissions.review'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const body = req.body || {};
@@ -1411,7 +1791,7 @@ router.use('/analytics', requireAuth);
     });
 
     router.use('/security', requireAuth);
-    router.get('/security/audit', requireRole('moderator'), async (req, res) => {
+    router.get('/security/audit', requirePermission('security.view'), async (req, res) => {
       try {
         const page = Math.max(1, Number(req.query.page ?? 1) || 1);
         const pageSize = Math.min(200, Math.max(1, Number(req.query.pageSize ?? 50) || 50));
@@ -1427,7 +1807,7 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to load audit' });
       }
     });
-    router.get('/security/blocked-users', requireRole('moderator'), async (_req, res) => {
+    router.get('/security/blocked-users', requirePermission('security.view'), async (_req, res) => {
       try {
         // Fetch blocked users from both collections
         const [blockedUsers, bannedUsers] = await Promise.all([
@@ -1464,7 +1844,7 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to load blocked users' });
       }
     });
-    router.get('/security/blocked-devices', requireRole('admin'), async (_req, res) => {
+    router.get('/security/blocked-devices', requirePermission('security.devices.manage'), async (_req, res) => {
       try {
         const data = await storage.getAllBannedDevices();
         res.json({ success: true, data });
@@ -1472,7 +1852,7 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to load blocked devices' });
       }
     });
-    router.post('/security/devices/block', requireRole('admin'), async (req, res) => {
+    router.post('/security/devices/block', requirePermission('security.devices.manage'), async (req, res) => {
       try {
         const body = req.body || {};
         if (!body.deviceHash) { res.status(400).json({ success: false, message: 'deviceHash required' }); return; }
@@ -1482,7 +1862,7 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to block device' });
       }
     });
-    router.post('/security/devices/unblock', requireRole('admin'), async (req, res) => {
+    router.post('/security/devices/unblock', requirePermission('security.devices.manage'), async (req, res) => {
       try {
         const body = req.body || {};
         if (!body.deviceHash) { res.status(400).json({ success: false, message: 'deviceHash required' }); return; }
@@ -1492,7 +1872,91 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to unblock device' });
       }
     });
-    router.get('/security/captcha-stats', requireRole('moderator'), async (_req, res) => {
+    router.get('/security/devices/:userId/similar', requirePermission('security.view'), async (req, res) => {
+      try {
+        const userId = String(req.params.userId);
+        const threshold = Math.min(1, Math.max(0.3, Number(req.query.threshold ?? 0.7) || 0.7));
+        const [fingerprints, user] = await Promise.all([storage.getDeviceFingerprintsByUser(userId), storage.getUser(userId)]);
+        const sources = [...fingerprints.map((fp: any) => fp.components).filter(Boolean), (user as any)?.enhancedDeviceData].filter(Boolean);
+
+        // One row per account, keeping its closest device
+        const best = new Map<string, any>();
+        for (const source of sources) {
+          for (const match of await storage.findSimilarDeviceFingerprints(source, threshold, { excludeUserId: userId, limit: 50 })) {
+            if (!best.has(match.userId) || best.get(match.userId).similarity < match.similarity) best.set(match.userId, match);
+          }
+        }
+        const matches = [...best.values()].sort((a, b) => b.similarity - a.similarity);
+        res.json({ success: true, data: { userId, threshold, devices: sources.length, matches } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to search similar devices' });
+      }
+    });
+    router.post('/security/devices/similarity-index/rebuild', requirePermission('security.devices.manage'), async (req, res) => {
+      try {
+        const indexed = await storage.rebuildDeviceSimilarityIndex();
+        logger.info('Device similarity index rebuilt by admin', { admin: (req as any).admin?.username || 'admin', indexed });
+        res.json({ success: true, data: { indexed } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to rebuild the similarity index' });
+      }
+    });
+    router.get('/security/clusters', requirePermission('security.view'), async (req, res) => {
+      try {
+        const result = await AccountClusterService.getInstance().list({
+          minScore: Number(req.query.minScore ?? 0) || 0,
+          minSize: Number(req.query.minSize ?? 0) || 0,
+          includeStale: req.query.includeStale === 'true',
+          page: Number(req.query.page ?? 1) || 1,
+          pageSize: Number(req.query.pageSize ?? 50) || 50
+        });
+        res.json({ success: true, data: result.data, total: result.total });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load account clusters' });
+      }
+    });
+    router.post('/security/clusters/rebuild', requirePermission('security.clusters.manage'), async (req, res) => {
+      try {
+        const report = await AccountClusterService.getInstance().rebuild();
+        logger.info('Account clusters rebuilt by admin', { admin: (req as any).admin?.username || 'admin', ...report });
+        res.json({ success: true, data: report });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to rebuild account clusters' });
+      }
+    });
+    router.get('/security/clusters/:id', requirePermission('security.view'), async (req, res) => {
+      try {
+        const data = await AccountClusterService.getInstance().get(String(req.params.id));
+        if (!data) { res.status(404).json({ success: false, message: 'Cluster not found' }); return; }
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load account cluster' });
+      }
+    });
+    router.post('/security/clusters/:id/actions', requirePermission('security.clusters.manage'), async (req, res) => {
+      try {
+        const body = req.body || {};
+        const actions = (Array.isArray(body.actions) ? body.actions : []).filter((a: any) => CLUSTER_ACTIONS.includes(a)) as ClusterAction[];
+        if (actions.length === 0) { res.status(400).json({ success: false, message: `actions must include one of ${CLUSTER_ACTIONS.join(', ')}` }); return; }
+        const reason = String(body.reason || '').trim().slice(0, 500);
+        if (!reason) { res.status(400).json({ success: false, message: 'reason required' }); return; }
+        const excludeUserIds = Array.isArray(body.excludeUserIds) ? body.excludeUserIds.map(String) : [];
+        const result = await AccountClusterService.getInstance().applyActions(
+          String(req.params.id), { actions: [...new Set(actions)], reason, excludeUserIds }, (req as any).admin, req.ip
+        );
+        if (!result.success) {
+          res.status(result.error === 'not_found' ? 404 : 409).json({
+            success: false,
+            message: result.error === 'not_found' ? 'Cluster not found' : 'Another action is already running on this cluster'
+          });
+          return;
+        }
+        res.json({ success: true, data: result.summary });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to apply cluster action' });
+      }
+    });
+    router.get('/security/captcha-stats', requirePermission('security.view'), async (_req, res) => {
       try {
         const data = await storage.getCaptchaStats();
         res.json({ success: true, data });
@@ -1501,110 +1965,175 @@ router.use('/analytics', requireAuth);
       }
     });
 
+    router.use('/appeals', requireAuth);
+    router.get('/appeals', requirePermission('appeals.view'), async (req, res) => {
+      try {
+        const status = req.query.status as any;
+        const page = Math.max(1, Number(req.query.page ?? 1) || 1);
+        const pageSize = Math.min(200, Math.max(1, Number(req.query.pageSize ?? 50) || 50));
+        const result = await BanAppealService.getInstance().list({ status: status || undefined, page, pageSize });
+        res.json({ success: true, data: result.data, total: result.total, page, pageSize });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load appeals' });
+      }
+    });
+    router.get('/appeals/:id', requirePermission('appeals.view'), async (req, res) => {
+      try {
+        const data = await BanAppealService.getInstance().getWithEvidence(String(req.params.id));
+        if (!data) { res.status(404).json({ success: false, message: 'Appeal not found' }); return; }
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load appeal' });
+      }
+    });
+    router.post('/appeals/:id/decision', requirePermission('appeals.decide'), async (req, res) => {
+      try {
+        const body = req.body || {};
+        if (!['uphold', 'unban', 'reduce'].includes(body.decision)) { res.status(400).json({ success: false, message: 'decision must be uphold, unban or reduce' }); return; }
+        const result = await BanAppealService.getInstance().decide(
+          String(req.params.id),
+          { decision: body.decision, note: body.note, reduceHours: body.reduceHours },
+          (req as any).admin,
+          req.ip
+        );
+        if (!result.success) {
+          const status = result.error === 'not_found' ? 404 : result.error === 'invalid_duration' ? 400 : 409;
+          const message = result.error === 'not_found' ? 'Appeal not found'
+            : result.error === 'invalid_duration' ? `reduceHours must be between 1 and ${MAX_REDUCED_BAN_HOURS}`
+            : 'Appeal has already been decided';
+          res.status(status).json({ success: false, message });
+          return;
+        }
+        res.json({ success: true, data: result.appeal });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to record the decision' });
+      }
+    });
+
     router.use('/broadcasts', requireAuth);
-    router.post('/broadcasts/send', requireRole('admin'), async (req, res) => {
+    const readBroadcastAudience = (body: any): { targetType: BroadcastTargetType; segment: BroadcastSegment; targetUsers: string[] } => {
+      const targetUsers = Array.isArray(body.targetUsers) ? body.targetUsers.map(String).filter(Boolean) : [];
+      if (targetUsers.length > 0) return { targetType: 'specific', segment: {}, targetUsers };
+      return { targetType: 'segment', segment: parseBroadcastSegment(body.segmentation), targetUsers: [] };
+    };
+    router.post('/broadcasts/preview', requirePermission('broadcast.send'), async (req, res) => {
+      try {
+        const { targetType, segment, targetUsers } = readBroadcastAudience(req.body || {});
+        const recipients = await BroadcastQueueService.getInstance().countRecipients(targetType, segment, targetUsers);
+        res.json({ success: true, data: { recipients, segment } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to preview audience' });
+      }
+    });
+    router.post('/broadcasts/send', requirePermission('broadcast.send'), async (req, res) => {
       try {
         const body = req.body || {};
-        const type = (body.type as 'text'|'image') || 'text';
-        const message = String(body.message || '').trim();
-        const mediaUrl = body.mediaUrl ? String(body.mediaUrl) : undefined;
-        const seg = body.segmentation || {};
-        if (!message && type === 'text') { res.status(400).json({ success: false, message: 'Message required' }); return; }
-        if (type === 'image' && !mediaUrl) { res.status(400).json({ success: false, message: 'mediaUrl required for image broadcast' }); return; }
-        // Build user query
-        const query: any = {};
-        
-        // Handle blocked/banned users - these override normal filtering
-        if (seg.includeBlocked === true || seg.includeBanned === true) {
-          const blockConditions = [];
-          if (seg.includeBlocked === true) {
-            blockConditions.push({ isBlocked: true });
-          }
-          if (seg.includeBanned === true) {
-            blockConditions.push({ isBanned: true });
-          }
-          if (blockConditions.length > 0) {
-            query.$or = blockConditions;
-            logger.info('Including blocked/banned users in broadcast');
-          }
-        } else {
-          // Default behavior: send to ALL users (excluding blocked/banned)
-          query.isBlocked = { $ne: true };
-          query.isBanned = { $ne: true };
-          
-          // Apply segmentation filters ONLY if they are specifically enabled
-          // This allows "all users" when no criteria are selected
-          const hasSpecificCriteria = seg.verified === true || seg.premium === true || seg.hasWallet === true || seg.hasReferrals === true;
-          
-          if (hasSpecificCriteria) {
-            // Apply specific filters only when explicitly requested
-            if (seg.verified === true) query.isVerified = true;
-            if (seg.premium === true) query.isPremium = true;
-            if (seg.hasWallet === true) query.walletAddress = { $exists: true, $nin: [null, ''] } as any;
-            if (seg.hasReferrals === true) query.totalReferrals = { $gt: 0 } as any;
-            logger.info('Applying specific user criteria filters');
-          } else {
-            logger.info('No specific criteria selected - targeting ALL users (excluding blocked/banned)');
+        const content = {
+          type: (body.type as BroadcastType) || 'text',
+          message: String(body.message || '').trim(),
+          mediaUrl: body.mediaUrl ? String(body.mediaUrl).trim() : undefined,
+          buttons: Array.isArray(body.buttons) ? body.buttons.filter((row: any) => Array.isArray(row) && row.length > 0) : undefined
+        };
+        if (!['text', 'image', 'video', 'animation', 'document'].includes(content.type)) { res.status(400).json({ success: false, message: 'Unsupported broadcast type' }); return; }
+        const invalid = validateBroadcastContent(content);
+        if (invalid) { res.status(400).json({ success: false, message: invalid }); return; }
+        // Optional copies per locale: { ru: { message }, ... }; blank ones are dropped
+        const translations: Record<string, { message: string }> = {};
+        if (body.translations && typeof body.translations === 'object') {
+          const i18n = LocalizationService.getInstance();
+          for (const [locale, value] of Object.entries<any>(body.translations)) {
+            const message = String(value?.message || '').trim();
+            if (!message) continue;
+            if (!i18n.isSupported(locale)) { res.status(400).json({ success: false, message: `Locale ${locale} is not enabled` }); return; }
+            const invalidCopy = validateBroadcastContent({ ...content, message });
+            if (invalidCopy) { res.status(400).json({ success: false, message: `${locale}: ${invalidCopy}` }); return; }
+            translations[locale.toLowerCase()] = { message };
           }
         }
-        
-        // Apply common filters regardless of block status
-        if (seg.minPoints !== undefined || seg.maxPoints !== undefined) {
-          query.points = {};
-          if (seg.minPoints !== undefined) query.points.$gte = Number(seg.minPoints);
-          if (seg.maxPoints !== undefined) query.points.$lte = Number(seg.maxPoints);
-        }
-        if (seg.activeDays && Number(seg.activeDays) > 0) {
-          const since = new Date(Date.now() - Number(seg.activeDays) * 24 * 60 * 60 * 1000).toISOString();
-          query.lastActiveAt = { $gte: since } as any;
+
+        let scheduledAt: string | undefined;
+        if (body.scheduledAt) {
+          const at = new Date(body.scheduledAt);
+          if (!Number.isFinite(at.getTime())) { res.status(400).json({ success: false, message: 'Invalid scheduledAt' }); return; }
+          scheduledAt = at.toISOString();
         }
-        const users = await storage.findByQuery<any>('users', query, { projection: { telegramId: 1 } as any });
-        const targetUsers = users.map(u => u.telegramId).filter(Boolean);
-        
-        // Enhanced logging for segmentation
-        const hasSpecificCriteria = seg.verified === true || seg.premium === true || seg.hasWallet === true || seg.hasReferrals === true;
-        const isSpecialCategory = seg.includeBlocked === true || seg.includeBanned === true;
-        
-        const segmentationSummary = {
-          targetMode: isSpecialCategory ? 'blocked/banned users' : hasSpecificCriteria ? 'specific criteria' : 'ALL users',
-          verified: seg.verified,
-          premium: seg.premium,
-          hasWallet: seg.hasWallet,
-          hasReferrals: seg.hasReferrals,
-          includeBlocked: seg.includeBlocked,
-          includeBanned: seg.includeBanned,
-          activeDays: seg.activeDays,
-          pointsRange: seg.minPoints || seg.maxPoints ? `${seg.minPoints || 'any'}-${seg.maxPoints || 'any'}` : 'any'
-        };
-        
-        logger.info(`Broadcast targeting ${targetUsers.length} users`);
-        logger.info('Segmentation criteria:', segmentationSummary);
-        logger.info('Database query:', query);
-        if (!targetUsers.length) { 
+        const rateLimitPerSecond = body.rateLimitPerSecond ? Number(body.rateLimitPerSecond) : undefined;
+        if (rateLimitPerSecond !== undefined && !(rateLimitPerSecond > 0)) { res.status(400).json({ success: false, message: 'rateLimitPerSecond must be positive' }); return; }
+
+        const { targetType, segment, targetUsers } = readBroadcastAudience(body);
+        const service = BroadcastQueueService.getInstance();
+        const targets = await service.countRecipients(targetType, segment, targetUsers);
+        logger.info(`Broadcast targeting ${targets} users`, { segment, scheduledAt });
+        // Scheduled broadcasts re-evaluate the segment at send time, so an empty audience now is fine
+        if (!targets && !scheduledAt) {
           logger.warn('No users found matching broadcast criteria');
-          res.json({ success: true, queued: false, id: null, targets: 0 }); 
-          return; 
+          res.json({ success: true, queued: false, id: null, targets: 0 });
+          return;
         }
-        logger.info(`Queueing broadcast to ${targetUsers.length} users: ${targetUsers.slice(0, 5).join(', ')}${targetUsers.length > 5 ? '...' : ''}`);
-        const id = await BroadcastQueueService.getInstance().queueBroadcast({ type, message, mediaUrl, targetType: 'specific', targetUsers });
+        const id = await service.queueBroadcast({
+          ...content,
+          translations,
+          targetType,
+          targetUsers,
+          segment,
+          scheduledAt,
+          rateLimitPerSecond,
+          createdBy: (req as any).admin?.username
+        });
         logger.info(`Broadcast queued with ID: ${id}`);
-        res.json({ success: true, queued: true, id, targets: targetUsers.length });
+        res.json({ success: true, queued: true, id, targets });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to queue broadcast' });
       }
     });
-    router.get('/broadcasts/history', requireRole('moderator'), async (req, res) => {
+    router.get('/broadcasts/history', requirePermission('broadcast.view'), async (req, res) => {
       try {
         const limit = Math.min(200, Math.max(1, Number(req.query.limit ?? 50) || 50));
         const data = await BroadcastQueueService.getInstance().getBroadcastHistory(limit);
-        res.json({ success: true, data });
+        res.json({ success: true, data, locales: LocalizationService.getInstance().getLocales() });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to load history' });
       }
     });
+    router.get('/broadcasts/:id', requirePermission('broadcast.view'), async (req, res) => {
+      try {
+        const broadcast = await BroadcastQueueService.getInstance().getBroadcast(String(req.params.id));
+        if (!broadcast) { res.status(404).json({ success: false, message: 'Broadcast not found' }); return; }
+        res.json({ success: true, data: broadcast });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load broadcast' });
+      }
+    });
+    router.get('/broadcasts/:id/deliveries', requirePermission('broadcast.view'), async (req, res) => {
+      try {
+        const limit = Math.min(200, Math.max(1, Number(req.query.limit ?? 50) || 50));
+        const skip = Math.max(0, Number(req.query.skip ?? 0) || 0);
+        const status = req.query.status ? String(req.query.status) as DeliveryStatus : undefined;
+        const data = await BroadcastQueueService.getInstance().getDeliveries(String(req.params.id), { status, skip, limit });
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load deliveries' });
+      }
+    });
+    for (const action of ['pause', 'resume', 'cancel'] as const) {
+      router.post(`/broadcasts/:id/${action}`, requirePermission('broadcast.send'), async (req, res) => {
+        try {
+          const service = BroadcastQueueService.getInstance();
+          const id = String(req.params.id);
+          const ok = action === 'pause' ? await service.pauseBroadcast(id)
+            : action === 'resume' ? await service.resumeBroadcast(id)
+            : await service.cancelBroadcast(id);
+          if (!ok) { res.status(409).json({ success: false, message: `Broadcast cannot be ${action === 'cancel' ? 'cancelled' : action + 'd'} in its current state` }); return; }
+          logger.info(`Broadcast ${id} ${action} by ${(req as any).admin?.username || 'unknown'}`);
+          res.json({ success: true, data: await service.getBroadcast(id) });
+        } catch (e: any) {
+          res.status(500).json({ success: false, message: e?.message || `Failed to ${action} broadcast` });
+        }
+      });
+    }
 
     router.use('/referrals', requireAuth);
-    router.get('/referrals/leaderboard', requireRole('viewer'), async (req, res) => {
+    router.get('/referrals/leaderboard', requirePermission('referrals.view'), async (req, res) => {
       try {
         const limit = Math.min(100, Math.max(1, Number(req.query.limit ?? 20) || 20));
         const pipeline = [
@@ -1618,19 +2147,166 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to load leaderboard' });
       }
     });
-    router.get('/referrals/metrics', requireRole('viewer'), async (_req, res) => {
+    router.get('/referrals/metrics', requirePermission('referrals.view'), async (_req, res) => {
       try {
         const total = await storage.countDocuments('referrals', {});
         const active = await storage.countDocuments('referrals', { isActive: true } as any);
-        res.json({ success: true, data: { total, active, conversionRate: total > 0 ? active / total : 0 } });
+        const statusRows = await storage.aggregate<any>('referrals', [
+          { $group: { _id: { $ifNull: ['$status', 'bonus_awarded'] }, count: { $sum: 1 }, clawedBack: { $sum: { $ifNull: ['$clawedBack', 0] } }, commissionPaid: { $sum: { $ifNull: ['$commissionPaid', 0] } } } }
+        ] as any);
+        const byStatus = Object.fromEntries(statusRows.map((r: any) => [r._id, r.count]));
+        const unlocked = byStatus.bonus_awarded || 0;
+        res.json({
+          success: true,
+          data: {
+            total,
+            active,
+            conversionRate: total > 0 ? unlocked / total : 0,
+            byStatus,
+            commissionPaid: statusRows.reduce((sum: number, r: any) => sum + r.commissionPaid, 0),
+            clawedBack: statusRows.reduce((sum: number, r: any) => sum + r.clawedBack, 0),
+            commissionRates: ReferralProgramService.getInstance().getCommissionRates(),
+            taskThreshold: config.referral.taskThreshold
+          }
+        });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to load referral metrics' });
       }
     });
+    router.get('/referrals/records', requirePermission('referrals.view'), async (req, res) => {
+      try {
+        const page = Math.max(1, Number(req.query.page ?? 1) || 1);
+        const pageSize = Math.min(200, Math.max(1, Number(req.query.pageSize ?? 50) || 50));
+        const query: any = {};
+        if (req.query.status) query.status = String(req.query.status);
+        if (req.query.referrerId) query.referrerId = String(req.query.referrerId);
+        const total = await storage.countDocuments('referrals', query);
+        const data = await storage.findByQuery<any>('referrals', query, { sort: { createdAt: -1 }, skip: (page - 1) * pageSize, limit: pageSize, projection: { _id: 0, accruedKeys: 0 } as any });
+        res.json({ success: true, data, total, page, pageSize });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load referrals' });
+      }
+    });
+    router.post('/referrals/:userId/clawback', requirePermission('referrals.manage'), async (req, res) => {
+      try {
+        const program = ReferralProgramService.getInstance();
+        const userId = String(req.params.userId);
+        if (!(await program.getByReferee(userId))) { res.status(404).json({ success: false, message: 'No referral record for this user' }); return; }
+        const result = await program.clawBack(userId, String(req.body?.reason || 'admin'));
+        res.json({ success: result.success, data: result });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to claw back referral' });
+      }
+    });
+    router.post('/referrals/sweep', requirePermission('referrals.manage'), async (_req, res) => {
+      try {
+        const report = await ReferralProgramService.getInstance().sweep();
+        res.json({ success: true, data: report });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Referral sweep failed' });
+      }
+    });
+
+    // Merkle airdrop snapshots
+    router.use('/airdrop', requireAuth);
+    router.get('/airdrop/snapshots', requirePermission('airdrop.view'), async (req, res) => {
+      try {
+        const limit = Math.min(100, Math.max(1, Number(req.query.limit ?? 20) || 20));
+        const data = await AirdropSnapshotService.getInstance().listSnapshots(limit);
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load snapshots' });
+      }
+    });
+    router.post('/airdrop/snapshots', requirePermission('airdrop.manage'), async (req, res) => {
+      try {
+        const service = AirdropSnapshotService.getInstance();
+        const minPoints = req.body?.minPoints !== undefined ? Number(req.body.minPoints) : undefined;
+        if (minPoints !== undefined && (!Number.isFinite(minPoints) || minPoints < 0)) { res.status(400).json({ success: false, message: 'minPoints must be a non-negative number' }); return; }
+        const tokenId = req.body?.tokenId ? String(req.body.tokenId) : undefined;
+        if (tokenId && !await ChainRegistryService.getInstance().resolvePayoutTarget(tokenId)) {
+          res.status(400).json({ success: false, message: 'Token is not available for payouts' }); return;
+        }
+        if (req.body?.dryRun) {
+          res.json({ success: true, data: await service.preview(minPoints, tokenId) });
+          return;
+        }
+
+        const admin = (req as any).admin?.username || 'admin';
+        // Large snapshots take a while; answer as soon as the record exists and let the build finish in the background
+        service.generate({
+          createdBy: admin,
+          minPoints,
+          tokenId,
+          onStarted: (snapshot) => {
+            logger.warn('Admin started airdrop snapshot', { admin, snapshotId: snapshot.id });
+            res.status(202).json({ success: true, data: snapshot });
+          }
+        }).catch((e: any) => {
+          if (!res.headersSent) res.status(500).json({ success: false, message: e?.message || 'Failed to generate snapshot' });
+        });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to generate snapshot' });
+      }
+    });
+    router.get('/airdrop/snapshots/:id', requirePermission('airdrop.view'), async (req, res) => {
+      try {
+        const service = AirdropSnapshotService.getInstance();
+        const snapshot = await service.getSnapshot(String(req.params.id));
+        if (!snapshot) { res.status(404).json({ success: false, message: 'Snapshot not found' }); return; }
+        const page = Math.max(1, Number(req.query.page ?? 1) || 1);
+        const pageSize = Math.min(200, Math.max(1, Number(req.query.pageSize ?? 50) || 50));
+        const status = req.query.status ? String(req.query.status) as any : undefined;
+        const { claims, total } = await service.getClaims(snapshot.id, { skip: (page - 1) * pageSize, limit: pageSize, status });
+        res.json({ success: true, data: { snapshot, claims, total, page, pageSize } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load snapshot' });
+      }
+    });
+    router.get('/airdrop/snapshots/:id/export', requirePermission('airdrop.export'), async (req, res) => {
+      try {
+        const data = await AirdropSnapshotService.getInstance().buildExport(String(req.params.id));
+        if (!data) { res.status(404).json({ success: false, message: 'Snapshot not found or not built yet' }); return; }
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Content-Disposition', `attachment; filename="${data.snapshotId}.json"`);
+        res.send(JSON.stringify(data, null, 2));
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to export snapshot' });
+      }
+    });
+    router.post('/airdrop/snapshots/:id/publish', requirePermission('airdrop.manage'), async (req, res) => {
+      try {
+        const distributorAddress = String(req.body?.distributorAddress || '');
+        if (!distributorAddress) { res.status(400).json({ success: false, message: 'distributorAddress is required' }); return; }
+        const admin = (req as any).admin?.username || 'admin';
+        const snapshot = await AirdropSnapshotService.getInstance().publish(String(req.params.id), distributorAddress, admin);
+        res.json({ success: true, data: snapshot });
+      } catch (e: any) {
+        res.status(400).json({ success: false, message: e?.message || 'Failed to publish snapshot' });
+      }
+    });
+    router.post('/airdrop/snapshots/:id/discard', requirePermission('airdrop.manage'), async (req, res) => {
+      try {
+        const admin = (req as any).admin?.username || 'admin';
+        const result = await AirdropSnapshotService.getInstance().discard(String(req.params.id), admin);
+        logger.warn('Admin discarded airdrop snapshot', { admin, snapshotId: req.params.id, released: result.released, failed: result.failed });
+        res.json({ success: true, data: result });
+      } catch (e: any) {
+        res.status(400).json({ success: false, message: e?.message || 'Failed to discard snapshot' });
+      }
+    });
+    router.get('/airdrop/users/:userId', requirePermission('airdrop.users.view'), async (req, res) => {
+      try {
+        const data = await AirdropSnapshotService.getInstance().getClaimsForUser(String(req.params.userId));
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load airdrop claims' });
+      }
+    });
 
     // Bot performance monitoring routes
     router.use('/bot-performance', requireAuth);
-    router.get('/bot-performance/live', requireRole('viewer'), async (_req, res) => {
+    router.get('/bot-performance/live', requirePermission('performance.view'), async (_req, res) => {
       try {
         const logs = await botResponseMonitor.getLiveLogs(100);
         res.json({ success: true, data: logs });
@@ -1639,7 +2315,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/bot-performance/records', requireRole('viewer'), async (req, res) => {
+    router.get('/bot-performance/records', requirePermission('performance.view'), async (req, res) => {
       try {
         const sortBy = req.query.sortBy as any;
         const records = await botResponseMonitor.getRecords({ sortBy });
@@ -1649,7 +2325,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/bot-performance/stats', requireRole('viewer'), async (_req, res) => {
+    router.get('/bot-performance/stats', requirePermission('performance.view'), async (_req, res) => {
       try {
         const stats = await botResponseMonitor.getStatistics();
         res.json({ success: true, data: stats });
@@ -1658,7 +2334,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/bot-performance/clear', requireRole('admin'), async (_req, res) => {
+    router.post('/bot-performance/clear', requirePermission('performance.clear'), async (_req, res) => {
       try {
         await botResponseMonitor.clearAll();
         res.json({ success: true, message: 'All bot performance data cleared' });
@@ -1668,9 +2344,9 @@ router.use('/analytics', requireAuth);
     });
 
     router.use('/wallet', requireAuth);
-    router.get('/wallet/withdrawals', requireRole('moderator'), async (req, res) => {
+    router.get('/wallet/withdrawals', requirePermission('withdrawals.view'), async (req, res) => {
       try {
-        const status = (req.query.status as string | undefined) || 'pending';
+        const status = (req.query.status as string | undefined) || 'pending_review';
         const page = Math.max(1, Number(req.query.page ?? 1) || 1);
         const pageSize = Math.min(200, Math.max(1, Number(req.query.pageSize ?? 20) || 20));
         const query: any = { status };
@@ -1681,32 +2357,118 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to load withdrawals' });
       }
     });
-    router.post('/wallet/withdrawals/:id/approve', requireRole('admin'), async (req, res) => {
+    // Review queue: approval hands the payout to the payout worker, denial refunds the points
+    router.post('/wallet/withdrawals/:id/approve', requirePermission('withdrawals.approve'), async (req, res) => {
       try {
-        const id = String(req.params.id);
-        await storage.update('withdrawals', { status: 'completed', processedAt: new Date().toISOString(), failureReason: undefined }, id);
-        res.json({ success: true });
+        const admin = (req as any).admin;
+        const result = await WithdrawalService.getInstance().approve(String(req.params.id), admin?.username || 'admin');
+        if (!result.success) {
+          res.status(result.error === 'not_found' ? 404 : 409).json({
+            success: false,
+            message: result.error === 'not_found' ? 'Withdrawal not found' : `Withdrawal is ${result.withdrawal?.status}, not awaiting review`
+          });
+          return;
+        }
+        res.json({ success: true, data: result.withdrawal });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to approve withdrawal' });
       }
     });
-    router.post('/wallet/withdrawals/:id/deny', requireRole('admin'), async (req, res) => {
+    router.post('/wallet/withdrawals/:id/deny', requirePermission('withdrawals.approve'), async (req, res) => {
       try {
-        const id = String(req.params.id);
-        const reason = (req.body || {}).reason || 'Denied by admin';
-        await storage.update('withdrawals', { status: 'failed', processedAt: new Date().toISOString(), failureReason: reason }, id);
-        res.json({ success: true });
+        const admin = (req as any).admin;
+        const reason = String((req.body || {}).reason || '').trim().slice(0, 500) || 'Denied by admin';
+        const result = await WithdrawalService.getInstance().deny(String(req.params.id), admin?.username || 'admin', reason);
+        if (!result.success) {
+          res.status(result.error === 'not_found' ? 404 : 409).json({
+            success: false,
+            message: result.error === 'not_found' ? 'Withdrawal not found' : `Withdrawal is ${result.withdrawal?.status}, not awaiting review`
+          });
+          return;
+        }
+        res.json({ success: true, data: result.withdrawal });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to deny withdrawal' });
       }
     });
-    router.get('/wallet/metrics/daily', requireRole('viewer'), async (_req, res) => {
+    router.get('/wallet/payout-batches', requirePermission('withdrawals.view'), async (req, res) => {
+      try {
+        const status = req.query.status ? String(req.query.status) : undefined;
+        const limit = Number(req.query.limit ?? 50) || 50;
+        const data = await PayoutService.getInstance().listBatches({ status, limit });
+        res.json({ success: true, data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load payout batches' });
+      }
+    });
+    // Payout networks and tokens; the primary ones come from the Blockchain settings and are read-only here
+    const registryStatus = (error?: string) => error === 'not_found' ? 404 : error === 'in_use' || error === 'built_in' ? 409 : 400;
+    router.get('/wallet/networks', requirePermission('chains.view'), async (_req, res) => {
+      try {
+        const registry = ChainRegistryService.getInstance();
+        const [networks, tokens, usage] = await Promise.all([registry.listNetworks(), registry.listTokens(), registry.getDailyUsage()]);
+        res.json({ success: true, data: { networks, tokens, usage } });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to load payout networks' });
+      }
+    });
+    router.post('/wallet/networks', requirePermission('chains.manage'), async (req, res) => {
+      try {
+        const admin = (req as any).admin?.username || 'admin';
+        const result = await ChainRegistryService.getInstance().saveNetwork(req.body || {}, admin);
+        if (!result.success) { res.status(registryStatus(result.error)).json({ success: false, message: result.message }); return; }
+        res.json({ success: true, data: result.data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to save network' });
+      }
+    });
+    router.delete('/wallet/networks/:chainId', requirePermission('chains.manage'), async (req, res) => {
+      try {
+        const admin = (req as any).admin?.username || 'admin';
+        const result = await ChainRegistryService.getInstance().deleteNetwork(Number(req.params.chainId), admin);
+        if (!result.success) { res.status(registryStatus(result.error)).json({ success: false, message: result.message }); return; }
+        res.json({ success: true });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to remove network' });
+      }
+    });
+    router.post('/wallet/tokens', requirePermission('chains.manage'), async (req, res) => {
+      try {
+        const admin = (req as any).admin?.username || 'admin';
+        const result = await ChainRegistryService.getInstance().saveToken(req.body || {}, admin);
+        if (!result.success) { res.status(registryStatus(result.error)).json({ success: false, message: result.message }); return; }
+        res.json({ success: true, data: result.data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to save token' });
+      }
+    });
+    router.put('/wallet/tokens/:id', requirePermission('chains.manage'), async (req, res) => {
+      try {
+        const admin = (req as any).admin?.username || 'admin';
+        const result = await ChainRegistryService.getInstance().saveToken(req.body || {}, admin, String(req.params.id));
+        if (!result.success) { res.status(registryStatus(result.error)).json({ success: false, message: result.message }); return; }
+        res.json({ success: true, data: result.data });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to save token' });
+      }
+    });
+    router.delete('/wallet/tokens/:id', requirePermission('chains.manage'), async (req, res) => {
+      try {
+        const admin = (req as any).admin?.username || 'admin';
+        const result = await ChainRegistryService.getInstance().deleteToken(String(req.params.id), admin);
+        if (!result.success) { res.status(registryStatus(result.error)).json({ success: false, message: result.message }); return; }
+        res.json({ success: true });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to remove token' });
+      }
+    });
+    router.get('/wallet/metrics/daily', requirePermission('analytics.view'), async (_req, res) => {
       try {
         const start = new Date(); start.setHours(0,0,0,0);
         const end = new Date(); end.setHours(23,59,59,999);
         const rows = await storage.aggregate<any>('withdrawals', [
-          { $match: { status: 'completed', processedAt: { $gte: start.toISOString(), $lte: end.toISOString() } } },
-          { $group: { _id: null, totalAmount: { $sum: '$amount' }, totalTokens: { $sum: '$tokenAmount' }, count: { $sum: 1 } } }
+          { $match: { status: { $in: ['completed', 'confirmed'] }, processedAt: { $gte: start.toISOString(), $lte: end.toISOString() } } },
+          { $group: { _id: null, totalAmount: { $sum: { $ifNull: ['$pointsWithdrawn', '$amount'] } }, totalTokens: { $sum: '$tokenAmount' }, count: { $sum: 1 } } }
         ] as any);
         const data = rows && rows.length ? rows[0] : { totalAmount: 0, totalTokens: 0, count: 0 };
         res.json({ success: true, data });
@@ -1717,7 +2479,7 @@ router.use('/analytics', requireAuth);
 
     router.use('/db', requireAuth);
 
-    router.get('/db/databases', requireRole('viewer'), async (_req, res) => {
+    router.get('/db/databases', requirePermission('db.read'), async (_req, res) => {
       try {
         const inst: any = (storage as any).getStorageInstance?.() || null;
         const client = inst?.client;
@@ -1731,7 +2493,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/db/mongodb-stats', requireRole('viewer'), async (_req, res) => {
+    router.get('/db/mongodb-stats', requirePermission('db.read'), async (_req, res) => {
       try {
         const inst: any = (storage as any).getStorageInstance?.() || null;
         const client = inst?.client;
@@ -1784,7 +2546,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/db/redis-stats', requireRole('viewer'), async (_req, res) => {
+    router.get('/db/redis-stats', requirePermission('db.read'), async (_req, res) => {
       try {
         const redisCache = RedisDistributedCacheService.getInstance();
         const redis = (redisCache as any).redis;
@@ -1873,7 +2635,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/db/redis-keys', requireRole('viewer'), async (req, res) => {
+    router.get('/db/redis-keys', requirePermission('db.read'), async (req, res) => {
       try {
         const redisCache = RedisDistributedCacheService.getInstance();
         const redis = (redisCache as any).redis;
@@ -1968,7 +2730,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/db/redis-get', requireRole('viewer'), async (req, res) => {
+    router.get('/db/redis-get', requirePermission('db.read'), async (req, res) => {
       try {
         const redisCache = RedisDistributedCacheService.getInstance();
         const redis = (redisCache as any).redis;
@@ -2029,7 +2791,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/redis-delete', requireRole('admin'), async (req, res) => {
+    router.post('/db/redis-delete', requirePermission('db.write'), async (req, res) => {
       try {
         const redisCache = RedisDistributedCacheService.getInstance();
         const redis = (redisCache as any).redis;
@@ -2055,7 +2817,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/redis-flush', requireRole('super_admin'), async (req, res) => {
+    router.post('/db/redis-flush', requirePermission('db.admin'), async (req, res) => {
       try {
         const redisCache = RedisDistributedCacheService.getInstance();
         const redis = (redisCache as any).redis;
@@ -2081,7 +2843,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/db/collections', requireRole('viewer'), async (req, res) => {
+    router.get('/db/collections', requirePermission('db.read'), async (req, res) => {
       try {
         const dbName = String((req.query.db as string) || config.storage.mongodb.database);
         const inst: any = (storage as any).getStorageInstance?.() || null;
@@ -2096,7 +2858,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/query', requireRole('viewer'), async (req, res) => {
+    router.post('/db/query', requirePermission('db.read'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2126,7 +2888,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/delete-many', requireRole('admin'), async (req, res) => {
+    router.post('/db/delete-many', requirePermission('db.write'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2155,7 +2917,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/drop-collection', requireRole('super_admin'), async (req, res) => {
+    router.post('/db/drop-collection', requirePermission('db.admin'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2173,7 +2935,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/drop-database', requireRole('super_admin'), async (req, res) => {
+    router.post('/db/drop-database', requirePermission('db.admin'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2190,7 +2952,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/recreate', requireRole('super_admin'), async (req, res) => {
+    router.post('/db/recreate', requirePermission('db.admin'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2210,7 +2972,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/db/indexes', requireRole('admin'), async (req, res) => {
+    router.get('/db/indexes', requirePermission('db.export'), async (req, res) => {
       try {
         const dbName = String((req.query.db as string) || config.storage.mongodb.database);
         const collection = String((req.query.collection as string) || '');
@@ -2227,7 +2989,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/indexes/create', requireRole('super_admin'), async (req, res) => {
+    router.post('/db/indexes/create', requirePermission('db.admin'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2247,7 +3009,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/indexes/drop', requireRole('super_admin'), async (req, res) => {
+    router.post('/db/indexes/drop', requirePermission('db.admin'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2266,7 +3028,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/insert-one', requireRole('admin'), async (req, res) => {
+    router.post('/db/insert-one', requirePermission('db.write'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2285,7 +3047,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/update-one', requireRole('admin'), async (req, res) => {
+    router.post('/db/update-one', requirePermission('db.write'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2314,7 +3076,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/delete-one', requireRole('admin'), async (req, res) => {
+    router.post('/db/delete-one', requirePermission('db.write'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2342,7 +3104,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/delete-by-user', requireRole('admin'), async (req, res) => {
+    router.post('/db/delete-by-user', requirePermission('db.write'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2369,7 +3131,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/db/export', requireRole('admin'), async (req, res) => {
+    router.get('/db/export', requirePermission('db.export'), async (req, res) => {
       try {
         const dbName = String((req.query.db as string) || config.storage.mongodb.database);
         const collection = String((req.query.collection as string) || '');
@@ -2410,7 +3172,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/import', requireRole('admin'), async (req, res) => {
+    router.post('/db/import', requirePermission('db.write'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2429,7 +3191,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/aggregate', requireRole('viewer'), async (req, res) => {
+    router.post('/db/aggregate', requirePermission('db.read'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2449,7 +3211,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.get('/db/schema-analyze', requireRole('viewer'), async (req, res) => {
+    router.get('/db/schema-analyze', requirePermission('db.read'), async (req, res) => {
       try {
         const dbName = String((req.query.db as string) || config.storage.mongodb.database);
         const collection = String((req.query.collection as string) || '');
@@ -2489,7 +3251,7 @@ router.use('/analytics', requireAuth);
       }
     });
 
-    router.post('/db/explain', requireRole('viewer'), async (req, res) => {
+    router.post('/db/explain', requirePermission('db.read'), async (req, res) => {
       try {
         const body = req.body || {};
         const dbName = String(body.db || config.storage.mongodb.database);
@@ -2514,19 +3276,68 @@ router.use('/analytics', requireAuth);
     });
 
     router.use('/settings', requireAuth);
-    router.get('/settings/admin-users', requireRole('admin'), async (_req, res) => {
+    router.get('/settings/admin-users', requirePermission('admins.view'), async (_req, res) => {
       try {
         const admins = await storage.listAdminUsers();
-        const safe = admins.map(a => ({ id: a.id, username: a.username, role: a.role, isActive: a.isActive, firstName: a.firstName, email: a.email, createdAt: a.createdAt, lastLoginAt: a.lastLoginAt }));
+        const safe = admins.map(a => ({
+          id: a.id, username: a.username, role: a.role, isActive: a.isActive, firstName: a.firstName, email: a.email, createdAt: a.createdAt, lastLoginAt: a.lastLoginAt,
+          permissions: a.permissions || [],
+          revokedPermissions: a.revokedPermissions || [],
+          effectivePermissions: resolvePermissions({ role: a.role, granted: a.permissions, revoked: a.revokedPermissions, isActive: a.isActive !== false })
+        }));
         res.json({ success: true, data: safe });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to load admin users' });
       }
     });
-    router.post('/settings/admin-users', requireRole('super_admin'), async (req, res) => {
+    router.get('/settings/permissions', requirePermission('admins.view'), async (_req, res) => {
+      res.json({
+        success: true,
+        data: {
+          roles: ADMIN_ROLES,
+          permissions: Object.entries(ADMIN_PERMISSION_DESCRIPTIONS).map(([id, description]) => ({ id, description })),
+          roleDefaults: Object.fromEntries(ADMIN_ROLES.map(role => [role, resolvePermissions({ role })]))
+        }
+      });
+    });
+    router.put('/settings/admin-users/:id/permissions', requirePermission('admins.manage'), async (req, res) => {
+      try {
+        const id = String(req.params.id);
+        const admin = await storage.getAdminUser(id);
+        if (!admin) { res.status(404).json({ success: false, message: 'Admin not found' }); return; }
+        const body = req.body || {};
+        if (!Array.isArray(body.granted) || !Array.isArray(body.revoked)) { res.status(400).json({ success: false, message: 'granted and revoked must be arrays' }); return; }
+        const unknown = [...body.granted, ...body.revoked].filter((p: unknown) => !(typeof p === 'string' && p in ADMIN_PERMISSION_DESCRIPTIONS));
+        if (unknown.length) { res.status(400).json({ success: false, message: `Unknown permissions: ${unknown.join(', ')}` }); return; }
+        const saved = await adminPermissions.setOverrides(id, { granted: body.granted, revoked: body.revoked });
+        logger.warn(`Permissions for admin ${admin.username} changed by ${(req as any).admin?.username || 'unknown'}`, saved);
+        res.json({
+          success: true,
+          data: { ...saved, effectivePermissions: resolvePermissions({ role: admin.role, granted: saved.permissions, revoked: saved.revokedPermissions, isActive: admin.isActive !== false }) }
+        });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to update permissions' });
+      }
+    });
+    router.post('/settings/admin-users/:id/mfa/reset', requirePermission('admins.manage'), async (req, res) => {
+      try {
+        const id = String(req.params.id);
+        const admin = await storage.getAdminUser(id);
+        if (!admin) { res.status(404).json({ success: false, message: 'Admin not found' }); return; }
+        const by = (req as any).admin?.username || 'unknown';
+        await adminSecurity.resetMfa(id);
+        const revoked = await adminSecurity.revokeSubjectSessions(id, by);
+        logger.warn(`2FA reset for admin ${admin.username} by ${by}; ${revoked} sessions revoked`);
+        res.json({ success: true, revoked });
+      } catch (e: any) {
+        res.status(500).json({ success: false, message: e?.message || 'Failed to reset 2FA' });
+      }
+    });
+    router.post('/settings/admin-users', requirePermission('admins.manage'), async (req, res) => {
       try {
         const { username, password, role, firstName, email } = req.body || {};
         if (!username || !password || !role) { res.status(400).json({ success: false, message: 'username, password, role required' }); return; }
+        if (!isAdminRole(role)) { res.status(400).json({ success: false, message: `role must be one of ${ADMIN_ROLES.join(', ')}` }); return; }
         const hashedPassword = await bcrypt.hash(String(password), 10);
         const id = `admin_${Date.now()}`;
         const admin = { id, username: String(username), hashedPassword, role: String(role), isActive: true, firstName: firstName || '', email: email || '', permissions: [], createdAt: new Date().toISOString(), metadata: { loginCount: 0 } } as any;
@@ -2536,22 +3347,26 @@ router.use('/analytics', requireAuth);
         res.status(500).json({ success: false, message: e?.message || 'Failed to create admin user' });
       }
     });
-    router.put('/settings/admin-users/:id', requireRole('super_admin'), async (req, res) => {
+    router.put('/settings/admin-users/:id', requirePermission('admins.manage'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const updates: any = {};
         const body = req.body || {};
-        if (body.role) updates.role = String(body.role);
+        if (body.role !== undefined) {
+          if (!isAdminRole(body.role)) { res.status(400).json({ success: false, message: `role must be one of ${ADMIN_ROLES.join(', ')}` }); return; }
+          updates.role = body.role;
+        }
         if (typeof body.isActive === 'boolean') updates.isActive = body.isActive;
         if (body.firstName !== undefined) updates.firstName = String(body.firstName);
         if (body.email !== undefined) updates.email = String(body.email);
         await storage.updateAdminUser(id, updates);
+        adminPermissions.invalidate(id);
         res.json({ success: true });
       } catch (e: any) {
         res.status(500).json({ success: false, message: e?.message || 'Failed to update admin user' });
       }
     });
-    router.post('/settings/admin-users/:id/password', requireRole('super_admin'), async (req, res) => {
+    router.post('/settings/admin-users/:id/password', requirePermission('admins.manage'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const { newPassword } = req.body || {};
@@ -2566,7 +3381,7 @@ router.use('/analytics', requireAuth);
 
     // Support ticket routes
     router.use('/support', requireAuth);
-    router.get('/support/tickets', requireRole('moderator'), async (req, res) => {
+    router.get('/support/tickets', requirePermission('support.view'), async (req, res) => {
       try {
         const page = Math.max(1, Number(req.query.page ?? 1) || 1);
         const pageSize = Math.min(200, Math.max(1, Number(req.query.pageSize ?? 20) || 20));
@@ -2600,7 +3415,7 @@ router.use('/analytics', requireAuth);
       }
     });
     
-    router.get('/support/tickets/:id', requireRole('moderator'), async (req, res) => {
+    router.get('/support/tickets/:id', requirePermission('support.view'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const ticket = await storage.get('messages', id);
@@ -2614,7 +3429,7 @@ router.use('/analytics', requireAuth);
       }
     });
     
-    router.post('/support/tickets/:id/reply', requireRole('moderator'), async (req, res) => {
+    router.post('/support/tickets/:id/reply', requirePermission('support.reply'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const { message } = req.body || {};
@@ -2708,7 +3523,7 @@ router.use('/analytics', requireAuth);
       }
     });
     
-    router.post('/support/tickets/:id/status', requireRole('moderator'), async (req, res) => {
+    router.post('/support/tickets/:id/status', requirePermission('support.reply'), async (req, res) => {
       try {
         const id = String(req.params.id);
         const { status } = req.body || {};
@@ -2739,7 +3554,7 @@ router.use('/analytics', requireAuth);
       }
     });
     
-    router.post('/support/test-broadcast', requireRole('admin'), async (req, res) => {
+    router.post('/support/test-broadcast', requirePermission('broadcast.send'), async (req, res) => {
       try {
         const { userId, message } = req.body || {};
         if (!userId || !message) {
@@ -2772,7 +3587,7 @@ router.use('/analytics', requireAuth);
 
 
     
-    router.get('/support/stats', requireRole('viewer'), async (_req, res) => {
+    router.get('/support/stats', requirePermission('analytics.view'), async (_req, res) => {
       try {
         const query = { type: 'support_ticket' };
         const total = await storage.countDocuments('messages', query);
@@ -13,6 +13,8 @@ import { unifiedSecurityEngine } from '../security/unified-security-engine';
 import { DeviceFingerprintService } from '../security/device-fingerprint.service';
 import { UserFactory } from '../factories/user-factory';
 import { referralManager } from '../services/referral-manager.service';
+import { MiniAppAuthService } from '../services/security/miniapp-auth.service';
+import { initDataFrom, requireMiniAppIdentity } from '../middleware/miniapp-auth';
 
 // Initialize security services
 const securityEngine: any = unifiedSecurityEngine;
@@ -60,7 +62,7 @@ async function notifyTelegramBot(userId: string, success: boolean = true, messag
             return false;
         }
 
-        const bot = new Telegraf(BOT_TOKEN);
+        const bot = new Telegraf(BOT_TOKEN, { telegram: { apiRoot: config.bot.apiRoot } });
         
         // Auto-delete verification message if requested and available
         if (deleteVerificationMessage) {
@@ -230,14 +232,59 @@ async function notifyTelegramBot(userId: string, success: boolean = true, messag
     }
 }
 
+/**
+ * Health check endpoint for MiniApp
+ */
+router.get('/health', (req, res): void => {
+    res.json({
+        success: true,
+        status: 'healthy',
+        timestamp: new Date().toISOString(),
+        services: {
+            storage: true,
+            security: true,
+            multiAccountDetection: true,
+            enhancedDetection: true,
+            deviceFingerprinting: true,
+            locationServices: true
+        }
+    });
+});
+
+/**
+ * Exchange signed initData for a session token. Each initData is accepted
+ * once, so the Mini App calls this when it opens and sends the token as
+ * `Authorization: Bearer` afterwards.
+ */
+router.post('/session', async (req, res): Promise<void> => {
+    try {
+        const auth = MiniAppAuthService.getInstance();
+        const result = await auth.exchange(initDataFrom(req));
+        if (!result.success) {
+            res.status(401).json({ success: false, error: auth.describeError(result.error), code: `init_data_${result.error}` });
+            return;
+        }
+        res.json({
+            success: true,
+            data: { token: result.session.token, expiresAt: result.session.expiresAt, userId: result.session.identity.id }
+        });
+    } catch (error) {
+        logger.error('Error issuing MiniApp session:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+});
+
+// Everything below needs a verified Telegram user
+router.use(requireMiniAppIdentity);
+
 /**
  * MiniApp verification completion endpoint (Old-bot style)
  * This is called when users complete verification in the MiniApp
  */
 router.post('/verify-complete', async (req, res): Promise<void> => {
     try {
+        const userId = req.miniAppUser.id;
         const {
-            userId,
             deviceFingerprint,
             clientIP,
             userAgent,
@@ -248,14 +295,14 @@ router.post('/verify-complete', async (req, res): Promise<void> => {
             captchaSessionId,
             solution,
             clickTiming,
-            honeypotFilled,
-            telegramData  // Extract telegram data
+            honeypotFilled
         } = req.body;
+        const telegramData = req.miniAppUser;
 
         logger.info(`Processing MiniApp verification completion for user ${userId}`);
 
         // Validate required fields
-        if (!userId || !deviceFingerprint) {
+        if (!deviceFingerprint) {
             res.status(400).json({
                 success: false,
                 error: 'Missing required verification data'
@@ -528,8 +575,15 @@ router.post('/verify-complete', async (req, res): Promise<void> => {
  */
 router.get('/verification-status/:userId', async (req, res): Promise<void> => {
     try {
-        const { userId } = req.params;
-        
+        const userId = req.miniAppUser.id;
+        if (req.params.userId !== userId) {
+            res.status(403).json({
+                success: false,
+                error: 'User mismatch'
+            });
+            return;
+        }
+
         const user = await storage.getUser(userId);
         if (!user) {
             res.status(404).json({
@@ -573,13 +627,13 @@ router.get('/verification-status/:userId', async (req, res): Promise<void> => {
  */
 router.post('/submit-fingerprint', async (req, res): Promise<void> => {
     try {
+        const userId = req.miniAppUser.id;
         const {
-            userId,
             fingerprint,
             detailedData
         } = req.body;
 
-        if (!userId || !fingerprint) {
+        if (!fingerprint) {
             res.status(400).json({
                 success: false,
                 error: 'Missing required fingerprint data'
@@ -627,7 +681,7 @@ router.post('/enhanced-verify', async (req, res): Promise<void> => {
     // Set a timeout for this request to prevent hanging
     const requestTimeout = setTimeout(() => {
         if (!res.headersSent) {
-            logger.warn(`Enhanced verify request timeout for user ${req.body?.userId}`);
+            logger.warn(`Enhanced verify request timeout for user ${req.miniAppUser?.id}`);
             res.status(408).json({
                 success: false,
                 error: 'Request timeout - server is busy',
@@ -637,8 +691,8 @@ router.post('/enhanced-verify', async (req, res): Promise<void> => {
     }, 25000); // 25 second timeout
     
     try {
+        const userId = req.miniAppUser.id;
         const {
-            userId,
             deviceData, // Enhanced device data with all fingerprinting components
             geolocation, // Browser geolocation if available
             behavioralData, // Mouse, keyboard, timing patterns
@@ -647,8 +701,8 @@ router.post('/enhanced-verify', async (req, res): Promise<void> => {
             verificationComplete // Flag to indicate if user has completed slider (true) or just loaded miniapp (false)
         } = req.body;
         
-        // Extract telegramData from deviceData where it's actually sent
-        const telegramData = deviceData?.telegramData;
+        // Profile fields come from the verified Telegram data, not the client's copy
+        const telegramData = req.miniAppUser;
 
         logger.info(`Processing enhanced verification for user ${userId}`, {
             verificationComplete,
@@ -656,16 +710,6 @@ router.post('/enhanced-verify', async (req, res): Promise<void> => {
             hasBehavioralData: !!behavioralData
         });
 
-        // Validate required fields
-        if (!userId) {
-            clearTimeout(requestTimeout);
-            res.status(400).json({
-                success: false,
-                error: 'Missing userId'
-            });
-            return;
-        }
-        
         // If no device data, create minimal fingerprint
         if (!deviceData) {
             logger.warn(`No device data for user ${userId} - using minimal fingerprint`);
@@ -804,7 +848,7 @@ const clientIP = getClientIp(req);
                 referrer: req.get('referer') || '',
                 url: req.originalUrl
             },
-            telegramData: telegramData
+            telegramData: deviceData.telegramData // client platform details for the fingerprint
         };
         
         // Generate enhanced fingerprint with all data
@@ -1056,9 +1100,10 @@ const clientIP = getClientIp(req);
  */
 router.post('/validate-device', async (req, res): Promise<void> => {
     try {
-        const { userId, deviceHash, currentData } = req.body;
+        const userId = req.miniAppUser.id;
+        const { deviceHash, currentData } = req.body;
 
-        if (!userId || !deviceHash) {
+        if (!deviceHash) {
             res.status(400).json({
                 success: false,
                 error: 'Missing required validation data'
@@ -1139,7 +1184,7 @@ router.post('/trigger-notification', async (req, res): Promise<void> => {
     // Set timeout to prevent hanging
     const requestTimeout = setTimeout(() => {
         if (!res.headersSent) {
-            logger.warn(`[TRIGGER NOTIFICATION] Request timeout for user ${req.body?.userId}`);
+            logger.warn(`[TRIGGER NOTIFICATION] Request timeout for user ${req.miniAppUser?.id}`);
             res.status(408).json({
                 success: false,
                 error: 'Request timeout - please try again'
@@ -1148,7 +1193,8 @@ router.post('/trigger-notification', async (req, res): Promise<void> => {
     }, 15000); // 15 second timeout
     
     try {
-        const { userId, action, slideCompleted, slideTime, timestamp } = req.body;
+        const userId = req.miniAppUser.id;
+        const { action, slideCompleted, slideTime, timestamp } = req.body;
         
         logger.info(`[TRIGGER NOTIFICATION] Lightweight notification trigger for user ${userId}`, {
             action,
@@ -1156,16 +1202,6 @@ router.post('/trigger-notification', async (req, res): Promise<void> => {
             slideTime
         });
         
-        // Validate required fields
-        if (!userId) {
-            clearTimeout(requestTimeout);
-            res.status(400).json({
-                success: false,
-                error: 'Missing userId'
-            });
-            return;
-        }
-        
         // Check if user exists
         let user = await storage.getUser(userId);
         
@@ -1342,7 +1378,8 @@ router.post('/simple-verify', async (req, res): Promise<void> => {
     const startTime = Date.now();
     
     try {
-        const { userId, fingerprintHash, deviceInfo, slideTime, timestamp } = req.body;
+        const userId = req.miniAppUser.id;
+        const { fingerprintHash, deviceInfo, slideTime, timestamp } = req.body;
         
         logger.info(`[SIMPLE VERIFY] Processing verification for user ${userId}`, {
             hashLength: fingerprintHash?.length,
@@ -1350,10 +1387,10 @@ router.post('/simple-verify', async (req, res): Promise<void> => {
         });
 
         // Validate required fields
-        if (!userId || !fingerprintHash) {
+        if (!fingerprintHash) {
             res.status(400).json({
                 success: false,
-                error: 'Missing userId or fingerprintHash'
+                error: 'Missing fingerprintHash'
             });
             return;
         }
@@ -1621,25 +1658,6 @@ router.post('/simple-verify', async (req, res): Promise<void> => {
     }
 });
 
-/**
- * Health check endpoint for MiniApp
- */
-router.get('/health', (req, res): void => {
-    res.json({
-        success: true,
-        status: 'healthy',
-        timestamp: new Date().toISOString(),
-        services: {
-            storage: true,
-            security: true,
-            multiAccountDetection: true,
-            enhancedDetection: true,
-            deviceFingerprinting: true,
-            locationServices: true
-        }
-    });
-});
-
 // Helpers
 function getHeaderIp(req: express.Request): string | undefined {
     const fwd = req.headers['x-forwarded-for'];
@@ -1056,7 +1056,7 @@ ${status.statistics.blockedUsers > 0 || status.statistics.flaggedUsers > 0
         },
         buttons: [
           {
-            text: taskType === 'daily_bonus' ? 'Claim' : 'Complete',
+            text: taskType === 'daily_bonus' ? 'Claim' : taskType === 'quiz' ? '❓ Start Quiz' : taskType === 'survey' ? '📋 Start Survey' : 'Complete',
             action: taskType === 'daily_bonus' ? 'complete' : 'complete'
           }
         ],
@@ -1073,6 +1073,9 @@ ${status.statistics.blockedUsers > 0 || status.statistics.flaggedUsers > 0
         `📝 Title: ${newTask.title}\n` +
         `💰 Reward: ${newTask.points} points\n` +
         `🔧 Type: ${newTask.type}\n\n` +
+        (taskType === 'quiz' || taskType === 'survey'
+          ? 'Add the questions in the admin panel before users can start it.\n\n'
+          : '') +
         'The task is now active and visible to users.',
         { parse_mode: 'HTML' }
       );
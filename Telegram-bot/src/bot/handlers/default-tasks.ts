@@ -43,8 +43,6 @@ export const DEFAULT_TASKS: Record<string, Task> = {
       }
     ],
     order: 1,
-    validFrom: '2025-01-01T00:00:00.000Z',
-    validTo: '2025-12-31T23:59:59.000Z',
     createdAt: '2025-08-14T00:00:00.000Z',
     updatedAt: '2025-08-14T00:00:00.000Z',
     metadata: {
@@ -93,8 +91,6 @@ export const DEFAULT_TASKS: Record<string, Task> = {
       }
     ],
     order: 2,
-    validFrom: '2025-01-01T00:00:00.000Z',
-    validTo: '2025-12-31T23:59:59.000Z',
     createdAt: '2025-08-14T00:00:00.000Z',
     updatedAt: '2025-08-14T00:00:00.000Z',
     metadata: {
@@ -143,8 +139,6 @@ export const DEFAULT_TASKS: Record<string, Task> = {
       }
     ],
     order: 3,
-    validFrom: '2025-01-01T00:00:00.000Z',
-    validTo: '2025-12-31T23:59:59.000Z',
     createdAt: '2025-08-14T00:00:00.000Z',
     updatedAt: '2025-08-14T00:00:00.000Z',
     metadata: {
@@ -184,8 +178,6 @@ export const DEFAULT_TASKS: Record<string, Task> = {
       }
     ],
     order: 4,
-    validFrom: '2025-01-01T00:00:00.000Z',
-    validTo: '2025-12-31T23:59:59.000Z',
     createdAt: '2025-08-14T00:00:00.000Z',
     updatedAt: '2025-08-14T00:00:00.000Z',
     metadata: {
@@ -208,8 +200,7 @@ export const DEFAULT_TASKS: Record<string, Task> = {
     maxCompletions: 1,
     completionCount: 0,
     requirements: {
-      verificationRequired: true,
-      minimumTasks: 3
+      verificationRequired: true
     },
     validation: {
       submissionRequired: false,
@@ -230,8 +221,6 @@ export const DEFAULT_TASKS: Record<string, Task> = {
       }
     ],
     order: 5,
-    validFrom: '2025-01-01T00:00:00.000Z',
-    validTo: '2025-12-31T23:59:59.000Z',
     createdAt: '2025-08-14T00:00:00.000Z',
     updatedAt: '2025-08-14T00:00:00.000Z',
     metadata: {
@@ -271,8 +260,6 @@ export const DEFAULT_TASKS: Record<string, Task> = {
       }
     ],
     order: 6,
-    validFrom: '2025-01-01T00:00:00.000Z',
-    validTo: '2025-12-31T23:59:59.000Z',
     createdAt: '2025-08-14T00:00:00.000Z',
     updatedAt: '2025-08-14T00:00:00.000Z',
     metadata: {
@@ -325,8 +312,6 @@ export const DEFAULT_TASKS: Record<string, Task> = {
       }
     ],
     order: 7,
-    validFrom: '2025-01-01T00:00:00.000Z',
-    validTo: '2025-12-31T23:59:59.000Z',
     createdAt: '2025-08-14T00:00:00.000Z',
     updatedAt: '2025-08-14T00:00:00.000Z',
     metadata: {
@@ -376,8 +361,6 @@ export const DEFAULT_TASKS: Record<string, Task> = {
       }
     ],
     order: 8,
-    validFrom: '2025-01-01T00:00:00.000Z',
-    validTo: '2025-12-31T23:59:59.000Z',
     createdAt: '2025-10-07T00:00:00.000Z',
     updatedAt: '2025-10-07T00:00:00.000Z',
     metadata: {
@@ -14,11 +14,15 @@ import {
   LeaderboardType,
   PointsService
 } from '../../shared';
+import { FeatureFlagService } from '../../services/maintenance/feature-flag.service';
+import { LocalizationService, Translator } from '../../services/i18n/localization.service';
 
 export class MenuHandler {
   private readonly logger = Logger.getInstance();
   private readonly storage = StorageManager.getInstance();
   private readonly config = getConfig();
+  private readonly features = FeatureFlagService.getInstance();
+  private readonly i18n = LocalizationService.getInstance();
 
   private buildReferralLink(user: any): string {
     const botUsername = this.config.bot.username;
@@ -30,6 +34,7 @@ export class MenuHandler {
    * Show main menu with all available options
    */
   async showMainMenu(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const user = await UserValidationService.validateUser(ctx);
       if (!user) return;
@@ -54,8 +59,8 @@ export class MenuHandler {
         }
       } catch {}
 
-      const menuText = this.getMainMenuText(displayUser);
-      const keyboard = this.getMainMenuKeyboard();
+      const menuText = this.getMainMenuText(displayUser, t);
+      const keyboard = this.getMainMenuKeyboard(t);
 
       await MessageService.editOrReply(ctx, menuText, {
         reply_markup: keyboard,
@@ -65,7 +70,7 @@ export class MenuHandler {
 
     } catch (error) {
       this.logger.error('Error showing main menu:', error);
-      await ctx.reply('❌ Error loading menu. Please try again.');
+      await ctx.reply(t('menu.error.menu'));
     }
   }
 
@@ -73,9 +78,10 @@ export class MenuHandler {
    * Show help information
    */
   async showHelp(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
-      const helpText = this.getHelpText();
-      const keyboard = this.getHelpKeyboard();
+      const helpText = this.getHelpText(t);
+      const keyboard = this.getHelpKeyboard(t);
 
       await ctx.reply(helpText, {
         reply_markup: keyboard,
@@ -85,7 +91,7 @@ export class MenuHandler {
 
     } catch (error) {
       this.logger.error('Error showing help:', error);
-      await ctx.reply('❌ Error loading help. Please try again.');
+      await ctx.reply(t('menu.error.help'));
     }
   }
 
@@ -93,6 +99,7 @@ export class MenuHandler {
    * Show user profile and statistics
    */
   async showProfile(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const user = await UserValidationService.validateUser(ctx);
       if (!user) return;
@@ -101,8 +108,8 @@ export class MenuHandler {
       const freshUser = await this.storage.getUser(user.telegramId) || user;
       
       const stats = await PointsService.getUserPointStats(freshUser.telegramId);
-      const profileText = this.getProfileText(freshUser, stats);
-      const keyboard = this.getProfileKeyboard();
+      const profileText = this.getProfileText(freshUser, stats, t);
+      const keyboard = this.getProfileKeyboard(t);
 
       await MessageService.editOrReply(ctx, profileText, {
         reply_markup: keyboard,
@@ -111,7 +118,7 @@ export class MenuHandler {
 
     } catch (error) {
       this.logger.error('Error showing profile:', error);
-      await ctx.reply('❌ Error loading profile. Please try again.');
+      await ctx.reply(t('menu.error.profile'));
     }
   }
 
@@ -119,6 +126,7 @@ export class MenuHandler {
    * Show leaderboard
    */
   async showLeaderboard(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -128,13 +136,13 @@ export class MenuHandler {
 
       const leaderboardTextBase = LeaderboardService.formatPointsLeaderboardDetailed(
         leaderboard,
-        '🏆 Leaderboard - Top 10'
+        t('menu.leaderboard.title')
       );
       const rankLabel = userRank > 0 && userRank <= 100 ? `#${userRank}` : '#100+';
       const leaderboardText = userRank > 0
-        ? `${leaderboardTextBase}\n\n📊 Your Rank: ${rankLabel}`
+        ? `${leaderboardTextBase}\n\n${t('menu.leaderboard.your_rank', { rank: rankLabel })}`
         : leaderboardTextBase;
-      const keyboard = this.getLeaderboardKeyboard();
+      const keyboard = this.getLeaderboardKeyboard(t);
 
       await MessageService.editOrReply(ctx, leaderboardText, {
         reply_markup: keyboard,
@@ -143,7 +151,7 @@ export class MenuHandler {
 
     } catch (error) {
       this.logger.error('Error showing leaderboard:', error);
-      await ctx.reply('❌ Error loading leaderboard. Please try again.');
+      await ctx.reply(t('menu.error.leaderboard'));
     }
   }
 
@@ -151,12 +159,13 @@ export class MenuHandler {
    * Show support system
    */
   async showSupport(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const user = await UserValidationService.validateUser(ctx);
       if (!user) return;
 
-      const supportText = this.getSupportText(user);
-      const keyboard = this.getSupportKeyboard(user);
+      const supportText = this.getSupportText(user, t);
+      const keyboard = this.getSupportKeyboard(t);
 
       await MessageService.editOrReply(ctx, supportText, {
         reply_markup: keyboard,
@@ -165,7 +174,58 @@ export class MenuHandler {
 
     } catch (error) {
       this.logger.error('Error showing support:', error);
-      await ctx.reply('❌ Error loading support system. Please try again.');
+      await ctx.reply(t('menu.error.support'));
+    }
+  }
+
+  /**
+   * Show the /language picker; `notice` confirms a change that was just made
+   */
+  async showLanguage(ctx: Context, notice?: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
+    try {
+      const user = await UserValidationService.validateUser(ctx);
+      if (!user) return;
+
+      const freshUser = await this.storage.getUser(user.telegramId) || user;
+      const current = this.i18n.localeOf(ctx);
+      const chosen = freshUser.preferredLanguage && this.i18n.isSupported(freshUser.preferredLanguage) ? current : null;
+
+      const rows = this.i18n.getLocales().map(locale => ([{
+        text: `${locale === chosen ? '✅ ' : ''}${this.i18n.localeLabel(locale)}`,
+        callback_data: `menu_lang_${locale}`
+      }]));
+      rows.push([{ text: `${chosen ? '' : '✅ '}${t('language.auto')}`, callback_data: 'menu_lang_auto' }]);
+      rows.push([{ text: t('common.main_menu'), callback_data: 'menu_main' }]);
+
+      const text = t('language.title', { current: this.i18n.localeLabel(current), mode: chosen ? 'chosen' : 'auto' });
+      await MessageService.editOrReply(ctx, notice ? `${notice}\n\n${text}` : text, {
+        reply_markup: { inline_keyboard: rows },
+        parse_mode: 'HTML'
+      });
+    } catch (error) {
+      this.logger.error('Error showing language picker:', error);
+      await ctx.reply(t('language.error'));
+    }
+  }
+
+  private async setLanguage(ctx: Context, choice: string): Promise<void> {
+    const userId = ctx.from?.id?.toString();
+    if (!userId) return;
+    try {
+      const locale = choice === 'auto' ? null : choice;
+      if (!await this.i18n.setUserLocale(userId, locale)) {
+        await ctx.reply(this.i18n.translator(ctx)('language.error'));
+        return;
+      }
+      UserValidationService.invalidateSessionUser(ctx);
+      ctx.state.locale = await this.i18n.localeFor(ctx.from!);
+      const t = this.i18n.translator(ctx);
+      const name = this.i18n.localeLabel(ctx.state.locale);
+      await this.showLanguage(ctx, locale ? t('language.set', { name }) : t('language.reset', { name }));
+    } catch (error) {
+      this.logger.error('Error changing language:', error);
+      await ctx.reply(this.i18n.translator(ctx)('language.error'));
     }
   }
 
@@ -236,12 +296,23 @@ export class MenuHandler {
           await this.closeMenu(ctx);
         }, true);
         break;
+      case 'menu_language':
+        await CallbackQueryService.handleDeferredNavigation(ctx, '', async (ctx) => {
+          await this.showLanguage(ctx);
+        }, true);
+        break;
       default:
+        if (data.startsWith('menu_lang_')) {
+          await CallbackQueryService.handleDeferredNavigation(ctx, '', async (ctx) => {
+            await this.setLanguage(ctx, data.slice('menu_lang_'.length));
+          }, true);
+          break;
+        }
         this.logger.warn('Unknown menu callback:', data);
     }
   }
 
-  private getMainMenuText(user: any): string {
+  private getMainMenuText(user: any, t: Translator): string {
     const joinedAtDate = DateUtils.parseUserJoinDate(user);
     const daysSinceJoin = DateUtils.calculateDaysSince(joinedAtDate);
 
@@ -260,56 +331,46 @@ export class MenuHandler {
     const tokenEst = tokenRate ? (currentPoints * tokenRate) : 0;
 
     const walletConnected = user.walletAddress 
-      ? `✅ ${user.walletName || user.peerName || 'WalletConnect'}` 
-      : '❌ Not Connected';
-    const accountStatus = (user.isActive !== false) ? '✅ Active' : '❌ Inactive';
-
-    const referralLink = this.buildReferralLink(user);
-
-    return `
-🚀 <b>Welcome, ${user.firstName}!</b>
-
-💰 <b>Account Overview</b>
-💎 Balance: <b>${currentPoints.toLocaleString()}</b> points  
-👥 Referrals Earned: <b>${user.totalReferrals || 0}</b>  
-📅 Member Since: <b>${daysSinceJoin}</b> ${daysSinceJoin === 1 ? 'day' : 'days'}  
-✅ Tasks Completed: <b>${(user.completedTasks?.length || 0) + Object.keys(user.dailyTasksCompleted || {}).length}</b>  
-🔐 Account Status: <b>${accountStatus}</b>  
-👛 Wallet: <b>${walletConnected}</b>
-
-🎯 <b>Withdrawal Progress</b>
-🎁 Goal: <b>${withdrawThreshold.toLocaleString()}</b> points  
-🔄 Remaining: <b>${toGoal.toLocaleString()}</b> points  
-📊 Progress: ${emojiBar} <b>${pct}%</b>  
-
-💎 <b>Token Value</b>
-✨ <b>${currentPoints.toLocaleString()}</b> pts ≈ <b>${tokenEst.toFixed(4)} ${tokenSymbol}</b>  
-${tokenRate > 0 ? `📈 Rate: <b>1 pt = ${tokenRate} ${tokenSymbol}</b>` : ''} 
-
-🔗 <b>Your Referral</b>
-📎 Link: <code>${referralLink}</code> 
-
-<i>💡 Tip: Complete tasks, invite friends, and connect your wallet to maximize your earnings!</i>
-`.trim();
- }
+      ? t('menu.wallet_connected', { name: user.walletName || user.peerName || 'WalletConnect' })
+      : t('menu.wallet_not_connected');
+    const accountStatus = (user.isActive !== false) ? t('common.active') : t('common.inactive');
+
+    return t('menu.main.text', {
+      name: user.firstName,
+      balance: currentPoints,
+      referrals: user.totalReferrals || 0,
+      days: daysSinceJoin,
+      tasks: (user.completedTasks?.length || 0) + Object.keys(user.dailyTasksCompleted || {}).length,
+      status: accountStatus,
+      wallet: walletConnected,
+      goal: withdrawThreshold,
+      remaining: toGoal,
+      bar: emojiBar,
+      pct,
+      tokens: tokenEst.toFixed(4),
+      symbol: tokenSymbol,
+      rate: tokenRate > 0 ? String(tokenRate) : 'none',
+      link: this.buildReferralLink(user)
+    }).trim();
+  }
 
-  private getMainMenuKeyboard(): InlineKeyboardMarkup {
+  private getMainMenuKeyboard(t: Translator): InlineKeyboardMarkup {
     const keyboard = [
       [
-        { text: 'Tasks', callback_data: 'menu_tasks' },
-        { text: 'Points', callback_data: 'points_show' }
+        { text: t('menu.btn.tasks'), callback_data: 'menu_tasks' },
+        { text: t('menu.btn.points'), callback_data: 'points_show' }
       ],
       [
-        { text: 'Wallet', callback_data: 'wallet_show' },
-        { text: 'Referrals', callback_data: 'referral_show' }
+        { text: t('menu.btn.wallet'), callback_data: 'wallet_show' },
+        { text: t('menu.btn.referrals'), callback_data: 'referral_show' }
       ],
       [
-        { text: 'Profile', callback_data: 'menu_profile' },
-        { text: 'Leaderboard', callback_data: 'menu_leaderboard' }
+        { text: t('menu.btn.profile'), callback_data: 'menu_profile' },
+        { text: t('menu.btn.leaderboard'), callback_data: 'menu_leaderboard' }
       ],
       [
-        { text: 'Support', callback_data: 'menu_support' },
-        { text: 'Help', callback_data: 'menu_help' }
+        { text: t('menu.btn.support'), callback_data: 'menu_support' },
+        { text: t('menu.btn.help'), callback_data: 'menu_help' }
       ]
     ];
     
@@ -320,70 +381,43 @@ ${tokenRate > 0 ? `📈 Rate: <b>1 pt = ${tokenRate} ${tokenSymbol}</b>` : ''}
     };
   }
 
-  private getHelpText(): string {
+  private getHelpText(t: Translator): string {
     const withdrawChannel = this.config.bot.withdrawAlertChannelId 
       ? `${this.config.bot.withdrawAlertChannelId}` 
-      : 'Coming soon';
+      : t('menu.help.tracker_soon');
     
-    return `
-❓ <b>Help & Information</b>
-
-<b>🎯 What is Salada Protocol?</b>
-Earn points by completing tasks and referring friends. Convert your points to tokens and withdraw them to your wallet.
-
-<b>💰 How to Earn?</b>
-• Complete tasks: ${this.config.bot.dailyBonus}+ points daily
-• Refer friends: ${this.config.bot.referralBonus} points per referral
-• Special events & bonuses
-
-<b>👛 Withdraw Tokens?</b>
-1. Connect your wallet
-2. Reach minimum threshold
-3. Click withdraw - tokens sent automatically on blockchain
-
-<b>🔒 Security</b>
-• One wallet per user (wallet lock)
-• Multi-account detection
-• Your keys stay in your wallet
-
-<b>🔗 Quick Commands</b>
-/menu - Main menu
-/tasks - Available tasks
-/wallet - Wallet & withdrawals
-/referrals - Referral stats
-
-<b>📞 Support & Links</b>
-Contact: ${this.config.bot.supportUsername || '@support'}
-Website: ${this.config.bot.website || 'https://app.salada.fun'}
-Tracker: ${withdrawChannel}
-
-<i>💡 Tip: Invite friends to earn faster!</i>
-    `.trim();
+    return t('menu.help.text', {
+      dailyBonus: this.config.bot.dailyBonus,
+      referralBonus: this.config.bot.referralBonus,
+      support: this.config.bot.supportUsername || '@support',
+      website: this.config.bot.website || 'https://app.salada.fun',
+      tracker: withdrawChannel
+    });
   }
 
-  private getHelpKeyboard(): InlineKeyboardMarkup {
+  private getHelpKeyboard(t: Translator): InlineKeyboardMarkup {
     const keyboard: any[][] = [
-      [{ text: 'Main Menu', callback_data: 'menu_main' }]
+      [{ text: t('common.main_menu'), callback_data: 'menu_main' }]
     ];
 
     // Add support button if username is configured
     if (this.config.bot.supportUsername) {
       keyboard.unshift([
-        { text: 'Contact Support', url: `https://t.me/${this.config.bot.supportUsername}` }
+        { text: t('menu.btn.contact_support'), url: `https://t.me/${this.config.bot.supportUsername}` }
       ]);
     }
 
     // Add website button if configured
     if (this.config.bot.website) {
       keyboard.unshift([
-        { text: 'Visit Website', url: this.config.bot.website }
+        { text: t('menu.btn.visit_website'), url: this.config.bot.website }
       ]);
     }
 
     return { inline_keyboard: keyboard };
   }
 
-  private getProfileText(user: any, stats: any): string {
+  private getProfileText(user: any, stats: any, t: Translator): string {
     const joinedAtDate = DateUtils.parseUserJoinDate(user);
     const lastActiveDate = DateUtils.parseUserDate(user.lastActive || user.lastActivity || new Date());
     const joinDate = DateUtils.formatUserDate(joinedAtDate);
@@ -392,48 +426,40 @@ Tracker: ${withdrawChannel}
     const totalEarned = (stats?.totalEarned ?? 0);
     const tasksCompleted = (user.completedTasks?.length || 0) + Object.keys(user.dailyTasksCompleted || {}).length;
 
-    return `
-👤 <b>Your Profile</b>
-
-<b>📋 Basic Info:</b>
-• Name: ${user.firstName || 'Not set'} ${user.lastName || ''}
-• Username: ${user.username ? '@' + user.username : 'Not set'}
-• User ID: <code>${user.telegramId || 'Unknown'}</code>
-
-<b>📊 Statistics:</b>
-• Current Points: <b>${(user.points || 0).toLocaleString()}</b>
-• Total Earned: <b>${(totalEarned || 0).toLocaleString()}</b>
-• Tasks Completed: <b>${tasksCompleted}</b>
-• Total Referrals: <b>${user.totalReferrals || 0}</b>
-
-<b>📅 Activity:</b>
-• Joined: ${joinDate || 'Unknown'}
-• Last Active: ${lastActive || 'Unknown'}
-• Account Status: ${(user.isActive !== false) ? '✅ Active' : '❌ Inactive'}
-
-<b>🎫 Referral Info:</b>
-• Referral Link: <code>${this.buildReferralLink(user)}</code>
-• Referred By: ${user.referredBy ? 'Yes' : 'No'}
-
-<b>👛 Wallet:</b>
-• Connected: ${user.walletAddress ? '✅ Yes' : '❌ No'}
-${user.walletAddress ? `• Address: <code>${user.walletAddress.substring(0, 10)}...${user.walletAddress.substring(-8)}</code>` : ''}
-    `.trim();
+    return t('menu.profile.text', {
+      name: `${user.firstName || t('common.not_set')} ${user.lastName || ''}`.trim(),
+      username: user.username ? '@' + user.username : t('common.not_set'),
+      userId: user.telegramId || t('common.unknown'),
+      points: user.points || 0,
+      earned: totalEarned || 0,
+      tasks: tasksCompleted,
+      referrals: user.totalReferrals || 0,
+      joined: joinDate || t('common.unknown'),
+      lastActive: lastActive || t('common.unknown'),
+      status: (user.isActive !== false) ? t('common.active') : t('common.inactive'),
+      link: this.buildReferralLink(user),
+      referred: user.referredBy ? t('common.yes') : t('common.no'),
+      connected: user.walletAddress ? `✅ ${t('common.yes')}` : `❌ ${t('common.no')}`,
+      address: user.walletAddress ? `${user.walletAddress.substring(0, 10)}...${user.walletAddress.slice(-8)}` : 'none'
+    }).trim();
   }
 
-  private getProfileKeyboard(): InlineKeyboardMarkup {
+  private getProfileKeyboard(t: Translator): InlineKeyboardMarkup {
     return {
       inline_keyboard: [
         [
-          { text: 'View Tasks', callback_data: 'menu_tasks' },
-          { text: 'My Referrals', callback_data: 'referral_show' }
+          { text: t('menu.btn.view_tasks'), callback_data: 'menu_tasks' },
+          { text: t('menu.btn.my_referrals'), callback_data: 'referral_show' }
+        ],
+        [
+          { text: t('menu.btn.wallet_settings'), callback_data: 'wallet_show' },
+          { text: t('menu.btn.detailed_stats'), callback_data: 'points_stats' }
         ],
         [
-          { text: 'Wallet Settings', callback_data: 'wallet_show' },
-          { text: 'Detailed Stats', callback_data: 'points_stats' }
+          { text: t('menu.btn.language'), callback_data: 'menu_language' }
         ],
         [
-          { text: 'Main Menu', callback_data: 'menu_main' }
+          { text: t('common.main_menu'), callback_data: 'menu_main' }
         ]
       ]
     };
@@ -441,47 +467,50 @@ ${user.walletAddress ? `• Address: <code>${user.walletAddress.substring(0, 10)
 
 
 
-  private getLeaderboardKeyboard(): InlineKeyboardMarkup {
+  private getLeaderboardKeyboard(t: Translator): InlineKeyboardMarkup {
     return {
       inline_keyboard: [
         [
-          { text: 'Refresh', callback_data: 'menu_leaderboard' },
-          { text: 'My Profile', callback_data: 'menu_profile' }
+          { text: t('common.refresh'), callback_data: 'menu_leaderboard' },
+          { text: t('menu.btn.my_profile'), callback_data: 'menu_profile' }
         ],
         [
-          { text: 'Main Menu', callback_data: 'menu_main' }
+          { text: t('common.main_menu'), callback_data: 'menu_main' }
         ]
       ]
     };
   }
 
-  private getTicketCategories(): Array<{ code: string; label: string }> {
-    return [
-      { code: 'technical', label: 'Bot Technical Issues (bugs/errors)' },
-      { code: 'ban', label: 'Multi-Account or Ban Related' },
-      { code: 'business', label: 'Business & Project Requests' }
-    ];
+  private getTicketCategories(t: Translator): Array<{ code: string; label: string }> {
+    return ['technical', 'ban', 'business'].map(code => ({ code, label: t(`menu.ticket.category.${code}`) }));
   }
 
-  private getCategoryLabel(code: string): string {
-    const found = this.getTicketCategories().find(c => c.code === code);
+  private getCategoryLabel(code: string, t: Translator): string {
+    const found = this.getTicketCategories(t).find(c => c.code === code);
     return found ? found.label : code;
   }
 
-  private getCategorySelectionKeyboard(): InlineKeyboardMarkup {
-    const rows = this.getTicketCategories().map(c => ([{ text: c.label, callback_data: `support_ticket_cat_${c.code}` }]));
-    rows.push([{ text: 'Cancel', callback_data: 'menu_support' }]);
+  /** Tickets are read by the support team, so the stored label is in the default locale */
+  private getStoredCategoryLabel(code: string): string {
+    return this.getCategoryLabel(code, (key, params) => this.i18n.t(this.i18n.defaultLocale, key, params));
+  }
+
+  private getCategorySelectionKeyboard(t: Translator): InlineKeyboardMarkup {
+    const rows = this.getTicketCategories(t).map(c => ([{ text: c.label, callback_data: `support_ticket_cat_${c.code}` }]));
+    rows.push([{ text: t('common.cancel'), callback_data: 'menu_support' }]);
     return { inline_keyboard: rows };
   }
 
   private async startTicketForCategory(ctx: Context, category: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const user = await UserValidationService.validateUser(ctx);
       if (!user) return;
+      if (!await this.features.guard(ctx, 'support')) return;
 
       const canCreate = await this.checkDailyTicketLimitByCategory(user.telegramId, category);
       if (!canCreate) {
-        await ctx.reply(`⏰ You can only create 1 ticket per day for this category ("${this.getCategoryLabel(category)}"). Please try again tomorrow.`);
+        await ctx.reply(t('menu.ticket.limit_start', { category: this.getCategoryLabel(category, t) }));
         return;
       }
 
@@ -489,35 +518,23 @@ ${user.walletAddress ? `• Address: <code>${user.walletAddress.substring(0, 10)
         userId: user.telegramId,
         startedAt: new Date(),
         category,
-        categoryLabel: this.getCategoryLabel(category)
+        categoryLabel: this.getStoredCategoryLabel(category)
       }, user.telegramId);
 
-      const categoryDescriptions: Record<string, string> = {
-        'technical': '🛠️ Technical issues, bugs, errors, or performance problems',
-        'ban': '⚠️ Account restrictions, ban appeals, or policy violation concerns', 
-        'business': '💼 Bot purchase inquiries, partnerships, collaborations, or custom development requests'
-      };
-
-      const categoryDesc = categoryDescriptions[category] || '';
+      const categoryDesc = ['technical', 'ban', 'business'].includes(category) ? t(`menu.ticket.about.${category}`) : '';
 
       await ctx.reply(
-        '🎫 <b>Create Support Ticket</b>\n\n' +
-        `📂 <b>Category:</b> ${this.getCategoryLabel(category)}\n` +
-        `${categoryDesc}\n\n` +
-        '📝 <b>Describe your request with details:</b>\n' +
-        '• Be specific about your issue or request\n' +
-        '• Include relevant information or screenshots if needed\n\n' +
-        '📤 <b>Send your message:</b>',
+        t('menu.ticket.prompt', { category: this.getCategoryLabel(category, t), about: categoryDesc }),
         {
           parse_mode: 'HTML',
           reply_markup: {
-            inline_keyboard: [[{ text: 'Cancel', callback_data: 'menu_support' }]]
+            inline_keyboard: [[{ text: t('common.cancel'), callback_data: 'menu_support' }]]
           }
         }
       );
     } catch (error) {
       this.logger.error('Error starting ticket for category:', error);
-      await ctx.reply('❌ Error starting ticket. Please try again.');
+      await ctx.reply(t('menu.ticket.error_start'));
     }
   }
 
@@ -525,27 +542,19 @@ ${user.walletAddress ? `• Address: <code>${user.walletAddress.substring(0, 10)
    * Create support ticket
    */
   async createSupportTicket(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const user = await UserValidationService.validateUser(ctx);
       if (!user) return;
+      if (!await this.features.guard(ctx, 'support')) return;
 
-      await ctx.reply(
-        '🎫 <b>Create Support Ticket</b>\n\n' +
-        'Please select a category for your ticket:\n\n' +
-        '1️⃣ <b>Bot Technical Issues</b>\n' +
-        '   🛠️ Bugs, errors, crashes, performance problems\n\n' +
-        '2️⃣ <b>Multi-Account or Ban Related</b>\n' +
-        '   ⚠️ Account restrictions, ban appeals, policy violations\n\n' +
-        '3️⃣ <b>Business & Project Requests</b>\n' +
-        '   💼 Bot purchase, partnerships, collaborations, custom development',
-        {
-          parse_mode: 'HTML',
-          reply_markup: this.getCategorySelectionKeyboard()
-        }
-      );
+      await ctx.reply(t('menu.ticket.choose'), {
+        parse_mode: 'HTML',
+        reply_markup: this.getCategorySelectionKeyboard(t)
+      });
     } catch (error) {
       this.logger.error('Error creating support ticket:', error);
-      await ctx.reply('❌ Error creating support ticket. Please try again.');
+      await ctx.reply(t('menu.ticket.error_create'));
     }
   }
 
@@ -553,6 +562,7 @@ ${user.walletAddress ? `• Address: <code>${user.walletAddress.substring(0, 10)
    * Handle ticket message submission
    */
   async handleTicketMessage(ctx: Context, message: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const user = await UserValidationService.validateUser(ctx);
       if (!user) return;
@@ -562,12 +572,17 @@ ${user.walletAddress ? `• Address: <code>${user.walletAddress.substring(0, 10)
         return; // User not in ticket creation mode
       }
 
+      if (!await this.features.guard(ctx, 'support')) {
+        await this.storage.delete('ticket_creation', user.telegramId);
+        return;
+      }
+
       const category = (ticketData.category as string) || 'general';
-      const categoryLabel = this.getCategoryLabel(category);
+      const categoryLabel = this.getStoredCategoryLabel(category);
 
       const canCreate = await this.checkDailyTicketLimitByCategory(user.telegramId, category);
       if (!canCreate) {
-        await ctx.reply(`⏰ You have already created a ticket today for the category "${categoryLabel}". Please try again tomorrow.`);
+        await ctx.reply(t('menu.ticket.limit_submit', { category: this.getCategoryLabel(category, t) }));
         await this.storage.delete('ticket_creation', user.telegramId);
         return;
       }
@@ -593,11 +608,7 @@ ${user.walletAddress ? `• Address: <code>${user.walletAddress.substring(0, 10)
       await this.incrementDailyTicketCount(user.telegramId, category);
 
       await ctx.reply(
-        '✅ <b>Support Ticket Created</b>\n\n' +
-        `🎫 Ticket ID: <code>${ticket.id}</code>\n` +
-        `📂 Category: <b>${categoryLabel}</b>\n` +
-        '📧 Message: Your request has been submitted successfully.\n\n' +
-        '⏰ Our support team will review your ticket and respond soon.',
+        t('menu.ticket.created', { id: ticket.id, category: this.getCategoryLabel(category, t) }),
         { parse_mode: 'HTML' }
       );
 
@@ -605,7 +616,7 @@ ${user.walletAddress ? `• Address: <code>${user.walletAddress.substring(0, 10)
 
     } catch (error) {
       this.logger.error('Error handling ticket message:', error);
-      await ctx.reply('❌ Error submitting your ticket. Please try again.');
+      await ctx.reply(t('menu.ticket.error_submit'));
     }
   }
 
@@ -652,39 +663,25 @@ ${user.walletAddress ? `• Address: <code>${user.walletAddress.substring(0, 10)
     }
   }
 
-  private getSupportText(user: any): string {
-    return `
-💬 <b>Support Center</b>
-
-Welcome to our support system! We're here to help you with any questions or issues.
-
-👤 <b>Your Account:</b>
-• User ID: ${user.telegramId}
-• Username: ${user.username || 'Not set'}
-• Status: Active
-
-🎫 <b>Support Options:</b>
-• Create a support ticket (1 per category per day)
-• Get help with common issues
-• Report bugs or problems
-
-⏰ <b>Response Time:</b>
-Our team typically responds within 24 hours.
-    `.trim();
+  private getSupportText(user: any, t: Translator): string {
+    return t('menu.support.text', {
+      userId: user.telegramId,
+      username: user.username || t('common.not_set')
+    });
   }
 
-  private getSupportKeyboard(user: any): InlineKeyboardMarkup {
+  private getSupportKeyboard(t: Translator): InlineKeyboardMarkup {
     return {
       inline_keyboard: [
         [
-          { text: 'Create Ticket', callback_data: 'support_create_ticket' }
+          { text: t('menu.btn.create_ticket'), callback_data: 'support_create_ticket' }
         ],
         [
-          { text: 'FAQ', callback_data: 'menu_help' },
-          { text: 'Refresh', callback_data: 'menu_support' }
+          { text: t('menu.btn.faq'), callback_data: 'menu_help' },
+          { text: t('common.refresh'), callback_data: 'menu_support' }
         ],
         [
-          { text: 'Main Menu', callback_data: 'menu_main' }
+          { text: t('common.main_menu'), callback_data: 'menu_main' }
         ]
       ]
     };
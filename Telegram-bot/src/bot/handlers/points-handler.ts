@@ -6,29 +6,32 @@ import { getConfig } from '../../config';
 import { SecurityUtils } from '../../security';
 import { CallbackQueryService, RateLimitService, RateLimitAction, PointsService, LeaderboardService } from '../../shared';
 import { PointTransaction } from '../../types/user.types';
-import { atomicOps, PointsTransaction } from '../../utils/atomic-operations';
+import { PointsLedgerService } from '../../services/ledger/points-ledger.service';
+import { LocalizationService, Translator } from '../../services/i18n/localization.service';
 
 export class PointsHandler {
   private readonly logger = Logger.getInstance();
   private readonly storage = StorageManager.getInstance();
   private readonly config = getConfig();
+  private readonly i18n = LocalizationService.getInstance();
 
   /**
    * Show user's current points and basic information
    */
   async showPoints(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
 
       const user = await this.storage.getUser(userId);
       if (!user) {
-        await ctx.reply('❌ User not found.');
+        await ctx.reply(t('common.user_not_found'));
         return;
       }
 
-      const pointsText = await this.getPointsText(user);
-      const keyboard = this.getPointsKeyboard(user);
+      const pointsText = await this.getPointsText(user, t, this.i18n.localeOf(ctx));
+      const keyboard = this.getPointsKeyboard(user, t);
 
       if (ctx.callbackQuery) {
         await ctx.editMessageText(pointsText, {
@@ -45,7 +48,7 @@ export class PointsHandler {
 
     } catch (error) {
       this.logger.error('Error showing points:', error);
-      await ctx.reply('❌ Error loading points information.', { link_preview_options: { is_disabled: true } });
+      await ctx.reply(t('points.error.loading'), { link_preview_options: { is_disabled: true } });
     }
   }
 
@@ -53,13 +56,14 @@ export class PointsHandler {
    * Show detailed statistics
    */
   async showStats(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
 
       const user = await this.storage.getUser(userId);
       if (!user) {
-        await ctx.reply('❌ User not found.');
+        await ctx.reply(t('common.user_not_found'));
         return;
       }
 
@@ -83,7 +87,7 @@ export class PointsHandler {
 
     } catch (error) {
       this.logger.error('Error showing stats:', error);
-      await ctx.reply('❌ Error loading statistics.', { link_preview_options: { is_disabled: true } });
+      await ctx.reply(t('points.error.stats'), { link_preview_options: { is_disabled: true } });
     }
   }
 
@@ -91,13 +95,14 @@ export class PointsHandler {
    * Show point transaction history
    */
   async showTransactionHistory(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
 
       const user = await this.storage.getUser(userId);
       if (!user) {
-        await ctx.reply('❌ User not found.');
+        await ctx.reply(t('common.user_not_found'));
         return;
       }
 
@@ -130,7 +135,7 @@ export class PointsHandler {
 
     } catch (error) {
       this.logger.error('Error showing transaction history:', error);
-      await ctx.reply('❌ Error loading transaction history.', { link_preview_options: { is_disabled: true } });
+      await ctx.reply(t('points.error.history'), { link_preview_options: { is_disabled: true } });
     }
   }
 
@@ -141,19 +146,10 @@ export class PointsHandler {
     userId: string,
     amount: number,
     reason: string,
-    metadata?: any
+    metadata?: any,
+    idempotencyKey?: string
   ): Promise<boolean> {
     try {
-      const user = await this.storage.getUser(userId);
-      if (!user) {
-        this.logger.error('User not found for point award:', {
-          userId: userId,
-          userIdType: typeof userId,
-          attempting: 'point award for captcha completion'
-        });
-        return false;
-      }
-
       // Validate points amount
       const validation = SecurityUtils.validatePoints(amount);
       if (!validation.isValid) {
@@ -163,50 +159,29 @@ export class PointsHandler {
 
       const validAmount = validation.sanitizedAmount;
 
-      // SECURITY FIX: Use atomic transaction for points and logging
-      const pointsTransaction = new PointsTransaction();
-      
-      // Create transaction record
-      const transaction: PointTransaction = {
-        id: `tx_${Date.now()}_${userId}`,
+      // Balance, lifetime total and ledger entry are written as one posting
+      const result = await PointsLedgerService.getInstance().post({
         userId,
         amount: validAmount,
         type: 'earned',
-        source: 'system',
         description: reason,
-        timestamp: new Date(),
-        metadata: metadata || {}
-      };
-      
-      // Add user update to transaction (using existing atomic updateUser)
-      const userUpdateSuccess = await this.storage.updateUser(userId, {
-        points: user.points + validAmount,
-        totalEarned: (user.totalEarned || 0) + validAmount,
-        lastActivityAt: new Date().toISOString()
+        idempotencyKey,
+        metadata: metadata || {},
+        userInc: { totalEarned: validAmount },
+        userSet: { lastActivityAt: new Date().toISOString() }
       });
-      
-      if (!userUpdateSuccess) {
-        this.logger.error('Failed to atomically update user points', { userId, amount: validAmount });
+
+      if (!result.success) {
+        this.logger.error('Failed to award points', { userId, amount: validAmount, error: result.error });
         return false;
       }
-      
-      // Save transaction log
-      const transactionSuccess = await this.storage.savePointTransaction(transaction);
-      
-      if (!transactionSuccess) {
-        this.logger.error('CRITICAL: Points awarded but transaction log failed', {
-          userId,
-          amount: validAmount,
-          transactionId: transaction.id
-        });
-        // Transaction already committed, but log the issue for manual audit
-      }
 
       this.logger.info('Points awarded', {
         userId,
         amount: validAmount,
         reason,
-        newBalance: user.points + validAmount
+        newBalance: result.newBalance,
+        duplicate: result.duplicate
       });
 
       return true;
@@ -224,15 +199,10 @@ export class PointsHandler {
     userId: string,
     amount: number,
     reason: string,
-    metadata?: any
+    metadata?: any,
+    idempotencyKey?: string
   ): Promise<boolean> {
     try {
-      const user = await this.storage.getUser(userId);
-      if (!user) {
-        this.logger.error('User not found for point deduction:', userId);
-        return false;
-      }
-
       // Validate points amount
       const validation = SecurityUtils.validatePoints(amount);
       if (!validation.isValid) {
@@ -242,58 +212,33 @@ export class PointsHandler {
 
       const validAmount = validation.sanitizedAmount;
 
-      // Check if user has enough points
-      if (user.points < validAmount) {
-        this.logger.error('Insufficient points for deduction:', {
-          userId,
-          currentPoints: user.points,
-          requestedDeduction: validAmount
-        });
-        return false;
-      }
-
-      // SECURITY FIX: Use atomic operation for point deduction and logging
-      
-      // Create transaction record
-      const transaction: PointTransaction = {
-        id: `tx_${Date.now()}_${userId}`,
+      // The ledger rejects the debit if the balance no longer covers it
+      const result = await PointsLedgerService.getInstance().post({
         userId,
         amount: -validAmount,
         type: 'spent',
-        source: 'system',
         description: reason,
-        timestamp: new Date(),
-        metadata: metadata || {}
-      };
-      
-      // Update user points atomically
-      const userUpdateSuccess = await this.storage.updateUser(userId, {
-        points: user.points - validAmount,
-        lastActivityAt: new Date().toISOString()
+        idempotencyKey,
+        metadata: metadata || {},
+        userSet: { lastActivityAt: new Date().toISOString() }
       });
-      
-      if (!userUpdateSuccess) {
-        this.logger.error('Failed to atomically deduct user points', { userId, amount: validAmount });
-        return false;
-      }
-      
-      // Save transaction log
-      const transactionSuccess = await this.storage.savePointTransaction(transaction);
-      
-      if (!transactionSuccess) {
-        this.logger.error('CRITICAL: Points deducted but transaction log failed', {
+
+      if (!result.success) {
+        this.logger.error('Failed to deduct points', {
           userId,
-          amount: validAmount,
-          transactionId: transaction.id
+          currentPoints: result.newBalance,
+          requestedDeduction: validAmount,
+          error: result.error
         });
-        // Transaction already committed, but log the issue for manual audit
+        return false;
       }
 
       this.logger.info('Points deducted', {
         userId,
         amount: validAmount,
         reason,
-        newBalance: user.points - validAmount
+        newBalance: result.newBalance,
+        duplicate: result.duplicate
       });
 
       return true;
@@ -308,6 +253,7 @@ export class PointsHandler {
    * Handle daily check-in bonus
    */
   async handleDailyCheckIn(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -315,14 +261,14 @@ export class PointsHandler {
       // Check rate limit (daily check-in)
       const rateLimit = await RateLimitService.checkRateLimit(userId, RateLimitAction.POINT_CLAIM);
       if (!rateLimit.allowed) {
-        const resetTime = rateLimit.resetTime.toLocaleTimeString();
-        await ctx.answerCbQuery(`⏰ Daily bonus already claimed. Next bonus: ${resetTime}`);
+        const resetTime = rateLimit.resetTime.toLocaleTimeString(this.i18n.localeOf(ctx));
+        await ctx.answerCbQuery(t('points.daily.next_at', { time: resetTime }));
         return;
       }
 
       const user = await this.storage.getUser(userId);
       if (!user) {
-        await ctx.reply('❌ User not found.');
+        await ctx.reply(t('common.user_not_found'));
         return;
       }
 
@@ -331,7 +277,7 @@ export class PointsHandler {
       const lastClaim = await this.getLastDailyClaimDate(userId);
       
       if (lastClaim === today) {
-        await ctx.answerCbQuery('⏰ Daily bonus already claimed today!');
+        await ctx.answerCbQuery(t('points.daily.already_claimed'));
         return;
       }
 
@@ -351,29 +297,30 @@ export class PointsHandler {
           baseBonus,
           streakMultiplier,
           claimDate: new Date()
-        }
+        },
+        `daily_checkin:${userId}:${new Date().toISOString().split('T')[0]}`
       );
 
       if (success) {
         // Update daily claim record
         await this.updateDailyClaimRecord(userId, streak + 1);
 
-        const streakText = streak > 0 ? `\n🔥 Streak: ${streak + 1} days (${streakMultiplier.toFixed(1)}x bonus)` : '';
-
         await ctx.reply(
-          `✅ <b>Daily Bonus Claimed!</b>\n\n` +
-          `💰 Points Earned: ${totalBonus}\n` +
-          `💎 New Balance: ${(user.points + totalBonus).toLocaleString()}${streakText}\n\n` +
-          `⏰ Come back tomorrow for another bonus!`,
+          t('points.daily.claimed', {
+            points: totalBonus,
+            balance: user.points + totalBonus,
+            streak: streak > 0 ? streak + 1 : 0,
+            multiplier: streakMultiplier.toFixed(1)
+          }),
           { parse_mode: 'HTML', link_preview_options: { is_disabled: true } }
         );
       } else {
-        await ctx.answerCbQuery('❌ Error claiming daily bonus');
+        await ctx.answerCbQuery(t('points.daily.error_claim'));
       }
 
     } catch (error) {
       this.logger.error('Error handling daily check-in:', error);
-      await ctx.answerCbQuery('❌ Error processing daily bonus');
+      await ctx.answerCbQuery(t('points.daily.error'));
     }
   }
 
@@ -403,7 +350,7 @@ export class PointsHandler {
     }
   }
 
-  private async getPointsText(user: any): Promise<string> {
+  private async getPointsText(user: any, t: Translator, locale: string): Promise<string> {
     const rank = await this.getUserPointsRank(user.telegramId);
     const rankLabel = rank > 0 && rank <= 100 ? `#${rank}` : '#100+';
 
@@ -418,41 +365,29 @@ export class PointsHandler {
     const stats = await PointsService.getUserPointStats(user.telegramId);
     const tasksCompleted = (user.completedTasks?.length || 0) + Object.keys(user.dailyTasksCompleted || {}).length;
 
-    return `
-💰 <b>Your Points</b>
-
-💎 <b>Current Balance:</b> ${(user.points || 0).toLocaleString()} points
-📈 <b>Total Points Earned:</b> ${(stats.totalEarned || 0).toLocaleString()}
-📊 <b>Global Rank:</b> ${rankLabel}
-📉 <b>Daily Average:</b> ${pointsPerDay} points
-
-🎯 <b>Earning Summary:</b>
-✅ Tasks Completed: ${tasksCompleted}
-👥 Referrals Made: ${user.totalReferrals || 0}
-📅 Member Since: ${joinedAtDate.toLocaleDateString()}
-
-💡 <b>Ways to Earn More:</b>
-• Complete available tasks
-• Invite friends with your referral code
-• Connect your wallet to withdraw tokens
-• Participate in community activities
-
-🏆 <b>Milestones:</b>
-• Next milestone: ${this.getNextMilestone(user.points)} points
-    `.trim();
+    return t('points.main.text', {
+      balance: user.points || 0,
+      earned: stats.totalEarned || 0,
+      rank: rankLabel,
+      perDay: pointsPerDay,
+      tasks: tasksCompleted,
+      referrals: user.totalReferrals || 0,
+      joined: joinedAtDate.toLocaleDateString(locale),
+      milestone: this.getNextMilestone(user.points)
+    });
   }
 
-  private getPointsKeyboard(user: any): InlineKeyboardMarkup {
+  private getPointsKeyboard(user: any, t: Translator): InlineKeyboardMarkup {
     const keyboard: any[][] = [
       [
-        { text: 'Detailed Stats', callback_data: 'points_stats' },
-        { text: 'History', callback_data: 'points_history' }
+        { text: t('points.btn.stats'), callback_data: 'points_stats' },
+        { text: t('points.btn.history'), callback_data: 'points_history' }
       ],
       [
-        { text: 'Leaderboard', callback_data: 'points_leaderboard' }
+        { text: t('points.btn.leaderboard'), callback_data: 'points_leaderboard' }
       ],
       [
-        { text: 'Main Menu', callback_data: 'menu_main' }
+        { text: t('common.main_menu'), callback_data: 'menu_main' }
       ]
     ];
 
@@ -717,13 +652,14 @@ ${stats.weeklyProgress.slice(0, 4).map((week: { week: string; earned: number })
   }
 
   private async showPointsLeaderboard(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       const entries = await LeaderboardService.generatePointsLeaderboardDetailed(10);
       const userRank = userId ? await LeaderboardService.getUserPointsRank(userId) : 0;
       const leaderboardTextBase = LeaderboardService.formatPointsLeaderboardDetailed(entries, '🏆 Points Leaderboard');
       const rankLabel = userRank > 0 && userRank <= 100 ? `#${userRank}` : '#100+';
-      const leaderboardText = userRank > 0 ? `${leaderboardTextBase}\n\n📊 Your Rank: ${rankLabel}` : leaderboardTextBase;
+      const leaderboardText = userRank > 0 ? `${leaderboardTextBase}\n\n${t('menu.leaderboard.your_rank', { rank: rankLabel })}` : leaderboardTextBase;
       const keyboard = this.getPointsLeaderboardKeyboard();
 
       if (ctx.callbackQuery) {
@@ -754,7 +690,7 @@ ${stats.weeklyProgress.slice(0, 4).map((week: { week: string; earned: number })
 
     } catch (error) {
       this.logger.error('Error showing points leaderboard:', error);
-      await ctx.reply('❌ Error loading leaderboard.', { link_preview_options: { is_disabled: true } });
+      await ctx.reply(t('points.error.leaderboard'), { link_preview_options: { is_disabled: true } });
     }
   }
 
@@ -16,11 +16,15 @@ import {
   ActionSession
 } from '../../shared';
 import { referralManager } from '../../services/referral-manager.service';
+import { referralProgram } from '../../services/referrals/referral-program.service';
+import { FeatureFlagService } from '../../services/maintenance/feature-flag.service';
+import { formatFeatureBlock } from '../../services/maintenance/maintenance-rules';
 
 export class ReferralHandler {
   private readonly logger = Logger.getInstance();
   private readonly storage = StorageManager.getInstance();
   private readonly config = getConfig();
+  private readonly features = FeatureFlagService.getInstance();
   private static globalBotInstance: any = null;
   private botInstance: any = null;
 
@@ -63,8 +67,10 @@ export class ReferralHandler {
       const referralData = await this.getReferralData(freshUser.telegramId);
       const referralText = this.getReferralText(freshUser, referralData);
       const keyboard = this.getReferralKeyboard(freshUser);
+      // Payouts freeze for everyone, testers included; links keep working, so the menu stays open with a notice
+      const block = this.features.getBlock('referrals');
 
-      await MessageService.editOrReply(ctx, referralText, {
+      await MessageService.editOrReply(ctx, block ? `${formatFeatureBlock(block)}\n\n${referralText}` : referralText, {
         reply_markup: keyboard,
         parse_mode: 'HTML'
       });
@@ -221,7 +227,8 @@ export class ReferralHandler {
         bonus,
         `Referral bonus for inviting user ${newUserId}`,
         PointEarningCategory.REFERRAL_BONUS,
-        { referredUserId: newUserId }
+        { referredUserId: newUserId },
+        { idempotencyKey: `referral:${referrerId}:${newUserId}` }
       );
 
       this.logger.info('DEBUG: Referrer points awarded', {
@@ -231,6 +238,11 @@ export class ReferralHandler {
         error: referrerPointsResult.error
       });
 
+      if (referrerPointsResult.duplicate) {
+        this.logger.info('Referral bonus already paid, skipping', { referrerId, newUserId });
+        return;
+      }
+
       this.logger.info('DEBUG: Updating referrer totalReferrals', {
         referrerId,
         currentTotal: referrer.totalReferrals || 0,
@@ -256,7 +268,9 @@ export class ReferralHandler {
         newUserId,
         welcomeBonus,
         'Welcome bonus for joining via referral',
-        PointEarningCategory.BONUS
+        PointEarningCategory.BONUS,
+        { referrerId },
+        { idempotencyKey: `referral_welcome:${newUserId}` }
       );
 
       this.logger.info('DEBUG: New user points awarded', {
@@ -603,6 +617,7 @@ export class ReferralHandler {
     referrals: any[];
     totalEarned: number;
     activeReferrals: number;
+    lockedReferrals: number;
     recentReferrals: any[];
   }> {
     try {
@@ -618,7 +633,9 @@ export class ReferralHandler {
         projection: { telegramId: 1, firstName: 1, lastActiveAt: 1, lastActivity: 1, lastActive: 1, joinedAt: 1, registeredAt: 1, firstSeen: 1 }
       });
 
-      const totalEarned = referrals.length * this.config.bot.referralBonus;
+      const summary = await referralProgram.getReferrerSummary(userId);
+      const totalEarned = summary.totalEarned;
+      const lockedReferrals = summary.counts.pending + summary.counts.active + summary.counts.bonus_eligible;
 
       const activeReferrals = await this.storage.countDocuments('users', {
         referredBy: userId,
@@ -629,10 +646,10 @@ export class ReferralHandler {
         ]
       });
 
-      return { referrals, totalEarned, activeReferrals, recentReferrals };
+      return { referrals, totalEarned, activeReferrals, lockedReferrals, recentReferrals };
     } catch (error) {
       this.logger.error('Error getting referral data:', error);
-      return { referrals: [], totalEarned: 0, activeReferrals: 0, recentReferrals: [] };
+      return { referrals: [], totalEarned: 0, activeReferrals: 0, lockedReferrals: 0, recentReferrals: [] };
     }
   }
 
@@ -674,6 +691,7 @@ export class ReferralHandler {
 📊 <b>Your Statistics:</b>
 👥 Total Referrals: <b>${user.totalReferrals || 0}</b>
 ⚡ Active Referrals: <b>${data.activeReferrals || 0}</b>
+⏳ Awaiting Unlock: <b>${data.lockedReferrals || 0}</b>
 💰 Total Earned: <b>${data.totalEarned.toLocaleString()}</b> points
 
 🔗 <b>Referral Link:</b>
@@ -681,13 +699,13 @@ export class ReferralHandler {
 
 💡 <b>How it works:</b>
 • Share your referral link with friends
-• They join using your link
-• You earn ${this.config.bot.referralBonus} points per referral
+• They join using your link and pass verification
+• Once they complete ${this.config.referral.taskThreshold} tasks, you earn ${this.config.bot.referralBonus} points
 • They get a welcome bonus too!
 
 🚀 <b>Referral Bonuses:</b>
 • Each referral: <b>${this.config.bot.referralBonus}</b> points
-${this.config.bot.referralWelcomeBonusEnabled 
+${this.getCommissionText()}${this.config.bot.referralWelcomeBonusEnabled 
   ? `• Their welcome bonus: <b>${this.config.bot.referralWelcomeBonus}</b> points\n`
   : ''}• Special milestone rewards available!
 
@@ -704,6 +722,13 @@ ${data.recentReferrals.length > 0
     `.trim();
   }
 
+  private getCommissionText(): string {
+    const rates = referralProgram.getCommissionRates();
+    if (rates.length === 0) return '';
+    const levels = rates.map((rate, i) => `L${i + 1} ${+(rate * 100).toFixed(2)}%`).join(' / ');
+    return `• Commission on their task points: <b>${levels}</b>\n`;
+  }
+
   private getReferralKeyboard(user: any): InlineKeyboardMarkup {
     return {
       inline_keyboard: [
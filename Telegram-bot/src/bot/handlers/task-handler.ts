@@ -2,11 +2,21 @@ import { Context, Scenes } from 'telegraf';
 import { InlineKeyboardMarkup } from 'telegraf/typings/core/types/typegram';
 import { Logger } from '../../services/logger';
 import { StorageManager } from '../../storage';
-import { TaskSubmissionService } from '../../services/task-submission.service';
+import { TaskSubmissionService, TaskSubmitResult, getTaskCompletionKey } from '../../services/task-submission.service';
 import { getConfig } from '../../config';
 import { Task } from '../../types/task.types';
 import { TaskManager } from '../../services/task-manager.service';
 import { getTaskManagerConfig } from '../../services/task-config.service';
+import { TaskEligibilityService } from '../../services/task-eligibility/task-eligibility.service';
+import { EligibilityFailure, EligibilityResult } from '../../services/task-eligibility/eligibility-rules';
+import { TaskResponseService, TaskResponseKind } from '../../services/task-responses/task-response.service';
+import { parseQuizDefinition, parseSurveyDefinition, scoreQuiz } from '../../services/task-responses/response-rules';
+import { SubmissionProofService } from '../../services/proofs/submission-proof.service';
+import { FeatureFlagService } from '../../services/maintenance/feature-flag.service';
+import { CampaignService, UserCampaignView } from '../../services/campaigns/campaign.service';
+import { progressBar } from '../../services/campaigns/campaign-rules';
+import { LocalizationService, Translator } from '../../services/i18n/localization.service';
+import { localizeTask } from '../../services/i18n/i18n-rules';
 import { 
   UserValidationService, 
   CallbackQueryService, 
@@ -21,10 +31,36 @@ import {
 } from '../../shared';
 import { parseDuration, hasIntervalPassed, formatDuration } from '../../utils/time-utils';
 
+/** Scene state for the quiz/survey answer flow */
+interface AnswerFlowState {
+  taskId: string;
+  kind: TaskResponseKind;
+  index: number;
+  answers: Record<string, string | number | null>;
+  startedAt: string;
+}
+
+interface AnswerStep {
+  id: string;
+  text: string;
+  type: 'choice' | 'text';
+  options: string[];
+  required: boolean;
+  maxLength: number;
+}
+
 export class TaskHandler {
   private readonly logger = Logger.getInstance();
   private readonly storage = StorageManager.getInstance();
   private readonly submissionService = TaskSubmissionService.getInstance();
+  private readonly eligibility = TaskEligibilityService.getInstance();
+  private readonly responses = TaskResponseService.getInstance();
+  private readonly proofs = SubmissionProofService.getInstance();
+  private readonly features = FeatureFlagService.getInstance();
+  private readonly campaigns = CampaignService.getInstance();
+  private readonly i18n = LocalizationService.getInstance();
+  /** Album photos arrive as separate updates; process each user's uploads one at a time */
+  private readonly proofUploadQueues = new Map<string, Promise<void>>();
   private readonly config = getConfig();
   private taskManager: TaskManager;
 
@@ -38,7 +74,10 @@ export class TaskHandler {
    * Show available tasks
    */
   async showTasks(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
+      if (!await this.features.guard(ctx, 'tasks')) return;
+
       // Only acknowledge callback queries to avoid visible toast; no loading message in chat
       if (ctx.callbackQuery) {
         void ctx.answerCbQuery().catch(() => {});
@@ -50,22 +89,33 @@ export class TaskHandler {
           try { (await import('../../shared')).UserValidationService.invalidateSessionUser(ctx); } catch {}
           const user = await UserValidationService.validateUser(ctx);
           if (!user) {
-            await MessageService.editOrReply(ctx, '❌ Error loading tasks. Please try again.', { parse_mode: 'HTML', link_preview_options: { is_disabled: true } }).catch(() => {});
+            await MessageService.editOrReply(ctx, t('tasks.error.loading'), { parse_mode: 'HTML', link_preview_options: { is_disabled: true } }).catch(() => {});
             return;
           }
 
-          const [tasks, userStats] = await Promise.all([
+          const [tasks, userStats, campaigns] = await Promise.all([
             this.taskManager.getAllTasks(),
-            this.submissionService.getUserStats(user.telegramId, { preloadUser: user, includeAllSubmissions: true })
+            this.submissionService.getUserStats(user.telegramId, { preloadUser: user, includeAllSubmissions: true }),
+            this.campaigns.getUserCampaigns(user).catch(err => {
+              this.logger.error('Failed to load campaigns for task list:', err);
+              return [] as UserCampaignView[];
+            })
           ]);
 
-          const availableTasks = tasks.filter(task => task.isActive);
           const submissions = (userStats && (userStats as any).submissions) || [];
           const completedArray: string[] = Array.isArray(userStats?.completedTasks) ? (userStats!.completedTasks as string[]) : [];
           const completedSet: Set<string> = new Set<string>(completedArray);
 
-          const taskText = this.getTaskListText(availableTasks, user, userStats);
-          const keyboard = await this.getTaskListKeyboard(availableTasks, user, submissions, completedSet);
+          // Hide tasks outside their window or geo-targeted elsewhere, unless already completed
+          const activeTasks = tasks.filter(task => task.isActive);
+          const eligibility = await this.eligibility.evaluateAll(activeTasks, user, this.getProfileOverrides(ctx));
+          const locale = this.i18n.localeOf(ctx);
+          const availableTasks = activeTasks
+            .filter(task => eligibility.get(task.id)?.visible !== false || completedSet.has(getTaskCompletionKey(task)))
+            .map(task => localizeTask(task, locale));
+
+          const taskText = this.getTaskListText(availableTasks, user, t, userStats) + this.getCampaignProgressText(campaigns, t);
+          const keyboard = await this.getTaskListKeyboard(availableTasks, user, submissions, completedSet, eligibility, t);
 
           MessageService.editOrReply(ctx, taskText, {
             reply_markup: keyboard,
@@ -75,7 +125,7 @@ export class TaskHandler {
       }, 0);
     } catch (error) {
       this.logger.error('Error showing tasks:', error);
-      await ctx.reply('❌ Error loading tasks. Please try again.');
+      await ctx.reply(t('tasks.error.loading'));
     }
   }
 
@@ -83,17 +133,21 @@ export class TaskHandler {
    * Show specific task details
    */
   async showTaskDetails(ctx: Context, taskId: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
+      if (!await this.features.guard(ctx, 'tasks')) return;
       const user = await UserValidationService.validateUser(ctx);
       if (!user) return;
-      const task = await this.taskManager.getTask(taskId);
-      if (!task) {
-        await CallbackQueryService.safeAnswerCallback(ctx, '❌ Task not found');
+      const stored = await this.taskManager.getTask(taskId);
+      if (!stored) {
+        await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.error.not_found'));
         return;
       }
+      const task = localizeTask(stored, this.i18n.localeOf(ctx));
       const submissions = await this.submissionService.getUserSubmissions(user.telegramId);
-      const taskText = await this.getTaskDetailText(task, user, submissions);
-      const keyboard = await this.getTaskDetailKeyboard(task, user, submissions);
+      const eligibility = await this.eligibility.evaluate(task, user, this.getProfileOverrides(ctx));
+      const taskText = await this.getTaskDetailText(task, user, submissions, t, eligibility);
+      const keyboard = await this.getTaskDetailKeyboard(task, user, submissions, t, eligibility);
       await MessageService.editOrReply(ctx, taskText, {
         reply_markup: keyboard,
         parse_mode: 'HTML',
@@ -101,7 +155,7 @@ export class TaskHandler {
       });
     } catch (error) {
       this.logger.error('Error showing task details:', error);
-      await CallbackQueryService.safeAnswerCallback(ctx, '❌ Error loading task details');
+      await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.error.details'));
     }
   }
 
@@ -109,20 +163,30 @@ export class TaskHandler {
    * Handle task completion/verification
    */
   async completeTask(ctx: Context, taskId: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       const username = ctx.from?.username;
       if (!userId) return;
+      if (!await this.features.guard(ctx, 'tasks')) return;
 
       const task = await this.taskManager.getTask(taskId);
       if (!task) {
-        await ctx.answerCbQuery('❌ Task not found');
+        await ctx.answerCbQuery(t('tasks.error.not_found'));
         return;
       }
 
       // Check if user already completed this task
       if (await this.submissionService.hasUserCompletedTask(userId, taskId)) {
-        await ctx.answerCbQuery('✅ You have already completed this task!');
+        await ctx.answerCbQuery(t('tasks.complete.already'));
+        return;
+      }
+
+      if (!(await this.ensureEligible(ctx, task, userId))) return;
+
+      // Quiz and survey tasks complete at the end of their answer flow
+      if (task.type === 'quiz' || task.type === 'survey') {
+        await this.startAnswerFlow(ctx, task, userId);
         return;
       }
 
@@ -136,20 +200,20 @@ export class TaskHandler {
       switch (task.verificationMethod) {
         case 'telegram_api':
           success = await this.verifyTelegramTask(ctx, task);
-          message = success ? task.metadata?.successMessage || 'Task completed!' : 
-                           task.metadata?.failureMessage || 'Please complete the requirements first.';
+          message = success ? task.metadata?.successMessage || t('tasks.complete.done') :
+                           task.metadata?.failureMessage || t('tasks.complete.not_done');
           break;
 
         case 'telegram_premium':
           success = await this.verifyPremiumTask(ctx, task);
-          message = success ? task.metadata?.successMessage || 'Premium status verified!' : 
-                           task.metadata?.failureMessage || 'This task is only for Telegram Premium members.';
+          message = success ? task.metadata?.successMessage || t('tasks.complete.premium_done') :
+                           task.metadata?.failureMessage || t('tasks.complete.premium_only');
           break;
 
         case 'referral_count':
           success = await this.verifyReferralTask(ctx, task, userId);
-          message = success ? task.metadata?.successMessage || 'Referral task completed!' : 
-                           task.metadata?.failureMessage || 'You need more referrals to complete this task.';
+          message = success ? task.metadata?.successMessage || t('tasks.complete.referral_done') :
+                           task.metadata?.failureMessage || t('tasks.complete.referral_missing');
           break;
 
         case 'time_based':
@@ -157,16 +221,16 @@ export class TaskHandler {
           const allowed = await RateLimitService.checkAndEnforce(ctx, RateLimitAction.POINT_CLAIM);
           if (!allowed) {
             success = false;
-            message = 'Daily bonus already claimed recently.';
+            message = t('tasks.complete.daily_recent');
             break;
           }
           success = await this.verifyTimeBasedTask(ctx, task, userId);
-          message = success ? task.metadata?.successMessage || 'Daily task completed!' : 
-                           task.metadata?.failureMessage || 'You have already completed this today.';
+          message = success ? task.metadata?.successMessage || t('tasks.complete.daily_done') :
+                           task.metadata?.failureMessage || t('tasks.complete.daily_again');
           break;
 
         default:
-          message = '❌ Invalid task verification method.';
+          message = t('tasks.complete.invalid_method');
       }
 
       // Complete task if successful
@@ -184,14 +248,14 @@ export class TaskHandler {
 
           // Send success message to chat for better visibility
           await ctx.reply(`✅ ${message}`);
-          await CallbackQueryService.safeAnswerCallback(ctx, `✅ Task completed!`);
+          await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.complete.toast'));
           
           // Invalidate session cache and return to tasks list to show updated status
           try { (await import('../../shared')).UserValidationService.invalidateSessionUser(ctx); } catch {}
           await this.showTasks(ctx);
         } else {
-          await ctx.reply('❌ Failed to complete task. Please try again.');
-          await CallbackQueryService.safeAnswerCallback(ctx, '❌ Failed to complete task.');
+          await ctx.reply(t('tasks.complete.failed'));
+          await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.complete.failed_toast'));
         }
       } else {
         // Referral task: show concise toast instead of spamming chat and provide remaining count
@@ -201,25 +265,23 @@ export class TaskHandler {
             const user = await this.storage.getUser(userId);
             const userReferrals = (user && (user as any).referralCount) || 0;
             const remaining = Math.max(0, requiredReferrals - userReferrals);
-            const base = remaining > 0
-              ? `Invite ${remaining} more ${remaining === 1 ? 'friend' : 'friends'} to complete this task.`
-              : `Invite ${requiredReferrals} friends to complete this task.`;
-            const hint = 'Tap Get Referral Link to share.';
-            await CallbackQueryService.safeAnswerCallback(ctx, `❌ ${base} ${hint}`);
+            await CallbackQueryService.safeAnswerCallback(ctx, remaining > 0
+              ? t('tasks.complete.invite_more', { count: remaining })
+              : t('tasks.complete.invite', { count: requiredReferrals }));
           } catch {
             // Fallback toast
-            await CallbackQueryService.safeAnswerCallback(ctx, '❌ Invite 3 friends to complete this task. Tap Get Referral Link to share.');
+            await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.complete.invite', { count: 3 }));
           }
           return;
         } else if (task.verificationMethod === 'telegram_premium') {
           // Show premium-only failure as a short toast
-          const trimmed = (message || 'This task is only available for Telegram Premium members.').trim();
+          const trimmed = (message || t('tasks.complete.premium_only')).trim();
           const toast = trimmed.startsWith('❌') ? trimmed : `❌ ${trimmed}`;
           await CallbackQueryService.safeAnswerCallback(ctx, toast);
           return;
         } else if (task.verificationMethod === 'telegram_api') {
           // Channel join verification failed: show short toast instead of chat spam
-          const trimmed = (message || 'Please join our channel first, then click Check & Complete.').trim();
+          const trimmed = (message || t('tasks.complete.join_first')).trim();
           const toast = trimmed.startsWith('❌') ? trimmed : `❌ ${trimmed}`;
           await CallbackQueryService.safeAnswerCallback(ctx, toast);
           return;
@@ -229,12 +291,12 @@ export class TaskHandler {
         const trimmed = (message || '').trim();
         const chatMsg = trimmed.startsWith('❌') ? trimmed : `❌ ${trimmed}`;
         await ctx.reply(chatMsg);
-        await CallbackQueryService.safeAnswerCallback(ctx, `❌ Task failed`);
+        await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.complete.failed_short'));
       }
 
     } catch (error) {
       this.logger.error('Error completing task:', error);
-      await CallbackQueryService.safeAnswerCallback(ctx, '❌ Error completing task. Please try again.');
+      await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.complete.error'));
     }
   }
 
@@ -242,30 +304,79 @@ export class TaskHandler {
    * Handle task submission for social media tasks
    */
   async submitTask(ctx: Context, taskId: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       const username = ctx.from?.username;
       if (!userId) return;
+      if (!await this.features.guard(ctx, 'tasks')) return;
 
       const task = await this.taskManager.getTask(taskId);
       if (!task) {
-        await CallbackQueryService.safeAnswerCallback(ctx, '❌ Task not found');
+        await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.error.not_found'));
         return;
       }
 
       // Check if user already completed this task
       if (await this.submissionService.hasUserCompletedTask(userId, taskId)) {
-        await CallbackQueryService.safeAnswerCallback(ctx, '✅ You have already completed this task!');
+        await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.complete.already'));
         return;
       }
 
+      if (!(await this.ensureEligible(ctx, task, userId))) return;
+
+      // Persisted so photo/document proofs still find the task if the scene session is lost
+      await this.storage.updateUser(userId, { awaitingTaskSubmission: taskId });
+
       // Start submission scene
       await (ctx as any).scene.enter('task_submission', { taskId, task });
 
     } catch (error) {
       this.logger.error('Error starting task submission:', error);
-      await CallbackQueryService.safeAnswerCallback(ctx, '❌ Error starting submission. Please try again.');
+      await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.submit.error_start'));
+    }
+  }
+
+  /**
+   * Server-side requirements/validity check before completing or submitting a task
+   */
+  private async ensureEligible(ctx: Context, task: Task, userId: string): Promise<boolean> {
+    const user = await this.storage.getUser(userId);
+    if (!user) {
+      await CallbackQueryService.safeAnswerCallback(ctx, this.i18n.translator(ctx)('common.user_not_found'));
+      return false;
     }
+
+    const result = await this.eligibility.evaluate(task, user, this.getProfileOverrides(ctx));
+    if (result.eligible) return true;
+
+    this.logger.info('Task action rejected by requirements', {
+      userId,
+      taskId: task.id,
+      failures: result.failures.map(f => f.code)
+    });
+    await CallbackQueryService.safeAnswerCallback(ctx, `🔒 ${this.describeFailure(result.failures[0], this.i18n.translator(ctx))}`);
+    return false;
+  }
+
+  private describeFailure(failure: EligibilityFailure, t: Translator): string {
+    const params = failure.code === 'not_started'
+      ? { date: DateUtils.formatUserDate(String(failure.params?.date)) }
+      : failure.params;
+    return t(`tasks.eligibility.${failure.code}`, params);
+  }
+
+  private describeSubmitResult(result: TaskSubmitResult, t: Translator): string {
+    if (result.failure) return `🔒 ${this.describeFailure(result.failure, t)}`;
+    const example = result.params?.example || t('tasks.submit.result.example_default');
+    return t(`tasks.submit.result.${result.outcome}`, { ...result.params, example });
+  }
+
+  /**
+   * Live Telegram data is fresher than the stored user record for premium status
+   */
+  private getProfileOverrides(ctx: Context): { isPremium?: boolean } {
+    return ctx.from?.is_premium === true ? { isPremium: true } : {};
   }
 
   /**
@@ -332,7 +443,7 @@ export class TaskHandler {
   /**
    * Generate task list text
    */
-  private getTaskListText(tasks: Task[], user: any, userStats?: any): string {
+  private getTaskListText(tasks: Task[], user: any, t: Translator, userStats?: any): string {
     const totalTasks = tasks.length;
     // Count completed tasks from taskCompletionStatus (includes both daily and non-daily)
     const taskCompletionStatus = userStats?.taskCompletionStatus || {};
@@ -340,23 +451,52 @@ export class TaskHandler {
     const availableTasks = totalTasks - completedCount;
     const totalPoints = userStats?.totalPointsEarned || user?.points || 0;
     
-    return `
-<b>🎯 Tasks Hub (${totalTasks} total)</b>
-
-💰 <b>Your Progress:</b>
-✅ Completed: ${completedCount} tasks
-⏳ Available: ${availableTasks} tasks  
-🏆 Points Earned: ${totalPoints.toLocaleString()}
+    return t('tasks.list.text', {
+      total: totalTasks,
+      completed: completedCount,
+      available: availableTasks,
+      points: totalPoints
+    });
+  }
 
-🚀 <b>Complete tasks to earn more points and climb the leaderboard!</b>
-📊 Each task shows points value and current status below.
-    `.trim();
+  /**
+   * Progress bars for running campaigns, appended to the task list
+   */
+  private getCampaignProgressText(views: UserCampaignView[], t: Translator): string {
+    if (views.length === 0) return '';
+    let text = `\n\n${t('tasks.campaigns.title')}`;
+    for (const { campaign, evaluation, completedAt } of views) {
+      const title = this.escapeHtml(campaign.title);
+      if (completedAt || evaluation.completed) {
+        text += `\n\n${t('tasks.campaigns.complete', { title })}`;
+        continue;
+      }
+      text += `\n\n<b>${title}</b>\n${progressBar(evaluation.completedSteps, evaluation.totalSteps)} ${t('tasks.campaigns.steps', { done: evaluation.completedSteps, total: evaluation.totalSteps })}`;
+      const next = evaluation.steps.filter(s => s.unlocked && !s.completed);
+      if (next.length > 0) {
+        text += `\n${t('tasks.campaigns.next', { steps: next.map(s => `${this.escapeHtml(s.step.title)}${s.total > 1 ? ` (${s.done}/${s.total})` : ''}`).join(', ') })}`;
+      }
+      if (campaign.bonusPoints > 0) {
+        text += `\n${t('tasks.campaigns.bonus', { points: campaign.bonusPoints })}`;
+      }
+      if (campaign.endsAt) {
+        text += `\n${t('tasks.campaigns.ends', { date: DateUtils.formatUserDate(DateUtils.parseUserDate(campaign.endsAt)) })}`;
+      }
+    }
+    return text;
   }
 
   /**
    * Generate task list keyboard
    */
-  private async getTaskListKeyboard(tasks: Task[], user: any, submissions: any[], completedSet: Set<string>): Promise<InlineKeyboardMarkup> {
+  private async getTaskListKeyboard(
+    tasks: Task[],
+    user: any,
+    submissions: any[],
+    completedSet: Set<string>,
+    eligibility: Map<string, EligibilityResult>,
+    t: Translator
+  ): Promise<InlineKeyboardMarkup> {
     const keyboard: any[][] = [];
     const taskButtons: any[] = [];
     const completionMap: Record<string, string> = (user?.taskCompletionStatus || {}) as any;
@@ -366,7 +506,8 @@ export class TaskHandler {
       const shortTitle = task.title.length > 15 ? `${task.title.substring(0, 15)}...` : task.title;
       const submission = submissions.find((s: any) => s.userId === user.telegramId && s.taskId === task.id);
 
-      let isCompleted = completedSet.has(task.type) || completionMap[task.type] === 'Completed' || (submission && submission.status === 'approved');
+      const completionKey = getTaskCompletionKey(task);
+      let isCompleted = completedSet.has(completionKey) || completionMap[completionKey] === 'Completed' || (submission && submission.status === 'approved');
       let isPending = submission && submission.status === 'pending';
       let isRejected = submission && submission.status === 'rejected';
 
@@ -383,6 +524,8 @@ export class TaskHandler {
         buttonText = `⏳ ${shortTitle} | 💰${task.points}`;
       } else if (isRejected) {
         buttonText = `❌ ${shortTitle} | 💰${task.points}`;
+      } else if (eligibility.get(task.id)?.eligible === false) {
+        buttonText = `🔒 ${shortTitle} | 💰${task.points}`;
       } else {
         buttonText = `${this.getTaskTypeIcon(task.type)} ${shortTitle} | 💰${task.points}`;
       }
@@ -400,14 +543,14 @@ export class TaskHandler {
       keyboard.push(row);
     }
     keyboard.push([
-      { text: '🔄 Refresh', callback_data: 'menu_tasks' }
+      { text: t('tasks.btn.refresh'), callback_data: 'menu_tasks' }
     ]);
     keyboard.push([
-      { text: '✅ Completed', callback_data: 'task_completed' },
-      { text: '⏰ Pending', callback_data: 'task_pending' }
+      { text: t('tasks.btn.completed'), callback_data: 'task_completed' },
+      { text: t('tasks.btn.pending'), callback_data: 'task_pending' }
     ]);
     keyboard.push([
-      { text: '🏠 Main Menu', callback_data: 'menu_main' }
+      { text: t('tasks.btn.main_menu'), callback_data: 'menu_main' }
     ]);
     return { inline_keyboard: keyboard };
   }
@@ -415,79 +558,110 @@ export class TaskHandler {
   /**
    * Generate task detail text
    */
-  private async getTaskDetailText(task: Task, user: any, submissions: any[]): Promise<string> {
+  private async getTaskDetailText(task: Task, user: any, submissions: any[], t: Translator, eligibility?: EligibilityResult): Promise<string> {
     const icon = this.getTaskTypeIcon(task.type);
     const submission = submissions.find((s: any) => s.userId === user.telegramId && s.taskId === task.id);
-    let statusText = '⏳ Available';
+    let statusText = t('tasks.status.available');
     let isCompleted = false;
     let cooldownInfo = '';
 
     const completionMap: Record<string, string> = (user?.taskCompletionStatus || {}) as any;
-    if (completionMap[task.type] === 'Completed') {
-      statusText = '✅ Completed';
+    if (completionMap[getTaskCompletionKey(task)] === 'Completed') {
+      statusText = t('tasks.status.completed');
       isCompleted = true;
     }
 
     if (!isCompleted && submission) {
       if (submission.status === 'approved') {
-        statusText = '✅ Completed';
+        statusText = t('tasks.status.completed');
         isCompleted = true;
       } else if (submission.status === 'pending') {
-        statusText = '⏳ Pending Review';
+        statusText = t('tasks.status.pending');
       } else if (submission.status === 'rejected') {
-        statusText = '❌ Rejected';
+        statusText = t('tasks.status.rejected');
       }
     }
 
     if (task.isDaily) {
       const cooldownState = this.getDailyTaskCooldownState(user?.dailyTasksCompleted);
       if (cooldownState.inCooldown) {
-        statusText = '✅ Claimed';
+        statusText = t('tasks.status.claimed');
         isCompleted = true;
 
         const cooldownParts: string[] = [];
         if (cooldownState.timeRemainingMs > 0) {
-          cooldownParts.push(`in ${formatDuration(cooldownState.timeRemainingMs)}`);
+          cooldownParts.push(t('tasks.detail.next_in', { duration: formatDuration(cooldownState.timeRemainingMs) }));
         }
         if (cooldownState.nextAvailableAt) {
           const nextDate = DateUtils.parseUserDate(cooldownState.nextAvailableAt);
           cooldownParts.push(DateUtils.formatUserDate(nextDate));
         }
         if (cooldownParts.length > 0) {
-          cooldownInfo = `\n⏳ <b>Next available:</b> ${cooldownParts.join(' • ')}`;
+          cooldownInfo = `\n${t('tasks.detail.next_available', { when: cooldownParts.join(' • ') })}`;
         }
       } else {
-        statusText = '⏳ Available';
+        statusText = t('tasks.status.available');
       }
     }
 
     let text = `${icon} <b>${task.title}</b>\n\n`;
-    text += `📝 <b>Description:</b>\n${task.description}\n\n`;
-    text += `💰 <b>Reward:</b> ${task.points} points\n`;
-    text += `🔧 <b>Type:</b> ${this.getTaskTypeText(task.type)}\n`;
-    text += `📊 <b>Status:</b> ${statusText}\n`;
+    text += `${t('tasks.detail.description')}\n${task.description}\n\n`;
+    text += `${t('tasks.detail.reward', { points: task.points })}\n`;
+    text += `${t('tasks.detail.type', { type: this.getTaskTypeText(task.type, t) })}\n`;
+    text += `${t('tasks.detail.status', { status: statusText })}\n`;
     if (cooldownInfo) {
       text += `${cooldownInfo}\n`;
     }
     if (task.validation?.submissionRequired) {
-      text += `\n📝 <b>Submission Required:</b>\n`;
-      text += `${task.validation.submissionInstructions || 'Please submit the required information.'}\n`;
+      text += `\n${t('tasks.detail.submission')}\n`;
+      text += `${task.validation.submissionInstructions || t('tasks.detail.submission_default')}\n`;
       if (task.validation.submissionExample) {
-        text += `\n<i>Example: ${task.validation.submissionExample}</i>\n`;
+        text += `\n${t('tasks.detail.example', { example: task.validation.submissionExample })}\n`;
       }
     }
     if (task.requirements) {
-      text += `\n📋 <b>Requirements:</b>\n`;
+      text += `\n${t('tasks.detail.requirements')}\n`;
       if (task.requirements.verificationRequired) {
-        text += `• Real-time verification required\n`;
+        text += `${t('tasks.detail.req_verification')}\n`;
       }
       if (task.requirements.premiumRequired) {
-        text += `• Telegram Premium membership required\n`;
+        text += `${t('tasks.detail.req_premium')}\n`;
+      }
+      if (task.requirements.walletRequired) {
+        text += `${t('tasks.detail.req_wallet')}\n`;
+      }
+      if (task.requirements.minimumAccountAge) {
+        text += `${t('tasks.detail.req_account_age', { days: task.requirements.minimumAccountAge })}\n`;
+      }
+      if (task.requirements.minimumTasks) {
+        text += `${t('tasks.detail.req_tasks', { count: task.requirements.minimumTasks })}\n`;
+      }
+    }
+    if (task.type === 'quiz') {
+      const quiz = parseQuizDefinition(task.metadata?.customData);
+      if (quiz) {
+        text += `\n${t('tasks.detail.quiz', { questions: quiz.questions.length, pass: Math.round(quiz.passThreshold * 100), attempts: quiz.maxAttempts })}\n`;
+      }
+    } else if (task.type === 'survey') {
+      const survey = parseSurveyDefinition(task.metadata?.customData);
+      if (survey) {
+        text += `\n${t('tasks.detail.survey', { questions: survey.fields.length })}\n`;
+      }
+    }
+    if (task.validTo) {
+      const endsAt = DateUtils.parseUserDate(task.validTo);
+      if (endsAt.getTime() > Date.now()) {
+        text += `\n${t('tasks.detail.ends', { date: DateUtils.formatUserDate(endsAt) })}\n`;
+      }
+    }
+    if (!isCompleted && eligibility && !eligibility.eligible) {
+      text += `\n${t('tasks.detail.locked')}\n`;
+      for (const failure of eligibility.failures) {
+        text += `• ${this.describeFailure(failure, t)}\n`;
       }
     }
     if (isCompleted) {
-      const completionMessage = task.isDaily ? 'You have claimed this reward!' : 'You have completed this task!';
-      text += `\n✅ <b>${completionMessage}</b>`;
+      text += `\n${t('tasks.detail.done', { daily: task.isDaily ? 'yes' : 'no' })}`;
     }
     return text.trim();
   }
@@ -495,18 +669,18 @@ export class TaskHandler {
   /**
    * Generate task detail keyboard with session-based timeout for sensitive actions
    */
-  private async getTaskDetailKeyboard(task: Task, user: any, submissions: any[]): Promise<InlineKeyboardMarkup> {
+  private async getTaskDetailKeyboard(task: Task, user: any, submissions: any[], t: Translator, eligibility?: EligibilityResult): Promise<InlineKeyboardMarkup> {
     const keyboard: any[][] = [];
     const submission = submissions.find((s: any) => s.userId === user.telegramId && s.taskId === task.id);
     const completionMap: Record<string, string> = (user?.taskCompletionStatus || {}) as any;
-    let isCompleted = (submission && submission.status === 'approved') || completionMap[task.type] === 'Completed';
+    let isCompleted = (submission && submission.status === 'approved') || completionMap[getTaskCompletionKey(task)] === 'Completed';
 
     const dailyCooldownState = task.isDaily ? this.getDailyTaskCooldownState(user?.dailyTasksCompleted) : null;
     if (dailyCooldownState?.inCooldown) {
       isCompleted = true;
     }
 
-    if (!isCompleted) {
+    if (!isCompleted && eligibility?.eligible !== false) {
       task.buttons.forEach(button => {
         if (button.action === 'open_url' && button.url) {
           keyboard.push([{ text: button.text, url: button.url }]);
@@ -544,8 +718,8 @@ export class TaskHandler {
       });
     }
     keyboard.push([
-      { text: '← Back to Tasks', callback_data: 'menu_tasks' },
-      { text: '🏠 Main Menu', callback_data: 'menu_main' }
+      { text: t('tasks.btn.back'), callback_data: 'menu_tasks' },
+      { text: t('tasks.btn.main_menu'), callback_data: 'menu_main' }
     ]);
     return { inline_keyboard: keyboard };
   }
@@ -607,6 +781,8 @@ export class TaskHandler {
       daily_bonus: '📅',
       referral_invite: '👥',
       premium_check: '⭐',
+      quiz: '❓',
+      survey: '📋',
       custom: '📚'
     };
     return icons[type] || '📝';
@@ -615,19 +791,12 @@ export class TaskHandler {
   /**
    * Get task type text
    */
-  private getTaskTypeText(type: string): string {
-    const types: Record<string, string> = {
-      telegram_join: 'Telegram',
-      twitter_follow: 'Twitter Follow',
-      twitter_retweet: 'Twitter Retweet',
-      instagram_follow: 'Instagram',
-      youtube_subscribe: 'YouTube',
-      daily_bonus: 'Daily',
-      referral_invite: 'Referral',
-      premium_check: 'Premium',
-      custom: 'Social Media'
-    };
-    return types[type] || 'General';
+  private getTaskTypeText(type: string, t: Translator): string {
+    const types = [
+      'telegram_join', 'twitter_follow', 'twitter_retweet', 'instagram_follow', 'youtube_subscribe',
+      'daily_bonus', 'referral_invite', 'premium_check', 'quiz', 'survey', 'custom'
+    ];
+    return t(`tasks.type.${types.includes(type) ? type : 'general'}`);
   }
 
   /**
@@ -639,24 +808,33 @@ export class TaskHandler {
     
     scene.enter(async (ctx: any) => {
       const { taskId, task } = ctx.scene?.state as { taskId: string; task: Task };
-      
+      const t = this.i18n.translator(ctx);
+      const title = localizeTask(task, this.i18n.localeOf(ctx)).title;
+
       await ctx.reply(
-        `📝 <b>Submit Task: ${task.title}</b>\n\n` +
-        `${task.validation?.submissionInstructions || '🔗 Please submit the required information for verification.'}\n\n` +
-        `${task.validation?.submissionExample ? `💡 <b>Example:</b> <code>${task.validation.submissionExample}</code>\n\n` : ''}` +
-        `📤 <b>Send your submission link:</b>`,
-        { 
+        `${t('tasks.submit.title', { title })}\n\n` +
+        `${task.validation?.submissionInstructions || t('tasks.submit.instructions_default')}\n\n` +
+        `${task.validation?.submissionExample ? `${t('tasks.submit.example', { example: task.validation.submissionExample })}\n\n` : ''}` +
+        t('tasks.submit.send'),
+        {
           parse_mode: 'HTML',
           link_preview_options: { is_disabled: true },
           reply_markup: {
             inline_keyboard: [[
-              { text: '❌ Cancel', callback_data: `task_details_${taskId}` }
+              { text: t('tasks.btn.cancel'), callback_data: `task_details_${taskId}` }
             ]]
           }
         }
       );
     });
 
+    scene.leave(async (ctx: any) => {
+      const userId = ctx.from?.id?.toString();
+      if (userId) {
+        await this.storage.updateUser(userId, { awaitingTaskSubmission: null }).catch(() => false);
+      }
+    });
+
     // Leave the submission room on navigation
     scene.action(/task_details_(.+)/, async (ctx: any) => {
       try { await ctx.answerCbQuery().catch(() => {}); } catch {}
@@ -684,13 +862,13 @@ export class TaskHandler {
       const username = ctx.from?.username;
 
       if (!userId) {
-        await ctx.reply('❌ Error: User ID not found');
+        await ctx.reply(this.i18n.translator(ctx)('tasks.submit.no_user'));
         return ctx.scene?.leave();
       }
 
       const result = await this.submissionService.submitTask(userId, username, taskId, submissionText, task);
 
-      await ctx.reply(result.message, { link_preview_options: { is_disabled: true } });
+      await ctx.reply(this.describeSubmitResult(result, this.i18n.translator(ctx)), { link_preview_options: { is_disabled: true } });
       await ctx.scene?.leave();
 
       // Invalidate session cache so fresh user state is fetched for status badges
@@ -703,6 +881,296 @@ export class TaskHandler {
     return scene;
   }
 
+  /**
+   * Quiz/survey answer flow. One question per message with inline options;
+   * free-form survey fields are answered by replying with text.
+   */
+  getTaskAnswerScene(): any {
+    const scene = new Scenes.BaseScene<any>('task_answer');
+
+    scene.enter(async (ctx: any) => {
+      await this.renderAnswerStep(ctx);
+    });
+
+    scene.action(/^tans_(\d+)_(\d+)$/, async (ctx: any) => {
+      try { await ctx.answerCbQuery().catch(() => {}); } catch {}
+      const [, step, option] = ctx.match;
+      await this.handleAnswer(ctx, Number(step), { option: Number(option) });
+    });
+    scene.action(/^tans_skip_(\d+)$/, async (ctx: any) => {
+      try { await ctx.answerCbQuery().catch(() => {}); } catch {}
+      await this.handleAnswer(ctx, Number(ctx.match[1]), { skip: true });
+    });
+    scene.action('tans_cancel', async (ctx: any) => {
+      try { await ctx.answerCbQuery().catch(() => {}); } catch {}
+      const taskId = (ctx.scene?.state as AnswerFlowState | undefined)?.taskId;
+      try { await ctx.scene.leave(); } catch {}
+      if (taskId) await this.showTaskDetails(ctx, taskId);
+    });
+
+    // Leave the flow on navigation
+    scene.action(/task_details_(.+)/, async (ctx: any) => {
+      try { await ctx.answerCbQuery().catch(() => {}); } catch {}
+      try { await ctx.scene.leave(); } catch {}
+      await this.showTaskDetails(ctx, ctx.match[1]);
+    });
+    scene.action('menu_tasks', async (ctx: any) => {
+      try { await ctx.answerCbQuery().catch(() => {}); } catch {}
+      try { await ctx.scene.leave(); } catch {}
+      await this.showTasks(ctx);
+    });
+    scene.action('menu_main', async (ctx: any) => {
+      try { await ctx.answerCbQuery().catch(() => {}); } catch {}
+      try { await ctx.scene.leave(); } catch {}
+      const { MenuHandler } = await import('./menu-handler');
+      await new MenuHandler().showMainMenu(ctx);
+    });
+
+    scene.on('text', async (ctx: any, next: () => Promise<void>) => {
+      const text: string = ctx.message.text || '';
+      if (text.startsWith('/')) {
+        // Commands abandon the flow and are handled as usual
+        try { await ctx.scene.leave(); } catch {}
+        return next();
+      }
+      const state = ctx.scene?.state as AnswerFlowState | undefined;
+      await this.handleAnswer(ctx, state?.index ?? -1, { text });
+    });
+
+    return scene;
+  }
+
+  private async startAnswerFlow(ctx: Context, task: Task, userId: string): Promise<void> {
+    const kind = task.type as TaskResponseKind;
+    const t = this.i18n.translator(ctx);
+
+    if (this.getAnswerSteps(task, kind).length === 0) {
+      this.logger.warn('Task has no usable quiz/survey definition', { taskId: task.id, kind });
+      await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.answer.not_set_up'));
+      return;
+    }
+
+    // A passed quiz or a stored survey whose completion did not go through is completed directly
+    const alreadyAnswered = kind === 'quiz'
+      ? await this.responses.hasPassedQuiz(userId, task.id)
+      : (await this.responses.countAttempts(userId, task.id, 'survey')) > 0;
+    if (alreadyAnswered) {
+      await this.completeAnsweredTask(ctx, task, userId, {});
+      return;
+    }
+
+    if (kind === 'quiz') {
+      const quiz = parseQuizDefinition(task.metadata?.customData)!;
+      const attempts = await this.responses.countAttempts(userId, task.id, 'quiz');
+      if (attempts >= quiz.maxAttempts) {
+        await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.answer.no_attempts'));
+        return;
+      }
+    }
+
+    const state: AnswerFlowState = { taskId: task.id, kind, index: 0, answers: {}, startedAt: new Date().toISOString() };
+    await (ctx as any).scene.enter('task_answer', state);
+  }
+
+  private getAnswerSteps(task: Task, kind: TaskResponseKind): AnswerStep[] {
+    if (kind === 'quiz') {
+      const quiz = parseQuizDefinition(task.metadata?.customData);
+      return (quiz?.questions || []).map(q => ({
+        id: q.id, text: q.text, type: 'choice' as const, options: q.options, required: true, maxLength: 0
+      }));
+    }
+    return parseSurveyDefinition(task.metadata?.customData)?.fields || [];
+  }
+
+  private async renderAnswerStep(ctx: any, notice?: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
+    const state = ctx.scene?.state as AnswerFlowState | undefined;
+    const task = state?.taskId ? await this.taskManager.getTask(state.taskId) : null;
+    const steps = task && state ? this.getAnswerSteps(task, state.kind) : [];
+    const step = state ? steps[state.index] : undefined;
+    if (!task || !state || !step) {
+      try { await ctx.scene.leave(); } catch {}
+      await ctx.reply(t('tasks.answer.unavailable')).catch(() => {});
+      return;
+    }
+
+    const title = localizeTask(task, this.i18n.localeOf(ctx)).title;
+    let text = `${t('tasks.answer.header', { kind: state.kind, title: this.escapeHtml(title) })}\n`;
+    text += `${t('tasks.answer.progress', { index: state.index + 1, total: steps.length })}\n\n`;
+    text += this.escapeHtml(step.text);
+    if (step.type === 'text') {
+      text += `\n\n${t('tasks.answer.reply_hint', { max: step.maxLength })}`;
+    }
+    if (notice) {
+      text += `\n\n${notice}`;
+    }
+
+    const keyboard: any[][] = step.options.map((option, i) => [{ text: option, callback_data: `tans_${state.index}_${i}` }]);
+    const controls: any[] = [];
+    if (!step.required) controls.push({ text: t('tasks.btn.skip'), callback_data: `tans_skip_${state.index}` });
+    controls.push({ text: t('tasks.btn.cancel'), callback_data: 'tans_cancel' });
+    keyboard.push(controls);
+
+    await MessageService.editOrReply(ctx, text, {
+      parse_mode: 'HTML',
+      link_preview_options: { is_disabled: true },
+      reply_markup: { inline_keyboard: keyboard }
+    });
+  }
+
+  private async handleAnswer(ctx: any, stepIndex: number, input: { option?: number; text?: string; skip?: boolean }): Promise<void> {
+    const state = ctx.scene?.state as AnswerFlowState | undefined;
+    if (!state?.taskId) {
+      try { await ctx.scene.leave(); } catch {}
+      return;
+    }
+    // Buttons from an earlier question stay on screen; ignore them
+    if (stepIndex !== state.index) return;
+
+    const task = await this.taskManager.getTask(state.taskId);
+    const steps = task ? this.getAnswerSteps(task, state.kind) : [];
+    const step = steps[state.index];
+    if (!task || !step) {
+      await this.renderAnswerStep(ctx);
+      return;
+    }
+
+    if (input.skip) {
+      if (step.required) return;
+      state.answers[step.id] = null;
+    } else if (step.type === 'choice') {
+      const option = input.option;
+      if (option === undefined || !step.options[option]) {
+        if (input.text !== undefined) await ctx.reply(this.i18n.translator(ctx)('tasks.answer.choose_option'));
+        return;
+      }
+      // Quizzes are scored by option index; surveys store the option text for export
+      state.answers[step.id] = state.kind === 'quiz' ? option : step.options[option];
+    } else {
+      const answer = (input.text ?? '').trim();
+      if (!answer) {
+        await ctx.reply(this.i18n.translator(ctx)('tasks.answer.text_required'));
+        return;
+      }
+      if (answer.length > step.maxLength) {
+        await ctx.reply(this.i18n.translator(ctx)('tasks.answer.too_long', { max: step.maxLength }));
+        return;
+      }
+      state.answers[step.id] = answer;
+    }
+
+    state.index++;
+    if (state.index < steps.length) {
+      await this.renderAnswerStep(ctx);
+      return;
+    }
+
+    try { await ctx.scene.leave(); } catch {}
+    await this.finishAnswerFlow(ctx, task, state);
+  }
+
+  private async finishAnswerFlow(ctx: any, task: Task, state: AnswerFlowState): Promise<void> {
+    const userId = ctx.from?.id?.toString();
+    if (!userId) return;
+    const t = this.i18n.translator(ctx);
+
+    try {
+      // The window may have closed or requirements changed while answering
+      const user = await this.storage.getUser(userId);
+      const eligibility = await this.eligibility.evaluate(task, user, this.getProfileOverrides(ctx));
+      if (!eligibility.eligible) {
+        await ctx.reply(`🔒 ${this.describeFailure(eligibility.failures[0], t)}`);
+        return;
+      }
+
+      if (state.kind === 'quiz') {
+        const quiz = parseQuizDefinition(task.metadata?.customData);
+        if (!quiz) {
+          await ctx.reply(t('tasks.answer.quiz_unavailable'));
+          return;
+        }
+        const score = scoreQuiz(quiz, state.answers as Record<string, number>);
+        const recorded = await this.responses.record({
+          taskId: task.id,
+          userId,
+          username: ctx.from?.username,
+          kind: 'quiz',
+          answers: state.answers,
+          score,
+          startedAt: state.startedAt
+        });
+        if (!recorded.success || !recorded.response) {
+          await ctx.reply(recorded.duplicate ? t('tasks.answer.duplicate') : t('tasks.answer.save_failed'));
+          return;
+        }
+
+        if (!score.passed) {
+          const left = Math.max(0, quiz.maxAttempts - recorded.response.attempt);
+          await ctx.reply(
+            t('tasks.answer.failed', {
+              correct: score.correct,
+              total: score.total,
+              score: Math.round(score.score * 100),
+              pass: Math.round(quiz.passThreshold * 100),
+              left
+            }),
+            { reply_markup: { inline_keyboard: [[{ text: t('tasks.btn.back'), callback_data: 'menu_tasks' }]] } }
+          );
+          return;
+        }
+
+        await this.completeAnsweredTask(ctx, task, userId, { responseId: recorded.response.id, score });
+        return;
+      }
+
+      const recorded = await this.responses.record({
+        taskId: task.id,
+        userId,
+        username: ctx.from?.username,
+        kind: 'survey',
+        answers: state.answers,
+        startedAt: state.startedAt
+      });
+      if (!recorded.success && !recorded.duplicate) {
+        await ctx.reply(t('tasks.answer.save_failed'));
+        return;
+      }
+      await this.completeAnsweredTask(ctx, task, userId, { responseId: recorded.response?.id });
+    } catch (error) {
+      this.logger.error('Error finishing quiz/survey task:', error);
+      await ctx.reply(t('tasks.answer.error')).catch(() => {});
+    }
+  }
+
+  private async completeAnsweredTask(ctx: any, task: Task, userId: string, verificationData: Record<string, any>): Promise<void> {
+    const t = this.i18n.translator(ctx);
+    const completed = await this.submissionService.completeTask(
+      userId,
+      ctx.from?.username,
+      task.id,
+      task.points,
+      task.type,
+      undefined,
+      verificationData
+    );
+
+    if (!completed) {
+      await ctx.reply(t('tasks.complete.failed'));
+      await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.complete.failed_toast'));
+      return;
+    }
+
+    const fallback = t(task.type === 'quiz' ? 'tasks.answer.quiz_passed' : 'tasks.answer.survey_done', { points: task.points });
+    await ctx.reply(`✅ ${task.metadata?.successMessage || fallback}`);
+    await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.complete.toast'));
+    try { (await import('../../shared')).UserValidationService.invalidateSessionUser(ctx); } catch {}
+    await this.showTasks(ctx);
+  }
+
+  private escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
   /**
    * Handle callback queries for task actions with enhanced session-based timeout
    */
@@ -721,7 +1189,7 @@ export class TaskHandler {
         async (ctx, session) => {
           await this.handleSessionAction(ctx, session, callbackData);
         },
-        '⏰ Task action has expired. Please try again.'
+        this.i18n.translator(ctx)('tasks.error.expired')
       );
       return;
     }
@@ -740,7 +1208,7 @@ export class TaskHandler {
   ): Promise<void> {
     const taskId = callbackData.params?.[0] || session.metadata?.taskId;
     if (!taskId) {
-      await CallbackQueryService.safeAnswerCallback(ctx, '❌ Invalid task data');
+      await CallbackQueryService.safeAnswerCallback(ctx, this.i18n.translator(ctx)('tasks.error.invalid_data'));
       return;
     }
 
@@ -765,7 +1233,7 @@ export class TaskHandler {
         
       default:
         this.logger.warn('Unknown session action:', callbackData.action);
-        await CallbackQueryService.safeAnswerCallback(ctx, '❌ Unknown action');
+        await CallbackQueryService.safeAnswerCallback(ctx, this.i18n.translator(ctx)('common.unknown_action'));
     }
   }
 
@@ -808,12 +1276,14 @@ export class TaskHandler {
    * Show completed tasks
    */
   private async showCompletedTasks(ctx: Context): Promise<void> {
+    const translate = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
 
       const userStats = await this.submissionService.getUserStats(userId);
-      const allTasks = await this.taskManager.getAllTasks();
+      const locale = this.i18n.localeOf(ctx);
+      const allTasks = (await this.taskManager.getAllTasks()).map(task => localizeTask(task, locale));
 
       const completedTypes: string[] = Array.isArray(userStats?.completedTasks) ? userStats!.completedTasks as string[] : [];
       const completedSet = new Set<string>(completedTypes);
@@ -821,7 +1291,7 @@ export class TaskHandler {
       // Build completed list by matching types to tasks
       const completedList: { title: string; points: number }[] = [];
       for (const t of allTasks) {
-        if (completedSet.has(t.type) && !t.isDaily) {
+        if (completedSet.has(getTaskCompletionKey(t)) && !t.isDaily) {
           completedList.push({ title: t.title, points: t.points });
         }
       }
@@ -831,7 +1301,7 @@ export class TaskHandler {
       if (dailyState.inCooldown) {
         const dailyTask = allTasks.find(tt => tt.type === 'daily_bonus');
         if (dailyTask) {
-          completedList.push({ title: `${dailyTask.title} (claimed)`, points: dailyTask.points });
+          completedList.push({ title: translate('tasks.completed.claimed', { title: dailyTask.title }), points: dailyTask.points });
         }
       }
 
@@ -846,16 +1316,14 @@ export class TaskHandler {
         }
       } catch {}
 
-      let text = `✅ <b>Completed Tasks</b>\n\n`;
+      let text = `${translate('tasks.completed.title')}\n\n`;
 
       if (completedList.length === 0) {
-        text += '😔 You haven\'t completed any tasks yet.\n\n';
-        text += 'Click "← Back to Tasks" to see available tasks.';
+        text += translate('tasks.completed.none');
       } else {
-        text += `🎉 You have completed <b>${completedList.length}</b> tasks!\n`;
-        text += `💰 Total points earned: <b>${userStats.totalPointsEarned}</b>\n\n`;
+        text += `${translate('tasks.completed.summary', { count: completedList.length, points: userStats.totalPointsEarned || 0 })}\n\n`;
         for (const item of completedList) {
-          text += `✅ ${item.title} - ${item.points} points\n`;
+          text += `${translate('tasks.completed.item', { title: item.title, points: item.points })}\n`;
         }
       }
 
@@ -863,14 +1331,14 @@ export class TaskHandler {
         parse_mode: 'HTML',
         reply_markup: {
           inline_keyboard: [[
-            { text: '← Back to Tasks', callback_data: 'menu_tasks' },
-            { text: '🏠 Main Menu', callback_data: 'menu_main' }
+            { text: translate('tasks.btn.back'), callback_data: 'menu_tasks' },
+            { text: translate('tasks.btn.main_menu'), callback_data: 'menu_main' }
           ]]
         }
       });
     } catch (error) {
       this.logger.error('Error showing completed tasks:', error);
-      await CallbackQueryService.safeAnswerCallback(ctx, '❌ Error loading completed tasks');
+      await CallbackQueryService.safeAnswerCallback(ctx, translate('tasks.error.completed'));
     }
   }
 
@@ -878,6 +1346,7 @@ export class TaskHandler {
    * Show pending tasks
    */
   private async showPendingTasks(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -885,55 +1354,131 @@ export class TaskHandler {
       const submissions = await this.submissionService.getUserSubmissions(userId);
       const pendingSubmissions = submissions.filter(s => s.status === 'pending' || s.status === 'under_review');
       
-      let text = `⏰ <b>Pending Tasks</b>\n\n`;
+      let text = `${t('tasks.pending.title')}\n\n`;
       
       if (pendingSubmissions.length === 0) {
-        text += '📋 No pending submissions.\n\n';
-        text += 'All your submissions have been processed or you haven\'t submitted any tasks yet.';
+        text += t('tasks.pending.none');
       } else {
-        text += `📋 You have <b>${pendingSubmissions.length}</b> pending submissions:\n\n`;
+        text += `${t('tasks.pending.summary', { count: pendingSubmissions.length })}\n\n`;
+        const locale = this.i18n.localeOf(ctx);
         
         for (const submission of pendingSubmissions) {
           const task = await this.taskManager.getTask(submission.taskId);
           if (task) {
-            const statusText = submission.status === 'pending' ? '⏳ Pending Review' : '👀 Under Review';
-            text += `${statusText} ${task.title}\n`;
-            text += `   Submitted: ${DateUtils.formatUserDate(DateUtils.parseUserDate(submission.submittedAt))}\n\n`;
+            const statusText = submission.status === 'pending' ? t('tasks.status.pending') : t('tasks.status.under_review');
+            text += `${statusText} ${localizeTask(task, locale).title}\n`;
+            text += `${t('tasks.pending.submitted', { date: DateUtils.formatUserDate(DateUtils.parseUserDate(submission.submittedAt)) })}\n\n`;
           }
         }
         
-        text += '⏱️ Please wait for admin review. You will be notified when your submissions are processed.';
+        text += t('tasks.pending.wait');
       }
 
       await MessageService.safeEditMessage(ctx, text, {
         parse_mode: 'HTML',
         reply_markup: {
           inline_keyboard: [[
-            { text: '← Back to Tasks', callback_data: 'menu_tasks' },
-            { text: '🏠 Main Menu', callback_data: 'menu_main' }
+            { text: t('tasks.btn.back'), callback_data: 'menu_tasks' },
+            { text: t('tasks.btn.main_menu'), callback_data: 'menu_main' }
           ]]
         }
       });
     } catch (error) {
       this.logger.error('Error showing pending tasks:', error);
-      await CallbackQueryService.safeAnswerCallback(ctx, '❌ Error loading pending tasks');
+      await CallbackQueryService.safeAnswerCallback(ctx, t('tasks.error.pending'));
     }
   }
 
   async handleDocumentUpload(ctx: Context): Promise<void> {
+    await this.enqueueProofUpload(ctx);
+  }
+
+  async handlePhotoUpload(ctx: Context): Promise<void> {
+    await this.enqueueProofUpload(ctx);
+  }
+
+  private async enqueueProofUpload(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id?.toString();
+    if (!userId) return;
+
+    const previous = this.proofUploadQueues.get(userId) || Promise.resolve();
+    const current = previous.then(() => this.handleProofUpload(ctx, userId));
+    this.proofUploadQueues.set(userId, current);
     try {
-      await ctx.reply('📄 Document uploads are not supported yet. Please submit text or links only.');
-    } catch (error) {
-      this.logger.error('Error handling document upload:', error);
+      await current;
+    } finally {
+      if (this.proofUploadQueues.get(userId) === current) {
+        this.proofUploadQueues.delete(userId);
+      }
     }
   }
 
-  async handlePhotoUpload(ctx: Context): Promise<void> {
+  /**
+   * Photo/document proof for the task the user is submitting (scene state or
+   * `awaitingTaskSubmission`). Later photos of the same album join the first one's submission.
+   */
+  private async handleProofUpload(ctx: Context, userId: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
-      await ctx.reply('📷 Photo uploads are not supported yet. Please submit text or links only.');
+      const message: any = ctx.message;
+      const mediaGroupId: string | undefined = message?.media_group_id;
+      const sceneState = (ctx as any).scene?.current?.id === 'task_submission' ? (ctx as any).scene?.state : undefined;
+      const user = await this.storage.getUser(userId);
+      const taskId: string | undefined = sceneState?.taskId || user?.awaitingTaskSubmission || undefined;
+
+      if (!taskId && !mediaGroupId) {
+        await ctx.reply(t('tasks.proof.no_task'));
+        return;
+      }
+
+      // Follow-up album photo after the first one already closed the submission flow
+      const task = taskId ? await this.taskManager.getTask(taskId) : null;
+      if (!task) {
+        if (mediaGroupId) await this.appendAlbumProof(ctx, userId, mediaGroupId);
+        return;
+      }
+      if (!await this.features.guard(ctx, 'tasks')) return;
+
+      const collected = await this.proofs.collectProof(ctx, userId);
+      if (!collected.proof) {
+        await ctx.reply(t(collected.error === 'too_large' ? 'tasks.proof.too_large' : 'tasks.proof.unsupported'));
+        return;
+      }
+
+      const result = await this.submissionService.submitTask(
+        userId,
+        ctx.from?.username,
+        taskId!,
+        String(message?.caption || '').trim(),
+        task,
+        { proofs: [collected.proof], mediaGroupId }
+      );
+      if (result.appended) {
+        // This update loaded its session before the first album photo left the scene
+        try { if ((ctx as any).scene?.current) await (ctx as any).scene.leave(); } catch {}
+        return;
+      }
+
+      await ctx.reply(this.describeSubmitResult(result, t), { link_preview_options: { is_disabled: true } });
+      if (!result.success) return;
+
+      try { await (ctx as any).scene?.leave(); } catch {}
+      await this.storage.updateUser(userId, { awaitingTaskSubmission: null }).catch(() => false);
+      try { (await import('../../shared')).UserValidationService.invalidateSessionUser(ctx); } catch {}
+      await this.showTasks(ctx);
     } catch (error) {
-      this.logger.error('Error handling photo upload:', error);
+      this.logger.error('Error handling proof upload:', error);
+      await ctx.reply(t('tasks.proof.error')).catch(() => {});
     }
   }
 
+  private async appendAlbumProof(ctx: Context, userId: string, mediaGroupId: string): Promise<void> {
+    const [submission] = await this.submissionService.findAlbumSubmission(userId, mediaGroupId);
+    if (!submission) return;
+    const task = await this.taskManager.getTask(submission.taskId);
+    const collected = await this.proofs.collectProof(ctx, userId);
+    if (!task || !collected.proof) return;
+    await this.submissionService.submitTask(userId, ctx.from?.username, task.id, '', task, { proofs: [collected.proof], mediaGroupId });
+  }
+
 }
\ No newline at end of file
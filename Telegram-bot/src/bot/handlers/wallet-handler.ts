@@ -1,5 +1,6 @@
 import { Context, Scenes } from 'telegraf';
 import { InlineKeyboardMarkup, InlineKeyboardButton } from 'telegraf/typings/core/types/typegram';
+import { ethers } from 'ethers';
 import { Logger } from '../../services/logger';
 import { StorageManager } from '../../storage';
 import { getConfig } from '../../config';
@@ -8,8 +9,15 @@ import { WalletConnectService } from '../../services/walletconnect.service';
 import { QRCodeService } from '../../services/qrcode.service';
 import { WalletAppsService } from '../../services/wallet-apps.service';
 import { TelegramNotifyService } from '../../services/telegram-notify.service';
-import { ethers } from 'ethers';
-import { ClaimService } from '../../services/claim.service';
+import { PointsLedgerService } from '../../services/ledger/points-ledger.service';
+import { WithdrawalService, WithdrawalDocument } from '../../services/withdrawal/withdrawal.service';
+import { AirdropSnapshotService, AirdropAllocation } from '../../services/airdrop/airdrop-snapshot.service';
+import { WalletOwnershipService, WalletProofResult } from '../../services/wallet-ownership/wallet-ownership.service';
+import { getProofChain, looksLikeSignature } from '../../services/wallet-ownership/wallet-proof';
+import { ChainRegistryService, PayoutTarget } from '../../services/chains/chain-registry.service';
+import { sessionChainIds } from '../../services/chains/chain-rules';
+import { FeatureFlagService } from '../../services/maintenance/feature-flag.service';
+import { LocalizationService, Translator } from '../../services/i18n/localization.service';
 import { 
   UserValidationService, 
   CallbackQueryService, 
@@ -51,7 +59,6 @@ import {
   parseRecipientInput,
   formatPoints,
   getTimeUntilNextTransfer,
-  createTransferNotificationMessage,
   isValidUsername
 } from '../../utils/transfer-utils';
 
@@ -62,6 +69,8 @@ export class WalletHandler {
   private readonly walletConnectService = WalletConnectService.getInstance();
   private readonly qrCodeService = QRCodeService.getInstance();
   private readonly walletAppsService = WalletAppsService.getInstance();
+  private readonly features = FeatureFlagService.getInstance();
+  private readonly i18n = LocalizationService.getInstance();
 
   /**
    * Initialize the wallet handler
@@ -104,6 +113,7 @@ export class WalletHandler {
    * Show wallet information and options
    */
   async showWallet(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       try { (await import('../../shared')).UserValidationService.invalidateSessionUser(ctx); } catch {}
       const user = await UserValidationService.validateUser(ctx);
@@ -130,59 +140,34 @@ export class WalletHandler {
       let walletText: string;
 
       if (user.walletAddress) {
-        const statusLine = sessionStatus === 'active'
-          ? '🟢 Status: Active session'
-          : sessionStatus === 'expired'
-            ? '🟡 Status: Session expired – please reconnect'
-            : '🟦 Status: Saved wallet (no active session)';
-        walletText = `
-👛 <b>Your Wallet</b>
-
-✅ <b>Connected Wallet:</b>
-📍 Address: <code>${this.maskWalletAddress(user.walletAddress)}</code>
-🔗 Type: ${this.detectWalletType(user.walletAddress)}
-🌐 Connection: ${connectionMethod}
-${statusLine}
-
-💰 <b>Points Available:</b>
-Current Balance: <b>${user.points?.toLocaleString() || '0'}</b>
-Minimum Withdrawal: <b>${this.config.points.minWithdraw}</b>
-
-📊 <b>Withdrawal Status:</b>
-${(user.points || 0) >= this.config.points.minWithdraw
-  ? '✅ You can withdraw your points!'
-  : `❌ Need ${this.config.points.minWithdraw - (user.points || 0)} more points to withdraw`}
-
-🎯 <b>Next Steps:</b>
-• Complete more tasks to earn points
-• Refer friends for bonus points
-• Watch for withdrawal announcements
-        `.trim();
+        const statusLine = t(`wallet.status.${sessionStatus === 'none' ? 'saved' : sessionStatus}`);
+        const ownershipLine = WalletOwnershipService.getInstance().isVerified(user)
+          ? t('wallet.ownership.verified') + '\n'
+          : getProofChain(user.walletAddress)
+            ? t('wallet.ownership.unverified') + '\n'
+            : '';
+        const missing = this.config.points.minWithdraw - (user.points || 0);
+        walletText = t('wallet.connected.text', {
+          address: this.maskWalletAddress(user.walletAddress),
+          type: this.detectWalletType(user.walletAddress),
+          method: connectionMethod,
+          ownership: ownershipLine,
+          status: statusLine,
+          balance: user.points || 0,
+          minimum: this.config.points.minWithdraw,
+          withdrawal: missing <= 0 ? t('wallet.can_withdraw') : t('wallet.need_more', { missing })
+        });
       } else {
-        walletText = `
-👛 <b>Wallet Connection</b>
-
-❌ <b>No Wallet Connected</b>
-
-🔗 Connect your wallet to:
-• Withdraw earned tokens
-• Receive future airdrop distributions
-• Access token claiming features
-• Secure your rewards
-
-💡 <b>Connection Methods:</b>
-• <b>Wallet Apps:</b> Direct connection via popular wallets
-• <b>QR Code:</b> Universal connection method
-
-🔒 <b>Security:</b>
-Powered by WalletConnect v2 protocol. Your private keys never leave your wallet. We only store your wallet address for reward distribution.
-        `.trim();
+        walletText = t('wallet.none.text');
       }
 
-      const baseKeyboard = this.getWalletKeyboard(user) as any;
-      const keyboard = sessionStatus === 'expired'
-        ? { inline_keyboard: [[{ text: 'Reconnect Wallet', callback_data: 'wallet_connect' }], ...baseKeyboard.inline_keyboard] }
+      const baseKeyboard = this.getWalletKeyboard(user, t) as any;
+      let keyboard = sessionStatus === 'expired'
+        ? { inline_keyboard: [[{ text: t('wallet.btn.reconnect'), callback_data: 'wallet_connect' }], ...baseKeyboard.inline_keyboard] }
         : baseKeyboard;
+      if (user.walletAddress && getProofChain(user.walletAddress) && !WalletOwnershipService.getInstance().isVerified(user)) {
+        keyboard = { inline_keyboard: [[{ text: t('wallet.btn.verify'), callback_data: 'wallet_verify' }], ...keyboard.inline_keyboard] };
+      }
 
       await MessageService.editOrReply(ctx, walletText, {
         reply_markup: keyboard,
@@ -191,7 +176,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
 
     } catch (error) {
       this.logger.error('Error showing wallet:', error);
-      await ctx.reply('❌ Error loading wallet information.');
+      await ctx.reply(t('wallet.error.loading'));
     }
   }
 
@@ -199,6 +184,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
    * Start wallet connection process
    */
   async startWalletConnection(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -213,15 +199,13 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
 
       if (user.walletAddress) {
         await ctx.reply(
-          '👛 You already have a connected wallet.\n\n' +
-          `Current: <code>${this.maskWalletAddress(user.walletAddress)}</code>\n\n` +
-          'Only your first wallet is allowed for security.\nYou can reconnect your session if it expired.',
+          t('wallet.connect.already', { address: this.maskWalletAddress(user.walletAddress) }),
           {
             parse_mode: 'HTML',
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Reconnect Wallet', callback_data: 'wallet_connect' }],
-                [{ text: 'Back', callback_data: 'wallet_show' }]
+                [{ text: t('wallet.btn.reconnect'), callback_data: 'wallet_connect' }],
+                [{ text: t('common.back'), callback_data: 'wallet_show' }]
               ]
             }
           }
@@ -234,7 +218,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
 
     } catch (error) {
       this.logger.error('Error starting wallet connection:', error);
-      await ctx.reply('❌ Error starting wallet connection.');
+      await ctx.reply(t('wallet.error.connect_start'));
     }
   }
 
@@ -242,6 +226,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
    * Show wallet connection options with WalletConnect v2
    */
   async showWalletConnectionOptions(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -251,12 +236,11 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       
       if (enabledWallets.length === 0) {
         await ctx.reply(
-          '❌ No wallet apps are currently enabled.\n\n' +
-          'Please contact support for assistance.',
+          t('wallet.connect.no_apps'),
           {
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Back', callback_data: 'wallet_show' }]
+                [{ text: t('common.back'), callback_data: 'wallet_show' }]
               ]
             }
           }
@@ -264,20 +248,6 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         return;
       }
 
-      // Check if user is trying to reconnect (has previousWallet but no current walletAddress)
-      const currentUser = await this.storage.getUser(userId);
-      if (currentUser && currentUser.previousWallet && !currentUser.walletAddress) {
-        // User is reconnecting after disconnect - remind them about wallet lock
-        const connectionText = 
-          '🔗 <b>Reconnect Your Wallet</b>\n\n' +
-          `🎯 <b>Your Registered Wallet:</b>\n<code>${this.maskWalletAddress(currentUser.previousWallet)}</code>\n\n` +
-          '🔒 <b>Security Note:</b>\n' +
-          'You can only reconnect your original wallet address. This policy ensures fair distribution and prevents abuse.\n\n' +
-          '💡 If you lost access to your original wallet, please contact support.';
-        
-        // Still proceed with connection request but user is warned
-      }
-      
       // Generate WalletConnect v2 connection request
       const wcRequest = await this.walletConnectService.createConnectionRequest(
         userId
@@ -288,15 +258,11 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         const currentUser = await this.storage.getUser(userId);
         if (currentUser && currentUser.walletAddress) {
           await ctx.reply(
-            '🔒 <b>Wallet Already Connected</b>\n\n' +
-            '✅ You already have a wallet connected to your account.\n' +
-            `💳 Current Wallet: <code>${currentUser.walletAddress}</code>\n\n` +
-            '⚠️ <b>Security Note:</b> Only one wallet per user is allowed to prevent abuse.\n\n' +
-            '💡 If you need to change wallets, please contact support.',
+            t('wallet.connect.locked', { address: currentUser.walletAddress }),
             {
               reply_markup: {
                 inline_keyboard: [
-                  [{ text: 'Back to Wallet', callback_data: 'wallet_show' }]
+                  [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
                 ]
               },
               parse_mode: 'HTML'
@@ -310,18 +276,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       const connectionTimeoutMinutes = Math.floor(this.config.wallet.walletConnect.approvalTimeoutMs / 60000);
       const connectionExpiryMinutes = Math.floor(this.config.wallet.walletConnect.connectionExpiryMs / 60000);
       
-      const connectionText = 
-        '👛 <b>Connect Your Wallet</b>\n\n' +
-        '🔗 Choose your preferred wallet app:\n\n' +
-        '📱 <b>Mobile:</b> Tap wallet button to open app\n' +
-        '💻 <b>Desktop:</b> Use QR code to scan with mobile wallet\n\n' +
-        '⚡ <b>Benefits:</b>\n' +
-        '• Receive airdrop rewards\n' +
-        '• Access exclusive wallet-only tasks\n' +
-        '• Increase your security score\n\n' +
-        `⏰ <b>Important:</b> You have ${connectionTimeoutMinutes} minutes to approve the connection in your wallet.\n` +
-        `🔗 Connection expires in ${connectionExpiryMinutes} minutes.\n\n` +
-        '🔒 Secured by WalletConnect v2 protocol.';
+      const connectionText = t('wallet.connect.text', { approveMinutes: connectionTimeoutMinutes, expiryMinutes: connectionExpiryMinutes });
 
       // Create dynamic keyboard with wallet app URL buttons
       const keyboard: any[][] = [];
@@ -345,12 +300,16 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
 
       // Add QR code option (callback since it generates image)
       keyboard.push([
-        { text: 'Show QR Code', callback_data: `wallet_qr_${wcRequest.id}` }
+        { text: t('wallet.btn.show_qr'), callback_data: `wallet_qr_${wcRequest.id}` }
       ]);
 
 
+      keyboard.push([
+        { text: t('wallet.btn.manual'), callback_data: 'wallet_manual' }
+      ]);
+
       // Add back button
-      keyboard.push([{ text: 'Back', callback_data: 'wallet_show' }]);
+      keyboard.push([{ text: t('common.back'), callback_data: 'wallet_show' }]);
 
       if (ctx.callbackQuery) {
         try {
@@ -378,7 +337,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
 
     } catch (error) {
       this.logger.error('Error showing wallet connection options:', error);
-      await ctx.reply('❌ Error loading wallet options.');
+      await ctx.reply(t('wallet.error.options'));
     }
   }
 
@@ -386,16 +345,17 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
    * Handle wallet app selection
    */
   async handleWalletAppConnection(ctx: Context, walletAppId: WalletAppId): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
 
-      await CallbackQueryService.safeAnswerCallback(ctx, '🔄 Creating connection...');
+      await CallbackQueryService.safeAnswerCallback(ctx, t('wallet.toast.creating_connection'));
 
       // Get wallet app info
       const walletApp = this.walletAppsService.getWalletApp(walletAppId);
       if (!walletApp) {
-        await ctx.reply('❌ Wallet app not found.');
+        await ctx.reply(t('wallet.error.app_not_found'));
         return;
       }
 
@@ -408,24 +368,19 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       const connectionTimeoutMinutes = Math.floor(this.config.wallet.walletConnect.approvalTimeoutMs / 60000);
       const connectionExpiryMinutes = Math.floor(this.config.wallet.walletConnect.connectionExpiryMs / 60000);
       
-      const connectionText = 
-        `🔗 <b>Connect ${walletApp.name}</b>\n\n` +
-        `${walletApp.icon} <b>${walletApp.name}</b>\n` +
-        `${walletApp.description}\n\n` +
-        '📱 <b>Instructions:</b>\n' +
-        '1. Click "Open in Wallet" button below\n' +
-        '2. Approve the connection in your wallet\n' +
-        '3. Return to this chat for confirmation\n\n' +
-        `⏰ <b>Time Limits:</b>\n` +
-        `• Approve within ${connectionTimeoutMinutes} minutes\n` +
-        `• Connection expires in ${connectionExpiryMinutes} minutes\n\n` +
-        '🔒 Your private keys never leave your wallet';
+      const connectionText = t('wallet.connect.app_text', {
+        name: walletApp.name,
+        icon: walletApp.icon,
+        description: walletApp.description,
+        approveMinutes: connectionTimeoutMinutes,
+        expiryMinutes: connectionExpiryMinutes
+      });
 
       const keyboard: any[][] = [
-        [{ text: `Open in ${walletApp.name}`, url: deepLink }],
-        [{ text: 'Show QR Code', callback_data: `wallet_qr_${wcRequest.id}` }],
-        [{ text: 'Refresh', callback_data: `wallet_app_${walletAppId}` }],
-        [{ text: 'Back', callback_data: 'wallet_connect' }]
+        [{ text: t('wallet.btn.open_in', { name: walletApp.name }), url: deepLink }],
+        [{ text: t('wallet.btn.show_qr'), callback_data: `wallet_qr_${wcRequest.id}` }],
+        [{ text: t('common.refresh'), callback_data: `wallet_app_${walletAppId}` }],
+        [{ text: t('common.back'), callback_data: 'wallet_connect' }]
       ];
 
       await ctx.editMessageText(connectionText, {
@@ -441,7 +396,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
 
     } catch (error) {
       this.logger.error('Error handling wallet app connection:', error);
-      await ctx.reply('❌ Error creating wallet connection. Please try again.');
+      await ctx.reply(t('wallet.error.connect_create'));
     }
   }
 
@@ -449,11 +404,12 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
    * Show QR code for wallet connection
    */
   async showWalletQRCode(ctx: Context, requestId?: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
 
-      await CallbackQueryService.safeAnswerCallback(ctx, '📱 Generating QR code...');
+      await CallbackQueryService.safeAnswerCallback(ctx, t('wallet.toast.generating_qr'));
 
       let wcRequest: WalletConnectRequest;
 
@@ -461,7 +417,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         // Use existing request
         const existingRequest = await this.storage.getWalletConnectRequest(requestId);
         if (!existingRequest) {
-          await ctx.reply('❌ Connection request not found or expired.');
+          await ctx.reply(t('wallet.error.request_not_found'));
           return;
         }
         wcRequest = existingRequest;
@@ -472,13 +428,13 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         } catch (createError) {
           this.logger.error('Failed to create WalletConnect request:', createError);
           await ctx.reply(
-            '❌ Failed to create connection request. Please try again or use wallet apps.',
+            t('wallet.qr.request_failed'),
             {
               reply_markup: {
                 inline_keyboard: [
-                  [{ text: 'Try Again', callback_data: 'wallet_qr_code' }],
-                  [{ text: 'Try Wallet Apps', callback_data: 'wallet_connect' }],
-                  [{ text: 'Back', callback_data: 'wallet_show' }]
+                  [{ text: t('wallet.btn.try_again'), callback_data: 'wallet_qr_code' }],
+                  [{ text: t('wallet.btn.try_apps'), callback_data: 'wallet_connect' }],
+                  [{ text: t('common.back'), callback_data: 'wallet_show' }]
                 ]
               }
             }
@@ -490,7 +446,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       // Check if request is still valid
       const reqExpiry = (wcRequest as any).expiresAt ? new Date((wcRequest as any).expiresAt).getTime() : wcRequest.expiryTimestamp;
       if (reqExpiry < Date.now()) {
-        await ctx.reply('❌ Connection request expired. Please try again.');
+        await ctx.reply(t('wallet.error.request_expired'));
         return;
       }
 
@@ -515,23 +471,14 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         this.logger.error('QR code generation failed:', qrError);
         // If QR generation fails, show connection string instead
         await ctx.editMessageText(
-          '📱 <b>Wallet Connection</b>\n\n' +
-          '⚠️ QR code generation failed. Use the connection string instead:\n\n' +
-          '🔗 <b>Connection String:</b>\n' +
-          `<code>${wcRequest.uri}</code>\n\n` +
-          '📷 <b>Instructions:</b>\n' +
-          '1. Copy the connection string above\n' +
-          '2. Open your wallet app\n' +
-          '3. Find "WalletConnect" section\n' +
-          '4. Paste the connection string\n\n' +
-          '🔒 Secured by WalletConnect v2 protocol',
+          t('wallet.qr.generation_failed', { uri: wcRequest.uri }),
           {
             parse_mode: 'HTML',
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Try Again', callback_data: 'wallet_qr_code' }],
-                [{ text: 'Try Wallet Apps', callback_data: 'wallet_connect' }],
-                [{ text: 'Back', callback_data: 'wallet_connect' }]
+                [{ text: t('wallet.btn.try_again'), callback_data: 'wallet_qr_code' }],
+                [{ text: t('wallet.btn.try_apps'), callback_data: 'wallet_connect' }],
+                [{ text: t('common.back'), callback_data: 'wallet_connect' }]
               ]
             }
           }
@@ -542,46 +489,19 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       const connectionTimeoutMinutes = Math.floor(this.config.wallet.walletConnect.approvalTimeoutMs / 60000);
       const qrExpirySeconds = this.config.wallet.qrCode.expirySeconds;
       
-      const qrText = 
-        '📱 <b>QR Code Wallet Connection</b>\n\n' +
-        '📷 <b>Instructions:</b>\n' +
-        '1. Open your wallet app\n' +
-        '2. Find "WalletConnect" or "Scan QR Code"\n' +
-        '3. Point your camera at the QR code above\n' +
-        '4. Approve the connection request\n\n' +
-        `⏰ <b>Time Limits:</b>\n` +
-        `• QR Code expires in ${qrExpirySeconds} seconds\n` +
-        `• Approve within ${connectionTimeoutMinutes} minutes\n\n` +
-        '🔒 Secured by WalletConnect v2 protocol\n\n' +
-        '💡 <b>Supported Wallets:</b>\n' +
-        'MetaMask, Trust Wallet, Coinbase Wallet,\n' +
-        'Rainbow, and many more...';
+      const qrText = t('wallet.qr.caption', { seconds: qrExpirySeconds, approveMinutes: connectionTimeoutMinutes });
 
       const keyboard: any[][] = [
-        [{ text: 'Generate New QR', callback_data: 'wallet_qr_code' }],
-        [{ text: 'Try Wallet Apps', callback_data: 'wallet_connect' }],
-        [{ text: 'Back', callback_data: 'wallet_connect' }]
+        [{ text: t('wallet.btn.new_qr'), callback_data: 'wallet_qr_code' }],
+        [{ text: t('wallet.btn.try_apps'), callback_data: 'wallet_connect' }],
+        [{ text: t('common.back'), callback_data: 'wallet_connect' }]
       ];
 
       // Alternative approach - show QR instructions with deep link
-      const qrInstructionsText = 
-        '📱 <b>QR Code Wallet Connection</b>\n\n' +
-        '📷 <b>Instructions:</b>\n' +
-        '1. Open your wallet app\n' +
-        '2. Find "WalletConnect" or "Scan QR Code"\n' +
-        '3. Scan QR code or use the connection string below\n\n' +
-        '🔗 <b>Connection String:</b>\n' +
-        `<code>${wcRequest.uri}</code>\n\n` +
-        `⏰ <b>Time Limits:</b>\n` +
-        `• QR Code expires in ${qrExpirySeconds} seconds\n` +
-        `• Approve within ${connectionTimeoutMinutes} minutes\n\n` +
-        '💡 <b>Alternative Methods:</b>\n' +
-        '• Copy the connection string above\n' +
-        '• Paste it in your wallet\'s WalletConnect section\n\n' +
-        '🔒 Secured by WalletConnect v2 protocol';
+      const qrInstructionsText = t('wallet.qr.instructions', { uri: wcRequest.uri, seconds: qrExpirySeconds, approveMinutes: connectionTimeoutMinutes });
       
       const enhancedKeyboard: any[][] = [
-        [{ text: 'Copy Connection String', callback_data: 'wallet_copy_uri' }],
+        [{ text: t('wallet.btn.copy_uri'), callback_data: 'wallet_copy_uri' }],
         ...keyboard
       ];
       
@@ -613,7 +533,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
 
     } catch (error) {
       this.logger.error('Error showing wallet QR code:', error);
-      await ctx.reply('❌ Error generating QR code. Please try again.');
+      await ctx.reply(t('wallet.error.qr'));
     }
   }
 
@@ -621,12 +541,12 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
    * Show more wallet apps
    */
   async showMoreWalletApps(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const enabledWallets = this.walletAppsService.getEnabledWalletApps();
       
       const moreWalletsText = 
-        '📱 <b>All Available Wallets</b>\n\n' +
-        'Choose your preferred wallet app:\n\n' +
+        t('wallet.connect.all_apps') + '\n\n' +
         enabledWallets.map(wallet => 
           `${wallet.icon} <b>${wallet.name}</b>\n${wallet.description}\n`
         ).join('\n');
@@ -641,7 +561,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         }]);
       }
 
-      keyboard.push([{ text: 'Back', callback_data: 'wallet_connect' }]);
+      keyboard.push([{ text: t('common.back'), callback_data: 'wallet_connect' }]);
 
       await ctx.editMessageText(moreWalletsText, {
         reply_markup: { inline_keyboard: keyboard },
@@ -650,7 +570,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
 
     } catch (error) {
       this.logger.error('Error showing more wallet apps:', error);
-      await ctx.reply('❌ Error loading wallet apps.');
+      await ctx.reply(t('wallet.error.apps'));
     }
   }
 
@@ -658,6 +578,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
    * Handle manual wallet connection
    */
   async processManualWalletConnection(ctx: Context, walletAddress: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -665,16 +586,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       // Validate wallet address
       const isValid = this.isValidWalletAddress(walletAddress);
       if (!isValid) {
-        await ctx.reply(
-          '❌ <b>Invalid Wallet Address</b>\n\n' +
-          'Please check your address and try again.\n\n' +
-          '✅ <b>Supported formats:</b>\n' +
-          '• Ethereum: 0x...\n' +
-          '• Bitcoin: 1..., 3..., or bc1...\n' +
-          '• Solana: Base58 format\n' +
-          '• TON: EQ... or 0:...',
-          { parse_mode: 'HTML' }
-        );
+        await ctx.reply(t('wallet.manual.invalid'), { parse_mode: 'HTML' });
         return;
       }
 
@@ -686,20 +598,17 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       const existingUser = await this.storage.getUserByWallet(walletAddress);
       if (existingUser && existingUser.telegramId !== userId) {
         await ctx.reply(
-          '😼 <b>We caught you — nice try!</b>\n\n' +
-          `This wallet <code>${this.maskWalletAddress(walletAddress)}</code> is already connected to another account.\n` +
-          'For fairness and security, each wallet can be linked to only one account.\n' +
-          'If you attempt to bypass this rule, we may block both accounts.',
+          t('wallet.manual.taken', { address: this.maskWalletAddress(walletAddress) }),
           {
             parse_mode: 'HTML',
             disable_web_page_preview: true,
             reply_markup: {
               inline_keyboard: [
                 [
-                  { text: 'View Wallet', callback_data: 'wallet_show' },
-                  { text: 'Main Menu', callback_data: 'menu_main' }
+                  { text: t('withdrawal.btn.view_wallet'), callback_data: 'wallet_show' },
+                  { text: t('common.main_menu'), callback_data: 'menu_main' }
                 ],
-                [ { text: 'Get Help', callback_data: 'menu_help' } ]
+                [ { text: t('wallet.btn.get_help'), callback_data: 'menu_help' } ]
               ]
             }
           } as any
@@ -717,15 +626,13 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       if (currentUser) {
         if (currentUser.previousWallet && currentUser.previousWallet !== walletAddress) {
           await ctx.reply(
-            '🔒 <b>Wallet Locked</b>\n\n' +
-            'Only your first connected wallet is allowed for security.\n' +
-            `Original: <code>${this.maskWalletAddress(currentUser.previousWallet)}</code>`,
+            t('wallet.manual.locked', { address: this.maskWalletAddress(currentUser.previousWallet) }),
             {
               parse_mode: 'HTML',
               reply_markup: {
                 inline_keyboard: [
-                  [{ text: 'Reconnect Wallet', callback_data: 'wallet_connect' }],
-                  [{ text: 'Back', callback_data: 'wallet_show' }]
+                  [{ text: t('wallet.btn.reconnect'), callback_data: 'wallet_connect' }],
+                  [{ text: t('common.back'), callback_data: 'wallet_show' }]
                 ]
               }
             } as any
@@ -752,9 +659,10 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         connectedAt: new Date(),
         lastActiveAt: new Date().toISOString(),
         isActive: true,
+        verified: false,
         metadata: {
           connectionMethod: 'manual_entry',
-          verificationStatus: 'verified'
+          verificationStatus: 'pending'
         }
       };
 
@@ -765,47 +673,193 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       // Invalidate session cache so subsequent views reflect new walletAddress
       try { (await import('../../shared')).UserValidationService.invalidateSessionUser(ctx); } catch {}
 
+      const provable = !!getProofChain(walletAddress);
       await ctx.reply(
-        '✅ <b>Wallet Connected Successfully!</b>\n\n' +
-        `👛 Address: <code>${this.maskWalletAddress(walletAddress)}</code>\n` +
-        `🔗 Type: ${this.getWalletTypeName(connection.walletType)}\n` +
-        `🎉 You can now access wallet-exclusive features!\n\n` +
-        'Your wallet is now connected securely!',
+        t('wallet.manual.connected', {
+          address: this.maskWalletAddress(walletAddress),
+          type: this.getWalletTypeName(connection.walletType),
+          provable: provable ? 'yes' : 'no'
+        }),
         { parse_mode: 'HTML' }
       );
 
-      // Show wallet summary immediately
-      await this.showWallet(ctx);
+      if (provable) {
+        await this.startWalletVerification(ctx);
+      } else {
+        // Show wallet summary immediately
+        await this.showWallet(ctx);
+      }
 
     } catch (error) {
       this.logger.error('Error processing manual wallet connection:', error);
-      await ctx.reply('❌ Error connecting wallet. Please try again.');
+      await ctx.reply(t('wallet.error.connect'));
+    }
+  }
+
+  /**
+   * Ask for a wallet address typed into the chat
+   */
+  async startManualWalletEntry(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
+    const userId = ctx.from?.id?.toString();
+    if (!userId) return;
+
+    await this.storage.set('wallet_input_sessions', {
+      userId,
+      step: 'address',
+      expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString()
+    }, userId);
+
+    await MessageService.editOrReply(ctx,
+      t('wallet.manual.prompt'),
+      {
+        parse_mode: 'HTML',
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: t('common.cancel'), callback_data: 'wallet_show' }]
+          ]
+        }
+      }
+    );
+  }
+
+  /**
+   * Issue an ownership challenge for the linked wallet and show how to sign it
+   */
+  async startWalletVerification(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
+    try {
+      const userId = ctx.from?.id?.toString();
+      if (!userId) return;
+
+      const user = await this.storage.getUser(userId);
+      if (!user?.walletAddress) {
+        await ctx.reply(t('wallet.verify.connect_first'), {
+          reply_markup: { inline_keyboard: [[{ text: t('wallet.btn.connect'), callback_data: 'wallet_connect' }]] }
+        });
+        return;
+      }
+
+      const ownership = WalletOwnershipService.getInstance();
+      if (ownership.isVerified(user)) {
+        await MessageService.editOrReply(ctx, t('wallet.verify.already'), {
+          parse_mode: 'HTML',
+          reply_markup: { inline_keyboard: [[{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]] }
+        });
+        return;
+      }
+
+      const result = await ownership.createChallenge(userId, user.walletAddress);
+      if (!result.success || !result.challenge) {
+        await MessageService.editOrReply(ctx, `❌ ${result.message || t('wallet.verify.start_failed')}`, {
+          reply_markup: { inline_keyboard: [[{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]] }
+        });
+        return;
+      }
+
+      const { challenge } = result;
+      const keyboard: InlineKeyboardButton[][] = [];
+      if (challenge.chain === 'evm' && await this.hasActiveSessionFor(userId, challenge.address)) {
+        keyboard.push([{ text: t('wallet.btn.sign_in_app'), callback_data: 'wallet_verify_wc' }]);
+      }
+      keyboard.push([{ text: t('wallet.btn.new_message'), callback_data: 'wallet_verify' }]);
+      keyboard.push([{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]);
+
+      await MessageService.editOrReply(ctx,
+        t('wallet.verify.challenge', {
+          address: this.maskWalletAddress(challenge.address),
+          message: this.escapeHtml(challenge.message),
+          chain: challenge.chain === 'evm' ? 'evm' : 'other',
+          minutes: this.config.wallet.ownershipProof.challengeTtlMinutes
+        }),
+        { parse_mode: 'HTML', reply_markup: { inline_keyboard: keyboard } }
+      );
+    } catch (error) {
+      this.logger.error('Error starting wallet verification:', error);
+      await ctx.reply(t('wallet.error.verify_start'));
     }
   }
 
+  /**
+   * Send the open challenge to the wallet over WalletConnect
+   */
+  async verifyWithWalletConnect(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
+    try {
+      const userId = ctx.from?.id?.toString();
+      if (!userId) return;
+
+      await MessageService.editOrReply(ctx, t('wallet.verify.check_app'), {});
+      const result = await WalletOwnershipService.getInstance().requestWalletConnectSignature(userId);
+      await this.replyWithProofResult(ctx, result);
+    } catch (error) {
+      this.logger.error('Error verifying wallet over WalletConnect:', error);
+      await ctx.reply(t('wallet.error.verify'));
+    }
+  }
+
+  private async replyWithProofResult(ctx: Context, result: WalletProofResult): Promise<void> {
+    const t = this.i18n.translator(ctx);
+    if (result.success) {
+      try { (await import('../../shared')).UserValidationService.invalidateSessionUser(ctx); } catch {}
+      await ctx.reply(
+        t('wallet.verify.success', { address: this.maskWalletAddress(result.verification?.address || '') }),
+        {
+          parse_mode: 'HTML',
+          reply_markup: { inline_keyboard: [[{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]] }
+        }
+      );
+      return;
+    }
+
+    const retry = result.error === 'invalid_signature' || result.error === 'signature_rejected' || result.error === 'key_unavailable';
+    await ctx.reply(t('wallet.verify.failed', { reason: this.escapeHtml(result.message || t('wallet.verify.try_again')) }), {
+      parse_mode: 'HTML',
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: t(retry ? 'wallet.btn.show_message_again' : 'wallet.btn.start_again'), callback_data: 'wallet_verify' }],
+          [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
+        ]
+      }
+    });
+  }
+
+  private async hasActiveSessionFor(userId: string, address: string): Promise<boolean> {
+    const connections = await this.storage.getWalletConnections(userId);
+    return connections.some(c =>
+      c.isActive && c.walletConnectSession && c.walletAddress?.toLowerCase() === address.toLowerCase() &&
+      this.walletConnectService.isSessionActive(c.walletConnectSession.topic)
+    );
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
   /**
    * Handle withdrawal options
    */
   async showWithdrawal(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
+      if (!await this.features.guard(ctx, 'withdrawals')) return;
 
       const user = await this.storage.getUser(userId);
       if (!user) {
-        await ctx.reply('❌ User not found.');
+        await ctx.reply(t('common.user_not_found'));
         return;
       }
 
       if (!user.walletAddress) {
         await ctx.reply(
-          '❌ You need to connect a wallet before withdrawing.\n\n' +
-          'Use the wallet menu to connect your wallet first.',
+          t('wallet.withdraw.no_wallet'),
           {
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Connect Wallet', callback_data: 'wallet_connect' }],
-                [{ text: 'Back', callback_data: 'wallet_show' }]
+                [{ text: t('wallet.btn.connect'), callback_data: 'wallet_connect' }],
+                [{ text: t('common.back'), callback_data: 'wallet_show' }]
               ]
             }
           }
@@ -822,17 +876,14 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
           
           if (!isJoined) {
             await ctx.reply(
-              '❌ <b>Channel Join Required</b>\n\n' +
-              'You must join our Telegram channel before withdrawing tokens.\n\n' +
-              `Please join: ${channelId}\n\n` +
-              'After joining, try again.',
+              t('wallet.withdraw.join_required', { channel: channelId }),
               {
                 parse_mode: 'HTML',
                 reply_markup: {
                   inline_keyboard: [
-                    [{ text: 'Join Channel', url: `https://t.me/${channelId.replace('@', '')}` }],
-                    [{ text: 'I Joined - Check Again', callback_data: 'wallet_withdraw' }],
-                    [{ text: 'Back', callback_data: 'wallet_show' }]
+                    [{ text: t('wallet.btn.join_channel'), url: `https://t.me/${channelId.replace('@', '')}` }],
+                    [{ text: t('wallet.btn.joined_check'), callback_data: 'wallet_withdraw' }],
+                    [{ text: t('common.back'), callback_data: 'wallet_show' }]
                   ]
                 }
               }
@@ -845,8 +896,13 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         }
       }
 
-      const withdrawalText = this.getWithdrawalText(user);
-      const keyboard = this.getWithdrawalKeyboard(user);
+      const allocation = this.config.wallet.withdrawMode === 'merkle'
+        ? await AirdropSnapshotService.getInstance().getClaimableAllocation(userId)
+        : null;
+      const withdrawalText = this.config.wallet.withdrawMode === 'merkle'
+        ? this.getAirdropClaimText(user, allocation, t)
+        : this.getWithdrawalText(user, t);
+      const keyboard = this.getWithdrawalKeyboard(user, t, allocation);
 
       if (ctx.callbackQuery) {
         await ctx.editMessageText(withdrawalText, {
@@ -862,7 +918,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
 
     } catch (error) {
       this.logger.error('Error showing withdrawal:', error);
-      await ctx.reply('❌ Error loading withdrawal information.');
+      await ctx.reply(t('wallet.error.withdrawal'));
     }
   }
 
@@ -927,6 +983,18 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       await CallbackQueryService.handleDeferredNavigation(ctx, '', async (ctx) => {
         await this.showMoreWalletApps(ctx);
       }, true);
+    } else if (data === 'wallet_manual') {
+      await CallbackQueryService.handleDeferredNavigation(ctx, '', async (ctx) => {
+        await this.startManualWalletEntry(ctx);
+      }, true);
+    } else if (data === 'wallet_verify') {
+      await CallbackQueryService.handleDeferredNavigation(ctx, '', async (ctx) => {
+        await this.startWalletVerification(ctx);
+      }, true);
+    } else if (data === 'wallet_verify_wc') {
+      await CallbackQueryService.handleDeferredNavigation(ctx, '', async (ctx) => {
+        await this.verifyWithWalletConnect(ctx);
+      }, true);
     } else if (data.startsWith('wallet_app_')) {
       const walletAppId = data.replace('wallet_app_', '') as WalletAppId;
       await CallbackQueryService.handleDeferredNavigation(ctx, '', async (ctx) => {
@@ -952,6 +1020,11 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       await CallbackQueryService.handleDeferredNavigation(ctx, '', async (ctx) => {
         await this.processAutomaticWithdrawal(ctx);
       }, true);
+    } else if (data.startsWith('wallet_wd_token_')) {
+      const tokenId = data.replace('wallet_wd_token_', '');
+      await CallbackQueryService.handleDeferredNavigation(ctx, '', async (ctx) => {
+        await this.processAutomaticWithdrawal(ctx, tokenId);
+      }, true);
     } else if (data.startsWith('wallet_confirm_withdraw_')) {
       const userId = data.replace('wallet_confirm_withdraw_', '');
       await CallbackQueryService.handleDeferredNavigation(ctx, '', async (ctx) => {
@@ -981,11 +1054,11 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       }, true);
     } else if (data === 'wallet_copy_uri') {
       // Just answer the callback, user will copy from the message
-      await CallbackQueryService.safeAnswerCallback(ctx, '📋 Copy the connection string from the message above');
+      await CallbackQueryService.safeAnswerCallback(ctx, this.i18n.translator(ctx)('wallet.toast.copy_uri'));
     } else {
       // Log unhandled callback
       this.logger.warn('Unhandled wallet callback', { data });
-      await CallbackQueryService.safeAnswerCallback(ctx, '❌ Unknown action');
+      await CallbackQueryService.safeAnswerCallback(ctx, this.i18n.translator(ctx)('common.unknown_action'));
     }
   }
 
@@ -993,6 +1066,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
    * Handle navigation actions (no session required)
    */
   private async handleNavigationAction(ctx: Context, action: string, params?: string[]): Promise<void> {
+    const t = this.i18n.translator(ctx);
     switch (action) {
       case 'wallet_show':
         await this.showWallet(ctx);
@@ -1030,14 +1104,14 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         if (params && params[0]) {
           await this.handleWalletAppConnection(ctx, params[0] as WalletAppId);
         } else {
-          await ctx.reply('❌ Unknown wallet app');
+          await ctx.reply(t('wallet.error.unknown_app'));
         }
         break;
       case 'wallet_disconnect':
         await this.handleWalletDisconnection(ctx);
         break;
       default:
-        await ctx.reply('❌ Unknown action');
+        await ctx.reply(t('common.unknown_action'));
     }
   }
 
@@ -1047,6 +1121,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
   private async handleSessionAction(ctx: Context, session: ActionSession, callbackData: any): Promise<void> {
     const { action, params } = callbackData;
     const userId = ctx.from?.id?.toString();
+    const t = this.i18n.translator(ctx);
 
     switch (action) {
       case 'wallet_disconnect_confirm':
@@ -1057,7 +1132,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
           });
           await this.confirmWalletDisconnection(ctx);
         } else {
-          await CallbackQueryService.safeAnswerCallback(ctx, '❌ Invalid session action');
+          await CallbackQueryService.safeAnswerCallback(ctx, t('wallet.toast.invalid_session'));
         }
         break;
         
@@ -1068,9 +1143,9 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
             userId: session.userId
           });
           // Use session.userId instead of ctx userId to ensure consistency
-          await this.executeWithdrawal(ctx, session.userId);
+          await this.executeWithdrawal(ctx, session.userId, session.metadata?.tokenId);
         } else {
-          await CallbackQueryService.safeAnswerCallback(ctx, '❌ Invalid withdrawal session');
+          await CallbackQueryService.safeAnswerCallback(ctx, t('wallet.toast.invalid_withdrawal_session'));
         }
         break;
         
@@ -1083,7 +1158,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
           });
           await this.processAutomaticWithdrawal(ctx);
         } else {
-          await CallbackQueryService.safeAnswerCallback(ctx, '❌ Invalid withdrawal session');
+          await CallbackQueryService.safeAnswerCallback(ctx, t('wallet.toast.invalid_withdrawal_session'));
         }
         break;
         
@@ -1096,7 +1171,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
           });
           await this.confirmTransfer(ctx, params[0]);
         } else {
-          await CallbackQueryService.safeAnswerCallback(ctx, '❌ Invalid transfer session');
+          await CallbackQueryService.safeAnswerCallback(ctx, t('wallet.toast.invalid_transfer_session'));
         }
         break;
         
@@ -1109,13 +1184,13 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
           });
           await this.cancelTransfer(ctx, params[0]);
         } else {
-          await CallbackQueryService.safeAnswerCallback(ctx, '❌ Invalid transfer session');
+          await CallbackQueryService.safeAnswerCallback(ctx, t('wallet.toast.invalid_transfer_session'));
         }
         break;
         
       default:
         this.logger.warn('Unknown session action:', action);
-        await CallbackQueryService.safeAnswerCallback(ctx, '❌ Unknown action');
+        await CallbackQueryService.safeAnswerCallback(ctx, t('common.unknown_action'));
     }
   }
 
@@ -1129,28 +1204,31 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
   }
 
   /**
-   * Process automatic withdrawal request
+   * Process automatic withdrawal request. `tokenId` is the payout token the
+   * user picked when more than one network fits their wallet.
    */
-  async processAutomaticWithdrawal(ctx: Context): Promise<void> {
+  async processAutomaticWithdrawal(ctx: Context, tokenId?: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
+      if (!await this.features.guard(ctx, 'withdrawals')) return;
 
       const user = await this.storage.getUser(userId);
       if (!user) {
-        await ctx.reply('❌ User not found.');
+        await ctx.reply(t('common.user_not_found'));
         return;
       }
 
       // Check if wallet is connected
       if (!user.walletAddress) {
         await ctx.reply(
-          '❌ Please connect your wallet first to withdraw tokens.',
+          t('wallet.withdraw.connect_first'),
           {
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Connect Wallet', callback_data: 'wallet_connect' }],
-                [{ text: 'Back', callback_data: 'wallet_show' }]
+                [{ text: t('wallet.btn.connect'), callback_data: 'wallet_connect' }],
+                [{ text: t('common.back'), callback_data: 'wallet_show' }]
               ]
             }
           }
@@ -1158,6 +1236,14 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         return;
       }
 
+      if (this.config.wallet.ownershipProof.requireForWithdrawal && !WalletOwnershipService.getInstance().isVerified(user)) {
+        await ctx.reply(this.getUnverifiedWalletText(user.walletAddress, t), {
+          parse_mode: 'HTML',
+          reply_markup: { inline_keyboard: this.getUnverifiedWalletKeyboard(user.walletAddress, t) }
+        });
+        return;
+      }
+
       // Check if channel join is required for withdrawal
       if (this.config.points.requireChannelJoinForWithdrawal && this.config.bot.requiredChannelId) {
         try {
@@ -1167,17 +1253,14 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
           
           if (!isJoined) {
             await ctx.reply(
-              '❌ <b>Channel Join Required</b>\n\n' +
-              'You must join our Telegram channel before withdrawing tokens.\n\n' +
-              `Please join: ${channelId}\n\n` +
-              'After joining, try the withdrawal again.',
+              t('wallet.withdraw.join_required', { channel: channelId }),
               {
                 parse_mode: 'HTML',
                 reply_markup: {
                   inline_keyboard: [
-                    [{ text: 'Join Channel', url: `https://t.me/${channelId.replace('@', '')}` }],
-                    [{ text: 'I Joined - Try Again', callback_data: 'wallet_withdraw_auto' }],
-                    [{ text: 'Back', callback_data: 'wallet_show' }]
+                    [{ text: t('wallet.btn.join_channel'), url: `https://t.me/${channelId.replace('@', '')}` }],
+                    [{ text: t('wallet.btn.joined_retry'), callback_data: 'wallet_withdraw_auto' }],
+                    [{ text: t('common.back'), callback_data: 'wallet_show' }]
                   ]
                 }
               }
@@ -1190,22 +1273,51 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         }
       }
 
+      // Only one withdrawal can be in flight per user
+      const activeWithdrawal = await WithdrawalService.getInstance().getActiveWithdrawal(userId);
+      if (activeWithdrawal) {
+        await ctx.reply(this.getActiveWithdrawalText(t, activeWithdrawal), {
+          parse_mode: 'HTML',
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: t('common.back'), callback_data: 'wallet_show' }]
+            ]
+          }
+        });
+        return;
+      }
+
+      const withdrawMode = (this.config.wallet as any).withdrawMode || 'claim';
+
+      // In Merkle mode the claimable amount is the snapshot allocation, not the live balance
+      const allocation = withdrawMode === 'merkle'
+        ? await AirdropSnapshotService.getInstance().getClaimableAllocation(userId)
+        : null;
+      if (withdrawMode === 'merkle' && !allocation) {
+        await ctx.reply(this.getAirdropClaimText(user, null, t), {
+          parse_mode: 'HTML',
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: t('common.back'), callback_data: 'wallet_show' }]
+            ]
+          }
+        });
+        return;
+      }
+
       // Check minimum withdrawal requirement
-      const userPoints = user.points || 0;
+      const userPoints = allocation ? allocation.claim.points : (user.points || 0);
       const minWithdraw = this.config.points.minWithdraw;
       
-      if (userPoints < minWithdraw) {
+      if (!allocation && userPoints < minWithdraw) {
         await ctx.reply(
-          `❌ <b>Insufficient Balance</b>\n\n` +
-          `You need ${(minWithdraw - userPoints).toLocaleString()} more points to withdraw.\n\n` +
-          `Current Balance: ${userPoints.toLocaleString()} points\n` +
-          `Minimum Required: ${minWithdraw.toLocaleString()} points`,
+          t('wallet.withdraw.insufficient', { missing: minWithdraw - userPoints, balance: userPoints, minimum: minWithdraw }),
           { 
             parse_mode: 'HTML',
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Earn More Points', callback_data: 'menu_tasks' }],
-                [{ text: 'Back', callback_data: 'wallet_show' }]
+                [{ text: t('withdrawal.btn.earn_more'), callback_data: 'menu_tasks' }],
+                [{ text: t('common.back'), callback_data: 'wallet_show' }]
               ]
             }
           }
@@ -1213,20 +1325,20 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         return;
       }
 
-      const withdrawMode = (this.config.wallet as any).withdrawMode || 'claim';
-      if (withdrawMode === 'claim') {
+      // Chains the wallet can receive on: those its WalletConnect session approved, or any EVM chain for a pasted address
+      let walletChains: number[] | undefined = isEthereumAddress(user.walletAddress) ? undefined : [];
+      if (withdrawMode === 'claim' || withdrawMode === 'merkle') {
         const connections = await this.storage.getWalletConnections(userId);
         const activeConnection = connections.find(conn => conn.isActive && conn.walletConnectSession);
         if (!activeConnection || !activeConnection.walletConnectSession) {
           await ctx.reply(
-            '❌ <b>Wallet Session Expired</b>\n\n' +
-            'Your WalletConnect session has expired. Please reconnect your wallet to continue.',
+            t('wallet.withdraw.session_expired'),
             {
               parse_mode: 'HTML',
               reply_markup: {
                 inline_keyboard: [
-                  [{ text: 'Reconnect Wallet', callback_data: 'wallet_connect' }],
-                  [{ text: 'Back', callback_data: 'wallet_show' }]
+                  [{ text: t('wallet.btn.reconnect'), callback_data: 'wallet_connect' }],
+                  [{ text: t('common.back'), callback_data: 'wallet_show' }]
                 ]
               }
             }
@@ -1239,58 +1351,61 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
           await this.storage.deactivateWalletConnectionByTopic(sessionTopic);
           // Don't remove walletAddress, just log the session expiry
           await ctx.reply(
-            '❌ <b>Wallet Session Invalid</b>\n\n' +
-            '🔄 Your wallet connection has been disconnected or expired.\n' +
-            '⚡ Please reconnect your wallet to continue with the withdrawal.\n\n' +
-            '💡 <b>Tip:</b> Make sure your wallet app is still connected.',
+            t('wallet.withdraw.session_invalid'),
             {
               parse_mode: 'HTML',
               reply_markup: {
                 inline_keyboard: [
-                  [{ text: 'Reconnect Wallet', callback_data: 'wallet_connect' }],
-                  [{ text: 'Back', callback_data: 'wallet_show' }]
+                  [{ text: t('wallet.btn.reconnect'), callback_data: 'wallet_connect' }],
+                  [{ text: t('common.back'), callback_data: 'wallet_show' }]
                 ]
               }
             }
           );
           return;
         }
+        const approved = sessionChainIds(activeConnection.walletConnectSession.namespaces as any, user.walletAddress);
+        walletChains = approved.length ? approved : [activeConnection.chainId];
       }
 
+      // Snapshot claims pay whatever the snapshot was built for; otherwise the user may have a choice of network
+      let target: PayoutTarget | null = null;
+      if (!allocation) {
+        target = await this.selectPayoutTarget(ctx, withdrawMode === 'claim' ? 'claim' : 'server', walletChains, tokenId);
+        if (!target) return;
+      }
+      const tokenSymbol = allocation ? allocation.snapshot.tokenSymbol : target!.token.symbol;
+      const networkName = allocation
+        ? ((await ChainRegistryService.getInstance().getNetwork(allocation.snapshot.chainId))?.name || `Chain ${allocation.snapshot.chainId}`)
+        : target!.network.name;
+
       // Calculate token amount using conversion rate
-      const conversionRate = this.config.points.conversionRate;
+      const conversionRate = allocation ? allocation.snapshot.conversionRate : this.config.points.conversionRate;
       const tokenAmount = userPoints * conversionRate;
       const formattedTokenAmount = tokenAmount.toFixed(6);
 
-      const steps = ((this.config.wallet as any).withdrawMode || 'claim') === 'claim'
-        ? `2. Approve the signature request in your wallet\n3. Tokens will be transferred by your wallet`
-        : `2. Tokens will be sent from our distribution wallet\n3. You'll receive confirmation after on-chain success`;
-      const security = ((this.config.wallet as any).withdrawMode || 'claim') === 'claim'
-        ? '🔒 <b>Security:</b> Transaction secured by WalletConnect signature'
-        : '🔒 <b>Security:</b> On-chain transfer from verified distributor';
-      const confirmationText = 
-        `🚀 <b>Withdraw Confirmation</b>\n\n` +
-        `💰 <b>Points to Withdraw:</b> ${userPoints.toLocaleString()} points\n` +
-        `🪙 <b>Tokens to Receive:</b> ${formattedTokenAmount} ${this.config.wallet.tokenSymbol}\n` +
-        `📊 <b>Exchange Rate:</b> 1 point = ${conversionRate} ${this.config.wallet.tokenSymbol}\n\n` +
-        `👛 <b>Destination Wallet:</b>\n<code>${this.maskWalletAddress(user.walletAddress)}</code>\n\n` +
-        `⚡ <b>Next Steps:</b>\n` +
-        `1. Click "Confirm Withdrawal" below\n` +
-        `${steps}\n\n` +
-        `${security}`;
+      const confirmationText = t('wallet.withdraw.confirm', {
+        points: userPoints,
+        tokens: formattedTokenAmount,
+        symbol: tokenSymbol,
+        rate: conversionRate,
+        network: networkName,
+        address: this.maskWalletAddress(allocation ? allocation.claim.address : user.walletAddress),
+        mode: withdrawMode
+      });
 
       // Create session for withdrawal confirmation (10 minutes timeout)
       const sessionId = CallbackQueryService.createActionSession(
         userId,
         'wallet_withdraw',
         600000, // 10 minutes for withdrawal confirmation
-        { amount: userPoints, tokenAmount }
+        { amount: userPoints, tokenAmount, tokenId: target?.token.id }
       );
 
       const keyboard: any[][] = [
         [
           { 
-            text: 'Confirm Withdrawal', 
+            text: t('wallet.btn.confirm_withdrawal'), 
             callback_data: CallbackQueryService.createCallbackDataWithSession(
               'wallet_confirm_withdraw', 
               sessionId
@@ -1298,7 +1413,7 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
           }
         ],
         [
-          { text: 'Cancel', callback_data: 'wallet_show' }
+          { text: t('common.cancel'), callback_data: 'wallet_show' }
         ]
       ];
 
@@ -1309,26 +1424,66 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
 
     } catch (error) {
       this.logger.error('Error processing automatic withdrawal:', error);
-      await ctx.reply('❌ Error processing withdrawal request. Please try again.');
+      await ctx.reply(t('wallet.error.withdrawal_request'));
+    }
+  }
+
+  /**
+   * The payout token for this withdrawal, or null after telling the user why
+   * there is none or asking them to pick one of several
+   */
+  private async selectPayoutTarget(ctx: Context, mode: 'claim' | 'server', walletChains: number[] | undefined, tokenId?: string): Promise<PayoutTarget | null> {
+    const t = this.i18n.translator(ctx);
+    const targets = await ChainRegistryService.getInstance().getPayoutTargets({ mode, chainIds: walletChains });
+    const chosen = tokenId ? targets.find(target => target.token.id === tokenId) : (targets.length === 1 ? targets[0] : undefined);
+    if (chosen) return chosen;
+
+    if (!targets.length) {
+      await ctx.reply(
+        t('wallet.withdraw.no_network'),
+        {
+          parse_mode: 'HTML',
+          reply_markup: { inline_keyboard: [[{ text: t('common.back'), callback_data: 'wallet_show' }]] }
+        }
+      );
+      return null;
     }
+
+    await ctx.editMessageText(
+      t('wallet.withdraw.choose_network'),
+      {
+        parse_mode: 'HTML',
+        reply_markup: {
+          inline_keyboard: [
+            ...targets.map(target => [{
+              text: t('wallet.btn.token_on_network', { symbol: target.token.symbol, network: target.network.name }),
+              callback_data: `wallet_wd_token_${target.token.id}`
+            }]),
+            [{ text: t('common.cancel'), callback_data: 'wallet_show' }]
+          ]
+        }
+      }
+    );
+    return null;
   }
 
   /**
    * Execute withdrawal with WalletConnect signature
    */
-  async executeWithdrawal(ctx: Context, userId: string): Promise<void> {
-    // Track any submitted transaction hash for better error reporting
-    let submittedTxHash: string | null = null;
+  async executeWithdrawal(ctx: Context, userId: string, tokenId?: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
+      if (!await this.features.guard(ctx, 'withdrawals')) return;
+
       // The userId parameter comes from the session which was created by the same user
       // So we don't need to double-check authorization here
       // The session validation already ensures the request is from the correct user
 
-      await CallbackQueryService.safeAnswerCallback(ctx, '🔄 Processing withdrawal...');
+      await CallbackQueryService.safeAnswerCallback(ctx, t('wallet.toast.processing_withdrawal'));
 
       const user = await this.storage.getUser(userId);
       if (!user || !user.walletAddress) {
-        await ctx.reply('❌ Wallet not found. Please reconnect your wallet.');
+        await ctx.reply(t('wallet.error.wallet_missing'));
         return;
       }
 
@@ -1342,17 +1497,14 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
           
           if (!isJoined) {
             await ctx.editMessageText(
-              '❌ <b>Channel Join Required</b>\n\n' +
-              'You must remain in our Telegram channel to withdraw tokens.\n\n' +
-              `Please join: ${channelId}\n\n` +
-              'After joining, start the withdrawal process again.',
+              t('wallet.withdraw.must_remain', { channel: channelId }),
               {
                 parse_mode: 'HTML',
                 reply_markup: {
                   inline_keyboard: [
-                    [{ text: 'Join Channel', url: `https://t.me/${channelId.replace('@', '')}` }],
-                    [{ text: 'Try Again', callback_data: 'wallet_withdraw_auto' }],
-                    [{ text: 'Back', callback_data: 'wallet_show' }]
+                    [{ text: t('wallet.btn.join_channel'), url: `https://t.me/${channelId.replace('@', '')}` }],
+                    [{ text: t('wallet.btn.try_again'), callback_data: 'wallet_withdraw_auto' }],
+                    [{ text: t('common.back'), callback_data: 'wallet_show' }]
                   ]
                 }
               }
@@ -1363,15 +1515,13 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
           this.logger.error('Error checking channel membership during withdrawal execution:', error);
           // If channel check fails, deny withdrawal for security (don't continue)
           await ctx.editMessageText(
-            '❌ <b>Verification Failed</b>\n\n' +
-            'Could not verify your channel membership. Please try again.\n\n' +
-            'If the problem persists, contact support.',
+            t('wallet.withdraw.membership_check_failed'),
             {
               parse_mode: 'HTML',
               reply_markup: {
                 inline_keyboard: [
-                  [{ text: 'Try Again', callback_data: 'wallet_withdraw_auto' }],
-                  [{ text: 'Back', callback_data: 'wallet_show' }]
+                  [{ text: t('wallet.btn.try_again'), callback_data: 'wallet_withdraw_auto' }],
+                  [{ text: t('common.back'), callback_data: 'wallet_show' }]
                 ]
               }
             }
@@ -1381,20 +1531,19 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       }
 
       const withdrawMode = (this.config.wallet as any).withdrawMode || 'claim';
-      if (withdrawMode === 'claim') {
+      if (withdrawMode === 'claim' || withdrawMode === 'merkle') {
         // Require an active WalletConnect session
         const connections = await this.storage.getWalletConnections(userId);
         const activeConnection = connections.find(conn => conn.isActive && conn.walletConnectSession);
         if (!activeConnection || !activeConnection.walletConnectSession) {
           await ctx.editMessageText(
-            '❌ <b>Wallet Session Expired</b>\n\n' +
-            'Your WalletConnect session has expired. Please reconnect your wallet to continue.',
+            t('wallet.withdraw.session_expired'),
             {
               parse_mode: 'HTML',
               reply_markup: {
                 inline_keyboard: [
-                  [{ text: 'Reconnect Wallet', callback_data: 'wallet_connect' }],
-                  [{ text: 'Back', callback_data: 'wallet_show' }]
+                  [{ text: t('wallet.btn.reconnect'), callback_data: 'wallet_connect' }],
+                  [{ text: t('common.back'), callback_data: 'wallet_show' }]
                 ]
               }
             }
@@ -1407,16 +1556,13 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
           await this.storage.deactivateWalletConnectionByTopic(sessionTopic);
           // Don't remove walletAddress, just log the session expiry
           await ctx.editMessageText(
-            '❌ <b>Wallet Session Invalid</b>\n\n' +
-            '🔄 Your wallet connection has been disconnected or expired.\n' +
-            '⚡ Please reconnect your wallet to continue with the withdrawal.\n\n' +
-            '💡 <b>Tip:</b> Make sure your wallet app is still connected.',
+            t('wallet.withdraw.session_invalid'),
             {
               parse_mode: 'HTML',
               reply_markup: {
                 inline_keyboard: [
-                  [{ text: 'Reconnect Wallet', callback_data: 'wallet_connect' }],
-                  [{ text: 'Back', callback_data: 'wallet_show' }]
+                  [{ text: t('wallet.btn.reconnect'), callback_data: 'wallet_connect' }],
+                  [{ text: t('common.back'), callback_data: 'wallet_show' }]
                 ]
               }
             }
@@ -1425,418 +1571,71 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
         }
       }
 
-      // Calculate withdrawal details
-      const userPoints = user.points || 0;
-      const conversionRate = this.config.points.conversionRate;
-      const tokenAmount = userPoints * conversionRate;
-      const tokenAmountWei = ethers.utils.parseUnits(tokenAmount.toString(), this.config.wallet.tokenDecimals);
-
-      // Show processing message
-      await ctx.editMessageText(
-        '⏳ <b>Processing Withdrawal</b>\n\n' +
-        '🔄 Creating transaction...\n' +
-        '💫 Please check your wallet for signature request\n' +
-        '⚡ Do not close this chat',
-        { parse_mode: 'HTML' }
-      );
-
-      try {
-        const withdrawMode = (this.config.wallet as any).withdrawMode || 'claim';
-        const base = (this.config.wallet.explorerUrl || '').replace(/\/$/, '');
-        if (withdrawMode === 'claim') {
-          // Send claim transaction via WalletConnect (user pays gas)
-          const { claimFunctionSignature, claimArgsTemplate } = (this.config.wallet as any);
-          if (!this.config.wallet.claimContractAddress) {
-            throw new Error('Claim contract address not configured');
-          }
-          if (!claimFunctionSignature) {
-            throw new Error('CLAIM_FUNCTION_SIGNATURE not configured');
-          }
-
-          // Prepare claim calldata with server-generated signature (ECDSA over keccak256(user, amount, nonce))
-          const provider = new ethers.providers.JsonRpcProvider(this.config.wallet.rpcUrl);
-          const claimReader = new ethers.Contract(
-            this.config.wallet.claimContractAddress,
-            ['function lastNonceUsed(address) view returns (uint256)'],
-            provider
-          );
-          
-          // Get last nonce from individual mapping function
-          let lastNonceUsed;
-          try {
-            lastNonceUsed = await claimReader.lastNonceUsed(user.walletAddress);
-          } catch (nonceError) {
-            this.logger.warn('Could not get lastNonceUsed, using 0 as default:', nonceError.message);
-            lastNonceUsed = ethers.BigNumber.from(0);
-          }
-          
-          const lastNonce = ethers.BigNumber.from(lastNonceUsed);
-          const nextNonce = lastNonce.add(1);
-
-          const signerPk = (this.config.wallet as any).claimSignerPrivateKey || this.config.wallet.privateKey;
-          if (!signerPk) throw new Error('CLAIM_SIGNER_PRIVATE_KEY or WALLET_PRIVATE_KEY not configured for claim signing');
-          const signer = new ethers.Wallet(signerPk, provider);
-          const messageHash = ethers.utils.keccak256(
-            ethers.utils.defaultAbiCoder.encode(
-              ['address','uint256','uint256'],
-              [user.walletAddress, tokenAmountWei, nextNonce]
-            )
-          );
-          const signature = await signer.signMessage(ethers.utils.arrayify(messageHash));
-
-          const data = ClaimService.buildCalldata(
-            claimFunctionSignature,
-            claimArgsTemplate || 'amount,nonce,signature',
-            {
-              to: user.walletAddress,
-              account: user.walletAddress,
-              amountWei: tokenAmountWei,
-              nonce: nextNonce,
-              signature
-            }
-          );
-
-          const connections = await this.storage.getWalletConnections(userId);
-          const activeConnection = connections.find(conn => conn.isActive && conn.walletConnectSession)!;
-
-          const txHash = await this.walletConnectService.sendTransactionRequest(
-            activeConnection.walletConnectSession.topic,
-            `eip155:${this.config.wallet.chainId}`,
-            {
-              from: user.walletAddress,
-              to: this.config.wallet.claimContractAddress,
-              data,
-              value: '0x0'
-            }
-);
-
-          // save for error reporting
-          submittedTxHash = txHash;
-
-          await ctx.editMessageText(
-            '⏳ <b>Transaction Submitted</b>\n\n' +
-            '🔄 Processing on blockchain...\n' +
-            '⏱️ This may take a few moments',
-            { parse_mode: 'HTML' }
-          );
-
-          // Wait for confirmation using RPC provider
-          const confirmations = (this.config.wallet as any).confirmationsToWait || 1;
-          const receipt = await provider.waitForTransaction(txHash, confirmations);
-          if (!receipt || receipt.status !== 1) {
-            throw new Error('Transaction reverted or failed');
-          }
-
-          const currentTime = new Date();
-          await this.storage.updateUser(userId, {
-            points: 0,
-            claimed: true,
-            claimTimestamp: currentTime.toISOString(),
-            transactionHash: txHash,
-            nonce: (user.nonce || 0) + 1,
-            lastClaimedPoints: userPoints,
-            totalClaimedPoints: (user.totalClaimedPoints || 0) + userPoints
-          });
-          try { (await import('../../shared')).UserValidationService.invalidateSessionUser(ctx); } catch {}
-
-          await this.storage.saveWithdrawalRecord({
-            id: `withdrawal_${Date.now()}_${userId}`,
-            userId,
-            walletAddress: user.walletAddress,
-            pointsWithdrawn: userPoints,
-            tokenAmount,
-            tokenSymbol: this.config.wallet.tokenSymbol,
-            transactionHash: txHash,
-            status: 'completed',
-            requestedAt: new Date(),
-            processedAt: new Date(),
-            method: 'walletconnect_claim'
-          });
-
-          await this.storage.savePointTransaction({
-            id: `tx_${Date.now()}_${userId}`,
-            userId,
-            amount: -userPoints,
-            type: 'withdrawal',
-            description: 'Claim withdrawal',
-            timestamp: new Date(),
-            metadata: {
-              transactionHash: txHash,
-              walletAddress: user.walletAddress,
-              tokenAmount,
-              tokenSymbol: this.config.wallet.tokenSymbol
-            }
-          });
-
-          // Send alert to admin channel if configured
-          if (this.config.bot.withdrawAlertChannelId) {
-            try {
-              await TelegramNotifyService.sendWithdrawalAlert(
-                this.config.bot.withdrawAlertChannelId,
-                userId,
-                ctx.from?.username,
-                user.walletAddress,
-                userPoints,
-                tokenAmount,
-                this.config.wallet.tokenSymbol,
-                txHash,
-                this.config.wallet.explorerUrl
-              );
-            } catch (alertError) {
-              this.logger.warn('Failed to send withdrawal alert to channel:', alertError);
-            }
-          }
-
-          const explorerUrl = base.includes('/tx') ? `${base.replace(/\/?tx\/?$/, '')}/tx/${txHash}` : `${base}/tx/${txHash}`;
-          const successText = 
-            '🎉 <b>Withdrawal Successful!</b>\n\n' +
-            `✅ <b>Transaction Confirmed</b>\n` +
-            `🪙 <b>Tokens Sent:</b> ${tokenAmount.toFixed(6)} ${this.config.wallet.tokenSymbol}\n` +
-            `💰 <b>Points Used:</b> ${userPoints.toLocaleString()} points\n` +
-            `👛 <b>To Wallet:</b> <code>${this.maskWalletAddress(user.walletAddress)}</code>\n\n` +
-            `🔍 <b>Transaction Hash:</b>\n<code>${txHash}</code>\n\n` +
-            `📊 Your point balance has been reset to 0\n` +
-            `🎯 Complete more tasks to earn new points!`;
-
-          await ctx.editMessageText(successText, {
-            parse_mode: 'HTML',
-            reply_markup: {
-              inline_keyboard: [
-                [{ text: 'View on Explorer', url: explorerUrl }],
-                [{ text: 'Earn More Points', callback_data: 'menu_tasks' }],
-                [{ text: 'View Wallet', callback_data: 'wallet_show' }]
-              ]
-            }
-          });
-        } else {
-          // Server-signed fallback (admin/ops use only)
-          const provider = new ethers.providers.JsonRpcProvider(this.config.wallet.rpcUrl);
-          const distributor = new ethers.Wallet(this.config.wallet.privateKey, provider);
-          const erc20 = new ethers.Contract(
-            this.config.wallet.tokenContractAddress,
-            ['function transfer(address to, uint256 amount) public returns (bool)'],
-            distributor
-          );
-          const tx = await erc20.transfer(user.walletAddress, tokenAmountWei);
-          // save for error reporting
-          submittedTxHash = tx.hash;
+      // Persist the request and lock the points; the withdrawal worker signs,
+      // submits and confirms it and messages the user with the outcome
+      const result = await WithdrawalService.getInstance().requestWithdrawal(userId, {
+        chatId: ctx.chat?.id,
+        username: ctx.from?.username,
+        tokenId
+      });
 
-          await ctx.editMessageText(
-            '⏳ <b>Transaction Submitted</b>\n\n' +
-            '🔄 Processing on blockchain...\n' +
-            '⏱️ This may take a few moments',
-            { parse_mode: 'HTML' }
-          );
-          const receipt = await tx.wait();
-          if (!receipt || receipt.status !== 1) {
-            throw new Error('Transaction reverted or failed');
-          }
-          const currentTime = new Date();
-          await this.storage.updateUser(userId, {
-            points: 0,
-            claimed: true,
-            claimTimestamp: currentTime.toISOString(),
-            transactionHash: tx.hash,
-            nonce: (user.nonce || 0) + 1,
-            lastClaimedPoints: userPoints,
-            totalClaimedPoints: (user.totalClaimedPoints || 0) + userPoints
-          });
-          try { (await import('../../shared')).UserValidationService.invalidateSessionUser(ctx); } catch {}
-          await this.storage.saveWithdrawalRecord({
-            id: `withdrawal_${Date.now()}_${userId}`,
-            userId,
-            walletAddress: user.walletAddress,
-            pointsWithdrawn: userPoints,
-            tokenAmount,
-            tokenSymbol: this.config.wallet.tokenSymbol,
-            transactionHash: tx.hash,
-            status: 'completed',
-            requestedAt: new Date(),
-            processedAt: new Date(),
-            method: 'server_signed_transfer'
-          });
-          await this.storage.savePointTransaction({
-            id: `tx_${Date.now()}_${userId}`,
-            userId,
-            amount: -userPoints,
-            type: 'withdrawal',
-            description: 'Automatic token withdrawal',
-            timestamp: new Date(),
-            metadata: {
-              transactionHash: tx.hash,
-              walletAddress: user.walletAddress,
-              tokenAmount,
-              tokenSymbol: this.config.wallet.tokenSymbol
-            }
-          });
-          
-          // Send alert to admin channel if configured
-          if (this.config.bot.withdrawAlertChannelId) {
-            try {
-              await TelegramNotifyService.sendWithdrawalAlert(
-                this.config.bot.withdrawAlertChannelId,
-                userId,
-                ctx.from?.username,
-                user.walletAddress,
-                userPoints,
-                tokenAmount,
-                this.config.wallet.tokenSymbol,
-                tx.hash,
-                this.config.wallet.explorerUrl
-              );
-            } catch (alertError) {
-              this.logger.warn('Failed to send withdrawal alert to channel:', alertError);
-            }
-          }
-          
-          const explorerUrl = base.includes('/tx') ? `${base.replace(/\/?tx\/?$/, '')}/tx/${tx.hash}` : `${base}/tx/${tx.hash}`;
-          const successText = 
-            '🎉 <b>Withdrawal Successful!</b>\n\n' +
-            `✅ <b>Transaction Confirmed</b>\n` +
-            `🪙 <b>Tokens Sent:</b> ${tokenAmount.toFixed(6)} ${this.config.wallet.tokenSymbol}\n` +
-            `💰 <b>Points Used:</b> ${userPoints.toLocaleString()} points\n` +
-            `👛 <b>To Wallet:</b> <code>${this.maskWalletAddress(user.walletAddress)}</code>\n\n` +
-            `🔍 <b>Transaction Hash:</b>\n<code>${tx.hash}</code>\n\n` +
-            `📊 Your point balance has been reset to 0\n` +
-            `🎯 Complete more tasks to earn new points!`;
-          await ctx.editMessageText(successText, {
+      if (!result.success || !result.withdrawal) {
+        if (result.error === 'wallet_unverified') {
+          await ctx.editMessageText(this.getUnverifiedWalletText(user.walletAddress, t), {
             parse_mode: 'HTML',
-            reply_markup: {
-              inline_keyboard: [
-                [{ text: 'View on Explorer', url: explorerUrl }],
-                [{ text: 'Earn More Points', callback_data: 'menu_tasks' }],
-                [{ text: 'View Wallet', callback_data: 'wallet_show' }]
-              ]
-            }
+            reply_markup: { inline_keyboard: this.getUnverifiedWalletKeyboard(user.walletAddress, t) }
           });
+          return;
         }
-      } catch (transactionError: any) {
-        const msg = String(transactionError?.message || '');
-        const code = (transactionError?.code ?? transactionError?.data?.code ?? transactionError?.error?.code) as any;
-        // Try hard to extract a transaction hash from various error shapes and message text
-        let txHash = (
-          transactionError?.transactionHash ||
-          transactionError?.receipt?.transactionHash ||
-          transactionError?.hash ||
-          transactionError?.transaction?.hash ||
-          transactionError?.error?.transactionHash ||
-          transactionError?.error?.transaction?.hash ||
-          transactionError?.data?.txHash ||
-          (typeof msg === 'string' ? (msg.match(/0x[0-9a-fA-F]{64}/)?.[0] || null) : null)
-        );
-        if (!txHash && submittedTxHash) txHash = submittedTxHash;
-        const isRejected =
-          code === 4001 ||
-          code === 5001 ||
-          code === 'ACTION_REJECTED' ||
-          /user rejected|rejected|denied|ACTION_REJECTED/i.test(msg);
-
-        if (isRejected) {
-          this.logger.warn('Withdrawal cancelled by user', { code });
-        } else {
-          this.logger.error('Withdrawal failed', { code, error: msg });
-        }
-
-        // Record failed withdrawal attempt for audit
-        try {
-          await this.storage.saveWithdrawalRecord({
-            id: `withdrawal_${Date.now()}_${userId}`,
-            userId,
-            walletAddress: user.walletAddress,
-            pointsWithdrawn: userPoints,
-            tokenAmount,
-            tokenSymbol: this.config.wallet.tokenSymbol,
-            transactionHash: txHash || undefined,
-            status: 'failed',
-            failureReason: msg || 'Transaction failed',
-            requestedAt: new Date(),
-            processedAt: new Date(),
-            method: ((this.config.wallet as any).withdrawMode || 'claim') === 'claim' ? 'walletconnect_claim' : 'server_signed_transfer'
+        const errorMessage = result.error === 'active_withdrawal'
+          ? this.getActiveWithdrawalText(t, result.withdrawal)
+          : t('wallet.withdraw.failed', {
+            reason: result.error === 'insufficient_balance' ? 'below_minimum' : result.error || 'unknown',
+            minimum: this.config.points.minWithdraw
           });
-        } catch {}
-
-        let errorMessage = '❌ <b>Withdrawal Failed!</b>\n\n';
-
-        if (isRejected) {
-          errorMessage += '🚫 <b>Transaction Cancelled</b>\n';
-          errorMessage += `🪙 <b>Tokens Requested:</b> ${tokenAmount.toFixed(6)} ${this.config.wallet.tokenSymbol}\n`;
-          errorMessage += `💰 <b>Points to Use:</b> ${userPoints.toLocaleString()} points\n`;
-          errorMessage += `👛 <b>To Wallet:</b> <code>${this.maskWalletAddress(user.walletAddress)}</code>\n\n`;
-          if (txHash) {
-            errorMessage += `🔍 <b>Transaction Hash:</b>\n<code>${txHash}</code>\n\n`;
-          }
-          errorMessage += `📝 <b>Reason:</b>\nYou cancelled the transaction in your wallet\n\n`;
-          errorMessage += `💡 <b>Status:</b> No changes made\n`;
-          errorMessage += `📊 Your point balance remains: ${userPoints.toLocaleString()} points`;
-        } else if (/insufficient funds/i.test(msg)) {
-          const party = ((this.config.wallet as any).withdrawMode || 'claim') === 'claim' ? 'Your wallet' : 'Distribution wallet';
-          errorMessage += '💸 <b>Insufficient Gas Balance</b>\n';
-          errorMessage += `🪙 <b>Tokens Requested:</b> ${tokenAmount.toFixed(6)} ${this.config.wallet.tokenSymbol}\n`;
-          errorMessage += `💰 <b>Points to Use:</b> ${userPoints.toLocaleString()} points\n`;
-          errorMessage += `👛 <b>To Wallet:</b> <code>${this.maskWalletAddress(user.walletAddress)}</code>\n\n`;
-          if (txHash) {
-            errorMessage += `🔍 <b>Transaction Hash:</b>\n<code>${txHash}</code>\n\n`;
-          }
-          errorMessage += `⛽ <b>Issue:</b>\n${party} needs ETH for gas fees\n\n`;
-          errorMessage += `💡 <b>Solution:</b> Add ~0.001 ETH to ${party.toLowerCase()}\n`;
-          errorMessage += `📊 Your point balance remains: ${userPoints.toLocaleString()} points`;
-        } else if (/execution reverted|ERC20|revert/i.test(msg)) {
-          const remainingPoints = (user?.points ?? userPoints ?? 0);
-          errorMessage = '⛔️ <b>Withdrawal Failed!</b>\n\n';
-          errorMessage += '🚫 <b>Transaction execution reverted</b>\n\n';
-          errorMessage += '🔍 <b>Transaction Hash:</b>\n';
-          errorMessage += `<code>${txHash || 'not broadcast / unavailable'}</code>\n\n`;
-          errorMessage += `📊 Your point balance remains: ${Number(remainingPoints).toLocaleString()} points\n`;
-          errorMessage += '🎯 Try again in a few moments!';
-        } else if (/nonce|already used/i.test(msg)) {
-          errorMessage += '🔄 <b>Duplicate Transaction</b>\n';
-          errorMessage += `🪙 <b>Tokens Requested:</b> ${tokenAmount.toFixed(6)} ${this.config.wallet.tokenSymbol}\n`;
-          errorMessage += `💰 <b>Points to Use:</b> ${userPoints.toLocaleString()} points\n`;
-          errorMessage += `👛 <b>To Wallet:</b> <code>${this.maskWalletAddress(user.walletAddress)}</code>\n\n`;
-          if (txHash) {
-            errorMessage += `🔍 <b>Transaction Hash:</b>\n<code>${txHash}</code>\n\n`;
-          }
-          errorMessage += `🔍 <b>Issue:</b>\nThis withdrawal was already processed\n`;
-          errorMessage += `📝 <b>Error Code:</b> <code>NONCE_ERR_002</code>\n\n`;
-          errorMessage += `📊 Your point balance remains: ${userPoints.toLocaleString()} points\n`;
-          errorMessage += `🎯 Request a new withdrawal!`;
-        } else {
-          const detail = msg ? msg.substring(0, 50) : (code ? `Code: ${code}` : 'Unknown');
-          errorMessage += '⚠️ <b>Transaction Error</b>\n';
-          errorMessage += `🪙 <b>Tokens Requested:</b> ${tokenAmount.toFixed(6)} ${this.config.wallet.tokenSymbol}\n`;
-          errorMessage += `💰 <b>Points to Use:</b> ${userPoints.toLocaleString()} points\n`;
-          errorMessage += `👛 <b>To Wallet:</b> <code>${this.maskWalletAddress(user.walletAddress)}</code>\n\n`;
-          if (txHash) {
-            errorMessage += `🔍 <b>Transaction Hash:</b>\n<code>${txHash}</code>\n\n`;
-          }
-          errorMessage += `🔍 <b>Error Details:</b>\n${detail}\n`;
-          errorMessage += `📝 <b>Error Code:</b> <code>UNKNOWN_ERR_003</code>\n\n`;
-          errorMessage += `📊 Your point balance remains: ${userPoints.toLocaleString()} points\n`;
-          errorMessage += `🎯 Please try again or contact support!`;
-        }
-
         await ctx.editMessageText(errorMessage, {
           parse_mode: 'HTML',
           reply_markup: {
             inline_keyboard: [
-              [{ text: 'Try Again', callback_data: 'wallet_withdraw_auto' }],
-              [{ text: 'Back to Wallet', callback_data: 'wallet_show' }]
+              [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
             ]
           }
         });
+        return;
       }
 
+      const withdrawal = result.withdrawal;
+      try { (await import('../../shared')).UserValidationService.invalidateSessionUser(ctx); } catch {}
+
+      await ctx.editMessageText(
+        t('wallet.withdraw.requested', {
+          tokens: withdrawal.tokenAmount.toFixed(6),
+          symbol: withdrawal.tokenSymbol,
+          points: withdrawal.pointsWithdrawn,
+          address: this.maskWalletAddress(withdrawal.walletAddress),
+          method: withdrawal.method,
+          review: withdrawal.status === 'pending_review' ? 'yes' : 'no'
+        }),
+        {
+          parse_mode: 'HTML',
+          reply_markup: {
+            inline_keyboard: [
+              [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
+            ]
+          }
+        }
+      );
+
     } catch (error) {
       this.logger.error('Error executing automatic withdrawal:', error);
       await ctx.reply(
-        '❌ <b>Withdrawal Error</b>\n\n' +
-        'An unexpected error occurred. Please try again later or contact support.',
+        t('wallet.withdraw.unexpected_error'),
         { 
           parse_mode: 'HTML',
           reply_markup: {
             inline_keyboard: [
-              [{ text: 'Try Again', callback_data: 'wallet_withdraw_auto' }],
-              [{ text: 'Back to Wallet', callback_data: 'wallet_show' }]
+              [{ text: t('wallet.btn.try_again'), callback_data: 'wallet_withdraw_auto' }],
+              [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
             ]
           }
         }
@@ -1846,73 +1645,23 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
 
   // ============= Private Helper Methods =============
 
-  private getWalletText(user: any): string {
-    if (user.walletAddress) {
-      const connectionMethod = user.connectionMethod || 'manual';
-      const walletName = user.walletName || user.peerName || this.getConnectionMethodName(connectionMethod);
-
-      return `
-👛 <b>Your Wallet</b>
-
-✅ <b>Connected Wallet:</b>
-📍 Address: <code>${this.maskWalletAddress(user.walletAddress)}</code>
-🔗 Type: ${this.detectWalletType(user.walletAddress)}
-🌐 Connection: ${walletName}
-🟢 Status: Active session
-
-💰 <b>Points Available:</b>
-Current Balance: <b>${user.points?.toLocaleString() || '0'}</b>
-Minimum Withdrawal: <b>${this.config.points.minWithdraw}</b>
-
-📊 <b>Withdrawal Status:</b>
-${(user.points || 0) >= this.config.points.minWithdraw
-  ? '✅ You can withdraw your points!' 
-  : `❌ Need ${this.config.points.minWithdraw - (user.points || 0)} more points to withdraw`}
-
-🎯 <b>Next Steps:</b>
-• Complete more tasks to earn points
-• Refer friends for bonus points
-• Watch for withdrawal announcements
-      `.trim();
-    } else {
-      return `
-👛 <b>Wallet Connection</b>
-
-❌ <b>No Wallet Connected</b>
-
-🔗 Connect your wallet to:
-• Receive airdrop rewards
-• Access wallet-exclusive tasks
-• Increase your security score
-• Prepare for token distribution
-
-💡 <b>Connection Methods:</b>
-• <b>Wallet Apps:</b> Direct connection via popular wallets
-• <b>QR Code:</b> Universal connection method
-
-🔒 <b>Security:</b>
-Powered by WalletConnect v2 protocol. Your private keys never leave your wallet. We only store your wallet address for reward distribution.
-      `.trim();
-    }
-  }
-
-  private getWalletKeyboard(user: any): InlineKeyboardMarkup {
+  private getWalletKeyboard(user: any, t: Translator): InlineKeyboardMarkup {
     if (user.walletAddress) {
       const keyboard: InlineKeyboardButton[][] = [
         [
-          { text: 'Withdraw', callback_data: 'wallet_withdraw' },
-          { text: 'Transfer Points', callback_data: 'wallet_transfer' }
+          { text: t('wallet.btn.withdraw'), callback_data: 'wallet_withdraw' },
+          { text: t('wallet.btn.transfer'), callback_data: 'wallet_transfer' }
         ],
         [
-          { text: 'History', callback_data: 'wallet_history' },
-          { text: 'Transfer History', callback_data: 'transfer_history' }
+          { text: t('wallet.btn.history'), callback_data: 'wallet_history' },
+          { text: t('wallet.btn.transfer_history'), callback_data: 'transfer_history' }
         ],
         [
-          { text: 'Reconnect Wallet', callback_data: 'wallet_connect' },
-          { text: 'Disconnect', callback_data: 'wallet_disconnect' }
+          { text: t('wallet.btn.reconnect'), callback_data: 'wallet_connect' },
+          { text: t('wallet.btn.disconnect'), callback_data: 'wallet_disconnect' }
         ],
         [
-          { text: 'Main Menu', callback_data: 'menu_main' }
+          { text: t('common.main_menu'), callback_data: 'menu_main' }
         ]
       ];
 
@@ -1921,43 +1670,45 @@ Powered by WalletConnect v2 protocol. Your private keys never leave your wallet.
       return {
         inline_keyboard: [
           [
-            { text: 'Connect Wallet', callback_data: 'wallet_connect' }
+            { text: t('wallet.btn.connect'), callback_data: 'wallet_connect' }
           ],
           [
-            { text: 'Main Menu', callback_data: 'menu_main' }
+            { text: t('common.main_menu'), callback_data: 'menu_main' }
           ]
         ]
       };
     }
   }
 
-  private getWithdrawalText(user: any): string {
-    const canWithdraw = (user.points || 0) >= this.config.points.minWithdraw;
-    
-    return `
-💸 <b>Withdraw Points</b>
-
-💰 <b>Current Balance:</b> ${(user.points || 0).toLocaleString()} points
-💎 <b>Minimum Withdrawal:</b> ${this.config.points.minWithdraw.toLocaleString()} points
-👛 <b>Wallet:</b> <code>${this.maskWalletAddress(user.walletAddress)}</code>
-
-${canWithdraw 
-  ? '✅ <b>You can withdraw your points!</b>\n\n🎯 Tokens will be sent automatically after blockchain confirmation.' 
-  : `❌ <b>Insufficient Balance</b>\n\nYou need ${(this.config.points.minWithdraw - (user.points || 0)).toLocaleString()} more points to withdraw.`}
-
-⚠️ <b>Important:</b>
-• Connect your wallet to claim tokens
-• Transaction is processed on-chain automatically
-• Confirmation depends on blockchain network speed
-• Make sure your wallet address is correct
-
-📈 <b>Exchange Rate:</b>
-1 point = ${this.config.points.conversionRate || '0.001'} ${this.config.wallet.tokenSymbol || 'tokens'} (estimate)
-    `.trim();
+  private getWithdrawalText(user: any, t: Translator): string {
+    return t('wallet.withdraw.text', {
+      balance: user.points || 0,
+      minimum: this.config.points.minWithdraw,
+      address: this.maskWalletAddress(user.walletAddress),
+      missing: Math.max(0, this.config.points.minWithdraw - (user.points || 0)),
+      rate: this.config.points.conversionRate || '0.001',
+      symbol: this.config.wallet.tokenSymbol || 'tokens'
+    });
+  }
+
+  private getAirdropClaimText(user: any, allocation: AirdropAllocation | null, t: Translator): string {
+    if (!allocation) {
+      return t('wallet.airdrop.none', { balance: user.points || 0 });
+    }
+    const { snapshot, claim } = allocation;
+    return t('wallet.airdrop.claim', {
+      points: claim.points,
+      tokens: Number(ethers.utils.formatUnits(claim.amountWei, snapshot.tokenDecimals)).toFixed(6),
+      symbol: snapshot.tokenSymbol,
+      snapshot: new Date(snapshot.cutoffAt).toUTCString(),
+      address: this.maskWalletAddress(claim.address)
+    });
   }
 
-  private getWithdrawalKeyboard(user: any): InlineKeyboardMarkup {
-    const canWithdraw = (user.points || 0) >= this.config.points.minWithdraw;
+  private getWithdrawalKeyboard(user: any, t: Translator, allocation?: AirdropAllocation | null): InlineKeyboardMarkup {
+    const canWithdraw = this.config.wallet.withdrawMode === 'merkle'
+      ? !!allocation
+      : (user.points || 0) >= this.config.points.minWithdraw;
 
     const keyboard: InlineKeyboardButton[][] = [];
 
@@ -1968,12 +1719,12 @@ ${canWithdraw
         user.telegramId || user.userId,
         'wallet_withdraw_auto',
         600000, // 10 minutes timeout for withdrawal process
-        { action: 'withdraw_auto', points: user.points }
+        { action: 'withdraw_auto', points: allocation ? allocation.claim.points : user.points }
       );
 
       keyboard.push([
         { 
-          text: 'Withdraw Tokens', 
+          text: allocation ? t('wallet.btn.claim_airdrop') : t('wallet.btn.withdraw_tokens'), 
           callback_data: CallbackQueryService.createCallbackDataWithSession(
             'wallet_withdraw_auto_session',
             sessionId
@@ -1983,14 +1734,15 @@ ${canWithdraw
     }
 
     keyboard.push([
-      { text: 'History', callback_data: 'wallet_history' },
-      { text: 'Back', callback_data: 'wallet_show' }
+      { text: t('wallet.btn.history'), callback_data: 'wallet_history' },
+      { text: t('common.back'), callback_data: 'wallet_show' }
     ]);
 
     return { inline_keyboard: keyboard };
   }
 
   private async showWalletHistory(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -1998,42 +1750,45 @@ ${canWithdraw
       const connections = await this.storage.getWalletConnections(userId);
       const withdrawals = await this.storage.getWithdrawalRecords(userId);
 
-      let historyText = '📊 <b>Wallet History</b>\n\n';
+      let historyText = t('wallet.history.title') + '\n\n';
 
       // Show connections
       if (connections.length > 0) {
-        historyText += '<b>🔗 Connections:</b>\n';
+        historyText += t('wallet.history.connections') + '\n';
         connections.slice(-5).forEach(conn => {
-          const date = DateUtils.formatUserDate(DateUtils.parseUserDate(conn.connectedAt));
-          const status = conn.isActive ? '✅ Active' : '❌ Inactive';
-          const method = this.getConnectionMethodName(conn.metadata?.connectionMethod);
-          historyText += `• ${date}: ${this.maskWalletAddress(conn.walletAddress)} (${method}, ${status})\n`;
+          historyText += t('wallet.history.connection', {
+            date: DateUtils.formatUserDate(DateUtils.parseUserDate(conn.connectedAt)),
+            address: this.maskWalletAddress(conn.walletAddress),
+            method: this.getConnectionMethodName(conn.metadata?.connectionMethod),
+            status: conn.isActive ? t('common.active') : t('common.inactive')
+          }) + '\n';
         });
         historyText += '\n';
       }
 
       // Show withdrawals
+      historyText += t('wallet.history.withdrawals') + '\n';
       if (withdrawals.length > 0) {
-        historyText += '<b>💸 Withdrawals:</b>\n';
         withdrawals.slice(-5).forEach(withdrawal => {
-          const date = withdrawal.requestedAt ? DateUtils.formatUserDate(DateUtils.parseUserDate(withdrawal.requestedAt)) : 'Unknown';
-          const points = withdrawal.pointsWithdrawn || withdrawal.amount || 0;
-          const status = withdrawal.status || 'unknown';
-          const tokenAmount = withdrawal.tokenAmount ? ` (${withdrawal.tokenAmount.toFixed(6)} ${withdrawal.tokenSymbol || 'tokens'})` : '';
-          historyText += `• ${date}: ${points.toLocaleString()} points${tokenAmount} - ${status}\n`;
+          historyText += t('wallet.history.withdrawal', {
+            date: withdrawal.requestedAt ? DateUtils.formatUserDate(DateUtils.parseUserDate(withdrawal.requestedAt)) : t('common.unknown'),
+            points: withdrawal.pointsWithdrawn || withdrawal.amount || 0,
+            tokens: withdrawal.tokenAmount ? ` (${withdrawal.tokenAmount.toFixed(6)} ${withdrawal.tokenSymbol || 'tokens'})` : '',
+            status: t('wallet.withdraw.status_label', { status: withdrawal.status || 'unknown' })
+          }) + '\n';
         });
       } else {
-        historyText += '<b>💸 Withdrawals:</b>\nNo withdrawals yet.';
+        historyText += t('wallet.history.no_withdrawals');
       }
 
       const keyboard: InlineKeyboardMarkup = {
         inline_keyboard: [
           [
-            { text: 'Withdraw', callback_data: 'wallet_withdraw' },
-            { text: 'Refresh', callback_data: 'wallet_history' }
+            { text: t('wallet.btn.withdraw'), callback_data: 'wallet_withdraw' },
+            { text: t('common.refresh'), callback_data: 'wallet_history' }
           ],
           [
-            { text: 'Back to Wallet', callback_data: 'wallet_show' }
+            { text: t('wallet.btn.back'), callback_data: 'wallet_show' }
           ]
         ]
       };
@@ -2045,11 +1800,12 @@ ${canWithdraw
 
     } catch (error) {
       this.logger.error('Error showing wallet history:', error);
-      await ctx.reply('❌ Error loading wallet history.');
+      await ctx.reply(t('wallet.error.history'));
     }
   }
 
   private async handleWalletDisconnection(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -2067,27 +1823,20 @@ ${canWithdraw
       const originalWallet = userData?.previousWallet || userData?.walletAddress;
       
       await ctx.editMessageText(
-        '⚠️ <b>Disconnect Wallet Session</b>\n\n' +
-        'Are you sure you want to disconnect your current wallet session?\n\n' +
-        '💡 <b>What happens:</b>\n' +
-        '• Your WalletConnect session will be terminated\n' +
-        '• You\'ll need to reconnect to withdraw rewards\n' +
-        `• You can only reconnect your registered wallet:\n  <code>${this.maskWalletAddress(originalWallet || 'None')}</code>\n\n` +
-        '⚠️ <b>Important:</b>\n' +
-        'You CANNOT connect a different wallet address. Only your original wallet can be reconnected for security reasons.',
+        t('wallet.disconnect.confirm', { address: originalWallet ? this.maskWalletAddress(originalWallet) : t('common.not_set') }),
         {
           parse_mode: 'HTML',
           reply_markup: {
             inline_keyboard: [
               [
                 { 
-                  text: '❌ Yes, Disconnect', 
+                  text: t('wallet.btn.disconnect_confirm'), 
                   callback_data: CallbackQueryService.createCallbackDataWithSession(
                     'wallet_disconnect_confirm',
                     sessionId
                   )
                 },
-                { text: 'Cancel', callback_data: 'wallet_show' }
+                { text: t('common.cancel'), callback_data: 'wallet_show' }
               ]
             ]
           }
@@ -2096,11 +1845,12 @@ ${canWithdraw
 
     } catch (error) {
       this.logger.error('Error handling wallet disconnection:', error);
-      await CallbackQueryService.safeAnswerCallback(ctx, '❌ Error processing disconnection request');
+      await CallbackQueryService.safeAnswerCallback(ctx, t('wallet.toast.disconnect_failed'));
     }
   }
 
   private async confirmWalletDisconnection(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -2138,20 +1888,13 @@ ${canWithdraw
       const originalWallet = userData?.previousWallet || userData?.walletAddress;
       
       await ctx.editMessageText(
-        '✅ <b>Wallet Session Disconnected</b>\n\n' +
-        '🔌 Your wallet session has been disconnected.\n\n' +
-        '• All WalletConnect sessions terminated\n' +
-        '• Current connection removed\n' +
-        `• Your registered wallet: <code>${this.maskWalletAddress(originalWallet || 'None')}</code>\n\n` +
-        '🔒 <b>Security Note:</b>\n' +
-        'You can only reconnect your original wallet. This ensures fair distribution and prevents abuse.\n\n' +
-        'Thank you for using our bot!',
+        t('wallet.disconnect.done', { address: originalWallet ? this.maskWalletAddress(originalWallet) : t('common.not_set') }),
         {
           parse_mode: 'HTML',
           reply_markup: {
             inline_keyboard: [
-              [{ text: 'Reconnect Wallet', callback_data: 'wallet_connect' }],
-              [{ text: 'Main Menu', callback_data: 'menu_main' }]
+              [{ text: t('wallet.btn.reconnect'), callback_data: 'wallet_connect' }],
+              [{ text: t('common.main_menu'), callback_data: 'menu_main' }]
             ]
           }
         }
@@ -2161,8 +1904,36 @@ ${canWithdraw
 
     } catch (error) {
       this.logger.error('Error confirming wallet disconnection:', error);
-      await ctx.reply('❌ Error disconnecting wallet. Please try again.');
+      await ctx.reply(t('wallet.error.disconnect'));
+    }
+  }
+
+  private getActiveWithdrawalText(t: Translator, withdrawal?: WithdrawalDocument | null): string {
+    const lines = [t('wallet.withdraw.active'), ''];
+    if (withdrawal) {
+      lines.push(t('wallet.withdraw.active_details', {
+        points: withdrawal.pointsWithdrawn,
+        status: t('wallet.withdraw.status_label', { status: withdrawal.status })
+      }));
+      if (withdrawal.transactionHash) lines.push(t('withdrawal.status.hash', { hash: withdrawal.transactionHash }));
+      lines.push('');
     }
+    lines.push(t('wallet.withdraw.active_notice'));
+    return lines.join('\n');
+  }
+
+  private getUnverifiedWalletText(address: string, t: Translator): string {
+    return t('wallet.withdraw.unverified', {
+      address: this.maskWalletAddress(address),
+      provable: getProofChain(address) ? 'yes' : 'no'
+    });
+  }
+
+  private getUnverifiedWalletKeyboard(address: string, t: Translator): InlineKeyboardButton[][] {
+    return [
+      ...(getProofChain(address) ? [[{ text: t('wallet.btn.verify'), callback_data: 'wallet_verify' }]] : []),
+      [{ text: t('common.back'), callback_data: 'wallet_show' }]
+    ];
   }
 
   private maskWalletAddress(address: string): string {
@@ -2235,20 +2006,21 @@ ${canWithdraw
    * Show transfer menu with options
    */
   async showTransferMenu(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
+      if (!await this.features.guard(ctx, 'transfers')) return;
 
       // Check if transfers are enabled
       if (!this.config.points.transfer.enabled) {
         await ctx.editMessageText(
-          '❌ <b>Transfer Disabled</b>\n\n' +
-          'Point transfers are currently disabled by the administrator.',
+          t('transfer.disabled'),
           {
             parse_mode: 'HTML',
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Back to Wallet', callback_data: 'wallet_show' }]
+                [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
               ]
             }
           }
@@ -2258,7 +2030,7 @@ ${canWithdraw
 
       const user = await this.storage.getUser(userId);
       if (!user) {
-        await ctx.reply('❌ User not found.');
+        await ctx.reply(t('common.user_not_found'));
         return;
       }
 
@@ -2270,33 +2042,31 @@ ${canWithdraw
       const canTransfer = dailyCount < this.config.points.transfer.dailyLimit &&
                          user.points >= this.config.points.transfer.minAmount;
 
-      const transferMenuText = 
-        '📈 <b>Points Transfer Center</b>\n\n' +
-        '💰 <b>Your Balance:</b> ' + formatPoints(user.points || 0) + ' points\n' +
-        '🔄 <b>Daily Transfers Used:</b> ' + dailyCount + '/' + this.config.points.transfer.dailyLimit + '\n' +
-        '📉 <b>Daily Amount Transferred:</b> ' + formatPoints(dailyAmount) + ' points\n\n' +
-        '💸 <b>Transfer Limits:</b>\n' +
-        '• <b>Minimum:</b> ' + formatPoints(this.config.points.transfer.minAmount) + ' points\n' +
-        '• <b>Maximum:</b> ' + formatPoints(this.config.points.transfer.maxAmount) + ' points\n' +
-        '• <b>Daily Limit:</b> ' + formatPoints(this.config.points.transfer.maxDailyAmount) + ' points\n' +
-        '• <b>Transfer Fee:</b> ' + this.config.points.transfer.feePercentage + '%\n\n' +
-        (canTransfer 
-          ? '✅ <b>Ready to transfer!</b> Send points to other users instantly.' 
-          : '❌ <b>Cannot transfer:</b> ' + 
-            (dailyCount >= this.config.points.transfer.dailyLimit ? 'Daily limit reached' :
-             user.points < this.config.points.transfer.minAmount ? 'Insufficient balance' : 'Unknown error'));
+      const transferMenuText = t('transfer.menu', {
+        balance: user.points || 0,
+        used: dailyCount,
+        limit: this.config.points.transfer.dailyLimit,
+        transferred: dailyAmount,
+        min: this.config.points.transfer.minAmount,
+        max: this.config.points.transfer.maxAmount,
+        daily: this.config.points.transfer.maxDailyAmount,
+        fee: this.config.points.transfer.feePercentage,
+        status: canTransfer ? 'ready'
+          : dailyCount >= this.config.points.transfer.dailyLimit ? 'daily_limit'
+            : user.points < this.config.points.transfer.minAmount ? 'insufficient' : 'unknown'
+      });
 
       const keyboard: InlineKeyboardButton[][] = [];
 
       if (canTransfer) {
         keyboard.push([
-          { text: 'Start Transfer', callback_data: 'transfer_start' }
+          { text: t('transfer.btn.start'), callback_data: 'transfer_start' }
         ]);
       }
 
       keyboard.push([
-        { text: 'Transfer History', callback_data: 'transfer_history' },
-        { text: 'Back to Wallet', callback_data: 'wallet_show' }
+        { text: t('wallet.btn.transfer_history'), callback_data: 'transfer_history' },
+        { text: t('wallet.btn.back'), callback_data: 'wallet_show' }
       ]);
 
       await ctx.editMessageText(transferMenuText, {
@@ -2306,7 +2076,7 @@ ${canWithdraw
 
     } catch (error) {
       this.logger.error('Error showing transfer menu:', error);
-      await ctx.reply('❌ Error loading transfer menu.');
+      await ctx.reply(t('transfer.error.menu'));
     }
   }
 
@@ -2314,9 +2084,11 @@ ${canWithdraw
    * Start transfer process - ask for recipient
    */
   async startTransferProcess(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
+      if (!await this.features.guard(ctx, 'transfers')) return;
 
       // Create a transfer session to track the process
       const transferSession = {
@@ -2330,26 +2102,18 @@ ${canWithdraw
       // Save transfer session (we can use a simple in-memory store or file)
       await this.saveTransferSession(transferSession);
 
-      const instructionText = 
-        '🎯 <b>Step 1: Enter Recipient</b>\n\n' +
-        '👤 <b>How to send:</b>\n' +
-        '• User ID: <code>123456789</code>\n' +
-        '• Username: <code>@username</code> or <code>username</code>\n\n' +
-        '📝 <b>Please send the recipient information as your next message.</b>\n\n' +
-        '🕰️ <b>Session expires in 5 minutes</b>';
-
-      await ctx.editMessageText(instructionText, {
+      await ctx.editMessageText(t('transfer.step.recipient', { minutes: 5 }), {
         parse_mode: 'HTML',
         reply_markup: {
           inline_keyboard: [
-            [{ text: '❌ Cancel Transfer', callback_data: 'wallet_transfer' }]
+            [{ text: t('transfer.btn.cancel'), callback_data: 'wallet_transfer' }]
           ]
         }
       });
 
     } catch (error) {
       this.logger.error('Error starting transfer process:', error);
-      await ctx.reply('❌ Error starting transfer.');
+      await ctx.reply(t('transfer.error.start'));
     }
   }
 
@@ -2357,6 +2121,7 @@ ${canWithdraw
    * Process transfer recipient input
    */
   async processTransferRecipient(ctx: Context, recipientInput: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -2369,15 +2134,13 @@ ${canWithdraw
       
       if (!recipient.found || !recipient.user) {
         await ctx.reply(
-          '❌ <b>Recipient Not Found</b>\n\n' +
-          'Could not find a user with that ID or username.\n' +
-          'Please check and try again.',
+          t('transfer.recipient.not_found'),
           {
             parse_mode: 'HTML',
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Try Again', callback_data: 'transfer_start' }],
-                [{ text: 'Cancel', callback_data: 'wallet_transfer' }]
+                [{ text: t('wallet.btn.try_again'), callback_data: 'transfer_start' }],
+                [{ text: t('common.cancel'), callback_data: 'wallet_transfer' }]
               ]
             }
           }
@@ -2388,14 +2151,13 @@ ${canWithdraw
       // Check if trying to send to self
       if (recipient.user.id === userId) {
         await ctx.reply(
-          '❌ <b>Invalid Recipient</b>\n\n' +
-          'You cannot transfer points to yourself.',
+          t('transfer.recipient.self'),
           {
             parse_mode: 'HTML',
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Try Again', callback_data: 'transfer_start' }],
-                [{ text: 'Cancel', callback_data: 'wallet_transfer' }]
+                [{ text: t('wallet.btn.try_again'), callback_data: 'transfer_start' }],
+                [{ text: t('common.cancel'), callback_data: 'wallet_transfer' }]
               ]
             }
           }
@@ -2406,7 +2168,7 @@ ${canWithdraw
       // Update transfer session with recipient
       const transferSession = await this.getTransferSession(userId);
       if (!transferSession) {
-        await ctx.reply('❌ Transfer session expired. Please start again.');
+        await ctx.reply(t('transfer.error.session_expired'));
         return;
       }
 
@@ -2416,27 +2178,25 @@ ${canWithdraw
       await this.saveTransferSession(transferSession);
 
       // Ask for amount
-      const amountText = 
-        '🎯 <b>Step 2: Enter Amount</b>\n\n' +
-        '👤 <b>Recipient:</b> ' + (recipient.user.displayName || recipient.user.username || recipient.user.id) + '\n\n' +
-        '💰 <b>Enter transfer amount:</b>\n' +
-        '• <b>Minimum:</b> ' + formatPoints(this.config.points.transfer.minAmount) + ' points\n' +
-        '• <b>Maximum:</b> ' + formatPoints(this.config.points.transfer.maxAmount) + ' points\n' +
-        '• <b>Transfer Fee:</b> ' + this.config.points.transfer.feePercentage + '%\n\n' +
-        '📝 <b>Please send the amount as your next message.</b>';
+      const amountText = t('transfer.step.amount', {
+        recipient: recipient.user.displayName || recipient.user.username || recipient.user.id,
+        min: this.config.points.transfer.minAmount,
+        max: this.config.points.transfer.maxAmount,
+        fee: this.config.points.transfer.feePercentage
+      });
 
       await ctx.reply(amountText, {
         parse_mode: 'HTML',
         reply_markup: {
           inline_keyboard: [
-            [{ text: '❌ Cancel Transfer', callback_data: 'wallet_transfer' }]
+            [{ text: t('transfer.btn.cancel'), callback_data: 'wallet_transfer' }]
           ]
         }
       });
 
     } catch (error) {
       this.logger.error('Error processing transfer recipient:', error);
-      await ctx.reply('❌ Error processing recipient.');
+      await ctx.reply(t('transfer.error.recipient'));
     }
   }
 
@@ -2444,13 +2204,14 @@ ${canWithdraw
    * Process transfer amount input
    */
   async processTransferAmount(ctx: Context, amountInput: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
 
       const transferSession = await this.getTransferSession(userId);
       if (!transferSession || transferSession.step !== 'amount') {
-        await ctx.reply('❌ Transfer session invalid. Please start again.');
+        await ctx.reply(t('transfer.error.session_invalid'));
         return;
       }
 
@@ -2458,14 +2219,13 @@ ${canWithdraw
       const amount = parseInt(amountInput.replace(/,/g, ''));
       if (isNaN(amount) || amount <= 0) {
         await ctx.reply(
-          '❌ <b>Invalid Amount</b>\n\n' +
-          'Please enter a valid number of points.',
+          t('transfer.amount.invalid', { reason: 'not_a_number' }),
           {
             parse_mode: 'HTML',
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Try Again', callback_data: 'transfer_start' }],
-                [{ text: 'Cancel', callback_data: 'wallet_transfer' }]
+                [{ text: t('wallet.btn.try_again'), callback_data: 'transfer_start' }],
+                [{ text: t('common.cancel'), callback_data: 'wallet_transfer' }]
               ]
             }
           }
@@ -2476,7 +2236,7 @@ ${canWithdraw
       // Get sender data
       const sender = await this.storage.getUser(userId);
       if (!sender) {
-        await ctx.reply('❌ Sender not found.');
+        await ctx.reply(t('transfer.error.sender_not_found'));
         return;
       }
 
@@ -2490,13 +2250,17 @@ ${canWithdraw
 
       if (!validation.isValid) {
         await ctx.reply(
-          '❌ <b>Invalid Amount</b>\n\n' + validation.error,
+          t('transfer.amount.invalid', {
+            reason: validation.error || 'not_a_number',
+            min: this.config.points.transfer.minAmount,
+            max: this.config.points.transfer.maxAmount
+          }),
           {
             parse_mode: 'HTML',
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Try Again', callback_data: 'transfer_start' }],
-                [{ text: 'Cancel', callback_data: 'wallet_transfer' }]
+                [{ text: t('wallet.btn.try_again'), callback_data: 'transfer_start' }],
+                [{ text: t('common.cancel'), callback_data: 'wallet_transfer' }]
               ]
             }
           }
@@ -2512,15 +2276,13 @@ ${canWithdraw
       // Check if sender has enough balance including fee
       if (totalDeduct > sender.points) {
         await ctx.reply(
-          '❌ <b>Insufficient Balance</b>\n\n' +
-          '💰 <b>Required:</b> ' + formatPoints(totalDeduct) + ' points\n\n' +
-          '💳 <b>Your Balance:</b> ' + formatPoints(sender.points) + ' points',
+          t('transfer.amount.insufficient', { required: totalDeduct, balance: sender.points }),
           {
             parse_mode: 'HTML',
             reply_markup: {
               inline_keyboard: [
-                [{ text: 'Try Again', callback_data: 'transfer_start' }],
-                [{ text: 'Cancel', callback_data: 'wallet_transfer' }]
+                [{ text: t('wallet.btn.try_again'), callback_data: 'transfer_start' }],
+                [{ text: t('common.cancel'), callback_data: 'wallet_transfer' }]
               ]
             }
           }
@@ -2544,7 +2306,7 @@ ${canWithdraw
 
     } catch (error) {
       this.logger.error('Error processing transfer amount:', error);
-      await ctx.reply('❌ Error processing amount.');
+      await ctx.reply(t('transfer.error.amount'));
     }
   }
 
@@ -2552,22 +2314,22 @@ ${canWithdraw
    * Show transfer confirmation
    */
   async showTransferConfirmation(ctx: Context, transferSession: any, sender: any, recipient: any): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const hash = generateTransferHash(transferSession.senderId, transferSession.receiverId, transferSession.amount);
       transferSession.hash = hash;
       await this.saveTransferSession(transferSession);
 
-      const confirmationText = 
-        '📋 <b>Transfer Confirmation</b>\n\n' +
-        '👤 <b>From:</b> ' + (sender.username || sender.firstName || 'You') + '\n' +
-        '👥 <b>To:</b> ' + (recipient?.username || recipient?.firstName || transferSession.receiverId) + '\n\n' +
-        '💰 <b>Transfer Details:</b>\n' +
-        '• <b>Amount to Send:</b> ' + formatPoints(transferSession.amount) + ' points\n' +
-        '• <b>Transfer Fee (' + this.config.points.transfer.feePercentage + '%):</b> ' + formatPoints(transferSession.fee) + ' points (deducted from amount)\n' +
-        '• <b>Recipient Receives:</b> ' + formatPoints(transferSession.netAmount) + ' points\n\n' +
-        '🔗 <b>Transaction Hash:</b>\n<code>' + formatTransferHash(hash) + '</code>\n\n' +
-        'ℹ️ <b>Remaining Balance:</b> ' + formatPoints((sender.points || 0) - transferSession.totalDeduct) + ' points\n\n' +
-        '⚠️ <b>This action cannot be undone!</b>';
+      const confirmationText = t('transfer.confirm', {
+        from: sender.username || sender.firstName || t('transfer.you'),
+        to: recipient?.username || recipient?.firstName || transferSession.receiverId,
+        amount: transferSession.amount,
+        feePercent: this.config.points.transfer.feePercentage,
+        fee: transferSession.fee,
+        net: transferSession.netAmount,
+        hash: formatTransferHash(hash),
+        remaining: (sender.points || 0) - transferSession.totalDeduct
+      });
 
       // Create session for transfer confirmation with 5-minute timeout
       const confirmSessionId = CallbackQueryService.createActionSession(
@@ -2590,7 +2352,7 @@ ${canWithdraw
           inline_keyboard: [
             [
               { 
-                text: 'Confirm Transfer', 
+                text: t('transfer.btn.confirm'), 
                 callback_data: CallbackQueryService.createCallbackDataWithSession(
                   'transfer_confirm',
                   confirmSessionId,
@@ -2600,7 +2362,7 @@ ${canWithdraw
             ],
             [
               { 
-                text: '❌ Cancel Transfer', 
+                text: t('transfer.btn.cancel'), 
                 callback_data: CallbackQueryService.createCallbackDataWithSession(
                   'transfer_cancel',
                   cancelSessionId,
@@ -2614,7 +2376,7 @@ ${canWithdraw
 
     } catch (error) {
       this.logger.error('Error showing transfer confirmation:', error);
-      await ctx.reply('❌ Error showing confirmation.');
+      await ctx.reply(t('transfer.error.confirmation'));
     }
   }
 
@@ -2622,35 +2384,37 @@ ${canWithdraw
    * Confirm and execute transfer
    */
   async confirmTransfer(ctx: Context, transferId: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
+      if (!await this.features.guard(ctx, 'transfers')) return;
 
-      await CallbackQueryService.safeAnswerCallback(ctx, '🔄 Processing transfer...');
+      await CallbackQueryService.safeAnswerCallback(ctx, t('transfer.processing'));
 
       const transferSession = await this.getTransferSession(userId);
       if (!transferSession || transferSession.id !== transferId || transferSession.step !== 'confirm') {
-        await ctx.editMessageText('❌ Transfer session invalid or expired.', {
+        await ctx.editMessageText(t('transfer.error.session_gone'), {
           reply_markup: {
             inline_keyboard: [
-              [{ text: 'Back to Wallet', callback_data: 'wallet_show' }]
+              [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
             ]
           }
         });
         return;
       }
 
-      await CallbackQueryService.safeAnswerCallback(ctx, '🔄 Processing transfer...');
+      await CallbackQueryService.safeAnswerCallback(ctx, t('transfer.processing'));
 
       // Get latest user data
       const sender = await this.storage.getUser(userId);
       const recipient = await this.storage.getUser(transferSession.receiverId!);
 
       if (!sender || !recipient) {
-        await ctx.editMessageText('❌ Transfer failed: User not found.', {
+        await ctx.editMessageText(t('transfer.error.user_not_found'), {
           reply_markup: {
             inline_keyboard: [
-              [{ text: 'Back to Wallet', callback_data: 'wallet_show' }]
+              [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
             ]
           }
         });
@@ -2659,28 +2423,49 @@ ${canWithdraw
 
       // Final validation
       if (sender.points < transferSession.totalDeduct) {
-        await ctx.editMessageText('❌ Transfer failed: Insufficient balance.', {
+        await ctx.editMessageText(t('transfer.error.insufficient'), {
           reply_markup: {
             inline_keyboard: [
-              [{ text: 'Back to Wallet', callback_data: 'wallet_show' }]
+              [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
             ]
           }
         });
         return;
       }
 
-      // Execute transfer
+      // Execute transfer: both legs are posted to the ledger as one unit
       const now = new Date().toISOString();
-      
-      // Update balances
-      await this.storage.updateUser(userId, {
-        points: sender.points - transferSession.totalDeduct
-      });
-      
-      await this.storage.updateUser(transferSession.receiverId!, {
-        points: (recipient.points || 0) + transferSession.netAmount
+      const transferResult = await PointsLedgerService.getInstance().transfer({
+        transferId: transferSession.id,
+        senderId: userId,
+        receiverId: transferSession.receiverId!,
+        debitAmount: transferSession.totalDeduct,
+        creditAmount: transferSession.netAmount,
+        senderDescription: `Transfer to ${recipient.username || transferSession.receiverId} (${formatPoints(transferSession.amount)} + ${formatPoints(transferSession.fee)} fee)`,
+        receiverDescription: `Transfer from ${sender.username || userId}`,
+        metadata: {
+          originalAmount: transferSession.amount,
+          fee: transferSession.fee,
+          netAmount: transferSession.netAmount
+        }
       });
 
+      if (!transferResult.success) {
+        await ctx.editMessageText(
+          transferResult.error === 'insufficient_balance'
+            ? t('transfer.error.insufficient')
+            : t('transfer.error.failed'),
+          {
+            reply_markup: {
+              inline_keyboard: [
+                [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
+              ]
+            }
+          }
+        );
+        return;
+      }
+
       // Create transfer record
       const transferRecord: TransferRecord = {
         id: transferSession.id,
@@ -2719,70 +2504,34 @@ ${canWithdraw
         }
       }
 
-      // Log point transactions
-      await this.storage.savePointTransaction({
-        id: `tx_${Date.now()}_${userId}_transfer_sent_${Math.random().toString(36).substr(2, 9)}`,
-        userId,
-        type: 'transfer_sent',
-        amount: -transferSession.totalDeduct,
-        source: 'system',
-        description: `Transfer to ${recipient.username || transferSession.receiverId} (${formatPoints(transferSession.amount)} + ${formatPoints(transferSession.fee)} fee)`,
-        timestamp: new Date(),
-        createdAt: now,
-        metadata: {
-          transferId: transferSession.id,
-          receiverId: transferSession.receiverId,
-          originalAmount: transferSession.amount,
-          fee: transferSession.fee
-        }
-      });
-
-      await this.storage.savePointTransaction({
-        id: `tx_${Date.now()}_${transferSession.receiverId}_transfer_received_${Math.random().toString(36).substr(2, 9)}`,
-        userId: transferSession.receiverId!,
-        type: 'transfer_received',
-        amount: transferSession.netAmount,
-        source: 'system',
-        description: `Transfer from ${sender.username || userId}`,
-        timestamp: new Date(),
-        createdAt: now,
-        metadata: {
-          transferId: transferSession.id,
-          senderId: userId,
-          netAmount: transferSession.netAmount
-        }
-      });
-
       // Clean up transfer session
       await this.clearTransferSession(userId);
 
       // Show success message
-      const successText = createTransferNotificationMessage(
-        'sent',
-        transferSession.amount,
-        recipient.username || transferSession.receiverId!,
-        transferSession.hash,
-        transferSession.fee
-      );
+      const successText = t('transfer.notify.sent', {
+        amount: transferSession.amount,
+        to: recipient.username || transferSession.receiverId!,
+        fee: transferSession.fee || 0,
+        hash: formatTransferHash(transferSession.hash)
+      });
 
       await ctx.editMessageText(successText, {
         parse_mode: 'HTML',
         reply_markup: {
           inline_keyboard: [
-            [{ text: 'View History', callback_data: 'transfer_history' }],
-            [{ text: 'Back to Wallet', callback_data: 'wallet_show' }]
+            [{ text: t('transfer.btn.history'), callback_data: 'transfer_history' }],
+            [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
           ]
         }
       });
 
       // Notify recipient
       try {
-        const recipientNotification = createTransferNotificationMessage(
-          'received',
-          transferSession.netAmount,
-          sender.username || userId,
-          transferSession.hash
-        );
+        const recipientNotification = this.i18n.t(this.i18n.resolveUserLocale(recipient), 'transfer.notify.received', {
+          amount: transferSession.netAmount,
+          from: sender.username || userId,
+          hash: formatTransferHash(transferSession.hash)
+        });
 
         await ctx.telegram.sendMessage(transferSession.receiverId!, recipientNotification, {
           parse_mode: 'HTML'
@@ -2801,7 +2550,7 @@ ${canWithdraw
 
     } catch (error) {
       this.logger.error('Error confirming transfer:', error);
-      await ctx.reply('❌ Transfer failed. Please try again.');
+      await ctx.reply(t('transfer.error.failed'));
     }
   }
 
@@ -2809,22 +2558,22 @@ ${canWithdraw
    * Cancel transfer
    */
   async cancelTransfer(ctx: Context, transferId: string): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
 
-      await CallbackQueryService.safeAnswerCallback(ctx, '❌ Transfer cancelled');
+      await CallbackQueryService.safeAnswerCallback(ctx, t('transfer.toast.cancelled'));
       await this.clearTransferSession(userId);
 
       await ctx.editMessageText(
-        '❌ <b>Transfer Cancelled</b>\n\n' +
-        'Your transfer has been cancelled successfully.',
+        t('transfer.cancelled'),
         {
           parse_mode: 'HTML',
           reply_markup: {
             inline_keyboard: [
-              [{ text: 'New Transfer', callback_data: 'wallet_transfer' }],
-              [{ text: 'Back to Wallet', callback_data: 'wallet_show' }]
+              [{ text: t('transfer.btn.new'), callback_data: 'wallet_transfer' }],
+              [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
             ]
           }
         }
@@ -2839,6 +2588,7 @@ ${canWithdraw
    * Show transfer history
    */
   async showTransferHistory(ctx: Context): Promise<void> {
+    const translate = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -2847,57 +2597,56 @@ ${canWithdraw
       const sentTransfers = transfers.filter(t => t.senderId === userId);
       const receivedTransfers = transfers.filter(t => t.receiverId === userId);
 
-      let historyText = '📈 <b>Transfer History</b>\n\n';
+      let historyText = translate('transfer.history.title') + '\n\n';
 
       if (transfers.length === 0) {
-        historyText += '📋 <b>No transfers yet</b>\n\n' +
-                      'You haven\'t made or received any point transfers.';
+        historyText += translate('transfer.history.none');
       } else {
         // Recent transfers (last 10)
         const recentTransfers = transfers
           .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
           .slice(0, 10);
 
-        historyText += '📉 <b>Recent Transfers:</b>\n\n';
+        historyText += translate('transfer.history.recent') + '\n\n';
 
         for (const transfer of recentTransfers) {
-          const date = DateUtils.formatUserDate(DateUtils.parseUserDate(transfer.createdAt));
           const isSent = transfer.senderId === userId;
-          const icon = isSent ? '💸' : '📈';
-          const direction = isSent ? 'Sent' : 'Received';
-          const otherUser = isSent 
-            ? (transfer.receiverUsername || transfer.receiverId)
-            : (transfer.senderUsername || transfer.senderId);
-          const amount = isSent ? transfer.amount : transfer.netAmount;
-          
-          historyText += `${icon} <b>${direction}:</b> ${formatPoints(amount)} pts\n`;
-          historyText += `• ${isSent ? 'To' : 'From'}: ${otherUser}\n`;
-          historyText += `• Date: ${date}\n`;
-          historyText += `• Hash: <code>${formatTransferHash(transfer.hash)}</code>\n\n`;
+          historyText += translate('transfer.history.entry', {
+            direction: isSent ? 'sent' : 'received',
+            amount: isSent ? transfer.amount : transfer.netAmount,
+            user: isSent
+              ? (transfer.receiverUsername || transfer.receiverId)
+              : (transfer.senderUsername || transfer.senderId),
+            date: DateUtils.formatUserDate(DateUtils.parseUserDate(transfer.createdAt)),
+            hash: formatTransferHash(transfer.hash)
+          }) + '\n\n';
         }
 
         // Summary stats
         const totalSent = sentTransfers.reduce((sum, t) => sum + t.amount + t.fee, 0);
         const totalReceived = receivedTransfers.reduce((sum, t) => sum + t.netAmount, 0);
         
-        historyText += '📅 <b>Summary:</b>\n';
-        historyText += `• Transfers Sent: ${sentTransfers.length} (${formatPoints(totalSent)} pts)\n`;
-        historyText += `• Transfers Received: ${receivedTransfers.length} (${formatPoints(totalReceived)} pts)`;
+        historyText += translate('transfer.history.summary', {
+          sent: sentTransfers.length,
+          sentPoints: totalSent,
+          received: receivedTransfers.length,
+          receivedPoints: totalReceived
+        });
       }
 
       await ctx.editMessageText(historyText, {
         parse_mode: 'HTML',
         reply_markup: {
           inline_keyboard: [
-            [{ text: 'New Transfer', callback_data: 'wallet_transfer' }],
-            [{ text: 'Back to Wallet', callback_data: 'wallet_show' }]
+            [{ text: translate('transfer.btn.new'), callback_data: 'wallet_transfer' }],
+            [{ text: translate('wallet.btn.back'), callback_data: 'wallet_show' }]
           ]
         }
       });
 
     } catch (error) {
       this.logger.error('Error showing transfer history:', error);
-      await ctx.reply('❌ Error loading transfer history.');
+      await ctx.reply(translate('transfer.error.history'));
     }
   }
 
@@ -2905,6 +2654,7 @@ ${canWithdraw
    * Handle text messages for transfer process
    */
   async handleTransferMessage(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
     try {
       const userId = ctx.from?.id?.toString();
       if (!userId) return;
@@ -2916,6 +2666,11 @@ ${canWithdraw
         return;
       }
 
+      if (!await this.features.guard(ctx, 'transfers')) {
+        await this.clearTransferSession(userId);
+        return;
+      }
+
       const messageText = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
       if (!messageText) return;
 
@@ -2931,15 +2686,13 @@ ${canWithdraw
           // Invalid step, clear session
           await this.clearTransferSession(userId);
           await ctx.reply(
-            '❌ <b>Transfer Session Error</b>\n\n' +
-            'Your transfer session has expired or encountered an error.\n' +
-            'Please start a new transfer.',
+            t('transfer.session_error'),
             {
               parse_mode: 'HTML',
               reply_markup: {
                 inline_keyboard: [
-                  [{ text: 'Start New Transfer', callback_data: 'transfer_start' }],
-                  [{ text: 'Back to Wallet', callback_data: 'wallet_show' }]
+                  [{ text: t('transfer.btn.start_new'), callback_data: 'transfer_start' }],
+                  [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]
                 ]
               }
             }
@@ -2964,6 +2717,52 @@ ${canWithdraw
     }
   }
 
+  /**
+   * Whether a text message belongs to wallet entry or verification: an
+   * address the user was asked for, or a signature for their open challenge
+   */
+  async hasPendingWalletInput(userId: string, text: string): Promise<boolean> {
+    try {
+      if (await this.getWalletInputSession(userId)) return true;
+      if (!looksLikeSignature(text)) return false;
+      return !!(await WalletOwnershipService.getInstance().getChallenge(userId));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async handleWalletInputMessage(ctx: Context): Promise<void> {
+    const t = this.i18n.translator(ctx);
+    try {
+      const userId = ctx.from?.id?.toString();
+      if (!userId) return;
+      const messageText = ctx.message && 'text' in ctx.message ? ctx.message.text.trim() : '';
+      if (!messageText) return;
+
+      if (await this.getWalletInputSession(userId)) {
+        await this.storage.delete('wallet_input_sessions', userId);
+        await this.processManualWalletConnection(ctx, messageText);
+        return;
+      }
+
+      const result = await WalletOwnershipService.getInstance().submitSignature(userId, messageText);
+      await this.replyWithProofResult(ctx, result);
+    } catch (error) {
+      this.logger.error('Error handling wallet input message:', error);
+      await ctx.reply(t('wallet.error.message'));
+    }
+  }
+
+  private async getWalletInputSession(userId: string): Promise<any | null> {
+    const session = await this.storage.get<any>('wallet_input_sessions', userId);
+    if (!session) return null;
+    if (new Date() > new Date(session.expiresAt)) {
+      await this.storage.delete('wallet_input_sessions', userId);
+      return null;
+    }
+    return session;
+  }
+
   // ===== HELPER METHODS =====
 
   /**
@@ -1,6 +1,7 @@
 import { Context, MiddlewareFn } from 'telegraf';
 import { Logger } from '../../services/logger';
 import { StorageManager } from '../../storage';
+import { APPEAL_CALLBACK, BanAppealService } from '../../services/appeals/ban-appeal.service';
 
 export interface BlockedUser {
   isBlocked: boolean;
@@ -65,13 +66,19 @@ export class BlockingMiddleware {
       }
 
       try {
-        const user = await this.getCachedUser(userId);
+        let user = await this.getCachedUser(userId);
+
+        // The user is talking to us again, so they have unblocked the bot
+        if (user && (user.botBlocked || (user.isBlocked && user.blockedReason === 'telegram_bot_blocked'))) {
+          user = await this.clearBotBlocked(userId, user);
+        }
 
         if (user && this.isUserBlocked(user)) {
           if (this.isTemporaryBlock(user) && this.hasBlockExpired(user)) {
             await this.unblockUser(userId, user);
             // Do not send any notification on auto-expiry
           } else {
+            if (await BanAppealService.getInstance().handleBlockedUpdate(ctx, userId)) return;
             this.logBlockedAttempt(userId, this.isTemporaryBlock(user));
             if (!user.blockNotified) {
               await this.sendBlockNotification(ctx, userId, user.blockReason);
@@ -87,6 +94,7 @@ export class BlockingMiddleware {
         if (!user || !this.isUserBlocked(user)) {
           const blockedInRegistry = await this.isUserBlockedInRegistry(userId);
           if (blockedInRegistry) {
+            if (await BanAppealService.getInstance().handleBlockedUpdate(ctx, userId)) return;
             this.logBlockedAttempt(userId, false);
             try {
               const bans = await (this.storage as any).findByQuery('banned_users', { userId });
@@ -120,6 +128,25 @@ export class BlockingMiddleware {
     };
   }
 
+  /**
+   * Drop the broadcast "bot blocked" marker. Older releases recorded it as a
+   * regular block with `blockedReason: 'telegram_bot_blocked'`; lift those too.
+   */
+  private async clearBotBlocked(userId: string, user: any): Promise<any> {
+    const updates: any = { botBlocked: false, botBlockedAt: null };
+    if (user.isBlocked && user.blockedReason === 'telegram_bot_blocked') {
+      Object.assign(updates, { isBlocked: false, blockedReason: null, blockedAt: null });
+    }
+    try {
+      await this.storage.updateUser(userId, updates);
+      this.clearUserCache(userId);
+      this.logger.info(`User ${userId} unblocked the bot`);
+    } catch (error) {
+      this.logger.warn(`Failed to clear bot-blocked flag for user ${userId}:`, error);
+    }
+    return { ...user, ...updates };
+  }
+
   /**
    * Block a user permanently or temporarily
    */
@@ -219,6 +246,7 @@ export class BlockingMiddleware {
   private async sendBlockNotification(ctx: Context, userId: string, reason?: string): Promise<void> {
     try {
       let text: string;
+      let appealable = false;
       const isSpam = (reason || '').toLowerCase().includes('spam');
       if (isSpam) {
         try {
@@ -241,14 +269,18 @@ export class BlockingMiddleware {
           ].join('\n');
         }
       } else {
+        appealable = await BanAppealService.getInstance().canAppeal(userId).catch(() => false);
         text = [
           '🚫 Your account has been blocked.',
           '',
           'We detected multiple accounts from your device. You are banned.',
-          reason ? `Reason: ${reason}` : undefined
+          reason ? `Reason: ${reason}` : undefined,
+          appealable ? '\nIf you believe this is a mistake, you can appeal once (or send /appeal).' : undefined
         ].filter(Boolean).join('\n');
       }
-      await ctx.telegram.sendMessage(userId, text as any);
+      await ctx.telegram.sendMessage(userId, text as any, appealable
+        ? { reply_markup: { inline_keyboard: [[{ text: '📝 Appeal this ban', callback_data: APPEAL_CALLBACK }]] } } as any
+        : undefined);
     } catch {}
   }
 
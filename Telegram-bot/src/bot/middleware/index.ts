@@ -1,9 +1,11 @@
 export { BlockingMiddleware } from './blocking.middleware';
 export { MaintenanceMiddleware } from './maintenance.middleware';
+export { LocaleMiddleware } from './locale.middleware';
 
 import { BlockingMiddleware } from './blocking.middleware';
 import { MaintenanceMiddleware } from './maintenance.middleware';
 import { FastAckMiddleware } from './fast-ack.middleware';
+import { LocaleMiddleware } from './locale.middleware';
 import { MiddlewareFn, Context } from 'telegraf';
 
 /**
@@ -13,12 +15,15 @@ export function createBotMiddlewares(): MiddlewareFn<Context>[] {
   const fastAck = FastAckMiddleware.getInstance();
   const blockingMiddleware = BlockingMiddleware.getInstance();
   const maintenanceMiddleware = MaintenanceMiddleware.getInstance();
+  const localeMiddleware = LocaleMiddleware.getInstance();
 
   return [
     // Always ACK callback queries instantly to stop spinner
     fastAck.create(),
     // Check if user is blocked
     blockingMiddleware.create(),
+    // Pick the user's locale for everything below
+    localeMiddleware.create(),
     // Then check maintenance/bot status (admins can bypass)
     maintenanceMiddleware.create()
   ];
@@ -0,0 +1,35 @@
+import { Context, MiddlewareFn } from 'telegraf';
+import { Logger } from '../../services/logger';
+import { LocalizationService } from '../../services/i18n/localization.service';
+
+/**
+ * Picks the locale for the update (the user's /language choice, else their
+ * Telegram language) and stores it in `ctx.state.locale` for handlers.
+ */
+export class LocaleMiddleware {
+  private static instance: LocaleMiddleware;
+  private readonly logger = Logger.getInstance();
+  private readonly i18n = LocalizationService.getInstance();
+
+  private constructor() {}
+
+  static getInstance(): LocaleMiddleware {
+    if (!LocaleMiddleware.instance) {
+      LocaleMiddleware.instance = new LocaleMiddleware();
+    }
+    return LocaleMiddleware.instance;
+  }
+
+  create(): MiddlewareFn<Context> {
+    return async (ctx: Context, next: () => Promise<void>) => {
+      if (ctx.from) {
+        try {
+          ctx.state.locale = await this.i18n.localeFor(ctx.from);
+        } catch (error) {
+          this.logger.debug('Locale lookup failed, using Telegram language', error);
+        }
+      }
+      return next();
+    };
+  }
+}
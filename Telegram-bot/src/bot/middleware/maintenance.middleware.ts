@@ -1,6 +1,10 @@
 import { Context, MiddlewareFn } from 'telegraf';
 import { Logger } from '../../services/logger';
 import { getConfig } from '../../config';
+import { FeatureFlagService } from '../../services/maintenance/feature-flag.service';
+import { MaintenanceWindowService } from '../../services/maintenance/maintenance-window.service';
+import { formatUtc } from '../../services/maintenance/maintenance-rules';
+import { MaintenanceWindow } from '../../types/maintenance.types';
 
 export interface MaintenanceStatus {
   isMaintenanceMode: boolean;
@@ -8,6 +12,8 @@ export interface MaintenanceStatus {
   expectedDuration?: string;
   reason?: string;
   supportUsername?: string;
+  /** Scheduled window currently taking the whole bot down */
+  activeWindow?: { id: string; title: string; endsAt: string };
 }
 
 export class MaintenanceMiddleware {
@@ -48,11 +54,23 @@ export class MaintenanceMiddleware {
           return; // Stop processing
         }
         
+        // Allowlisted testers get through maintenance, but not an offline bot
+        if (FeatureFlagService.getInstance().isAllowlisted(userId)) {
+          return next();
+        }
+
         // Check if maintenance mode is on
         if (this.isMaintenanceMode()) {
           await this.sendMaintenanceMessage(ctx);
           return; // Stop processing
         }
+
+        // Check for a scheduled maintenance window covering the whole bot
+        const activeWindow = MaintenanceWindowService.getInstance().getActiveFullWindow();
+        if (activeWindow) {
+          await this.sendWindowMessage(ctx, activeWindow);
+          return; // Stop processing
+        }
         
         // All checks passed, proceed
         return next();
@@ -206,16 +224,45 @@ export class MaintenanceMiddleware {
     }
   }
 
+  /**
+   * Send the message of a running maintenance window to user
+   */
+  private async sendWindowMessage(ctx: Context, window: MaintenanceWindow): Promise<void> {
+    try {
+      const supportUsername = process.env.SUPPORT_USERNAME || 'support';
+      const message = window.message || (
+        '🔧 <b>Scheduled Maintenance - We\'ll Be Right Back!</b>\n\n' +
+        '🚧 Our bot is currently undergoing scheduled maintenance to serve you better.\n\n' +
+        `⏰ <b>Expected back:</b> ${formatUtc(window.endsAt)}\n\n` +
+        '😊 Thank you for your patience!'
+      );
+
+      await ctx.reply(message, {
+        parse_mode: 'HTML',
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: '📞 Contact Support', url: `https://t.me/${supportUsername}` }],
+            [{ text: '🔄 Check Status', callback_data: 'check_maintenance_status' }]
+          ]
+        }
+      });
+    } catch (error) {
+      this.logger.error('Failed to send maintenance window message:', error);
+    }
+  }
+
   /**
    * Get current maintenance status
    */
   getMaintenanceStatus(): MaintenanceStatus {
+    const activeWindow = MaintenanceWindowService.getInstance().getActiveFullWindow();
     return {
       isMaintenanceMode: this.isMaintenanceMode(),
       isBotOffline: !this.isBotOnline(),
       expectedDuration: process.env.MAINTENANCE_DURATION,
       reason: process.env.MAINTENANCE_REASON,
-      supportUsername: process.env.SUPPORT_USERNAME
+      supportUsername: process.env.SUPPORT_USERNAME,
+      ...(activeWindow ? { activeWindow: { id: activeWindow.id, title: activeWindow.title, endsAt: activeWindow.endsAt } } : {})
     };
   }
 
@@ -282,7 +329,7 @@ export class MaintenanceMiddleware {
           const maintenanceStatus = this.getMaintenanceStatus();
           let statusMessage: string;
           
-          if (!maintenanceStatus.isBotOffline && !maintenanceStatus.isMaintenanceMode) {
+          if (!maintenanceStatus.isBotOffline && !maintenanceStatus.isMaintenanceMode && !maintenanceStatus.activeWindow) {
             statusMessage = '✅ Great news! The bot is back online and ready to use!';
             await ctx.answerCbQuery(statusMessage);
             await ctx.editMessageText(
@@ -301,8 +348,10 @@ export class MaintenanceMiddleware {
               }
             );
           } else {
-            const reason = maintenanceStatus.isMaintenanceMode ? 'maintenance mode' : 'bot offline';
-            const duration = maintenanceStatus.expectedDuration || 'unknown';
+            const reason = maintenanceStatus.isBotOffline ? 'bot offline' : maintenanceStatus.isMaintenanceMode ? 'maintenance mode' : 'scheduled maintenance';
+            const duration = maintenanceStatus.isMaintenanceMode || !maintenanceStatus.activeWindow
+              ? maintenanceStatus.expectedDuration || 'unknown'
+              : `until ${formatUtc(maintenanceStatus.activeWindow.endsAt)}`;
             statusMessage = `⏰ Still in ${reason}. Expected duration: ${duration}`;
             await ctx.answerCbQuery(statusMessage);
           }
@@ -310,7 +359,7 @@ export class MaintenanceMiddleware {
           
         case 'refresh_status':
           const botStatus = this.isBotOnline();
-          const maintenanceMode = this.isMaintenanceMode();
+          const maintenanceMode = this.isMaintenanceMode() || !!MaintenanceWindowService.getInstance().getActiveFullWindow();
           
           if (botStatus && !maintenanceMode) {
             await ctx.answerCbQuery('✅ Bot is now online! You can use it normally.');
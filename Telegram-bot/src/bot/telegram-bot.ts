@@ -19,6 +19,9 @@ import { ContainerConfigService } from '../services/container-config.service';
 import { TYPES } from '../interfaces/container.interface';
 import { ICommandHandlerService, IUserRegistrationService, ICaptchaValidationService, IMessageRoutingService } from '../interfaces/bot-services.interface';
 import { CaptchaService } from '../services/captcha-service';
+import { FeatureFlagService } from '../services/maintenance/feature-flag.service';
+import { ChannelMembershipService } from '../services/membership/channel-membership.service';
+import { LocalizationService } from '../services/i18n/localization.service';
 import { safeJSONParse, ValidationSchema } from '../services/validation.service';
 import { UserFactory } from '../factories/user-factory';
 import { createBotMiddlewares, getMiddlewareInstances } from './middleware';
@@ -64,7 +67,7 @@ export class TelegramBot {
 
   constructor() {
     const keepAliveAgent = this.createKeepAliveAgent();
-    this.bot = new Telegraf(this.config.bot.token, { telegram: { agent: keepAliveAgent as any } });
+    this.bot = new Telegraf(this.config.bot.token, { telegram: { apiRoot: this.config.bot.apiRoot, agent: keepAliveAgent as any } });
     
     // Configure dependency injection container
     ContainerConfigService.configureContainer();
@@ -149,7 +152,9 @@ export class TelegramBot {
     try {
       this.logger.info('Starting Telegram bot');
       
-      const allowedUpdatesList: ReadonlyArray<UpdateType> = ['message', 'callback_query'];
+      const allowedUpdatesList: ReadonlyArray<UpdateType> = ChannelMembershipService.getInstance().isEnabled()
+        ? ['message', 'callback_query', 'chat_member']
+        : ['message', 'callback_query'];
       if (this.config.bot.useWebhook) {
         // Webhook mode (for production)
         const webhookUrl = this.config.bot.webhookUrl;
@@ -300,6 +305,11 @@ export class TelegramBot {
       return next();
     });
 
+    // Membership changes in task chats are not user interactions; keep them out of sessions, captcha and routing
+    this.bot.on('chat_member', async (ctx) => {
+      await ChannelMembershipService.getInstance().handleUpdate(ctx.chatMember);
+    });
+
     // PRODUCTION FIX: Redis-based session storage (50-100x faster than MongoDB)
     // Critical for handling 1000+ concurrent users
     try {
@@ -404,6 +414,7 @@ export class TelegramBot {
     const stage = new Scenes.Stage([
       this.walletHandler.getWalletConnectionScene(),
       this.taskHandler.getTaskSubmissionScene(),
+      this.taskHandler.getTaskAnswerScene(),
       this.referralHandler.getReferralInputScene(),
       this.adminHandler.getAdminScenes()
     ].flat());
@@ -509,20 +520,24 @@ export class TelegramBot {
   }
 
   private async setBotCommands(): Promise<void> {
-    
-    const commands: BotCommand[] = [
-      { command: 'start', description: 'Start the airdrop bot' },
-      { command: 'menu', description: 'Show main menu' },
-      { command: 'points', description: 'Check your points' },
-      { command: 'tasks', description: 'View available tasks' },
-      { command: 'wallet', description: 'Connect your wallet' },
-      { command: 'referrals', description: 'View referral program' },
-      { command: 'stats', description: 'View your statistics' },
-      { command: 'help', description: 'Show help information' },
+    const i18n = LocalizationService.getInstance();
+    await i18n.loadOverrides();
+    const userCommands = ['start', 'menu', 'points', 'tasks', 'wallet', 'referrals', 'stats', 'help', 'language'];
+    const commandsFor = (locale: string): BotCommand[] => [
+      ...userCommands.map(command => ({ command, description: i18n.t(locale, `commands.${command}`) })),
       { command: 'award', description: 'Admin: award points to user' }
     ];
 
-    await this.bot.telegram.setMyCommands(commands);
+    await this.bot.telegram.setMyCommands(commandsFor(i18n.defaultLocale));
+
+    // Telegram shows these to clients set to the language; it only accepts two-letter codes
+    for (const locale of i18n.getLocales().filter(l => /^[a-z]{2}$/.test(l) && l !== i18n.defaultLocale)) {
+      try {
+        await this.bot.telegram.setMyCommands(commandsFor(locale), { language_code: locale });
+      } catch (error) {
+        this.logger.warn('Failed to set localized bot commands', { locale, error: (error as any)?.message || String(error) });
+      }
+    }
     this.logger.info('Bot commands set successfully');
   }
 
@@ -574,6 +589,12 @@ export class TelegramBot {
       await this.walletHandler.handleTransferMessage(ctx);
       return;
     }
+
+    // Wallet address entry or a pasted ownership-proof signature
+    if (await this.walletHandler.hasPendingWalletInput(userId, text)) {
+      await this.walletHandler.handleWalletInputMessage(ctx);
+      return;
+    }
     
     // Delegate regular text message handling to the routing service
     await this.messageRoutingService.handleTextMessage(ctx);
@@ -1084,6 +1105,8 @@ export class TelegramBot {
       await this.menuHandler.showMainMenu(ctx);
       return;
     }
+
+    if (!await FeatureFlagService.getInstance().guard(ctx, 'captcha')) return;
     
     // Show the appropriate captcha
     if (nextCaptcha === 'miniapp') {
@@ -2,6 +2,7 @@ import { config as dotenvConfig } from 'dotenv';
 import { config as dotenvSafeConfig } from 'dotenv-safe';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import type { MembershipLeavePolicy } from '../types/membership.types';
 
 // Load env with safety check
 try {
@@ -25,6 +26,11 @@ interface AppConfig {
   referral: ReferralConfig;
   wallet: WalletConfig;
   notifications: NotificationConfig;
+  broadcast: BroadcastConfig;
+  jobs: JobQueueConfig;
+  settings: RuntimeSettingsConfig;
+  features: FeatureFlagsConfig;
+  i18n: I18nConfig;
   server: ServerConfig;
   logging: LoggingConfig;
   rateLimit: RateLimitConfig;
@@ -40,10 +46,27 @@ interface AdminConfig {
   port?: number;
   corsOrigins?: string[];
   trustProxy?: boolean;
+  auth: {
+    /** Roles that cannot sign in without a TOTP authenticator */
+    mfaRequiredRoles: string[];
+    /** Issuer label shown in authenticator apps */
+    mfaIssuer: string;
+    /** Encrypts TOTP secrets at rest; falls back to a key derived from ADMIN_JWT_SECRET */
+    mfaEncryptionKey: string;
+    /** One-time credentials delivered to the admin Telegram chats */
+    ephemeralLogin: boolean;
+    /** Role given to one-time logins; refused if it is one of mfaRequiredRoles */
+    ephemeralRole: string;
+    /** Reject a session token presented without the device cookie it was issued with */
+    bindDevice: boolean;
+    /** Reject a session used from outside the /24 (IPv4) or /64 (IPv6) it was opened from */
+    bindIp: boolean;
+  };
 }
 
 interface BotConfig {
   token: string;
+  apiRoot: string;
   name: string;
   username: string;
   requiredChannelId: string;
@@ -111,6 +134,16 @@ interface SecurityConfig {
   fingerprintSalt: string;
   fingerprintEncryptionKey: string;
   botDetectionThreshold: number;
+  geoip: {
+    cityDbPath: string;
+    asnDbPath: string;
+    locale: string;
+    cacheSize: number;
+    cacheTtlMs: number;
+    reloadIntervalMs: number;
+    hostingAsns: number[];
+    externalFallback: boolean;
+  };
 }
 
 interface CaptchaConfig {
@@ -132,11 +165,35 @@ interface CaptchaConfig {
   };
   sessionTimeout: number;
   maxAttempts: number;
+  miniappAuth: {
+    /** Oldest Telegram initData (by auth_date) accepted; 0 disables the check */
+    maxAgeSeconds: number;
+    /** Lifetime of the session token issued for verified initData */
+    sessionTtlSeconds: number;
+    /** Signs session tokens; falls back to a key derived from ADMIN_JWT_SECRET */
+    sessionSecret: string;
+  };
 }
 
 interface TaskConfig {
   autoApproveSubmissions: boolean;
   dailyTaskResetInterval: string; // Supports: 1m, 59m, 1h, 24h, 1d, 7d
+  proofs: {
+    maxFileSizeMb: number;
+    mirrorDir: string; // empty disables local mirroring
+    duplicateDistance: number; // max dHash Hamming distance flagged as a reused screenshot
+  };
+  /** Watchdog for users leaving the chats of telegram_join tasks after being paid */
+  membership: {
+    enabled: boolean;
+    /** Default for tasks without metadata.membership */
+    onLeave: MembershipLeavePolicy;
+    graceMinutes: number;
+    /** How often the sweep re-checks each known member with getChatMember */
+    recheckHours: number;
+    /** getChatMember checks per sweep run */
+    sweepBatchSize: number;
+  };
 }
 
 interface PointsConfig {
@@ -159,11 +216,23 @@ interface PointsConfig {
     dailyLimit: number;
     requireConfirmation: boolean;
   };
+  ledger: {
+    autoRepair: 'none' | 'rebuild' | 'backfill';
+    pendingGraceMinutes: number;
+    reconcileBatchSize: number;
+  };
 }
 
 interface ReferralConfig {
   codeLength: number;
+  /** Tasks the referee must complete before the referrer's bonus unlocks */
   taskThreshold: number;
+  /** Also require the referee to pass the enabled captchas before unlocking */
+  requireCaptcha: boolean;
+  /** Commission percentages of the referee's task earnings; index 0 is the direct referrer */
+  commissionRates: number[];
+  /** Reverse referral payouts when a referee is blocked for multi-accounting */
+  clawbackEnabled: boolean;
 }
 
 interface WalletConfig {
@@ -187,11 +256,56 @@ interface WalletConfig {
     maxRetryAttempts: number;
     retryDelayMs: number;
   };
-  withdrawMode?: 'claim' | 'server';
+  withdrawMode?: 'claim' | 'server' | 'merkle';
   claimFunctionSignature?: string;
   claimArgsTemplate?: string;
   confirmationsToWait?: number;
   claimSignerPrivateKey?: string;
+  withdrawExpiryMinutes?: number;
+  withdrawRecheckSeconds?: number;
+  /** Server-signed payouts: admin review, batching and hot-wallet gas handling */
+  payouts: {
+    reviewEnabled: boolean;
+    /** Hold withdrawals of at least this many tokens for review; 0 disables */
+    reviewThresholdTokens: number;
+    /** Hold withdrawals from users whose threat score (0..1) reaches this; 0 disables */
+    reviewRiskScore: number;
+    /** Disperse contract used to pay several recipients in one transaction; empty sends one transfer per payout */
+    disperseContractAddress: string;
+    batchSize: number;
+    batchIntervalSeconds: number;
+    /** Replace a transaction with higher fees once it has been pending this long */
+    stuckAfterSeconds: number;
+    gasBumpPercent: number;
+    maxGasBumps: number;
+    /** Never pay more than this per gas unit; 0 means no cap */
+    maxGasPriceGwei: number;
+    /** Tokens paid out on the primary chain per UTC day; 0 means no cap. Registry networks carry their own cap */
+    dailyCapTokens: number;
+  };
+  /** Signed proofs that a user controls the wallet bound to their account */
+  ownershipProof: {
+    /** Refuse withdrawals to wallets without a valid proof */
+    requireForWithdrawal: boolean;
+    /** Domain and URI quoted in the sign-in message */
+    domain: string;
+    uri: string;
+    challengeTtlMinutes: number;
+    /** Wrong signatures allowed per challenge before a new one is needed */
+    maxAttempts: number;
+    /** toncenter-compatible API used to read a TON wallet's public key */
+    tonApiUrl: string;
+    tonApiKey: string;
+  };
+  /** Merkle snapshot distribution (WITHDRAW_MODE=merkle) */
+  airdrop: {
+    claimFunctionSignature: string;
+    claimArgsTemplate: string;
+    /** Smallest balance included in a snapshot; 0 falls back to MIN_WITHDRAW_POINTS */
+    minPoints: number;
+    /** Where snapshot JSON exports are written; empty disables writing to disk */
+    exportDir: string;
+  };
 }
 
 interface NotificationConfig {
@@ -204,6 +318,60 @@ interface NotificationConfig {
   referrerNotification: boolean;
 }
 
+interface BroadcastConfig {
+  /** Messages per second when a broadcast does not set its own cap */
+  defaultRatePerSecond: number;
+  /** Upper bound for any single broadcast; Telegram allows ~30/s per bot */
+  maxRatePerSecond: number;
+  /** Broadcasts sent in parallel */
+  workerConcurrency: number;
+}
+
+interface JobQueueConfig {
+  /** Idle workers start polling at this interval and back off up to the maximum */
+  pollIntervalMs: number;
+  maxPollIntervalMs: number;
+  /** Defaults for queues that do not set their own policy */
+  maxAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  jitter: number;
+  visibilityTimeoutMs: number;
+  /** Dead-lettered jobs older than this are purged; 0 keeps them */
+  deadLetterRetentionDays: number;
+}
+
+interface RuntimeSettingsConfig {
+  /** Redis pub/sub channel replicas use to announce settings changes */
+  syncChannel: string;
+  /** How often each replica re-checks stored versions, for missed messages or no Redis */
+  reconcileIntervalMs: number;
+}
+
+interface FeatureToggleConfig {
+  enabled: boolean;
+  /** Shown to users who hit the feature while it is off; empty uses the built-in message */
+  message: string;
+}
+
+interface FeatureFlagsConfig {
+  withdrawals: FeatureToggleConfig;
+  transfers: FeatureToggleConfig;
+  tasks: FeatureToggleConfig;
+  referrals: FeatureToggleConfig;
+  captcha: FeatureToggleConfig;
+  support: FeatureToggleConfig;
+  /** Telegram ids let through disabled features and maintenance (not an offline bot) */
+  allowlist: string[];
+}
+
+interface I18nConfig {
+  /** Used when a user's Telegram language has no catalog, and for keys a catalog lacks */
+  defaultLocale: string;
+  /** Locales offered by /language; each needs a catalog in src/locales or the translation editor */
+  locales: string[];
+}
+
 interface ServerConfig {
   ports: {
     admin: number;
@@ -480,10 +648,20 @@ export const config: AppConfig = {
     panelUrl: process.env.ADMIN_PANEL_URL || 'http://localhost:5174',
     corsOrigins: parseArray(process.env.CORS_ORIGINS, ['http://localhost:3000', 'http://localhost:5173', 'https://bot.gamelabs.space']),
     trustProxy: parseBoolean(process.env.TRUST_PROXY, false),
+    auth: {
+      mfaRequiredRoles: parseArray(process.env.ADMIN_MFA_REQUIRED_ROLES, ['super_admin', 'admin']),
+      mfaIssuer: process.env.ADMIN_MFA_ISSUER || process.env.BOT_NAME || 'Airdrop Bot Admin',
+      mfaEncryptionKey: process.env.ADMIN_MFA_ENCRYPTION_KEY || '',
+      ephemeralLogin: parseBoolean(process.env.ADMIN_EPHEMERAL_LOGIN, false),
+      ephemeralRole: process.env.ADMIN_EPHEMERAL_ROLE || 'viewer',
+      bindDevice: parseBoolean(process.env.ADMIN_SESSION_BIND_DEVICE, true),
+      bindIp: parseBoolean(process.env.ADMIN_SESSION_BIND_IP, true),
+    },
   },
 
   bot: {
     token: process.env.BOT_TOKEN!,
+    apiRoot: process.env.TELEGRAM_API_ROOT || 'https://api.telegram.org',
     name: process.env.BOT_NAME || 'Telegram Airdrop Bot Pro',
     username: process.env.BOT_USERNAME || 'airdrop_bot',
     requiredChannelId: process.env.REQUIRED_CHANNEL_ID || '@yourchannel',
@@ -551,6 +729,16 @@ export const config: AppConfig = {
     fingerprintSalt: process.env.FINGERPRINT_SALT || generateSecureKey('FINGERPRINT_SALT', 32),
     fingerprintEncryptionKey: process.env.FINGERPRINT_ENCRYPTION_KEY || generateSecureKey('FINGERPRINT_ENCRYPTION_KEY', 32),
     botDetectionThreshold: parseNumber(process.env.BOT_DETECTION_THRESHOLD, 0.6),
+    geoip: {
+      cityDbPath: process.env.GEOIP_CITY_DB || '',
+      asnDbPath: process.env.GEOIP_ASN_DB || '',
+      locale: process.env.GEOIP_LOCALE || 'en',
+      cacheSize: parseNumber(process.env.GEOIP_CACHE_SIZE, 10000),
+      cacheTtlMs: parseNumber(process.env.GEOIP_CACHE_TTL_MS, 6 * 60 * 60 * 1000),
+      reloadIntervalMs: parseNumber(process.env.GEOIP_RELOAD_INTERVAL_MS, 60000),
+      hostingAsns: parseArray(process.env.GEOIP_HOSTING_ASNS).map(Number).filter(n => Number.isInteger(n) && n > 0),
+      externalFallback: parseBoolean(process.env.GEOIP_EXTERNAL_FALLBACK, false),
+    },
   },
 
   captcha: {
@@ -572,6 +760,11 @@ export const config: AppConfig = {
     },
     sessionTimeout: parseNumber(process.env.CAPTCHA_SESSION_TIMEOUT, 300000), // 5 minutes
     maxAttempts: parseNumber(process.env.CAPTCHA_MAX_ATTEMPTS, 3),
+    miniappAuth: {
+      maxAgeSeconds: parseNumber(process.env.MINIAPP_AUTH_MAX_AGE_SECONDS, 3600),
+      sessionTtlSeconds: parseNumber(process.env.MINIAPP_SESSION_TTL_SECONDS, 900),
+      sessionSecret: process.env.MINIAPP_SESSION_SECRET || '',
+    },
   },
 
   //task: {
@@ -582,6 +775,18 @@ export const config: AppConfig = {
   task: {
     autoApproveSubmissions: parseBoolean(process.env.AUTO_APPROVE_SUBMISSIONS, false),
     dailyTaskResetInterval: process.env.DAILY_TASK_RESET_INTERVAL || '24h', // Supports: 1m, 59m, 1h, 24h, 1d, 7d
+    proofs: {
+      maxFileSizeMb: parseNumber(process.env.PROOF_MAX_FILE_MB, 10),
+      mirrorDir: process.env.PROOF_MIRROR_DIR || '',
+      duplicateDistance: parseNumber(process.env.PROOF_DUPLICATE_DISTANCE, 5),
+    },
+    membership: {
+      enabled: parseBoolean(process.env.MEMBERSHIP_WATCH_ENABLED, true),
+      onLeave: (process.env.MEMBERSHIP_ON_LEAVE || 'revoke_points') as MembershipLeavePolicy,
+      graceMinutes: parseNumber(process.env.MEMBERSHIP_GRACE_MINUTES, 60),
+      recheckHours: parseNumber(process.env.MEMBERSHIP_RECHECK_HOURS, 24),
+      sweepBatchSize: parseNumber(process.env.MEMBERSHIP_SWEEP_BATCH_SIZE, 200),
+    },
   },
 
 
@@ -605,11 +810,19 @@ export const config: AppConfig = {
       dailyLimit: parseNumber(process.env.TRANSFER_DAILY_LIMIT, 1),
       requireConfirmation: parseBoolean(process.env.TRANSFER_REQUIRE_CONFIRMATION, true),
     },
+    ledger: {
+      autoRepair: (['rebuild', 'backfill'].includes(process.env.LEDGER_AUTO_REPAIR || '') ? process.env.LEDGER_AUTO_REPAIR : 'none') as 'none' | 'rebuild' | 'backfill',
+      pendingGraceMinutes: parseNumber(process.env.LEDGER_PENDING_GRACE_MINUTES, 10),
+      reconcileBatchSize: parseNumber(process.env.LEDGER_RECONCILE_BATCH_SIZE, 500),
+    },
   },
 
   referral: {
     codeLength: parseNumber(process.env.REFERRAL_CODE_LENGTH, 8),
     taskThreshold: parseNumber(process.env.REFERRAL_TASK_THRESHOLD, 3),
+    requireCaptcha: parseBoolean(process.env.REFERRAL_REQUIRE_CAPTCHA, true),
+    commissionRates: parseArray(process.env.REFERRAL_COMMISSION_RATES).map(Number),
+    clawbackEnabled: parseBoolean(process.env.REFERRAL_CLAWBACK_ENABLED, true),
   },
 
   wallet: {
@@ -649,6 +862,36 @@ export const config: AppConfig = {
     claimArgsTemplate: process.env.CLAIM_ARGS_TEMPLATE || 'amount,nonce,signature',
     confirmationsToWait: parseNumber(process.env.WITHDRAW_CONFIRMATIONS, 1),
     claimSignerPrivateKey: process.env.CLAIM_SIGNER_PRIVATE_KEY || process.env.WALLET_PRIVATE_KEY || '',
+    withdrawExpiryMinutes: parseNumber(process.env.WITHDRAW_EXPIRY_MINUTES, 30),
+    withdrawRecheckSeconds: parseNumber(process.env.WITHDRAW_RECHECK_SECONDS, 60),
+    payouts: {
+      reviewEnabled: parseBoolean(process.env.PAYOUT_REVIEW_ENABLED, false),
+      reviewThresholdTokens: parseNumber(process.env.PAYOUT_REVIEW_THRESHOLD_TOKENS, 0),
+      reviewRiskScore: parseNumber(process.env.PAYOUT_REVIEW_RISK_SCORE, 0.6),
+      disperseContractAddress: process.env.DISPERSE_CONTRACT_ADDRESS || '',
+      batchSize: parseNumber(process.env.PAYOUT_BATCH_SIZE, 50),
+      batchIntervalSeconds: parseNumber(process.env.PAYOUT_BATCH_INTERVAL_SECONDS, 30),
+      stuckAfterSeconds: parseNumber(process.env.PAYOUT_STUCK_AFTER_SECONDS, 180),
+      gasBumpPercent: parseNumber(process.env.PAYOUT_GAS_BUMP_PERCENT, 15),
+      maxGasBumps: parseNumber(process.env.PAYOUT_MAX_GAS_BUMPS, 5),
+      maxGasPriceGwei: parseNumber(process.env.PAYOUT_MAX_GAS_PRICE_GWEI, 0),
+      dailyCapTokens: parseNumber(process.env.PAYOUT_DAILY_CAP_TOKENS, 0),
+    },
+    ownershipProof: {
+      requireForWithdrawal: parseBoolean(process.env.WITHDRAW_REQUIRE_VERIFIED_WALLET, false),
+      domain: process.env.WALLET_PROOF_DOMAIN || 't.me',
+      uri: process.env.WALLET_PROOF_URI || `https://t.me/${process.env.BOT_USERNAME || 'airdrop_bot'}`,
+      challengeTtlMinutes: parseNumber(process.env.WALLET_PROOF_TTL_MINUTES, 15),
+      maxAttempts: parseNumber(process.env.WALLET_PROOF_MAX_ATTEMPTS, 5),
+      tonApiUrl: process.env.TON_API_URL || 'https://toncenter.com/api/v2',
+      tonApiKey: process.env.TON_API_KEY || '',
+    },
+    airdrop: {
+      claimFunctionSignature: process.env.AIRDROP_CLAIM_FUNCTION_SIGNATURE || 'function claim(uint256 index, address account, uint256 amount, bytes32[] merkleProof)',
+      claimArgsTemplate: process.env.AIRDROP_CLAIM_ARGS_TEMPLATE || 'index,account,amount,proof',
+      minPoints: parseNumber(process.env.AIRDROP_MIN_POINTS, 0),
+      exportDir: process.env.AIRDROP_EXPORT_DIR ?? './exports/airdrop',
+    },
   },
 
   notifications: {
@@ -661,6 +904,43 @@ export const config: AppConfig = {
     referrerNotification: parseBoolean(process.env.SHOW_REFERRER_NOTIFICATION, true),
   },
 
+  broadcast: {
+    defaultRatePerSecond: parseNumber(process.env.BROADCAST_DEFAULT_RATE, 25),
+    maxRatePerSecond: parseNumber(process.env.BROADCAST_MAX_RATE, 30),
+    workerConcurrency: parseNumber(process.env.BROADCAST_WORKER_CONCURRENCY, 3),
+  },
+
+  jobs: {
+    pollIntervalMs: parseNumber(process.env.JOB_POLL_INTERVAL_MS, 250),
+    maxPollIntervalMs: parseNumber(process.env.JOB_MAX_POLL_INTERVAL_MS, 5000),
+    maxAttempts: parseNumber(process.env.JOB_MAX_ATTEMPTS, 5),
+    backoffBaseMs: parseNumber(process.env.JOB_BACKOFF_BASE_MS, 5000),
+    backoffMaxMs: parseNumber(process.env.JOB_BACKOFF_MAX_MS, 15 * 60 * 1000),
+    jitter: parseNumber(process.env.JOB_BACKOFF_JITTER, 0.3),
+    visibilityTimeoutMs: parseNumber(process.env.JOB_VISIBILITY_TIMEOUT_MS, 60000),
+    deadLetterRetentionDays: parseNumber(process.env.JOB_DEAD_LETTER_RETENTION_DAYS, 30),
+  },
+
+  settings: {
+    syncChannel: process.env.SETTINGS_SYNC_CHANNEL || 'runtime-settings:changed',
+    reconcileIntervalMs: parseNumber(process.env.SETTINGS_RECONCILE_INTERVAL_MS, 60000),
+  },
+
+  features: {
+    withdrawals: { enabled: true, message: '' },
+    transfers: { enabled: true, message: '' },
+    tasks: { enabled: true, message: '' },
+    referrals: { enabled: true, message: '' },
+    captcha: { enabled: true, message: '' },
+    support: { enabled: true, message: '' },
+    allowlist: parseArray(process.env.FEATURE_ALLOWLIST),
+  },
+
+  i18n: {
+    defaultLocale: (process.env.I18N_DEFAULT_LOCALE || 'en').toLowerCase(),
+    locales: parseArray(process.env.I18N_LOCALES, ['en', 'ru', 'bn']).map(l => l.toLowerCase()),
+  },
+
   server: {
     ports: {
       admin: parseNumber(process.env.ADMIN_PORT, 3002),
@@ -21,8 +21,15 @@ import { MemoryManager } from './services/memory-manager.service';
 import SessionSchedulerService from './services/session/session-scheduler.service';
 import { dbOptimizationIntegration } from './services/database/db-optimization-integration.service';
 import { AsyncProcessingIntegrationService } from './services/async-processing-integration.service';
+import { WithdrawalService } from './services/withdrawal/withdrawal.service';
+import { PayoutService } from './services/withdrawal/payout.service';
+import { BanAppealService } from './services/appeals/ban-appeal.service';
+import { MaintenanceWindowService } from './services/maintenance/maintenance-window.service';
+import { CampaignService } from './services/campaigns/campaign.service';
+import { ChannelMembershipService } from './services/membership/channel-membership.service';
 import SimpleUserExportScheduler from './services/simple-user-export-scheduler.service';
 import { MaintenanceMiddleware } from './bot/middleware/maintenance.middleware';
+import { runtimeSettingsService } from './services/settings/runtime-settings.service';
 
 // Initialize logger
 const logger = Logger.getInstance();
@@ -177,7 +184,9 @@ export class MainServer {
         logger.warn('Failed to initialize bot start time, will use process uptime');
       }
 
-      // Load persisted system settings before starting any services
+      // Load persisted system settings (bot status, user data export). The
+      // sections now held in runtime settings only matter on the first start
+      // after upgrading, when runtime settings seed from them.
       try {
         const persisted = await storage.get<any>('system_config', 'global');
         if (persisted && typeof persisted === 'object') {
@@ -267,6 +276,10 @@ export class MainServer {
         logger.warn('No persisted system settings found or failed to apply');
       }
 
+      // Versioned runtime settings, shared by all replicas
+      logger.info('🔧 Loading runtime settings...');
+      await runtimeSettingsService.initialize();
+
       logger.info('🔒 Initializing security system...');
       await initializeSecurity();
 
@@ -358,6 +371,15 @@ export class MainServer {
         if (this.broadcastService && this.telegramBot.bot) {
           await this.broadcastService.initialize(this.telegramBot.bot);
         }
+
+        // Start the withdrawal worker and resume withdrawals left in flight
+        logger.info('💸 Starting withdrawal pipeline...');
+        await WithdrawalService.getInstance().start(this.telegramBot.bot);
+        PayoutService.getInstance().start();
+        BanAppealService.getInstance().setBotInstance(this.telegramBot.bot);
+        CampaignService.getInstance().setBotInstance(this.telegramBot.bot);
+        ChannelMembershipService.getInstance().start(this.telegramBot.bot);
+        MaintenanceWindowService.getInstance().start();
       }
 
       this.isInitialized = true;
@@ -531,6 +553,8 @@ export class MainServer {
         stopPromises.push(this.telegramBot.stop());
       }
 
+      stopPromises.push(runtimeSettingsService.stop());
+
       // Stop memory manager
       if (this.memoryManager) {
         logger.info('🛑 Stopping memory manager...');
@@ -553,6 +577,10 @@ export class MainServer {
       logger.info('🛑 Stopping session security scheduler...');
       SessionSchedulerService.stop();
 
+      WithdrawalService.getInstance().stop();
+      PayoutService.getInstance().stop();
+      MaintenanceWindowService.getInstance().stop();
+
       // Wait for all services to stop
       await Promise.all(stopPromises);
 
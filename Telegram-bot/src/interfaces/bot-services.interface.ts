@@ -24,6 +24,7 @@ export interface ICommandHandlerService {
   handleWallet(ctx: Context): Promise<void>;
   handleReferrals(ctx: Context): Promise<void>;
   handleStats(ctx: Context): Promise<void>;
+  handleLanguage(ctx: Context): Promise<void>;
   handleAdmin(ctx: Context): Promise<void>;
 }
 
@@ -0,0 +1,121 @@
+import { MessageCatalog } from '../types/i18n.types';
+
+/** Partial; the translation editor lists the keys still served in English */
+export const bn: MessageCatalog = {
+  'common.main_menu': 'মূল মেনু',
+  'common.refresh': 'রিফ্রেশ',
+  'common.cancel': 'বাতিল',
+  'common.not_set': 'সেট করা নেই',
+  'common.unknown': 'অজানা',
+  'common.yes': 'হ্যাঁ',
+  'common.no': 'না',
+  'common.active': '✅ সক্রিয়',
+  'common.inactive': '❌ নিষ্ক্রিয়',
+  'common.user_not_found': '❌ ব্যবহারকারী পাওয়া যায়নি।',
+  'common.back': 'ফিরে যান',
+
+  'commands.start': 'এয়ারড্রপ বট শুরু করুন',
+  'commands.menu': 'মূল মেনু দেখুন',
+  'commands.points': 'আপনার পয়েন্ট দেখুন',
+  'commands.tasks': 'উপলব্ধ টাস্ক দেখুন',
+  'commands.wallet': 'আপনার ওয়ালেট সংযোগ করুন',
+  'commands.referrals': 'রেফারেল প্রোগ্রাম দেখুন',
+  'commands.stats': 'আপনার পরিসংখ্যান দেখুন',
+  'commands.help': 'সাহায্য দেখুন',
+  'commands.language': 'বটের ভাষা পরিবর্তন করুন',
+
+  'language.title': [
+    '🌐 <b>ভাষা</b>',
+    '',
+    'বর্তমান: <b>{current}</b>',
+    '{mode, select, auto {<i>আপনার Telegram-এর ভাষা অনুসরণ করা হচ্ছে।</i>} other {<i>/language দিয়ে বেছে নেওয়া।</i>}}',
+    '',
+    'বট আপনার সাথে কোন ভাষায় কথা বলবে তা বেছে নিন:'
+  ].join('\n'),
+  'language.auto': '🔄 আমার Telegram-এর ভাষা',
+  'language.set': '✅ ভাষা {name} করা হয়েছে।',
+  'language.reset': '✅ বট আবার আপনার Telegram-এর ভাষা অনুসরণ করছে ({name})।',
+  'language.error': '❌ ভাষা পরিবর্তন করা যায়নি। আবার চেষ্টা করুন।',
+
+  'menu.btn.tasks': 'টাস্ক',
+  'menu.btn.points': 'পয়েন্ট',
+  'menu.btn.wallet': 'ওয়ালেট',
+  'menu.btn.referrals': 'রেফারেল',
+  'menu.btn.profile': 'প্রোফাইল',
+  'menu.btn.leaderboard': 'লিডারবোর্ড',
+  'menu.btn.support': 'সাপোর্ট',
+  'menu.btn.help': 'সাহায্য',
+  'menu.btn.language': '🌐 ভাষা',
+  'menu.btn.contact_support': 'সাপোর্টে যোগাযোগ',
+  'menu.btn.visit_website': 'ওয়েবসাইট দেখুন',
+  'menu.btn.view_tasks': 'টাস্ক দেখুন',
+  'menu.btn.my_referrals': 'আমার রেফারেল',
+  'menu.btn.wallet_settings': 'ওয়ালেট সেটিংস',
+  'menu.btn.detailed_stats': 'বিস্তারিত পরিসংখ্যান',
+  'menu.btn.my_profile': 'আমার প্রোফাইল',
+  'menu.btn.create_ticket': 'টিকিট তৈরি করুন',
+  'menu.btn.faq': 'প্রশ্নোত্তর',
+
+  'menu.error.menu': '❌ মেনু লোড করা যায়নি। আবার চেষ্টা করুন।',
+  'menu.error.help': '❌ সাহায্য লোড করা যায়নি। আবার চেষ্টা করুন।',
+  'menu.error.profile': '❌ প্রোফাইল লোড করা যায়নি। আবার চেষ্টা করুন।',
+  'menu.error.leaderboard': '❌ লিডারবোর্ড লোড করা যায়নি। আবার চেষ্টা করুন।',
+  'menu.error.support': '❌ সাপোর্ট লোড করা যায়নি। আবার চেষ্টা করুন।',
+
+  'menu.wallet_connected': '✅ {name}',
+  'menu.wallet_not_connected': '❌ সংযুক্ত নয়',
+  'menu.main.text': [
+    '🚀 <b>স্বাগতম, {name}!</b>',
+    '',
+    '💰 <b>অ্যাকাউন্টের সারসংক্ষেপ</b>',
+    '💎 ব্যালেন্স: <b>{balance, number}</b> পয়েন্ট',
+    '👥 রেফারেল: <b>{referrals}</b>',
+    '📅 সদস্য হয়েছেন: <b>{days}</b> দিন আগে',
+    '✅ সম্পন্ন টাস্ক: <b>{tasks}</b>',
+    '🔐 অ্যাকাউন্টের অবস্থা: <b>{status}</b>',
+    '👛 ওয়ালেট: <b>{wallet}</b>',
+    '',
+    '🎯 <b>উইথড্র-এর অগ্রগতি</b>',
+    '🎁 লক্ষ্য: <b>{goal, number}</b> পয়েন্ট',
+    '🔄 বাকি: <b>{remaining, number}</b> পয়েন্ট',
+    '📊 অগ্রগতি: {bar} <b>{pct}%</b>',
+    '',
+    '💎 <b>টোকেন মূল্য</b>',
+    '✨ <b>{balance, number}</b> পয়েন্ট ≈ <b>{tokens} {symbol}</b>',
+    '{rate, select, none {} other {📈 রেট: <b>১ পয়েন্ট = {rate} {symbol}</b>}}',
+    '',
+    '🔗 <b>আপনার রেফারেল</b>',
+    '📎 লিংক: <code>{link}</code>',
+    '',
+    '<i>💡 টিপ: টাস্ক সম্পন্ন করুন, বন্ধুদের আমন্ত্রণ জানান এবং বেশি আয় করতে ওয়ালেট সংযোগ করুন!</i>'
+  ].join('\n'),
+
+  'menu.leaderboard.title': '🏆 লিডারবোর্ড - সেরা ১০',
+  'menu.leaderboard.your_rank': '📊 আপনার র‍্যাঙ্ক: {rank}',
+
+  'tasks.error.loading': '❌ টাস্ক লোড করা যায়নি। আবার চেষ্টা করুন।',
+  'tasks.error.not_found': '❌ টাস্ক পাওয়া যায়নি',
+  'tasks.btn.refresh': '🔄 রিফ্রেশ',
+  'tasks.btn.completed': '✅ সম্পন্ন',
+  'tasks.btn.pending': '⏰ অপেক্ষমাণ',
+  'tasks.btn.main_menu': '🏠 মূল মেনু',
+  'tasks.btn.back': '← টাস্কে ফিরে যান',
+  'tasks.status.available': '⏳ উপলব্ধ',
+  'tasks.status.completed': '✅ সম্পন্ন',
+  'tasks.status.pending': '⏳ পর্যালোচনাধীন',
+  'tasks.status.rejected': '❌ প্রত্যাখ্যাত',
+  'tasks.status.claimed': '✅ গ্রহণ করা হয়েছে',
+
+  'points.btn.stats': 'বিস্তারিত পরিসংখ্যান',
+  'points.btn.history': 'ইতিহাস',
+  'points.btn.leaderboard': 'লিডারবোর্ড',
+
+  'wallet.btn.withdraw': 'উইথড্র',
+  'wallet.btn.transfer': 'পয়েন্ট ট্রান্সফার',
+  'wallet.btn.history': 'ইতিহাস',
+  'wallet.btn.transfer_history': 'ট্রান্সফার ইতিহাস',
+  'wallet.btn.reconnect': 'আবার সংযোগ করুন',
+  'wallet.btn.disconnect': 'সংযোগ বিচ্ছিন্ন করুন',
+  'wallet.btn.connect': 'ওয়ালেট সংযোগ করুন',
+  'wallet.btn.verify': 'মালিকানা যাচাই করুন'
+};
@@ -0,0 +1,968 @@
+import { MessageCatalog } from '../types/i18n.types';
+
+/**
+ * Reference catalog. Every key the bot uses must exist here; other locales
+ * are measured against it and fall back to it key by key.
+ */
+export const en: MessageCatalog = {
+  'common.main_menu': 'Main Menu',
+  'common.refresh': 'Refresh',
+  'common.cancel': 'Cancel',
+  'common.not_set': 'Not set',
+  'common.unknown': 'Unknown',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.active': '✅ Active',
+  'common.inactive': '❌ Inactive',
+  'common.user_not_found': '❌ User not found.',
+  'common.unknown_action': '❌ Unknown action',
+  'common.back': 'Back',
+
+  'commands.start': 'Start the airdrop bot',
+  'commands.menu': 'Show main menu',
+  'commands.points': 'Check your points',
+  'commands.tasks': 'View available tasks',
+  'commands.wallet': 'Connect your wallet',
+  'commands.referrals': 'View referral program',
+  'commands.stats': 'View your statistics',
+  'commands.help': 'Show help information',
+  'commands.language': 'Change the bot language',
+
+  'language.title': [
+    '🌐 <b>Language</b>',
+    '',
+    'Current: <b>{current}</b>',
+    '{mode, select, auto {<i>Following your Telegram language.</i>} other {<i>Chosen with /language.</i>}}',
+    '',
+    'Choose the language the bot uses with you:'
+  ].join('\n'),
+  'language.auto': '🔄 Use my Telegram language',
+  'language.set': '✅ Language set to {name}.',
+  'language.reset': '✅ The bot follows your Telegram language again ({name}).',
+  'language.error': '❌ Could not change the language. Please try again.',
+
+  'menu.btn.tasks': 'Tasks',
+  'menu.btn.points': 'Points',
+  'menu.btn.wallet': 'Wallet',
+  'menu.btn.referrals': 'Referrals',
+  'menu.btn.profile': 'Profile',
+  'menu.btn.leaderboard': 'Leaderboard',
+  'menu.btn.support': 'Support',
+  'menu.btn.help': 'Help',
+  'menu.btn.language': '🌐 Language',
+  'menu.btn.contact_support': 'Contact Support',
+  'menu.btn.visit_website': 'Visit Website',
+  'menu.btn.view_tasks': 'View Tasks',
+  'menu.btn.my_referrals': 'My Referrals',
+  'menu.btn.wallet_settings': 'Wallet Settings',
+  'menu.btn.detailed_stats': 'Detailed Stats',
+  'menu.btn.my_profile': 'My Profile',
+  'menu.btn.create_ticket': 'Create Ticket',
+  'menu.btn.faq': 'FAQ',
+
+  'menu.error.menu': '❌ Error loading menu. Please try again.',
+  'menu.error.help': '❌ Error loading help. Please try again.',
+  'menu.error.profile': '❌ Error loading profile. Please try again.',
+  'menu.error.leaderboard': '❌ Error loading leaderboard. Please try again.',
+  'menu.error.support': '❌ Error loading support system. Please try again.',
+
+  'menu.wallet_connected': '✅ {name}',
+  'menu.wallet_not_connected': '❌ Not Connected',
+  'menu.main.text': [
+    '🚀 <b>Welcome, {name}!</b>',
+    '',
+    '💰 <b>Account Overview</b>',
+    '💎 Balance: <b>{balance, number}</b> points',
+    '👥 Referrals Earned: <b>{referrals}</b>',
+    '📅 Member Since: <b>{days}</b> {days, plural, one {day} other {days}}',
+    '✅ Tasks Completed: <b>{tasks}</b>',
+    '🔐 Account Status: <b>{status}</b>',
+    '👛 Wallet: <b>{wallet}</b>',
+    '',
+    '🎯 <b>Withdrawal Progress</b>',
+    '🎁 Goal: <b>{goal, number}</b> points',
+    '🔄 Remaining: <b>{remaining, number}</b> points',
+    '📊 Progress: {bar} <b>{pct}%</b>',
+    '',
+    '💎 <b>Token Value</b>',
+    '✨ <b>{balance, number}</b> pts ≈ <b>{tokens} {symbol}</b>',
+    '{rate, select, none {} other {📈 Rate: <b>1 pt = {rate} {symbol}</b>}}',
+    '',
+    '🔗 <b>Your Referral</b>',
+    '📎 Link: <code>{link}</code>',
+    '',
+    '<i>💡 Tip: Complete tasks, invite friends, and connect your wallet to maximize your earnings!</i>'
+  ].join('\n'),
+
+  'menu.help.tracker_soon': 'Coming soon',
+  'menu.help.text': [
+    '❓ <b>Help & Information</b>',
+    '',
+    '<b>🎯 What is Salada Protocol?</b>',
+    'Earn points by completing tasks and referring friends. Convert your points to tokens and withdraw them to your wallet.',
+    '',
+    '<b>💰 How to Earn?</b>',
+    '• Complete tasks: {dailyBonus}+ points daily',
+    '• Refer friends: {referralBonus} points per referral',
+    '• Special events & bonuses',
+    '',
+    '<b>👛 Withdraw Tokens?</b>',
+    '1. Connect your wallet',
+    '2. Reach minimum threshold',
+    '3. Click withdraw - tokens sent automatically on blockchain',
+    '',
+    '<b>🔒 Security</b>',
+    '• One wallet per user (wallet lock)',
+    '• Multi-account detection',
+    '• Your keys stay in your wallet',
+    '',
+    '<b>🔗 Quick Commands</b>',
+    '/menu - Main menu',
+    '/tasks - Available tasks',
+    '/wallet - Wallet & withdrawals',
+    '/referrals - Referral stats',
+    '/language - Change language',
+    '',
+    '<b>📞 Support & Links</b>',
+    'Contact: {support}',
+    'Website: {website}',
+    'Tracker: {tracker}',
+    '',
+    '<i>💡 Tip: Invite friends to earn faster!</i>'
+  ].join('\n'),
+
+  'menu.profile.text': [
+    '👤 <b>Your Profile</b>',
+    '',
+    '<b>📋 Basic Info:</b>',
+    '• Name: {name}',
+    '• Username: {username}',
+    '• User ID: <code>{userId}</code>',
+    '',
+    '<b>📊 Statistics:</b>',
+    '• Current Points: <b>{points, number}</b>',
+    '• Total Earned: <b>{earned, number}</b>',
+    '• Tasks Completed: <b>{tasks}</b>',
+    '• Total Referrals: <b>{referrals}</b>',
+    '',
+    '<b>📅 Activity:</b>',
+    '• Joined: {joined}',
+    '• Last Active: {lastActive}',
+    '• Account Status: {status}',
+    '',
+    '<b>🎫 Referral Info:</b>',
+    '• Referral Link: <code>{link}</code>',
+    '• Referred By: {referred}',
+    '',
+    '<b>👛 Wallet:</b>',
+    '• Connected: {connected}',
+    '{address, select, none {} other {• Address: <code>{address}</code>}}'
+  ].join('\n'),
+
+  'menu.leaderboard.title': '🏆 Leaderboard - Top 10',
+  'menu.leaderboard.your_rank': '📊 Your Rank: {rank}',
+
+  'menu.support.text': [
+    '💬 <b>Support Center</b>',
+    '',
+    "Welcome to our support system! We're here to help you with any questions or issues.",
+    '',
+    '👤 <b>Your Account:</b>',
+    '• User ID: {userId}',
+    '• Username: {username}',
+    '• Status: Active',
+    '',
+    '🎫 <b>Support Options:</b>',
+    '• Create a support ticket (1 per category per day)',
+    '• Get help with common issues',
+    '• Report bugs or problems',
+    '',
+    '⏰ <b>Response Time:</b>',
+    'Our team typically responds within 24 hours.'
+  ].join('\n'),
+
+  'menu.ticket.category.technical': 'Bot Technical Issues (bugs/errors)',
+  'menu.ticket.category.ban': 'Multi-Account or Ban Related',
+  'menu.ticket.category.business': 'Business & Project Requests',
+  'menu.ticket.about.technical': '🛠️ Technical issues, bugs, errors, or performance problems',
+  'menu.ticket.about.ban': '⚠️ Account restrictions, ban appeals, or policy violation concerns',
+  'menu.ticket.about.business': '💼 Bot purchase inquiries, partnerships, collaborations, or custom development requests',
+  'menu.ticket.choose': [
+    '🎫 <b>Create Support Ticket</b>',
+    '',
+    'Please select a category for your ticket:',
+    '',
+    '1️⃣ <b>Bot Technical Issues</b>',
+    '   🛠️ Bugs, errors, crashes, performance problems',
+    '',
+    '2️⃣ <b>Multi-Account or Ban Related</b>',
+    '   ⚠️ Account restrictions, ban appeals, policy violations',
+    '',
+    '3️⃣ <b>Business & Project Requests</b>',
+    '   💼 Bot purchase, partnerships, collaborations, custom development'
+  ].join('\n'),
+  'menu.ticket.prompt': [
+    '🎫 <b>Create Support Ticket</b>',
+    '',
+    '📂 <b>Category:</b> {category}',
+    '{about}',
+    '',
+    '📝 <b>Describe your request with details:</b>',
+    '• Be specific about your issue or request',
+    '• Include relevant information or screenshots if needed',
+    '',
+    '📤 <b>Send your message:</b>'
+  ].join('\n'),
+  'menu.ticket.limit_start': '⏰ You can only create 1 ticket per day for this category ("{category}"). Please try again tomorrow.',
+  'menu.ticket.limit_submit': '⏰ You have already created a ticket today for the category "{category}". Please try again tomorrow.',
+  'menu.ticket.created': [
+    '✅ <b>Support Ticket Created</b>',
+    '',
+    '🎫 Ticket ID: <code>{id}</code>',
+    '📂 Category: <b>{category}</b>',
+    '📧 Message: Your request has been submitted successfully.',
+    '',
+    '⏰ Our support team will review your ticket and respond soon.'
+  ].join('\n'),
+  'menu.ticket.error_start': '❌ Error starting ticket. Please try again.',
+  'menu.ticket.error_create': '❌ Error creating support ticket. Please try again.',
+  'menu.ticket.error_submit': '❌ Error submitting your ticket. Please try again.',
+
+  'tasks.error.loading': '❌ Error loading tasks. Please try again.',
+  'tasks.error.not_found': '❌ Task not found',
+  'tasks.error.details': '❌ Error loading task details',
+  'tasks.error.completed': '❌ Error loading completed tasks',
+  'tasks.error.pending': '❌ Error loading pending tasks',
+  'tasks.error.expired': '⏰ Task action has expired. Please try again.',
+  'tasks.error.invalid_data': '❌ Invalid task data',
+  'tasks.list.text': [
+    '<b>🎯 Tasks Hub ({total} total)</b>',
+    '',
+    '💰 <b>Your Progress:</b>',
+    '✅ Completed: {completed, plural, one {# task} other {# tasks}}',
+    '⏳ Available: {available, plural, one {# task} other {# tasks}}',
+    '🏆 Points Earned: {points, number}',
+    '',
+    '🚀 <b>Complete tasks to earn more points and climb the leaderboard!</b>',
+    '📊 Each task shows points value and current status below.'
+  ].join('\n'),
+  'tasks.btn.refresh': '🔄 Refresh',
+  'tasks.btn.completed': '✅ Completed',
+  'tasks.btn.pending': '⏰ Pending',
+  'tasks.btn.main_menu': '🏠 Main Menu',
+  'tasks.btn.back': '← Back to Tasks',
+  'tasks.btn.cancel': '❌ Cancel',
+  'tasks.btn.skip': '⏭ Skip',
+  'tasks.campaigns.title': '🏁 <b>Campaigns</b>',
+  'tasks.campaigns.complete': '✅ <b>{title}</b> — complete',
+  'tasks.campaigns.steps': '{done}/{total} steps',
+  'tasks.campaigns.next': '➡️ Next: {steps}',
+  'tasks.campaigns.bonus': '💰 Bonus: {points, plural, one {# point} other {# points}}',
+  'tasks.campaigns.ends': '⏰ Ends: {date}',
+  'tasks.status.available': '⏳ Available',
+  'tasks.status.completed': '✅ Completed',
+  'tasks.status.pending': '⏳ Pending Review',
+  'tasks.status.rejected': '❌ Rejected',
+  'tasks.status.claimed': '✅ Claimed',
+  'tasks.status.under_review': '👀 Under Review',
+  'tasks.detail.next_in': 'in {duration}',
+  'tasks.detail.next_available': '⏳ <b>Next available:</b> {when}',
+  'tasks.detail.description': '📝 <b>Description:</b>',
+  'tasks.detail.reward': '💰 <b>Reward:</b> {points, plural, one {# point} other {# points}}',
+  'tasks.detail.type': '🔧 <b>Type:</b> {type}',
+  'tasks.detail.status': '📊 <b>Status:</b> {status}',
+  'tasks.detail.submission': '📝 <b>Submission Required:</b>',
+  'tasks.detail.submission_default': 'Please submit the required information.',
+  'tasks.detail.example': '<i>Example: {example}</i>',
+  'tasks.detail.requirements': '📋 <b>Requirements:</b>',
+  'tasks.detail.req_verification': '• Real-time verification required',
+  'tasks.detail.req_premium': '• Telegram Premium membership required',
+  'tasks.detail.req_wallet': '• Connected wallet required',
+  'tasks.detail.req_account_age': '• Account at least {days, plural, one {# day} other {# days}} old',
+  'tasks.detail.req_tasks': '• At least {count, plural, one {# completed task} other {# completed tasks}}',
+  'tasks.detail.quiz': '❓ <b>Quiz:</b> {questions, plural, one {# question} other {# questions}} • pass mark {pass}% • {attempts, plural, one {# attempt} other {# attempts}}',
+  'tasks.detail.survey': '📋 <b>Survey:</b> {questions, plural, one {# question} other {# questions}}',
+  'tasks.detail.ends': '⏰ <b>Ends:</b> {date}',
+  'tasks.detail.locked': '🔒 <b>Locked:</b>',
+  'tasks.eligibility.not_started': 'This task opens on {date}.',
+  'tasks.eligibility.expired': 'This task has ended.',
+  'tasks.eligibility.country_unknown': 'This task is limited to certain countries and your location could not be determined.',
+  'tasks.eligibility.country_required': 'This task is not available in your country.',
+  'tasks.eligibility.country_blocked': 'This task is not available in your country.',
+  'tasks.eligibility.account_too_new': 'Your account must be at least {days, plural, one {# day} other {# days}} old ({remaining, number} more to go).',
+  'tasks.eligibility.wallet_required': 'Connect a wallet to unlock this task.',
+  'tasks.eligibility.premium_required': 'This task is only for Telegram Premium members.',
+  'tasks.eligibility.minimum_tasks': 'Complete {count, plural, one {# more task} other {# more tasks}} to unlock this one.',
+  'tasks.eligibility.daily_limit_reached': "Today's limit for this task has been reached. Try again tomorrow.",
+  'tasks.eligibility.campaign_locked': 'Finish "{step}" in {campaign} first.',
+  'tasks.detail.done': '✅ <b>{daily, select, yes {You have claimed this reward!} other {You have completed this task!}}</b>',
+  'tasks.type.telegram_join': 'Telegram',
+  'tasks.type.twitter_follow': 'Twitter Follow',
+  'tasks.type.twitter_retweet': 'Twitter Retweet',
+  'tasks.type.instagram_follow': 'Instagram',
+  'tasks.type.youtube_subscribe': 'YouTube',
+  'tasks.type.daily_bonus': 'Daily',
+  'tasks.type.referral_invite': 'Referral',
+  'tasks.type.premium_check': 'Premium',
+  'tasks.type.quiz': 'Quiz',
+  'tasks.type.survey': 'Survey',
+  'tasks.type.custom': 'Social Media',
+  'tasks.type.general': 'General',
+  'tasks.completed.title': '✅ <b>Completed Tasks</b>',
+  'tasks.completed.none': "😔 You haven't completed any tasks yet.\n\nClick \"← Back to Tasks\" to see available tasks.",
+  'tasks.completed.summary': '🎉 You have completed <b>{count, plural, one {# task} other {# tasks}}</b>!\n💰 Total points earned: <b>{points, number}</b>',
+  'tasks.completed.item': '✅ {title} - {points, plural, one {# point} other {# points}}',
+  'tasks.completed.claimed': '{title} (claimed)',
+  'tasks.pending.title': '⏰ <b>Pending Tasks</b>',
+  'tasks.pending.none': "📋 No pending submissions.\n\nAll your submissions have been processed or you haven't submitted any tasks yet.",
+  'tasks.pending.summary': '📋 You have <b>{count, plural, one {# pending submission} other {# pending submissions}}</b>:',
+  'tasks.pending.submitted': '   Submitted: {date}',
+  'tasks.pending.wait': '⏱️ Please wait for admin review. You will be notified when your submissions are processed.',
+
+  'tasks.complete.already': '✅ You have already completed this task!',
+  'tasks.complete.done': 'Task completed!',
+  'tasks.complete.not_done': 'Please complete the requirements first.',
+  'tasks.complete.premium_done': 'Premium status verified!',
+  'tasks.complete.premium_only': 'This task is only for Telegram Premium members.',
+  'tasks.complete.referral_done': 'Referral task completed!',
+  'tasks.complete.referral_missing': 'You need more referrals to complete this task.',
+  'tasks.complete.daily_recent': 'Daily bonus already claimed recently.',
+  'tasks.complete.daily_done': 'Daily task completed!',
+  'tasks.complete.daily_again': 'You have already completed this today.',
+  'tasks.complete.invalid_method': '❌ Invalid task verification method.',
+  'tasks.complete.join_first': 'Please join our channel first, then click Check & Complete.',
+  'tasks.complete.invite_more': '❌ Invite {count, plural, one {# more friend} other {# more friends}} to complete this task. Tap Get Referral Link to share.',
+  'tasks.complete.invite': '❌ Invite {count, plural, one {# friend} other {# friends}} to complete this task. Tap Get Referral Link to share.',
+  'tasks.complete.toast': '✅ Task completed!',
+  'tasks.complete.failed': '❌ Failed to complete task. Please try again.',
+  'tasks.complete.failed_toast': '❌ Failed to complete task.',
+  'tasks.complete.failed_short': '❌ Task failed',
+  'tasks.complete.error': '❌ Error completing task. Please try again.',
+
+  'tasks.submit.title': '📝 <b>Submit Task: {title}</b>',
+  'tasks.submit.instructions_default': '🔗 Please submit the required information for verification.',
+  'tasks.submit.example': '💡 <b>Example:</b> <code>{example}</code>',
+  'tasks.submit.send': '📤 <b>Send your submission link, or a screenshot as proof:</b>',
+  'tasks.submit.no_user': '❌ Error: User ID not found',
+  'tasks.submit.error_start': '❌ Error starting submission. Please try again.',
+  'tasks.submit.result.config_error': '❌ Task configuration error. Please contact admin.',
+  'tasks.submit.result.invalid_format': '❌ Invalid format. Expected: {example}',
+  'tasks.submit.result.example_default': 'Valid URL',
+  'tasks.submit.result.duplicate': '❌ You have already submitted this task. Please wait for review.',
+  'tasks.submit.result.auto_approved': '✅ Task completed automatically! You earned {points, plural, one {# point} other {# points}}!',
+  'tasks.submit.result.submitted': "✅ Task submitted for review! You will be notified when it's approved.",
+  'tasks.submit.result.failed': '❌ Failed to submit task. Please try again.',
+
+  'tasks.proof.no_task': '📎 To submit a screenshot, open a task from /tasks and tap its submit button first.',
+  'tasks.proof.too_large': '❌ That file is too large. Please send a smaller screenshot.',
+  'tasks.proof.unsupported': '❌ Please send a photo, image, PDF or MP4 file as proof.',
+  'tasks.proof.error': '❌ Failed to process your upload. Please try again.',
+
+  'tasks.answer.not_set_up': '❌ This task is not set up yet. Please check back later.',
+  'tasks.answer.no_attempts': '❌ You have used all attempts for this quiz.',
+  'tasks.answer.unavailable': '❌ This task is no longer available.',
+  'tasks.answer.quiz_unavailable': '❌ This quiz is no longer available.',
+  'tasks.answer.header': '{kind, select, quiz {❓ Quiz} other {📋 Survey}}: <b>{title}</b>',
+  'tasks.answer.progress': '<i>Question {index} of {total}</i>',
+  'tasks.answer.reply_hint': '✍️ Reply with your answer (up to {max, plural, one {# character} other {# characters}}).',
+  'tasks.answer.choose_option': '👆 Please choose one of the options above.',
+  'tasks.answer.text_required': '✍️ Please reply with a text answer.',
+  'tasks.answer.too_long': '❌ Please keep your answer under {max, plural, one {# character} other {# characters}}.',
+  'tasks.answer.duplicate': '⚠️ This attempt was already recorded.',
+  'tasks.answer.save_failed': '❌ Failed to save your answers. Please try again.',
+  'tasks.answer.error': '❌ Error saving your answers. Please try again.',
+  'tasks.answer.failed': [
+    '❌ You scored {correct}/{total} ({score}%). You need {pass}% to pass.',
+    '{left, plural, =0 {You have no attempts left for this quiz.} one {You have # attempt left.} other {You have # attempts left.}}'
+  ].join('\n'),
+  'tasks.answer.quiz_passed': 'Quiz passed! You earned {points, plural, one {# point} other {# points}}!',
+  'tasks.answer.survey_done': 'Thanks for your answers! You earned {points, plural, one {# point} other {# points}}!',
+
+  'points.error.loading': '❌ Error loading points information.',
+  'points.error.stats': '❌ Error loading statistics.',
+  'points.error.history': '❌ Error loading transaction history.',
+  'points.error.leaderboard': '❌ Error loading leaderboard.',
+  'points.main.text': [
+    '💰 <b>Your Points</b>',
+    '',
+    '💎 <b>Current Balance:</b> {balance, plural, one {# point} other {# points}}',
+    '📈 <b>Total Points Earned:</b> {earned, number}',
+    '📊 <b>Global Rank:</b> {rank}',
+    '📉 <b>Daily Average:</b> {perDay, plural, one {# point} other {# points}}',
+    '',
+    '🎯 <b>Earning Summary:</b>',
+    '✅ Tasks Completed: {tasks}',
+    '👥 Referrals Made: {referrals}',
+    '📅 Member Since: {joined}',
+    '',
+    '💡 <b>Ways to Earn More:</b>',
+    '• Complete available tasks',
+    '• Invite friends with your referral code',
+    '• Connect your wallet to withdraw tokens',
+    '• Participate in community activities',
+    '',
+    '🏆 <b>Milestones:</b>',
+    '• Next milestone: {milestone, plural, one {# point} other {# points}}'
+  ].join('\n'),
+  'points.btn.stats': 'Detailed Stats',
+  'points.btn.history': 'History',
+  'points.btn.leaderboard': 'Leaderboard',
+  'points.daily.already_claimed': '⏰ Daily bonus already claimed today!',
+  'points.daily.next_at': '⏰ Daily bonus already claimed. Next bonus: {time}',
+  'points.daily.claimed': [
+    '✅ <b>Daily Bonus Claimed!</b>',
+    '',
+    '💰 Points Earned: {points, number}',
+    '💎 New Balance: {balance, number}{streak, plural, =0 {} =1 {} other {\n🔥 Streak: # days ({multiplier}x bonus)}}',
+    '',
+    '⏰ Come back tomorrow for another bonus!'
+  ].join('\n'),
+  'points.daily.error_claim': '❌ Error claiming daily bonus',
+  'points.daily.error': '❌ Error processing daily bonus',
+
+  'wallet.error.loading': '❌ Error loading wallet information.',
+  'wallet.status.active': '🟢 Status: Active session',
+  'wallet.status.expired': '🟡 Status: Session expired – please reconnect',
+  'wallet.status.saved': '🟦 Status: Saved wallet (no active session)',
+  'wallet.ownership.verified': '🛡 Ownership: Verified',
+  'wallet.ownership.unverified': '⚠️ Ownership: Not verified',
+  'wallet.can_withdraw': '✅ You can withdraw your points!',
+  'wallet.need_more': '❌ Need {missing, plural, one {# more point} other {# more points}} to withdraw',
+  'wallet.connected.text': [
+    '👛 <b>Your Wallet</b>',
+    '',
+    '✅ <b>Connected Wallet:</b>',
+    '📍 Address: <code>{address}</code>',
+    '🔗 Type: {type}',
+    '🌐 Connection: {method}',
+    '{ownership}{status}',
+    '',
+    '💰 <b>Points Available:</b>',
+    'Current Balance: <b>{balance, number}</b>',
+    'Minimum Withdrawal: <b>{minimum}</b>',
+    '',
+    '📊 <b>Withdrawal Status:</b>',
+    '{withdrawal}',
+    '',
+    '🎯 <b>Next Steps:</b>',
+    '• Complete more tasks to earn points',
+    '• Refer friends for bonus points',
+    '• Watch for withdrawal announcements'
+  ].join('\n'),
+  'wallet.none.text': [
+    '👛 <b>Wallet Connection</b>',
+    '',
+    '❌ <b>No Wallet Connected</b>',
+    '',
+    '🔗 Connect your wallet to:',
+    '• Withdraw earned tokens',
+    '• Receive future airdrop distributions',
+    '• Access token claiming features',
+    '• Secure your rewards',
+    '',
+    '💡 <b>Connection Methods:</b>',
+    '• <b>Wallet Apps:</b> Direct connection via popular wallets',
+    '• <b>QR Code:</b> Universal connection method',
+    '',
+    '🔒 <b>Security:</b>',
+    'Powered by WalletConnect v2 protocol. Your private keys never leave your wallet. We only store your wallet address for reward distribution.'
+  ].join('\n'),
+  'wallet.withdraw.text': [
+    '💸 <b>Withdraw Points</b>',
+    '',
+    '💰 <b>Current Balance:</b> {balance, plural, one {# point} other {# points}}',
+    '💎 <b>Minimum Withdrawal:</b> {minimum, plural, one {# point} other {# points}}',
+    '👛 <b>Wallet:</b> <code>{address}</code>',
+    '',
+    '{missing, plural, =0 {✅ <b>You can withdraw your points!</b>\n\n🎯 Tokens will be sent automatically after blockchain confirmation.} one {❌ <b>Insufficient Balance</b>\n\nYou need # more point to withdraw.} other {❌ <b>Insufficient Balance</b>\n\nYou need # more points to withdraw.}}',
+    '',
+    '⚠️ <b>Important:</b>',
+    '• Connect your wallet to claim tokens',
+    '• Transaction is processed on-chain automatically',
+    '• Confirmation depends on blockchain network speed',
+    '• Make sure your wallet address is correct',
+    '',
+    '📈 <b>Exchange Rate:</b>',
+    '1 point = {rate} {symbol} (estimate)'
+  ].join('\n'),
+  'wallet.btn.withdraw': 'Withdraw',
+  'wallet.btn.transfer': 'Transfer Points',
+  'wallet.btn.history': 'History',
+  'wallet.btn.transfer_history': 'Transfer History',
+  'wallet.btn.reconnect': 'Reconnect Wallet',
+  'wallet.btn.disconnect': 'Disconnect',
+  'wallet.btn.connect': 'Connect Wallet',
+  'wallet.btn.verify': 'Verify Ownership',
+  'wallet.btn.back': 'Back to Wallet',
+  'wallet.btn.show_message_again': 'Show Message Again',
+  'wallet.btn.start_again': 'Start Again',
+
+  'wallet.error.connect_start': '❌ Error starting wallet connection.',
+  'wallet.error.options': '❌ Error loading wallet options.',
+  'wallet.error.app_not_found': '❌ Wallet app not found.',
+  'wallet.error.unknown_app': '❌ Unknown wallet app',
+  'wallet.error.apps': '❌ Error loading wallet apps.',
+  'wallet.error.connect_create': '❌ Error creating wallet connection. Please try again.',
+  'wallet.error.request_not_found': '❌ Connection request not found or expired.',
+  'wallet.error.request_expired': '❌ Connection request expired. Please try again.',
+  'wallet.error.qr': '❌ Error generating QR code. Please try again.',
+  'wallet.error.connect': '❌ Error connecting wallet. Please try again.',
+  'wallet.error.verify_start': '❌ Error starting wallet verification. Please try again.',
+  'wallet.error.verify': '❌ Error verifying wallet. Please try again.',
+  'wallet.error.withdrawal': '❌ Error loading withdrawal information.',
+  'wallet.error.withdrawal_request': '❌ Error processing withdrawal request. Please try again.',
+  'wallet.error.wallet_missing': '❌ Wallet not found. Please reconnect your wallet.',
+  'wallet.error.history': '❌ Error loading wallet history.',
+  'wallet.error.disconnect': '❌ Error disconnecting wallet. Please try again.',
+  'wallet.error.message': '❌ Error processing your message. Please try again.',
+  'wallet.verify.connect_first': '❌ Please connect your wallet first.',
+  'wallet.verify.success': '✅ <b>Wallet Verified</b>\n\n🛡 Ownership of <code>{address}</code> is proven.',
+  'wallet.verify.failed': '❌ <b>Verification Failed</b>\n\n{reason}',
+  'wallet.verify.try_again': 'Please try again.',
+
+  'wallet.connect.already': '👛 You already have a connected wallet.\n\nCurrent: <code>{address}</code>\n\nOnly your first wallet is allowed for security.\nYou can reconnect your session if it expired.',
+  'wallet.connect.no_apps': '❌ No wallet apps are currently enabled.\n\nPlease contact support for assistance.',
+  'wallet.connect.locked': [
+    '🔒 <b>Wallet Already Connected</b>',
+    '',
+    '✅ You already have a wallet connected to your account.',
+    '💳 Current Wallet: <code>{address}</code>',
+    '',
+    '⚠️ <b>Security Note:</b> Only one wallet per user is allowed to prevent abuse.',
+    '',
+    '💡 If you need to change wallets, please contact support.'
+  ].join('\n'),
+  'wallet.connect.text': [
+    '👛 <b>Connect Your Wallet</b>',
+    '',
+    '🔗 Choose your preferred wallet app:',
+    '',
+    '📱 <b>Mobile:</b> Tap wallet button to open app',
+    '💻 <b>Desktop:</b> Use QR code to scan with mobile wallet',
+    '',
+    '⚡ <b>Benefits:</b>',
+    '• Receive airdrop rewards',
+    '• Access exclusive wallet-only tasks',
+    '• Increase your security score',
+    '',
+    '⏰ <b>Important:</b> You have {approveMinutes, plural, one {# minute} other {# minutes}} to approve the connection in your wallet.',
+    '🔗 Connection expires in {expiryMinutes, plural, one {# minute} other {# minutes}}.',
+    '',
+    '🔒 Secured by WalletConnect v2 protocol.'
+  ].join('\n'),
+  'wallet.connect.app_text': [
+    '🔗 <b>Connect {name}</b>',
+    '',
+    '{icon} <b>{name}</b>',
+    '{description}',
+    '',
+    '📱 <b>Instructions:</b>',
+    '1. Click "Open in Wallet" button below',
+    '2. Approve the connection in your wallet',
+    '3. Return to this chat for confirmation',
+    '',
+    '⏰ <b>Time Limits:</b>',
+    '• Approve within {approveMinutes, plural, one {# minute} other {# minutes}}',
+    '• Connection expires in {expiryMinutes, plural, one {# minute} other {# minutes}}',
+    '',
+    '🔒 Your private keys never leave your wallet'
+  ].join('\n'),
+  'wallet.connect.all_apps': '📱 <b>All Available Wallets</b>\n\nChoose your preferred wallet app:',
+  'wallet.qr.request_failed': '❌ Failed to create connection request. Please try again or use wallet apps.',
+  'wallet.qr.generation_failed': [
+    '📱 <b>Wallet Connection</b>',
+    '',
+    '⚠️ QR code generation failed. Use the connection string instead:',
+    '',
+    '🔗 <b>Connection String:</b>',
+    '<code>{uri}</code>',
+    '',
+    '📷 <b>Instructions:</b>',
+    '1. Copy the connection string above',
+    '2. Open your wallet app',
+    '3. Find "WalletConnect" section',
+    '4. Paste the connection string',
+    '',
+    '🔒 Secured by WalletConnect v2 protocol'
+  ].join('\n'),
+  'wallet.qr.caption': [
+    '📱 <b>QR Code Wallet Connection</b>',
+    '',
+    '📷 <b>Instructions:</b>',
+    '1. Open your wallet app',
+    '2. Find "WalletConnect" or "Scan QR Code"',
+    '3. Point your camera at the QR code above',
+    '4. Approve the connection request',
+    '',
+    '⏰ <b>Time Limits:</b>',
+    '• QR Code expires in {seconds, plural, one {# second} other {# seconds}}',
+    '• Approve within {approveMinutes, plural, one {# minute} other {# minutes}}',
+    '',
+    '🔒 Secured by WalletConnect v2 protocol',
+    '',
+    '💡 <b>Supported Wallets:</b>',
+    'MetaMask, Trust Wallet, Coinbase Wallet,',
+    'Rainbow, and many more...'
+  ].join('\n'),
+  'wallet.qr.instructions': [
+    '📱 <b>QR Code Wallet Connection</b>',
+    '',
+    '📷 <b>Instructions:</b>',
+    '1. Open your wallet app',
+    '2. Find "WalletConnect" or "Scan QR Code"',
+    '3. Scan QR code or use the connection string below',
+    '',
+    '🔗 <b>Connection String:</b>',
+    '<code>{uri}</code>',
+    '',
+    '⏰ <b>Time Limits:</b>',
+    '• QR Code expires in {seconds, plural, one {# second} other {# seconds}}',
+    '• Approve within {approveMinutes, plural, one {# minute} other {# minutes}}',
+    '',
+    '💡 <b>Alternative Methods:</b>',
+    '• Copy the connection string above',
+    "• Paste it in your wallet's WalletConnect section",
+    '',
+    '🔒 Secured by WalletConnect v2 protocol'
+  ].join('\n'),
+  'wallet.btn.show_qr': 'Show QR Code',
+  'wallet.btn.manual': 'Enter Address Manually',
+  'wallet.btn.open_in': 'Open in {name}',
+  'wallet.btn.try_again': 'Try Again',
+  'wallet.btn.try_apps': 'Try Wallet Apps',
+  'wallet.btn.new_qr': 'Generate New QR',
+  'wallet.btn.copy_uri': 'Copy Connection String',
+  'wallet.toast.creating_connection': '🔄 Creating connection...',
+  'wallet.toast.generating_qr': '📱 Generating QR code...',
+  'wallet.manual.invalid': [
+    '❌ <b>Invalid Wallet Address</b>',
+    '',
+    'Please check your address and try again.',
+    '',
+    '✅ <b>Supported formats:</b>',
+    '• Ethereum: 0x...',
+    '• Bitcoin: 1..., 3..., or bc1...',
+    '• Solana: Base58 format',
+    '• TON: EQ... or 0:...'
+  ].join('\n'),
+  'wallet.manual.taken': [
+    '😼 <b>We caught you — nice try!</b>',
+    '',
+    'This wallet <code>{address}</code> is already connected to another account.',
+    'For fairness and security, each wallet can be linked to only one account.',
+    'If you attempt to bypass this rule, we may block both accounts.'
+  ].join('\n'),
+  'wallet.manual.locked': '🔒 <b>Wallet Locked</b>\n\nOnly your first connected wallet is allowed for security.\nOriginal: <code>{address}</code>',
+  'wallet.manual.connected': [
+    '✅ <b>Wallet Connected Successfully!</b>',
+    '',
+    '👛 Address: <code>{address}</code>',
+    '🔗 Type: {type}',
+    '🎉 You can now access wallet-exclusive features!',
+    '',
+    '{provable, select, yes {🛡 Next, prove this wallet is yours by signing a short message.} other {Your wallet is now connected securely!}}'
+  ].join('\n'),
+  'wallet.manual.prompt': [
+    '✍️ <b>Enter Your Wallet Address</b>',
+    '',
+    'Send your wallet address as a message.',
+    '',
+    '✅ <b>Supported formats:</b>',
+    '• Ethereum: 0x...',
+    '• Bitcoin: 1..., 3..., or bc1...',
+    '• Solana: Base58 format',
+    '• TON: EQ... or 0:...',
+    '',
+    '🛡 Ethereum, Solana and TON wallets are then verified by signing a message.'
+  ].join('\n'),
+  'wallet.verify.already': '🛡 <b>Wallet Verified</b>\n\nYou have already proven ownership of this wallet.',
+  'wallet.verify.start_failed': 'Could not start verification.',
+  'wallet.verify.challenge': [
+    '🛡 <b>Verify Wallet Ownership</b>',
+    '',
+    'Wallet: <code>{address}</code>',
+    '',
+    'Sign exactly this message:',
+    '<pre>{message}</pre>',
+    '',
+    '{chain, select, evm {Sign it with your wallet (personal_sign / "Sign message") and paste the 0x… signature here.} other {Sign it with your wallet\'s "Sign message" feature and paste the signature here (hex, base64 or base58).}}',
+    '',
+    '⏰ Valid for {minutes, plural, one {# minute} other {# minutes}}. Signing is free and never moves funds.'
+  ].join('\n'),
+  'wallet.verify.check_app': '📲 Check your wallet app and approve the signature request…',
+  'wallet.withdraw.no_wallet': '❌ You need to connect a wallet before withdrawing.\n\nUse the wallet menu to connect your wallet first.',
+  'wallet.withdraw.join_required': '❌ <b>Channel Join Required</b>\n\nYou must join our Telegram channel before withdrawing tokens.\n\nPlease join: {channel}\n\nAfter joining, try again.',
+  'wallet.btn.get_help': 'Get Help',
+  'wallet.btn.sign_in_app': 'Sign in Wallet App',
+  'wallet.btn.new_message': 'New Message',
+  'wallet.btn.join_channel': 'Join Channel',
+  'wallet.btn.joined_check': 'I Joined - Check Again',
+  'wallet.btn.joined_retry': 'I Joined - Try Again',
+  'wallet.btn.confirm_withdrawal': 'Confirm Withdrawal',
+  'wallet.btn.token_on_network': '{symbol} on {network}',
+  'wallet.btn.claim_airdrop': 'Claim Airdrop',
+  'wallet.btn.withdraw_tokens': 'Withdraw Tokens',
+  'wallet.btn.disconnect_confirm': '❌ Yes, Disconnect',
+  'wallet.toast.copy_uri': '📋 Copy the connection string from the message above',
+  'wallet.toast.invalid_session': '❌ Invalid session action',
+  'wallet.toast.invalid_withdrawal_session': '❌ Invalid withdrawal session',
+  'wallet.toast.invalid_transfer_session': '❌ Invalid transfer session',
+  'wallet.toast.processing_withdrawal': '🔄 Processing withdrawal...',
+  'wallet.toast.disconnect_failed': '❌ Error processing disconnection request',
+  'wallet.withdraw.connect_first': '❌ Please connect your wallet first to withdraw tokens.',
+  'wallet.withdraw.insufficient': [
+    '❌ <b>Insufficient Balance</b>',
+    '',
+    'You need {missing, plural, one {# more point} other {# more points}} to withdraw.',
+    '',
+    'Current Balance: {balance, plural, one {# point} other {# points}}',
+    'Minimum Required: {minimum, plural, one {# point} other {# points}}'
+  ].join('\n'),
+  'wallet.withdraw.session_expired': '❌ <b>Wallet Session Expired</b>\n\nYour WalletConnect session has expired. Please reconnect your wallet to continue.',
+  'wallet.withdraw.session_invalid': [
+    '❌ <b>Wallet Session Invalid</b>',
+    '',
+    '🔄 Your wallet connection has been disconnected or expired.',
+    '⚡ Please reconnect your wallet to continue with the withdrawal.',
+    '',
+    '💡 <b>Tip:</b> Make sure your wallet app is still connected.'
+  ].join('\n'),
+  'wallet.withdraw.confirm': [
+    '🚀 <b>Withdraw Confirmation</b>',
+    '',
+    '💰 <b>Points to Withdraw:</b> {points, plural, one {# point} other {# points}}',
+    '🪙 <b>Tokens to Receive:</b> {tokens} {symbol}',
+    '📊 <b>Exchange Rate:</b> 1 point = {rate} {symbol}',
+    '🌐 <b>Network:</b> {network}',
+    '',
+    '👛 <b>Destination Wallet:</b>',
+    '<code>{address}</code>',
+    '',
+    '⚡ <b>Next Steps:</b>',
+    '1. Click "Confirm Withdrawal" below',
+    '{mode, select, merkle {2. Approve the claim request in your wallet} claim {2. Approve the signature request in your wallet} other {2. Tokens will be sent from our distribution wallet}}',
+    "{mode, select, merkle {3. Tokens will be transferred by your wallet} claim {3. Tokens will be transferred by your wallet} other {3. You'll receive confirmation after on-chain success}}",
+    '',
+    '{mode, select, merkle {🔒 <b>Security:</b> Claim verified on-chain by Merkle proof} claim {🔒 <b>Security:</b> Transaction secured by WalletConnect signature} other {🔒 <b>Security:</b> On-chain transfer from verified distributor}}'
+  ].join('\n'),
+  'wallet.withdraw.no_network': [
+    '❌ <b>Network Not Supported</b>',
+    '',
+    'None of the networks we pay out on is available for your wallet.',
+    '',
+    '💡 Connect a wallet that supports one of our payout networks, or contact support.'
+  ].join('\n'),
+  'wallet.withdraw.choose_network': '🌐 <b>Choose Payout Network</b>\n\nYour wallet can receive rewards on several networks. Pick the token and network to withdraw to:',
+  'wallet.withdraw.must_remain': '❌ <b>Channel Join Required</b>\n\nYou must remain in our Telegram channel to withdraw tokens.\n\nPlease join: {channel}\n\nAfter joining, start the withdrawal process again.',
+  'wallet.withdraw.membership_check_failed': '❌ <b>Verification Failed</b>\n\nCould not verify your channel membership. Please try again.\n\nIf the problem persists, contact support.',
+  'wallet.withdraw.failed': [
+    '❌ <b>Withdrawal Failed!</b>',
+    '',
+    "{reason, select, below_minimum {💰 You need at least {minimum, plural, one {# point} other {# points}} to withdraw.} no_allocation {📭 You have no airdrop allocation to claim.} already_claimed {✅ Your airdrop allocation has already been claimed on-chain.} unsupported_token {🌐 This payout network is no longer available. Please start the withdrawal again.} daily_cap_reached {📅 Today's payout limit on this network has been reached. Please try again tomorrow.} other {⚠️ Could not create the withdrawal request. Please try again.}}"
+  ].join('\n'),
+  'wallet.withdraw.requested': [
+    '⏳ <b>Withdrawal Requested</b>',
+    '',
+    '🪙 <b>Tokens:</b> {tokens} {symbol}',
+    '💰 <b>{method, select, merkle_claim {Points Frozen at Snapshot} other {Points Locked}}:</b> {points, plural, one {# point} other {# points}}',
+    '👛 <b>To Wallet:</b> <code>{address}</code>',
+    '',
+    '{review, select, yes {🔎 Your withdrawal is being reviewed by our team before the tokens are sent} other {{method, select, server_signed_transfer {🔄 Tokens are being sent from our distribution wallet} merkle_claim {💫 Please check your wallet for the claim transaction} other {💫 Please check your wallet for the signature request}}}}',
+    '📩 You will get a message once the transaction is confirmed.',
+    '{method, select, merkle_claim {↩️ If it fails or expires, your allocation stays available to claim again.} other {{review, select, yes {↩️ If it is denied, fails or expires, your points are returned automatically.} other {↩️ If it fails or expires, your points are returned automatically.}}}}'
+  ].join('\n'),
+  'wallet.withdraw.unexpected_error': '❌ <b>Withdrawal Error</b>\n\nAn unexpected error occurred. Please try again later or contact support.',
+  'wallet.withdraw.active': '⏳ <b>Withdrawal In Progress</b>\n\nYou already have a withdrawal being processed.',
+  'wallet.withdraw.active_details': '💰 <b>Points Locked:</b> {points, plural, one {# point} other {# points}}\n📌 <b>Status:</b> {status}',
+  'wallet.withdraw.active_notice': '📩 You will get a message once it completes.',
+  'wallet.withdraw.status_label': '{status, select, pending_review {Under review} requested {Preparing transaction} signed {Waiting for wallet approval} submitted {Waiting for blockchain confirmation} confirmed {Confirmed} failed {Failed} denied {Denied} expired {Expired} other {{status}}}',
+  'wallet.withdraw.unverified': [
+    '🛡 <b>Wallet Not Verified</b>',
+    '',
+    'Withdrawals are only sent to wallets you have proven you own.',
+    '👛 Wallet: <code>{address}</code>',
+    '',
+    '{provable, select, yes {Sign a short message with this wallet to verify it, then try again.} other {This wallet type cannot be verified. Please connect an Ethereum, Solana or TON wallet.}}'
+  ].join('\n'),
+  'wallet.airdrop.none': [
+    '🪂 <b>Airdrop Claim</b>',
+    '',
+    '📭 You have no airdrop allocation to claim right now.',
+    '',
+    '💰 <b>Current Balance:</b> {balance, plural, one {# point} other {# points}}',
+    'Balances are frozen into an allocation when the next snapshot is taken.'
+  ].join('\n'),
+  'wallet.airdrop.claim': [
+    '🪂 <b>Airdrop Claim</b>',
+    '',
+    '💰 <b>Points Frozen:</b> {points, plural, one {# point} other {# points}}',
+    '🪙 <b>Tokens to Claim:</b> {tokens} {symbol}',
+    '📅 <b>Snapshot:</b> {snapshot}',
+    '👛 <b>Wallet:</b> <code>{address}</code>',
+    '',
+    '⚠️ Tokens are paid to the wallet recorded at the snapshot. Approve the claim transaction in your connected wallet.'
+  ].join('\n'),
+  'wallet.history.title': '📊 <b>Wallet History</b>',
+  'wallet.history.connections': '<b>🔗 Connections:</b>',
+  'wallet.history.connection': '• {date}: {address} ({method}, {status})',
+  'wallet.history.withdrawals': '<b>💸 Withdrawals:</b>',
+  'wallet.history.withdrawal': '• {date}: {points, plural, one {# point} other {# points}}{tokens} - {status}',
+  'wallet.history.no_withdrawals': 'No withdrawals yet.',
+  'wallet.disconnect.confirm': [
+    '⚠️ <b>Disconnect Wallet Session</b>',
+    '',
+    'Are you sure you want to disconnect your current wallet session?',
+    '',
+    '💡 <b>What happens:</b>',
+    '• Your WalletConnect session will be terminated',
+    "• You'll need to reconnect to withdraw rewards",
+    '• You can only reconnect your registered wallet:',
+    '  <code>{address}</code>',
+    '',
+    '⚠️ <b>Important:</b>',
+    'You CANNOT connect a different wallet address. Only your original wallet can be reconnected for security reasons.'
+  ].join('\n'),
+  'wallet.disconnect.done': [
+    '✅ <b>Wallet Session Disconnected</b>',
+    '',
+    '🔌 Your wallet session has been disconnected.',
+    '',
+    '• All WalletConnect sessions terminated',
+    '• Current connection removed',
+    '• Your registered wallet: <code>{address}</code>',
+    '',
+    '🔒 <b>Security Note:</b>',
+    'You can only reconnect your original wallet. This ensures fair distribution and prevents abuse.',
+    '',
+    'Thank you for using our bot!'
+  ].join('\n'),
+
+  'withdrawal.status.confirmed': '🎉 <b>Withdrawal Successful!</b>\n\n✅ <b>Transaction Confirmed</b>\n🪙 <b>Tokens Sent:</b> {tokens}\n💰 <b>Points Used:</b> {points, plural, one {# point} other {# points}}\n👛 <b>To Wallet:</b> <code>{wallet}</code>',
+  'withdrawal.status.denied': '🚫 <b>Withdrawal Denied</b>\n\n📝 <b>Reason:</b> {reason}\n\n🪙 <b>Tokens Requested:</b> {tokens}\n👛 <b>To Wallet:</b> <code>{wallet}</code>',
+  'withdrawal.status.failed': '❌ <b>Withdrawal Failed!</b>\n\n{reason}\n\n🪙 <b>Tokens Requested:</b> {tokens}\n👛 <b>To Wallet:</b> <code>{wallet}</code>',
+  'withdrawal.status.hash': '🔍 <b>Transaction Hash:</b>\n<code>{hash}</code>',
+  'withdrawal.status.earn_more': '🎯 Complete more tasks to earn new points!',
+  'withdrawal.status.refunded': '📊 {points, plural, one {# point has} other {# points have}} been returned to your balance',
+  'withdrawal.status.allocation_kept': '📊 Your airdrop allocation is still available; you can claim it again',
+  'withdrawal.status.not_approved': 'Not approved',
+  'withdrawal.reason.rejected': '🚫 <b>Transaction Cancelled</b>\nYou cancelled the transaction in your wallet',
+  'withdrawal.reason.session_expired': '🔌 <b>Wallet Session Expired</b>\nPlease reconnect your wallet and try again',
+  'withdrawal.reason.insufficient_gas': '💸 <b>Insufficient Gas Balance</b>\nThe sending wallet needs ETH for gas fees',
+  'withdrawal.reason.reverted': '⛔️ <b>Transaction execution reverted</b>',
+  'withdrawal.reason.nonce': '🔄 <b>Duplicate Transaction</b>\nThis claim was already used',
+  'withdrawal.reason.unknown': '⚠️ <b>Transaction Error</b>\n{detail}',
+  'withdrawal.reason.expired': '⌛ <b>Withdrawal Expired</b>\nThe transaction was not completed in time',
+  'withdrawal.btn.earn_more': 'Earn More Points',
+  'withdrawal.btn.view_wallet': 'View Wallet',
+  'withdrawal.btn.try_again': 'Try Again',
+
+  'transfer.processing': '🔄 Processing transfer...',
+  'transfer.error.menu': '❌ Error loading transfer menu.',
+  'transfer.error.start': '❌ Error starting transfer.',
+  'transfer.error.session_expired': '❌ Transfer session expired. Please start again.',
+  'transfer.error.session_invalid': '❌ Transfer session invalid. Please start again.',
+  'transfer.error.session_gone': '❌ Transfer session invalid or expired.',
+  'transfer.error.recipient': '❌ Error processing recipient.',
+  'transfer.error.sender_not_found': '❌ Sender not found.',
+  'transfer.error.amount': '❌ Error processing amount.',
+  'transfer.error.confirmation': '❌ Error showing confirmation.',
+  'transfer.error.user_not_found': '❌ Transfer failed: User not found.',
+  'transfer.error.insufficient': '❌ Transfer failed: Insufficient balance.',
+  'transfer.error.failed': '❌ Transfer failed. Please try again.',
+  'transfer.error.history': '❌ Error loading transfer history.',
+  'transfer.disabled': '❌ <b>Transfer Disabled</b>\n\nPoint transfers are currently disabled by the administrator.',
+  'transfer.menu': [
+    '📈 <b>Points Transfer Center</b>',
+    '',
+    '💰 <b>Your Balance:</b> {balance, plural, one {# point} other {# points}}',
+    '🔄 <b>Daily Transfers Used:</b> {used}/{limit}',
+    '📉 <b>Daily Amount Transferred:</b> {transferred, plural, one {# point} other {# points}}',
+    '',
+    '💸 <b>Transfer Limits:</b>',
+    '• <b>Minimum:</b> {min, plural, one {# point} other {# points}}',
+    '• <b>Maximum:</b> {max, plural, one {# point} other {# points}}',
+    '• <b>Daily Limit:</b> {daily, plural, one {# point} other {# points}}',
+    '• <b>Transfer Fee:</b> {fee}%',
+    '',
+    '{status, select, ready {✅ <b>Ready to transfer!</b> Send points to other users instantly.} daily_limit {❌ <b>Cannot transfer:</b> Daily limit reached} insufficient {❌ <b>Cannot transfer:</b> Insufficient balance} other {❌ <b>Cannot transfer:</b> Unknown error}}'
+  ].join('\n'),
+  'transfer.step.recipient': [
+    '🎯 <b>Step 1: Enter Recipient</b>',
+    '',
+    '👤 <b>How to send:</b>',
+    '• User ID: <code>123456789</code>',
+    '• Username: <code>@username</code> or <code>username</code>',
+    '',
+    '📝 <b>Please send the recipient information as your next message.</b>',
+    '',
+    '🕰️ <b>Session expires in {minutes, plural, one {# minute} other {# minutes}}</b>'
+  ].join('\n'),
+  'transfer.step.amount': [
+    '🎯 <b>Step 2: Enter Amount</b>',
+    '',
+    '👤 <b>Recipient:</b> {recipient}',
+    '',
+    '💰 <b>Enter transfer amount:</b>',
+    '• <b>Minimum:</b> {min, plural, one {# point} other {# points}}',
+    '• <b>Maximum:</b> {max, plural, one {# point} other {# points}}',
+    '• <b>Transfer Fee:</b> {fee}%',
+    '',
+    '📝 <b>Please send the amount as your next message.</b>'
+  ].join('\n'),
+  'transfer.recipient.not_found': '❌ <b>Recipient Not Found</b>\n\nCould not find a user with that ID or username.\nPlease check and try again.',
+  'transfer.recipient.self': '❌ <b>Invalid Recipient</b>\n\nYou cannot transfer points to yourself.',
+  'transfer.amount.invalid': '❌ <b>Invalid Amount</b>\n\n{reason, select, not_positive {Amount must be greater than 0} below_minimum {Minimum transfer amount is {min, plural, one {# point} other {# points}}} above_maximum {Maximum transfer amount is {max, plural, one {# point} other {# points}}} insufficient_balance {Insufficient balance} other {Please enter a valid number of points.}}',
+  'transfer.amount.insufficient': '❌ <b>Insufficient Balance</b>\n\n💰 <b>Required:</b> {required, plural, one {# point} other {# points}}\n\n💳 <b>Your Balance:</b> {balance, plural, one {# point} other {# points}}',
+  'transfer.confirm': [
+    '📋 <b>Transfer Confirmation</b>',
+    '',
+    '👤 <b>From:</b> {from}',
+    '👥 <b>To:</b> {to}',
+    '',
+    '💰 <b>Transfer Details:</b>',
+    '• <b>Amount to Send:</b> {amount, plural, one {# point} other {# points}}',
+    '• <b>Transfer Fee ({feePercent}%):</b> {fee, plural, one {# point} other {# points}} (deducted from amount)',
+    '• <b>Recipient Receives:</b> {net, plural, one {# point} other {# points}}',
+    '',
+    '🔗 <b>Transaction Hash:</b>',
+    '<code>{hash}</code>',
+    '',
+    'ℹ️ <b>Remaining Balance:</b> {remaining, plural, one {# point} other {# points}}',
+    '',
+    '⚠️ <b>This action cannot be undone!</b>'
+  ].join('\n'),
+  'transfer.you': 'You',
+  'transfer.notify.sent': [
+    '✅ <b>Transfer Sent Successfully!</b>',
+    '',
+    '💸 <b>Amount:</b> {amount, plural, one {# point} other {# points}}',
+    '👤 <b>To:</b> {to}',
+    '💰 <b>Fee:</b> {fee, plural, one {# point} other {# points}}',
+    '🔗 <b>Transaction ID:</b> <code>{hash}</code>',
+    '',
+    '📝 <b>Note:</b> The recipient has been notified.'
+  ].join('\n'),
+  'transfer.notify.received': [
+    '🎉 <b>Points Received!</b>',
+    '',
+    '💎 <b>Amount:</b> {amount, plural, one {# point} other {# points}}',
+    '👤 <b>From:</b> {from}',
+    '🔗 <b>Transaction ID:</b> <code>{hash}</code>',
+    '',
+    '💰 Your balance has been updated automatically.'
+  ].join('\n'),
+  'transfer.toast.cancelled': '❌ Transfer cancelled',
+  'transfer.cancelled': '❌ <b>Transfer Cancelled</b>\n\nYour transfer has been cancelled successfully.',
+  'transfer.session_error': '❌ <b>Transfer Session Error</b>\n\nYour transfer session has expired or encountered an error.\nPlease start a new transfer.',
+  'transfer.history.title': '📈 <b>Transfer History</b>',
+  'transfer.history.none': "📋 <b>No transfers yet</b>\n\nYou haven't made or received any point transfers.",
+  'transfer.history.recent': '📉 <b>Recent Transfers:</b>',
+  'transfer.history.entry': '{direction, select, sent {💸 <b>Sent:</b> {amount, number} pts\n• To: {user}} other {📈 <b>Received:</b> {amount, number} pts\n• From: {user}}}\n• Date: {date}\n• Hash: <code>{hash}</code>',
+  'transfer.history.summary': '📅 <b>Summary:</b>\n• Transfers Sent: {sent} ({sentPoints, number} pts)\n• Transfers Received: {received} ({receivedPoints, number} pts)',
+  'transfer.btn.start': 'Start Transfer',
+  'transfer.btn.start_new': 'Start New Transfer',
+  'transfer.btn.new': 'New Transfer',
+  'transfer.btn.cancel': '❌ Cancel Transfer',
+  'transfer.btn.confirm': 'Confirm Transfer',
+  'transfer.btn.history': 'View History'
+};
@@ -0,0 +1,7 @@
+import { MessageCatalog } from '../types/i18n.types';
+import { en } from './en';
+import { ru } from './ru';
+import { bn } from './bn';
+
+/** Catalogs shipped with the bot; admins can add or override messages from the panel */
+export const BUILT_IN_CATALOGS: Record<string, MessageCatalog> = { en, ru, bn };
@@ -0,0 +1,964 @@
+import { MessageCatalog } from '../types/i18n.types';
+
+export const ru: MessageCatalog = {
+  'common.main_menu': 'Главное меню',
+  'common.refresh': 'Обновить',
+  'common.cancel': 'Отмена',
+  'common.not_set': 'Не указано',
+  'common.unknown': 'Неизвестно',
+  'common.yes': 'Да',
+  'common.no': 'Нет',
+  'common.active': '✅ Активен',
+  'common.inactive': '❌ Неактивен',
+  'common.user_not_found': '❌ Пользователь не найден.',
+  'common.unknown_action': '❌ Неизвестное действие',
+  'common.back': 'Назад',
+
+  'commands.start': 'Запустить бота',
+  'commands.menu': 'Главное меню',
+  'commands.points': 'Мои баллы',
+  'commands.tasks': 'Доступные задания',
+  'commands.wallet': 'Подключить кошелёк',
+  'commands.referrals': 'Реферальная программа',
+  'commands.stats': 'Моя статистика',
+  'commands.help': 'Справка',
+  'commands.language': 'Сменить язык бота',
+
+  'language.title': [
+    '🌐 <b>Язык</b>',
+    '',
+    'Сейчас: <b>{current}</b>',
+    '{mode, select, auto {<i>Как в настройках Telegram.</i>} other {<i>Выбран через /language.</i>}}',
+    '',
+    'Выберите язык, на котором бот будет с вами общаться:'
+  ].join('\n'),
+  'language.auto': '🔄 Как в Telegram',
+  'language.set': '✅ Язык изменён: {name}.',
+  'language.reset': '✅ Бот снова использует язык Telegram ({name}).',
+  'language.error': '❌ Не удалось сменить язык. Попробуйте ещё раз.',
+
+  'menu.btn.tasks': 'Задания',
+  'menu.btn.points': 'Баллы',
+  'menu.btn.wallet': 'Кошелёк',
+  'menu.btn.referrals': 'Рефералы',
+  'menu.btn.profile': 'Профиль',
+  'menu.btn.leaderboard': 'Рейтинг',
+  'menu.btn.support': 'Поддержка',
+  'menu.btn.help': 'Помощь',
+  'menu.btn.language': '🌐 Язык',
+  'menu.btn.contact_support': 'Написать в поддержку',
+  'menu.btn.visit_website': 'Открыть сайт',
+  'menu.btn.view_tasks': 'Задания',
+  'menu.btn.my_referrals': 'Мои рефералы',
+  'menu.btn.wallet_settings': 'Настройки кошелька',
+  'menu.btn.detailed_stats': 'Подробная статистика',
+  'menu.btn.my_profile': 'Мой профиль',
+  'menu.btn.create_ticket': 'Создать обращение',
+  'menu.btn.faq': 'Вопросы и ответы',
+
+  'menu.error.menu': '❌ Не удалось загрузить меню. Попробуйте ещё раз.',
+  'menu.error.help': '❌ Не удалось загрузить справку. Попробуйте ещё раз.',
+  'menu.error.profile': '❌ Не удалось загрузить профиль. Попробуйте ещё раз.',
+  'menu.error.leaderboard': '❌ Не удалось загрузить рейтинг. Попробуйте ещё раз.',
+  'menu.error.support': '❌ Не удалось открыть поддержку. Попробуйте ещё раз.',
+
+  'menu.wallet_connected': '✅ {name}',
+  'menu.wallet_not_connected': '❌ Не подключён',
+  'menu.main.text': [
+    '🚀 <b>Добро пожаловать, {name}!</b>',
+    '',
+    '💰 <b>Обзор аккаунта</b>',
+    '💎 Баланс: <b>{balance, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}</b>',
+    '👥 Рефералов: <b>{referrals}</b>',
+    '📅 С нами: <b>{days, plural, one {# день} few {# дня} many {# дней} other {# дня}}</b>',
+    '✅ Выполнено заданий: <b>{tasks}</b>',
+    '🔐 Статус аккаунта: <b>{status}</b>',
+    '👛 Кошелёк: <b>{wallet}</b>',
+    '',
+    '🎯 <b>До вывода</b>',
+    '🎁 Цель: <b>{goal, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}</b>',
+    '🔄 Осталось: <b>{remaining, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}</b>',
+    '📊 Прогресс: {bar} <b>{pct}%</b>',
+    '',
+    '💎 <b>Стоимость в токенах</b>',
+    '✨ <b>{balance, number}</b> б. ≈ <b>{tokens} {symbol}</b>',
+    '{rate, select, none {} other {📈 Курс: <b>1 балл = {rate} {symbol}</b>}}',
+    '',
+    '🔗 <b>Ваша реферальная ссылка</b>',
+    '📎 Ссылка: <code>{link}</code>',
+    '',
+    '<i>💡 Совет: выполняйте задания, приглашайте друзей и подключите кошелёк, чтобы заработать больше!</i>'
+  ].join('\n'),
+
+  'menu.help.tracker_soon': 'Скоро',
+  'menu.help.text': [
+    '❓ <b>Справка</b>',
+    '',
+    '<b>🎯 Что такое Salada Protocol?</b>',
+    'Зарабатывайте баллы за задания и приглашённых друзей. Обменивайте баллы на токены и выводите их на свой кошелёк.',
+    '',
+    '<b>💰 Как заработать?</b>',
+    '• Задания: от {dailyBonus} баллов в день',
+    '• Друзья: {referralBonus, plural, one {# балл} few {# балла} many {# баллов} other {# балла}} за каждого',
+    '• Специальные события и бонусы',
+    '',
+    '<b>👛 Как вывести токены?</b>',
+    '1. Подключите кошелёк',
+    '2. Наберите минимальную сумму',
+    '3. Нажмите «Вывести» — токены будут отправлены автоматически',
+    '',
+    '<b>🔒 Безопасность</b>',
+    '• Один кошелёк на пользователя',
+    '• Защита от мультиаккаунтов',
+    '• Ключи остаются в вашем кошельке',
+    '',
+    '<b>🔗 Быстрые команды</b>',
+    '/menu — главное меню',
+    '/tasks — доступные задания',
+    '/wallet — кошелёк и вывод',
+    '/referrals — рефералы',
+    '/language — сменить язык',
+    '',
+    '<b>📞 Поддержка и ссылки</b>',
+    'Контакт: {support}',
+    'Сайт: {website}',
+    'Трекер: {tracker}',
+    '',
+    '<i>💡 Совет: приглашайте друзей, чтобы зарабатывать быстрее!</i>'
+  ].join('\n'),
+
+  'menu.profile.text': [
+    '👤 <b>Ваш профиль</b>',
+    '',
+    '<b>📋 Основное:</b>',
+    '• Имя: {name}',
+    '• Имя пользователя: {username}',
+    '• ID: <code>{userId}</code>',
+    '',
+    '<b>📊 Статистика:</b>',
+    '• Текущий баланс: <b>{points, number}</b>',
+    '• Всего заработано: <b>{earned, number}</b>',
+    '• Выполнено заданий: <b>{tasks}</b>',
+    '• Всего рефералов: <b>{referrals}</b>',
+    '',
+    '<b>📅 Активность:</b>',
+    '• Регистрация: {joined}',
+    '• Последняя активность: {lastActive}',
+    '• Статус аккаунта: {status}',
+    '',
+    '<b>🎫 Рефералы:</b>',
+    '• Реферальная ссылка: <code>{link}</code>',
+    '• Приглашён другом: {referred}',
+    '',
+    '<b>👛 Кошелёк:</b>',
+    '• Подключён: {connected}',
+    '{address, select, none {} other {• Адрес: <code>{address}</code>}}'
+  ].join('\n'),
+
+  'menu.leaderboard.title': '🏆 Рейтинг — топ-10',
+  'menu.leaderboard.your_rank': '📊 Ваше место: {rank}',
+
+  'menu.support.text': [
+    '💬 <b>Центр поддержки</b>',
+    '',
+    'Мы поможем с любыми вопросами и проблемами.',
+    '',
+    '👤 <b>Ваш аккаунт:</b>',
+    '• ID: {userId}',
+    '• Имя пользователя: {username}',
+    '• Статус: активен',
+    '',
+    '🎫 <b>Что можно сделать:</b>',
+    '• Создать обращение (одно в день по каждой теме)',
+    '• Найти ответы на частые вопросы',
+    '• Сообщить об ошибке',
+    '',
+    '⏰ <b>Время ответа:</b>',
+    'Обычно мы отвечаем в течение 24 часов.'
+  ].join('\n'),
+
+  'menu.ticket.category.technical': 'Технические проблемы бота',
+  'menu.ticket.category.ban': 'Мультиаккаунты и блокировки',
+  'menu.ticket.category.business': 'Бизнес и сотрудничество',
+  'menu.ticket.about.technical': '🛠️ Технические проблемы, ошибки или медленная работа',
+  'menu.ticket.about.ban': '⚠️ Ограничения аккаунта, обжалование блокировки или нарушения правил',
+  'menu.ticket.about.business': '💼 Покупка бота, партнёрство, сотрудничество или доработки на заказ',
+  'menu.ticket.choose': [
+    '🎫 <b>Новое обращение</b>',
+    '',
+    'Выберите тему обращения:',
+    '',
+    '1️⃣ <b>Технические проблемы бота</b>',
+    '   🛠️ Ошибки, сбои, медленная работа',
+    '',
+    '2️⃣ <b>Мультиаккаунты и блокировки</b>',
+    '   ⚠️ Ограничения аккаунта, обжалование блокировки, нарушения правил',
+    '',
+    '3️⃣ <b>Бизнес и сотрудничество</b>',
+    '   💼 Покупка бота, партнёрство, доработки на заказ'
+  ].join('\n'),
+  'menu.ticket.prompt': [
+    '🎫 <b>Новое обращение</b>',
+    '',
+    '📂 <b>Тема:</b> {category}',
+    '{about}',
+    '',
+    '📝 <b>Опишите ваш запрос подробно:</b>',
+    '• Укажите, в чём именно проблема или что вам нужно',
+    '• При необходимости приложите подробности или скриншоты',
+    '',
+    '📤 <b>Отправьте сообщение:</b>'
+  ].join('\n'),
+  'menu.ticket.limit_start': '⏰ По теме «{category}» можно создать только одно обращение в день. Попробуйте завтра.',
+  'menu.ticket.limit_submit': '⏰ Сегодня вы уже создали обращение по теме «{category}». Попробуйте завтра.',
+  'menu.ticket.created': [
+    '✅ <b>Обращение создано</b>',
+    '',
+    '🎫 Номер: <code>{id}</code>',
+    '📂 Тема: <b>{category}</b>',
+    '📧 Сообщение: ваш запрос успешно отправлен.',
+    '',
+    '⏰ Поддержка рассмотрит обращение и скоро ответит.'
+  ].join('\n'),
+  'menu.ticket.error_start': '❌ Не удалось начать обращение. Попробуйте ещё раз.',
+  'menu.ticket.error_create': '❌ Не удалось создать обращение. Попробуйте ещё раз.',
+  'menu.ticket.error_submit': '❌ Не удалось отправить обращение. Попробуйте ещё раз.',
+
+  'tasks.error.loading': '❌ Не удалось загрузить задания. Попробуйте ещё раз.',
+  'tasks.error.not_found': '❌ Задание не найдено',
+  'tasks.error.details': '❌ Не удалось загрузить задание',
+  'tasks.error.completed': '❌ Не удалось загрузить выполненные задания',
+  'tasks.error.pending': '❌ Не удалось загрузить задания на проверке',
+  'tasks.error.expired': '⏰ Время действия истекло. Попробуйте ещё раз.',
+  'tasks.error.invalid_data': '❌ Неверные данные задания',
+  'tasks.list.text': [
+    '<b>🎯 Задания (всего {total})</b>',
+    '',
+    '💰 <b>Ваш прогресс:</b>',
+    '✅ Выполнено: {completed, plural, one {# задание} few {# задания} many {# заданий} other {# задания}}',
+    '⏳ Доступно: {available, plural, one {# задание} few {# задания} many {# заданий} other {# задания}}',
+    '🏆 Заработано баллов: {points, number}',
+    '',
+    '🚀 <b>Выполняйте задания, чтобы зарабатывать баллы и подниматься в рейтинге!</b>',
+    '📊 Награда и статус каждого задания указаны ниже.'
+  ].join('\n'),
+  'tasks.btn.refresh': '🔄 Обновить',
+  'tasks.btn.completed': '✅ Выполненные',
+  'tasks.btn.pending': '⏰ На проверке',
+  'tasks.btn.main_menu': '🏠 Главное меню',
+  'tasks.btn.back': '← К заданиям',
+  'tasks.btn.cancel': '❌ Отмена',
+  'tasks.btn.skip': '⏭ Пропустить',
+  'tasks.campaigns.title': '🏁 <b>Кампании</b>',
+  'tasks.campaigns.complete': '✅ <b>{title}</b> — завершена',
+  'tasks.campaigns.steps': '{done}/{total} шагов',
+  'tasks.campaigns.next': '➡️ Дальше: {steps}',
+  'tasks.campaigns.bonus': '💰 Бонус: {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+  'tasks.campaigns.ends': '⏰ До: {date}',
+  'tasks.status.available': '⏳ Доступно',
+  'tasks.status.completed': '✅ Выполнено',
+  'tasks.status.pending': '⏳ На проверке',
+  'tasks.status.rejected': '❌ Отклонено',
+  'tasks.status.claimed': '✅ Получено',
+  'tasks.status.under_review': '👀 Проверяется',
+  'tasks.detail.next_in': 'через {duration}',
+  'tasks.detail.next_available': '⏳ <b>Снова доступно:</b> {when}',
+  'tasks.detail.description': '📝 <b>Описание:</b>',
+  'tasks.detail.reward': '💰 <b>Награда:</b> {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+  'tasks.detail.type': '🔧 <b>Тип:</b> {type}',
+  'tasks.detail.status': '📊 <b>Статус:</b> {status}',
+  'tasks.detail.submission': '📝 <b>Нужно отправить подтверждение:</b>',
+  'tasks.detail.submission_default': 'Отправьте запрошенную информацию.',
+  'tasks.detail.example': '<i>Пример: {example}</i>',
+  'tasks.detail.requirements': '📋 <b>Условия:</b>',
+  'tasks.detail.req_verification': '• Проверка в реальном времени',
+  'tasks.detail.req_premium': '• Нужна подписка Telegram Premium',
+  'tasks.detail.req_wallet': '• Нужен подключённый кошелёк',
+  'tasks.detail.req_account_age': '• Аккаунту не меньше {days, plural, one {# дня} few {# дней} many {# дней} other {# дня}}',
+  'tasks.detail.req_tasks': '• Выполнено не меньше {count, plural, one {# задания} few {# заданий} many {# заданий} other {# задания}}',
+  'tasks.detail.quiz': '❓ <b>Викторина:</b> {questions, plural, one {# вопрос} few {# вопроса} many {# вопросов} other {# вопроса}} • проходной балл {pass}% • {attempts, plural, one {# попытка} few {# попытки} many {# попыток} other {# попытки}}',
+  'tasks.detail.survey': '📋 <b>Опрос:</b> {questions, plural, one {# вопрос} few {# вопроса} many {# вопросов} other {# вопроса}}',
+  'tasks.detail.ends': '⏰ <b>До:</b> {date}',
+  'tasks.detail.locked': '🔒 <b>Недоступно:</b>',
+  'tasks.eligibility.not_started': 'Задание откроется {date}.',
+  'tasks.eligibility.expired': 'Задание завершено.',
+  'tasks.eligibility.country_unknown': 'Задание доступно только в некоторых странах, а ваше местоположение определить не удалось.',
+  'tasks.eligibility.country_required': 'Задание недоступно в вашей стране.',
+  'tasks.eligibility.country_blocked': 'Задание недоступно в вашей стране.',
+  'tasks.eligibility.account_too_new': 'Вашему аккаунту должно быть не меньше {days, plural, one {# дня} few {# дней} many {# дней} other {# дня}} (осталось {remaining, number}).',
+  'tasks.eligibility.wallet_required': 'Подключите кошелёк, чтобы открыть это задание.',
+  'tasks.eligibility.premium_required': 'Задание только для подписчиков Telegram Premium.',
+  'tasks.eligibility.minimum_tasks': 'Выполните ещё {count, plural, one {# задание} few {# задания} many {# заданий} other {# задания}}, чтобы открыть это.',
+  'tasks.eligibility.daily_limit_reached': 'Дневной лимит этого задания исчерпан. Попробуйте завтра.',
+  'tasks.eligibility.campaign_locked': 'Сначала завершите «{step}» в кампании {campaign}.',
+  'tasks.detail.done': '✅ <b>{daily, select, yes {Вы уже получили эту награду!} other {Вы выполнили это задание!}}</b>',
+  'tasks.type.telegram_join': 'Telegram',
+  'tasks.type.twitter_follow': 'Подписка в Twitter',
+  'tasks.type.twitter_retweet': 'Ретвит',
+  'tasks.type.instagram_follow': 'Instagram',
+  'tasks.type.youtube_subscribe': 'YouTube',
+  'tasks.type.daily_bonus': 'Ежедневное',
+  'tasks.type.referral_invite': 'Рефералы',
+  'tasks.type.premium_check': 'Premium',
+  'tasks.type.quiz': 'Викторина',
+  'tasks.type.survey': 'Опрос',
+  'tasks.type.custom': 'Соцсети',
+  'tasks.type.general': 'Общее',
+  'tasks.completed.title': '✅ <b>Выполненные задания</b>',
+  'tasks.completed.none': '😔 Вы ещё не выполнили ни одного задания.\n\nНажмите «← К заданиям», чтобы посмотреть доступные.',
+  'tasks.completed.summary': '🎉 Вы выполнили <b>{count, plural, one {# задание} few {# задания} many {# заданий} other {# задания}}</b>!\n💰 Всего заработано: <b>{points, number}</b>',
+  'tasks.completed.item': '✅ {title} - {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+  'tasks.completed.claimed': '{title} (получено)',
+  'tasks.pending.title': '⏰ <b>На проверке</b>',
+  'tasks.pending.none': '📋 Нет заявок на проверке.\n\nВсе ваши заявки уже рассмотрены, или вы ещё ничего не отправляли.',
+  'tasks.pending.summary': '📋 На проверке: <b>{count, plural, one {# заявка} few {# заявки} many {# заявок} other {# заявки}}</b>',
+  'tasks.pending.submitted': '   Отправлено: {date}',
+  'tasks.pending.wait': '⏱️ Дождитесь проверки администратором. Мы сообщим, когда заявки будут рассмотрены.',
+
+  'tasks.complete.already': '✅ Вы уже выполнили это задание!',
+  'tasks.complete.done': 'Задание выполнено!',
+  'tasks.complete.not_done': 'Сначала выполните условия задания.',
+  'tasks.complete.premium_done': 'Статус Premium подтверждён!',
+  'tasks.complete.premium_only': 'Это задание только для подписчиков Telegram Premium.',
+  'tasks.complete.referral_done': 'Реферальное задание выполнено!',
+  'tasks.complete.referral_missing': 'Для этого задания нужно больше рефералов.',
+  'tasks.complete.daily_recent': 'Ежедневный бонус уже получен недавно.',
+  'tasks.complete.daily_done': 'Ежедневное задание выполнено!',
+  'tasks.complete.daily_again': 'Сегодня вы уже выполнили это задание.',
+  'tasks.complete.invalid_method': '❌ Неверный способ проверки задания.',
+  'tasks.complete.join_first': 'Сначала вступите в наш канал, затем нажмите «Проверить и завершить».',
+  'tasks.complete.invite_more': '❌ Пригласите ещё {count, plural, one {# друга} few {# друзей} many {# друзей} other {# друга}}, чтобы выполнить задание. Нажмите «Получить реферальную ссылку», чтобы поделиться.',
+  'tasks.complete.invite': '❌ Пригласите {count, plural, one {# друга} few {# друзей} many {# друзей} other {# друга}}, чтобы выполнить задание. Нажмите «Получить реферальную ссылку», чтобы поделиться.',
+  'tasks.complete.toast': '✅ Задание выполнено!',
+  'tasks.complete.failed': '❌ Не удалось завершить задание. Попробуйте ещё раз.',
+  'tasks.complete.failed_toast': '❌ Не удалось завершить задание.',
+  'tasks.complete.failed_short': '❌ Задание не выполнено',
+  'tasks.complete.error': '❌ Ошибка при выполнении задания. Попробуйте ещё раз.',
+
+  'tasks.submit.title': '📝 <b>Отправка задания: {title}</b>',
+  'tasks.submit.instructions_default': '🔗 Отправьте данные, необходимые для проверки.',
+  'tasks.submit.example': '💡 <b>Пример:</b> <code>{example}</code>',
+  'tasks.submit.send': '📤 <b>Отправьте ссылку или скриншот в качестве доказательства:</b>',
+  'tasks.submit.no_user': '❌ Ошибка: ID пользователя не найден',
+  'tasks.submit.error_start': '❌ Не удалось начать отправку. Попробуйте ещё раз.',
+  'tasks.submit.result.config_error': '❌ Ошибка настройки задания. Обратитесь к администратору.',
+  'tasks.submit.result.invalid_format': '❌ Неверный формат. Ожидается: {example}',
+  'tasks.submit.result.example_default': 'корректная ссылка',
+  'tasks.submit.result.duplicate': '❌ Вы уже отправили это задание. Дождитесь проверки.',
+  'tasks.submit.result.auto_approved': '✅ Задание выполнено автоматически! Вы получили {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}!',
+  'tasks.submit.result.submitted': '✅ Задание отправлено на проверку! Мы сообщим, когда его одобрят.',
+  'tasks.submit.result.failed': '❌ Не удалось отправить задание. Попробуйте ещё раз.',
+
+  'tasks.proof.no_task': '📎 Чтобы отправить скриншот, откройте задание в /tasks и сначала нажмите кнопку отправки.',
+  'tasks.proof.too_large': '❌ Файл слишком большой. Отправьте скриншот поменьше.',
+  'tasks.proof.unsupported': '❌ Отправьте фото, изображение, PDF или MP4 в качестве доказательства.',
+  'tasks.proof.error': '❌ Не удалось обработать файл. Попробуйте ещё раз.',
+
+  'tasks.answer.not_set_up': '❌ Это задание ещё не настроено. Загляните позже.',
+  'tasks.answer.no_attempts': '❌ Вы использовали все попытки для этой викторины.',
+  'tasks.answer.unavailable': '❌ Это задание больше недоступно.',
+  'tasks.answer.quiz_unavailable': '❌ Эта викторина больше недоступна.',
+  'tasks.answer.header': '{kind, select, quiz {❓ Викторина} other {📋 Опрос}}: <b>{title}</b>',
+  'tasks.answer.progress': '<i>Вопрос {index} из {total}</i>',
+  'tasks.answer.reply_hint': '✍️ Ответьте сообщением (до {max, plural, one {# символа} few {# символов} many {# символов} other {# символа}}).',
+  'tasks.answer.choose_option': '👆 Выберите один из вариантов выше.',
+  'tasks.answer.text_required': '✍️ Ответьте текстовым сообщением.',
+  'tasks.answer.too_long': '❌ Ответ должен быть короче {max, plural, one {# символа} few {# символов} many {# символов} other {# символа}}.',
+  'tasks.answer.duplicate': '⚠️ Эта попытка уже записана.',
+  'tasks.answer.save_failed': '❌ Не удалось сохранить ответы. Попробуйте ещё раз.',
+  'tasks.answer.error': '❌ Ошибка при сохранении ответов. Попробуйте ещё раз.',
+  'tasks.answer.failed': [
+    '❌ Ваш результат {correct}/{total} ({score}%). Для прохождения нужно {pass}%.',
+    '{left, plural, =0 {Попыток для этой викторины больше нет.} one {Осталась # попытка.} few {Осталось # попытки.} many {Осталось # попыток.} other {Осталось # попытки.}}'
+  ].join('\n'),
+  'tasks.answer.quiz_passed': 'Викторина пройдена! Вы заработали {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}!',
+  'tasks.answer.survey_done': 'Спасибо за ответы! Вы заработали {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}!',
+
+  'points.error.loading': '❌ Не удалось загрузить баллы.',
+  'points.error.stats': '❌ Не удалось загрузить статистику.',
+  'points.error.history': '❌ Не удалось загрузить историю операций.',
+  'points.error.leaderboard': '❌ Не удалось загрузить рейтинг.',
+  'points.main.text': [
+    '💰 <b>Ваши баллы</b>',
+    '',
+    '💎 <b>Текущий баланс:</b> {balance, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '📈 <b>Всего заработано:</b> {earned, number}',
+    '📊 <b>Место в рейтинге:</b> {rank}',
+    '📉 <b>В среднем за день:</b> {perDay, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '',
+    '🎯 <b>Итоги:</b>',
+    '✅ Выполнено заданий: {tasks}',
+    '👥 Приглашено друзей: {referrals}',
+    '📅 С нами с: {joined}',
+    '',
+    '💡 <b>Как заработать больше:</b>',
+    '• Выполняйте доступные задания',
+    '• Приглашайте друзей по реферальной ссылке',
+    '• Подключите кошелёк, чтобы выводить токены',
+    '• Участвуйте в жизни сообщества',
+    '',
+    '🏆 <b>Цели:</b>',
+    '• Следующая цель: {milestone, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}'
+  ].join('\n'),
+  'points.btn.stats': 'Подробная статистика',
+  'points.btn.history': 'История',
+  'points.btn.leaderboard': 'Рейтинг',
+  'points.daily.already_claimed': '⏰ Ежедневный бонус сегодня уже получен!',
+  'points.daily.next_at': '⏰ Бонус уже получен. Следующий: {time}',
+  'points.daily.claimed': [
+    '✅ <b>Ежедневный бонус получен!</b>',
+    '',
+    '💰 Начислено: {points, number}',
+    '💎 Новый баланс: {balance, number}{streak, plural, =0 {} =1 {} one {\n🔥 Серия: # день (бонус x{multiplier})} few {\n🔥 Серия: # дня (бонус x{multiplier})} many {\n🔥 Серия: # дней (бонус x{multiplier})} other {\n🔥 Серия: # дня (бонус x{multiplier})}}',
+    '',
+    '⏰ Возвращайтесь завтра за новым бонусом!'
+  ].join('\n'),
+  'points.daily.error_claim': '❌ Не удалось начислить бонус',
+  'points.daily.error': '❌ Ошибка при выдаче бонуса',
+
+  'wallet.error.loading': '❌ Не удалось загрузить данные кошелька.',
+  'wallet.status.active': '🟢 Статус: сессия активна',
+  'wallet.status.expired': '🟡 Статус: сессия истекла — подключитесь заново',
+  'wallet.status.saved': '🟦 Статус: кошелёк сохранён (нет активной сессии)',
+  'wallet.ownership.verified': '🛡 Владение: подтверждено',
+  'wallet.ownership.unverified': '⚠️ Владение: не подтверждено',
+  'wallet.can_withdraw': '✅ Вы можете вывести баллы!',
+  'wallet.need_more': '❌ Для вывода не хватает {missing, plural, one {# балла} few {# баллов} many {# баллов} other {# балла}}',
+  'wallet.connected.text': [
+    '👛 <b>Ваш кошелёк</b>',
+    '',
+    '✅ <b>Подключённый кошелёк:</b>',
+    '📍 Адрес: <code>{address}</code>',
+    '🔗 Тип: {type}',
+    '🌐 Подключение: {method}',
+    '{ownership}{status}',
+    '',
+    '💰 <b>Доступные баллы:</b>',
+    'Текущий баланс: <b>{balance, number}</b>',
+    'Минимум для вывода: <b>{minimum}</b>',
+    '',
+    '📊 <b>Вывод:</b>',
+    '{withdrawal}',
+    '',
+    '🎯 <b>Что дальше:</b>',
+    '• Выполняйте задания, чтобы зарабатывать баллы',
+    '• Приглашайте друзей за бонусные баллы',
+    '• Следите за объявлениями о выводе'
+  ].join('\n'),
+  'wallet.none.text': [
+    '👛 <b>Подключение кошелька</b>',
+    '',
+    '❌ <b>Кошелёк не подключён</b>',
+    '',
+    '🔗 Подключите кошелёк, чтобы:',
+    '• Выводить заработанные токены',
+    '• Получать будущие раздачи',
+    '• Пользоваться функциями получения токенов',
+    '• Защитить свои награды',
+    '',
+    '💡 <b>Способы подключения:</b>',
+    '• <b>Приложения кошельков:</b> прямое подключение через популярные кошельки',
+    '• <b>QR-код:</b> универсальный способ',
+    '',
+    '🔒 <b>Безопасность:</b>',
+    'Работает на протоколе WalletConnect v2. Приватные ключи никогда не покидают ваш кошелёк — мы храним только адрес для выплаты наград.'
+  ].join('\n'),
+  'wallet.withdraw.text': [
+    '💸 <b>Вывод баллов</b>',
+    '',
+    '💰 <b>Текущий баланс:</b> {balance, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '💎 <b>Минимум для вывода:</b> {minimum, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '👛 <b>Кошелёк:</b> <code>{address}</code>',
+    '',
+    '{missing, plural, =0 {✅ <b>Вы можете вывести баллы!</b>\n\n🎯 Токены будут отправлены автоматически после подтверждения в блокчейне.} one {❌ <b>Недостаточно баллов</b>\n\nДля вывода не хватает # балла.} few {❌ <b>Недостаточно баллов</b>\n\nДля вывода не хватает # баллов.} many {❌ <b>Недостаточно баллов</b>\n\nДля вывода не хватает # баллов.} other {❌ <b>Недостаточно баллов</b>\n\nДля вывода не хватает # балла.}}',
+    '',
+    '⚠️ <b>Важно:</b>',
+    '• Подключите кошелёк, чтобы получить токены',
+    '• Транзакция проводится в блокчейне автоматически',
+    '• Скорость подтверждения зависит от сети',
+    '• Проверьте, что адрес кошелька указан верно',
+    '',
+    '📈 <b>Курс:</b>',
+    '1 балл = {rate} {symbol} (примерно)'
+  ].join('\n'),
+  'wallet.btn.withdraw': 'Вывести',
+  'wallet.btn.transfer': 'Перевести баллы',
+  'wallet.btn.history': 'История',
+  'wallet.btn.transfer_history': 'История переводов',
+  'wallet.btn.reconnect': 'Переподключить',
+  'wallet.btn.disconnect': 'Отключить',
+  'wallet.btn.connect': 'Подключить кошелёк',
+  'wallet.btn.verify': 'Подтвердить владение',
+  'wallet.btn.back': 'Назад к кошельку',
+  'wallet.btn.show_message_again': 'Показать сообщение снова',
+  'wallet.btn.start_again': 'Начать заново',
+
+  'wallet.error.connect_start': '❌ Не удалось начать подключение кошелька.',
+  'wallet.error.options': '❌ Не удалось загрузить способы подключения.',
+  'wallet.error.app_not_found': '❌ Приложение кошелька не найдено.',
+  'wallet.error.unknown_app': '❌ Неизвестное приложение кошелька',
+  'wallet.error.apps': '❌ Не удалось загрузить список кошельков.',
+  'wallet.error.connect_create': '❌ Не удалось создать подключение кошелька. Попробуйте ещё раз.',
+  'wallet.error.request_not_found': '❌ Запрос на подключение не найден или истёк.',
+  'wallet.error.request_expired': '❌ Срок запроса на подключение истёк. Попробуйте ещё раз.',
+  'wallet.error.qr': '❌ Не удалось создать QR-код. Попробуйте ещё раз.',
+  'wallet.error.connect': '❌ Не удалось подключить кошелёк. Попробуйте ещё раз.',
+  'wallet.error.verify_start': '❌ Не удалось начать проверку кошелька. Попробуйте ещё раз.',
+  'wallet.error.verify': '❌ Не удалось проверить кошелёк. Попробуйте ещё раз.',
+  'wallet.error.withdrawal': '❌ Не удалось загрузить данные о выводе.',
+  'wallet.error.withdrawal_request': '❌ Не удалось обработать запрос на вывод. Попробуйте ещё раз.',
+  'wallet.error.wallet_missing': '❌ Кошелёк не найден. Подключите кошелёк заново.',
+  'wallet.error.history': '❌ Не удалось загрузить историю кошелька.',
+  'wallet.error.disconnect': '❌ Не удалось отключить кошелёк. Попробуйте ещё раз.',
+  'wallet.error.message': '❌ Не удалось обработать сообщение. Попробуйте ещё раз.',
+  'wallet.verify.connect_first': '❌ Сначала подключите кошелёк.',
+  'wallet.verify.success': '✅ <b>Кошелёк подтверждён</b>\n\n🛡 Владение адресом <code>{address}</code> доказано.',
+  'wallet.verify.failed': '❌ <b>Проверка не пройдена</b>\n\n{reason}',
+  'wallet.verify.try_again': 'Попробуйте ещё раз.',
+
+  'wallet.connect.already': '👛 У вас уже есть подключённый кошелёк.\n\nТекущий: <code>{address}</code>\n\nВ целях безопасности разрешён только первый кошелёк.\nЕсли сессия истекла, её можно переподключить.',
+  'wallet.connect.no_apps': '❌ Сейчас нет доступных приложений кошельков.\n\nОбратитесь в поддержку.',
+  'wallet.connect.locked': [
+    '🔒 <b>Кошелёк уже подключён</b>',
+    '',
+    '✅ К вашему аккаунту уже подключён кошелёк.',
+    '💳 Текущий кошелёк: <code>{address}</code>',
+    '',
+    '⚠️ <b>Безопасность:</b> одному пользователю разрешён только один кошелёк.',
+    '',
+    '💡 Если нужно сменить кошелёк, обратитесь в поддержку.'
+  ].join('\n'),
+  'wallet.connect.text': [
+    '👛 <b>Подключение кошелька</b>',
+    '',
+    '🔗 Выберите приложение кошелька:',
+    '',
+    '📱 <b>Телефон:</b> нажмите кнопку кошелька, чтобы открыть приложение',
+    '💻 <b>Компьютер:</b> отсканируйте QR-код мобильным кошельком',
+    '',
+    '⚡ <b>Что это даёт:</b>',
+    '• Получение наград аирдропа',
+    '• Доступ к заданиям только для владельцев кошельков',
+    '• Более высокий уровень безопасности',
+    '',
+    '⏰ <b>Важно:</b> подтвердите подключение в кошельке в течение {approveMinutes, plural, one {# минуты} few {# минут} many {# минут} other {# минуты}}.',
+    '🔗 Подключение истекает через {expiryMinutes, plural, one {# минуту} few {# минуты} many {# минут} other {# минуты}}.',
+    '',
+    '🔒 Защищено протоколом WalletConnect v2.'
+  ].join('\n'),
+  'wallet.connect.app_text': [
+    '🔗 <b>Подключение {name}</b>',
+    '',
+    '{icon} <b>{name}</b>',
+    '{description}',
+    '',
+    '📱 <b>Инструкция:</b>',
+    '1. Нажмите кнопку «Открыть в кошельке» ниже',
+    '2. Подтвердите подключение в кошельке',
+    '3. Вернитесь в этот чат за подтверждением',
+    '',
+    '⏰ <b>Ограничения по времени:</b>',
+    '• Подтвердите в течение {approveMinutes, plural, one {# минуты} few {# минут} many {# минут} other {# минуты}}',
+    '• Подключение истекает через {expiryMinutes, plural, one {# минуту} few {# минуты} many {# минут} other {# минуты}}',
+    '',
+    '🔒 Приватные ключи никогда не покидают ваш кошелёк'
+  ].join('\n'),
+  'wallet.connect.all_apps': '📱 <b>Все доступные кошельки</b>\n\nВыберите приложение кошелька:',
+  'wallet.qr.request_failed': '❌ Не удалось создать запрос на подключение. Попробуйте ещё раз или воспользуйтесь приложением кошелька.',
+  'wallet.qr.generation_failed': [
+    '📱 <b>Подключение кошелька</b>',
+    '',
+    '⚠️ Не удалось создать QR-код. Используйте строку подключения:',
+    '',
+    '🔗 <b>Строка подключения:</b>',
+    '<code>{uri}</code>',
+    '',
+    '📷 <b>Инструкция:</b>',
+    '1. Скопируйте строку подключения выше',
+    '2. Откройте приложение кошелька',
+    '3. Найдите раздел «WalletConnect»',
+    '4. Вставьте строку подключения',
+    '',
+    '🔒 Защищено протоколом WalletConnect v2'
+  ].join('\n'),
+  'wallet.qr.caption': [
+    '📱 <b>Подключение кошелька по QR-коду</b>',
+    '',
+    '📷 <b>Инструкция:</b>',
+    '1. Откройте приложение кошелька',
+    '2. Найдите «WalletConnect» или «Сканировать QR-код»',
+    '3. Наведите камеру на QR-код выше',
+    '4. Подтвердите запрос на подключение',
+    '',
+    '⏰ <b>Ограничения по времени:</b>',
+    '• QR-код действует {seconds, plural, one {# секунду} few {# секунды} many {# секунд} other {# секунды}}',
+    '• Подтвердите в течение {approveMinutes, plural, one {# минуты} few {# минут} many {# минут} other {# минуты}}',
+    '',
+    '🔒 Защищено протоколом WalletConnect v2',
+    '',
+    '💡 <b>Поддерживаемые кошельки:</b>',
+    'MetaMask, Trust Wallet, Coinbase Wallet,',
+    'Rainbow и многие другие...'
+  ].join('\n'),
+  'wallet.qr.instructions': [
+    '📱 <b>Подключение кошелька по QR-коду</b>',
+    '',
+    '📷 <b>Инструкция:</b>',
+    '1. Откройте приложение кошелька',
+    '2. Найдите «WalletConnect» или «Сканировать QR-код»',
+    '3. Отсканируйте QR-код или используйте строку подключения ниже',
+    '',
+    '🔗 <b>Строка подключения:</b>',
+    '<code>{uri}</code>',
+    '',
+    '⏰ <b>Ограничения по времени:</b>',
+    '• QR-код действует {seconds, plural, one {# секунду} few {# секунды} many {# секунд} other {# секунды}}',
+    '• Подтвердите в течение {approveMinutes, plural, one {# минуты} few {# минут} many {# минут} other {# минуты}}',
+    '',
+    '💡 <b>Другие способы:</b>',
+    '• Скопируйте строку подключения выше',
+    '• Вставьте её в раздел WalletConnect вашего кошелька',
+    '',
+    '🔒 Защищено протоколом WalletConnect v2'
+  ].join('\n'),
+  'wallet.btn.show_qr': 'Показать QR-код',
+  'wallet.btn.manual': 'Ввести адрес вручную',
+  'wallet.btn.open_in': 'Открыть в {name}',
+  'wallet.btn.try_again': 'Попробовать снова',
+  'wallet.btn.try_apps': 'Приложения кошельков',
+  'wallet.btn.new_qr': 'Новый QR-код',
+  'wallet.btn.copy_uri': 'Скопировать строку подключения',
+  'wallet.toast.creating_connection': '🔄 Создаём подключение...',
+  'wallet.toast.generating_qr': '📱 Создаём QR-код...',
+  'wallet.manual.invalid': [
+    '❌ <b>Неверный адрес кошелька</b>',
+    '',
+    'Проверьте адрес и попробуйте ещё раз.',
+    '',
+    '✅ <b>Поддерживаемые форматы:</b>',
+    '• Ethereum: 0x...',
+    '• Bitcoin: 1..., 3... или bc1...',
+    '• Solana: формат Base58',
+    '• TON: EQ... или 0:...'
+  ].join('\n'),
+  'wallet.manual.taken': [
+    '😼 <b>Попались — хорошая попытка!</b>',
+    '',
+    'Кошелёк <code>{address}</code> уже подключён к другому аккаунту.',
+    'Ради честности и безопасности каждый кошелёк можно привязать только к одному аккаунту.',
+    'При попытке обойти это правило мы можем заблокировать оба аккаунта.'
+  ].join('\n'),
+  'wallet.manual.locked': '🔒 <b>Кошелёк закреплён</b>\n\nВ целях безопасности разрешён только первый подключённый кошелёк.\nИсходный: <code>{address}</code>',
+  'wallet.manual.connected': [
+    '✅ <b>Кошелёк подключён!</b>',
+    '',
+    '👛 Адрес: <code>{address}</code>',
+    '🔗 Тип: {type}',
+    '🎉 Теперь вам доступны функции для владельцев кошельков!',
+    '',
+    '{provable, select, yes {🛡 Теперь подтвердите, что кошелёк ваш, подписав короткое сообщение.} other {Ваш кошелёк надёжно подключён!}}'
+  ].join('\n'),
+  'wallet.manual.prompt': [
+    '✍️ <b>Введите адрес кошелька</b>',
+    '',
+    'Отправьте адрес кошелька сообщением.',
+    '',
+    '✅ <b>Поддерживаемые форматы:</b>',
+    '• Ethereum: 0x...',
+    '• Bitcoin: 1..., 3... или bc1...',
+    '• Solana: формат Base58',
+    '• TON: EQ... или 0:...',
+    '',
+    '🛡 Кошельки Ethereum, Solana и TON затем подтверждаются подписью сообщения.'
+  ].join('\n'),
+  'wallet.verify.already': '🛡 <b>Кошелёк подтверждён</b>\n\nВы уже подтвердили владение этим кошельком.',
+  'wallet.verify.start_failed': 'Не удалось начать проверку.',
+  'wallet.verify.challenge': [
+    '🛡 <b>Подтверждение владения кошельком</b>',
+    '',
+    'Кошелёк: <code>{address}</code>',
+    '',
+    'Подпишите ровно это сообщение:',
+    '<pre>{message}</pre>',
+    '',
+    '{chain, select, evm {Подпишите его в кошельке (personal_sign / «Подписать сообщение») и вставьте сюда подпись 0x….} other {Подпишите его функцией «Подписать сообщение» в кошельке и вставьте сюда подпись (hex, base64 или base58).}}',
+    '',
+    '⏰ Действует {minutes, plural, one {# минуту} few {# минуты} many {# минут} other {# минуты}}. Подпись бесплатна и никогда не перемещает средства.'
+  ].join('\n'),
+  'wallet.verify.check_app': '📲 Откройте приложение кошелька и подтвердите запрос на подпись…',
+  'wallet.withdraw.no_wallet': '❌ Перед выводом нужно подключить кошелёк.\n\nСначала подключите кошелёк в меню кошелька.',
+  'wallet.withdraw.join_required': '❌ <b>Нужно вступить в канал</b>\n\nПеред выводом токенов вступите в наш Telegram-канал.\n\nВступите: {channel}\n\nПосле этого попробуйте ещё раз.',
+  'wallet.btn.get_help': 'Помощь',
+  'wallet.btn.sign_in_app': 'Подписать в приложении',
+  'wallet.btn.new_message': 'Новое сообщение',
+  'wallet.btn.join_channel': 'Вступить в канал',
+  'wallet.btn.joined_check': 'Я вступил — проверить',
+  'wallet.btn.joined_retry': 'Я вступил — попробовать снова',
+  'wallet.btn.confirm_withdrawal': 'Подтвердить вывод',
+  'wallet.btn.token_on_network': '{symbol} в сети {network}',
+  'wallet.btn.claim_airdrop': 'Получить аирдроп',
+  'wallet.btn.withdraw_tokens': 'Вывести токены',
+  'wallet.btn.disconnect_confirm': '❌ Да, отключить',
+  'wallet.toast.copy_uri': '📋 Скопируйте строку подключения из сообщения выше',
+  'wallet.toast.invalid_session': '❌ Недопустимое действие сессии',
+  'wallet.toast.invalid_withdrawal_session': '❌ Недействительная сессия вывода',
+  'wallet.toast.invalid_transfer_session': '❌ Недействительная сессия перевода',
+  'wallet.toast.processing_withdrawal': '🔄 Обрабатываем вывод...',
+  'wallet.toast.disconnect_failed': '❌ Ошибка при обработке запроса на отключение',
+  'wallet.withdraw.connect_first': '❌ Сначала подключите кошелёк, чтобы вывести токены.',
+  'wallet.withdraw.insufficient': [
+    '❌ <b>Недостаточно баллов</b>',
+    '',
+    'Для вывода не хватает {missing, plural, one {# балла} few {# баллов} many {# баллов} other {# балла}}.',
+    '',
+    'Текущий баланс: {balance, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    'Минимум для вывода: {minimum, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}'
+  ].join('\n'),
+  'wallet.withdraw.session_expired': '❌ <b>Сессия кошелька истекла</b>\n\nСессия WalletConnect истекла. Переподключите кошелёк, чтобы продолжить.',
+  'wallet.withdraw.session_invalid': [
+    '❌ <b>Сессия кошелька недействительна</b>',
+    '',
+    '🔄 Подключение кошелька было разорвано или истекло.',
+    '⚡ Переподключите кошелёк, чтобы продолжить вывод.',
+    '',
+    '💡 <b>Совет:</b> убедитесь, что приложение кошелька всё ещё подключено.'
+  ].join('\n'),
+  'wallet.withdraw.confirm': [
+    '🚀 <b>Подтверждение вывода</b>',
+    '',
+    '💰 <b>Баллов к выводу:</b> {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '🪙 <b>Вы получите:</b> {tokens} {symbol}',
+    '📊 <b>Курс:</b> 1 балл = {rate} {symbol}',
+    '🌐 <b>Сеть:</b> {network}',
+    '',
+    '👛 <b>Кошелёк получателя:</b>',
+    '<code>{address}</code>',
+    '',
+    '⚡ <b>Дальнейшие шаги:</b>',
+    '1. Нажмите «Подтвердить вывод» ниже',
+    '{mode, select, merkle {2. Подтвердите запрос на получение в кошельке} claim {2. Подтвердите запрос подписи в кошельке} other {2. Токены будут отправлены с нашего кошелька распределения}}',
+    '{mode, select, merkle {3. Токены будут переведены вашим кошельком} claim {3. Токены будут переведены вашим кошельком} other {3. Вы получите подтверждение после успешной транзакции в блокчейне}}',
+    '',
+    '{mode, select, merkle {🔒 <b>Безопасность:</b> получение проверяется в блокчейне доказательством Меркла} claim {🔒 <b>Безопасность:</b> транзакция защищена подписью WalletConnect} other {🔒 <b>Безопасность:</b> перевод в блокчейне с проверенного кошелька распределения}}'
+  ].join('\n'),
+  'wallet.withdraw.no_network': [
+    '❌ <b>Сеть не поддерживается</b>',
+    '',
+    'Ни одна из сетей, в которых мы выплачиваем награды, недоступна для вашего кошелька.',
+    '',
+    '💡 Подключите кошелёк, поддерживающий одну из наших сетей выплат, или обратитесь в поддержку.'
+  ].join('\n'),
+  'wallet.withdraw.choose_network': '🌐 <b>Выберите сеть выплаты</b>\n\nВаш кошелёк может получать награды в нескольких сетях. Выберите токен и сеть для вывода:',
+  'wallet.withdraw.must_remain': '❌ <b>Нужно вступить в канал</b>\n\nДля вывода токенов нужно оставаться в нашем Telegram-канале.\n\nВступите: {channel}\n\nПосле вступления начните вывод заново.',
+  'wallet.withdraw.membership_check_failed': '❌ <b>Проверка не удалась</b>\n\nНе удалось проверить ваше участие в канале. Попробуйте ещё раз.\n\nЕсли проблема повторится, обратитесь в поддержку.',
+  'wallet.withdraw.failed': [
+    '❌ <b>Вывод не выполнен!</b>',
+    '',
+    '{reason, select, below_minimum {💰 Для вывода нужно не меньше {minimum, plural, one {# балла} few {# баллов} many {# баллов} other {# балла}}.} no_allocation {📭 У вас нет аирдроп-распределения для получения.} already_claimed {✅ Ваше аирдроп-распределение уже получено в блокчейне.} unsupported_token {🌐 Эта сеть выплат больше недоступна. Начните вывод заново.} daily_cap_reached {📅 Дневной лимит выплат в этой сети исчерпан. Попробуйте завтра.} other {⚠️ Не удалось создать запрос на вывод. Попробуйте ещё раз.}}'
+  ].join('\n'),
+  'wallet.withdraw.requested': [
+    '⏳ <b>Запрос на вывод создан</b>',
+    '',
+    '🪙 <b>Токены:</b> {tokens} {symbol}',
+    '💰 <b>{method, select, merkle_claim {Баллы зафиксированы в снимке} other {Баллы заблокированы}}:</b> {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '👛 <b>На кошелёк:</b> <code>{address}</code>',
+    '',
+    '{review, select, yes {🔎 Наша команда проверяет вывод перед отправкой токенов} other {{method, select, server_signed_transfer {🔄 Токены отправляются с нашего кошелька распределения} merkle_claim {💫 Проверьте кошелёк — там ждёт транзакция получения} other {💫 Проверьте кошелёк — там ждёт запрос подписи}}}}',
+    '📩 Мы пришлём сообщение, когда транзакция будет подтверждена.',
+    '{method, select, merkle_claim {↩️ Если транзакция не пройдёт или истечёт, распределение останется доступным.} other {{review, select, yes {↩️ Если вывод отклонят, он не пройдёт или истечёт, баллы вернутся автоматически.} other {↩️ Если вывод не пройдёт или истечёт, баллы вернутся автоматически.}}}}'
+  ].join('\n'),
+  'wallet.withdraw.unexpected_error': '❌ <b>Ошибка вывода</b>\n\nПроизошла непредвиденная ошибка. Попробуйте позже или обратитесь в поддержку.',
+  'wallet.withdraw.active': '⏳ <b>Вывод в процессе</b>\n\nУ вас уже есть вывод в обработке.',
+  'wallet.withdraw.active_details': '💰 <b>Заблокировано:</b> {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}\n📌 <b>Статус:</b> {status}',
+  'wallet.withdraw.active_notice': '📩 Мы пришлём сообщение, когда он завершится.',
+  'wallet.withdraw.status_label': '{status, select, pending_review {На проверке} requested {Готовим транзакцию} signed {Ожидаем подтверждения в кошельке} submitted {Ожидаем подтверждения в блокчейне} confirmed {Подтверждён} failed {Не выполнен} denied {Отклонён} expired {Истёк} other {{status}}}',
+  'wallet.withdraw.unverified': [
+    '🛡 <b>Кошелёк не подтверждён</b>',
+    '',
+    'Выплаты отправляются только на кошельки, владение которыми вы подтвердили.',
+    '👛 Кошелёк: <code>{address}</code>',
+    '',
+    '{provable, select, yes {Подпишите короткое сообщение этим кошельком, чтобы подтвердить его, и попробуйте снова.} other {Этот тип кошелька нельзя подтвердить. Подключите кошелёк Ethereum, Solana или TON.}}'
+  ].join('\n'),
+  'wallet.airdrop.none': [
+    '🪂 <b>Получение аирдропа</b>',
+    '',
+    '📭 Сейчас у вас нет аирдроп-распределения для получения.',
+    '',
+    '💰 <b>Текущий баланс:</b> {balance, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    'Балансы фиксируются в распределении при следующем снимке.'
+  ].join('\n'),
+  'wallet.airdrop.claim': [
+    '🪂 <b>Получение аирдропа</b>',
+    '',
+    '💰 <b>Зафиксировано баллов:</b> {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '🪙 <b>Токенов к получению:</b> {tokens} {symbol}',
+    '📅 <b>Снимок:</b> {snapshot}',
+    '👛 <b>Кошелёк:</b> <code>{address}</code>',
+    '',
+    '⚠️ Токены выплачиваются на кошелёк, записанный в снимке. Подтвердите транзакцию получения в подключённом кошельке.'
+  ].join('\n'),
+  'wallet.history.title': '📊 <b>История кошелька</b>',
+  'wallet.history.connections': '<b>🔗 Подключения:</b>',
+  'wallet.history.connection': '• {date}: {address} ({method}, {status})',
+  'wallet.history.withdrawals': '<b>💸 Выводы:</b>',
+  'wallet.history.withdrawal': '• {date}: {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}{tokens} — {status}',
+  'wallet.history.no_withdrawals': 'Выводов пока нет.',
+  'wallet.disconnect.confirm': [
+    '⚠️ <b>Отключение сессии кошелька</b>',
+    '',
+    'Вы уверены, что хотите отключить текущую сессию кошелька?',
+    '',
+    '💡 <b>Что произойдёт:</b>',
+    '• Сессия WalletConnect будет завершена',
+    '• Для вывода наград нужно будет подключиться снова',
+    '• Переподключить можно только зарегистрированный кошелёк:',
+    '  <code>{address}</code>',
+    '',
+    '⚠️ <b>Важно:</b>',
+    'Подключить другой адрес кошелька НЕЛЬЗЯ. В целях безопасности можно переподключить только исходный кошелёк.'
+  ].join('\n'),
+  'wallet.disconnect.done': [
+    '✅ <b>Сессия кошелька отключена</b>',
+    '',
+    '🔌 Сессия вашего кошелька отключена.',
+    '',
+    '• Все сессии WalletConnect завершены',
+    '• Текущее подключение удалено',
+    '• Ваш зарегистрированный кошелёк: <code>{address}</code>',
+    '',
+    '🔒 <b>Важно для безопасности:</b>',
+    'Переподключить можно только исходный кошелёк. Это обеспечивает честное распределение и защищает от злоупотреблений.',
+    '',
+    'Спасибо, что пользуетесь нашим ботом!'
+  ].join('\n'),
+
+  'withdrawal.status.confirmed': '🎉 <b>Вывод выполнен!</b>\n\n✅ <b>Транзакция подтверждена</b>\n🪙 <b>Отправлено токенов:</b> {tokens}\n💰 <b>Списано:</b> {points, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}\n👛 <b>На кошелёк:</b> <code>{wallet}</code>',
+  'withdrawal.status.denied': '🚫 <b>Вывод отклонён</b>\n\n📝 <b>Причина:</b> {reason}\n\n🪙 <b>Запрошено токенов:</b> {tokens}\n👛 <b>На кошелёк:</b> <code>{wallet}</code>',
+  'withdrawal.status.failed': '❌ <b>Вывод не выполнен!</b>\n\n{reason}\n\n🪙 <b>Запрошено токенов:</b> {tokens}\n👛 <b>На кошелёк:</b> <code>{wallet}</code>',
+  'withdrawal.status.hash': '🔍 <b>Хеш транзакции:</b>\n<code>{hash}</code>',
+  'withdrawal.status.earn_more': '🎯 Выполняйте задания, чтобы заработать новые баллы!',
+  'withdrawal.status.refunded': '📊 {points, plural, one {# балл возвращён} few {# балла возвращены} many {# баллов возвращены} other {# балла возвращены}} на ваш баланс',
+  'withdrawal.status.allocation_kept': '📊 Ваша доля аирдропа сохранена, её можно запросить снова',
+  'withdrawal.status.not_approved': 'Не одобрено',
+  'withdrawal.reason.rejected': '🚫 <b>Транзакция отменена</b>\nВы отменили транзакцию в кошельке',
+  'withdrawal.reason.session_expired': '🔌 <b>Сессия кошелька истекла</b>\nПодключите кошелёк заново и попробуйте ещё раз',
+  'withdrawal.reason.insufficient_gas': '💸 <b>Недостаточно средств на газ</b>\nКошельку-отправителю нужен ETH для оплаты газа',
+  'withdrawal.reason.reverted': '⛔️ <b>Выполнение транзакции отменено (revert)</b>',
+  'withdrawal.reason.nonce': '🔄 <b>Повторная транзакция</b>\nЭтот запрос уже был использован',
+  'withdrawal.reason.unknown': '⚠️ <b>Ошибка транзакции</b>\n{detail}',
+  'withdrawal.reason.expired': '⌛ <b>Срок вывода истёк</b>\nТранзакция не была завершена вовремя',
+  'withdrawal.btn.earn_more': 'Заработать ещё баллы',
+  'withdrawal.btn.view_wallet': 'Открыть кошелёк',
+  'withdrawal.btn.try_again': 'Попробовать снова',
+
+  'transfer.processing': '🔄 Выполняем перевод...',
+  'transfer.error.menu': '❌ Не удалось загрузить меню переводов.',
+  'transfer.error.start': '❌ Не удалось начать перевод.',
+  'transfer.error.session_expired': '❌ Сессия перевода истекла. Начните заново.',
+  'transfer.error.session_invalid': '❌ Сессия перевода недействительна. Начните заново.',
+  'transfer.error.session_gone': '❌ Сессия перевода недействительна или истекла.',
+  'transfer.error.recipient': '❌ Не удалось обработать получателя.',
+  'transfer.error.sender_not_found': '❌ Отправитель не найден.',
+  'transfer.error.amount': '❌ Не удалось обработать сумму.',
+  'transfer.error.confirmation': '❌ Не удалось показать подтверждение.',
+  'transfer.error.user_not_found': '❌ Перевод не выполнен: пользователь не найден.',
+  'transfer.error.insufficient': '❌ Перевод не выполнен: недостаточно баллов.',
+  'transfer.error.failed': '❌ Перевод не выполнен. Попробуйте ещё раз.',
+  'transfer.error.history': '❌ Не удалось загрузить историю переводов.',
+  'transfer.disabled': '❌ <b>Переводы отключены</b>\n\nПереводы баллов сейчас отключены администратором.',
+  'transfer.menu': [
+    '📈 <b>Центр переводов баллов</b>',
+    '',
+    '💰 <b>Ваш баланс:</b> {balance, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '🔄 <b>Переводов за сегодня:</b> {used}/{limit}',
+    '📉 <b>Переведено за сегодня:</b> {transferred, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '',
+    '💸 <b>Лимиты переводов:</b>',
+    '• <b>Минимум:</b> {min, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '• <b>Максимум:</b> {max, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '• <b>Дневной лимит:</b> {daily, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '• <b>Комиссия:</b> {fee}%',
+    '',
+    '{status, select, ready {✅ <b>Можно переводить!</b> Отправляйте баллы другим пользователям мгновенно.} daily_limit {❌ <b>Перевод недоступен:</b> достигнут дневной лимит} insufficient {❌ <b>Перевод недоступен:</b> недостаточно баллов} other {❌ <b>Перевод недоступен:</b> неизвестная ошибка}}'
+  ].join('\n'),
+  'transfer.step.recipient': [
+    '🎯 <b>Шаг 1: укажите получателя</b>',
+    '',
+    '👤 <b>Как указать:</b>',
+    '• ID пользователя: <code>123456789</code>',
+    '• Имя пользователя: <code>@username</code> или <code>username</code>',
+    '',
+    '📝 <b>Отправьте данные получателя следующим сообщением.</b>',
+    '',
+    '🕰️ <b>Сессия истекает через {minutes, plural, one {# минуту} few {# минуты} many {# минут} other {# минуты}}</b>'
+  ].join('\n'),
+  'transfer.step.amount': [
+    '🎯 <b>Шаг 2: укажите сумму</b>',
+    '',
+    '👤 <b>Получатель:</b> {recipient}',
+    '',
+    '💰 <b>Введите сумму перевода:</b>',
+    '• <b>Минимум:</b> {min, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '• <b>Максимум:</b> {max, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '• <b>Комиссия:</b> {fee}%',
+    '',
+    '📝 <b>Отправьте сумму следующим сообщением.</b>'
+  ].join('\n'),
+  'transfer.recipient.not_found': '❌ <b>Получатель не найден</b>\n\nНе удалось найти пользователя с таким ID или именем.\nПроверьте данные и попробуйте снова.',
+  'transfer.recipient.self': '❌ <b>Недопустимый получатель</b>\n\nНельзя переводить баллы самому себе.',
+  'transfer.amount.invalid': '❌ <b>Недопустимая сумма</b>\n\n{reason, select, not_positive {Сумма должна быть больше 0} below_minimum {Минимальная сумма перевода — {min, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}} above_maximum {Максимальная сумма перевода — {max, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}} insufficient_balance {Недостаточно баллов} other {Введите корректное количество баллов.}}',
+  'transfer.amount.insufficient': '❌ <b>Недостаточно баллов</b>\n\n💰 <b>Требуется:</b> {required, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}\n\n💳 <b>Ваш баланс:</b> {balance, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+  'transfer.confirm': [
+    '📋 <b>Подтверждение перевода</b>',
+    '',
+    '👤 <b>От:</b> {from}',
+    '👥 <b>Кому:</b> {to}',
+    '',
+    '💰 <b>Детали перевода:</b>',
+    '• <b>Сумма к отправке:</b> {amount, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '• <b>Комиссия ({feePercent}%):</b> {fee, plural, one {# балл} few {# балла} many {# баллов} other {# балла}} (вычитается из суммы)',
+    '• <b>Получатель получит:</b> {net, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '',
+    '🔗 <b>Хеш транзакции:</b>',
+    '<code>{hash}</code>',
+    '',
+    'ℹ️ <b>Остаток на балансе:</b> {remaining, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '',
+    '⚠️ <b>Это действие нельзя отменить!</b>'
+  ].join('\n'),
+  'transfer.you': 'Вы',
+  'transfer.notify.sent': [
+    '✅ <b>Перевод отправлен!</b>',
+    '',
+    '💸 <b>Сумма:</b> {amount, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '👤 <b>Кому:</b> {to}',
+    '💰 <b>Комиссия:</b> {fee, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '🔗 <b>ID транзакции:</b> <code>{hash}</code>',
+    '',
+    '📝 <b>Примечание:</b> получатель уведомлён.'
+  ].join('\n'),
+  'transfer.notify.received': [
+    '🎉 <b>Вы получили баллы!</b>',
+    '',
+    '💎 <b>Сумма:</b> {amount, plural, one {# балл} few {# балла} many {# баллов} other {# балла}}',
+    '👤 <b>От:</b> {from}',
+    '🔗 <b>ID транзакции:</b> <code>{hash}</code>',
+    '',
+    '💰 Ваш баланс обновлён автоматически.'
+  ].join('\n'),
+  'transfer.toast.cancelled': '❌ Перевод отменён',
+  'transfer.cancelled': '❌ <b>Перевод отменён</b>\n\nВаш перевод успешно отменён.',
+  'transfer.session_error': '❌ <b>Ошибка сессии перевода</b>\n\nСессия перевода истекла или произошла ошибка.\nНачните новый перевод.',
+  'transfer.history.title': '📈 <b>История переводов</b>',
+  'transfer.history.none': '📋 <b>Переводов пока нет</b>\n\nВы ещё не отправляли и не получали переводы баллов.',
+  'transfer.history.recent': '📉 <b>Последние переводы:</b>',
+  'transfer.history.entry': '{direction, select, sent {💸 <b>Отправлено:</b> {amount, number} б.\n• Кому: {user}} other {📈 <b>Получено:</b> {amount, number} б.\n• От: {user}}}\n• Дата: {date}\n• Хеш: <code>{hash}</code>',
+  'transfer.history.summary': '📅 <b>Итого:</b>\n• Отправлено переводов: {sent} ({sentPoints, number} б.)\n• Получено переводов: {received} ({receivedPoints, number} б.)',
+  'transfer.btn.start': 'Начать перевод',
+  'transfer.btn.start_new': 'Начать новый перевод',
+  'transfer.btn.new': 'Новый перевод',
+  'transfer.btn.cancel': '❌ Отменить перевод',
+  'transfer.btn.confirm': 'Подтвердить перевод',
+  'transfer.btn.history': 'История'
+};
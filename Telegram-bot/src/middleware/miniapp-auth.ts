@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from 'express';
+import { Logger } from '../services/logger';
+import { MiniAppAuthService } from '../services/security/miniapp-auth.service';
+import { MiniAppIdentity } from '../types/miniapp-auth.types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Telegram user proven by a Mini App session token or signed initData */
+      miniAppUser?: MiniAppIdentity;
+    }
+  }
+}
+
+const logger = Logger.getInstance();
+
+function bearerToken(req: Request): string {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+}
+
+/** initData from the X-Telegram-Init-Data header, or an `initData` body field from older clients */
+export function initDataFrom(req: Request): string {
+  const header = req.headers['x-telegram-init-data'];
+  if (typeof header === 'string' && header) return header;
+  return typeof req.body?.initData === 'string' ? req.body.initData : '';
+}
+
+/**
+ * Sets `req.miniAppUser` from `Authorization: Bearer <session token>` or,
+ * failing that, from signed initData, in which case a session token is issued
+ * in the X-MiniApp-Session header. Requests naming a different user in
+ * `body.userId` are refused; handlers must use `req.miniAppUser.id`.
+ */
+export async function requireMiniAppIdentity(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const auth = MiniAppAuthService.getInstance();
+  try {
+    const token = bearerToken(req);
+    if (token) {
+      const result = auth.verifySession(token);
+      if (!result.ok) {
+        res.status(401).json({ success: false, error: auth.describeError(result.error), code: `session_${result.error}` });
+        return;
+      }
+      req.miniAppUser = result.identity;
+    } else {
+      const result = await auth.exchange(initDataFrom(req));
+      if (!result.success) {
+        res.status(401).json({ success: false, error: auth.describeError(result.error), code: `init_data_${result.error}` });
+        return;
+      }
+      req.miniAppUser = result.session.identity;
+      res.setHeader('X-MiniApp-Session', result.session.token);
+    }
+
+    const claimed = req.body?.userId;
+    if (claimed !== undefined && claimed !== null && claimed !== '' && String(claimed) !== req.miniAppUser.id) {
+      logger.warn('Mini App request named another user', { userId: req.miniAppUser.id, claimed: String(claimed), path: req.originalUrl });
+      res.status(403).json({ success: false, error: 'User mismatch' });
+      return;
+    }
+    next();
+  } catch (error) {
+    logger.error('Mini App authentication failed:', error);
+    res.status(500).json({ success: false, error: 'Authentication validation failed' });
+  }
+}
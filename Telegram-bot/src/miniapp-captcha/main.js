@@ -223,7 +223,6 @@ class CaptchaApp {
             this.debug && console.log('📨 Sending verification to server...');
             
             const verificationData = {
-                userId: this.telegramUser?.id?.toString(),
                 fingerprintHash: this.fingerprintHash,
                 deviceInfo: this.deviceFingerprint.deviceInfo,
                 slideTime: this.slideStartTime ? (Date.now() - this.slideStartTime) : null,
@@ -238,10 +237,7 @@ class CaptchaApp {
             
             const response = await fetch(apiEndpoint, {
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-Telegram-Init-Data': this.getTelegramInitData()
-                },
+                headers: await this.getAuthHeaders(),
                 body: JSON.stringify(verificationData),
                 signal: controller.signal
             });
@@ -281,17 +277,13 @@ class CaptchaApp {
      */
     async sendVerificationRetry() {
         const verificationData = {
-            userId: this.telegramUser?.id?.toString(),
             fingerprintHash: this.fingerprintHash,
             timestamp: Date.now()
         };
         
         const response = await fetch(this.pathPrefix + '/api/miniapp/simple-verify', {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'X-Telegram-Init-Data': this.getTelegramInitData()
-            },
+            headers: await this.getAuthHeaders(),
             body: JSON.stringify(verificationData)
         });
         
@@ -356,6 +348,32 @@ class CaptchaApp {
         }
     }
 
+    /**
+     * Exchange the signed init data for a session token once; the server
+     * accepts each init data a single time, so retries reuse the token
+     */
+    async getAuthHeaders() {
+        if (!this.sessionToken || Date.now() >= this.sessionExpiresAt) {
+            const response = await fetch(this.pathPrefix + '/api/miniapp/session', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Telegram-Init-Data': this.getTelegramInitData()
+                }
+            });
+            const result = await response.json();
+            if (!result.success) {
+                throw new Error(result.error || 'Telegram authentication failed');
+            }
+            this.sessionToken = result.data.token;
+            this.sessionExpiresAt = new Date(result.data.expiresAt).getTime();
+        }
+        return {
+            'Content-Type': 'application/json',
+            'Authorization': 'Bearer ' + this.sessionToken
+        };
+    }
+
     /**
      * Get Telegram init data
      */
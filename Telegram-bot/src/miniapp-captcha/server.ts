@@ -8,7 +8,7 @@ import { Logger } from '../services/logger';
 import { config } from '../config';
 import { captchaService } from '../services/captcha-service';
 import { DeviceFingerprintService } from '../security/device-fingerprint.service';
-import { validateTelegramWebAppData } from '../services/validation.service';
+import { initDataFrom, requireMiniAppIdentity } from '../middleware/miniapp-auth';
 import { miniappRoutes } from '../api/miniapp-routes';
 
 const logger = Logger.getInstance();
@@ -179,16 +179,16 @@ export class MiniAppCaptchaServer {
     });
 
     // Captcha API routes (both paths)
-    this.app.post('/api/captcha/session', this.handleCreateCaptchaSession.bind(this));
-    this.app.post('/api/captcha/verify', this.handleVerifyCaptcha.bind(this));
-    this.app.get('/api/captcha/challenge/:sessionId', this.handleGetChallenge.bind(this));
-    this.app.post('/api/captcha/refresh/:sessionId', this.handleRefreshChallenge.bind(this));
+    this.app.post('/api/captcha/session', requireMiniAppIdentity, this.handleCreateCaptchaSession.bind(this));
+    this.app.post('/api/captcha/verify', requireMiniAppIdentity, this.handleVerifyCaptcha.bind(this));
+    this.app.get('/api/captcha/challenge/:sessionId', requireMiniAppIdentity, this.handleGetChallenge.bind(this));
+    this.app.post('/api/captcha/refresh/:sessionId', requireMiniAppIdentity, this.handleRefreshChallenge.bind(this));
 
     // Path-based captcha API routes
-    this.app.post('/en/api/captcha/session', this.handleCreateCaptchaSession.bind(this));
-    this.app.post('/en/api/captcha/verify', this.handleVerifyCaptcha.bind(this));
-    this.app.get('/en/api/captcha/challenge/:sessionId', this.handleGetChallenge.bind(this));
-    this.app.post('/en/api/captcha/refresh/:sessionId', this.handleRefreshChallenge.bind(this));
+    this.app.post('/en/api/captcha/session', requireMiniAppIdentity, this.handleCreateCaptchaSession.bind(this));
+    this.app.post('/en/api/captcha/verify', requireMiniAppIdentity, this.handleVerifyCaptcha.bind(this));
+    this.app.get('/en/api/captcha/challenge/:sessionId', requireMiniAppIdentity, this.handleGetChallenge.bind(this));
+    this.app.post('/en/api/captcha/refresh/:sessionId', requireMiniAppIdentity, this.handleRefreshChallenge.bind(this));
 
     // MiniApp HTTP API routes (old-bot style) - both paths
     this.app.use('/api/miniapp', miniappRoutes);
@@ -257,31 +257,15 @@ export class MiniAppCaptchaServer {
 
   private async handleCreateCaptchaSession(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const { userId, initData, captchaType, deviceInfo } = req.body;
-      
+      const userId = req.miniAppUser.id;
+      const { captchaType, deviceInfo } = req.body;
+
       logger.info('Create captcha session request', {
         userId,
         captchaType,
-        hasDeviceInfo: !!deviceInfo,
-        hasInitData: !!initData
+        hasDeviceInfo: !!deviceInfo
       });
 
-      if (!userId || !initData) {
-        logger.warn('Missing required parameters', { userId: !!userId, initData: !!initData });
-        res.status(400).json({ error: 'Missing required parameters' });
-        return;
-      }
-
-      // Validate Telegram Web App data
-      const isValidData = validateTelegramWebAppData(initData);
-      if (!isValidData) {
-        logger.warn('Invalid Telegram data validation failed');
-        res.status(401).json({ error: 'Invalid Telegram data' });
-        return;
-      }
-      
-      logger.info('Telegram data validation passed');
-
       // Generate device fingerprint
       let deviceFingerprint: string;
       try {
@@ -360,7 +344,7 @@ export class MiniAppCaptchaServer {
         ...deviceInfo,
         deviceFingerprint,
         ip: req.ip || req.connection.remoteAddress || '',
-        initData,
+        initData: initDataFrom(req),
         sessionData: {
           sessionId: 'temp-session-' + Date.now(),
           timestamp: Date.now(),
@@ -398,17 +382,26 @@ export class MiniAppCaptchaServer {
     }
   }
 
+  /** The captcha session, or null once a 404/403 is sent when it is missing or belongs to another user */
+  private async getOwnSession(req: express.Request, res: express.Response, sessionId: string): Promise<any | null> {
+    const storage = require('../storage').StorageManager.getInstance();
+    const session = await storage.getCaptchaSession(sessionId);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return null;
+    }
+    if (String(session.userId) !== req.miniAppUser.id) {
+      logger.warn('Captcha session used by another user', { sessionId, userId: req.miniAppUser.id, owner: String(session.userId) });
+      res.status(403).json({ error: 'User mismatch' });
+      return null;
+    }
+    return session;
+  }
+
   private async handleGetChallenge(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const { sessionId } = req.params;
-      // Retrieve session directly from storage
-      const storage = require('../storage').StorageManager.getInstance();
-      const session = await storage.getCaptchaSession(sessionId);
-
-      if (!session) {
-        res.status(404).json({ error: 'Session not found' });
-        return;
-      }
+      const session = await this.getOwnSession(req, res, req.params.sessionId);
+      if (!session) return;
 
       res.json(session.challenge || {});
 
@@ -420,15 +413,10 @@ export class MiniAppCaptchaServer {
 
   private async handleRefreshChallenge(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const { sessionId } = req.params;
       // For refresh, create a new challenge of the same type if possible
-      const storage = require('../storage').StorageManager.getInstance();
-      const session = await storage.getCaptchaSession(sessionId);
-      if (!session) {
-        res.status(404).json({ error: 'Session not found' });
-        return;
-      }
-      const newSession = await captchaService.createSession(session.userId, session.type, { ip: req.ip });
+      const session = await this.getOwnSession(req, res, req.params.sessionId);
+      if (!session) return;
+      const newSession = await captchaService.createSession(req.miniAppUser.id, session.type, { ip: req.ip });
       res.json(newSession.challenge || {});
 
     } catch (error) {
@@ -445,6 +433,7 @@ export class MiniAppCaptchaServer {
         res.status(400).json({ error: 'Missing required parameters' });
         return;
       }
+      if (!(await this.getOwnSession(req, res, String(sessionId)))) return;
 
       const result = await captchaService.verifyCaptcha(sessionId, answer, {
         deviceFingerprint,
@@ -0,0 +1,135 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Merkle Airdrop Snapshot Script
+ *
+ * Freezes eligible balances, builds the Merkle tree and writes the JSON
+ * export used to deploy the distributor contract.
+ *
+ * Usage:
+ *   npm run airdrop -- preview [--min-points=N] [--token=ID]
+ *   npm run airdrop -- generate [--min-points=N] [--token=ID]
+ *   npm run airdrop -- list
+ *   npm run airdrop -- show <snapshotId>
+ *   npm run airdrop -- export <snapshotId> [file]
+ *   npm run airdrop -- publish <snapshotId> <distributorAddress>
+ *   npm run airdrop -- discard <snapshotId>
+ */
+
+import fs from 'fs-extra';
+import { storage } from '../storage';
+import { AirdropSnapshotService } from '../services/airdrop/airdrop-snapshot.service';
+import { logger } from '../services/logger';
+
+const CLI_ACTOR = 'cli';
+
+const parseArgs = (argv: string[]): { command: string; positional: string[]; minPoints?: number; tokenId?: string } => {
+  const positional: string[] = [];
+  let minPoints: number | undefined;
+  let tokenId: string | undefined;
+  for (const arg of argv) {
+    const match = arg.match(/^--min-points=(\d+)$/);
+    const token = arg.match(/^--token=(\S+)$/);
+    if (match) minPoints = Number(match[1]);
+    else if (token) tokenId = token[1];
+    else positional.push(arg);
+  }
+  return { command: positional.shift() || 'help', positional, minPoints, tokenId };
+};
+
+const showUsage = (): void => {
+  console.log('Usage: airdrop-snapshot <preview|generate|list|show|export|publish|discard> [args]');
+  console.log('  preview [--min-points=N] [--token=ID] Count eligible balances without freezing them');
+  console.log('  generate [--min-points=N] [--token=ID] Freeze balances and build the Merkle tree');
+  console.log('                                       --token picks a registry token (default: the primary token)');
+  console.log('  list                                 List recent snapshots');
+  console.log('  show <snapshotId>                    Show a snapshot');
+  console.log('  export <snapshotId> [file]           Write the root and proofs as JSON');
+  console.log('  publish <snapshotId> <address>       Open claims against a deployed distributor');
+  console.log('  discard <snapshotId>                 Abandon an unpublished snapshot and return the points');
+};
+
+const run = async (): Promise<void> => {
+  const { command, positional, minPoints, tokenId } = parseArgs(process.argv.slice(2));
+  const service = AirdropSnapshotService.getInstance();
+
+  switch (command) {
+    case 'preview': {
+      const preview = await service.preview(minPoints, tokenId);
+      console.log(`📊 Eligible users: ${preview.eligibleUsers}`);
+      console.log(`💰 Points to freeze: ${preview.totalPoints.toLocaleString()} (min ${preview.minPoints})`);
+      console.log(`🪙 Token total (wei): ${preview.tokenTotalWei}`);
+      break;
+    }
+    case 'generate': {
+      console.log('🚀 Building airdrop snapshot...');
+      const snapshot = await service.generate({
+        createdBy: CLI_ACTOR,
+        minPoints,
+        tokenId,
+        onStarted: (s) => console.log(`   Snapshot ${s.id} (cutoff ${s.cutoffAt})`)
+      });
+      console.log(`✅ Merkle root: ${snapshot.merkleRoot}`);
+      console.log(`   Claims: ${snapshot.claimCount}, skipped: ${snapshot.skipped}`);
+      console.log(`   Token total (wei): ${snapshot.tokenTotalWei}`);
+      if (snapshot.exportPath) console.log(`   Export: ${snapshot.exportPath}`);
+      break;
+    }
+    case 'list': {
+      const snapshots = await service.listSnapshots();
+      if (snapshots.length === 0) console.log('No snapshots yet.');
+      snapshots.forEach(s => {
+        console.log(`${s.id}  ${s.status.padEnd(9)}  ${s.cutoffAt}  claims=${s.claimCount}  root=${s.merkleRoot || '-'}`);
+      });
+      break;
+    }
+    case 'show': {
+      const snapshot = positional[0] ? await service.getSnapshot(positional[0]) : null;
+      if (!snapshot) throw new Error('Snapshot not found');
+      console.log(JSON.stringify(snapshot, null, 2));
+      break;
+    }
+    case 'export': {
+      const data = positional[0] ? await service.buildExport(positional[0]) : null;
+      if (!data) throw new Error('Snapshot not found or not built yet');
+      const file = positional[1] || `${data.snapshotId}.json`;
+      await fs.writeJson(file, data, { spaces: 2 });
+      console.log(`✅ Wrote ${data.claimCount} claims to ${file}`);
+      break;
+    }
+    case 'publish': {
+      if (!positional[0] || !positional[1]) throw new Error('Usage: publish <snapshotId> <distributorAddress>');
+      const snapshot = await service.publish(positional[0], positional[1], CLI_ACTOR);
+      console.log(`✅ Snapshot ${snapshot.id} is live on ${snapshot.distributorAddress}`);
+      break;
+    }
+    case 'discard': {
+      if (!positional[0]) throw new Error('Usage: discard <snapshotId>');
+      const result = await service.discard(positional[0], CLI_ACTOR);
+      console.log(`✅ Discarded; returned points to ${result.released} users (${result.failed} failed)`);
+      break;
+    }
+    default:
+      showUsage();
+  }
+};
+
+const main = async (): Promise<void> => {
+  let exitCode = 0;
+  try {
+    await storage.initialize();
+    await run();
+  } catch (error: any) {
+    console.error(`❌ ${error?.message || error}`);
+    logger.error('Airdrop snapshot script failed:', error);
+    exitCode = 1;
+  } finally {
+    try { await storage.close(); } catch {}
+    process.exit(exitCode);
+  }
+};
+
+// Run if called directly
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,176 @@
+/**
+ * MinHash signatures and LSH band keys for device fingerprints, so
+ * near-duplicate devices can be found through an index lookup instead of
+ * comparing against every stored fingerprint.
+ *
+ * A fingerprint is turned into one feature set per component; the union is
+ * MinHashed and split into bands. Two fingerprints with Jaccard similarity
+ * s share at least one band with probability 1 - (1 - s^ROWS)^BANDS
+ * (about 0.87 at s = 0.5 and above 0.999 at s = 0.7).
+ */
+
+export type FingerprintComponent = 'hardware' | 'browser' | 'rendering';
+
+export type FingerprintFeatures = Record<FingerprintComponent, string[]>;
+
+export interface FingerprintSimilarity {
+  /** Weighted over the components both fingerprints have */
+  overall: number;
+  components: Partial<Record<FingerprintComponent, number>>;
+}
+
+/** Bump when features or hashing change; older index entries must be rebuilt */
+export const LSH_VERSION = 1;
+export const LSH_BANDS = 32;
+export const LSH_ROWS = 4;
+const NUM_HASHES = LSH_BANDS * LSH_ROWS;
+
+export const COMPONENT_WEIGHTS: Record<FingerprintComponent, number> = {
+  hardware: 0.35,
+  browser: 0.25,
+  rendering: 0.4
+};
+
+const COMPONENTS = Object.keys(COMPONENT_WEIGHTS) as FingerprintComponent[];
+const COMPONENT_PREFIX: Record<FingerprintComponent, string> = { hardware: 'hw', browser: 'br', rendering: 'rd' };
+
+const isPresent = (value: any) =>
+  value !== undefined && value !== null && value !== '' && String(value).toLowerCase() !== 'unknown';
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** murmur3 finalizer; with a per-row seed it serves as the MinHash permutation */
+function mix(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => mix(0x9e3779b9 + i * 0x61c88647));
+
+/**
+ * User agents change with every browser update, so only product names and
+ * major versions are kept (`chrome/120`, `windows nt/10`).
+ */
+function userAgentTokens(userAgent: string): string[] {
+  const tokens = new Set<string>();
+  const normalized = userAgent.toLowerCase();
+  for (const match of normalized.matchAll(/([a-z][a-z ._-]*?)[/ ](\d+)/g)) {
+    tokens.add(`${match[1].trim()}/${match[2]}`);
+  }
+  for (const word of normalized.split(/[^a-z]+/)) {
+    if (word.length > 2) tokens.add(word);
+  }
+  return [...tokens];
+}
+
+/**
+ * Feature sets for the hardware, browser and rendering parts of a
+ * fingerprint. Accepts `DeviceFingerprint.components` as well as the
+ * enhanced device data the captcha mini app sends; missing and "unknown"
+ * values are left out.
+ */
+export function fingerprintFeatures(components: any): FingerprintFeatures {
+  const features: Record<FingerprintComponent, Set<string>> = { hardware: new Set(), browser: new Set(), rendering: new Set() };
+  const add = (component: FingerprintComponent, key: string, value: any) => {
+    if (isPresent(value)) features[component].add(`${COMPONENT_PREFIX[component]}:${key}=${String(value).trim().toLowerCase()}`);
+  };
+  const addAll = (component: FingerprintComponent, key: string, values: any) => {
+    const list = Array.isArray(values) ? values : typeof values === 'string' ? values.split(',') : [];
+    for (const value of list) add(component, key, value);
+  };
+
+  const hardware = components?.hardware || {};
+  for (const key of ['screenResolution', 'screenColorDepth', 'availableScreenSize', 'timezone', 'timezoneOffset',
+    'language', 'platform', 'hardwareConcurrency', 'deviceMemory', 'maxTouchPoints']) {
+    add('hardware', key, hardware[key]);
+  }
+  addAll('hardware', 'languages', hardware.languages);
+
+  const browser = components?.browser || {};
+  for (const token of userAgentTokens(String(browser.userAgent || ''))) add('browser', 'ua', token);
+  for (const key of ['vendor', 'product', 'productSub', 'appName', 'appCodeName', 'cookieEnabled', 'doNotTrack', 'javaEnabled']) {
+    add('browser', key, browser[key]);
+  }
+  addAll('browser', 'plugin', browser.plugins);
+  addAll('browser', 'mime', browser.mimeTypes);
+
+  const rendering = components?.rendering || {};
+  for (const key of ['canvasFingerprint', 'webGLVendor', 'webGLRenderer', 'webGLVersion', 'webGLShadingLanguageVersion', 'audioFingerprint']) {
+    add('rendering', key, rendering[key]);
+  }
+  addAll('rendering', 'ext', rendering.webGLExtensions);
+  addAll('rendering', 'font', rendering.fontFingerprint);
+
+  return {
+    hardware: [...features.hardware].sort(),
+    browser: [...features.browser].sort(),
+    rendering: [...features.rendering].sort()
+  };
+}
+
+export function featureCount(features: FingerprintFeatures): number {
+  return COMPONENTS.reduce((sum, component) => sum + features[component].length, 0);
+}
+
+/** MinHash signature over all features; empty when there are none */
+export function minHashSignature(features: FingerprintFeatures): number[] {
+  const hashes = COMPONENTS.flatMap(component => features[component]).map(fnv1a);
+  if (hashes.length === 0) return [];
+  return SEEDS.map(seed => {
+    let min = 0xffffffff;
+    for (const hash of hashes) {
+      const value = mix(hash ^ seed);
+      if (value < min) min = value;
+    }
+    return min;
+  });
+}
+
+/** Band keys (`<band>:<hex>`) to index a signature under */
+export function signatureBands(signature: number[]): string[] {
+  if (signature.length < NUM_HASHES) return [];
+  const keys: string[] = [];
+  for (let band = 0; band < LSH_BANDS; band++) {
+    const rows = signature.slice(band * LSH_ROWS, (band + 1) * LSH_ROWS).join(',');
+    keys.push(`${band}:${fnv1a(rows).toString(16)}`);
+  }
+  return keys;
+}
+
+export function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 0;
+  const set = new Set(a);
+  let shared = 0;
+  for (const item of b) if (set.has(item)) shared++;
+  return shared / (a.length + b.length - shared);
+}
+
+/**
+ * Exact per-component Jaccard similarity and the weighted overall score.
+ * Components missing on either side do not count towards the overall score.
+ */
+export function compareFeatures(a: FingerprintFeatures, b: FingerprintFeatures): FingerprintSimilarity {
+  const components: FingerprintSimilarity['components'] = {};
+  let weighted = 0;
+  let weights = 0;
+  for (const component of COMPONENTS) {
+    if (a[component].length === 0 || b[component].length === 0) continue;
+    const score = jaccard(a[component], b[component]);
+    components[component] = Math.round(score * 1000) / 1000;
+    weighted += score * COMPONENT_WEIGHTS[component];
+    weights += COMPONENT_WEIGHTS[component];
+  }
+  return { overall: weights > 0 ? Math.round((weighted / weights) * 1000) / 1000 : 0, components };
+}
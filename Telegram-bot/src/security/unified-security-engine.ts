@@ -59,6 +59,10 @@ export interface UnifiedSecurityAnalysis {
     vpnDetected: boolean;
     proxyDetected: boolean;
     torDetected: boolean;
+    hostingDetected?: boolean;
+    asn?: string;
+    asnOrganization?: string;
+    countryCode?: string;
     locationConsistent: boolean;
     riskFactors: string[];
   };
@@ -555,21 +559,25 @@ export class UnifiedSecurityEngine {
   }
 
   /**
-   * Network and location analysis
+   * Network and location analysis. Uses the local GeoIP databases, so the
+   * ASN/hosting check costs no network call.
    */
   private async analyzeNetwork(user: User, ipAddress: string): Promise<any> {
     const riskFactors: string[] = [];
+    const location = await this.locationService.getLocationFromIP(ipAddress);
+
+    const vpnDetected = !!location?.vpn;
+    const proxyDetected = !!location?.proxy;
+    const torDetected = !!location?.tor;
+    const hostingDetected = !!location?.hosting;
+    if (hostingDetected) {
+      riskFactors.push(`Hosting/datacenter network (${location!.asn} ${location!.org})`);
+    }
 
-    // Without a reliable IP-to-geo service here, return conservative defaults
-    const vpnDetected = false;
-    const proxyDetected = false;
-    const torDetected = false;
-
-    const locationConsistent = await this.checkLocationConsistency(user, {
-      ip: ipAddress,
-      latitude: 0,
-      longitude: 0
-    } as any);
+    // Without coordinates there is nothing to compare against previous activity
+    const locationConsistent = location?.latitude !== undefined && location?.longitude !== undefined
+      ? await this.checkLocationConsistency(user, location)
+      : true;
 
     if (!locationConsistent) {
       riskFactors.push('Location inconsistent with previous activity');
@@ -579,6 +587,10 @@ export class UnifiedSecurityEngine {
       vpnDetected,
       proxyDetected,
       torDetected,
+      hostingDetected,
+      asn: location?.asn,
+      asnOrganization: location?.org,
+      countryCode: location?.countryCode,
       locationConsistent,
       riskFactors
     };
@@ -1046,7 +1058,7 @@ export class UnifiedSecurityEngine {
       actions.push('Device-level restrictions');
     }
 
-    if (analysis.network.vpnDetected || analysis.network.proxyDetected) {
+    if (analysis.network.vpnDetected || analysis.network.proxyDetected || analysis.network.hostingDetected) {
       actions.push('Enhanced identity verification');
     }
 
@@ -8,6 +8,7 @@ import { BaseService, ServiceIdentifiers } from '../../core/container';
 import { IAdminAuthService, ILogger, IStorageManager, IConfig } from '../../core/interfaces';
 import { AdminUser, AdminRole, AdminPermission } from '../../types/admin.types';
 import { MemoryManager, ManagedCache } from '../memory-manager.service';
+import { hasPermission, resolvePermissions } from './permission-rules';
 
 export interface AdminSession {
   adminId: string;
@@ -104,18 +105,7 @@ export class AdminAuthService extends BaseService implements IAdminAuthService {
         return false;
       }
 
-      // Super admin has all permissions
-      if (adminUser.role === 'super_admin') {
-        return true;
-      }
-
-      // Check if user has 'all' permission
-      if (adminUser.permissions.includes('all')) {
-        return true;
-      }
-
-      // Check specific permission
-      return adminUser.permissions.includes(permission);
+      return hasPermission(this.effectivePermissions(adminUser), permission);
       
     } catch (error) {
       this.logger.error('Error validating admin permission:', error);
@@ -146,12 +136,7 @@ export class AdminAuthService extends BaseService implements IAdminAuthService {
         return [];
       }
 
-      // Super admin gets all permissions
-      if (adminUser.role === 'super_admin') {
-        return this.getAllPermissions();
-      }
-
-      return adminUser.permissions;
+      return this.effectivePermissions(adminUser);
       
     } catch (error) {
       this.logger.error('Error getting admin permissions:', error);
@@ -199,7 +184,7 @@ export class AdminAuthService extends BaseService implements IAdminAuthService {
       const session: AdminSession = {
         adminId: userId,
         role: adminUser.role,
-        permissions: adminUser.permissions,
+        permissions: this.effectivePermissions(adminUser),
         loginTime: new Date(),
         lastActivity: new Date(),
         ipAddress,
@@ -403,36 +388,14 @@ export class AdminAuthService extends BaseService implements IAdminAuthService {
     }
   }
 
-  private getAllPermissions(): AdminPermission[] {
-    return [
-      'all',
-      'users.read',
-      'users.write',
-      'users.view',
-      'users.edit',
-      'users.block',
-      'users.unblock',
-      'users.delete',
-      'tasks.read',
-      'tasks.write',
-      'tasks.view',
-      'tasks.create',
-      'tasks.edit',
-      'tasks.delete',
-      'submissions.view',
-      'submissions.approve',
-      'submissions.reject',
-      'broadcasts.view',
-      'broadcasts.send',
-      'analytics.view',
-      'security.read',
-      'security.view',
-      'security.manage',
-      'settings.view',
-      'settings.edit',
-      'system.backup',
-      'system.restore'
-    ];
+  /** Role defaults plus individual grants, minus revocations */
+  private effectivePermissions(adminUser: AdminUser): AdminPermission[] {
+    return resolvePermissions({
+      role: adminUser.role,
+      granted: adminUser.permissions,
+      revoked: adminUser.revokedPermissions,
+      isActive: adminUser.isActive
+    });
   }
 
   /**
@@ -0,0 +1,126 @@
+import { getConfig } from '../../config';
+import { Logger } from '../logger';
+import { StorageManager } from '../../storage';
+import { AdminPermission } from '../../types/admin.types';
+import { ephemeralLoginRole, hasPermission, normalizePermissions, resolvePermissions } from './permission-rules';
+
+/** What requireAuth puts on the request (the JWT payload) */
+export interface AdminIdentity {
+  id?: string;
+  username: string;
+  role: string;
+  method: 'persistent' | 'ephemeral';
+  sid?: string;
+}
+
+export interface ResolvedAdminAccess {
+  /** Current role from the account record; the JWT copy may be stale */
+  role: string;
+  permissions: AdminPermission[];
+}
+
+export interface PermissionDenial {
+  permission: AdminPermission;
+  method: string;
+  path: string;
+  ip?: string;
+}
+
+const ACCESS_CACHE_MS = 10 * 1000;
+
+/**
+ * Resolves what an admin may do right now. Role changes, deactivation and
+ * per-admin grants or revocations take effect within ACCESS_CACHE_MS without
+ * signing the admin out. Ephemeral Telegram logins have no account record and
+ * get the defaults of the role in their token, or nothing if that role now
+ * requires 2FA.
+ */
+export class AdminPermissionService {
+  private static instance: AdminPermissionService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
+  private readonly cache = new Map<string, { access: ResolvedAdminAccess; e: number }>();
+
+  private constructor() {}
+
+  static getInstance(): AdminPermissionService {
+    if (!AdminPermissionService.instance) {
+      AdminPermissionService.instance = new AdminPermissionService();
+    }
+    return AdminPermissionService.instance;
+  }
+
+  async resolve(identity: AdminIdentity): Promise<ResolvedAdminAccess> {
+    if (identity.method !== 'persistent' || !identity.id) {
+      const allowed = ephemeralLoginRole(identity.role, this.config.admin.auth.mfaRequiredRoles);
+      return { role: identity.role, permissions: allowed ? resolvePermissions({ role: allowed }) : [] };
+    }
+    const cached = this.cache.get(identity.id);
+    if (cached && cached.e > Date.now()) return cached.access;
+
+    const admin = await this.storage.getAdminUser(identity.id);
+    const access: ResolvedAdminAccess = admin
+      ? {
+        role: admin.role,
+        permissions: resolvePermissions({
+          role: admin.role,
+          granted: admin.permissions,
+          revoked: admin.revokedPermissions,
+          isActive: admin.isActive !== false
+        })
+      }
+      : { role: identity.role, permissions: [] };
+    this.cache.set(identity.id, { access, e: Date.now() + ACCESS_CACHE_MS });
+    return access;
+  }
+
+  async can(identity: AdminIdentity, permission: AdminPermission): Promise<boolean> {
+    const { permissions } = await this.resolve(identity);
+    return hasPermission(permissions, permission);
+  }
+
+  /** Replace an admin's individual grants and revocations */
+  async setOverrides(adminId: string, overrides: { granted: unknown; revoked: unknown }): Promise<{ permissions: AdminPermission[]; revokedPermissions: AdminPermission[] }> {
+    const granted = normalizePermissions(overrides.granted).filter(p => p !== 'all');
+    const revoked = normalizePermissions(overrides.revoked).filter(p => p !== 'all' && !granted.includes(p));
+    await this.storage.updateAdminUser(adminId, { permissions: granted, revokedPermissions: revoked });
+    this.invalidate(adminId);
+    return { permissions: granted, revokedPermissions: revoked };
+  }
+
+  invalidate(adminId: string): void {
+    this.cache.delete(adminId);
+  }
+
+  /** Every denial goes to the security audit log shown in the panel */
+  async recordDenial(identity: AdminIdentity | undefined, denial: PermissionDenial): Promise<void> {
+    const username = identity?.username || 'anonymous';
+    this.logger.warn(`Admin ${username} denied ${denial.permission} on ${denial.method} ${denial.path}`);
+    try {
+      await this.storage.saveSecurityAuditLog({
+        id: `sec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        type: 'admin_permission_denied',
+        severity: 'medium',
+        action: `${denial.method} ${denial.path}`,
+        adminId: identity?.id || null,
+        username,
+        role: identity?.role || null,
+        description: `${username} lacks ${denial.permission} for ${denial.method} ${denial.path}`,
+        details: {
+          permission: denial.permission,
+          method: denial.method,
+          path: denial.path,
+          sessionId: identity?.sid || null
+        },
+        timestamp: new Date(),
+        ipAddress: denial.ip || null
+      });
+    } catch (error) {
+      this.logger.error('Failed to write permission denial to audit log:', error);
+    }
+  }
+}
+
+export const adminPermissionService = AdminPermissionService.getInstance();
+export default adminPermissionService;
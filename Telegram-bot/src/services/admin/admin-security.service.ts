@@ -0,0 +1,411 @@
+import crypto from 'crypto';
+import { Logger } from '../logger';
+import { StorageManager } from '../../storage';
+import { getConfig } from '../../config';
+import { QRCodeService } from '../qrcode.service';
+import { nanoid } from '../id';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  ipRange,
+  verifyTotp
+} from './totp';
+
+export interface AdminMfaRecord {
+  adminId: string;
+  enabled: boolean;
+  /** AES-GCM encrypted base32 secret */
+  secret?: string;
+  pendingSecret?: string;
+  /** Last accepted TOTP step; codes at or below it are rejected */
+  lastCounter?: number;
+  recoveryCodes: Array<{ hash: string; usedAt?: string }>;
+  enrolledAt?: string;
+  updatedAt: string;
+}
+
+export interface AdminMfaChallenge {
+  id: string;
+  adminId: string;
+  username: string;
+  role: string;
+  /** Password was fine but no authenticator is enrolled yet */
+  enrollment: boolean;
+  deviceFingerprint?: string;
+  ipRange: string;
+  attempts: number;
+  createdAt: string;
+  expiresAt: Date;
+}
+
+export interface AdminSessionRecord {
+  id: string;
+  /** Admin id, or `ephemeral:<username>` for one-time Telegram logins */
+  subject: string;
+  username: string;
+  role: string;
+  method: 'persistent' | 'ephemeral';
+  mfa: boolean;
+  /** Browser fingerprint reported at login, for display */
+  deviceFingerprint?: string;
+  /** Hash of the random key held in the httpOnly `admin_device` cookie */
+  deviceKeyHash?: string;
+  ip: string;
+  ipRange: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+  revokedBy?: string;
+}
+
+export interface AdminMfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+export interface SessionCheckResult {
+  ok: boolean;
+  session?: AdminSessionRecord;
+  reason?: 'not_found' | 'revoked' | 'expired' | 'device_mismatch' | 'ip_mismatch';
+}
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const SESSION_CACHE_MS = 10 * 1000;
+const LAST_SEEN_WRITE_MS = 60 * 1000;
+
+/**
+ * Second factor and session binding for the admin panel.
+ *
+ * TOTP secrets are encrypted at rest with ADMIN_MFA_ENCRYPTION_KEY (or a key
+ * derived from the JWT secret). Every issued admin JWT carries a session id;
+ * the session row pins it to a per-device key (kept in an httpOnly cookie,
+ * so a token lifted from localStorage is useless elsewhere) and to the IP
+ * range it was created from, and can be revoked from the panel.
+ */
+export class AdminSecurityService {
+  private static instance: AdminSecurityService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
+  private readonly sessionCache = new Map<string, { session: AdminSessionRecord; e: number }>();
+
+  private constructor() {}
+
+  static getInstance(): AdminSecurityService {
+    if (!AdminSecurityService.instance) {
+      AdminSecurityService.instance = new AdminSecurityService();
+    }
+    return AdminSecurityService.instance;
+  }
+
+  isMfaRequired(role: string): boolean {
+    return this.config.admin.auth.mfaRequiredRoles.includes(role);
+  }
+
+  async getMfaStatus(adminId: string): Promise<{ enabled: boolean; enrolledAt?: string; recoveryCodesRemaining: number }> {
+    const record = await this.getMfaRecord(adminId);
+    return {
+      enabled: !!record?.enabled,
+      enrolledAt: record?.enrolledAt,
+      recoveryCodesRemaining: record?.recoveryCodes.filter(c => !c.usedAt).length || 0
+    };
+  }
+
+  /**
+   * Generate a new secret and QR code. It only takes effect once a code from
+   * it has been confirmed, so an abandoned enrollment changes nothing.
+   */
+  async startEnrollment(adminId: string, account: string): Promise<AdminMfaEnrollment> {
+    const secret = generateTotpSecret();
+    const otpauthUri = buildOtpauthUri(this.config.admin.auth.mfaIssuer, account, secret);
+    const qr = await QRCodeService.getInstance().generateStyledQRCode(otpauthUri, { size: 256 });
+    const qrCodeDataUrl = `data:image/png;base64,${qr.toString('base64')}`;
+    await this.getMfaCollection().updateOne(
+      { adminId },
+      {
+        $set: { pendingSecret: this.encrypt(secret), updatedAt: new Date().toISOString() },
+        $setOnInsert: { adminId, enabled: false, recoveryCodes: [] }
+      },
+      { upsert: true }
+    );
+    return { secret, otpauthUri, qrCodeDataUrl };
+  }
+
+  /**
+   * Activate the pending secret. Returns the plaintext recovery codes, which
+   * are shown once and never stored.
+   */
+  async confirmEnrollment(adminId: string, code: string): Promise<string[] | null> {
+    const record = await this.getMfaRecord(adminId);
+    if (!record?.pendingSecret) return null;
+    const counter = verifyTotp(this.decrypt(record.pendingSecret), code);
+    if (counter === null) return null;
+
+    const recoveryCodes = generateRecoveryCodes();
+    const now = new Date().toISOString();
+    await this.getMfaCollection().updateOne(
+      { adminId, pendingSecret: record.pendingSecret },
+      {
+        $set: {
+          enabled: true,
+          secret: record.pendingSecret,
+          lastCounter: counter,
+          recoveryCodes: recoveryCodes.map(c => ({ hash: hashRecoveryCode(c) })),
+          enrolledAt: now,
+          updatedAt: now
+        },
+        $unset: { pendingSecret: '' }
+      }
+    );
+    this.logger.info(`Admin ${adminId} enrolled a TOTP authenticator`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP code or a recovery code. Both are single-use: the TOTP step
+   * is recorded and a recovery code is marked used.
+   */
+  async verifySecondFactor(adminId: string, input: { code?: string; recoveryCode?: string }): Promise<boolean> {
+    const record = await this.getMfaRecord(adminId);
+    if (!record?.enabled || !record.secret) return false;
+
+    if (input.code) {
+      const counter = verifyTotp(this.decrypt(record.secret), input.code, { afterCounter: record.lastCounter });
+      if (counter === null) return false;
+      const result = await this.getMfaCollection().updateOne(
+        { adminId, $or: [{ lastCounter: { $exists: false } }, { lastCounter: { $lt: counter } }] },
+        { $set: { lastCounter: counter, updatedAt: new Date().toISOString() } }
+      );
+      return result.modifiedCount > 0;
+    }
+
+    if (input.recoveryCode) {
+      const hash = hashRecoveryCode(input.recoveryCode);
+      const result = await this.getMfaCollection().updateOne(
+        { adminId, recoveryCodes: { $elemMatch: { hash, usedAt: { $exists: false } } } },
+        { $set: { 'recoveryCodes.$.usedAt': new Date().toISOString(), updatedAt: new Date().toISOString() } }
+      );
+      if (result.modifiedCount > 0) {
+        this.logger.warn(`Admin ${adminId} signed in with a recovery code`);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async regenerateRecoveryCodes(adminId: string): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    await this.getMfaCollection().updateOne(
+      { adminId, enabled: true },
+      { $set: { recoveryCodes: recoveryCodes.map(c => ({ hash: hashRecoveryCode(c) })), updatedAt: new Date().toISOString() } }
+    );
+    return recoveryCodes;
+  }
+
+  /**
+   * Remove an admin's authenticator, e.g. after a lost phone. They enroll
+   * again on their next login if their role requires it.
+   */
+  async resetMfa(adminId: string): Promise<boolean> {
+    const result = await this.getMfaCollection().deleteOne({ adminId });
+    return result.deletedCount > 0;
+  }
+
+  async createChallenge(input: { adminId: string; username: string; role: string; enrollment: boolean; deviceFingerprint?: string; ip: string }): Promise<AdminMfaChallenge> {
+    const challenge: AdminMfaChallenge = {
+      id: nanoid(24),
+      adminId: input.adminId,
+      username: input.username,
+      role: input.role,
+      enrollment: input.enrollment,
+      deviceFingerprint: input.deviceFingerprint,
+      ipRange: ipRange(input.ip),
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS)
+    };
+    await this.getChallengeCollection().insertOne({ ...challenge });
+    return challenge;
+  }
+
+  /**
+   * Load a pending challenge for the same device and network and count the
+   * attempt. Challenges die after a few wrong codes.
+   */
+  async useChallenge(id: string, context: { deviceFingerprint?: string; ip: string }): Promise<AdminMfaChallenge | null> {
+    const res = await this.getChallengeCollection().findOneAndUpdate(
+      { id, expiresAt: { $gt: new Date() }, attempts: { $lt: MAX_CHALLENGE_ATTEMPTS } },
+      { $inc: { attempts: 1 } },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    const challenge = ((res as any)?.value !== undefined ? (res as any).value : res) as AdminMfaChallenge | null;
+    if (!challenge) return null;
+    if ((challenge.deviceFingerprint || '') !== (context.deviceFingerprint || '') || challenge.ipRange !== ipRange(context.ip)) {
+      return null;
+    }
+    return challenge;
+  }
+
+  async completeChallenge(id: string): Promise<void> {
+    await this.getChallengeCollection().deleteOne({ id });
+  }
+
+  async createSession(input: {
+    subject: string;
+    username: string;
+    role: string;
+    method: AdminSessionRecord['method'];
+    mfa: boolean;
+    deviceFingerprint?: string;
+    ip: string;
+    userAgent?: string;
+    ttlMs: number;
+  }): Promise<{ session: AdminSessionRecord; deviceKey: string }> {
+    const now = new Date();
+    const deviceKey = crypto.randomBytes(32).toString('base64url');
+    const session: AdminSessionRecord = {
+      id: nanoid(24),
+      subject: input.subject,
+      username: input.username,
+      role: input.role,
+      method: input.method,
+      mfa: input.mfa,
+      deviceFingerprint: input.deviceFingerprint,
+      deviceKeyHash: this.hashDeviceKey(deviceKey),
+      ip: input.ip,
+      ipRange: ipRange(input.ip),
+      userAgent: input.userAgent?.slice(0, 300),
+      createdAt: now.toISOString(),
+      lastSeenAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + input.ttlMs).toISOString()
+    };
+    await this.getSessionCollection().insertOne({ ...session });
+    this.logger.info(`Admin session ${session.id} opened for ${session.username}`, { ipRange: session.ipRange, mfa: session.mfa });
+    return { session, deviceKey };
+  }
+
+  /**
+   * Check that a token's session is live and is being used from the device
+   * and network it was issued to
+   */
+  async checkSession(sessionId: string, context: { deviceKey?: string; ip: string }): Promise<SessionCheckResult> {
+    const now = Date.now();
+    const cached = this.sessionCache.get(sessionId);
+    let session = cached && cached.e > now ? cached.session : null;
+    if (!session) {
+      session = await this.getSessionCollection().findOne({ id: sessionId }, { projection: { _id: 0 } });
+      if (!session) return { ok: false, reason: 'not_found' };
+      this.sessionCache.set(sessionId, { session, e: now + SESSION_CACHE_MS });
+    }
+
+    if (session.revokedAt) return { ok: false, reason: 'revoked' };
+    if (new Date(session.expiresAt).getTime() <= now) return { ok: false, reason: 'expired' };
+    const { bindDevice, bindIp } = this.config.admin.auth;
+    if (bindDevice && session.deviceKeyHash && session.deviceKeyHash !== this.hashDeviceKey(context.deviceKey || '')) {
+      return { ok: false, reason: 'device_mismatch' };
+    }
+    if (bindIp && session.ipRange && session.ipRange !== ipRange(context.ip)) {
+      return { ok: false, reason: 'ip_mismatch' };
+    }
+
+    if (now - new Date(session.lastSeenAt).getTime() > LAST_SEEN_WRITE_MS) {
+      session.lastSeenAt = new Date(now).toISOString();
+      this.getSessionCollection()
+        .updateOne({ id: sessionId }, { $set: { lastSeenAt: session.lastSeenAt, ip: context.ip } })
+        .catch((e: any) => this.logger.debug(`Failed to touch admin session ${sessionId}: ${e?.message}`));
+    }
+    return { ok: true, session };
+  }
+
+  async listSessions(filter: { subject?: string; includeInactive?: boolean } = {}): Promise<AdminSessionRecord[]> {
+    const query: any = {};
+    if (filter.subject) query.subject = filter.subject;
+    if (!filter.includeInactive) {
+      query.revokedAt = { $exists: false };
+      query.expiresAt = { $gt: new Date().toISOString() };
+    }
+    return await this.getSessionCollection()
+      .find(query, { projection: { _id: 0, deviceKeyHash: 0 } })
+      .sort({ lastSeenAt: -1 })
+      .limit(200)
+      .toArray();
+  }
+
+  async getSession(sessionId: string): Promise<AdminSessionRecord | null> {
+    return (await this.getSessionCollection().findOne({ id: sessionId }, { projection: { _id: 0, deviceKeyHash: 0 } })) || null;
+  }
+
+  async revokeSession(sessionId: string, revokedBy: string): Promise<boolean> {
+    const result = await this.getSessionCollection().updateOne(
+      { id: sessionId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date().toISOString(), revokedBy } }
+    );
+    this.sessionCache.delete(sessionId);
+    if (result.modifiedCount > 0) this.logger.info(`Admin session ${sessionId} revoked by ${revokedBy}`);
+    return result.modifiedCount > 0;
+  }
+
+  async revokeSubjectSessions(subject: string, revokedBy: string, exceptSessionId?: string): Promise<number> {
+    const filter: any = { subject, revokedAt: { $exists: false } };
+    if (exceptSessionId) filter.id = { $ne: exceptSessionId };
+    const result = await this.getSessionCollection().updateMany(filter, { $set: { revokedAt: new Date().toISOString(), revokedBy } });
+    this.sessionCache.clear();
+    return result.modifiedCount;
+  }
+
+  private async getMfaRecord(adminId: string): Promise<AdminMfaRecord | null> {
+    return (await this.getMfaCollection().findOne({ adminId }, { projection: { _id: 0 } })) || null;
+  }
+
+  private hashDeviceKey(deviceKey: string): string {
+    return crypto.createHash('sha256').update(deviceKey).digest('hex');
+  }
+
+  private encryptionKey(): Buffer {
+    const material = this.config.admin.auth.mfaEncryptionKey || `admin-mfa:${this.config.jwt.secret}`;
+    return crypto.createHash('sha256').update(material).digest();
+  }
+
+  private encrypt(plain: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), data].map(b => b.toString('base64')).join('.');
+  }
+
+  private decrypt(payload: string): string {
+    const [iv, tag, data] = payload.split('.').map(p => Buffer.from(p, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  }
+
+  private getMfaCollection(): any {
+    return this.getCollection('admin_mfa');
+  }
+
+  private getChallengeCollection(): any {
+    return this.getCollection('admin_mfa_challenges');
+  }
+
+  private getSessionCollection(): any {
+    return this.getCollection('admin_sessions');
+  }
+
+  private getCollection(name: string): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
+
+export const adminSecurityService = AdminSecurityService.getInstance();
+export default adminSecurityService;
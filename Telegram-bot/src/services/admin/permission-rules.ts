@@ -0,0 +1,135 @@
+import { AdminPermission, AdminRole } from '../../types/admin.types';
+
+/**
+ * Permission catalogue for the admin API. Routes declare the permission they
+ * need; an admin's effective set is their role's defaults plus individual
+ * grants, minus individual revocations.
+ */
+
+export const ADMIN_ROLES: AdminRole[] = ['viewer', 'support', 'moderator', 'admin', 'super_admin'];
+
+export const ADMIN_PERMISSION_DESCRIPTIONS: Record<Exclude<AdminPermission, 'all'>, string> = {
+  'logs.view': 'Read application and error logs',
+  'logs.delete': 'Delete log files',
+  'analytics.view': 'View dashboards and analytics',
+  'system.settings.view': 'View bot, wallet, task and captcha settings',
+  'system.settings.edit': 'Change bot, wallet, task and captcha settings',
+  'users.view': 'Search and view users',
+  'users.message': 'Message users through the bot',
+  'users.ledger.view': 'View a user\'s points ledger',
+  'users.points.adjust': 'Add or remove user points',
+  'users.block': 'Block and unblock users',
+  'users.reset': 'Reset a user\'s progress',
+  'users.export': 'Export user data',
+  'points.reconcile.view': 'Check the points ledger for drift',
+  'points.reconcile.apply': 'Rewrite balances from the points ledger',
+  'tasks.view': 'View tasks',
+  'tasks.edit': 'Create, edit, reorder and toggle tasks',
+  'tasks.responses.view': 'View and export quiz and survey responses',
+  'submissions.review': 'Review, approve and reject task submissions',
+  'security.view': 'View the security audit log and blocked users',
+  'security.devices.manage': 'Block and unblock devices',
+  'security.clusters.manage': 'Rebuild account clusters and block, ban or claw back a whole cluster',
+  'appeals.view': 'View ban appeals and the evidence behind each ban',
+  'appeals.decide': 'Uphold, lift or reduce bans on appeal',
+  'broadcast.view': 'View broadcast history and deliveries',
+  'broadcast.send': 'Send, pause, resume and cancel broadcasts',
+  'referrals.view': 'View referral metrics and records',
+  'referrals.manage': 'Claw back referral bonuses',
+  'airdrop.view': 'View airdrop snapshots',
+  'airdrop.users.view': 'Look up a user\'s airdrop allocation',
+  'airdrop.export': 'Export airdrop snapshots',
+  'airdrop.manage': 'Create, publish and discard airdrop snapshots',
+  'performance.view': 'View bot performance',
+  'performance.clear': 'Clear bot performance records',
+  'withdrawals.view': 'View withdrawal requests',
+  'withdrawals.approve': 'Approve and deny withdrawals',
+  'chains.view': 'View payout networks, tokens and daily caps',
+  'chains.manage': 'Add and edit payout networks, tokens and daily caps',
+  'db.read': 'Browse and query the databases',
+  'db.export': 'Export collections and list their indexes',
+  'db.write': 'Insert, update, delete and import documents',
+  'db.admin': 'Drop collections and databases, manage indexes, flush Redis',
+  'admins.view': 'List admin accounts',
+  'admins.manage': 'Create and edit admin accounts and their permissions',
+  'support.view': 'Read support tickets',
+  'support.reply': 'Reply to and close support tickets'
+};
+
+export const ALL_ADMIN_PERMISSIONS = Object.keys(ADMIN_PERMISSION_DESCRIPTIONS) as Exclude<AdminPermission, 'all'>[];
+
+const VIEWER: AdminPermission[] = [
+  'logs.view', 'analytics.view', 'users.view', 'tasks.view', 'referrals.view',
+  'airdrop.view', 'performance.view', 'db.read'
+];
+const SUPPORT: AdminPermission[] = [
+  ...VIEWER, 'users.message', 'users.ledger.view', 'support.view', 'support.reply'
+];
+const MODERATOR: AdminPermission[] = [
+  ...SUPPORT, 'logs.delete', 'tasks.responses.view', 'submissions.review', 'security.view',
+  'appeals.view', 'appeals.decide', 'broadcast.view', 'airdrop.users.view', 'withdrawals.view', 'chains.view'
+];
+const ADMIN: AdminPermission[] = [
+  ...MODERATOR, 'system.settings.view', 'system.settings.edit', 'users.points.adjust', 'users.block',
+  'users.reset', 'users.export', 'points.reconcile.view', 'tasks.edit', 'security.devices.manage',
+  'security.clusters.manage', 'broadcast.send', 'referrals.manage', 'airdrop.export', 'performance.clear',
+  'withdrawals.approve', 'chains.manage', 'db.export', 'db.write', 'admins.view'
+];
+
+export const ROLE_DEFAULT_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  viewer: VIEWER,
+  support: SUPPORT,
+  moderator: MODERATOR,
+  admin: ADMIN,
+  super_admin: ['all']
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return ADMIN_ROLES.includes(value as AdminRole);
+}
+
+export function isAdminPermission(value: unknown): value is AdminPermission {
+  return value === 'all' || ALL_ADMIN_PERMISSIONS.includes(value as any);
+}
+
+/**
+ * Role for a one-time Telegram login. Those sessions have no account to hold a
+ * TOTP secret, so a role that must use two-factor authentication is refused
+ * (null) rather than granted without it.
+ */
+export function ephemeralLoginRole(configured: unknown, mfaRequiredRoles: readonly string[]): AdminRole | null {
+  return isAdminRole(configured) && !mfaRequiredRoles.includes(configured) ? configured : null;
+}
+
+/** Drops unknown names (including pre-catalogue ones stored on old accounts) and duplicates */
+export function normalizePermissions(values: unknown): AdminPermission[] {
+  if (!Array.isArray(values)) return [];
+  return Array.from(new Set(values.filter(isAdminPermission)));
+}
+
+/**
+ * Effective permissions, expanded (never contains 'all'). Super admins always
+ * get everything so a revocation can never lock the last of them out of
+ * permission management.
+ */
+export function resolvePermissions(input: {
+  role: string;
+  granted?: unknown;
+  revoked?: unknown;
+  isActive?: boolean;
+}): Exclude<AdminPermission, 'all'>[] {
+  if (input.isActive === false || !isAdminRole(input.role)) return [];
+  const expand = (list: AdminPermission[]) => (list.includes('all') ? ALL_ADMIN_PERMISSIONS : list);
+  if (input.role === 'super_admin') return [...ALL_ADMIN_PERMISSIONS];
+
+  const granted = normalizePermissions(input.granted);
+  const revoked = new Set(expand(normalizePermissions(input.revoked)));
+  const effective = new Set([...expand(ROLE_DEFAULT_PERMISSIONS[input.role]), ...expand(granted)]);
+  return ALL_ADMIN_PERMISSIONS.filter(p => effective.has(p) && !revoked.has(p));
+}
+
+export function hasPermission(effective: readonly AdminPermission[], permission: AdminPermission): boolean {
+  return permission === 'all'
+    ? ALL_ADMIN_PERMISSIONS.every(p => effective.includes(p))
+    : effective.includes(permission);
+}
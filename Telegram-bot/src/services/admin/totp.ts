@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+
+/**
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30s step),
+ * the variant every authenticator app supports.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const DEFAULT_STEP_SECONDS = 30;
+const DEFAULT_DIGITS = 6;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/[\s-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** 160-bit secret, base32 encoded */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function totpCounter(now: number = Date.now(), stepSeconds: number = DEFAULT_STEP_SECONDS): number {
+  return Math.floor(now / 1000 / stepSeconds);
+}
+
+export function hotp(secret: string, counter: number, digits: number = DEFAULT_DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+  return binary.toString().padStart(digits, '0');
+}
+
+/**
+ * Returns the matching time step, or null. Callers store the step and reject
+ * codes at or below it so an observed code cannot be replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { now?: number; window?: number; afterCounter?: number } = {}
+): number | null {
+  const normalized = String(code || '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const current = totpCounter(options.now);
+  const window = options.window ?? 1;
+  for (let drift = -window; drift <= window; drift++) {
+    const counter = current + drift;
+    if (options.afterCounter !== undefined && counter <= options.afterCounter) continue;
+    const expected = hotp(secret, counter);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return counter;
+  }
+  return null;
+}
+
+export function buildOtpauthUri(issuer: string, account: string, secret: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DEFAULT_DIGITS), period: String(DEFAULT_STEP_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/** Codes look like `k7fq-2mzp`; only their hashes are stored */
+export function generateRecoveryCodes(count: number = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const bytes = crypto.randomBytes(8);
+    const chars = Array.from(bytes, b => RECOVERY_CODE_ALPHABET[b % RECOVERY_CODE_ALPHABET.length]).join('');
+    return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(String(code).trim().toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+}
+
+/**
+ * Network a session is pinned to: the /24 for IPv4, the /64 for IPv6.
+ * Roaming inside the range (DHCP renewals, carrier NAT) keeps the session.
+ */
+export function ipRange(ip: string): string {
+  const value = String(ip || '').trim().replace(/^::ffff:/i, '');
+  if (!value) return '';
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(value)) {
+    return value.split('.').slice(0, 3).join('.') + '.0/24';
+  }
+  if (value.includes(':')) {
+    const [head, tail = ''] = value.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups = value.includes('::')
+      ? [...headGroups, ...Array(Math.max(0, 8 - headGroups.length - tailGroups.length)).fill('0'), ...tailGroups]
+      : headGroups;
+    return groups.slice(0, 4).map(g => (parseInt(g || '0', 16) || 0).toString(16)).join(':') + '::/64';
+  }
+  return value;
+}
@@ -0,0 +1,512 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { ethers } from 'ethers';
+import { Logger } from '../logger';
+import { nanoid } from '../id';
+import { StorageManager } from '../../storage';
+import { getConfig } from '../../config';
+import { PointsLedgerService } from '../ledger/points-ledger.service';
+import { ChainRegistryService } from '../chains/chain-registry.service';
+import { buildMerkleTree, getMerkleProof } from './merkle-tree';
+import { AirdropClaimStatus, AirdropSnapshotStatus, canTransitionSnapshot } from './airdrop-state';
+import { TokenInfo } from '../../types/wallet.types';
+
+export interface AirdropSnapshot {
+  id: string;
+  status: AirdropSnapshotStatus;
+  /** Balances are frozen as of this moment */
+  cutoffAt: string;
+  minPoints: number;
+  conversionRate: number;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  chainId: number;
+  /** Registry token the distributor pays out (ChainRegistryService) */
+  tokenId?: string;
+  tokenAddress?: string;
+  merkleRoot?: string;
+  claimCount: number;
+  totalPoints: number;
+  tokenTotalWei: string;
+  /** Eligible users whose balance could not be frozen (changed mid-scan, invalid wallet) */
+  skipped: number;
+  distributorAddress?: string;
+  exportPath?: string;
+  error?: string;
+  createdBy: string;
+  createdAt: string;
+  completedAt?: string;
+  publishedAt?: string;
+  discardedAt?: string;
+  history: Array<{ from: AirdropSnapshotStatus | null; to: AirdropSnapshotStatus; at: string; by?: string; reason?: string }>;
+}
+
+export interface AirdropClaim {
+  snapshotId: string;
+  userId: string;
+  /** Checksummed wallet address at the cutoff; the leaf pays out to this address */
+  address: string;
+  points: number;
+  amountWei: string;
+  /** Assigned once every balance is frozen, together with the proof */
+  index?: number;
+  proof?: string[];
+  status: AirdropClaimStatus;
+  frozenAt: string;
+  claimedAt?: string;
+  transactionHash?: string;
+  withdrawalId?: string;
+}
+
+export interface AirdropAllocation {
+  snapshot: AirdropSnapshot;
+  claim: AirdropClaim;
+}
+
+export interface AirdropPreview {
+  cutoffAt: string;
+  minPoints: number;
+  eligibleUsers: number;
+  totalPoints: number;
+  tokenTotalWei: string;
+}
+
+/** JSON handed to whoever deploys the distributor contract */
+export interface AirdropExport {
+  snapshotId: string;
+  merkleRoot: string;
+  chainId: number;
+  tokenAddress?: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  tokenTotal: string;
+  claimCount: number;
+  cutoffAt: string;
+  claims: Array<{ index: number; account: string; amount: string; proof: string[] }>;
+}
+
+const SNAPSHOTS = 'airdrop_snapshots';
+const CLAIMS = 'airdrop_claims';
+const WRITE_BATCH = 500;
+
+/**
+ * Merkle airdrop snapshots.
+ *
+ * Generating a snapshot debits every eligible balance through the ledger
+ * (keyed per snapshot and user, so an interrupted build resumes without
+ * double-freezing), then assigns leaf indexes, builds the tree and stores the
+ * root plus each user's proof. Once the distributor contract for the root is
+ * deployed the snapshot is published and WithdrawalService serves the proofs
+ * as `merkle_claim` withdrawals.
+ */
+export class AirdropSnapshotService {
+  private static instance: AirdropSnapshotService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
+
+  private constructor() {}
+
+  static getInstance(): AirdropSnapshotService {
+    if (!AirdropSnapshotService.instance) {
+      AirdropSnapshotService.instance = new AirdropSnapshotService();
+    }
+    return AirdropSnapshotService.instance;
+  }
+
+  /**
+   * What a snapshot taken now would contain, without freezing anything
+   */
+  async preview(minPoints: number = this.getMinPoints(), tokenId?: string): Promise<AirdropPreview> {
+    const token = await this.resolveToken(tokenId);
+    const cursor = this.getCollection('users').find(this.eligibleFilter(minPoints), { projection: { _id: 0, points: 1, walletAddress: 1 } });
+    let eligibleUsers = 0;
+    let totalPoints = 0;
+    let tokenTotal = ethers.BigNumber.from(0);
+    for await (const user of cursor) {
+      if (!ethers.utils.isAddress(String(user.walletAddress))) continue;
+      const points = Number(user.points || 0);
+      eligibleUsers++;
+      totalPoints += points;
+      tokenTotal = tokenTotal.add(this.toWei(points, { conversionRate: this.config.points.conversionRate, tokenDecimals: token.decimals }));
+    }
+    return { cutoffAt: new Date().toISOString(), minPoints, eligibleUsers, totalPoints, tokenTotalWei: tokenTotal.toString() };
+  }
+
+  /**
+   * Freeze eligible balances and build the tree. If a previous build was
+   * interrupted it is resumed instead of starting a new snapshot.
+   * `onStarted` fires once the snapshot record exists, before the scan.
+   * `tokenId` picks the registry token (and so the chain) the snapshot pays;
+   * the primary token is used without it.
+   */
+  async generate(options: { createdBy: string; minPoints?: number; tokenId?: string; onStarted?: (snapshot: AirdropSnapshot) => void }): Promise<AirdropSnapshot> {
+    let snapshot = await this.getCollection(SNAPSHOTS).findOne({ status: 'building' }, { projection: { _id: 0 } }) as AirdropSnapshot | null;
+
+    if (snapshot) {
+      this.logger.info('Resuming interrupted airdrop snapshot', { snapshotId: snapshot.id });
+    } else {
+      const token = await this.resolveToken(options.tokenId);
+      const now = new Date().toISOString();
+      snapshot = {
+        id: `airdrop_${nanoid(12)}`,
+        status: 'building',
+        cutoffAt: now,
+        minPoints: options.minPoints ?? this.getMinPoints(),
+        conversionRate: this.config.points.conversionRate,
+        tokenSymbol: token.symbol,
+        tokenDecimals: token.decimals,
+        chainId: token.chainId,
+        tokenId: token.id,
+        tokenAddress: token.address || undefined,
+        claimCount: 0,
+        totalPoints: 0,
+        tokenTotalWei: '0',
+        skipped: 0,
+        createdBy: options.createdBy,
+        createdAt: now,
+        history: [{ from: null, to: 'building', at: now, by: options.createdBy }]
+      };
+      try {
+        await this.getCollection(SNAPSHOTS).insertOne({ ...snapshot });
+      } catch (error: any) {
+        // Another instance started a build at the same moment
+        if (error?.code === 11000) throw new Error('Another airdrop snapshot is already being built');
+        throw error;
+      }
+    }
+
+    options.onStarted?.({ ...snapshot });
+
+    try {
+      const skipped = await this.freezeBalances(snapshot);
+      return await this.finalize(snapshot, skipped);
+    } catch (error: any) {
+      this.logger.error('Airdrop snapshot build failed', { snapshotId: snapshot.id, error: error?.message });
+      await this.transition(snapshot, 'failed', { error: error?.message || String(error) }, options.createdBy);
+      throw error;
+    }
+  }
+
+  async listSnapshots(limit: number = 20): Promise<AirdropSnapshot[]> {
+    return await this.getCollection(SNAPSHOTS)
+      .find({}, { projection: { _id: 0, history: 0 } })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  async getSnapshot(id: string): Promise<AirdropSnapshot | null> {
+    return (await this.getCollection(SNAPSHOTS).findOne({ id }, { projection: { _id: 0 } })) || null;
+  }
+
+  async getClaims(snapshotId: string, options: { skip?: number; limit?: number; status?: AirdropClaimStatus } = {}): Promise<{ claims: AirdropClaim[]; total: number }> {
+    const filter: any = { snapshotId, ...(options.status ? { status: options.status } : {}) };
+    const collection = this.getCollection(CLAIMS);
+    const [claims, total] = await Promise.all([
+      collection.find(filter, { projection: { _id: 0 } }).sort({ index: 1 }).skip(options.skip || 0).limit(options.limit || 50).toArray(),
+      collection.countDocuments(filter)
+    ]);
+    return { claims, total };
+  }
+
+  async getClaimsForUser(userId: string): Promise<AirdropClaim[]> {
+    return await this.getCollection(CLAIMS).find({ userId }, { projection: { _id: 0 } }).sort({ frozenAt: 1 }).toArray();
+  }
+
+  /**
+   * The user's oldest unclaimed leaf in a published snapshot
+   */
+  async getClaimableAllocation(userId: string): Promise<AirdropAllocation | null> {
+    const claims = await this.getCollection(CLAIMS)
+      .find({ userId, status: 'unclaimed', proof: { $exists: true } }, { projection: { _id: 0 } })
+      .sort({ frozenAt: 1 })
+      .toArray() as AirdropClaim[];
+
+    for (const claim of claims) {
+      const snapshot = await this.getSnapshot(claim.snapshotId);
+      if (snapshot?.status === 'live' && snapshot.distributorAddress) return { snapshot, claim };
+    }
+    return null;
+  }
+
+  async getClaim(snapshotId: string, index: number): Promise<AirdropClaim | null> {
+    return (await this.getCollection(CLAIMS).findOne({ snapshotId, index }, { projection: { _id: 0 } })) || null;
+  }
+
+  async markClaimed(snapshotId: string, index: number, details: { transactionHash?: string; withdrawalId?: string } = {}): Promise<boolean> {
+    const result = await this.getCollection(CLAIMS).updateOne(
+      { snapshotId, index, status: 'unclaimed' },
+      { $set: { status: 'claimed', claimedAt: new Date().toISOString(), ...details } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Ask the distributor whether the leaf has been claimed, by us or anyone else
+   */
+  async isClaimedOnChain(distributorAddress: string, index: number, chainId: number = this.config.wallet.chainId): Promise<boolean> {
+    const reader = new ethers.Contract(
+      distributorAddress,
+      ['function isClaimed(uint256 index) view returns (bool)'],
+      await ChainRegistryService.getInstance().getProvider(chainId)
+    );
+    return Boolean(await reader.isClaimed(index));
+  }
+
+  /**
+   * Record the deployed distributor and open the snapshot for claims
+   */
+  async publish(id: string, distributorAddress: string, by: string): Promise<AirdropSnapshot> {
+    if (!ethers.utils.isAddress(distributorAddress)) throw new Error('Invalid distributor address');
+    const snapshot = await this.getSnapshot(id);
+    if (!snapshot) throw new Error('Snapshot not found');
+
+    const moved = await this.transition(snapshot, 'live', {
+      distributorAddress: ethers.utils.getAddress(distributorAddress),
+      publishedAt: new Date().toISOString()
+    }, by);
+    if (!moved) throw new Error(`Snapshot is ${snapshot.status} and cannot be published`);
+    this.logger.info('Airdrop snapshot published', { snapshotId: id, distributorAddress: snapshot.distributorAddress, by });
+    return snapshot;
+  }
+
+  /**
+   * Abandon a snapshot that never went live and give the frozen points back
+   */
+  async discard(id: string, by: string): Promise<{ snapshot: AirdropSnapshot; released: number; failed: number }> {
+    const snapshot = await this.getSnapshot(id);
+    if (!snapshot) throw new Error('Snapshot not found');
+    const moved = await this.transition(snapshot, 'discarded', { discardedAt: new Date().toISOString() }, by);
+    if (!moved) throw new Error(`Snapshot is ${snapshot.status} and cannot be discarded`);
+
+    let released = 0;
+    let failed = 0;
+    const cursor = this.getCollection(CLAIMS).find({ snapshotId: id, status: 'unclaimed' }, { projection: { _id: 0 } });
+    for await (const claim of cursor as AsyncIterable<AirdropClaim>) {
+      const result = await PointsLedgerService.getInstance().post({
+        userId: claim.userId,
+        amount: claim.points,
+        type: 'refund',
+        description: 'Airdrop snapshot discarded: points returned',
+        idempotencyKey: `airdrop:${id}:${claim.userId}:release`,
+        metadata: { snapshotId: id }
+      });
+      if (result.success) {
+        released++;
+        await this.getCollection(CLAIMS).updateOne({ snapshotId: id, userId: claim.userId }, { $set: { status: 'released' } });
+      } else {
+        failed++;
+        this.logger.error('Failed to release frozen airdrop points', { snapshotId: id, userId: claim.userId, error: result.error });
+      }
+    }
+
+    this.logger.info('Airdrop snapshot discarded', { snapshotId: id, released, failed, by });
+    return { snapshot, released, failed };
+  }
+
+  async buildExport(id: string): Promise<AirdropExport | null> {
+    const snapshot = await this.getSnapshot(id);
+    if (!snapshot?.merkleRoot) return null;
+    const claims = await this.getCollection(CLAIMS)
+      .find({ snapshotId: id, index: { $exists: true } }, { projection: { _id: 0, index: 1, address: 1, amountWei: 1, proof: 1 } })
+      .sort({ index: 1 })
+      .toArray() as AirdropClaim[];
+
+    return {
+      snapshotId: snapshot.id,
+      merkleRoot: snapshot.merkleRoot,
+      chainId: snapshot.chainId,
+      tokenAddress: snapshot.tokenAddress,
+      tokenSymbol: snapshot.tokenSymbol,
+      tokenDecimals: snapshot.tokenDecimals,
+      tokenTotal: snapshot.tokenTotalWei,
+      claimCount: snapshot.claimCount,
+      cutoffAt: snapshot.cutoffAt,
+      claims: claims.map(c => ({ index: c.index!, account: c.address, amount: c.amountWei, proof: c.proof || [] }))
+    };
+  }
+
+  /**
+   * Debit each eligible balance into an `airdrop_claims` row. Returns how
+   * many eligible users were skipped.
+   */
+  private async freezeBalances(snapshot: AirdropSnapshot): Promise<number> {
+    const ledger = PointsLedgerService.getInstance();
+    let skipped = 0;
+
+    // Users frozen by an interrupted run no longer match the balance filter;
+    // make sure each of their debits has a claim row
+    const frozen = this.getCollection('point_transactions').find(
+      { 'metadata.snapshotId': snapshot.id, type: 'withdrawal', status: 'committed' },
+      { projection: { _id: 0, userId: 1, amount: 1, createdAt: 1, metadata: 1 } }
+    );
+    for await (const entry of frozen) {
+      await this.upsertClaim(snapshot, String(entry.userId), String(entry.metadata?.walletAddress), Math.abs(Number(entry.amount)));
+    }
+
+    const cursor = this.getCollection('users').find(this.eligibleFilter(snapshot.minPoints), {
+      projection: { _id: 0, id: 1, points: 1, walletAddress: 1 }
+    });
+
+    for await (const user of cursor) {
+      const userId = String(user.id);
+      const points = Number(user.points || 0);
+      if (!ethers.utils.isAddress(String(user.walletAddress))) {
+        skipped++;
+        continue;
+      }
+
+      const result = await ledger.post({
+        userId,
+        amount: -points,
+        type: 'withdrawal',
+        description: 'Airdrop snapshot (points frozen)',
+        idempotencyKey: `airdrop:${snapshot.id}:${userId}`,
+        metadata: { snapshotId: snapshot.id, walletAddress: user.walletAddress }
+      });
+      if (!result.success) {
+        // Balance moved between the scan and the debit; leave the user out rather than guess
+        skipped++;
+        this.logger.warn('Could not freeze balance for airdrop', { snapshotId: snapshot.id, userId, error: result.error });
+        continue;
+      }
+
+      await this.upsertClaim(snapshot, userId, String(user.walletAddress), Math.abs(Number(result.entry?.amount ?? points)));
+    }
+    return skipped;
+  }
+
+  private async upsertClaim(snapshot: AirdropSnapshot, userId: string, walletAddress: string, points: number): Promise<void> {
+    await this.getCollection(CLAIMS).updateOne(
+      { snapshotId: snapshot.id, userId },
+      {
+        $setOnInsert: {
+          snapshotId: snapshot.id,
+          userId,
+          address: ethers.utils.getAddress(walletAddress),
+          points,
+          amountWei: this.toWei(points, snapshot).toString(),
+          status: 'unclaimed',
+          frozenAt: new Date().toISOString()
+        }
+      },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Assign leaf indexes in userId order, build the tree, store proofs and
+   * write the JSON export
+   */
+  private async finalize(snapshot: AirdropSnapshot, skipped: number): Promise<AirdropSnapshot> {
+    const collection = this.getCollection(CLAIMS);
+    const rows = await collection
+      .find({ snapshotId: snapshot.id }, { projection: { _id: 0, userId: 1, address: 1, points: 1, amountWei: 1 } })
+      .sort({ userId: 1 })
+      .toArray() as AirdropClaim[];
+
+    if (rows.length === 0) throw new Error('No eligible balances to snapshot');
+
+    const leaves = rows.map((row, index) => ({ index, account: row.address, amount: row.amountWei }));
+    const tree = buildMerkleTree(leaves);
+
+    for (let i = 0; i < rows.length; i += WRITE_BATCH) {
+      const ops = rows.slice(i, i + WRITE_BATCH).map((row, offset) => ({
+        updateOne: {
+          filter: { snapshotId: snapshot.id, userId: row.userId },
+          update: { $set: { index: i + offset, proof: getMerkleProof(tree, i + offset) } }
+        }
+      }));
+      await collection.bulkWrite(ops, { ordered: false });
+    }
+
+    const tokenTotal = rows.reduce((sum, row) => sum.add(row.amountWei), ethers.BigNumber.from(0));
+    const moved = await this.transition(snapshot, 'ready', {
+      merkleRoot: tree.root,
+      claimCount: rows.length,
+      totalPoints: rows.reduce((sum, row) => sum + row.points, 0),
+      tokenTotalWei: tokenTotal.toString(),
+      skipped: snapshot.skipped + skipped,
+      completedAt: new Date().toISOString()
+    });
+    if (!moved) throw new Error('Snapshot changed while it was being built');
+
+    try {
+      const exportPath = await this.writeExport(snapshot.id);
+      if (exportPath) {
+        snapshot.exportPath = exportPath;
+        await this.getCollection(SNAPSHOTS).updateOne({ id: snapshot.id }, { $set: { exportPath } });
+      }
+    } catch (error: any) {
+      // The export can be downloaded from the admin API instead
+      this.logger.warn('Failed to write airdrop export', { snapshotId: snapshot.id, error: error?.message });
+    }
+
+    this.logger.info('Airdrop snapshot ready', { snapshotId: snapshot.id, merkleRoot: tree.root, claims: rows.length });
+    return snapshot;
+  }
+
+  private async writeExport(id: string): Promise<string | null> {
+    const dir = this.config.wallet.airdrop.exportDir;
+    if (!dir) return null;
+    const data = await this.buildExport(id);
+    if (!data) return null;
+    const filePath = path.resolve(dir, `${id}.json`);
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeJson(filePath, data, { spaces: 2 });
+    return filePath;
+  }
+
+  private async transition(snapshot: AirdropSnapshot, to: AirdropSnapshotStatus, set: Partial<AirdropSnapshot> = {}, by?: string, reason?: string): Promise<boolean> {
+    const from = snapshot.status;
+    if (!canTransitionSnapshot(from, to)) return false;
+
+    const result = await this.getCollection(SNAPSHOTS).updateOne(
+      { id: snapshot.id, status: from },
+      {
+        $set: { ...set, status: to },
+        $push: { history: { from, to, at: new Date().toISOString(), ...(by ? { by } : {}), ...(reason ? { reason } : {}) } }
+      }
+    );
+    if (result.modifiedCount === 0) return false;
+    Object.assign(snapshot, set, { status: to });
+    return true;
+  }
+
+  private eligibleFilter(minPoints: number): any {
+    return {
+      points: { $gte: Math.max(1, minPoints) },
+      walletAddress: { $exists: true, $nin: [null, ''] },
+      isBlocked: { $ne: true }
+    };
+  }
+
+  private toWei(points: number, snapshot?: Pick<AirdropSnapshot, 'conversionRate' | 'tokenDecimals'>): ethers.BigNumber {
+    const rate = snapshot?.conversionRate ?? this.config.points.conversionRate;
+    const decimals = snapshot?.tokenDecimals ?? this.config.wallet.tokenDecimals;
+    return ethers.utils.parseUnits((points * rate).toFixed(decimals), decimals);
+  }
+
+  /** An enabled registry token on an enabled network; the distributor contract pays it */
+  private async resolveToken(tokenId?: string): Promise<TokenInfo> {
+    const target = await ChainRegistryService.getInstance().resolvePayoutTarget(tokenId);
+    if (!target) throw new Error(tokenId ? `Token ${tokenId} is not available for payouts` : 'No payout token is available');
+    return target.token;
+  }
+
+  private getMinPoints(): number {
+    return this.config.wallet.airdrop.minPoints || this.config.points.minWithdraw;
+  }
+
+  private getCollection(name: string): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
+
+export const airdropSnapshotService = AirdropSnapshotService.getInstance();
+export default airdropSnapshotService;
@@ -0,0 +1,17 @@
+export type AirdropSnapshotStatus = 'building' | 'ready' | 'live' | 'failed' | 'discarded';
+
+export type AirdropClaimStatus = 'unclaimed' | 'claimed' | 'released';
+
+const TRANSITIONS: Record<AirdropSnapshotStatus, AirdropSnapshotStatus[]> = {
+  building: ['ready', 'failed'],
+  // `live` once the distributor contract holding this root is deployed
+  ready: ['live', 'discarded'],
+  live: [],
+  // A failed build may already have frozen points; discarding returns them
+  failed: ['discarded'],
+  discarded: []
+};
+
+export function canTransitionSnapshot(from: AirdropSnapshotStatus, to: AirdropSnapshotStatus): boolean {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+}
@@ -0,0 +1,75 @@
+import { ethers } from 'ethers';
+
+export interface MerkleLeafInput {
+  index: number;
+  account: string;
+  /** Token amount in wei, as a decimal string */
+  amount: string;
+}
+
+export interface MerkleTree {
+  root: string;
+  /** levels[0] are the leaf hashes in index order, the last level holds the root */
+  levels: string[][];
+}
+
+/**
+ * Leaf hash as computed by Uniswap-style MerkleDistributor contracts:
+ * `keccak256(abi.encodePacked(index, account, amount))`
+ */
+export function hashLeaf(leaf: MerkleLeafInput): string {
+  return ethers.utils.solidityKeccak256(
+    ['uint256', 'address', 'uint256'],
+    [leaf.index, ethers.utils.getAddress(leaf.account), leaf.amount]
+  );
+}
+
+/**
+ * Pairs are sorted before hashing (OpenZeppelin `MerkleProof`), so proofs do
+ * not need to carry left/right flags.
+ */
+function hashPair(a: string, b: string): string {
+  const [left, right] = a.toLowerCase() <= b.toLowerCase() ? [a, b] : [b, a];
+  return ethers.utils.keccak256(ethers.utils.concat([left, right]));
+}
+
+/**
+ * Build the tree over `leaves`, which must be indexed 0..n-1 without gaps.
+ * An odd node at the end of a level is carried up unchanged.
+ */
+export function buildMerkleTree(leaves: MerkleLeafInput[]): MerkleTree {
+  if (leaves.length === 0) throw new Error('Cannot build a Merkle tree without leaves');
+  const ordered = [...leaves].sort((a, b) => a.index - b.index);
+  ordered.forEach((leaf, i) => {
+    if (leaf.index !== i) throw new Error(`Merkle leaf indexes must be contiguous from 0 (missing ${i})`);
+  });
+
+  const levels: string[][] = [ordered.map(hashLeaf)];
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+    levels.push(next);
+  }
+  return { root: levels[levels.length - 1][0], levels };
+}
+
+export function getMerkleProof(tree: MerkleTree, index: number): string[] {
+  if (index < 0 || index >= tree.levels[0].length) throw new Error(`No Merkle leaf at index ${index}`);
+  const proof: string[] = [];
+  let position = index;
+  for (let level = 0; level < tree.levels.length - 1; level++) {
+    const nodes = tree.levels[level];
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < nodes.length) proof.push(nodes[sibling]);
+    position = Math.floor(position / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(root: string, leaf: MerkleLeafInput, proof: string[]): boolean {
+  const computed = proof.reduce((node, sibling) => hashPair(node, sibling), hashLeaf(leaf));
+  return computed.toLowerCase() === root.toLowerCase();
+}
@@ -0,0 +1,61 @@
+import { BanAppeal, BanAppealDecision, BanAppealStatus } from '../../types/security.types';
+
+/**
+ * Eligibility and input rules for ban appeals. A ban is identified by the
+ * user and the time it was imposed, so a user gets one appeal per ban and a
+ * fresh one if they are banned again later.
+ */
+
+export const APPEAL_MESSAGE_MIN_LENGTH = 20;
+export const APPEAL_MESSAGE_MAX_LENGTH = 1000;
+/** How long the bot waits for the explanation after the user starts an appeal */
+export const APPEAL_DRAFT_TTL_MS = 30 * 60 * 1000;
+export const MAX_REDUCED_BAN_HOURS = 90 * 24;
+
+export const DECISION_STATUS: Record<BanAppealDecision, BanAppealStatus> = {
+  uphold: 'upheld',
+  unban: 'unbanned',
+  reduce: 'reduced'
+};
+
+export interface ActiveBlock {
+  blockedAt?: string;
+  reason?: string;
+  blockedUntil?: string;
+}
+
+export type AppealIneligibility = 'not_blocked' | 'spam_freeze' | 'already_appealed';
+
+export function appealBanKey(userId: string, blockedAt?: string): string {
+  return `${userId}:${blockedAt || 'unknown'}`;
+}
+
+/**
+ * Why the user cannot appeal this block, or null if they can. Spam freezes
+ * lift on their own within minutes and are not worth a moderator's time.
+ */
+export function checkAppealEligibility(
+  block: ActiveBlock | null,
+  existing: Pick<BanAppeal, 'status'> | null,
+  now: Date = new Date()
+): AppealIneligibility | null {
+  if (!block) return 'not_blocked';
+  if (block.blockedUntil && new Date(block.blockedUntil) <= now) return 'not_blocked';
+  if (/spam/i.test(block.reason || '')) return 'spam_freeze';
+  if (existing && existing.status !== 'draft') return 'already_appealed';
+  return null;
+}
+
+export function normalizeAppealMessage(text: unknown): { message?: string; error?: 'too_short' | 'too_long' } {
+  const message = String(text ?? '').replace(/\s+/g, ' ').trim();
+  if (message.length < APPEAL_MESSAGE_MIN_LENGTH) return { error: 'too_short' };
+  if (message.length > APPEAL_MESSAGE_MAX_LENGTH) return { error: 'too_long' };
+  return { message };
+}
+
+/** End of a reduced ban counted from the decision, or null for an out-of-range duration */
+export function reducedBanUntil(hours: unknown, now: Date = new Date()): string | null {
+  const value = Number(hours);
+  if (!Number.isFinite(value) || value < 1 || value > MAX_REDUCED_BAN_HOURS) return null;
+  return new Date(now.getTime() + Math.round(value) * 60 * 60 * 1000).toISOString();
+}
@@ -0,0 +1,364 @@
+import { Context } from 'telegraf';
+import { Logger } from '../logger';
+import { nanoid } from '../id';
+import { StorageManager } from '../../storage';
+import { TelegramNotifyService } from '../telegram-notify.service';
+import { DeviceBanService } from '../../security/device-ban.service';
+import { AdminIdentity } from '../admin/admin-permission.service';
+import { BanAppeal, BanAppealDecision, BanAppealStatus } from '../../types/security.types';
+import {
+  APPEAL_DRAFT_TTL_MS,
+  APPEAL_MESSAGE_MAX_LENGTH,
+  APPEAL_MESSAGE_MIN_LENGTH,
+  ActiveBlock,
+  DECISION_STATUS,
+  appealBanKey,
+  checkAppealEligibility,
+  normalizeAppealMessage,
+  reducedBanUntil
+} from './appeal-rules';
+
+export const APPEAL_CALLBACK = 'ban_appeal_start';
+
+export interface AppealDecisionInput {
+  decision: BanAppealDecision;
+  note?: string;
+  /** Length of the temporary ban for `reduce` */
+  reduceHours?: number;
+}
+
+export interface AppealDecisionResult {
+  success: boolean;
+  error?: 'not_found' | 'not_pending' | 'invalid_duration';
+  appeal?: BanAppeal;
+}
+
+export interface AppealEvidence {
+  user: Record<string, any> | null;
+  ban: Record<string, any> | null;
+  bannedDevices: any[];
+  devices: any[];
+  clusters: any[];
+  auditLog: any[];
+  previousAppeals: BanAppeal[];
+}
+
+const INELIGIBLE_MESSAGES: Record<string, string> = {
+  not_blocked: 'Your account is not blocked.',
+  spam_freeze: 'Spam freezes lift automatically after a few minutes and cannot be appealed.',
+  already_appealed: 'You have already appealed this ban. A moderator will reply here once it has been reviewed.'
+};
+
+/**
+ * Lets blocked users appeal their ban from the bot and moderators decide
+ * appeals from the admin panel. Blocked users never reach the regular
+ * handlers, so the blocking middleware hands their updates to
+ * handleBlockedUpdate first.
+ */
+export class BanAppealService {
+  private static instance: BanAppealService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly deviceBans = new DeviceBanService();
+  private botInstance: any = null;
+
+  private constructor() {}
+
+  static getInstance(): BanAppealService {
+    if (!BanAppealService.instance) {
+      BanAppealService.instance = new BanAppealService();
+    }
+    return BanAppealService.instance;
+  }
+
+  setBotInstance(bot: any): void {
+    this.botInstance = bot;
+  }
+
+  /** Whether the block notification should offer the appeal button */
+  async canAppeal(userId: string): Promise<boolean> {
+    const block = await this.getActiveBlock(userId);
+    const existing = block ? await this.getCollection().findOne({ banKey: appealBanKey(userId, block.blockedAt) }) : null;
+    return checkAppealEligibility(block, existing) === null;
+  }
+
+  /**
+   * Handle the appeal button, /appeal, and the explanation that follows.
+   * Returns false for anything else so the middleware keeps the user blocked.
+   */
+  async handleBlockedUpdate(ctx: Context, userId: string): Promise<boolean> {
+    const callbackData = (ctx.callbackQuery as any)?.data;
+    const text: string | undefined = (ctx.message as any)?.text;
+
+    if (callbackData === APPEAL_CALLBACK || /^\/appeal(@\w+)?(\s|$)/i.test(text || '')) {
+      if (callbackData) await ctx.answerCbQuery().catch(() => undefined);
+      await this.startDraft(ctx, userId);
+      return true;
+    }
+    if (typeof text !== 'string') return false;
+
+    const draft: BanAppeal | null = await this.getCollection().findOne(
+      { userId, status: 'draft', draftExpiresAt: { $gt: new Date().toISOString() } },
+      { projection: { _id: 0 } }
+    );
+    if (!draft) return false;
+
+    if (/^\/cancel(@\w+)?$/i.test(text.trim())) {
+      await this.getCollection().updateOne({ id: draft.id }, { $unset: { draftExpiresAt: '' }, $set: { updatedAt: new Date().toISOString() } });
+      await this.reply(ctx, 'Appeal cancelled. Send /appeal if you change your mind.');
+      return true;
+    }
+
+    const { message, error } = normalizeAppealMessage(text);
+    if (!message) {
+      await this.reply(ctx, error === 'too_short'
+        ? `Please explain in at least ${APPEAL_MESSAGE_MIN_LENGTH} characters why the ban should be lifted.`
+        : `Please keep your appeal under ${APPEAL_MESSAGE_MAX_LENGTH} characters.`);
+      return true;
+    }
+    await this.submit(ctx, draft, message);
+    return true;
+  }
+
+  async list(options: { status?: BanAppealStatus; page?: number; pageSize?: number } = {}): Promise<{ data: any[]; total: number }> {
+    const filter: Record<string, any> = options.status ? { status: options.status } : { status: { $ne: 'draft' } };
+    const page = Math.max(1, options.page || 1);
+    const pageSize = Math.min(200, Math.max(1, options.pageSize || 50));
+    const coll = this.getCollection();
+    const [appeals, total] = await Promise.all([
+      coll.find(filter, { projection: { _id: 0 } })
+        .sort({ status: 1, submittedAt: 1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .toArray(),
+      coll.countDocuments(filter)
+    ]);
+
+    const users = await this.getCollection('users')
+      .find({ id: { $in: appeals.map((a: BanAppeal) => a.userId) } }, { projection: { _id: 0, id: 1, username: 1, firstName: 1 } })
+      .toArray();
+    const byId = new Map<string, any>(users.map((u: any) => [String(u.id), u]));
+    const data = appeals.map((a: BanAppeal) => ({ ...a, username: byId.get(a.userId)?.username, firstName: byId.get(a.userId)?.firstName }));
+    return { data, total };
+  }
+
+  /** An appeal with the security evidence behind the user's ban */
+  async getWithEvidence(id: string): Promise<{ appeal: BanAppeal; evidence: AppealEvidence } | null> {
+    const appeal: BanAppeal | null = await this.getCollection().findOne({ id }, { projection: { _id: 0 } });
+    if (!appeal) return null;
+    const { userId } = appeal;
+
+    const [user, ban, bannedDevices, devices, clusters, auditLog, previousAppeals] = await Promise.all([
+      this.getCollection('users').findOne({ id: userId }, {
+        projection: {
+          _id: 0, id: 1, username: 1, firstName: 1, points: 1, isBlocked: 1, blockReason: 1, blockedAt: 1, blockedUntil: 1,
+          registeredAt: 1, ipAddress: 1, country: 1, riskScore: 1, overallThreatLevel: 1, multiAccountDetected: 1,
+          multiAccountData: 1, deviceCollisionData: 1, vpnDetected: 1, proxyDetected: 1, walletAddress: 1
+        }
+      }),
+      this.getCollection('banned_users').findOne({ userId }, { projection: { _id: 0 } }),
+      this.getCollection('banned_devices').find({ relatedAccounts: userId }, { projection: { _id: 0 } }).limit(20).toArray(),
+      this.getCollection('device_fingerprints').find({ userId }, {
+        projection: { _id: 0, hash: 1, fingerprintHash: 1, registeredAt: 1, lastSeenAt: 1, riskScore: 1, isBlocked: 1 }
+      }).limit(20).toArray(),
+      this.getCollection('account_clusters').find({ members: userId, stale: { $ne: true } }, {
+        projection: { _id: 0, id: 1, size: 1, score: 1, linkCounts: 1 }
+      }).limit(5).toArray(),
+      this.getCollection('security_audit').find({ userId }, { projection: { _id: 0 } }).sort({ timestamp: -1 }).limit(20).toArray(),
+      this.getCollection().find({ userId, id: { $ne: id }, status: { $ne: 'draft' } }, { projection: { _id: 0 } }).sort({ createdAt: -1 }).limit(10).toArray()
+    ]);
+
+    return { appeal, evidence: { user, ban, bannedDevices, devices, clusters, auditLog, previousAppeals } };
+  }
+
+  /**
+   * Record a moderator's decision, apply it to the user's block and device
+   * bans, tell the user through the bot and write it to the security audit log
+   */
+  async decide(id: string, input: AppealDecisionInput, admin: AdminIdentity | undefined, ipAddress?: string): Promise<AppealDecisionResult> {
+    const now = new Date();
+    let blockedUntil: string | undefined;
+    if (input.decision === 'reduce') {
+      blockedUntil = reducedBanUntil(input.reduceHours, now) || undefined;
+      if (!blockedUntil) return { success: false, error: 'invalid_duration' };
+    }
+
+    const adminName = admin?.username || 'admin';
+    const note = String(input.note || '').trim().slice(0, 1000);
+    const res = await this.getCollection().findOneAndUpdate(
+      { id, status: 'pending' },
+      {
+        $set: {
+          status: DECISION_STATUS[input.decision],
+          decision: input.decision,
+          decidedAt: now.toISOString(),
+          decidedBy: adminName,
+          decisionNote: note,
+          ...(blockedUntil ? { blockedUntil } : {}),
+          updatedAt: now.toISOString()
+        }
+      },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    const appeal = ((res as any)?.value !== undefined ? (res as any).value : res) as BanAppeal | null;
+    if (!appeal) {
+      const exists = await this.getCollection().countDocuments({ id }, { limit: 1 });
+      return { success: false, error: exists > 0 ? 'not_pending' : 'not_found' };
+    }
+
+    if (input.decision === 'unban') await this.liftBan(appeal.userId, note || 'ban appeal accepted', adminName);
+    if (input.decision === 'reduce') await this.shortenBan(appeal.userId, blockedUntil!);
+
+    await this.storage.saveSecurityAuditLog({
+      id: `sec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      type: 'ban_appeal_decision',
+      severity: input.decision === 'unban' ? 'high' : 'medium',
+      action: input.decision,
+      userId: appeal.userId,
+      adminId: admin?.id || null,
+      username: adminName,
+      role: admin?.role || null,
+      description: `${adminName} ${DECISION_STATUS[input.decision]} the ban appeal of user ${appeal.userId}`,
+      details: { appealId: id, banKey: appeal.banKey, blockReason: appeal.blockReason, note, blockedUntil: blockedUntil || null },
+      timestamp: now,
+      ipAddress: ipAddress || null
+    });
+    await this.notifyDecision(appeal);
+
+    this.logger.info('Ban appeal decided', { appealId: id, userId: appeal.userId, decision: input.decision, admin: adminName });
+    return { success: true, appeal };
+  }
+
+  private async startDraft(ctx: Context, userId: string): Promise<void> {
+    const block = await this.getActiveBlock(userId);
+    const banKey = appealBanKey(userId, block?.blockedAt);
+    const coll = this.getCollection();
+    const existing = block ? await coll.findOne({ banKey }, { projection: { _id: 0, status: 1 } }) : null;
+    const ineligible = checkAppealEligibility(block, existing);
+    if (ineligible) {
+      await this.reply(ctx, INELIGIBLE_MESSAGES[ineligible]);
+      return;
+    }
+
+    const now = new Date().toISOString();
+    await coll.updateOne(
+      { banKey, status: 'draft' },
+      {
+        $set: { draftExpiresAt: new Date(Date.now() + APPEAL_DRAFT_TTL_MS).toISOString(), updatedAt: now },
+        $setOnInsert: { id: `appeal_${nanoid()}`, userId, banKey, blockedAt: block!.blockedAt, blockReason: block!.reason, status: 'draft', createdAt: now }
+      },
+      { upsert: true }
+    );
+    await this.reply(ctx, [
+      '📝 <b>Ban appeal</b>',
+      '',
+      'Reply with one message explaining why you think the ban is a mistake (for example, who else uses your device or network).',
+      `You can appeal each ban once, so include everything a moderator should know (${APPEAL_MESSAGE_MIN_LENGTH}–${APPEAL_MESSAGE_MAX_LENGTH} characters).`,
+      '',
+      'Send /cancel to stop.'
+    ].join('\n'));
+  }
+
+  private async submit(ctx: Context, draft: BanAppeal, message: string): Promise<void> {
+    const now = new Date().toISOString();
+    const result = await this.getCollection().updateOne(
+      { id: draft.id, status: 'draft' },
+      { $set: { status: 'pending', message, submittedAt: now, updatedAt: now }, $unset: { draftExpiresAt: '' } }
+    );
+    if (result.modifiedCount === 0) return;
+
+    // Keep the device-level appeal flags in step for bans that track them
+    const devices = await this.getCollection('banned_devices')
+      .find({ relatedAccounts: draft.userId, appealable: true }, { projection: { _id: 0, deviceHash: 1 } })
+      .toArray();
+    for (const { deviceHash } of devices) {
+      await this.deviceBans.submitAppeal(deviceHash, message, draft.userId);
+    }
+
+    await this.reply(ctx, '✅ Your appeal has been submitted. A moderator will review it and you will get the decision here.');
+    this.logger.info('Ban appeal submitted', { appealId: draft.id, userId: draft.userId });
+    const who = (ctx.from as any)?.username ? `@${(ctx.from as any).username}` : draft.userId;
+    await TelegramNotifyService.sendToAdmins(`📝 New ban appeal from ${this.escapeHtml(who)} (${draft.userId}).`).catch(() => undefined);
+  }
+
+  private async liftBan(userId: string, reason: string, adminName: string): Promise<void> {
+    await this.storage.unblockUser(userId, reason);
+    // The decision message replaces the generic "unblocked" notice
+    await this.storage.updateUser(userId, { unblockNotifyPending: false } as any);
+    const devices = await this.getCollection('banned_devices')
+      .find({ relatedAccounts: userId }, { projection: { _id: 0, deviceHash: 1 } })
+      .toArray();
+    for (const { deviceHash } of devices) {
+      await this.deviceBans.unbanDevice(deviceHash, adminName, reason);
+    }
+    await this.clearBlockingCache(userId);
+  }
+
+  private async shortenBan(userId: string, blockedUntil: string): Promise<void> {
+    await this.getCollection('users').updateOne({ id: userId }, { $set: { blockedUntil } });
+    await this.getCollection('banned_users').updateMany({ userId }, { $set: { blockedUntil } });
+    await this.getCollection('banned_devices').updateMany({ relatedAccounts: userId }, { $set: { expiresAt: blockedUntil } });
+    await this.clearBlockingCache(userId);
+  }
+
+  private async clearBlockingCache(userId: string): Promise<void> {
+    try {
+      const { BlockingMiddleware } = await import('../../bot/middleware/blocking.middleware');
+      BlockingMiddleware.getInstance().clearUserCache(userId);
+    } catch (error) {
+      this.logger.warn('Failed to clear blocking cache after appeal decision', { userId, error: (error as any)?.message });
+    }
+  }
+
+  private async notifyDecision(appeal: BanAppeal): Promise<void> {
+    if (!this.botInstance) return;
+    const note = appeal.decisionNote ? `\n\nModerator note: ${this.escapeHtml(appeal.decisionNote)}` : '';
+    let text: string;
+    let keyboard: any[][] = [];
+    if (appeal.decision === 'unban') {
+      text = '✅ <b>Your appeal was accepted.</b>\n\nThe ban has been lifted and you can use the bot again.';
+      keyboard = [[{ text: 'Main Menu', callback_data: 'menu_main' }]];
+    } else if (appeal.decision === 'reduce') {
+      text = `⏳ <b>Your appeal was partly accepted.</b>\n\nThe ban has been reduced and ends on ${new Date(appeal.blockedUntil!).toUTCString()}.`;
+    } else {
+      text = '🚫 <b>Your appeal was reviewed and the ban stays in place.</b>';
+    }
+    try {
+      await this.botInstance.telegram.sendMessage(appeal.userId, text + note, {
+        parse_mode: 'HTML',
+        ...(keyboard.length > 0 ? { reply_markup: { inline_keyboard: keyboard } } : {})
+      });
+    } catch (error) {
+      this.logger.warn('Failed to notify user about appeal decision', { appealId: appeal.id, error: (error as any)?.message });
+    }
+  }
+
+  /** The user's current block from the user record, or the banned_users registry */
+  private async getActiveBlock(userId: string): Promise<ActiveBlock | null> {
+    const user = await this.getCollection('users').findOne({ id: userId }, { projection: { _id: 0, isBlocked: 1, blockedAt: 1, blockReason: 1, blockedUntil: 1 } });
+    if (user?.isBlocked) return { blockedAt: user.blockedAt, reason: user.blockReason, blockedUntil: user.blockedUntil };
+    const ban = await this.getCollection('banned_users').findOne({ userId }, { projection: { _id: 0 } });
+    if (!ban) return null;
+    return { blockedAt: ban.blockedAt || ban.bannedAt || ban.createdAt, reason: ban.reason || ban.blockReason, blockedUntil: ban.blockedUntil };
+  }
+
+  private async reply(ctx: Context, text: string): Promise<void> {
+    try {
+      await ctx.reply(text, { parse_mode: 'HTML' });
+    } catch (error) {
+      this.logger.debug('Could not reply to blocked user', { error: (error as any)?.message });
+    }
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private getCollection(name = 'ban_appeals'): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
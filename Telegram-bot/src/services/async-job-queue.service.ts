@@ -1,12 +1,25 @@
 import { Logger } from './logger';
 import { nanoid } from './id';
 import { StorageManager } from '../storage';
+import { getConfig } from '../config';
+import { AdminIdentity } from './admin/admin-permission.service';
+import { DeadLetterJob, JobAttemptError, QueueOverview, QueuePolicy, QueueState } from '../types/job-queue.types';
+import {
+  MAX_RECORDED_ERRORS,
+  heartbeatIntervalMs,
+  isExhausted,
+  nextPollDelay,
+  rateWindow,
+  resolveQueuePolicy,
+  retryDelayMs
+} from './job-queue-rules';
 
 export interface JobData {
   id: string;
   type: string;
   payload: any;
   priority?: number;
+  /** Runs before the job is dead-lettered; the queue policy decides when omitted */
   attempts?: number;
   delay?: number;
   metadata?: any;
@@ -29,29 +42,76 @@ export interface QueueStats {
   paused: number;
 }
 
+export interface WorkerOptions {
+  concurrency?: number;
+  policy?: Partial<QueuePolicy>;
+}
+
+export interface DeadLetterResult {
+  success: boolean;
+  error?: 'not_found';
+  count?: number;
+}
+
+type JobProcessor = (job: { id: string; data: JobData }) => Promise<JobResult>;
+
 interface JobDocument {
   id: string;
   queue: string;
   data: Omit<JobData, 'id'>;
+  /** `failed` only appears on jobs written before dead-lettering existed */
   status: 'waiting' | 'active' | 'completed' | 'failed';
   priority: number;
-  attempts: number;
+  /** Per-job override of the queue's maxAttempts */
+  maxAttempts?: number;
+  attemptsMade: number;
   createdAt: Date;
   availableAt: Date;
   startedAt?: Date;
   finishedAt?: Date;
+  /** Claim token; only the worker holding it may renew or settle the job */
+  lease?: string;
+  lockedUntil?: Date;
+  workerId?: string;
   returnvalue?: any;
   failedReason?: string;
+  errors?: JobAttemptError[];
+  replayCount?: number;
+}
+
+interface WorkerHandle {
+  id: string;
+  queue: string;
+  closed: boolean;
 }
 
+const PAUSE_REFRESH_MS = 5000;
+const DEAD_LETTER_PURGE_MS = 60 * 60 * 1000;
+const MAX_BULK_REPLAY = 1000;
+
+/**
+ * Mongo-backed job queue. Workers claim a job by taking a lease that runs
+ * for the queue's visibility timeout and renew it while the job runs; a job
+ * whose lease lapses (the process died) is claimed again by the next poll.
+ * Failed runs are retried with exponential backoff until the policy's
+ * attempts are used up, then the job moves to `jobs_dead_letter`, where an
+ * admin can replay it. Pause state lives in `job_queues` so it applies to
+ * every replica.
+ */
 export class AsyncJobQueueService {
   private static instance: AsyncJobQueueService;
   private readonly logger = Logger.getInstance();
   private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
   private isInitialized = false;
 
-  private processors = new Map<string, Array<(job: { id: string; data: JobData }) => Promise<JobResult>>>();
-  private workerLoops = new Map<string, NodeJS.Timeout[]>();
+  private processors = new Map<string, JobProcessor[]>();
+  private workers = new Map<string, WorkerHandle[]>();
+  private policies = new Map<string, Partial<QueuePolicy>>();
+  private paused = new Map<string, { paused: boolean; checkedAt: number }>();
+  /** Sleeping worker loops per queue, woken early when a job is added locally */
+  private sleepers = new Map<string, Set<() => void>>();
+  private purgeTimer: NodeJS.Timeout | null = null;
 
   private constructor() {}
 
@@ -63,117 +123,337 @@ export class AsyncJobQueueService {
   }
 
   async initialize(): Promise<void> {
+    if (this.isInitialized) return;
     this.isInitialized = true;
+    if (this.config.jobs.deadLetterRetentionDays > 0) {
+      this.purgeTimer = setInterval(() => {
+        this.purgeDeadLetters().catch((e) => this.logger.warn('Dead-letter purge failed:', e));
+      }, DEAD_LETTER_PURGE_MS);
+      this.purgeTimer.unref?.();
+    }
     this.logger.info('AsyncJobQueueService initialized (Mongo-backed)');
   }
 
-  private getJobsCollection(): any {
+  private getCollection(name: string): any {
     const base = this.storage.getStorageInstance() as any;
     if (!base || typeof base.getRawCollection !== 'function') {
       throw new Error('MongoStorage raw collection access not available');
     }
-    return base.getRawCollection('jobs');
+    return base.getRawCollection(name);
+  }
+
+  private getJobsCollection(): any {
+    return this.getCollection('jobs');
+  }
+
+  /** Retry, visibility and rate-limit settings for a queue; unset fields use the `jobs` config */
+  setQueuePolicy(queueName: string, policy: Partial<QueuePolicy>): void {
+    this.policies.set(queueName, { ...(this.policies.get(queueName) || {}), ...policy });
   }
 
-  async createQueue(queueName: string): Promise<any> {
+  getQueuePolicy(queueName: string): QueuePolicy {
+    const jobs = this.config.jobs;
+    return resolveQueuePolicy({
+      maxAttempts: jobs.maxAttempts,
+      backoffBaseMs: jobs.backoffBaseMs,
+      backoffMaxMs: jobs.backoffMaxMs,
+      jitter: jobs.jitter,
+      visibilityTimeoutMs: jobs.visibilityTimeoutMs
+    }, this.policies.get(queueName));
+  }
+
+  async createQueue(queueName: string, policy?: Partial<QueuePolicy>): Promise<any> {
     if (!this.processors.has(queueName)) {
       this.processors.set(queueName, []);
     }
+    if (policy) this.setQueuePolicy(queueName, policy);
     return { name: queueName };
   }
 
-  async createWorker(
-    queueName: string,
-    processor: (job: { id: string; data: JobData }) => Promise<JobResult>,
-    options: any = {}
-  ): Promise<any> {
-    await this.createQueue(queueName);
+  async createWorker(queueName: string, processor: JobProcessor, options: WorkerOptions = {}): Promise<any> {
+    await this.createQueue(queueName, options.policy);
     this.processors.get(queueName)!.push(processor);
 
     const concurrency = Math.max(1, Math.min(10, options.concurrency || 1));
-    const loops: NodeJS.Timeout[] = [];
+    const workerId = `${queueName}-worker-${nanoid(8)}`;
+    const handles: WorkerHandle[] = [];
 
     for (let i = 0; i < concurrency; i++) {
-      const loop = setImmediate(async () => {
-        await this.workerLoop(queueName, processor).catch((e) => this.logger.error('Worker loop error:', e));
-      }) as unknown as NodeJS.Timeout;
-      loops.push(loop);
+      const handle: WorkerHandle = { id: `${workerId}-${i}`, queue: queueName, closed: false };
+      handles.push(handle);
+      setImmediate(() => {
+        this.workerLoop(handle, processor).catch((e) => this.logger.error('Worker loop error:', e));
+      });
     }
 
-    this.workerLoops.set(queueName, loops);
-    const workerId = `${queueName}-worker-${nanoid(8)}`;
+    this.workers.set(queueName, [...(this.workers.get(queueName) || []), ...handles]);
     this.logger.info(`Worker registered (Mongo-backed): ${workerId} for queue ${queueName}`);
     return {
       id: workerId,
       close: async () => {
-        const ls = this.workerLoops.get(queueName) || [];
-        ls.forEach((t) => clearTimeout(t));
-        this.workerLoops.delete(queueName);
+        handles.forEach((h) => { h.closed = true; });
+        this.wake(queueName);
+        this.workers.set(queueName, (this.workers.get(queueName) || []).filter((h) => !handles.includes(h)));
       }
     };
   }
 
-  private async workerLoop(queueName: string, processor: (job: { id: string; data: JobData }) => Promise<JobResult>): Promise<void> {
-    const coll = this.getJobsCollection();
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
+  private sleep(queueName: string, ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const set = this.sleepers.get(queueName) || new Set<() => void>();
+      this.sleepers.set(queueName, set);
+      const done = () => {
+        clearTimeout(timer);
+        set.delete(done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      set.add(done);
+    });
+  }
+
+  private wake(queueName: string): void {
+    const set = this.sleepers.get(queueName);
+    if (set) Array.from(set).forEach((done) => done());
+  }
+
+  private async workerLoop(handle: WorkerHandle, processor: JobProcessor): Promise<void> {
+    const { pollIntervalMs, maxPollIntervalMs } = this.config.jobs;
+    let idleMs = 0;
+
+    while (!handle.closed) {
       try {
-        const now = new Date();
-        const claim = await coll.findOneAndUpdate(
-          { queue: queueName, status: 'waiting', availableAt: { $lte: now } },
-          { $set: { status: 'active', startedAt: now } },
-          { sort: { priority: -1, availableAt: 1, createdAt: 1 }, returnDocument: 'after' }
-        );
-
-        const job: JobDocument | null = claim?.value || null;
+        if (await this.isPaused(handle.queue)) {
+          await this.sleep(handle.queue, maxPollIntervalMs);
+          continue;
+        }
+
+        const policy = this.getQueuePolicy(handle.queue);
+        const job = await this.claim(handle, policy);
         if (!job) {
-          await new Promise((r) => setTimeout(r, 300));
+          idleMs = nextPollDelay(idleMs, pollIntervalMs, maxPollIntervalMs);
+          await this.sleep(handle.queue, idleMs);
           continue;
         }
+        idleMs = 0;
 
-        const started = Date.now();
-        try {
-          const result = await processor({ id: job.id, data: { id: job.id, ...job.data } as JobData });
-          const duration = Date.now() - started;
-          await coll.updateOne(
-            { id: job.id },
-            { $set: { status: result.success ? 'completed' : 'failed', finishedAt: new Date(), returnvalue: result.result, failedReason: result.success ? undefined : (result.error || 'Job failed'), duration } }
-          );
-        } catch (err: any) {
-          await coll.updateOne(
-            { id: job.id },
-            { $set: { status: 'failed', finishedAt: new Date(), failedReason: err?.message || String(err) } }
-          );
+        if (policy.rateLimit) {
+          const retryAt = await this.takeRateSlot(handle.queue, policy.rateLimit.max, policy.rateLimit.windowMs);
+          if (retryAt) {
+            await this.release(job, retryAt);
+            await this.sleep(handle.queue, Math.max(0, retryAt.getTime() - Date.now()));
+            continue;
+          }
         }
+
+        await this.run(job, processor, { ...policy, maxAttempts: job.maxAttempts || policy.maxAttempts });
       } catch (err) {
         this.logger.error('Job loop iteration error:', err);
-        await new Promise((r) => setTimeout(r, 1000));
+        await this.sleep(handle.queue, 1000);
       }
     }
   }
 
-  async addJob(
-    queueName: string,
-    jobData: Omit<JobData, 'id'>,
-    _options: any = {}
-  ): Promise<string> {
-    await this.createQueue(queueName);
+  /**
+   * Lease the next due job, or one whose lease ran out. A job that was still
+   * active when reclaimed lost its worker mid-run; that run counts as a failed
+   * attempt and may send it straight to the dead-letter queue.
+   */
+  private async claim(handle: WorkerHandle, policy: QueuePolicy): Promise<JobDocument | null> {
     const coll = this.getJobsCollection();
-    const id = nanoid(12);
-    const now = new Date();
-    const availableAt = new Date(Date.now() + (jobData.delay || 0));
+    while (!handle.closed) {
+      const now = new Date();
+      const lease = nanoid(16);
+      const claim = await coll.findOneAndUpdate(
+        {
+          queue: handle.queue,
+          $or: [
+            { status: 'waiting', availableAt: { $lte: now } },
+            { status: 'active', lockedUntil: { $lt: now } },
+            { status: 'active', lockedUntil: { $exists: false }, startedAt: { $lt: new Date(now.getTime() - policy.visibilityTimeoutMs) } }
+          ]
+        },
+        {
+          $set: { status: 'active', startedAt: now, lease, lockedUntil: new Date(now.getTime() + policy.visibilityTimeoutMs), workerId: handle.id },
+          $inc: { attemptsMade: 1 }
+        },
+        { sort: { priority: -1, availableAt: 1, createdAt: 1 }, returnDocument: 'before' }
+      );
+
+      // Driver v6 returns the document itself; older drivers wrap it in { value }
+      const before: JobDocument | null = (claim && 'value' in claim ? claim.value : claim) || null;
+      if (!before) return null;
+
+      const job: JobDocument = {
+        ...before,
+        status: 'active',
+        startedAt: now,
+        lease,
+        lockedUntil: new Date(now.getTime() + policy.visibilityTimeoutMs),
+        workerId: handle.id,
+        attemptsMade: (before.attemptsMade || 0) + 1
+      };
+      if (before.status !== 'active') return job;
+
+      const attempt = before.attemptsMade || 1;
+      const errors = this.appendError(before.errors, attempt, 'Worker stopped renewing its lease');
+      this.logger.warn('Reclaimed stalled job', { queue: job.queue, jobId: job.id, attempt, workerId: before.workerId });
+      if (isExhausted({ ...policy, maxAttempts: job.maxAttempts || policy.maxAttempts }, attempt)) {
+        await this.deadLetter(job, 'Lease expired on the final attempt', errors);
+        continue;
+      }
+      job.errors = errors;
+      return job;
+    }
+    return null;
+  }
+
+  private async run(job: JobDocument, processor: JobProcessor, policy: QueuePolicy): Promise<void> {
+    const coll = this.getJobsCollection();
+    let leaseLost = false;
+    const heartbeat = setInterval(() => {
+      coll.updateOne({ id: job.id, lease: job.lease }, { $set: { lockedUntil: new Date(Date.now() + policy.visibilityTimeoutMs) } })
+        .then((res: any) => { if (!res?.matchedCount) leaseLost = true; })
+        .catch((e: any) => this.logger.warn('Job heartbeat failed', { jobId: job.id, error: e?.message || String(e) }));
+    }, heartbeatIntervalMs(policy));
+    heartbeat.unref?.();
+
+    const started = Date.now();
+    let result: JobResult;
+    try {
+      result = await processor({ id: job.id, data: { id: job.id, ...job.data } as JobData });
+    } catch (err: any) {
+      result = { success: false, error: err?.message || String(err) };
+    } finally {
+      clearInterval(heartbeat);
+    }
+    const duration = Date.now() - started;
+
+    if (result.success) {
+      const res = await coll.updateOne(
+        { id: job.id, lease: job.lease },
+        {
+          $set: { status: 'completed', finishedAt: new Date(), returnvalue: result.result, duration },
+          $unset: { lease: '', lockedUntil: '', workerId: '', failedReason: '' }
+        }
+      );
+      if (!res?.matchedCount || leaseLost) {
+        this.logger.warn('Job finished after its lease was taken over', { queue: job.queue, jobId: job.id, duration });
+      }
+      return;
+    }
+
+    await this.fail(job, policy, result.error || 'Job failed', duration);
+  }
+
+  private appendError(errors: JobAttemptError[] | undefined, attempt: number, error: string): JobAttemptError[] {
+    return [...(errors || []), { attempt, error: error.slice(0, 1000), at: new Date() }].slice(-MAX_RECORDED_ERRORS);
+  }
+
+  private async fail(job: JobDocument, policy: QueuePolicy, error: string, duration: number): Promise<void> {
+    const errors = this.appendError(job.errors, job.attemptsMade, error);
+    if (isExhausted(policy, job.attemptsMade)) {
+      await this.deadLetter(job, error, errors);
+      return;
+    }
+
+    const delay = retryDelayMs(policy, job.attemptsMade);
+    const res = await this.getJobsCollection().updateOne(
+      { id: job.id, lease: job.lease },
+      {
+        $set: { status: 'waiting', availableAt: new Date(Date.now() + delay), failedReason: error, errors, duration },
+        $unset: { lease: '', lockedUntil: '', workerId: '' }
+      }
+    );
+    if (res?.matchedCount) {
+      this.logger.warn('Job failed; retry scheduled', { queue: job.queue, jobId: job.id, attempt: job.attemptsMade, maxAttempts: policy.maxAttempts, retryInMs: delay, error });
+    }
+  }
+
+  /** Only the lease holder moves the job: a worker whose lease was taken over must not dead-letter a job that is running again */
+  private async deadLetter(job: JobDocument, reason: string, errors: JobAttemptError[]): Promise<void> {
+    const entry: DeadLetterJob = {
+      id: job.id,
+      queue: job.queue,
+      data: job.data,
+      priority: job.priority,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.maxAttempts || this.getQueuePolicy(job.queue).maxAttempts,
+      failedReason: reason,
+      errors,
+      createdAt: job.createdAt,
+      deadAt: new Date(),
+      replayCount: job.replayCount || 0
+    };
+    const res = await this.getJobsCollection().deleteOne({ id: job.id, lease: job.lease });
+    if (!res?.deletedCount) {
+      this.logger.warn('Job exhausted its attempts after its lease was taken over', { queue: job.queue, jobId: job.id, attempts: job.attemptsMade, reason });
+      return;
+    }
+    try {
+      await this.getCollection('jobs_dead_letter').replaceOne({ id: job.id }, entry, { upsert: true });
+    } catch (error) {
+      // The job is gone from the queue; the log is what is left to replay it from
+      this.logger.error('Failed to write dead-letter entry', { entry, error });
+      throw error;
+    }
+    this.logger.error('Job moved to the dead-letter queue', { queue: job.queue, jobId: job.id, attempts: job.attemptsMade, reason });
+  }
+
+  /** Hand a claimed job back without counting the attempt, e.g. when the queue's rate limit is used up */
+  private async release(job: JobDocument, availableAt: Date): Promise<void> {
+    await this.getJobsCollection().updateOne(
+      { id: job.id, lease: job.lease },
+      { $set: { status: 'waiting', availableAt }, $inc: { attemptsMade: -1 }, $unset: { lease: '', lockedUntil: '', workerId: '' } }
+    );
+  }
+
+  /** Count a job start against the queue's current window; returns when to try again if the window is full */
+  private async takeRateSlot(queueName: string, max: number, windowMs: number): Promise<Date | null> {
+    const { start, end } = rateWindow(Date.now(), windowMs);
+    const res = await this.getCollection('job_rate_windows').findOneAndUpdate(
+      { _id: `${queueName}:${start}` },
+      { $inc: { count: 1 }, $setOnInsert: { queue: queueName, expiresAt: new Date(end + windowMs) } },
+      { upsert: true, returnDocument: 'after' }
+    );
+    const doc = ((res as any)?.value !== undefined ? (res as any).value : res);
+    return (doc?.count || 0) > max ? new Date(end) : null;
+  }
+
+  private async isPaused(queueName: string): Promise<boolean> {
+    const cached = this.paused.get(queueName);
+    if (cached && Date.now() - cached.checkedAt < PAUSE_REFRESH_MS) return cached.paused;
+    const state: QueueState | null = await this.getCollection('job_queues').findOne({ queue: queueName });
+    const paused = state?.paused === true;
+    this.paused.set(queueName, { paused, checkedAt: Date.now() });
+    return paused;
+  }
+
+  private buildJob(queueName: string, jobData: Omit<JobData, 'id'>, now: Date): JobDocument {
     const doc: JobDocument = {
-      id,
+      id: nanoid(12),
       queue: queueName,
       data: jobData,
       status: 'waiting',
       priority: jobData.priority ?? 1,
-      attempts: jobData.attempts ?? 1,
+      attemptsMade: 0,
       createdAt: now,
-      availableAt
+      availableAt: new Date(now.getTime() + (jobData.delay || 0))
     };
-    await coll.insertOne(doc as any);
-    return id;
+    if (jobData.attempts) doc.maxAttempts = jobData.attempts;
+    return doc;
+  }
+
+  async addJob(
+    queueName: string,
+    jobData: Omit<JobData, 'id'>,
+    _options: any = {}
+  ): Promise<string> {
+    await this.createQueue(queueName);
+    const doc = this.buildJob(queueName, jobData, new Date());
+    await this.getJobsCollection().insertOne(doc as any);
+    if (!jobData.delay) this.wake(queueName);
+    return doc.id;
   }
 
   async addBulkJobs(
@@ -181,19 +461,12 @@ export class AsyncJobQueueService {
     jobsData: Array<Omit<JobData, 'id'>>,
     _options: any = {}
   ): Promise<string[]> {
-    const coll = this.getJobsCollection();
     const now = new Date();
-    const docs: JobDocument[] = jobsData.map((data) => ({
-      id: nanoid(12),
-      queue: queueName,
-      data,
-      status: 'waiting',
-      priority: data.priority ?? 1,
-      attempts: data.attempts ?? 1,
-      createdAt: now,
-      availableAt: new Date(Date.now() + (data.delay || 0))
-    }));
-    if (docs.length > 0) await coll.insertMany(docs as any);
+    const docs = jobsData.map((data) => this.buildJob(queueName, data, now));
+    if (docs.length > 0) {
+      await this.getJobsCollection().insertMany(docs as any);
+      this.wake(queueName);
+    }
     return docs.map((d) => d.id);
   }
 
@@ -205,63 +478,229 @@ export class AsyncJobQueueService {
     id: string;
   } | null> {
     const coll = this.getJobsCollection();
+    const deadLetters = this.getCollection('jobs_dead_letter');
     const doc: JobDocument | null = await coll.findOne({ id: jobId, queue: queueName });
-    if (!doc) return null;
+    const dead: DeadLetterJob | null = doc ? null : await deadLetters.findOne({ id: jobId, queue: queueName });
+    if (!doc && !dead) return null;
     return {
-      id: doc.id,
-      returnvalue: doc.returnvalue,
-      failedReason: doc.failedReason,
+      id: jobId,
+      returnvalue: doc?.returnvalue,
+      failedReason: doc ? doc.failedReason : dead!.failedReason,
       isCompleted: async () => {
         const d = await coll.findOne({ id: jobId }, { projection: { status: 1 } });
         return !!d && d.status === 'completed';
       },
       isFailed: async () => {
         const d = await coll.findOne({ id: jobId }, { projection: { status: 1 } });
-        return !!d && d.status === 'failed';
+        if (d) return d.status === 'failed';
+        return !!(await deadLetters.findOne({ id: jobId }, { projection: { id: 1 } }));
       }
     };
   }
 
   async getQueueStats(queueName: string): Promise<QueueStats | null> {
-    const coll = this.getJobsCollection();
-    const counts = await coll.aggregate([
-      { $match: { queue: queueName } },
-      { $group: { _id: '$status', c: { $sum: 1 } } }
-    ]).toArray();
-    const map: Record<string, number> = {};
-    counts.forEach((c: any) => (map[c._id] = c.c));
-    const delayed = await coll.countDocuments({ queue: queueName, status: 'waiting', availableAt: { $gt: new Date() } });
+    const overview = (await this.getOverview([queueName]))[0];
+    if (!overview) return null;
     return {
-      waiting: (map['waiting'] || 0) - delayed,
-      active: map['active'] || 0,
-      completed: map['completed'] || 0,
-      failed: map['failed'] || 0,
-      delayed,
-      paused: 0
+      waiting: overview.waiting,
+      active: overview.active + overview.stalled,
+      completed: overview.completed,
+      failed: overview.deadLettered,
+      delayed: overview.delayed,
+      paused: overview.paused ? overview.waiting + overview.delayed : 0
     };
   }
 
   async getAllQueueStats(): Promise<Record<string, QueueStats>> {
-    const coll = this.getJobsCollection();
-    // API v1-safe: avoid distinct; use aggregation instead
-    const docs = await coll.aggregate([{ $group: { _id: '$queue' } }]).toArray();
-    const queues = docs.map((d: any) => d._id).filter((q: any) => !!q);
     const result: Record<string, QueueStats> = {};
-    for (const q of queues) {
-      const s = await this.getQueueStats(q);
-      if (s) result[q] = s;
+    for (const overview of await this.getOverview()) {
+      result[overview.queue] = {
+        waiting: overview.waiting,
+        active: overview.active + overview.stalled,
+        completed: overview.completed,
+        failed: overview.deadLettered,
+        delayed: overview.delayed,
+        paused: overview.paused ? overview.waiting + overview.delayed : 0
+      };
     }
     return result;
   }
 
-  async pauseQueue(_queueName: string): Promise<boolean> { return true; }
-  async resumeQueue(_queueName: string): Promise<boolean> { return true; }
+  /** Depth, retries, stalls and dead letters for every known queue, or only `queueNames` */
+  async getOverview(queueNames?: string[]): Promise<QueueOverview[]> {
+    const now = new Date();
+    const match = queueNames ? { queue: { $in: queueNames } } : {};
+    const is = (status: string) => ({ $eq: ['$status', status] });
+    const count = (cond: any) => ({ $sum: { $cond: [cond, 1, 0] } });
+    const [jobRows, deadRows, states] = await Promise.all([
+      this.getJobsCollection().aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: '$queue',
+            waiting: count({ $and: [is('waiting'), { $lte: ['$availableAt', now] }] }),
+            delayed: count({ $and: [is('waiting'), { $gt: ['$availableAt', now] }] }),
+            retrying: count({ $and: [is('waiting'), { $gt: ['$attemptsMade', 0] }] }),
+            active: count({ $and: [is('active'), { $gte: ['$lockedUntil', now] }] }),
+            stalled: count({ $and: [is('active'), { $lt: ['$lockedUntil', now] }] }),
+            completed: count(is('completed')),
+            failed: count(is('failed')),
+            oldestWaitingAt: { $min: { $cond: [is('waiting'), '$createdAt', null] } }
+          }
+        }
+      ]).toArray(),
+      this.getCollection('jobs_dead_letter').aggregate([{ $match: match }, { $group: { _id: '$queue', count: { $sum: 1 } } }]).toArray(),
+      this.getCollection('job_queues').find(match).toArray()
+    ]);
+
+    const names = new Set<string>(queueNames || [
+      ...Array.from(this.processors.keys()),
+      ...jobRows.map((r: any) => r._id),
+      ...deadRows.map((r: any) => r._id),
+      ...states.map((s: QueueState) => s.queue)
+    ]);
+    const rowsByQueue = new Map<string, any>(jobRows.map((r: any) => [r._id, r]));
+    const deadByQueue = new Map<string, number>(deadRows.map((r: any) => [r._id, r.count]));
+    const pausedByQueue = new Map<string, boolean>(states.map((s: QueueState) => [s.queue, s.paused === true]));
+
+    return Array.from(names).filter(Boolean).sort().map((queue) => {
+      const row = rowsByQueue.get(queue) || {};
+      return {
+        queue,
+        waiting: row.waiting || 0,
+        active: row.active || 0,
+        delayed: row.delayed || 0,
+        completed: row.completed || 0,
+        retrying: row.retrying || 0,
+        // Jobs that failed before dead-lettering existed still count as failures
+        deadLettered: (deadByQueue.get(queue) || 0) + (row.failed || 0),
+        stalled: row.stalled || 0,
+        paused: pausedByQueue.get(queue) === true,
+        policy: this.getQueuePolicy(queue),
+        oldestWaitingAt: row.oldestWaitingAt || undefined
+      };
+    });
+  }
+
+  async pauseQueue(queueName: string, admin?: AdminIdentity, ipAddress?: string): Promise<boolean> {
+    return this.setPaused(queueName, true, admin, ipAddress);
+  }
+
+  async resumeQueue(queueName: string, admin?: AdminIdentity, ipAddress?: string): Promise<boolean> {
+    return this.setPaused(queueName, false, admin, ipAddress);
+  }
+
+  private async setPaused(queueName: string, paused: boolean, admin?: AdminIdentity, ipAddress?: string): Promise<boolean> {
+    await this.getCollection('job_queues').updateOne(
+      { queue: queueName },
+      paused
+        ? { $set: { queue: queueName, paused: true, pausedAt: new Date(), pausedBy: admin?.username || 'system' } }
+        : { $set: { queue: queueName, paused: false }, $unset: { pausedAt: '', pausedBy: '' } },
+      { upsert: true }
+    );
+    this.paused.set(queueName, { paused, checkedAt: Date.now() });
+    if (!paused) this.wake(queueName);
+    this.logger.info(`Queue ${queueName} ${paused ? 'paused' : 'resumed'}`, { by: admin?.username || 'system' });
+    if (admin) {
+      await this.audit(paused ? 'queue_paused' : 'queue_resumed', admin, ipAddress, `${paused ? 'Paused' : 'Resumed'} job queue ${queueName}`, { queue: queueName });
+    }
+    return true;
+  }
+
+  async listDeadLetters(options: { queue?: string; limit?: number; skip?: number } = {}): Promise<{ items: DeadLetterJob[]; total: number }> {
+    const coll = this.getCollection('jobs_dead_letter');
+    const filter = options.queue ? { queue: options.queue } : {};
+    const limit = Math.max(1, Math.min(200, options.limit || 50));
+    const [items, total] = await Promise.all([
+      coll.find(filter, { projection: { _id: 0 } }).sort({ deadAt: -1 }).skip(Math.max(0, options.skip || 0)).limit(limit).toArray(),
+      coll.countDocuments(filter)
+    ]);
+    return { items, total };
+  }
+
+  /** Put a dead-lettered job back on its queue with a fresh set of attempts */
+  async replayDeadLetter(id: string, admin?: AdminIdentity, ipAddress?: string): Promise<DeadLetterResult> {
+    const entry: DeadLetterJob | null = await this.getCollection('jobs_dead_letter').findOne({ id });
+    if (!entry) return { success: false, error: 'not_found' };
+    await this.requeue(entry);
+    if (admin) {
+      await this.audit('dead_letter_replayed', admin, ipAddress, `Replayed job ${id} on queue ${entry.queue}`, { queue: entry.queue, jobId: id, failedReason: entry.failedReason });
+    }
+    return { success: true, count: 1 };
+  }
+
+  async replayDeadLetters(queueName: string, admin?: AdminIdentity, ipAddress?: string): Promise<DeadLetterResult> {
+    const entries: DeadLetterJob[] = await this.getCollection('jobs_dead_letter')
+      .find({ queue: queueName }).sort({ deadAt: 1 }).limit(MAX_BULK_REPLAY).toArray();
+    for (const entry of entries) {
+      await this.requeue(entry);
+    }
+    if (admin && entries.length > 0) {
+      await this.audit('dead_letter_replayed', admin, ipAddress, `Replayed ${entries.length} dead-lettered job(s) on queue ${queueName}`, { queue: queueName, count: entries.length });
+    }
+    return { success: true, count: entries.length };
+  }
+
+  async discardDeadLetter(id: string, admin?: AdminIdentity, ipAddress?: string): Promise<DeadLetterResult> {
+    const coll = this.getCollection('jobs_dead_letter');
+    const entry: DeadLetterJob | null = await coll.findOne({ id });
+    if (!entry) return { success: false, error: 'not_found' };
+    await coll.deleteOne({ id });
+    if (admin) {
+      await this.audit('dead_letter_discarded', admin, ipAddress, `Discarded dead-lettered job ${id} on queue ${entry.queue}`, { queue: entry.queue, jobId: id, failedReason: entry.failedReason });
+    }
+    return { success: true, count: 1 };
+  }
+
+  private async requeue(entry: DeadLetterJob): Promise<void> {
+    const doc: JobDocument = {
+      id: entry.id,
+      queue: entry.queue,
+      data: entry.data,
+      status: 'waiting',
+      priority: entry.priority ?? 1,
+      attemptsMade: 0,
+      createdAt: entry.createdAt || new Date(),
+      availableAt: new Date(),
+      errors: entry.errors || [],
+      replayCount: (entry.replayCount || 0) + 1
+    };
+    if (entry.maxAttempts) doc.maxAttempts = entry.maxAttempts;
+    // $setOnInsert keeps a copy that is somehow still on the queue instead of duplicating it
+    await this.getJobsCollection().updateOne({ id: entry.id }, { $setOnInsert: doc }, { upsert: true });
+    await this.getCollection('jobs_dead_letter').deleteOne({ id: entry.id });
+    this.wake(entry.queue);
+  }
+
+  private async purgeDeadLetters(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.config.jobs.deadLetterRetentionDays * 24 * 60 * 60 * 1000);
+    const res = await this.getCollection('jobs_dead_letter').deleteMany({ deadAt: { $lt: cutoff } });
+    return res.deletedCount || 0;
+  }
+
+  private async audit(action: string, admin: AdminIdentity, ipAddress: string | undefined, description: string, details: any): Promise<void> {
+    await this.storage.saveSecurityAuditLog({
+      id: `sec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      type: 'job_queue',
+      severity: 'medium',
+      action,
+      adminId: admin?.id || null,
+      username: admin?.username || 'admin',
+      role: admin?.role || null,
+      description,
+      details,
+      timestamp: new Date(),
+      ipAddress: ipAddress || null
+    });
+  }
+
   async cleanFailedJobs(queueName: string, graceMs: number = 24 * 60 * 60 * 1000): Promise<number> {
-    const coll = this.getJobsCollection();
     const cutoff = new Date(Date.now() - graceMs);
-    const res = await coll.deleteMany({ queue: queueName, status: 'failed', finishedAt: { $lt: cutoff } });
-    return res.deletedCount || 0;
+    const legacy = await this.getJobsCollection().deleteMany({ queue: queueName, status: 'failed', finishedAt: { $lt: cutoff } });
+    const dead = await this.getCollection('jobs_dead_letter').deleteMany({ queue: queueName, deadAt: { $lt: cutoff } });
+    return (legacy.deletedCount || 0) + (dead.deletedCount || 0);
   }
+
   async cleanCompletedJobs(queueName: string, graceMs: number = 24 * 60 * 60 * 1000): Promise<number> {
     const coll = this.getJobsCollection();
     const cutoff = new Date(Date.now() - graceMs);
@@ -280,7 +719,7 @@ export class AsyncJobQueueService {
       return {
         healthy: this.isInitialized,
         queues: Object.keys(stats).length,
-        workers: Array.from(this.workerLoops.values()).reduce((a, b) => a + b.length, 0),
+        workers: Array.from(this.workers.values()).reduce((a, b) => a + b.length, 0),
         totalJobs: stats
       };
     } catch (e) {
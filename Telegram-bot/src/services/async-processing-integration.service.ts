@@ -8,6 +8,9 @@ import { EventEmitter } from 'events';
 import { StorageManager } from '../storage';
 import { BroadcastQueueService } from './broadcast-queue.service';
 import { TaskSubmissionService } from './task-submission.service';
+import { LedgerReconciliationService } from './ledger/ledger-reconciliation.service';
+import { ReferralProgramService } from './referrals/referral-program.service';
+import { ChannelMembershipService } from './membership/channel-membership.service';
 import SessionSchedulerService from './session/session-scheduler.service';
 import UnifiedSecurityEngine from '../security/unified-security-engine';
 
@@ -74,9 +77,6 @@ export class AsyncProcessingIntegrationService extends EventEmitter {
   private connectedServices = 0;
   private lastHealthCheck = new Date();
   
-  // Preserve original broadcast executor so we can call real delivery and get accurate metrics
-  private originalExecuteBroadcast?: (broadcast: any) => Promise<any>;
-  
   // High queue log rate-limiting / noise control
   private lastHighQueueLogAt = 0;
   
@@ -410,6 +410,12 @@ export class AsyncProcessingIntegrationService extends EventEmitter {
           return await this.performDataBackup(payload);
         case 'data_transformation':
           return await this.performDataTransformation(payload);
+        case 'ledger_reconciliation':
+          return await this.performLedgerReconciliation(payload);
+        case 'referral_sweep':
+          return await this.performReferralSweep(payload);
+        case 'membership_sweep':
+          return await this.performMembershipSweep(payload);
         default:
           throw new Error(`Unknown data job type: ${type}`);
       }
@@ -531,39 +537,10 @@ export class AsyncProcessingIntegrationService extends EventEmitter {
   }
 
   /**
-   * Replace broadcast queue processing with job queue
+   * Broadcast delivery already runs on the durable `broadcasts` queue
    */
   private replaceBroadcastProcessing(): void {
-    // Preserve original executor
-    const originalExecuteBroadcast = (this.broadcastService as any).executeBroadcast?.bind(this.broadcastService);
-    this.originalExecuteBroadcast = originalExecuteBroadcast;
-
-    if (!originalExecuteBroadcast) {
-      this.logger.warn('Broadcast service executeBroadcast not found; cannot integrate async processing');
-      return;
-    }
-
-    // Gate async override behind environment flag. By default, keep synchronous behavior
-    const enableAsync = String(process.env.ENABLE_ASYNC_BROADCAST || '').toLowerCase() === 'true';
-
-    if (enableAsync) {
-      this.logger.info('Async broadcast delivery enabled (ENABLE_ASYNC_BROADCAST=true)');
-      (this.broadcastService as any).executeBroadcast = async (broadcast: any) => {
-        // Enqueue a background job that will call the preserved original executor
-        return await this.processTask({
-          id: broadcast.id,
-          type: 'broadcast_delivery',
-          priority: 'high',
-          data: broadcast
-        });
-      };
-    } else {
-      // Keep original behavior to ensure real delivery and accurate metrics
-      this.logger.info('Async broadcast delivery disabled; using synchronous broadcast execution');
-      (this.broadcastService as any).executeBroadcast = async (broadcast: any) => {
-        return await originalExecuteBroadcast(broadcast);
-      };
-    }
+    this.logger.info('Broadcast delivery handled by the broadcasts job queue');
   }
 
   /**
@@ -669,6 +646,39 @@ export class AsyncProcessingIntegrationService extends EventEmitter {
     }
   }
 
+  /**
+   * Reconcile user balances against the points ledger
+   */
+  private async performLedgerReconciliation(payload: any): Promise<any> {
+    const report = await LedgerReconciliationService.getInstance().reconcile({
+      repair: payload?.repair,
+      userIds: payload?.userIds,
+      maxReported: 100
+    });
+    return {
+      success: true,
+      result: {
+        runId: report.runId,
+        mode: report.mode,
+        usersScanned: report.usersScanned,
+        usersWithDrift: report.usersWithDrift,
+        repaired: report.repaired,
+        deferred: report.deferred,
+        pending: report.pending
+      }
+    };
+  }
+
+  private async performReferralSweep(payload: any): Promise<any> {
+    const report = await ReferralProgramService.getInstance().sweep(payload?.limit);
+    return { success: true, result: report };
+  }
+
+  private async performMembershipSweep(payload: any): Promise<any> {
+    const report = await ChannelMembershipService.getInstance().sweep(payload?.limit);
+    return { success: true, result: report };
+  }
+
   /**
    * Optimize processing based on current load
    */
@@ -789,18 +799,15 @@ export class AsyncProcessingIntegrationService extends EventEmitter {
   }
 
   private async performBroadcastDelivery(payload: any): Promise<any> {
-    // Call preserved original broadcast executor to actually deliver messages
     try {
-      if (!this.originalExecuteBroadcast) {
-        this.logger.warn('Original broadcast executor not available; falling back to no-op result');
-        return { success: false, successCount: 0, failureCount: payload?.targetUsers?.length || 0, duration: 0 };
+      const broadcastId = payload?.broadcastId || payload?.id;
+      if (!broadcastId) {
+        return { success: false, successCount: 0, failureCount: 0, duration: 0, error: 'Missing broadcastId' };
       }
-      const result = await this.originalExecuteBroadcast(payload);
-      // Expecting BroadcastResult shape
-      return result;
+      return await this.broadcastService.runBroadcast(broadcastId);
     } catch (error: any) {
       this.logger.error('Broadcast delivery via async processing failed:', error?.message || error);
-      return { success: false, successCount: 0, failureCount: payload?.targetUsers?.length || 0, duration: 0, error: error?.message || String(error) };
+      return { success: false, successCount: 0, failureCount: 0, duration: 0, error: error?.message || String(error) };
     }
   }
 
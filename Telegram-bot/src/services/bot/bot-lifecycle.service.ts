@@ -13,7 +13,7 @@ export class BotLifecycleService implements IBotLifecycleService {
   private isInitializedFlag = false;
 
   constructor() {
-    this.bot = new Telegraf(this.config.bot.token);
+    this.bot = new Telegraf(this.config.bot.token, { telegram: { apiRoot: this.config.bot.apiRoot } });
   }
 
   async initialize(): Promise<void> {
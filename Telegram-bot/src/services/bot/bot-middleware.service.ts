@@ -78,6 +78,7 @@ export class BotMiddlewareService implements IBotMiddlewareService {
     const stage = new Scenes.Stage([
       this.walletHandler.getWalletConnectionScene(),
       this.taskHandler.getTaskSubmissionScene(),
+      this.taskHandler.getTaskAnswerScene(),
       this.referralHandler.getReferralInputScene(),
       this.adminHandler.getAdminScenes()
     ].flat());
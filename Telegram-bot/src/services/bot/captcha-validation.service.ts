@@ -9,6 +9,7 @@ import { TYPES } from '../../interfaces/container.interface';
 import { UserFactory } from '../../factories/user-factory';
 import { MenuHandler } from '../../bot/handlers/menu-handler';
 import { referralManager } from '../referral-manager.service';
+import { FeatureFlagService } from '../maintenance/feature-flag.service';
 
 export class CaptchaValidationService implements ICaptchaValidationService {
   private readonly logger = Logger.getInstance();
@@ -16,6 +17,7 @@ export class CaptchaValidationService implements ICaptchaValidationService {
   private readonly storage = StorageManager.getInstance();
   private readonly captchaService = CaptchaService.getInstance();
   private readonly container = Container.getInstance();
+  private readonly features = FeatureFlagService.getInstance();
 
   // Handler - TODO: Should be injected through container
   private readonly menuHandler = new MenuHandler();
@@ -253,6 +255,9 @@ export class CaptchaValidationService implements ICaptchaValidationService {
       return;
     }
     
+    // The referral code is stored above, so a user turned away here keeps it for later
+    if (!await this.features.guard(ctx, 'captcha')) return;
+
     // Professional Sequential Flow: Show the appropriate captcha with step indication
     const bothEnabled = captchaConfig.miniappEnabled && captchaConfig.svgEnabled;
     
@@ -407,6 +412,7 @@ export class CaptchaValidationService implements ICaptchaValidationService {
   async handleCaptchaCallback(ctx: Context): Promise<void> {
     const data = ctx.callbackQuery && 'data' in ctx.callbackQuery ? (ctx.callbackQuery as any).data : undefined;
     if (!data) return;
+    if (!await this.features.guard(ctx, 'captcha')) return;
 
     if (data === 'start_captcha') {
       await this.captchaService.startCaptchaChallenge(ctx);
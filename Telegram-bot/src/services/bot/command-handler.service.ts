@@ -68,6 +68,11 @@ export class CommandHandlerService implements ICommandHandlerService {
       await this.handleStats(ctx);
     });
 
+    // Language command
+    bot.command('language', async (ctx) => {
+      await this.handleLanguage(ctx);
+    });
+
     // Admin commands
     bot.command('admin', async (ctx) => {
       await this.handleAdmin(ctx);
@@ -194,6 +199,14 @@ export class CommandHandlerService implements ICommandHandlerService {
     }
   }
 
+  async handleLanguage(ctx: Context): Promise<void> {
+    const userRegistrationService = this.container.get<IUserRegistrationService>(TYPES.UserRegistrationService);
+    
+    if (await userRegistrationService.ensureUserExistsForCommand(ctx)) {
+      await this.menuHandler.showLanguage(ctx);
+    }
+  }
+
   async handleReferrals(ctx: Context): Promise<void> {
     const userRegistrationService = this.container.get<IUserRegistrationService>(TYPES.UserRegistrationService);
     
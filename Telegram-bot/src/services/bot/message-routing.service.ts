@@ -164,14 +164,10 @@ export class MessageRoutingService implements IMessageRoutingService {
   }
 
   async handleDocumentUpload(ctx: Context): Promise<void> {
-    // This would handle document uploads
-    this.logger.info('Document upload received');
-    await ctx.reply('📄 Document received. File upload processing is not yet implemented.');
+    await this.taskHandler.handleDocumentUpload(ctx);
   }
 
   async handlePhotoUpload(ctx: Context): Promise<void> {
-    // This would handle photo uploads
-    this.logger.info('Photo upload received');
-    await ctx.reply('📷 Photo received. Image upload processing is not yet implemented.');
+    await this.taskHandler.handlePhotoUpload(ctx);
   }
-}
\ No newline at end of file
+}
@@ -2,32 +2,95 @@ import { Logger } from './logger';
 import { StorageManager } from '../storage';
 import { Telegraf } from 'telegraf';
 import { nanoid } from './id';
+import { getConfig } from '../config';
 import jobQueue from './async-job-queue.service';
+import { LocalizationService } from './i18n/localization.service';
+import { pickTranslation } from './i18n/i18n-rules';
+import { BroadcastTranslation } from '../types/i18n.types';
+import {
+  ACTIVE_AUDIENCE_DAYS,
+  BroadcastButton,
+  BroadcastSegment,
+  BroadcastStatus,
+  BroadcastTargetType,
+  BroadcastType,
+  DeliveryStatus,
+  buildInlineKeyboard,
+  buildSegmentQuery,
+  canTransitionBroadcast,
+  classifyDeliveryError
+} from './broadcast/broadcast-rules';
 
 export interface BroadcastMessage {
   id: string;
-  type: 'text' | 'image';
+  type: BroadcastType;
   message: string;
+  /** URL or Telegram file_id */
   mediaUrl?: string;
-  targetType: 'all' | 'active' | 'specific';
+  buttons?: BroadcastButton[][];
+  /** Message per locale; recipients without a matching copy get `message` */
+  translations?: Record<string, BroadcastTranslation>;
+  targetType: BroadcastTargetType;
+  /** Recipients for `specific`; ignored otherwise */
   targetUsers: string[];
+  segment?: BroadcastSegment;
   scheduledAt?: string;
-  status: 'pending' | 'processing' | 'sent' | 'failed';
+  /** Messages per second for this broadcast, capped by BROADCAST_MAX_RATE */
+  rateLimitPerSecond?: number;
+  status: BroadcastStatus;
   createdAt: string;
+  createdBy?: string;
+  /** Set once the audience has been written to `broadcast_deliveries` */
+  recipientsResolved?: boolean;
+  targetCount?: number;
+  sentCount?: number;
+  failedCount?: number;
+  blockedCount?: number;
+  startedAt?: string;
+  completedAt?: string;
+  pausedAt?: string;
+  cancelledAt?: string;
+  nextRunAt?: string;
+  leaseUntil?: string;
+}
+
+export type BroadcastInput = Pick<BroadcastMessage, 'type' | 'message' | 'targetType'> &
+  Partial<Pick<BroadcastMessage, 'mediaUrl' | 'buttons' | 'translations' | 'targetUsers' | 'segment' | 'scheduledAt' | 'rateLimitPerSecond' | 'createdBy'>>;
+
+export interface BroadcastDelivery {
+  broadcastId: string;
+  userId: string;
+  /** Recipient's locale when the broadcast has translations */
+  locale?: string;
+  status: DeliveryStatus;
+  attempts: number;
+  messageId?: number;
+  error?: string;
+  sentAt?: string;
+  updatedAt: string;
 }
 
 export interface BroadcastHistoryEntry {
   id: string;
-  type: 'text' | 'image';
+  type: BroadcastType;
   message: string;
+  mediaUrl?: string;
+  buttons?: BroadcastButton[][];
+  /** Locales with their own copy of the message */
+  locales?: string[];
   targetType: string;
   targetCount: number;
   successCount: number;
   failureCount: number;
+  blockedCount: number;
+  pendingCount: number;
+  rateLimitPerSecond: number;
   createdAt: string;
-  sentAt: string;
+  scheduledAt?: string;
+  startedAt?: string;
+  sentAt?: string;
   duration: number;
-  status: 'sent' | 'failed';
+  status: BroadcastStatus;
 }
 
 export interface BroadcastResult {
@@ -38,17 +101,30 @@ export interface BroadcastResult {
   errors?: string[];
 }
 
+const QUEUE_NAME = 'broadcasts';
+const JOB_TYPE = 'broadcast_send';
+const LEASE_MS = 2 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 30 * 1000;
+const INSERT_BATCH = 1000;
+
+/**
+ * Persistent broadcast delivery.
+ *
+ * A broadcast is a document in `broadcasts`; its audience is materialised
+ * into `broadcast_deliveries` (one row per recipient) when sending starts, so
+ * a segment is evaluated at delivery time and progress survives restarts.
+ * Sending is driven by jobs on the `broadcasts` queue and guarded by a lease;
+ * a periodic sweep enqueues scheduled broadcasts that became due and resumes
+ * ones whose worker died. Delivery is at-least-once: a recipient being sent
+ * to when the process crashed can get the message twice.
+ */
 export class BroadcastQueueService {
   private static instance: BroadcastQueueService;
   private readonly logger = Logger.getInstance();
   private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
   private bot?: Telegraf;
-  private processingInterval?: NodeJS.Timeout;
-  private readonly BATCH_SIZE = 10;
-  private readonly BATCH_DELAY = 50; // ms between batches
-  private readonly PROCESSING_INTERVAL = 10; // Check every 10ms for near-instant delivery
-  private inMemoryQueue: BroadcastMessage[] = [];
-  private inMemoryHistory: BroadcastHistoryEntry[] = [];
+  private sweepTimer?: NodeJS.Timeout;
 
   private constructor() {}
 
@@ -63,17 +139,26 @@ export class BroadcastQueueService {
     try {
       this.bot = bot;
       await jobQueue.initialize();
-      const self = this;
-      await jobQueue.createWorker('broadcasts', async (job) => {
-        const payload = (job.data as any).payload as BroadcastMessage;
-        const result = await self.executeBroadcast(payload);
-        return { success: result.failureCount === 0, result, duration: result.duration } as any;
-      }, { concurrency: Number(process.env.BROADCAST_WORKER_CONCURRENCY || 3) });
-      
-      // Also start the fallback in-memory queue processor for immediate processing
-      this.startQueueProcessor();
-      
-      this.logger.info('✅ Broadcast queue service initialized with workers and in-memory processor');
+      await jobQueue.createWorker(QUEUE_NAME, async (job) => {
+        const payload = (job.data as any).payload || {};
+        // Jobs queued by older releases carried the whole broadcast
+        const broadcastId = payload.broadcastId || payload.id;
+        if (!broadcastId) return { success: false, error: 'Missing broadcastId' };
+        const result = await this.runBroadcast(broadcastId);
+        return { success: true, result, duration: result.duration };
+      }, {
+        concurrency: this.config.broadcast.workerConcurrency,
+        // Deliveries are tracked per recipient, so a retried run only sends what is left
+        policy: { maxAttempts: 3, backoffBaseMs: 30000 }
+      });
+
+      await this.sweep();
+      this.sweepTimer = setInterval(() => {
+        this.sweep().catch((e) => this.logger.error('❌ Broadcast sweep failed:', e));
+      }, SWEEP_INTERVAL_MS);
+      this.sweepTimer.unref?.();
+
+      this.logger.info('✅ Broadcast queue service initialized');
     } catch (error) {
       this.logger.error('❌ Failed to initialize broadcast queue service:', error);
       throw error;
@@ -82,9 +167,9 @@ export class BroadcastQueueService {
 
   async stop(): Promise<void> {
     try {
-      if (this.processingInterval) {
-        clearInterval(this.processingInterval);
-        this.processingInterval = undefined;
+      if (this.sweepTimer) {
+        clearInterval(this.sweepTimer);
+        this.sweepTimer = undefined;
       }
       this.logger.info('✅ Broadcast queue service stopped');
     } catch (error) {
@@ -93,310 +178,489 @@ export class BroadcastQueueService {
     }
   }
 
-  async queueBroadcast(broadcast: Omit<BroadcastMessage, 'id' | 'createdAt' | 'status'>): Promise<string> {
+  async queueBroadcast(input: BroadcastInput): Promise<string> {
     try {
-      const broadcastMessage: BroadcastMessage = {
+      const now = new Date();
+      const scheduledAt = input.scheduledAt ? new Date(input.scheduledAt) : null;
+      const isScheduled = !!scheduledAt && scheduledAt.getTime() > now.getTime();
+
+      const broadcast: BroadcastMessage = {
         id: nanoid(),
-        createdAt: new Date().toISOString(),
-        status: 'pending',
-        ...broadcast,
+        type: input.type,
+        message: input.message || '',
+        mediaUrl: input.mediaUrl,
+        buttons: input.buttons && input.buttons.length > 0 ? input.buttons : undefined,
+        translations: input.translations && Object.keys(input.translations).length > 0 ? input.translations : undefined,
+        targetType: input.targetType,
+        targetUsers: input.targetType === 'specific' ? (input.targetUsers || []).map(String) : [],
+        segment: input.segment,
+        scheduledAt: scheduledAt ? scheduledAt.toISOString() : undefined,
+        rateLimitPerSecond: this.clampRate(input.rateLimitPerSecond),
+        status: isScheduled ? 'scheduled' : 'pending',
+        createdAt: now.toISOString(),
+        createdBy: input.createdBy,
+        sentCount: 0,
+        failedCount: 0,
+        blockedCount: 0,
+        nextRunAt: (isScheduled ? scheduledAt! : now).toISOString()
       };
 
-      // Add to async job queue for persistence
-      await jobQueue.addJob('broadcasts', { type: 'broadcast', payload: broadcastMessage });
-      
-      // Also add to in-memory queue for immediate processing
-      this.inMemoryQueue.push(broadcastMessage);
-      
-      this.logger.info(`📤 Broadcast queued (async + in-memory): ${broadcastMessage.id} to ${broadcastMessage.targetUsers.length} users`);
-      return broadcastMessage.id;
+      await this.getCollection().insertOne({ ...broadcast });
+      await this.enqueue(broadcast.id, isScheduled ? scheduledAt!.getTime() - now.getTime() : 0);
+
+      this.logger.info(`📤 Broadcast queued: ${broadcast.id} (${broadcast.targetType}${isScheduled ? `, scheduled for ${broadcast.scheduledAt}` : ''})`);
+      return broadcast.id;
     } catch (error) {
       this.logger.error('❌ Failed to queue broadcast:', error);
       throw error;
     }
   }
 
-  private startQueueProcessor(): void {
-    this.logger.info(`🚀 Starting broadcast queue processor with ${this.PROCESSING_INTERVAL}ms interval`);
-    
-    this.processingInterval = setInterval(async () => {
-      try {
-        await this.processBroadcastQueue();
-      } catch (error) {
-        this.logger.error('❌ Error in broadcast queue processor:', error);
-      }
-    }, this.PROCESSING_INTERVAL);
-
-    this.logger.info('✅ Broadcast queue processor started successfully');
+  /**
+   * Number of users a broadcast with this audience would reach right now
+   */
+  async countRecipients(targetType: BroadcastTargetType, segment?: BroadcastSegment, targetUsers: string[] = []): Promise<number> {
+    if (targetType === 'specific') return new Set(targetUsers.map(String)).size;
+    return await this.getRawCollection('users').countDocuments(this.audienceQuery(targetType, segment));
   }
 
-  private async processBroadcastQueue(): Promise<void> {
-    if (!this.bot) {
-      this.logger.warn('Bot instance not available for broadcast processing');
-      return;
-    }
+  async getBroadcast(broadcastId: string): Promise<BroadcastMessage | null> {
+    return (await this.getCollection().findOne({ id: broadcastId }, { projection: { _id: 0 } })) || null;
+  }
 
-    const pending = this.inMemoryQueue.filter(m => m.status === 'pending');
-    
-    // Only log when there are pending messages (avoid spam)
-    if (pending.length > 0) {
-      this.logger.debug(`Processing broadcast queue: ${pending.length} pending messages, ${this.inMemoryQueue.length} total in queue`);
-    }
-    
-    if (!pending.length) return;
-
-    let candidate: BroadcastMessage | null = null;
-    for (const msg of pending) {
-      if (!candidate) {
-        candidate = msg;
-      } else {
-        const cTime = candidate.scheduledAt ? new Date(candidate.scheduledAt).getTime() : new Date(candidate.createdAt).getTime();
-        const mTime = msg.scheduledAt ? new Date(msg.scheduledAt).getTime() : new Date(msg.createdAt).getTime();
-        if (mTime < cTime) candidate = msg;
-      }
-    }
+  async getDeliveries(broadcastId: string, options: { status?: DeliveryStatus; skip?: number; limit?: number } = {}): Promise<{ deliveries: BroadcastDelivery[]; total: number }> {
+    const filter: any = { broadcastId, ...(options.status ? { status: options.status } : {}) };
+    const collection = this.getDeliveryCollection();
+    const [deliveries, total] = await Promise.all([
+      collection.find(filter, { projection: { _id: 0 } }).sort({ updatedAt: -1 }).skip(options.skip || 0).limit(options.limit || 50).toArray(),
+      collection.countDocuments(filter)
+    ]);
+    return { deliveries, total };
+  }
 
-    if (!candidate) {
-      this.logger.debug('No candidate broadcast found for processing');
-      return;
-    }
+  async pauseBroadcast(broadcastId: string): Promise<boolean> {
+    const broadcast = await this.getBroadcast(broadcastId);
+    if (!broadcast) return false;
+    return await this.transition(broadcast, 'paused', { pausedAt: new Date().toISOString() });
+  }
 
-    this.logger.info(`🎯 Found candidate broadcast: ${candidate.id} with ${candidate.targetUsers.length} target users`);
+  async resumeBroadcast(broadcastId: string): Promise<boolean> {
+    const broadcast = await this.getBroadcast(broadcastId);
+    if (!broadcast) return false;
+    const moved = await this.transition(broadcast, 'pending', { nextRunAt: new Date().toISOString() }, { pausedAt: '' });
+    if (moved) await this.enqueue(broadcastId);
+    return moved;
+  }
 
-    if (candidate.scheduledAt) {
-      const scheduledTime = new Date(candidate.scheduledAt).getTime();
-      if (Date.now() < scheduledTime) {
-        this.logger.debug(`Broadcast ${candidate.id} scheduled for ${candidate.scheduledAt}, waiting...`);
-        return;
-      }
+  async cancelBroadcast(broadcastId: string): Promise<boolean> {
+    try {
+      const broadcast = await this.getBroadcast(broadcastId);
+      if (!broadcast) return false;
+      const moved = await this.transition(broadcast, 'cancelled', { cancelledAt: new Date().toISOString(), completedAt: new Date().toISOString() });
+      if (!moved) return false;
+      await this.getDeliveryCollection().updateMany(
+        { broadcastId, status: 'pending' },
+        { $set: { status: 'cancelled', updatedAt: new Date().toISOString() } }
+      );
+      this.logger.info('🗑️ Broadcast ' + broadcastId + ' cancelled');
+      return true;
+    } catch (error) {
+      this.logger.error('❌ Failed to cancel broadcast ' + broadcastId + ':', error);
+      throw error;
     }
+  }
 
-    this.logger.info(`📤 Processing broadcast from in-memory queue: ${candidate.id}`);
-
+  async getBroadcastHistory(limit: number = 50): Promise<BroadcastHistoryEntry[]> {
     try {
-      candidate.status = 'processing';
-      this.logger.info(`🔄 Changed broadcast ${candidate.id} status to processing`);
-
-      const result = await this.executeBroadcast(candidate);
-
-      const history: BroadcastHistoryEntry = {
-        id: candidate.id,
-        type: candidate.type,
-        message: candidate.message,
-        targetType: candidate.targetType,
-        targetCount: candidate.targetUsers.length,
-        successCount: result.successCount,
-        failureCount: result.failureCount,
-        createdAt: candidate.createdAt,
-        sentAt: new Date().toISOString(),
-        duration: result.duration,
-        status: result.success ? 'sent' : 'failed',
-      };
-
-      this.inMemoryHistory.push(history);
-      this.inMemoryQueue = this.inMemoryQueue.filter(m => m.id !== candidate!.id);
+      const rows = await this.getCollection()
+        .find({}, { projection: { _id: 0, targetUsers: 0 } })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .toArray() as BroadcastMessage[];
+      return rows.map((b) => this.toHistoryEntry(b));
+    } catch (error) {
+      this.logger.error('❌ Failed to get broadcast history:', error);
+      return [];
+    }
+  }
 
-      this.logger.info(`✅ Broadcast ${candidate.id} completed: ${result.successCount} sent, ${result.failureCount} failed in ${result.duration}ms`);
+  /**
+   * The next broadcast waiting to be sent, if any
+   */
+  async getQueueStatus(): Promise<BroadcastMessage | null> {
+    try {
+      return (await this.getCollection().findOne(
+        { status: { $in: ['scheduled', 'pending', 'processing'] } },
+        { projection: { _id: 0, targetUsers: 0 }, sort: { nextRunAt: 1 } }
+      )) || null;
     } catch (error) {
-      this.logger.error(`❌ Error processing broadcast ${candidate.id}:`, error);
-      candidate.status = 'failed';
+      this.logger.error('❌ Failed to get queue status:', error);
+      return null;
     }
   }
 
-  private async executeBroadcast(broadcast: BroadcastMessage): Promise<BroadcastResult> {
+  /**
+   * Send as much of a broadcast as possible. Returns early if another worker
+   * holds it, it is not due yet, or it is paused or cancelled midway.
+   */
+  async runBroadcast(broadcastId: string): Promise<BroadcastResult> {
     const startTime = Date.now();
+    let broadcast = await this.acquireLease(broadcastId);
+    if (!broadcast) return { success: true, successCount: 0, failureCount: 0, duration: 0 };
+
     let successCount = 0;
     let failureCount = 0;
     const errors: string[] = [];
 
-    this.logger.info(`🚀 Starting broadcast execution for ${broadcast.id}`);
-    this.logger.info(`📊 Target users: ${broadcast.targetUsers.length}`);
-    this.logger.info(`📝 Message type: ${broadcast.type}`);
-    this.logger.info(`👥 First 5 target users: ${broadcast.targetUsers.slice(0, 5).join(', ')}`);
+    try {
+      if (!this.bot) throw new Error('Bot instance not available');
 
-    if (!this.bot) {
-      this.logger.error('❌ Bot instance not available for broadcast execution');
-      throw new Error('Bot instance not available');
-    }
+      if (broadcast.status !== 'processing') {
+        if (!(await this.transition(broadcast, 'processing', { startedAt: broadcast.startedAt || new Date().toISOString() }))) {
+          return { success: true, successCount: 0, failureCount: 0, duration: 0 };
+        }
+      }
+      if (!broadcast.recipientsResolved) {
+        await this.resolveRecipients(broadcast);
+      }
 
-    const batches: string[][] = [];
-    for (let i = 0; i < broadcast.targetUsers.length; i += this.BATCH_SIZE) {
-      batches.push(broadcast.targetUsers.slice(i, i + this.BATCH_SIZE));
-    }
-    
-    this.logger.info(`📦 Processing ${batches.length} batches of max ${this.BATCH_SIZE} users each`);
-
-    for (const batch of batches) {
-      const batchIndex = batches.indexOf(batch) + 1;
-      this.logger.info(`🔄 Processing batch ${batchIndex}/${batches.length} with ${batch.length} users`);
-      
-      const promises = batch.map(async (userId) => {
-        try {
-          this.logger.debug(`📤 Sending to user ${userId}`);
-          await this.sendBroadcastToUser(userId, broadcast);
-          successCount++;
-          this.logger.debug(`✅ Broadcast sent to user ${userId}`);
-          return { success: true };
-        } catch (err) {
-          failureCount++;
-          const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-          errors.push(`User ${userId}: ${errorMessage}`);
-          this.logger.error(`❌ Failed to send broadcast to user ${userId}: ${errorMessage}`);
-          return { success: false };
+      const rate = this.clampRate(broadcast.rateLimitPerSecond);
+      while (true) {
+        const current = await this.getBroadcast(broadcastId);
+        if (!current || current.status !== 'processing') {
+          this.logger.info(`⏸️ Broadcast ${broadcastId} stopped while ${current?.status || 'missing'}`);
+          break;
         }
-      });
+        broadcast = current;
+
+        const batch = await this.getDeliveryCollection()
+          .find({ broadcastId, status: 'pending' }, { projection: { _id: 0, userId: 1, locale: 1, attempts: 1 } })
+          .limit(rate)
+          .toArray() as BroadcastDelivery[];
 
-      await Promise.allSettled(promises);
-      if (batches.indexOf(batch) < batches.length - 1) {
-        await this.delay(this.BATCH_DELAY);
+        if (batch.length === 0) {
+          await this.complete(broadcast, startTime);
+          break;
+        }
+
+        const windowStart = Date.now();
+        const outcomes = await Promise.all(batch.map((delivery) => this.deliver(broadcast!, delivery)));
+        let backoffMs = 0;
+        const inc = { sentCount: 0, failedCount: 0, blockedCount: 0 };
+        outcomes.forEach((outcome, i) => {
+          if (outcome.status === 'sent') inc.sentCount++;
+          else if (outcome.status === 'blocked') inc.blockedCount++;
+          else if (outcome.status === 'failed') inc.failedCount++;
+          if (outcome.retryAfterMs) backoffMs = Math.max(backoffMs, outcome.retryAfterMs);
+          if (outcome.error && outcome.status !== 'pending') errors.push(`User ${batch[i].userId}: ${outcome.error}`);
+        });
+        successCount += inc.sentCount;
+        failureCount += inc.failedCount + inc.blockedCount;
+
+        await this.getCollection().updateOne(
+          { id: broadcastId },
+          { $inc: inc, $set: { leaseUntil: new Date(Date.now() + LEASE_MS).toISOString() } }
+        );
+
+        // Stay within the per-broadcast rate, and honour Telegram's retry_after
+        const wait = Math.max(1000 - (Date.now() - windowStart), backoffMs);
+        if (wait > 0) await this.delay(wait);
       }
+    } catch (error: any) {
+      this.logger.error(`❌ Error processing broadcast ${broadcastId}:`, error);
+      errors.push(error?.message || String(error));
+    } finally {
+      await this.getCollection().updateOne({ id: broadcastId }, { $unset: { leaseUntil: '' } });
     }
 
-    const duration = Date.now() - startTime;
-    
-    this.logger.info(`📊 Broadcast execution completed for ${broadcast.id}:`);
-    this.logger.info(`  ✅ Success: ${successCount}/${broadcast.targetUsers.length}`);
-    this.logger.info(`  ❌ Failed: ${failureCount}/${broadcast.targetUsers.length}`);
-    this.logger.info(`  ⏱️ Duration: ${duration}ms`);
-    
     if (errors.length > 0) {
-      this.logger.warn(`🚨 Errors encountered:`);
+      this.logger.warn(`🚨 Broadcast ${broadcastId}: ${errors.length} errors`);
       errors.slice(0, 5).forEach(error => this.logger.warn(`  - ${error}`));
-      if (errors.length > 5) {
-        this.logger.warn(`  ... and ${errors.length - 5} more errors`);
-      }
     }
-    
+
     return {
       success: failureCount === 0,
       successCount,
       failureCount,
-      duration,
-      errors: errors.length > 0 ? errors : undefined,
+      duration: Date.now() - startTime,
+      errors: errors.length > 0 ? errors.slice(0, 50) : undefined
     };
   }
 
-  private async sendBroadcastToUser(userId: string, broadcast: BroadcastMessage): Promise<void> {
-    if (!this.bot) {
-      this.logger.error('❌ Bot instance not available for sending message');
-      throw new Error('Bot instance not available');
+  /**
+   * Enqueue broadcasts that are due or whose worker stopped renewing its lease
+   */
+  private async sweep(): Promise<number> {
+    const now = new Date().toISOString();
+    const due = await this.getCollection()
+      .find({
+        $or: [
+          { status: { $in: ['scheduled', 'pending'] }, nextRunAt: { $lte: now } },
+          { status: 'processing', $or: [{ leaseUntil: { $exists: false } }, { leaseUntil: { $lte: now } }], nextRunAt: { $lte: now } }
+        ]
+      }, { projection: { _id: 0, id: 1 } })
+      .limit(50)
+      .toArray();
+
+    for (const row of due) {
+      // Push nextRunAt forward so other instances running the sweep skip it
+      const bumped = await this.getCollection().updateOne(
+        { id: row.id, nextRunAt: { $lte: now } },
+        { $set: { nextRunAt: new Date(Date.now() + LEASE_MS).toISOString() } }
+      );
+      if (bumped.modifiedCount > 0) await this.enqueue(row.id);
     }
+    return due.length;
+  }
 
-    if (!this.bot.telegram) {
-      this.logger.error('❌ Bot telegram instance not available');
-      throw new Error('Bot telegram instance not available');
+  private async resolveRecipients(broadcast: BroadcastMessage): Promise<void> {
+    const deliveries = this.getDeliveryCollection();
+    let pending: any[] = [];
+    const flush = async () => {
+      if (pending.length === 0) return;
+      const docs = pending;
+      pending = [];
+      try {
+        await deliveries.insertMany(docs, { ordered: false });
+      } catch (error: any) {
+        // Rows written by an interrupted earlier attempt already exist
+        if (error?.code !== 11000 && !error?.writeErrors) throw error;
+      }
+    };
+    // The locale is only needed to pick a translation, so plain broadcasts skip the lookup
+    const localized = !!broadcast.translations;
+    const i18n = LocalizationService.getInstance();
+    const row = (userId: string, locale?: string) => ({
+      broadcastId: broadcast.id,
+      userId,
+      ...(locale ? { locale } : {}),
+      status: 'pending',
+      attempts: 0,
+      updatedAt: new Date().toISOString()
+    });
+    const languageFields = localized ? { languageCode: 1, preferredLanguage: 1 } : {};
+
+    if (broadcast.targetType === 'specific') {
+      const userIds = [...new Set(broadcast.targetUsers.map(String))].filter(id => id && id !== 'undefined' && id !== 'null');
+      const locales = new Map<string, string>();
+      if (localized) {
+        const cursor = this.getRawCollection('users').find(
+          { $or: [{ telegramId: { $in: userIds } }, { id: { $in: userIds } }] },
+          { projection: { _id: 0, telegramId: 1, id: 1, ...languageFields } }
+        );
+        for await (const user of cursor) locales.set(String(user.telegramId || user.id), i18n.resolveUserLocale(user));
+      }
+      for (const userId of userIds) {
+        pending.push(row(userId, localized ? locales.get(userId) || i18n.defaultLocale : undefined));
+        if (pending.length >= INSERT_BATCH) await flush();
+      }
+    } else {
+      const cursor = this.getRawCollection('users').find(
+        this.audienceQuery(broadcast.targetType, broadcast.segment),
+        { projection: { _id: 0, telegramId: 1, id: 1, ...languageFields } }
+      );
+      for await (const user of cursor) {
+        const userId = String(user.telegramId || user.id || '');
+        if (!userId) continue;
+        pending.push(row(userId, localized ? i18n.resolveUserLocale(user) : undefined));
+        if (pending.length >= INSERT_BATCH) await flush();
+      }
     }
+    await flush();
 
-    this.logger.debug(`📤 Attempting to send ${broadcast.type} broadcast to user ${userId}`);
-    this.logger.debug(`🤖 Bot token available: ${!!process.env.BOT_TOKEN}`);
+    const targetCount = await deliveries.countDocuments({ broadcastId: broadcast.id });
+    await this.getCollection().updateOne({ id: broadcast.id }, { $set: { recipientsResolved: true, targetCount } });
+    broadcast.recipientsResolved = true;
+    broadcast.targetCount = targetCount;
+    this.logger.info(`📊 Broadcast ${broadcast.id} resolved ${targetCount} recipients`);
+  }
 
-    // Validate user ID
-    if (!userId || userId === 'undefined' || userId === 'null') {
-      this.logger.error(`❌ Invalid user ID: ${userId}`);
-      throw new Error(`Invalid user ID: ${userId}`);
+  private async deliver(broadcast: BroadcastMessage, delivery: BroadcastDelivery): Promise<{ status: DeliveryStatus; error?: string; retryAfterMs?: number }> {
+    const now = new Date().toISOString();
+    try {
+      const sent: any = await this.sendBroadcastToUser(delivery.userId, broadcast, delivery.locale);
+      await this.getDeliveryCollection().updateOne(
+        { broadcastId: broadcast.id, userId: delivery.userId, status: 'pending' },
+        { $set: { status: 'sent', sentAt: now, updatedAt: now, messageId: sent?.message_id }, $inc: { attempts: 1 } }
+      );
+      return { status: 'sent' };
+    } catch (error: any) {
+      const { kind, retryAfterMs } = classifyDeliveryError(error);
+      const message = String(error?.description || error?.message || 'Unknown error');
+
+      if (kind === 'rate_limited') {
+        // Leave it pending; the next window picks it up again
+        await this.getDeliveryCollection().updateOne(
+          { broadcastId: broadcast.id, userId: delivery.userId },
+          { $set: { error: message, updatedAt: now }, $inc: { attempts: 1 } }
+        );
+        return { status: 'pending', error: message, retryAfterMs };
+      }
+
+      const status: DeliveryStatus = kind === 'blocked' ? 'blocked' : 'failed';
+      await this.getDeliveryCollection().updateOne(
+        { broadcastId: broadcast.id, userId: delivery.userId, status: 'pending' },
+        { $set: { status, error: message, updatedAt: now }, $inc: { attempts: 1 } }
+      );
+      if (kind === 'blocked') await this.markBotBlocked(delivery.userId);
+      return { status, error: message };
     }
+  }
+
+  private async sendBroadcastToUser(userId: string, broadcast: BroadcastMessage, locale?: string): Promise<unknown> {
+    if (!this.bot?.telegram) throw new Error('Bot telegram instance not available');
+
+    const message = pickTranslation(broadcast.message, broadcast.translations, locale);
+    const reply_markup = buildInlineKeyboard(broadcast.buttons);
+    const media = { caption: message || '', parse_mode: 'HTML' as const, ...(reply_markup ? { reply_markup } : {}) };
 
     switch (broadcast.type) {
       case 'image':
-        if (!broadcast.mediaUrl) throw new Error('Image URL is required for image broadcast');
         try {
-          await this.bot.telegram.sendPhoto(userId, broadcast.mediaUrl, {
-            caption: broadcast.message || '',
-            parse_mode: 'HTML',
-          });
-          this.logger.debug(`Successfully sent photo broadcast to user ${userId}`);
+          return await this.bot.telegram.sendPhoto(userId, broadcast.mediaUrl!, media);
         } catch (photoError: any) {
-          this.logger.warn(`Failed to send as photo to user ${userId}: ${photoError.message}, trying as document`);
-          try {
-            await this.bot.telegram.sendDocument(userId, broadcast.mediaUrl, {
-              caption: broadcast.message || '',
-              parse_mode: 'HTML',
-            });
-            this.logger.debug(`Successfully sent document broadcast to user ${userId}`);
-          } catch (docError: any) {
-            this.logger.error(`Failed to send document to user ${userId}: ${docError.message}`);
-            // Auto-flag user as blocked if Telegram reports the bot was blocked
-            const msg = String(docError?.message || '');
-            if (/403/.test(msg) && /blocked by the user/i.test(msg)) {
-              try {
-                await this.storage.update('users', { isBlocked: true, blockedAt: new Date().toISOString(), blockedReason: 'telegram_bot_blocked' } as any, String(userId));
-                this.logger.info(`🚫 Marked user ${userId} as blocked due to Telegram 403`);
-              } catch (flagErr) {
-                this.logger.warn(`Failed to auto-flag user ${userId} as blocked: ${flagErr instanceof Error ? flagErr.message : flagErr}`);
-              }
-            }
-            throw docError;
-          }
+          // URLs Telegram refuses as photos (size, format) usually still go through as documents
+          if (classifyDeliveryError(photoError).kind !== 'failed') throw photoError;
+          this.logger.debug(`Failed to send as photo to user ${userId}: ${photoError.message}, trying as document`);
+          return await this.bot.telegram.sendDocument(userId, broadcast.mediaUrl!, media);
         }
-        break;
+      case 'video':
+        return await this.bot.telegram.sendVideo(userId, broadcast.mediaUrl!, media);
+      case 'animation':
+        return await this.bot.telegram.sendAnimation(userId, broadcast.mediaUrl!, media);
+      case 'document':
+        return await this.bot.telegram.sendDocument(userId, broadcast.mediaUrl!, media);
       case 'text':
       default:
-        try {
-          await this.bot.telegram.sendMessage(userId, broadcast.message, { parse_mode: 'HTML' });
-          this.logger.debug(`Successfully sent text broadcast to user ${userId}`);
-        } catch (textError: any) {
-          this.logger.error(`Failed to send text broadcast to user ${userId}: ${textError.message}`);
-          // Auto-flag user as blocked if Telegram reports the bot was blocked
-          const msg = String(textError?.message || '');
-          if (/403/.test(msg) && /blocked by the user/i.test(msg)) {
-            try {
-              await this.storage.update('users', { isBlocked: true, blockedAt: new Date().toISOString(), blockedReason: 'telegram_bot_blocked' } as any, String(userId));
-              this.logger.info(`🚫 Marked user ${userId} as blocked due to Telegram 403`);
-            } catch (flagErr) {
-              this.logger.warn(`Failed to auto-flag user ${userId} as blocked: ${flagErr instanceof Error ? flagErr.message : flagErr}`);
-            }
-          }
-          throw textError;
-        }
-        break;
+        return await this.bot.telegram.sendMessage(userId, message, {
+          parse_mode: 'HTML',
+          ...(reply_markup ? { reply_markup } : {})
+        });
     }
   }
 
-  private async saveBroadcastHistory(historyEntry: BroadcastHistoryEntry): Promise<void> {
+  /**
+   * Remember that the user blocked the bot so segments skip them. This is not
+   * a ban; BlockingMiddleware clears it when the user talks to the bot again.
+   */
+  private async markBotBlocked(userId: string): Promise<void> {
     try {
-      this.inMemoryHistory.push(historyEntry);
-      this.logger.debug('📊 Broadcast history updated: ' + historyEntry.id);
-    } catch (error) {
-      this.logger.error('❌ Failed to save broadcast history (in-memory):', error);
+      await this.getRawCollection('users').updateOne(
+        { $or: [{ telegramId: userId }, { id: userId }] },
+        { $set: { botBlocked: true, botBlockedAt: new Date().toISOString() } }
+      );
+      this.logger.info(`🚫 Marked user ${userId} as having blocked the bot`);
+    } catch (flagErr) {
+      this.logger.warn(`Failed to flag user ${userId} as bot-blocked: ${flagErr instanceof Error ? flagErr.message : flagErr}`);
     }
   }
 
-  async getBroadcastHistory(limit: number = 50): Promise<BroadcastHistoryEntry[]> {
-    try {
-      const arr = [...this.inMemoryHistory];
-      arr.sort((a, b) => new Date(b.sentAt).getTime() - new Date(a.sentAt).getTime());
-      return arr.slice(0, limit);
-    } catch (error) {
-      this.logger.error('❌ Failed to get broadcast history:', error);
-      return [];
-    }
+  private async complete(broadcast: BroadcastMessage, startTime: number): Promise<void> {
+    const sent = broadcast.sentCount || 0;
+    const failed = (broadcast.failedCount || 0) + (broadcast.blockedCount || 0);
+    const status: BroadcastStatus = sent === 0 && failed > 0 ? 'failed' : 'sent';
+    await this.transition(broadcast, status, { completedAt: new Date().toISOString() });
+    this.logger.info(`✅ Broadcast ${broadcast.id} ${status}: ${sent} sent, ${failed} failed in ${Date.now() - startTime}ms`);
   }
 
-  async getQueueStatus(): Promise<BroadcastMessage | null> {
-    try {
-      const msg = this.inMemoryQueue.find(m => m.status === 'pending') || null;
-      return msg;
-    } catch (error) {
-      this.logger.error('❌ Failed to get queue status:', error);
-      return null;
-    }
+  private audienceQuery(targetType: BroadcastTargetType, segment?: BroadcastSegment): Record<string, any> {
+    if (targetType === 'active') return buildSegmentQuery({ ...segment, activeDays: segment?.activeDays || ACTIVE_AUDIENCE_DAYS });
+    if (targetType === 'all') return buildSegmentQuery({});
+    return buildSegmentQuery(segment || {});
   }
 
-  async cancelBroadcast(broadcastId: string): Promise<boolean> {
-    try {
-      const idx = this.inMemoryQueue.findIndex(m => m.id === broadcastId);
-      if (idx === -1) return false;
-      if (this.inMemoryQueue[idx].status === 'processing') throw new Error('Cannot cancel broadcast that is currently being processed');
-      this.inMemoryQueue.splice(idx, 1);
-      this.logger.info('🗑️ Broadcast ' + broadcastId + ' cancelled');
-      return true;
-    } catch (error) {
-      this.logger.error('❌ Failed to cancel broadcast ' + broadcastId + ':', error);
-      throw error;
-    }
+  private toHistoryEntry(b: BroadcastMessage): BroadcastHistoryEntry {
+    const sent = b.sentCount || 0;
+    const failed = b.failedCount || 0;
+    const blocked = b.blockedCount || 0;
+    const target = b.targetCount ?? 0;
+    const end = b.completedAt ? new Date(b.completedAt).getTime() : Date.now();
+    return {
+      id: b.id,
+      type: b.type,
+      message: b.message,
+      mediaUrl: b.mediaUrl,
+      buttons: b.buttons,
+      locales: b.translations ? Object.keys(b.translations) : undefined,
+      targetType: b.targetType,
+      targetCount: target,
+      successCount: sent,
+      failureCount: failed + blocked,
+      blockedCount: blocked,
+      pendingCount: b.recipientsResolved ? Math.max(0, target - sent - failed - blocked) : target,
+      rateLimitPerSecond: this.clampRate(b.rateLimitPerSecond),
+      createdAt: b.createdAt,
+      scheduledAt: b.scheduledAt,
+      startedAt: b.startedAt,
+      sentAt: b.completedAt,
+      duration: b.startedAt ? Math.max(0, end - new Date(b.startedAt).getTime()) : 0,
+      status: b.status
+    };
+  }
+
+  /**
+   * Move a broadcast to a new state only if it is still in the state we loaded
+   */
+  private async transition(broadcast: BroadcastMessage, to: BroadcastStatus, set: Partial<BroadcastMessage> = {}, unset: Record<string, ''> = {}): Promise<boolean> {
+    const from = broadcast.status;
+    if (!canTransitionBroadcast(from, to)) return false;
+    const update: any = { $set: { ...set, status: to } };
+    if (Object.keys(unset).length > 0) update.$unset = unset;
+    const result = await this.getCollection().updateOne({ id: broadcast.id, status: from }, update);
+    if (result.modifiedCount === 0) return false;
+    Object.assign(broadcast, set, { status: to });
+    return true;
+  }
+
+  private async acquireLease(broadcastId: string): Promise<BroadcastMessage | null> {
+    const now = new Date();
+    const res = await this.getCollection().findOneAndUpdate(
+      {
+        id: broadcastId,
+        $and: [
+          {
+            $or: [
+              { status: { $in: ['pending', 'processing'] } },
+              { status: 'scheduled', scheduledAt: { $lte: now.toISOString() } }
+            ]
+          },
+          { $or: [{ leaseUntil: { $exists: false } }, { leaseUntil: { $lte: now.toISOString() } }] }
+        ]
+      },
+      { $set: { leaseUntil: new Date(now.getTime() + LEASE_MS).toISOString() } },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    const doc = (res as any)?.value !== undefined ? (res as any).value : res;
+    return (doc as BroadcastMessage) || null;
+  }
+
+  private async enqueue(broadcastId: string, delayMs: number = 0): Promise<void> {
+    await jobQueue.addJob(QUEUE_NAME, { type: JOB_TYPE, payload: { broadcastId }, priority: 5, delay: Math.max(0, delayMs) });
+  }
+
+  private clampRate(rate?: number): number {
+    const { defaultRatePerSecond, maxRatePerSecond } = this.config.broadcast;
+    const value = Number(rate) > 0 ? Number(rate) : defaultRatePerSecond;
+    return Math.max(1, Math.min(maxRatePerSecond, Math.floor(value)));
   }
 
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
+
+  private getCollection(): any {
+    return this.getRawCollection('broadcasts');
+  }
+
+  private getDeliveryCollection(): any {
+    return this.getRawCollection('broadcast_deliveries');
+  }
+
+  private getRawCollection(name: string): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
 }
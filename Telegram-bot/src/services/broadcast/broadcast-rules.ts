@@ -0,0 +1,200 @@
+import { UserFilter } from '../../types/user.types';
+
+export type BroadcastType = 'text' | 'image' | 'video' | 'animation' | 'document';
+
+export type BroadcastTargetType = 'all' | 'active' | 'specific' | 'segment';
+
+export type BroadcastStatus = 'scheduled' | 'pending' | 'processing' | 'paused' | 'sent' | 'failed' | 'cancelled';
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'blocked' | 'cancelled';
+
+/** Exactly one of `url` or `callbackData` */
+export interface BroadcastButton {
+  text: string;
+  url?: string;
+  callbackData?: string;
+}
+
+/**
+ * Audience filter. Mirrors the `UserFilter` fields that make sense for a
+ * broadcast, plus the options the admin composer already exposed.
+ */
+export interface BroadcastSegment extends Pick<UserFilter, 'verified' | 'premium' | 'hasWallet' | 'minPoints' | 'maxPoints' | 'lastActiveAfter' | 'lastActiveBefore'> {
+  /** ISO country codes or names; matches either */
+  country?: string[];
+  hasReferrals?: boolean;
+  /** Shorthand for lastActiveAfter = now - activeDays */
+  activeDays?: number;
+  /** Target users flagged as blocked (by an admin or because they blocked the bot) instead of excluding them */
+  includeBlocked?: boolean;
+  includeBanned?: boolean;
+}
+
+export interface BroadcastContent {
+  type: BroadcastType;
+  message: string;
+  mediaUrl?: string;
+  buttons?: BroadcastButton[][];
+}
+
+/** Broadcasts in these states can still send messages */
+export const OPEN_BROADCAST_STATES: BroadcastStatus[] = ['scheduled', 'pending', 'processing', 'paused'];
+
+/** `targetType: 'active'` means seen within this many days */
+export const ACTIVE_AUDIENCE_DAYS = 30;
+
+const TRANSITIONS: Record<BroadcastStatus, BroadcastStatus[]> = {
+  scheduled: ['pending', 'processing', 'paused', 'cancelled'],
+  pending: ['processing', 'paused', 'cancelled'],
+  processing: ['sent', 'failed', 'paused', 'cancelled'],
+  paused: ['pending', 'cancelled'],
+  sent: [],
+  failed: [],
+  cancelled: []
+};
+
+const TEXT_LIMIT = 4096;
+const CAPTION_LIMIT = 1024;
+const MAX_BUTTON_ROWS = 10;
+const MAX_BUTTONS_PER_ROW = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function canTransitionBroadcast(from: BroadcastStatus, to: BroadcastStatus): boolean {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Returns a human-readable reason when the content cannot be sent as-is
+ */
+export function validateBroadcastContent(content: BroadcastContent): string | null {
+  const message = String(content.message || '');
+  if (content.type === 'text') {
+    if (!message.trim()) return 'Message required';
+    if (message.length > TEXT_LIMIT) return `Message exceeds ${TEXT_LIMIT} characters`;
+  } else {
+    if (!content.mediaUrl?.trim()) return `mediaUrl required for ${content.type} broadcast`;
+    if (message.length > CAPTION_LIMIT) return `Caption exceeds ${CAPTION_LIMIT} characters`;
+  }
+
+  const rows = content.buttons || [];
+  if (rows.length > MAX_BUTTON_ROWS) return `At most ${MAX_BUTTON_ROWS} button rows are allowed`;
+  for (const row of rows) {
+    if (!Array.isArray(row) || row.length === 0 || row.length > MAX_BUTTONS_PER_ROW) {
+      return `Each button row needs 1-${MAX_BUTTONS_PER_ROW} buttons`;
+    }
+    for (const button of row) {
+      if (!button?.text?.trim()) return 'Every button needs a label';
+      if (!!button.url === !!button.callbackData) return `Button "${button.text}" needs either a URL or callback data`;
+      if (button.url && !/^(https?:\/\/|tg:\/\/)\S+$/i.test(button.url)) return `Button "${button.text}" has an invalid URL`;
+      // Telegram limits callback_data to 64 bytes
+      if (button.callbackData && Buffer.byteLength(button.callbackData, 'utf8') > 64) return `Button "${button.text}" callback data exceeds 64 bytes`;
+    }
+  }
+  return null;
+}
+
+export function buildInlineKeyboard(buttons?: BroadcastButton[][]): { inline_keyboard: any[][] } | undefined {
+  if (!buttons || buttons.length === 0) return undefined;
+  return {
+    inline_keyboard: buttons.map(row => row.map(button => (
+      button.url ? { text: button.text, url: button.url } : { text: button.text, callback_data: button.callbackData }
+    )))
+  };
+}
+
+/**
+ * Translate a segment into a `users` query. Blocked, banned and bot-blocked
+ * users are excluded unless the segment explicitly targets them.
+ */
+export function buildSegmentQuery(segment: BroadcastSegment = {}, now: number = Date.now()): Record<string, any> {
+  const and: Record<string, any>[] = [];
+
+  if (segment.includeBlocked || segment.includeBanned) {
+    const or: Record<string, any>[] = [];
+    if (segment.includeBlocked) or.push({ isBlocked: true }, { botBlocked: true });
+    if (segment.includeBanned) or.push({ isBanned: true });
+    and.push({ $or: or });
+  } else {
+    and.push({ isBlocked: { $ne: true } }, { isBanned: { $ne: true } }, { botBlocked: { $ne: true } });
+  }
+
+  if (segment.verified === true) and.push({ isVerified: true });
+  if (segment.premium === true) and.push({ isPremium: true });
+  if (segment.hasWallet === true) and.push({ walletAddress: { $exists: true, $nin: [null, ''] } });
+  if (segment.hasReferrals === true) and.push({ totalReferrals: { $gt: 0 } });
+
+  const points: Record<string, number> = {};
+  if (isFiniteNumber(segment.minPoints)) points.$gte = Number(segment.minPoints);
+  if (isFiniteNumber(segment.maxPoints)) points.$lte = Number(segment.maxPoints);
+  if (Object.keys(points).length > 0) and.push({ points });
+
+  const lastActive: Record<string, string> = {};
+  if (segment.activeDays && Number(segment.activeDays) > 0) {
+    lastActive.$gte = new Date(now - Number(segment.activeDays) * DAY_MS).toISOString();
+  }
+  const after = toIso(segment.lastActiveAfter);
+  if (after && (!lastActive.$gte || after > lastActive.$gte)) lastActive.$gte = after;
+  const before = toIso(segment.lastActiveBefore);
+  if (before) lastActive.$lte = before;
+  if (Object.keys(lastActive).length > 0) and.push({ lastActiveAt: lastActive });
+
+  const countries = (segment.country || []).map(c => String(c).trim()).filter(Boolean);
+  if (countries.length > 0) {
+    const codes = countries.map(c => c.toUpperCase());
+    and.push({
+      $or: [
+        { 'locationData.countryCode': { $in: codes } },
+        { 'locationData.country': { $in: countries } },
+        { country: { $in: countries } }
+      ]
+    });
+  }
+
+  return and.length === 1 ? and[0] : { $and: and };
+}
+
+/**
+ * Normalise the `segmentation` object posted by the admin composer
+ */
+export function parseBroadcastSegment(raw: any = {}): BroadcastSegment {
+  const segment: BroadcastSegment = {};
+  for (const key of ['verified', 'premium', 'hasWallet', 'hasReferrals', 'includeBlocked', 'includeBanned'] as const) {
+    if (raw?.[key] === true) segment[key] = true;
+  }
+  if (isFiniteNumber(raw?.minPoints)) segment.minPoints = Number(raw.minPoints);
+  if (isFiniteNumber(raw?.maxPoints)) segment.maxPoints = Number(raw.maxPoints);
+  if (Number(raw?.activeDays) > 0) segment.activeDays = Number(raw.activeDays);
+  if (toIso(raw?.lastActiveAfter)) segment.lastActiveAfter = toIso(raw.lastActiveAfter);
+  if (toIso(raw?.lastActiveBefore)) segment.lastActiveBefore = toIso(raw.lastActiveBefore);
+  const countries = Array.isArray(raw?.country) ? raw.country : String(raw?.country || '').split(',');
+  const cleaned = countries.map((c: any) => String(c).trim()).filter(Boolean);
+  if (cleaned.length > 0) segment.country = cleaned;
+  return segment;
+}
+
+/**
+ * `blocked`: the user blocked the bot or deleted their account; never retry.
+ * `rate_limited`: Telegram asked us to back off; retry the same recipient.
+ */
+export function classifyDeliveryError(error: any): { kind: 'blocked' | 'rate_limited' | 'failed'; retryAfterMs?: number } {
+  const code = Number(error?.code ?? error?.response?.error_code);
+  const description = String(error?.description ?? error?.response?.description ?? error?.message ?? '');
+  if (code === 429 || /too many requests/i.test(description)) {
+    const retryAfter = Number(error?.parameters?.retry_after ?? error?.response?.parameters?.retry_after ?? 1);
+    return { kind: 'rate_limited', retryAfterMs: Math.max(1, retryAfter) * 1000 };
+  }
+  if (code === 403 || /bot was blocked by the user|user is deactivated|bot can't initiate conversation/i.test(description)) {
+    return { kind: 'blocked' };
+  }
+  return { kind: 'failed' };
+}
+
+function toIso(value?: string): string | undefined {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+}
+
+function isFiniteNumber(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(Number(value));
+}
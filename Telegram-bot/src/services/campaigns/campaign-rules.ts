@@ -0,0 +1,175 @@
+import { Campaign, CampaignFunnel, CampaignLock, CampaignState, CampaignStep } from '../../types/campaign.types';
+
+/**
+ * Quest campaigns group existing tasks into steps. Steps open in order unless
+ * marked `start`, which makes them available alongside the first one. A step
+ * only counts as done once it is open, so tasks finished out of order do not
+ * skip the chain.
+ */
+
+export const MAX_CAMPAIGN_STEPS = 10;
+export const MAX_STEP_TASKS = 10;
+export const MAX_CAMPAIGN_TITLE_LENGTH = 100;
+export const MAX_CAMPAIGN_DESCRIPTION_LENGTH = 1000;
+export const MAX_CAMPAIGN_BONUS = 1_000_000;
+
+const STEP_ID_PATTERN = /^[A-Za-z0-9_-]{1,40}$/;
+
+export type CampaignInput = Pick<Campaign, 'title' | 'description' | 'steps' | 'bonusPoints' | 'startsAt' | 'endsAt' | 'isActive' | 'order'>;
+
+export interface CampaignStepEvaluation {
+  step: CampaignStep;
+  unlocked: boolean;
+  completed: boolean;
+  /** Tasks done towards the step; an `any` step counts as a single task */
+  done: number;
+  total: number;
+}
+
+export interface CampaignEvaluation {
+  steps: CampaignStepEvaluation[];
+  completedSteps: number;
+  totalSteps: number;
+  completed: boolean;
+}
+
+export function campaignState(campaign: Pick<Campaign, 'isActive' | 'startsAt' | 'endsAt'>, now: Date = new Date()): CampaignState {
+  if (!campaign.isActive) return 'inactive';
+  if (campaign.startsAt && now < new Date(campaign.startsAt)) return 'scheduled';
+  if (campaign.endsAt && now >= new Date(campaign.endsAt)) return 'ended';
+  return 'running';
+}
+
+/** Work out which steps are open and done for a user who has finished `doneTaskIds` */
+export function evaluateCampaign(campaign: Pick<Campaign, 'steps'>, doneTaskIds: Set<string>): CampaignEvaluation {
+  const steps: CampaignStepEvaluation[] = [];
+  let allPreviousDone = true;
+
+  for (const step of campaign.steps) {
+    const count = step.taskIds.filter(id => doneTaskIds.has(id)).length;
+    const total = step.mode === 'any' ? 1 : step.taskIds.length;
+    const done = Math.min(count, total);
+    const unlocked = step.unlock === 'start' || allPreviousDone;
+    const completed = unlocked && done >= total;
+    steps.push({ step, unlocked, completed, done, total });
+    if (!completed) allPreviousDone = false;
+  }
+
+  const completedSteps = steps.filter(s => s.completed).length;
+  return { steps, completedSteps, totalSteps: steps.length, completed: steps.length > 0 && completedSteps === steps.length };
+}
+
+/**
+ * Tasks the user cannot start yet, with the step they wait on. Only tasks
+ * that are not already done are listed.
+ */
+export function lockedCampaignTasks(campaign: Pick<Campaign, 'title'>, evaluation: CampaignEvaluation, doneTaskIds: Set<string>): Map<string, CampaignLock> {
+  const locked = new Map<string, CampaignLock>();
+  evaluation.steps.forEach((entry, index) => {
+    if (entry.unlocked) return;
+    // A locked step always has an unfinished step before it
+    const blocker = evaluation.steps.slice(0, index).find(s => !s.completed);
+    const lock: CampaignLock = { campaign: campaign.title, step: blocker?.step.title || '' };
+    for (const taskId of entry.step.taskIds) {
+      if (!doneTaskIds.has(taskId)) locked.set(taskId, lock);
+    }
+  });
+  return locked;
+}
+
+export function progressBar(done: number, total: number, width = 10): string {
+  const filled = total > 0 ? Math.round((Math.min(done, total) / total) * width) : 0;
+  return '▰'.repeat(filled) + '▱'.repeat(width - filled);
+}
+
+/**
+ * Per-step funnel. Drop-off is measured against the stage before the step:
+ * the started users for the first step, the previous step otherwise.
+ */
+export function buildCampaignFunnel(
+  campaign: Pick<Campaign, 'id' | 'steps'>,
+  started: number,
+  stepCounts: Record<string, number>,
+  completed: number
+): CampaignFunnel {
+  let previous = started;
+  const steps = campaign.steps.map(step => {
+    const count = stepCounts[step.id] || 0;
+    const row = {
+      stepId: step.id,
+      title: step.title,
+      completed: count,
+      dropOff: Math.max(0, previous - count),
+      conversion: started > 0 ? count / started : 0
+    };
+    previous = count;
+    return row;
+  });
+  return { campaignId: campaign.id, started, completed, steps };
+}
+
+function parseDate(value: unknown): { ok: boolean; iso?: string } {
+  if (value === undefined || value === null || value === '') return { ok: true };
+  const date = new Date(value as any);
+  return isNaN(date.getTime()) ? { ok: false } : { ok: true, iso: date.toISOString() };
+}
+
+export function parseCampaignInput(body: any, knownTaskIds: Set<string>): { value?: CampaignInput; error?: string } {
+  const title = String(body?.title ?? '').trim();
+  if (!title || title.length > MAX_CAMPAIGN_TITLE_LENGTH) return { error: `title is required (max ${MAX_CAMPAIGN_TITLE_LENGTH} characters)` };
+  const description = String(body?.description ?? '').trim();
+  if (description.length > MAX_CAMPAIGN_DESCRIPTION_LENGTH) return { error: `description is limited to ${MAX_CAMPAIGN_DESCRIPTION_LENGTH} characters` };
+
+  const bonusPoints = Number(body?.bonusPoints ?? 0);
+  if (!Number.isInteger(bonusPoints) || bonusPoints < 0 || bonusPoints > MAX_CAMPAIGN_BONUS) return { error: `bonusPoints must be a whole number from 0 to ${MAX_CAMPAIGN_BONUS}` };
+
+  const startsAt = parseDate(body?.startsAt);
+  const endsAt = parseDate(body?.endsAt);
+  if (!startsAt.ok || !endsAt.ok) return { error: 'startsAt and endsAt must be dates' };
+  if (startsAt.iso && endsAt.iso && endsAt.iso <= startsAt.iso) return { error: 'endsAt must be after startsAt' };
+
+  const rawSteps = body?.steps;
+  if (!Array.isArray(rawSteps) || rawSteps.length === 0 || rawSteps.length > MAX_CAMPAIGN_STEPS) return { error: `A campaign needs 1 to ${MAX_CAMPAIGN_STEPS} steps` };
+
+  const steps: CampaignStep[] = [];
+  const stepIds = new Set<string>();
+  const usedTasks = new Set<string>();
+  for (let index = 0; index < rawSteps.length; index++) {
+    const raw = rawSteps[index];
+    const label = `Step ${index + 1}`;
+    const stepTitle = String(raw?.title ?? '').trim();
+    if (!stepTitle || stepTitle.length > MAX_CAMPAIGN_TITLE_LENGTH) return { error: `${label} needs a title (max ${MAX_CAMPAIGN_TITLE_LENGTH} characters)` };
+
+    const id = typeof raw?.id === 'string' && STEP_ID_PATTERN.test(raw.id) ? raw.id : `step_${index + 1}`;
+    if (stepIds.has(id)) return { error: `${label} reuses step id ${id}` };
+    stepIds.add(id);
+
+    const taskIds = Array.isArray(raw?.taskIds) ? [...new Set(raw.taskIds.map((t: unknown) => String(t)))] as string[] : [];
+    if (taskIds.length === 0 || taskIds.length > MAX_STEP_TASKS) return { error: `${label} needs 1 to ${MAX_STEP_TASKS} tasks` };
+    const unknown = taskIds.find(t => !knownTaskIds.has(t));
+    if (unknown) return { error: `${label} refers to unknown task ${unknown}` };
+    const repeated = taskIds.find(t => usedTasks.has(t));
+    if (repeated) return { error: `Task ${repeated} is used in more than one step` };
+    taskIds.forEach(t => usedTasks.add(t));
+
+    const mode = raw?.mode === undefined ? 'all' : raw.mode;
+    if (mode !== 'all' && mode !== 'any') return { error: `${label} mode must be all or any` };
+    const unlock = raw?.unlock === undefined ? 'previous' : raw.unlock;
+    if (unlock !== 'previous' && unlock !== 'start') return { error: `${label} unlock must be previous or start` };
+
+    steps.push({ id, title: stepTitle, taskIds, mode, unlock });
+  }
+
+  return {
+    value: {
+      title,
+      description,
+      steps,
+      bonusPoints,
+      startsAt: startsAt.iso,
+      endsAt: endsAt.iso,
+      isActive: body?.isActive !== false,
+      order: Number.isFinite(Number(body?.order)) ? Number(body.order) : 0
+    }
+  };
+}
@@ -0,0 +1,337 @@
+import { Logger } from '../logger';
+import { nanoid } from '../id';
+import { StorageManager } from '../../storage';
+import { getTaskCompletionKey } from '../task-submission.service';
+import { PointsService, PointEarningCategory } from '../../shared';
+import { AdminIdentity } from '../admin/admin-permission.service';
+import { Task } from '../../types/task.types';
+import { Campaign, CampaignFunnel, CampaignLock, CampaignProgress, CampaignState } from '../../types/campaign.types';
+import {
+  CampaignEvaluation,
+  buildCampaignFunnel,
+  campaignState,
+  evaluateCampaign,
+  lockedCampaignTasks,
+  parseCampaignInput
+} from './campaign-rules';
+
+/** Campaign definitions are read on every task list render */
+const CACHE_TTL_MS = 60 * 1000;
+
+export interface CampaignResult {
+  success: boolean;
+  error?: 'invalid' | 'not_found';
+  message?: string;
+  campaign?: Campaign;
+}
+
+export type CampaignView = Campaign & { state: CampaignState };
+
+export interface UserCampaignView {
+  campaign: Campaign;
+  evaluation: CampaignEvaluation;
+  doneTaskIds: Set<string>;
+  completedAt?: string;
+}
+
+/**
+ * Quest campaigns on top of tasks. Progress is recorded per user when a task
+ * that belongs to a running campaign is completed; the completion bonus is
+ * posted to the ledger with a per-campaign idempotency key, so it is paid once
+ * even if two completions race.
+ */
+export class CampaignService {
+  private static instance: CampaignService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private botInstance: any = null;
+  private cache: { campaigns: Campaign[]; fetchedAt: number } | null = null;
+
+  private constructor() {}
+
+  static getInstance(): CampaignService {
+    if (!CampaignService.instance) {
+      CampaignService.instance = new CampaignService();
+    }
+    return CampaignService.instance;
+  }
+
+  setBotInstance(bot: any): void {
+    this.botInstance = bot;
+  }
+
+  async getCampaigns(fresh = false): Promise<Campaign[]> {
+    if (!fresh && this.cache && Date.now() - this.cache.fetchedAt < CACHE_TTL_MS) return this.cache.campaigns;
+    try {
+      const campaigns: Campaign[] = await this.getCollection()
+        .find({}, { projection: { _id: 0 } })
+        .sort({ order: 1, createdAt: 1 })
+        .toArray();
+      this.cache = { campaigns, fetchedAt: Date.now() };
+      return campaigns;
+    } catch (error) {
+      this.logger.error('Failed to load campaigns', { error: (error as any)?.message || String(error) });
+      return this.cache?.campaigns || [];
+    }
+  }
+
+  async getRunningCampaigns(now: Date = new Date()): Promise<Campaign[]> {
+    return (await this.getCampaigns()).filter(c => campaignState(c, now) === 'running');
+  }
+
+  /** Running campaigns with the user's progress, for the task list */
+  async getUserCampaigns(user: any): Promise<UserCampaignView[]> {
+    const campaigns = await this.getRunningCampaigns();
+    if (campaigns.length === 0) return [];
+
+    const [tasks, progress] = await Promise.all([
+      this.storage.getAllTasks(),
+      this.getProgress(String(user.telegramId || user.id), campaigns.map(c => c.id))
+    ]);
+    return campaigns.map(campaign => {
+      const entry = progress.get(campaign.id);
+      const doneTaskIds = this.doneTaskIds(campaign, user, tasks, entry);
+      return { campaign, evaluation: evaluateCampaign(campaign, doneTaskIds), doneTaskIds, completedAt: entry?.completedAt };
+    });
+  }
+
+  /**
+   * Tasks waiting on an earlier campaign step, with that step. A task is only
+   * locked when every running campaign it belongs to still has it locked.
+   */
+  lockedTasks(views: UserCampaignView[]): Map<string, CampaignLock> {
+    const locked = new Map<string, CampaignLock>();
+    const open = new Set<string>();
+    for (const view of views) {
+      const campaignLocked = lockedCampaignTasks(view.campaign, view.evaluation, view.doneTaskIds);
+      for (const step of view.campaign.steps) {
+        for (const taskId of step.taskIds) {
+          const reason = campaignLocked.get(taskId);
+          if (reason) {
+            if (!locked.has(taskId)) locked.set(taskId, reason);
+          } else {
+            open.add(taskId);
+          }
+        }
+      }
+    }
+    open.forEach(taskId => locked.delete(taskId));
+    return locked;
+  }
+
+  /**
+   * Record a completed task against the running campaigns it belongs to and
+   * pay the bonus for campaigns it finishes.
+   */
+  async onTaskCompleted(userId: string, task: Task): Promise<void> {
+    const now = new Date();
+    const campaigns = (await this.getRunningCampaigns(now)).filter(c => c.steps.some(s => s.taskIds.includes(task.id)));
+    if (campaigns.length === 0) return;
+
+    const [user, tasks] = await Promise.all([this.storage.getUser(userId), this.storage.getAllTasks()]);
+    for (const campaign of campaigns) {
+      try {
+        const res = await this.getCollection('campaign_progress').findOneAndUpdate(
+          { campaignId: campaign.id, userId },
+          {
+            $addToSet: { taskIds: task.id },
+            $set: { updatedAt: now.toISOString() },
+            $setOnInsert: { completedSteps: [], startedAt: now.toISOString() }
+          },
+          { upsert: true, returnDocument: 'after', projection: { _id: 0 } }
+        );
+        const progress = ((res as any)?.value !== undefined ? (res as any).value : res) as CampaignProgress | null;
+        if (!progress || progress.completedAt) continue;
+
+        const evaluation = evaluateCampaign(campaign, this.doneTaskIds(campaign, user, tasks, progress));
+        const completedSteps = evaluation.steps.filter(s => s.completed).map(s => s.step.id);
+        if (completedSteps.length > 0) {
+          await this.getCollection('campaign_progress').updateOne(
+            { campaignId: campaign.id, userId },
+            { $addToSet: { completedSteps: { $each: completedSteps } } }
+          );
+        }
+        if (evaluation.completed) await this.complete(campaign, userId);
+      } catch (error) {
+        this.logger.error('Failed to record campaign progress', { campaignId: campaign.id, userId, taskId: task.id, error: (error as any)?.message || String(error) });
+      }
+    }
+  }
+
+  async list(): Promise<CampaignView[]> {
+    const now = new Date();
+    return (await this.getCampaigns(true)).map(c => ({ ...c, state: campaignState(c, now) }));
+  }
+
+  async create(body: unknown, admin: AdminIdentity | undefined, ipAddress?: string): Promise<CampaignResult> {
+    const { value, error } = parseCampaignInput(body, await this.knownTaskIds());
+    if (!value) return { success: false, error: 'invalid', message: error };
+
+    const now = new Date().toISOString();
+    const adminName = admin?.username || 'admin';
+    const campaign: Campaign = { id: `cmp_${nanoid()}`, ...value, createdBy: adminName, createdAt: now, updatedAt: now };
+    await this.getCollection().insertOne({ ...campaign });
+    this.cache = null;
+    await this.audit('create', campaign, admin, ipAddress, `${adminName} created campaign "${campaign.title}"`);
+    return { success: true, campaign };
+  }
+
+  /**
+   * Replace a campaign's definition. Recorded progress is kept; steps that
+   * were removed simply stop counting.
+   */
+  async update(id: string, body: unknown, admin: AdminIdentity | undefined, ipAddress?: string): Promise<CampaignResult> {
+    const { value, error } = parseCampaignInput(body, await this.knownTaskIds());
+    if (!value) return { success: false, error: 'invalid', message: error };
+
+    const set: any = { ...value, updatedAt: new Date().toISOString() };
+    const unset: any = {};
+    if (!value.startsAt) { delete set.startsAt; unset.startsAt = ''; }
+    if (!value.endsAt) { delete set.endsAt; unset.endsAt = ''; }
+    const res = await this.getCollection().findOneAndUpdate(
+      { id },
+      { $set: set, ...(Object.keys(unset).length ? { $unset: unset } : {}) },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    const campaign = ((res as any)?.value !== undefined ? (res as any).value : res) as Campaign | null;
+    if (!campaign) return { success: false, error: 'not_found' };
+
+    this.cache = null;
+    const adminName = admin?.username || 'admin';
+    await this.audit('update', campaign, admin, ipAddress, `${adminName} updated campaign "${campaign.title}"`);
+    return { success: true, campaign };
+  }
+
+  async remove(id: string, admin: AdminIdentity | undefined, ipAddress?: string): Promise<CampaignResult> {
+    const res = await this.getCollection().findOneAndDelete({ id }, { projection: { _id: 0 } });
+    const campaign = ((res as any)?.value !== undefined ? (res as any).value : res) as Campaign | null;
+    if (!campaign) return { success: false, error: 'not_found' };
+
+    this.cache = null;
+    const adminName = admin?.username || 'admin';
+    await this.audit('delete', campaign, admin, ipAddress, `${adminName} deleted campaign "${campaign.title}"`);
+    return { success: true, campaign };
+  }
+
+  async getFunnel(id: string): Promise<CampaignFunnel | null> {
+    const campaign: Campaign | null = await this.getCollection().findOne({ id }, { projection: { _id: 0 } });
+    if (!campaign) return null;
+
+    const progress = this.getCollection('campaign_progress');
+    const [started, completed, rows] = await Promise.all([
+      progress.countDocuments({ campaignId: id }),
+      progress.countDocuments({ campaignId: id, completedAt: { $exists: true } }),
+      progress.aggregate([
+        { $match: { campaignId: id } },
+        { $unwind: '$completedSteps' },
+        { $group: { _id: '$completedSteps', count: { $sum: 1 } } }
+      ]).toArray()
+    ]);
+    const stepCounts: Record<string, number> = {};
+    for (const row of rows as Array<{ _id: string; count: number }>) stepCounts[row._id] = row.count;
+    return buildCampaignFunnel(campaign, started, stepCounts, completed);
+  }
+
+  private async complete(campaign: Campaign, userId: string): Promise<void> {
+    let transactionId: string | undefined;
+    let duplicate = false;
+    if (campaign.bonusPoints > 0) {
+      const award = await PointsService.awardPoints(
+        userId,
+        campaign.bonusPoints,
+        `Campaign completed: ${campaign.title}`,
+        PointEarningCategory.BONUS,
+        { campaignId: campaign.id },
+        { idempotencyKey: `campaign:${campaign.id}:${userId}` }
+      );
+      if (!award.success) {
+        // Left incomplete so the next completed task retries the bonus
+        this.logger.error('Failed to award campaign bonus', { campaignId: campaign.id, userId, error: award.error });
+        return;
+      }
+      transactionId = award.transaction?.id;
+      duplicate = award.duplicate === true;
+    }
+
+    const result = await this.getCollection('campaign_progress').updateOne(
+      { campaignId: campaign.id, userId, completedAt: { $exists: false } },
+      { $set: { completedAt: new Date().toISOString(), ...(transactionId ? { bonusTransactionId: transactionId } : {}) } }
+    );
+    if (result.modifiedCount === 0 || duplicate) return;
+
+    this.logger.info('🏁 Campaign completed', { campaignId: campaign.id, userId, bonus: campaign.bonusPoints });
+    await this.notifyUser(userId, campaign);
+  }
+
+  /**
+   * Tasks that count towards the campaign: those completed while it ran, plus
+   * one-off tasks the user had already completed before.
+   */
+  private doneTaskIds(campaign: Campaign, user: any, tasks: Task[], progress?: CampaignProgress | null): Set<string> {
+    const done = new Set<string>(progress?.taskIds || []);
+    const completion: Record<string, string> = user?.taskCompletionStatus || {};
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    for (const step of campaign.steps) {
+      for (const taskId of step.taskIds) {
+        const task = byId.get(taskId);
+        if (task && !task.isDaily && (completion[taskId] === 'Completed' || completion[getTaskCompletionKey(task)] === 'Completed')) {
+          done.add(taskId);
+        }
+      }
+    }
+    return done;
+  }
+
+  private async getProgress(userId: string, campaignIds: string[]): Promise<Map<string, CampaignProgress>> {
+    const map = new Map<string, CampaignProgress>();
+    try {
+      const rows: CampaignProgress[] = await this.getCollection('campaign_progress')
+        .find({ userId, campaignId: { $in: campaignIds } }, { projection: { _id: 0 } })
+        .toArray();
+      rows.forEach(row => map.set(row.campaignId, row));
+    } catch (error) {
+      this.logger.error('Failed to load campaign progress', { userId, error: (error as any)?.message || String(error) });
+    }
+    return map;
+  }
+
+  private async knownTaskIds(): Promise<Set<string>> {
+    return new Set((await this.storage.getAllTasks()).map(t => t.id));
+  }
+
+  private async notifyUser(userId: string, campaign: Campaign): Promise<void> {
+    if (!this.botInstance) return;
+    const bonus = campaign.bonusPoints > 0 ? `\n\n💰 <b>Bonus:</b> +${campaign.bonusPoints.toLocaleString()} points` : '';
+    try {
+      await this.botInstance.telegram.sendMessage(userId, `🏁 <b>Campaign complete: ${this.escapeHtml(campaign.title)}</b>${bonus}`, { parse_mode: 'HTML' });
+    } catch (error) {
+      this.logger.debug('Could not notify campaign completion', { userId, error: (error as any)?.message || String(error) });
+    }
+  }
+
+  private async audit(action: string, campaign: Campaign, admin: AdminIdentity | undefined, ipAddress: string | undefined, description: string): Promise<void> {
+    await this.storage.saveSecurityAuditLog({
+      id: `sec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      type: 'campaign',
+      severity: 'low',
+      action,
+      adminId: admin?.id || null,
+      username: admin?.username || 'admin',
+      role: admin?.role || null,
+      description,
+      details: { campaignId: campaign.id, steps: campaign.steps.length, bonusPoints: campaign.bonusPoints, isActive: campaign.isActive },
+      timestamp: new Date(),
+      ipAddress: ipAddress || null
+    });
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private getCollection(name = 'campaigns'): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') throw new Error('MongoStorage raw collection access not available');
+    return base.getRawCollection(name);
+  }
+}
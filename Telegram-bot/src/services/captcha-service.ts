@@ -2,6 +2,7 @@ import { uuidv4 } from './uuid';
 import crypto from 'crypto';
 import { Logger } from './logger';
 import { StorageManager } from '../storage';
+import { getConfig } from '../config';
 import { DeviceFingerprintService } from '../security/device-fingerprint.service';
 import { ThreatAnalyzer } from '../security/threat-analyzer.service';
 import { SecurityManager } from '../security';
@@ -1649,11 +1650,15 @@ export class CaptchaService {
       // Check for hardware specification matches
       const hardwareCollisions = await this.detectHardwareCollisions(user.telegramId, user.enhancedDeviceData, ipAddress);
 
+      // Check for near-duplicate devices through the similarity index
+      const similarCollisions = await this.detectSimilarDeviceCollisions(user.telegramId, user.enhancedDeviceData, ipAddress);
+
       // Combine all collisions
       const allCollisions = [
         ...exactCollisions,
         ...canvasCollisions,
-        ...hardwareCollisions
+        ...hardwareCollisions,
+        ...similarCollisions
       ];
 
       // Remove duplicates based on conflicting user IDs
@@ -1863,20 +1868,39 @@ export class CaptchaService {
   }
 
   /**
-   * Get all users with enhanced device data
-   * OPTIMIZATION: Only get recent users (last 30 days) instead of ALL
+   * Detect near-duplicate devices of any age through the LSH similarity
+   * index. The user's device data is indexed first so later registrations
+   * are compared against it.
    */
-  private async getAllUsersWithDeviceData(): Promise<any[]> {
+  private async detectSimilarDeviceCollisions(userId: string, deviceData: any, ipAddress: string): Promise<any[]> {
     try {
-      // Only check users from last 30 days for better performance
-      const recentUsers = await this.storage.getUsersRegisteredRecently(30 * 24 * 60 * 60 * 1000);
-      return recentUsers.filter(user => user.enhancedDeviceData).map(user => ({
-        userId: user.telegramId || user.userId,
-        enhancedDeviceData: user.enhancedDeviceData,
-        joinedAt: user.joinedAt || user.createdAt
-      }));
+      await this.storage.indexDeviceSimilarity(userId, deviceData);
+      const threshold = getConfig().security.deviceCollisionThreshold;
+      const matches = await this.storage.findSimilarDeviceFingerprints(deviceData, threshold, { excludeUserId: userId, limit: 10 });
+      if (matches.length === 0) return [];
+      const allUserIds = [userId, ...matches.map(m => m.userId)];
+      const originalUserId = await this.findOriginalUser(allUserIds);
+      const violatingUserIds = allUserIds.filter(id => id !== originalUserId);
+      return [
+        {
+          deviceHash: `similar_${matches[0].fingerprintHash}`,
+          deviceFingerprint: matches[0].fingerprintHash,
+          conflictingUserIds: allUserIds,
+          originalUserId,
+          violatingUserIds,
+          collisionType: 'similar_device',
+          confidence: matches[0].similarity,
+          detectedAt: new Date(),
+          evidence: {
+            identicalComponents: Object.entries(matches[0].components).filter(([, score]) => score === 1).map(([component]) => component),
+            similarity: matches.map(m => ({ userId: m.userId, similarity: m.similarity, components: m.components })),
+            ipAddress,
+            userAgent: deviceData.browser?.userAgent
+          }
+        }
+      ];
     } catch (error) {
-      this.logger.error('Error getting all users with device data:', error);
+      this.logger.error('Error detecting similar device collisions', { error: (error as any)?.message || String(error), userId });
       return [];
     }
   }
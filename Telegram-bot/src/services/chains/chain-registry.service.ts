@@ -0,0 +1,343 @@
+import { ethers } from 'ethers';
+import { Logger } from '../logger';
+import { nanoid } from '../id';
+import { StorageManager } from '../../storage';
+import { getConfig } from '../../config';
+import { NetworkConfig, TokenInfo } from '../../types/wallet.types';
+import { KNOWN_CHAINS, capDay, fitsDailyCap, normalizeNetwork, normalizeToken, walletConnectChain } from './chain-rules';
+
+/** A token and the network it is paid out on */
+export interface PayoutTarget {
+  network: NetworkConfig;
+  token: TokenInfo;
+}
+
+export interface RegistryResult<T> {
+  success: boolean;
+  data?: T;
+  error?: 'invalid' | 'not_found' | 'built_in' | 'in_use' | 'mismatch';
+  message?: string;
+}
+
+/** Stored networks and tokens are re-read this often, so edits reach every replica */
+const CACHE_TTL_MS = 30_000;
+const CONTRACT_READ_TIMEOUT_MS = 10_000;
+const BUILT_IN_TOKEN_ID = 'default';
+
+/**
+ * Networks and tokens rewards can be paid out in.
+ *
+ * The primary network and token are the ones in the Blockchain settings
+ * (CHAIN_ID, RPC_URL, TOKEN_CONTRACT_ADDRESS, ...) and are always listed
+ * first; admins add further EVM networks and tokens from the panel, kept in
+ * `payout_networks` and `payout_tokens`. Every withdrawal and airdrop
+ * snapshot records the chain and token it pays, and providers, explorer
+ * links and WalletConnect chains are derived from that network.
+ *
+ * Daily payout caps are counted per chain and UTC day in
+ * `payout_daily_totals`; a withdrawal reserves its amount when it is
+ * requested and gives it back if it is refunded.
+ */
+export class ChainRegistryService {
+  private static instance: ChainRegistryService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
+  private cache: { networks: NetworkConfig[]; tokens: TokenInfo[]; loadedAt: number } | null = null;
+  private readonly providers = new Map<string, ethers.providers.JsonRpcProvider>();
+
+  private constructor() {}
+
+  static getInstance(): ChainRegistryService {
+    if (!ChainRegistryService.instance) {
+      ChainRegistryService.instance = new ChainRegistryService();
+    }
+    return ChainRegistryService.instance;
+  }
+
+  /** The network from the Blockchain settings */
+  getPrimaryNetwork(): NetworkConfig {
+    const wallet = this.config.wallet;
+    const known = KNOWN_CHAINS[wallet.chainId];
+    const symbol = known?.currency || 'ETH';
+    return {
+      chainId: wallet.chainId,
+      name: known?.name || `Chain ${wallet.chainId}`,
+      rpcUrl: wallet.rpcUrl,
+      explorerUrl: (wallet.explorerUrl || '').replace(/\/+$/, ''),
+      nativeCurrency: { name: symbol, symbol, decimals: 18 },
+      blockTime: known?.blockTime || 12,
+      confirmations: wallet.confirmationsToWait || 1,
+      walletConnectChainReference: walletConnectChain(wallet.chainId),
+      isTestnet: !!known?.isTestnet,
+      enabled: true,
+      dailyPayoutCapTokens: wallet.payouts.dailyCapTokens || 0,
+      disperseContractAddress: wallet.payouts.disperseContractAddress || undefined,
+      builtIn: true,
+    };
+  }
+
+  /** The token from the Blockchain settings */
+  getPrimaryToken(): TokenInfo {
+    const wallet = this.config.wallet;
+    return {
+      id: BUILT_IN_TOKEN_ID,
+      address: (wallet.tokenContractAddress || '').toLowerCase(),
+      name: wallet.tokenSymbol,
+      symbol: wallet.tokenSymbol,
+      decimals: wallet.tokenDecimals,
+      chainId: wallet.chainId,
+      verified: false,
+      enabled: true,
+      claimContractAddress: wallet.claimContractAddress ? wallet.claimContractAddress.toLowerCase() : undefined,
+      builtIn: true,
+    };
+  }
+
+  /** Primary network first, then the registry's; a stored network on the primary chain is shadowed */
+  async listNetworks(): Promise<NetworkConfig[]> {
+    const primary = this.getPrimaryNetwork();
+    const { networks } = await this.load();
+    return [primary, ...networks.filter(n => n.chainId !== primary.chainId)];
+  }
+
+  async getNetwork(chainId: number): Promise<NetworkConfig | null> {
+    return (await this.listNetworks()).find(n => n.chainId === Number(chainId)) || null;
+  }
+
+  async listTokens(): Promise<TokenInfo[]> {
+    const { tokens } = await this.load();
+    return [this.getPrimaryToken(), ...tokens];
+  }
+
+  async getToken(id: string): Promise<TokenInfo | null> {
+    return (await this.listTokens()).find(t => t.id === id) || null;
+  }
+
+  /**
+   * Enabled tokens on enabled networks that can pay out in `mode`: claims
+   * need a claim contract, server transfers a token contract. With
+   * `chainIds` only tokens on those chains are returned.
+   */
+  async getPayoutTargets(options: { mode?: 'claim' | 'server'; chainIds?: number[] } = {}): Promise<PayoutTarget[]> {
+    const networks = await this.listNetworks();
+    const targets: PayoutTarget[] = [];
+    for (const token of await this.listTokens()) {
+      const network = networks.find(n => n.chainId === token.chainId);
+      if (!network?.enabled || !token.enabled) continue;
+      if (options.chainIds && !options.chainIds.includes(token.chainId)) continue;
+      if (options.mode === 'claim' && !token.claimContractAddress) continue;
+      if (options.mode === 'server' && !token.address) continue;
+      targets.push({ network, token });
+    }
+    return targets;
+  }
+
+  /** The payout target for `tokenId`, or the first available one when none is given */
+  async resolvePayoutTarget(tokenId: string | undefined, options: { mode?: 'claim' | 'server'; chainIds?: number[] } = {}): Promise<PayoutTarget | null> {
+    const targets = await this.getPayoutTargets(options);
+    if (!tokenId) return targets[0] || null;
+    return targets.find(t => t.token.id === tokenId) || null;
+  }
+
+  /** EVM chains WalletConnect sessions are requested on */
+  async getWalletConnectChains(): Promise<string[]> {
+    try {
+      return (await this.listNetworks()).filter(n => n.enabled).map(n => n.walletConnectChainReference);
+    } catch (error: any) {
+      this.logger.warn('Could not load payout networks, requesting the primary chain only', { error: error?.message });
+      return [walletConnectChain(this.config.wallet.chainId)];
+    }
+  }
+
+  /**
+   * A shared JSON-RPC provider for the chain. Unknown chains throw rather
+   * than fall back to RPC_URL, which would read another chain's state.
+   */
+  async getProvider(chainId: number): Promise<ethers.providers.JsonRpcProvider> {
+    const network = await this.getNetwork(chainId);
+    if (!network) throw new Error(`Network ${chainId} is not configured`);
+    const rpcUrl = network.rpcUrl;
+    let provider = this.providers.get(rpcUrl);
+    if (!provider) {
+      provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+      this.providers.set(rpcUrl, provider);
+    }
+    return provider;
+  }
+
+  async getExplorerUrl(chainId: number): Promise<string | undefined> {
+    return (await this.getNetwork(chainId))?.explorerUrl || undefined;
+  }
+
+  async saveNetwork(input: any, adminUsername: string): Promise<RegistryResult<NetworkConfig>> {
+    const chainId = Number(input?.chainId);
+    if (chainId === this.config.wallet.chainId) {
+      return { success: false, error: 'built_in', message: `Chain ${chainId} is the primary network; change it in the Blockchain settings` };
+    }
+    const existing = await this.getNetworksCollection().findOne({ chainId }, { projection: { _id: 0 } });
+    const { value, error } = normalizeNetwork(input, existing);
+    if (!value) return { success: false, error: 'invalid', message: error };
+
+    const network: NetworkConfig = { ...value, updatedAt: new Date().toISOString(), updatedBy: adminUsername };
+    await this.getNetworksCollection().replaceOne({ chainId }, network, { upsert: true });
+    this.cache = null;
+    this.logger.info('Payout network saved', { chainId, name: network.name, enabled: network.enabled, by: adminUsername });
+    return { success: true, data: network };
+  }
+
+  async deleteNetwork(chainId: number, adminUsername: string): Promise<RegistryResult<void>> {
+    if (Number(chainId) === this.config.wallet.chainId) {
+      return { success: false, error: 'built_in', message: 'The primary network cannot be removed' };
+    }
+    if (await this.getTokensCollection().countDocuments({ chainId: Number(chainId) }) > 0) {
+      return { success: false, error: 'in_use', message: 'Remove the tokens on this network first' };
+    }
+    // In-flight payouts still need the network's RPC and explorer; disable it instead until they settle
+    if (await this.getRawCollection('withdrawals').countDocuments({ chainId: Number(chainId), active: true }) > 0) {
+      return { success: false, error: 'in_use', message: 'Withdrawals on this network are still in flight; disable it instead' };
+    }
+    const result = await this.getNetworksCollection().deleteOne({ chainId: Number(chainId) });
+    if (!result.deletedCount) return { success: false, error: 'not_found', message: 'Network not found' };
+    this.cache = null;
+    this.logger.info('Payout network removed', { chainId, by: adminUsername });
+    return { success: true };
+  }
+
+  /**
+   * Add a token (no `id`) or edit one. The contract's decimals and symbol are
+   * read back when the chain is reachable: wrong decimals are refused, since
+   * every payout amount depends on them.
+   */
+  async saveToken(input: any, adminUsername: string, id?: string): Promise<RegistryResult<TokenInfo>> {
+    if (id === BUILT_IN_TOKEN_ID) {
+      return { success: false, error: 'built_in', message: 'The primary token is configured in the Blockchain settings' };
+    }
+    const existing: TokenInfo | null = id ? await this.getTokensCollection().findOne({ id }, { projection: { _id: 0 } }) : null;
+    if (id && !existing) return { success: false, error: 'not_found', message: 'Token not found' };
+    const { value, error } = normalizeToken(input, existing);
+    if (!value) return { success: false, error: 'invalid', message: error };
+
+    const network = await this.getNetwork(value.chainId);
+    if (!network) return { success: false, error: 'invalid', message: `Add network ${value.chainId} before its tokens` };
+    const duplicate = await this.getTokensCollection().findOne({ chainId: value.chainId, address: value.address, id: { $ne: id || '' } });
+    if (duplicate || (value.chainId === this.config.wallet.chainId && value.address === this.getPrimaryToken().address)) {
+      return { success: false, error: 'invalid', message: 'This token is already registered on that network' };
+    }
+
+    const onChain = await this.readTokenContract(network, value.address);
+    if (onChain && onChain.decimals !== value.decimals) {
+      return { success: false, error: 'mismatch', message: `The contract reports ${onChain.decimals} decimals, not ${value.decimals}` };
+    }
+
+    const token: TokenInfo = {
+      ...value,
+      id: existing?.id || `tok_${nanoid(10)}`,
+      verified: !!onChain && onChain.symbol === value.symbol,
+      updatedAt: new Date().toISOString(),
+      updatedBy: adminUsername,
+    };
+    await this.getTokensCollection().replaceOne({ id: token.id }, token, { upsert: true });
+    this.cache = null;
+    this.logger.info('Payout token saved', { id: token.id, chainId: token.chainId, symbol: token.symbol, verified: token.verified, by: adminUsername });
+    return { success: true, data: token };
+  }
+
+  async deleteToken(id: string, adminUsername: string): Promise<RegistryResult<void>> {
+    if (id === BUILT_IN_TOKEN_ID) return { success: false, error: 'built_in', message: 'The primary token cannot be removed' };
+    const result = await this.getTokensCollection().deleteOne({ id });
+    if (!result.deletedCount) return { success: false, error: 'not_found', message: 'Token not found' };
+    this.cache = null;
+    this.logger.info('Payout token removed', { id, by: adminUsername });
+    return { success: true };
+  }
+
+  /**
+   * Count `amount` against the chain's cap for today. Returns the day it was
+   * counted on, or null when the cap would be exceeded. The conditional
+   * increment keeps concurrent requests from overshooting the cap together.
+   */
+  async reserveDailyPayout(chainId: number, amount: number): Promise<string | null> {
+    const network = await this.getNetwork(chainId);
+    const cap = network?.dailyPayoutCapTokens || 0;
+    const day = capDay();
+    if (!fitsDailyCap(cap, 0, amount)) return null;
+    const filter: any = { chainId, day };
+    if (cap > 0) filter.totalTokens = { $lte: cap - amount };
+    try {
+      await this.getDailyTotalsCollection().updateOne(
+        filter,
+        { $inc: { totalTokens: amount }, $setOnInsert: { createdAt: new Date() } },
+        { upsert: true }
+      );
+      return day;
+    } catch (error: any) {
+      // The day's document exists but is too full to match, so the upsert collided with it
+      if (error?.code === 11000) return null;
+      throw error;
+    }
+  }
+
+  /** Give back (negative `delta`) or re-count an amount on the day it was reserved */
+  async adjustDailyPayout(chainId: number, day: string, delta: number): Promise<void> {
+    await this.getDailyTotalsCollection().updateOne(
+      { chainId, day },
+      { $inc: { totalTokens: delta }, $setOnInsert: { createdAt: new Date() } },
+      { upsert: true }
+    );
+  }
+
+  /** Tokens counted against each chain's cap today */
+  async getDailyUsage(): Promise<Record<number, number>> {
+    const rows = await this.getDailyTotalsCollection().find({ day: capDay() }, { projection: { _id: 0 } }).toArray();
+    const usage: Record<number, number> = {};
+    for (const row of rows) usage[row.chainId] = Number(row.totalTokens || 0);
+    return usage;
+  }
+
+  private async readTokenContract(network: NetworkConfig, address: string): Promise<{ decimals: number; symbol: string } | null> {
+    try {
+      const provider = await this.getProvider(network.chainId);
+      const contract = new ethers.Contract(address, ['function decimals() view returns (uint8)', 'function symbol() view returns (string)'], provider);
+      const timeout = new Promise<never>((_, reject) => setTimeout(() => reject(new Error('timeout')), CONTRACT_READ_TIMEOUT_MS).unref?.());
+      const [decimals, symbol] = await Promise.race([Promise.all([contract.decimals(), contract.symbol()]), timeout]);
+      return { decimals: Number(decimals), symbol: String(symbol) };
+    } catch (error: any) {
+      this.logger.warn('Could not read token contract, saving it unverified', { chainId: network.chainId, address, error: error?.message });
+      return null;
+    }
+  }
+
+  private async load(): Promise<{ networks: NetworkConfig[]; tokens: TokenInfo[] }> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) return this.cache;
+    const [networks, tokens] = await Promise.all([
+      this.getNetworksCollection().find({}, { projection: { _id: 0 } }).sort({ chainId: 1 }).toArray(),
+      this.getTokensCollection().find({}, { projection: { _id: 0 } }).sort({ chainId: 1, symbol: 1 }).toArray(),
+    ]);
+    this.cache = { networks, tokens, loadedAt: Date.now() };
+    return this.cache;
+  }
+
+  private getNetworksCollection(): any {
+    return this.getRawCollection('payout_networks');
+  }
+
+  private getTokensCollection(): any {
+    return this.getRawCollection('payout_tokens');
+  }
+
+  private getDailyTotalsCollection(): any {
+    return this.getRawCollection('payout_daily_totals');
+  }
+
+  private getRawCollection(name: string): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
+
+export const chainRegistryService = ChainRegistryService.getInstance();
+export default chainRegistryService;
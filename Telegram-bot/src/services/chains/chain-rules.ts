@@ -0,0 +1,156 @@
+import { ethers } from 'ethers';
+import { NetworkConfig, TokenInfo } from '../../types/wallet.types';
+
+/** Display defaults for common EVM chains, used when a network is saved without them */
+export const KNOWN_CHAINS: Record<number, { name: string; currency: string; blockTime: number; isTestnet?: boolean }> = {
+  1: { name: 'Ethereum', currency: 'ETH', blockTime: 12 },
+  10: { name: 'OP Mainnet', currency: 'ETH', blockTime: 2 },
+  56: { name: 'BNB Smart Chain', currency: 'BNB', blockTime: 3 },
+  137: { name: 'Polygon', currency: 'POL', blockTime: 2 },
+  8453: { name: 'Base', currency: 'ETH', blockTime: 2 },
+  42161: { name: 'Arbitrum One', currency: 'ETH', blockTime: 1 },
+  43114: { name: 'Avalanche C-Chain', currency: 'AVAX', blockTime: 2 },
+  11155111: { name: 'Sepolia', currency: 'ETH', blockTime: 12, isTestnet: true },
+  84532: { name: 'Base Sepolia', currency: 'ETH', blockTime: 2, isTestnet: true },
+  80002: { name: 'Polygon Amoy', currency: 'POL', blockTime: 2, isTestnet: true },
+};
+
+export interface ValidationResult<T> {
+  value?: T;
+  error?: string;
+}
+
+/** CAIP-2 chain reference WalletConnect uses for an EVM chain */
+export function walletConnectChain(chainId: number): string {
+  return `eip155:${chainId}`;
+}
+
+/**
+ * EVM chain ids a WalletConnect session approved, read from its
+ * `eip155:<chain>:<address>` accounts. With `address` only the chains that
+ * account was approved on count.
+ */
+export function sessionChainIds(namespaces: Record<string, { accounts?: string[] }> | undefined, address?: string): number[] {
+  const chains = new Set<number>();
+  for (const account of namespaces?.eip155?.accounts || []) {
+    const [, chain, owner] = account.split(':');
+    if (address && owner?.toLowerCase() !== address.toLowerCase()) continue;
+    const id = Number(chain);
+    if (Number.isInteger(id) && id > 0) chains.add(id);
+  }
+  return [...chains];
+}
+
+export function explorerTxUrl(explorerUrl: string | undefined, txHash: string): string | undefined {
+  return explorerUrl ? `${explorerUrl.replace(/\/+$/, '')}/tx/${txHash}` : undefined;
+}
+
+export function explorerAddressUrl(explorerUrl: string | undefined, address: string): string | undefined {
+  return explorerUrl ? `${explorerUrl.replace(/\/+$/, '')}/address/${address}` : undefined;
+}
+
+/** Start of the UTC day daily payout caps are counted in, as YYYY-MM-DD */
+export function capDay(at: Date = new Date()): string {
+  return at.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether paying `amount` more keeps a chain within its daily cap. A cap of
+ * 0 means the chain is uncapped.
+ */
+export function fitsDailyCap(capTokens: number, paidTokens: number, amount: number): boolean {
+  if (!capTokens || capTokens <= 0) return true;
+  return paidTokens + amount <= capTokens;
+}
+
+const isUrl = (value: string, schemes: string[]) => {
+  try {
+    return schemes.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const optionalAddress = (value: any): string | null | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  return typeof value === 'string' && ethers.utils.isAddress(value) ? value.toLowerCase() : null;
+};
+
+/**
+ * Check an admin's network form and fill in defaults, merging over the
+ * stored network when one is being edited. Only EVM chains are supported.
+ */
+export function normalizeNetwork(input: any, existing?: NetworkConfig | null): ValidationResult<NetworkConfig> {
+  const merged = { ...(existing || {}), ...(input || {}) };
+  const chainId = Number(merged.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) return { error: 'chainId must be a positive integer' };
+  const known = KNOWN_CHAINS[chainId];
+
+  const name = String(merged.name || known?.name || '').trim();
+  if (!name) return { error: 'name is required' };
+  const rpcUrl = String(merged.rpcUrl || '').trim();
+  if (!isUrl(rpcUrl, ['http:', 'https:', 'ws:', 'wss:'])) return { error: 'rpcUrl must be an http(s) or ws(s) URL' };
+  const explorerUrl = String(merged.explorerUrl || '').trim().replace(/\/+$/, '');
+  if (explorerUrl && !isUrl(explorerUrl, ['http:', 'https:'])) return { error: 'explorerUrl must be an http(s) URL' };
+
+  const confirmations = merged.confirmations === undefined ? 1 : Number(merged.confirmations);
+  if (!Number.isInteger(confirmations) || confirmations < 1 || confirmations > 100) return { error: 'confirmations must be between 1 and 100' };
+  const blockTime = merged.blockTime === undefined ? (known?.blockTime || 12) : Number(merged.blockTime);
+  if (!Number.isFinite(blockTime) || blockTime <= 0) return { error: 'blockTime must be positive' };
+  const dailyPayoutCapTokens = merged.dailyPayoutCapTokens === undefined ? 0 : Number(merged.dailyPayoutCapTokens);
+  if (!Number.isFinite(dailyPayoutCapTokens) || dailyPayoutCapTokens < 0) return { error: 'dailyPayoutCapTokens must be 0 or more' };
+  const maxGasPriceGwei = merged.maxGasPriceGwei === undefined ? 0 : Number(merged.maxGasPriceGwei);
+  if (!Number.isFinite(maxGasPriceGwei) || maxGasPriceGwei < 0) return { error: 'maxGasPriceGwei must be 0 or more' };
+  const disperseContractAddress = optionalAddress(merged.disperseContractAddress);
+  if (disperseContractAddress === null) return { error: 'disperseContractAddress is not a valid address' };
+
+  const currency = merged.nativeCurrency || {};
+  const symbol = String(currency.symbol || known?.currency || 'ETH').trim();
+  return {
+    value: {
+      chainId,
+      name,
+      rpcUrl,
+      explorerUrl,
+      nativeCurrency: { name: String(currency.name || symbol), symbol, decimals: Number(currency.decimals) || 18 },
+      blockTime,
+      confirmations,
+      walletConnectChainReference: walletConnectChain(chainId),
+      isTestnet: merged.isTestnet === undefined ? !!known?.isTestnet : !!merged.isTestnet,
+      enabled: merged.enabled === undefined ? true : !!merged.enabled,
+      dailyPayoutCapTokens,
+      disperseContractAddress,
+      maxGasPriceGwei: maxGasPriceGwei || undefined,
+    }
+  };
+}
+
+/** Check an admin's token form, merging over the stored token when one is being edited */
+export function normalizeToken(input: any, existing?: TokenInfo | null): ValidationResult<Omit<TokenInfo, 'id' | 'verified'>> {
+  const merged = { ...(existing || {}), ...(input || {}) };
+  const chainId = Number(merged.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) return { error: 'chainId must be a positive integer' };
+  const address = optionalAddress(merged.address);
+  if (!address) return { error: 'address must be a token contract address' };
+  const symbol = String(merged.symbol || '').trim();
+  if (!symbol || symbol.length > 16) return { error: 'symbol is required (max 16 characters)' };
+  const decimals = Number(merged.decimals);
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) return { error: 'decimals must be between 0 and 36' };
+  const claimContractAddress = optionalAddress(merged.claimContractAddress);
+  if (claimContractAddress === null) return { error: 'claimContractAddress is not a valid address' };
+  const logoUrl = String(merged.logoUrl || '').trim();
+  if (logoUrl && !isUrl(logoUrl, ['https:'])) return { error: 'logoUrl must be an https URL' };
+
+  return {
+    value: {
+      address,
+      name: String(merged.name || symbol).trim(),
+      symbol,
+      decimals,
+      chainId,
+      enabled: merged.enabled === undefined ? true : !!merged.enabled,
+      claimContractAddress,
+      logoUrl: logoUrl || undefined,
+    }
+  };
+}
@@ -0,0 +1,393 @@
+import { Logger } from '../logger';
+import { StorageManager } from '../../storage';
+import { ReferralProgramService } from '../referrals/referral-program.service';
+import { AdminIdentity } from '../admin/admin-permission.service';
+import { AccountClusterGraph, ReferralLink, SharedAttribute, buildClusters } from './cluster-graph';
+
+export type ClusterAction = 'block' | 'ban_devices' | 'clawback';
+
+export const CLUSTER_ACTIONS: ClusterAction[] = ['block', 'ban_devices', 'clawback'];
+
+export interface StoredAccountCluster extends AccountClusterGraph {
+  size: number;
+  /** Edges beyond MAX_STORED_EDGES are dropped; members are always complete */
+  edgesTruncated: boolean;
+  /** Not found by the latest rebuild; kept because actions were taken on it */
+  stale: boolean;
+  createdAt: string;
+  updatedAt: string;
+  actions: ClusterActionRecord[];
+}
+
+export interface ClusterActionRecord {
+  actions: ClusterAction[];
+  reason: string;
+  admin: string;
+  at: string;
+  result: ClusterActionSummary;
+}
+
+export interface ClusterActionSummary {
+  blocked: number;
+  alreadyBlocked: number;
+  devicesBanned: number;
+  referralsClawedBack: number;
+  pointsReversed: number;
+  /** Users or device hashes an action failed for */
+  failed: string[];
+}
+
+export interface ClusterRebuildReport {
+  clusters: number;
+  accounts: number;
+  skippedAttributes: number;
+  durationMs: number;
+}
+
+export interface ClusterListOptions {
+  minScore?: number;
+  minSize?: number;
+  includeStale?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ClusterMemberNode {
+  id: string;
+  username?: string;
+  firstName?: string;
+  points: number;
+  isBlocked: boolean;
+  registeredAt?: string;
+  ipAddress?: string;
+  walletAddress?: string;
+  referredBy?: string;
+  deviceHashes: string[];
+}
+
+export interface ClusterActionResult {
+  success: boolean;
+  error?: 'not_found' | 'busy';
+  summary?: ClusterActionSummary;
+}
+
+/** Values that appear on many unrelated records and must never link accounts */
+const IGNORED_VALUES = ['', 'unknown', 'null', 'undefined', '0.0.0.0', '127.0.0.1', '::1'];
+const MAX_SHARED_ACCOUNTS = 50;
+const MAX_STORED_EDGES = 1000;
+const ACTION_LOCK_MS = 5 * 60 * 1000;
+const REFERRAL_LOOKUP_CHUNK = 1000;
+
+/**
+ * Groups accounts that are likely run by the same person into clusters
+ * (see cluster-graph.ts), stores them in `account_clusters` and applies
+ * block / device-ban / referral claw-back to a whole cluster as one audited
+ * operation. Clusters are rebuilt on demand from the admin panel.
+ */
+export class AccountClusterService {
+  private static instance: AccountClusterService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+
+  private constructor() {}
+
+  static getInstance(): AccountClusterService {
+    if (!AccountClusterService.instance) {
+      AccountClusterService.instance = new AccountClusterService();
+    }
+    return AccountClusterService.instance;
+  }
+
+  /** Recompute every cluster from users, device fingerprints, withdrawals and referrals */
+  async rebuild(): Promise<ClusterRebuildReport> {
+    const startedAt = Date.now();
+    const runAt = new Date(startedAt).toISOString();
+    const attributes = await this.collectSharedAttributes();
+    const linked = new Set(attributes.flatMap(attribute => attribute.userIds));
+    const referrals = await this.collectReferrals([...linked]);
+    const { clusters, skippedAttributes } = buildClusters(attributes, referrals, { maxSharedAccounts: MAX_SHARED_ACCOUNTS });
+
+    const coll = this.getCollection('account_clusters');
+    if (clusters.length > 0) {
+      await coll.bulkWrite(clusters.map(cluster => ({
+        updateOne: {
+          filter: { id: cluster.id },
+          update: {
+            $set: {
+              members: cluster.members,
+              size: cluster.members.length,
+              edges: cluster.edges.slice(0, MAX_STORED_EDGES),
+              edgesTruncated: cluster.edges.length > MAX_STORED_EDGES,
+              linkCounts: cluster.linkCounts,
+              score: cluster.score,
+              stale: false,
+              updatedAt: runAt
+            },
+            $setOnInsert: { id: cluster.id, createdAt: runAt, actions: [] }
+          },
+          upsert: true
+        }
+      })), { ordered: false });
+    }
+    // Clusters that were acted on stay as a record of what was done
+    await coll.updateMany({ updatedAt: { $lt: runAt } }, { $set: { stale: true } });
+    await coll.deleteMany({ stale: true, 'actions.0': { $exists: false } });
+
+    const report: ClusterRebuildReport = {
+      clusters: clusters.length,
+      accounts: clusters.reduce((sum, cluster) => sum + cluster.members.length, 0),
+      skippedAttributes,
+      durationMs: Date.now() - startedAt
+    };
+    this.logger.info('Account clusters rebuilt', report);
+    return report;
+  }
+
+  async list(options: ClusterListOptions = {}): Promise<{ data: Omit<StoredAccountCluster, 'edges'>[]; total: number }> {
+    const filter: Record<string, any> = {};
+    if (options.minScore) filter.score = { $gte: options.minScore };
+    if (options.minSize) filter.size = { $gte: options.minSize };
+    if (!options.includeStale) filter.stale = { $ne: true };
+    const page = Math.max(1, options.page || 1);
+    const pageSize = Math.min(200, Math.max(1, options.pageSize || 50));
+
+    const coll = this.getCollection('account_clusters');
+    const [data, total] = await Promise.all([
+      coll.find(filter, { projection: { _id: 0, edges: 0 } })
+        .sort({ score: -1, size: -1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .toArray(),
+      coll.countDocuments(filter)
+    ]);
+    return { data, total };
+  }
+
+  /** A cluster with its edges and a summary of every member account */
+  async get(id: string): Promise<(StoredAccountCluster & { nodes: ClusterMemberNode[] }) | null> {
+    const cluster: StoredAccountCluster | null = await this.getCollection('account_clusters').findOne({ id }, { projection: { _id: 0 } });
+    if (!cluster) return null;
+
+    const [users, fingerprints] = await Promise.all([
+      this.getCollection('users').find({ id: { $in: cluster.members } }, {
+        projection: { _id: 0, id: 1, username: 1, firstName: 1, points: 1, isBlocked: 1, registeredAt: 1, ipAddress: 1, walletAddress: 1, referredBy: 1 }
+      }).toArray(),
+      this.getCollection('device_fingerprints').find({ userId: { $in: cluster.members } }, {
+        projection: { _id: 0, userId: 1, hash: 1, fingerprintHash: 1 }
+      }).toArray()
+    ]);
+
+    const devices = new Map<string, Set<string>>();
+    for (const fp of fingerprints) {
+      const hash = fp.hash || fp.fingerprintHash;
+      if (!hash) continue;
+      if (!devices.has(fp.userId)) devices.set(fp.userId, new Set());
+      devices.get(fp.userId)!.add(String(hash));
+    }
+    const byId = new Map<string, any>(users.map((user: any) => [String(user.id), user]));
+    const nodes: ClusterMemberNode[] = cluster.members.map(userId => {
+      const user = byId.get(userId) || {};
+      return {
+        id: userId,
+        username: user.username,
+        firstName: user.firstName,
+        points: Number(user.points || 0),
+        isBlocked: !!user.isBlocked,
+        registeredAt: user.registeredAt,
+        ipAddress: user.ipAddress,
+        walletAddress: user.walletAddress,
+        referredBy: user.referredBy,
+        deviceHashes: [...(devices.get(userId) || [])]
+      };
+    });
+    return { ...cluster, nodes };
+  }
+
+  /**
+   * Apply the given actions to every member of a cluster (minus
+   * `excludeUserIds`, e.g. the account the person is allowed to keep).
+   * Writes one security audit entry covering the whole operation.
+   */
+  async applyActions(
+    id: string,
+    input: { actions: ClusterAction[]; reason: string; excludeUserIds?: string[] },
+    admin: AdminIdentity | undefined,
+    ipAddress?: string
+  ): Promise<ClusterActionResult> {
+    const coll = this.getCollection('account_clusters');
+    const now = new Date();
+    // Guards against the same bulk action being submitted twice in parallel
+    const res = await coll.findOneAndUpdate(
+      { id, $or: [{ actionLockUntil: { $exists: false } }, { actionLockUntil: { $lt: now.toISOString() } }] },
+      { $set: { actionLockUntil: new Date(now.getTime() + ACTION_LOCK_MS).toISOString() } },
+      { projection: { _id: 0 }, returnDocument: 'after' }
+    );
+    const cluster = ((res as any)?.value !== undefined ? (res as any).value : res) as StoredAccountCluster | null;
+    if (!cluster) {
+      return { success: false, error: (await coll.countDocuments({ id }, { limit: 1 })) > 0 ? 'busy' : 'not_found' };
+    }
+
+    const adminName = admin?.username || 'admin';
+    const excluded = new Set((input.excludeUserIds || []).map(String));
+    const targets = cluster.members.filter(userId => !excluded.has(userId));
+    const summary: ClusterActionSummary = { blocked: 0, alreadyBlocked: 0, devicesBanned: 0, referralsClawedBack: 0, pointsReversed: 0, failed: [] };
+
+    try {
+      if (input.actions.includes('block')) await this.blockMembers(cluster.id, targets, input.reason, summary);
+      if (input.actions.includes('ban_devices')) await this.banDevices(cluster.id, targets, input.reason, summary);
+      if (input.actions.includes('clawback')) await this.clawBackReferrals(targets, input.reason, summary);
+
+      const record: ClusterActionRecord = { actions: input.actions, reason: input.reason, admin: adminName, at: new Date().toISOString(), result: summary };
+      await coll.updateOne({ id }, { $push: { actions: record } as any });
+      await this.storage.saveSecurityAuditLog({
+        id: `sec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        type: 'account_cluster_action',
+        severity: input.actions.includes('block') ? 'high' : 'medium',
+        action: input.actions.join(','),
+        adminId: admin?.id || null,
+        username: adminName,
+        role: admin?.role || null,
+        description: `${adminName} applied ${input.actions.join(', ')} to cluster ${id} (${targets.length} accounts)`,
+        details: { clusterId: id, score: cluster.score, reason: input.reason, userIds: targets, excludedUserIds: [...excluded], ...summary },
+        timestamp: new Date(),
+        ipAddress: ipAddress || null
+      });
+    } finally {
+      await coll.updateOne({ id }, { $unset: { actionLockUntil: '' } });
+    }
+
+    this.logger.info('Account cluster action applied', { clusterId: id, actions: input.actions, admin: adminName, ...summary, failed: summary.failed.length });
+    return { success: true, summary };
+  }
+
+  private async blockMembers(clusterId: string, userIds: string[], reason: string, summary: ClusterActionSummary): Promise<void> {
+    const blocked = new Set((await this.getCollection('users')
+      .find({ id: { $in: userIds }, isBlocked: true }, { projection: { _id: 0, id: 1 } })
+      .toArray()).map((user: any) => String(user.id)));
+    for (const userId of userIds) {
+      if (blocked.has(userId)) {
+        summary.alreadyBlocked++;
+        continue;
+      }
+      const ok = await this.storage.blockUser(userId, { reason, type: 'multi_account', permanent: true, metadata: { clusterId } });
+      if (ok) summary.blocked++;
+      else summary.failed.push(userId);
+    }
+  }
+
+  private async banDevices(clusterId: string, userIds: string[], reason: string, summary: ClusterActionSummary): Promise<void> {
+    const fingerprints = await this.getCollection('device_fingerprints')
+      .find({ userId: { $in: userIds } }, { projection: { _id: 0, userId: 1, hash: 1, fingerprintHash: 1 } })
+      .toArray();
+    const accountsByDevice = new Map<string, Set<string>>();
+    for (const fp of fingerprints) {
+      const hash = fp.hash || fp.fingerprintHash;
+      if (!hash) continue;
+      if (!accountsByDevice.has(hash)) accountsByDevice.set(hash, new Set());
+      accountsByDevice.get(hash)!.add(String(fp.userId));
+    }
+    for (const [deviceHash, accounts] of accountsByDevice) {
+      const ok = await this.storage.saveBannedDevice({
+        deviceHash,
+        bannedAt: new Date().toISOString(),
+        reason,
+        relatedAccounts: [...accounts],
+        clusterId
+      });
+      if (ok) summary.devicesBanned++;
+      else summary.failed.push(deviceHash);
+    }
+  }
+
+  private async clawBackReferrals(userIds: string[], reason: string, summary: ClusterActionSummary): Promise<void> {
+    const program = ReferralProgramService.getInstance();
+    const referees = await this.getCollection('referrals')
+      .find({ referredUserId: { $in: userIds } }, { projection: { _id: 0, referredUserId: 1 } })
+      .toArray();
+    for (const { referredUserId } of referees) {
+      try {
+        const result = await program.clawBack(String(referredUserId), reason);
+        if (!result.success) {
+          summary.failed.push(String(referredUserId));
+          continue;
+        }
+        if (result.entries > 0) summary.referralsClawedBack++;
+        summary.pointsReversed += result.reversed;
+      } catch (error: any) {
+        this.logger.warn('Cluster referral claw-back failed', { referredUserId, error: error?.message });
+        summary.failed.push(String(referredUserId));
+      }
+    }
+  }
+
+  private async collectSharedAttributes(): Promise<SharedAttribute[]> {
+    const hardwareSignature = {
+      $concat: ['$components.hardware.screenResolution', '|', '$components.hardware.platform', '|',
+        { $toString: '$components.hardware.hardwareConcurrency' }, '|', { $toString: '$components.hardware.deviceMemory' }, '|',
+        { $ifNull: ['$components.rendering.webGLRenderer', ''] }]
+    };
+    const [devices, canvases, hardware, ips, userWallets, withdrawalWallets] = await Promise.all([
+      this.sharedValues('device_fingerprints', 'userId', { $ifNull: ['$hash', '$fingerprintHash'] }),
+      this.sharedValues('device_fingerprints', 'userId', '$components.rendering.canvasFingerprint'),
+      this.sharedValues('device_fingerprints', 'userId', hardwareSignature, { 'components.hardware.screenResolution': { $type: 'string' }, 'components.hardware.platform': { $type: 'string' } }),
+      this.sharedValues('users', 'id', '$ipAddress'),
+      this.sharedValues('users', 'id', { $toLower: '$walletAddress' }, { walletAddress: { $type: 'string' } }, 1),
+      this.sharedValues('withdrawals', 'userId', { $toLower: '$walletAddress' }, { walletAddress: { $type: 'string' } }, 1)
+    ]);
+
+    // A wallet shared between one account's profile and another's withdrawal is still a link
+    const wallets = new Map<string, Set<string>>();
+    for (const group of [...userWallets, ...withdrawalWallets]) {
+      if (!wallets.has(group.value)) wallets.set(group.value, new Set());
+      for (const userId of group.userIds) wallets.get(group.value)!.add(userId);
+    }
+
+    return [
+      ...devices.map(group => ({ kind: 'device' as const, ...group })),
+      ...canvases.map(group => ({ kind: 'canvas' as const, ...group })),
+      ...hardware.map(group => ({ kind: 'hardware' as const, ...group })),
+      ...ips.map(group => ({ kind: 'ip' as const, ...group })),
+      ...[...wallets].map(([value, userIds]) => ({ kind: 'wallet' as const, value, userIds: [...userIds] }))
+    ];
+  }
+
+  /**
+   * Values of `key` and the accounts seen with them, keeping values with at
+   * least `minAccounts` accounts
+   */
+  private async sharedValues(
+    collection: string,
+    userField: string,
+    key: any,
+    match: Record<string, any> = {},
+    minAccounts = 2
+  ): Promise<Array<{ value: string; userIds: string[] }>> {
+    const groups = await this.getCollection(collection).aggregate([
+      { $match: { ...match, [userField]: { $exists: true, $ne: null } } },
+      { $group: { _id: key, userIds: { $addToSet: { $toString: `$${userField}` } } } },
+      { $match: { _id: { $type: 'string', $nin: IGNORED_VALUES }, [`userIds.${minAccounts - 1}`]: { $exists: true } } }
+    ], { allowDiskUse: true }).toArray();
+    return groups.map((group: any) => ({ value: String(group._id), userIds: group.userIds }));
+  }
+
+  private async collectReferrals(userIds: string[]): Promise<ReferralLink[]> {
+    const links: ReferralLink[] = [];
+    const coll = this.getCollection('referrals');
+    for (let i = 0; i < userIds.length; i += REFERRAL_LOOKUP_CHUNK) {
+      const chunk = userIds.slice(i, i + REFERRAL_LOOKUP_CHUNK);
+      const records = await coll
+        .find({ referredUserId: { $in: chunk } }, { projection: { _id: 0, referrerId: 1, referredUserId: 1 } })
+        .toArray();
+      links.push(...records);
+    }
+    return links;
+  }
+
+  private getCollection(name: string): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+
+/**
+ * Connected components over accounts that share a device, IP, canvas or
+ * hardware signature, or withdrawal wallet. Referral links only join accounts
+ * that are already linked by one of those, so an ordinary referrer and their
+ * invitees never form a cluster on their own.
+ */
+
+export type ClusterLinkKind = 'device' | 'ip' | 'canvas' | 'hardware' | 'wallet' | 'referral';
+
+/** One attribute value and every account seen with it */
+export interface SharedAttribute {
+  kind: Exclude<ClusterLinkKind, 'referral'>;
+  value: string;
+  userIds: string[];
+}
+
+export interface ReferralLink {
+  referrerId: string;
+  referredUserId: string;
+}
+
+export interface ClusterEdge {
+  source: string;
+  target: string;
+  kind: ClusterLinkKind;
+  /** Shared value (device hash, IP, wallet…); empty for referral edges */
+  value: string;
+}
+
+export interface AccountClusterGraph {
+  /** Derived from the member set, so a rebuild keeps the id while membership is unchanged */
+  id: string;
+  members: string[];
+  edges: ClusterEdge[];
+  linkCounts: Partial<Record<ClusterLinkKind, number>>;
+  /** 0..1, see scoreCluster */
+  score: number;
+}
+
+export interface BuildClustersOptions {
+  /**
+   * Attribute values shared by more accounts than this are ignored; a
+   * carrier-grade NAT IP or a popular phone model would otherwise pull
+   * thousands of unrelated users into one cluster
+   */
+  maxSharedAccounts: number;
+  minClusterSize?: number;
+}
+
+export interface BuildClustersResult {
+  clusters: AccountClusterGraph[];
+  /** Attribute values skipped for exceeding maxSharedAccounts */
+  skippedAttributes: number;
+}
+
+/** How strongly one link kind suggests the accounts belong to one person */
+export const LINK_WEIGHTS: Record<ClusterLinkKind, number> = {
+  device: 0.9,
+  wallet: 0.85,
+  canvas: 0.6,
+  hardware: 0.35,
+  ip: 0.3,
+  referral: 0.2
+};
+
+class UnionFind {
+  private readonly parent = new Map<string, string>();
+
+  has(id: string): boolean {
+    return this.parent.has(id);
+  }
+
+  find(id: string): string {
+    if (!this.parent.has(id)) this.parent.set(id, id);
+    let root = id;
+    while (this.parent.get(root) !== root) root = this.parent.get(root)!;
+    // Path compression
+    let node = id;
+    while (node !== root) {
+      const next = this.parent.get(node)!;
+      this.parent.set(node, root);
+      node = next;
+    }
+    return root;
+  }
+
+  union(a: string, b: string): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) this.parent.set(rootB, rootA);
+  }
+}
+
+export function clusterId(members: string[]): string {
+  const digest = crypto.createHash('sha1').update([...members].sort().join(',')).digest('hex');
+  return `cl_${digest.slice(0, 16)}`;
+}
+
+/**
+ * 1 - Π(1 - weight × coverage) over the link kinds in the cluster, where
+ * coverage is the share of members touched by a link of that kind. A cluster
+ * held together by one shared IP scores low; one where every account shares
+ * a device scores close to 0.9.
+ */
+export function scoreCluster(members: string[], edges: ClusterEdge[]): number {
+  const touched = new Map<ClusterLinkKind, Set<string>>();
+  for (const edge of edges) {
+    if (!touched.has(edge.kind)) touched.set(edge.kind, new Set());
+    touched.get(edge.kind)!.add(edge.source).add(edge.target);
+  }
+  let unlinked = 1;
+  for (const [kind, users] of touched) {
+    unlinked *= 1 - LINK_WEIGHTS[kind] * Math.min(1, users.size / members.length);
+  }
+  return Math.round((1 - unlinked) * 1000) / 1000;
+}
+
+export function buildClusters(
+  attributes: SharedAttribute[],
+  referrals: ReferralLink[],
+  options: BuildClustersOptions
+): BuildClustersResult {
+  const minClusterSize = Math.max(2, options.minClusterSize ?? 2);
+  const sets = new UnionFind();
+  const edges: ClusterEdge[] = [];
+  let skippedAttributes = 0;
+
+  for (const attribute of attributes) {
+    const userIds = [...new Set(attribute.userIds.filter(Boolean).map(String))].sort();
+    if (userIds.length < 2) continue;
+    if (userIds.length > options.maxSharedAccounts) {
+      skippedAttributes++;
+      continue;
+    }
+    // A star keeps edges linear in the group size; every member still ends up connected
+    const [hub, ...rest] = userIds;
+    for (const userId of rest) {
+      sets.union(hub, userId);
+      edges.push({ source: hub, target: userId, kind: attribute.kind, value: attribute.value });
+    }
+  }
+
+  for (const link of referrals) {
+    const referrer = String(link.referrerId || '');
+    const referee = String(link.referredUserId || '');
+    if (!referrer || !referee || referrer === referee) continue;
+    if (!sets.has(referrer) || !sets.has(referee)) continue;
+    sets.union(referrer, referee);
+    edges.push({ source: referrer, target: referee, kind: 'referral', value: '' });
+  }
+
+  const groups = new Map<string, { members: Set<string>; edges: ClusterEdge[] }>();
+  for (const edge of edges) {
+    const root = sets.find(edge.source);
+    if (!groups.has(root)) groups.set(root, { members: new Set(), edges: [] });
+    const group = groups.get(root)!;
+    group.members.add(edge.source).add(edge.target);
+    group.edges.push(edge);
+  }
+
+  const clusters: AccountClusterGraph[] = [];
+  for (const group of groups.values()) {
+    if (group.members.size < minClusterSize) continue;
+    const members = [...group.members].sort();
+    const linkCounts: AccountClusterGraph['linkCounts'] = {};
+    for (const edge of group.edges) linkCounts[edge.kind] = (linkCounts[edge.kind] || 0) + 1;
+    clusters.push({ id: clusterId(members), members, edges: group.edges, linkCounts, score: scoreCluster(members, group.edges) });
+  }
+  clusters.sort((a, b) => b.score - a.score || b.members.length - a.members.length);
+  return { clusters, skippedAttributes };
+}
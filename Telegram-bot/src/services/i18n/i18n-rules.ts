@@ -0,0 +1,112 @@
+import { Task } from '../../types/task.types';
+import { LocaleCoverage, MessageCatalog, TaskTranslation } from '../../types/i18n.types';
+import { placeholdersOf, validateMessage } from './message-format';
+
+/**
+ * Decisions for LocalizationService: which catalog a user gets, how
+ * complete each catalog is and which copy of a task they see.
+ */
+
+export const MAX_TASK_TITLE_TRANSLATION_LENGTH = 200;
+export const MAX_TASK_DESCRIPTION_TRANSLATION_LENGTH = 2000;
+
+/** `pt_BR`, `PT-br` → `pt-br`; null for anything that is not a language tag */
+export function normalizeLocale(tag: string | undefined | null): string | null {
+  if (!tag) return null;
+  const value = String(tag).trim().toLowerCase().replace(/_/g, '-');
+  return /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/.test(value) ? value : null;
+}
+
+/**
+ * First supported match for the candidates in order: the exact tag, then
+ * its base language (`pt-br` → `pt`), then a regional variant of the base
+ * (`pt` → `pt-br`). Falls back to `fallback`.
+ */
+export function resolveLocale(candidates: Array<string | undefined | null>, supported: string[], fallback: string): string {
+  const available = supported.map(normalizeLocale).filter((l): l is string => !!l);
+  for (const candidate of candidates) {
+    const tag = normalizeLocale(candidate);
+    if (!tag) continue;
+    if (available.includes(tag)) return tag;
+    const base = tag.split('-')[0];
+    if (available.includes(base)) return base;
+    const regional = available.find(l => l.split('-')[0] === base);
+    if (regional) return regional;
+  }
+  return fallback;
+}
+
+/** Locales tried in order when looking a key up */
+export function fallbackChain(locale: string, defaultLocale: string): string[] {
+  const chain = [locale];
+  const base = locale.split('-')[0];
+  if (base !== locale) chain.push(base);
+  if (!chain.includes(defaultLocale)) chain.push(defaultLocale);
+  return chain;
+}
+
+/** True when both messages use the same argument names */
+export function samePlaceholders(reference: string, translation: string): boolean {
+  const a = placeholdersOf(reference);
+  const b = placeholdersOf(translation);
+  return a.length === b.length && a.every((name, i) => name === b[i]);
+}
+
+/**
+ * Coverage of `catalog` against the default locale's `reference`. A key
+ * counts as translated when it has a non-empty message that parses;
+ * messages that parse but use other placeholders are listed as mismatched.
+ */
+export function catalogCoverage(locale: string, reference: MessageCatalog, catalog: MessageCatalog, overrides = 0): LocaleCoverage {
+  const keys = Object.keys(reference).sort();
+  const missing: string[] = [];
+  const mismatched: string[] = [];
+  for (const key of keys) {
+    const message = catalog[key];
+    if (typeof message !== 'string' || !message.trim() || !validateMessage(message).valid) {
+      missing.push(key);
+    } else if (!samePlaceholders(reference[key], message)) {
+      mismatched.push(key);
+    }
+  }
+  return { locale, total: keys.length, translated: keys.length - missing.length, missing, mismatched, overrides };
+}
+
+/** Task with title and description swapped for the locale's copy, where there is one */
+export function localizeTask<T extends Pick<Task, 'title' | 'description' | 'translations'>>(task: T, locale: string): T {
+  const translations = task.translations;
+  if (!translations) return task;
+  const copy = translations[locale] || translations[locale.split('-')[0]];
+  if (!copy) return task;
+  return {
+    ...task,
+    title: copy.title?.trim() ? copy.title : task.title,
+    description: copy.description?.trim() ? copy.description : task.description
+  };
+}
+
+/**
+ * Admin input `{ ru: { title, description } }` → trimmed translations.
+ * Locales with neither field are dropped, so saving blanks removes a copy.
+ */
+export function parseTaskTranslations(body: unknown, supported: string[]): { value?: Record<string, TaskTranslation>; error?: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return { error: 'translations must be an object keyed by locale' };
+  const value: Record<string, TaskTranslation> = {};
+  for (const [tag, input] of Object.entries(body as Record<string, any>)) {
+    const locale = normalizeLocale(tag);
+    if (!locale || !supported.includes(locale)) return { error: `Locale ${tag} is not enabled` };
+    const title = typeof input?.title === 'string' ? input.title.trim() : '';
+    const description = typeof input?.description === 'string' ? input.description.trim() : '';
+    if (title.length > MAX_TASK_TITLE_TRANSLATION_LENGTH) return { error: `${locale}: title is limited to ${MAX_TASK_TITLE_TRANSLATION_LENGTH} characters` };
+    if (description.length > MAX_TASK_DESCRIPTION_TRANSLATION_LENGTH) return { error: `${locale}: description is limited to ${MAX_TASK_DESCRIPTION_TRANSLATION_LENGTH} characters` };
+    if (title || description) value[locale] = { ...(title ? { title } : {}), ...(description ? { description } : {}) };
+  }
+  return { value };
+}
+
+/** Message of a localized text (broadcast, announcement) for the locale, or the original */
+export function pickTranslation(original: string, translations: Record<string, { message: string }> | undefined, locale?: string | null): string {
+  if (!locale || !translations) return original;
+  const copy = translations[locale] || translations[locale.split('-')[0]];
+  return copy?.message?.trim() ? copy.message : original;
+}
@@ -0,0 +1,296 @@
+import { Context } from 'telegraf';
+import { Logger } from '../logger';
+import { StorageManager } from '../../storage';
+import { getConfig } from '../../config';
+import { AdminIdentity } from '../admin/admin-permission.service';
+import { BUILT_IN_CATALOGS } from '../../locales';
+import { LocaleCoverage, MessageCatalog, MessageParams, TranslationOverride } from '../../types/i18n.types';
+import { formatMessage, validateMessage } from './message-format';
+import { catalogCoverage, fallbackChain, normalizeLocale, resolveLocale, samePlaceholders } from './i18n-rules';
+
+/** Overrides edited on another replica show up within this time */
+const OVERRIDES_TTL_MS = 60 * 1000;
+/** /language choices are read once per user per minute */
+const PREFERENCE_TTL_MS = 60 * 1000;
+const PREFERENCE_CACHE_LIMIT = 10000;
+export const MAX_MESSAGE_LENGTH = 4096;
+
+export type Translator = (key: string, params?: MessageParams) => string;
+
+export interface CatalogEntry {
+  key: string;
+  /** Message in the default locale */
+  reference: string;
+  /** Message shipped in src/locales for this locale */
+  builtIn?: string;
+  /** Admin-edited message, served instead of the built-in one */
+  override?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  missing: boolean;
+  mismatched: boolean;
+}
+
+export interface TranslationResult {
+  success: boolean;
+  error?: 'unknown_locale' | 'unknown_key' | 'invalid';
+  message?: string;
+}
+
+/**
+ * Message catalogs per locale. Built-in catalogs live in src/locales; admins
+ * override or fill in messages from the panel (`translations` collection).
+ * Lookups go locale → base language → default locale → the key itself, so
+ * a half-translated locale still renders every screen.
+ */
+export class LocalizationService {
+  private static instance: LocalizationService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
+  private overrides = new Map<string, Map<string, TranslationOverride>>();
+  private overridesLoadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private preferences = new Map<string, { locale: string | null; e: number }>();
+
+  private constructor() {}
+
+  static getInstance(): LocalizationService {
+    if (!LocalizationService.instance) {
+      LocalizationService.instance = new LocalizationService();
+    }
+    return LocalizationService.instance;
+  }
+
+  get defaultLocale(): string {
+    return normalizeLocale(this.config.i18n.defaultLocale) || 'en';
+  }
+
+  /** Locales users can get, default first */
+  getLocales(): string[] {
+    const configured = this.config.i18n.locales.map(normalizeLocale).filter((l): l is string => !!l);
+    return [...new Set([this.defaultLocale, ...configured])];
+  }
+
+  isSupported(locale: string | null | undefined): boolean {
+    const tag = normalizeLocale(locale);
+    return !!tag && this.getLocales().includes(tag);
+  }
+
+  /** Native name of the locale (`Русский`), or its code when the runtime has no name for it */
+  localeLabel(locale: string): string {
+    try {
+      const name = new Intl.DisplayNames([locale], { type: 'language' }).of(locale);
+      if (name && name.toLowerCase() !== locale) return name.charAt(0).toLocaleUpperCase(locale) + name.slice(1);
+    } catch {}
+    return locale.toUpperCase();
+  }
+
+  t(locale: string, key: string, params?: MessageParams): string {
+    this.refreshIfStale();
+    for (const candidate of fallbackChain(locale, this.defaultLocale)) {
+      const message = this.lookup(candidate, key);
+      if (message === undefined) continue;
+      try {
+        return formatMessage(message, params, candidate);
+      } catch (error) {
+        this.logger.warn('Invalid translation skipped', { locale: candidate, key, error: (error as any)?.message || String(error) });
+      }
+    }
+    return key;
+  }
+
+  /** Translator for the locale the locale middleware picked for this update */
+  translator(ctx: Context): Translator {
+    const locale = this.localeOf(ctx);
+    return (key, params) => this.t(locale, key, params);
+  }
+
+  localeOf(ctx: Context): string {
+    const picked = (ctx as any)?.state?.locale;
+    if (typeof picked === 'string' && picked) return picked;
+    return resolveLocale([ctx.from?.language_code], this.getLocales(), this.defaultLocale);
+  }
+
+  resolveUserLocale(user: { preferredLanguage?: string | null; languageCode?: string } | null | undefined): string {
+    return resolveLocale([user?.preferredLanguage, user?.languageCode], this.getLocales(), this.defaultLocale);
+  }
+
+  /** Locale for a Telegram user: their /language choice, else the language of their Telegram client */
+  async localeFor(from: { id: number | string; language_code?: string }): Promise<string> {
+    const preferred = await this.getPreference(String(from.id));
+    return resolveLocale([preferred, from.language_code], this.getLocales(), this.defaultLocale);
+  }
+
+  /** Stores the user's /language choice; null goes back to following Telegram */
+  async setUserLocale(userId: string, locale: string | null): Promise<boolean> {
+    const tag = locale === null ? null : normalizeLocale(locale);
+    if (locale !== null && (!tag || !this.isSupported(tag))) return false;
+    const saved = await this.storage.updateUser(userId, { preferredLanguage: tag, updatedAt: new Date().toISOString() });
+    if (saved) this.rememberPreference(userId, tag);
+    return saved;
+  }
+
+  async getCoverage(): Promise<LocaleCoverage[]> {
+    await this.loadOverrides(true);
+    const reference = this.effectiveCatalog(this.defaultLocale);
+    return this.getLocales().map(locale =>
+      catalogCoverage(locale, reference, this.effectiveCatalog(locale), this.overrides.get(locale)?.size || 0)
+    );
+  }
+
+  async getCatalog(locale: string): Promise<CatalogEntry[] | null> {
+    const tag = normalizeLocale(locale);
+    if (!tag || !this.isSupported(tag)) return null;
+    await this.loadOverrides(true);
+    const reference = this.effectiveCatalog(this.defaultLocale);
+    const coverage = catalogCoverage(tag, reference, this.effectiveCatalog(tag));
+    const missing = new Set(coverage.missing);
+    const mismatched = new Set(coverage.mismatched);
+    const builtIn = BUILT_IN_CATALOGS[tag] || {};
+    const overrides = this.overrides.get(tag) || new Map<string, TranslationOverride>();
+
+    return Object.keys(reference).sort().map(key => {
+      const override = overrides.get(key);
+      return {
+        key,
+        reference: reference[key],
+        builtIn: builtIn[key],
+        override: override?.value,
+        updatedAt: override?.updatedAt,
+        updatedBy: override?.updatedBy,
+        missing: missing.has(key),
+        mismatched: mismatched.has(key)
+      };
+    });
+  }
+
+  async setTranslation(locale: string, key: string, value: string, admin?: AdminIdentity, ipAddress?: string): Promise<TranslationResult> {
+    const tag = normalizeLocale(locale);
+    if (!tag || !this.isSupported(tag)) return { success: false, error: 'unknown_locale', message: 'Locale is not enabled' };
+    await this.loadOverrides(true);
+    const reference = this.effectiveCatalog(this.defaultLocale);
+    // The default locale may gain keys only through code; other locales translate existing keys
+    if (!(key in reference)) return { success: false, error: 'unknown_key', message: 'Unknown message key' };
+
+    const text = typeof value === 'string' ? value.replace(/\r\n/g, '\n') : '';
+    if (!text.trim()) return { success: false, error: 'invalid', message: 'Message is empty' };
+    if (text.length > MAX_MESSAGE_LENGTH) return { success: false, error: 'invalid', message: `Message is longer than ${MAX_MESSAGE_LENGTH} characters` };
+    const check = validateMessage(text);
+    if (!check.valid) return { success: false, error: 'invalid', message: check.error };
+    if (tag !== this.defaultLocale && !samePlaceholders(reference[key], text)) {
+      return { success: false, error: 'invalid', message: 'Message must use the same {placeholders} as the default locale' };
+    }
+
+    const override: TranslationOverride = {
+      locale: tag,
+      key,
+      value: text,
+      updatedAt: new Date().toISOString(),
+      updatedBy: admin?.username || 'admin'
+    };
+    await this.getCollection().updateOne({ locale: tag, key }, { $set: override }, { upsert: true });
+    this.setOverride(override);
+    await this.audit('translation_updated', tag, key, admin, ipAddress);
+    return { success: true };
+  }
+
+  /** Drops the override so the built-in message (or the fallback) is served again */
+  async deleteTranslation(locale: string, key: string, admin?: AdminIdentity, ipAddress?: string): Promise<boolean> {
+    const tag = normalizeLocale(locale);
+    if (!tag) return false;
+    const res = await this.getCollection().deleteOne({ locale: tag, key });
+    this.overrides.get(tag)?.delete(key);
+    if (!res?.deletedCount) return false;
+    await this.audit('translation_deleted', tag, key, admin, ipAddress);
+    return true;
+  }
+
+  /** Reloads overrides when the cached copy is older than the TTL (or always with `force`) */
+  async loadOverrides(force = false): Promise<void> {
+    if (!force && Date.now() - this.overridesLoadedAt < OVERRIDES_TTL_MS) return;
+    if (this.loading) return this.loading;
+    this.loading = (async () => {
+      try {
+        const docs: TranslationOverride[] = await this.getCollection().find({}, { projection: { _id: 0 } }).toArray();
+        const next = new Map<string, Map<string, TranslationOverride>>();
+        for (const doc of docs) {
+          if (!next.has(doc.locale)) next.set(doc.locale, new Map());
+          next.get(doc.locale)!.set(doc.key, doc);
+        }
+        this.overrides = next;
+      } catch (error) {
+        this.logger.error('Failed to load translation overrides', { error: (error as any)?.message || String(error) });
+      } finally {
+        this.overridesLoadedAt = Date.now();
+        this.loading = null;
+      }
+    })();
+    return this.loading;
+  }
+
+  private refreshIfStale(): void {
+    if (this.loading || Date.now() - this.overridesLoadedAt < OVERRIDES_TTL_MS) return;
+    void this.loadOverrides();
+  }
+
+  private lookup(locale: string, key: string): string | undefined {
+    const override = this.overrides.get(locale)?.get(key);
+    if (override) return override.value;
+    return BUILT_IN_CATALOGS[locale]?.[key];
+  }
+
+  private effectiveCatalog(locale: string): MessageCatalog {
+    const catalog: MessageCatalog = { ...(BUILT_IN_CATALOGS[locale] || {}) };
+    this.overrides.get(locale)?.forEach((override, key) => {
+      catalog[key] = override.value;
+    });
+    return catalog;
+  }
+
+  private setOverride(override: TranslationOverride): void {
+    if (!this.overrides.has(override.locale)) this.overrides.set(override.locale, new Map());
+    this.overrides.get(override.locale)!.set(override.key, override);
+  }
+
+  private async getPreference(userId: string): Promise<string | null> {
+    const cached = this.preferences.get(userId);
+    if (cached && cached.e > Date.now()) return cached.locale;
+    let locale: string | null = null;
+    try {
+      const user = await this.storage.getUser(userId);
+      locale = user?.preferredLanguage || null;
+    } catch (error) {
+      this.logger.debug('Could not read language preference', { userId, error: (error as any)?.message || String(error) });
+    }
+    this.rememberPreference(userId, locale);
+    return locale;
+  }
+
+  private rememberPreference(userId: string, locale: string | null): void {
+    if (this.preferences.size >= PREFERENCE_CACHE_LIMIT) this.preferences.clear();
+    this.preferences.set(userId, { locale, e: Date.now() + PREFERENCE_TTL_MS });
+  }
+
+  private async audit(action: string, locale: string, key: string, admin: AdminIdentity | undefined, ipAddress: string | undefined): Promise<void> {
+    await this.storage.saveSecurityAuditLog({
+      id: `sec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      type: 'translation',
+      severity: 'low',
+      action,
+      adminId: admin?.id || null,
+      username: admin?.username || 'admin',
+      role: admin?.role || null,
+      description: `${action === 'translation_deleted' ? 'Reverted' : 'Updated'} ${locale} message ${key}`,
+      details: { locale, key },
+      timestamp: new Date(),
+      ipAddress: ipAddress || null
+    });
+  }
+
+  private getCollection(name = 'translations'): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') throw new Error('MongoStorage raw collection access not available');
+    return base.getRawCollection(name);
+  }
+}
@@ -0,0 +1,273 @@
+import { MessageParams } from '../../types/i18n.types';
+
+/**
+ * Subset of ICU MessageFormat used by the catalogs: `{name}`,
+ * `{n, number}` / `{n, number, integer|percent}`, `{n, plural, …}` with
+ * `=N` cases, `offset:` and `#`, and `{key, select, …}`. An apostrophe
+ * quotes a following `{`, `}` or `#` (`'{'`), and `''` is a literal
+ * apostrophe; any other apostrophe is plain text, so "don't" needs no
+ * escaping.
+ */
+
+type MessageNode =
+  | string
+  | { kind: 'arg'; name: string; style?: 'number' | 'integer' | 'percent' }
+  | { kind: 'plural'; name: string; offset: number; options: Record<string, MessageNode[]> }
+  | { kind: 'select'; name: string; options: Record<string, MessageNode[]> }
+  | { kind: 'pound' };
+
+const CACHE_LIMIT = 2000;
+const compiled = new Map<string, MessageNode[]>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly src: string) {}
+
+  parse(): MessageNode[] {
+    const nodes = this.nodes(false);
+    if (this.pos < this.src.length) this.fail('Unexpected "}"');
+    return nodes;
+  }
+
+  private nodes(inPlural: boolean): MessageNode[] {
+    const out: MessageNode[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) out.push(text);
+      text = '';
+    };
+
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+      if (c === '}') break;
+      if (c === '{') {
+        flush();
+        out.push(this.argument(inPlural));
+        continue;
+      }
+      if (c === '#' && inPlural) {
+        flush();
+        out.push({ kind: 'pound' });
+        this.pos++;
+        continue;
+      }
+      if (c === "'") {
+        text += this.quoted(inPlural);
+        continue;
+      }
+      text += c;
+      this.pos++;
+    }
+    flush();
+    return out;
+  }
+
+  private quoted(inPlural: boolean): string {
+    const next = this.src[this.pos + 1];
+    if (next === "'") {
+      this.pos += 2;
+      return "'";
+    }
+    if (next !== '{' && next !== '}' && !(next === '#' && inPlural)) {
+      this.pos++;
+      return "'";
+    }
+    const end = this.src.indexOf("'", this.pos + 1);
+    const literal = this.src.slice(this.pos + 1, end === -1 ? undefined : end);
+    this.pos = end === -1 ? this.src.length : end + 1;
+    return literal;
+  }
+
+  private argument(inPlural: boolean): MessageNode {
+    this.pos++; // {
+    const name = this.word();
+    if (!name) this.fail('Expected an argument name');
+    this.space();
+    if (this.eat('}')) return { kind: 'arg', name };
+    if (!this.eat(',')) this.fail(`Expected "," or "}" after "${name}"`);
+
+    this.space();
+    const type = this.word();
+    this.space();
+    if (type === 'number') {
+      if (this.eat('}')) return { kind: 'arg', name, style: 'number' };
+      if (!this.eat(',')) this.fail('Expected "," or "}" after number');
+      this.space();
+      const style = this.word();
+      this.space();
+      if (style !== 'integer' && style !== 'percent') this.fail(`Unknown number style "${style}"`);
+      if (!this.eat('}')) this.fail('Expected "}"');
+      return { kind: 'arg', name, style: style as 'integer' | 'percent' };
+    }
+    if (type !== 'plural' && type !== 'select') this.fail(`Unknown argument type "${type}"`);
+    if (!this.eat(',')) this.fail(`Expected "," after ${type}`);
+
+    let offset = 0;
+    const options: Record<string, MessageNode[]> = {};
+    for (;;) {
+      this.space();
+      if (this.eat('}')) break;
+      if (this.pos >= this.src.length) this.fail(`Unclosed ${type} "${name}"`);
+
+      if (type === 'plural' && this.src.startsWith('offset:', this.pos)) {
+        this.pos += 'offset:'.length;
+        this.space();
+        const value = this.word();
+        offset = Number(value);
+        if (!value || !Number.isInteger(offset) || offset < 0) this.fail('Invalid plural offset');
+        continue;
+      }
+      const selector = this.selector();
+      if (!selector) this.fail(`Expected a ${type} case`);
+      this.space();
+      if (!this.eat('{')) this.fail(`Expected "{" after case "${selector}"`);
+      options[selector] = this.nodes(type === 'plural' ? true : inPlural);
+      if (!this.eat('}')) this.fail(`Unclosed case "${selector}"`);
+    }
+    if (!options.other) this.fail(`${type} "${name}" needs an "other" case`);
+    return type === 'plural' ? { kind: 'plural', name, offset, options } : { kind: 'select', name, options };
+  }
+
+  private selector(): string {
+    const start = this.pos;
+    if (this.src[this.pos] === '=') this.pos++;
+    while (this.pos < this.src.length && /[\w-]/.test(this.src[this.pos])) this.pos++;
+    return this.src.slice(start, this.pos);
+  }
+
+  private word(): string {
+    const start = this.pos;
+    while (this.pos < this.src.length && /[\w.-]/.test(this.src[this.pos])) this.pos++;
+    return this.src.slice(start, this.pos);
+  }
+
+  private space(): void {
+    while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) this.pos++;
+  }
+
+  private eat(char: string): boolean {
+    if (this.src[this.pos] !== char) return false;
+    this.pos++;
+    return true;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`${message} at position ${this.pos}`);
+  }
+}
+
+function compile(message: string): MessageNode[] {
+  let nodes = compiled.get(message);
+  if (!nodes) {
+    nodes = new Parser(message).parse();
+    if (compiled.size >= CACHE_LIMIT) compiled.clear();
+    compiled.set(message, nodes);
+  }
+  return nodes;
+}
+
+function rulesFor(locale: string): Intl.PluralRules {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    try {
+      rules = new Intl.PluralRules(locale);
+    } catch {
+      rules = new Intl.PluralRules('en');
+    }
+    pluralRules.set(locale, rules);
+  }
+  return rules;
+}
+
+function formatNumber(value: number, locale: string, style: 'number' | 'integer' | 'percent' = 'number'): string {
+  const key = `${locale}|${style}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    const options: Intl.NumberFormatOptions = style === 'integer'
+      ? { maximumFractionDigits: 0 }
+      : style === 'percent' ? { style: 'percent' } : {};
+    try {
+      format = new Intl.NumberFormat(locale, options);
+    } catch {
+      format = new Intl.NumberFormat('en', options);
+    }
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+}
+
+function render(nodes: MessageNode[], params: MessageParams, locale: string, pound?: number): string {
+  let out = '';
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      out += node;
+      continue;
+    }
+    switch (node.kind) {
+      case 'pound':
+        out += pound === undefined ? '#' : formatNumber(pound, locale);
+        break;
+      case 'arg': {
+        const value = params[node.name];
+        if (value === undefined || value === null) {
+          out += `{${node.name}}`;
+        } else if (node.style && typeof value === 'number') {
+          out += formatNumber(value, locale, node.style);
+        } else {
+          out += String(value);
+        }
+        break;
+      }
+      case 'plural': {
+        const value = Number(params[node.name]);
+        const exact = Number.isFinite(value) ? node.options[`=${value}`] : undefined;
+        const category = Number.isFinite(value) ? rulesFor(locale).select(value - node.offset) : 'other';
+        const branch = exact || node.options[category] || node.options.other;
+        out += render(branch, params, locale, Number.isFinite(value) ? value - node.offset : undefined);
+        break;
+      }
+      case 'select': {
+        const value = params[node.name];
+        const branch = node.options[String(value)] || node.options.other;
+        out += render(branch, params, locale, pound);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** Renders `message` for `locale`; missing params are left as `{name}` so gaps show up in the chat */
+export function formatMessage(message: string, params: MessageParams = {}, locale = 'en'): string {
+  return render(compile(message), params, locale);
+}
+
+export function validateMessage(message: string): { valid: boolean; error?: string } {
+  try {
+    compile(message);
+    return { valid: true };
+  } catch (error: any) {
+    return { valid: false, error: error?.message || 'Invalid message' };
+  }
+}
+
+/** Argument names a message refers to, sorted; empty for messages that do not parse */
+export function placeholdersOf(message: string): string[] {
+  const names = new Set<string>();
+  const walk = (nodes: MessageNode[]) => {
+    for (const node of nodes) {
+      if (typeof node === 'string' || node.kind === 'pound') continue;
+      names.add(node.name);
+      if (node.kind === 'plural' || node.kind === 'select') Object.values(node.options).forEach(walk);
+    }
+  };
+  try {
+    walk(compile(message));
+  } catch {
+    return [];
+  }
+  return [...names].sort();
+}
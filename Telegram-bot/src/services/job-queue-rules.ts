@@ -0,0 +1,54 @@
+import { QueuePolicy } from '../types/job-queue.types';
+
+/**
+ * Retry and polling arithmetic for AsyncJobQueueService. A job runs at most
+ * `maxAttempts` times; between runs it waits an exponentially growing delay
+ * with part of it randomised, then it is dead-lettered.
+ */
+
+export const MAX_RECORDED_ERRORS = 10;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Queue overrides on top of the configured defaults, with nonsense values pulled back into range */
+export function resolveQueuePolicy(defaults: QueuePolicy, override: Partial<QueuePolicy> = {}): QueuePolicy {
+  const merged = { ...defaults, ...override };
+  const policy: QueuePolicy = {
+    maxAttempts: clamp(Math.floor(merged.maxAttempts) || 1, 1, 100),
+    backoffBaseMs: clamp(merged.backoffBaseMs || 0, 0, 24 * 60 * 60 * 1000),
+    backoffMaxMs: 0,
+    jitter: clamp(Number.isFinite(merged.jitter) ? merged.jitter : 0, 0, 1),
+    visibilityTimeoutMs: clamp(merged.visibilityTimeoutMs || 0, 5000, 24 * 60 * 60 * 1000)
+  };
+  policy.backoffMaxMs = Math.max(policy.backoffBaseMs, merged.backoffMaxMs || 0);
+  if (merged.rateLimit && merged.rateLimit.max > 0 && merged.rateLimit.windowMs > 0) {
+    policy.rateLimit = { max: Math.floor(merged.rateLimit.max), windowMs: Math.floor(merged.rateLimit.windowMs) };
+  }
+  return policy;
+}
+
+/** Wait before the next run after `attemptsMade` failed runs; `random` is in [0, 1) */
+export function retryDelayMs(policy: QueuePolicy, attemptsMade: number, random: number = Math.random()): number {
+  const exponent = Math.max(0, attemptsMade - 1);
+  const delay = Math.min(policy.backoffMaxMs, policy.backoffBaseMs * Math.pow(2, Math.min(exponent, 30)));
+  return Math.round(delay * (1 - policy.jitter * random));
+}
+
+export function isExhausted(policy: QueuePolicy, attemptsMade: number): boolean {
+  return attemptsMade >= policy.maxAttempts;
+}
+
+/** Idle workers back off between polls and return to the minimum once they find work */
+export function nextPollDelay(current: number, minMs: number, maxMs: number): number {
+  return clamp(current > 0 ? current * 2 : minMs, minMs, maxMs);
+}
+
+/** Fixed window a job start falls into for per-queue rate limiting */
+export function rateWindow(now: number, windowMs: number): { start: number; end: number } {
+  const start = Math.floor(now / windowMs) * windowMs;
+  return { start, end: start + windowMs };
+}
+
+export function heartbeatIntervalMs(policy: QueuePolicy): number {
+  return Math.max(1000, Math.floor(policy.visibilityTimeoutMs / 3));
+}
@@ -147,6 +147,36 @@ export class JobSchedulerService {
       defaultPriority: 7,
       estimatedRunTime: 120000, // 2 minutes
       retryPolicy: { attempts: 2, backoff: 'fixed', delay: 2000 }
+    },
+    {
+      name: 'ledger_reconciliation',
+      description: 'Compare user balances with the points ledger and settle pending entries',
+      queueName: 'data_processing',
+      jobType: 'ledger_reconciliation',
+      defaultData: {},
+      defaultPriority: 6,
+      estimatedRunTime: 600000, // 10 minutes
+      retryPolicy: { attempts: 2, backoff: 'exponential', delay: 10000 }
+    },
+    {
+      name: 'referral_sweep',
+      description: 'Retry referral unlocks and claw back referrals of multi-account referees',
+      queueName: 'data_processing',
+      jobType: 'referral_sweep',
+      defaultData: {},
+      defaultPriority: 5,
+      estimatedRunTime: 120000, // 2 minutes
+      retryPolicy: { attempts: 2, backoff: 'fixed', delay: 30000 }
+    },
+    {
+      name: 'membership_sweep',
+      description: 'Apply leave policies after the grace period and re-check members of task chats',
+      queueName: 'data_processing',
+      jobType: 'membership_sweep',
+      defaultData: {},
+      defaultPriority: 5,
+      estimatedRunTime: 120000, // 2 minutes
+      retryPolicy: { attempts: 2, backoff: 'fixed', delay: 30000 }
     }
   ];
 
@@ -597,6 +627,27 @@ export class JobSchedulerService {
         templateName: 'broadcast_queue_optimization',
         priority: 7,
         enabled: true
+      },
+      {
+        name: 'Daily Ledger Reconciliation',
+        cronExpression: '30 3 * * *', // Every day at 3:30 AM
+        templateName: 'ledger_reconciliation',
+        priority: 6,
+        enabled: true
+      },
+      {
+        name: 'Referral Sweep',
+        cronExpression: '*/15 * * * *', // Every 15 minutes
+        templateName: 'referral_sweep',
+        priority: 5,
+        enabled: true
+      },
+      {
+        name: 'Channel Membership Sweep',
+        cronExpression: '*/5 * * * *', // Every 5 minutes
+        templateName: 'membership_sweep',
+        priority: 5,
+        enabled: true
       }
     ];
 
@@ -0,0 +1,273 @@
+import { Logger } from '../logger';
+import { StorageManager } from '../../storage';
+import { getConfig } from '../../config';
+import { PointsLedgerService } from './points-ledger.service';
+import { computeDrift, resolvePendingEntries } from './reconciliation-rules';
+
+export type ReconciliationRepairMode = 'none' | 'rebuild' | 'backfill';
+
+export interface LedgerDriftRecord {
+  userId: string;
+  storedBalance: number;
+  ledgerBalance: number;
+  drift: number;
+  entries: number;
+  action: 'reported' | 'rebuilt' | 'backfilled' | 'deferred' | 'skipped';
+}
+
+export interface ReconciliationReport {
+  runId: string;
+  mode: ReconciliationRepairMode;
+  startedAt: string;
+  finishedAt?: string;
+  usersScanned: number;
+  usersWithDrift: number;
+  totalDrift: number;
+  repaired: number;
+  pending: {
+    committed: number;
+    voided: number;
+    unresolved: number;
+  };
+  /** Drifted users left alone because a posting for them is in flight or landed mid-check */
+  deferred: number;
+  drifts: LedgerDriftRecord[];
+}
+
+export interface ReconciliationOptions {
+  repair?: ReconciliationRepairMode;
+  userIds?: string[];
+  batchSize?: number;
+  /** Cap on drift records kept in the report (all drifted users are still repaired) */
+  maxReported?: number;
+}
+
+/**
+ * Compares every user's `points` with the sum of their `point_transactions`,
+ * settles pending entries left by interrupted postings and optionally repairs
+ * drifted balances.
+ */
+export class LedgerReconciliationService {
+  private static instance: LedgerReconciliationService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly ledger = PointsLedgerService.getInstance();
+  private running = false;
+  private lastReport: ReconciliationReport | null = null;
+
+  private constructor() {}
+
+  static getInstance(): LedgerReconciliationService {
+    if (!LedgerReconciliationService.instance) {
+      LedgerReconciliationService.instance = new LedgerReconciliationService();
+    }
+    return LedgerReconciliationService.instance;
+  }
+
+  getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  async reconcile(options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+    if (this.running) {
+      throw new Error('Ledger reconciliation already running');
+    }
+    this.running = true;
+
+    const config = getConfig().points.ledger;
+    const mode = options.repair ?? config.autoRepair;
+    const batchSize = Math.max(50, options.batchSize ?? config.reconcileBatchSize);
+    const maxReported = options.maxReported ?? 1000;
+
+    const report: ReconciliationReport = {
+      runId: `recon_${Date.now()}`,
+      mode,
+      startedAt: new Date().toISOString(),
+      usersScanned: 0,
+      usersWithDrift: 0,
+      totalDrift: 0,
+      repaired: 0,
+      pending: { committed: 0, voided: 0, unresolved: 0 },
+      deferred: 0,
+      drifts: []
+    };
+
+    try {
+      report.pending = await this.settlePendingEntries(config.pendingGraceMinutes, options.userIds);
+
+      const users = this.getCollection('users');
+      const baseFilter: any = options.userIds?.length ? { id: { $in: options.userIds } } : {};
+      let lastId: string | null = null;
+
+      while (true) {
+        const filter = lastId ? { ...baseFilter, id: { ...(baseFilter.id || {}), $gt: lastId } } : baseFilter;
+        const batch = await users.find(filter, { projection: { _id: 0, id: 1, points: 1 } })
+          .sort({ id: 1 })
+          .limit(batchSize)
+          .toArray();
+        if (batch.length === 0) break;
+        lastId = String(batch[batch.length - 1].id);
+
+        const batchIds = batch.map((u: any) => String(u.id));
+        const sums = await this.getLedgerSums(batchIds);
+        const inFlight = await this.getUsersWithYoungPending(batchIds, config.pendingGraceMinutes);
+
+        for (const user of batch) {
+          report.usersScanned++;
+          const userId = String(user.id);
+          const ledgerRow = sums.get(userId) || { balance: 0, entries: 0 };
+          const drift = computeDrift(user.points, ledgerRow.balance);
+          if (drift === 0) continue;
+
+          report.usersWithDrift++;
+          report.totalDrift += drift;
+
+          const record: LedgerDriftRecord = {
+            userId,
+            storedBalance: Number(user.points || 0),
+            ledgerBalance: ledgerRow.balance,
+            drift,
+            entries: ledgerRow.entries,
+            action: 'reported'
+          };
+
+          if (mode !== 'none' && inFlight.has(userId)) {
+            // A post() may sit between its $inc and its commit: the stored balance already
+            // counts an entry the ledger sum does not, so repairing now would lose or double it
+            record.action = 'deferred';
+            report.deferred++;
+          } else if (mode !== 'none') {
+            record.action = await this.repairUser(record, mode, report.runId);
+            if (record.action === 'deferred') report.deferred++;
+            else if (record.action !== 'skipped') report.repaired++;
+          }
+
+          if (report.drifts.length < maxReported) report.drifts.push(record);
+        }
+
+        if (batch.length < batchSize) break;
+      }
+
+      report.finishedAt = new Date().toISOString();
+      this.lastReport = report;
+
+      const level = report.usersWithDrift > 0 || report.pending.unresolved > 0 ? 'warn' : 'info';
+      this.logger[level]('Ledger reconciliation finished', {
+        runId: report.runId,
+        mode,
+        usersScanned: report.usersScanned,
+        usersWithDrift: report.usersWithDrift,
+        totalDrift: report.totalDrift,
+        repaired: report.repaired,
+        pending: report.pending,
+        deferred: report.deferred
+      });
+
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async repairUser(record: LedgerDriftRecord, mode: Exclude<ReconciliationRepairMode, 'none'>, runId: string): Promise<LedgerDriftRecord['action']> {
+    try {
+      if (mode === 'rebuild') {
+        const result = await this.ledger.rebuildBalance(record.userId, record.storedBalance);
+        return result.success ? 'rebuilt' : 'skipped';
+      }
+
+      // The balance and ledger sum come from separate reads; a post between them
+      // shows up as drift, so the entry is only written if neither has moved since
+      const entry = await this.ledger.appendAdjustment(
+        record.userId,
+        record.drift,
+        'Ledger reconciliation adjustment',
+        `reconcile:${runId}:${record.userId}`,
+        { runId, storedBalance: record.storedBalance, ledgerBalance: record.ledgerBalance },
+        { balance: record.storedBalance, ledgerBalance: record.ledgerBalance, entries: record.entries }
+      );
+      return entry ? 'backfilled' : 'deferred';
+    } catch (error) {
+      this.logger.error('Ledger repair failed', { userId: record.userId, mode, error: (error as any)?.message || String(error) });
+      return 'skipped';
+    }
+  }
+
+  private async settlePendingEntries(graceMinutes: number, userIds?: string[]): Promise<ReconciliationReport['pending']> {
+    const result = { committed: 0, voided: 0, unresolved: 0 };
+    const ledger = this.getCollection('point_transactions');
+    const cutoff = new Date(Date.now() - Math.max(1, graceMinutes) * 60_000);
+
+    const match: any = { status: 'pending', createdAt: { $lt: cutoff } };
+    if (userIds?.length) match.userId = { $in: userIds };
+
+    const groups = await ledger.aggregate([
+      { $match: match },
+      { $group: { _id: '$userId', ids: { $push: '$id' }, sum: { $sum: '$amount' } } }
+    ]).toArray();
+
+    for (const group of groups) {
+      const userId = String(group._id);
+      const storedBalance = await this.ledger.getBalance(userId);
+      const { balance: committedSum } = await this.ledger.getLedgerBalance(userId);
+      const decision = resolvePendingEntries(storedBalance, committedSum, Number(group.sum || 0));
+
+      if (decision === 'commit') {
+        await ledger.updateMany(
+          { id: { $in: group.ids }, status: 'pending' },
+          { $set: { status: 'committed', committedAt: new Date(), settledBy: 'reconciliation' } }
+        );
+        result.committed += group.ids.length;
+      } else if (decision === 'void') {
+        await ledger.updateMany(
+          { id: { $in: group.ids }, status: 'pending' },
+          { $set: { status: 'void', voidReason: 'balance_not_applied', settledBy: 'reconciliation' } }
+        );
+        result.voided += group.ids.length;
+      } else {
+        result.unresolved += group.ids.length;
+        this.logger.warn('Pending ledger entries could not be settled automatically', {
+          userId,
+          storedBalance,
+          committedSum,
+          pendingSum: group.sum,
+          entryIds: group.ids
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /** Users with pending entries still inside the grace window, i.e. postings that may yet commit */
+  private async getUsersWithYoungPending(userIds: string[], graceMinutes: number): Promise<Set<string>> {
+    const cutoff = new Date(Date.now() - Math.max(1, graceMinutes) * 60_000);
+    const ids = await this.getCollection('point_transactions').distinct('userId', {
+      userId: { $in: userIds },
+      status: 'pending',
+      createdAt: { $gte: cutoff }
+    });
+    return new Set(ids.map((id: any) => String(id)));
+  }
+
+  private async getLedgerSums(userIds: string[]): Promise<Map<string, { balance: number; entries: number }>> {
+    const rows = await this.getCollection('point_transactions').aggregate([
+      { $match: { userId: { $in: userIds }, status: { $nin: ['pending', 'void'] } } },
+      { $group: { _id: '$userId', balance: { $sum: '$amount' }, entries: { $sum: 1 } } }
+    ]).toArray();
+
+    const sums = new Map<string, { balance: number; entries: number }>();
+    for (const row of rows) {
+      sums.set(String(row._id), { balance: Number(row.balance || 0), entries: Number(row.entries || 0) });
+    }
+    return sums;
+  }
+
+  private getCollection(name: string): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
@@ -0,0 +1,533 @@
+import { ClientSession } from 'mongodb';
+import { Logger } from '../logger';
+import { StorageManager } from '../../storage';
+import { PointTransaction } from '../../types';
+
+export type LedgerEntryStatus = 'pending' | 'committed' | 'void';
+
+export interface LedgerEntry extends Omit<PointTransaction, 'metadata'> {
+  status: LedgerEntryStatus;
+  createdAt: Date;
+  committedAt?: Date;
+  metadata?: Record<string, any>;
+}
+
+export interface LedgerPostRequest {
+  userId: string;
+  /** Signed amount: positive credits the user, negative debits */
+  amount: number;
+  type: PointTransaction['type'];
+  description: string;
+  source?: string;
+  /** Replaying the same key returns the original entry instead of moving points twice */
+  idempotencyKey?: string;
+  metadata?: Record<string, any>;
+  /** Let a debit push the balance below zero (default: reject with insufficient_balance) */
+  allowNegativeBalance?: boolean;
+  /** Debit at most the current balance instead of rejecting (admin penalties) */
+  clampToZero?: boolean;
+  /** Extra counters to $inc on the user in the same write (e.g. totalEarned) */
+  userInc?: Record<string, number>;
+  /** Extra fields to $set on the user in the same write (e.g. lastPointsEarned) */
+  userSet?: Record<string, any>;
+}
+
+export interface LedgerPostResult {
+  success: boolean;
+  newBalance: number;
+  entry?: LedgerEntry;
+  duplicate?: boolean;
+  error?: 'user_not_found' | 'insufficient_balance' | 'invalid_amount' | 'storage_error';
+}
+
+export interface LedgerTransferRequest {
+  transferId: string;
+  senderId: string;
+  receiverId: string;
+  /** Total removed from the sender (amount + fee) */
+  debitAmount: number;
+  /** Net amount credited to the receiver */
+  creditAmount: number;
+  senderDescription: string;
+  receiverDescription: string;
+  metadata?: Record<string, any>;
+}
+
+export interface LedgerTransferResult {
+  success: boolean;
+  senderBalance: number;
+  receiverBalance: number;
+  duplicate?: boolean;
+  error?: LedgerPostResult['error'];
+}
+
+class LedgerRejection extends Error {
+  constructor(public readonly code: NonNullable<LedgerPostResult['error']>) {
+    super(code);
+  }
+}
+
+const LEDGER_COLLECTION = 'point_transactions';
+
+/**
+ * Double-entry points ledger.
+ *
+ * Every balance change is a single `$inc` on `users.points` paired with an
+ * entry in `point_transactions`. When the deployment runs on a replica set
+ * both writes share one MongoDB transaction; on a standalone server the entry
+ * is written as `pending` first, the balance is moved with a conditional
+ * update, and the entry is then committed. Pending entries left behind by a
+ * crash are settled by LedgerReconciliationService.
+ */
+export class PointsLedgerService {
+  private static instance: PointsLedgerService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private transactionsSupported: boolean | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PointsLedgerService {
+    if (!PointsLedgerService.instance) {
+      PointsLedgerService.instance = new PointsLedgerService();
+    }
+    return PointsLedgerService.instance;
+  }
+
+  /**
+   * Apply one signed balance change and record it in the ledger
+   */
+  async post(request: LedgerPostRequest): Promise<LedgerPostResult> {
+    if (!Number.isFinite(request.amount) || request.amount === 0) {
+      return { success: false, newBalance: 0, error: 'invalid_amount' };
+    }
+
+    try {
+      if (request.idempotencyKey) {
+        const existing = await this.findByIdempotencyKey(request.idempotencyKey);
+        if (existing) return this.duplicateResult(request.userId, existing);
+      }
+
+      if (await this.canUseTransactions()) {
+        try {
+          return await this.withTransaction((session) => this.applyEntry(request, session));
+        } catch (error) {
+          if (!this.isTransactionUnsupported(error)) throw error;
+          this.transactionsSupported = false;
+          this.logger.warn('MongoDB transactions unavailable, ledger falls back to pending-entry protocol');
+        }
+      }
+
+      return await this.applyEntryWithoutTransaction(request);
+    } catch (error) {
+      if (error instanceof LedgerRejection) {
+        return { success: false, newBalance: await this.getBalance(request.userId), error: error.code };
+      }
+      if (this.isDuplicateKey(error) && request.idempotencyKey) {
+        const existing = await this.findByIdempotencyKey(request.idempotencyKey);
+        if (existing) return this.duplicateResult(request.userId, existing);
+      }
+      this.logger.error('Ledger post failed', { userId: request.userId, amount: request.amount, error: (error as any)?.message || String(error) });
+      return { success: false, newBalance: 0, error: 'storage_error' };
+    }
+  }
+
+  /**
+   * Move points between two users as one unit: either both legs land or neither does
+   */
+  async transfer(request: LedgerTransferRequest): Promise<LedgerTransferResult> {
+    const debitKey = `transfer:${request.transferId}:debit`;
+    const creditKey = `transfer:${request.transferId}:credit`;
+
+    const debit: LedgerPostRequest = {
+      userId: request.senderId,
+      amount: -Math.abs(request.debitAmount),
+      type: 'transfer_sent',
+      description: request.senderDescription,
+      idempotencyKey: debitKey,
+      metadata: { ...request.metadata, transferId: request.transferId, receiverId: request.receiverId }
+    };
+    const credit: LedgerPostRequest = {
+      userId: request.receiverId,
+      amount: Math.abs(request.creditAmount),
+      type: 'transfer_received',
+      description: request.receiverDescription,
+      idempotencyKey: creditKey,
+      metadata: { ...request.metadata, transferId: request.transferId, senderId: request.senderId }
+    };
+
+    try {
+      const existingDebit = await this.findByIdempotencyKey(debitKey);
+      if (existingDebit) {
+        return {
+          success: true,
+          duplicate: true,
+          senderBalance: await this.getBalance(request.senderId),
+          receiverBalance: await this.getBalance(request.receiverId)
+        };
+      }
+
+      if (await this.canUseTransactions()) {
+        try {
+          return await this.withTransaction(async (session) => {
+            const sent = await this.applyEntry(debit, session);
+            const received = await this.applyEntry(credit, session);
+            return { success: true, senderBalance: sent.newBalance, receiverBalance: received.newBalance };
+          });
+        } catch (error) {
+          if (!this.isTransactionUnsupported(error)) throw error;
+          this.transactionsSupported = false;
+        }
+      }
+
+      // Without transactions the debit goes first; if the credit cannot land
+      // the debit is reversed with a compensating entry.
+      const sent = await this.post(debit);
+      if (!sent.success) {
+        return { success: false, senderBalance: sent.newBalance, receiverBalance: await this.getBalance(request.receiverId), error: sent.error };
+      }
+      const received = await this.post(credit);
+      if (!received.success) {
+        await this.post({
+          userId: request.senderId,
+          amount: Math.abs(request.debitAmount),
+          type: 'refund',
+          description: `Transfer ${request.transferId} reversed`,
+          idempotencyKey: `transfer:${request.transferId}:reversal`,
+          metadata: { transferId: request.transferId, reason: received.error }
+        });
+        return { success: false, senderBalance: await this.getBalance(request.senderId), receiverBalance: received.newBalance, error: received.error };
+      }
+      return { success: true, senderBalance: sent.newBalance, receiverBalance: received.newBalance };
+    } catch (error) {
+      if (error instanceof LedgerRejection) {
+        return {
+          success: false,
+          senderBalance: await this.getBalance(request.senderId),
+          receiverBalance: await this.getBalance(request.receiverId),
+          error: error.code
+        };
+      }
+      this.logger.error('Ledger transfer failed', { transferId: request.transferId, error: (error as any)?.message || String(error) });
+      return { success: false, senderBalance: 0, receiverBalance: 0, error: 'storage_error' };
+    }
+  }
+
+  /**
+   * Current balance as stored on the user document
+   */
+  async getBalance(userId: string): Promise<number> {
+    try {
+      const user = await this.getUsersCollection().findOne(this.userFilter(userId), { projection: { points: 1 } });
+      return Number(user?.points || 0);
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Balance derived purely from committed ledger entries
+   */
+  async getLedgerBalance(userId: string): Promise<{ balance: number; entries: number }> {
+    const rows = await this.getLedgerCollection().aggregate([
+      { $match: { userId, status: { $nin: ['pending', 'void'] } } },
+      { $group: { _id: null, balance: { $sum: '$amount' }, entries: { $sum: 1 } } }
+    ]).toArray();
+    return { balance: Number(rows[0]?.balance || 0), entries: Number(rows[0]?.entries || 0) };
+  }
+
+  /**
+   * Committed ledger entries for a user, newest first
+   */
+  async getEntries(userId: string, limit: number = 100): Promise<LedgerEntry[]> {
+    const docs = await this.getLedgerCollection()
+      .find({ userId })
+      .sort({ createdAt: -1 })
+      .limit(Math.max(1, Math.min(1000, limit)))
+      .project({ _id: 0, _updatedAt: 0 })
+      .toArray();
+    return docs as LedgerEntry[];
+  }
+
+  /**
+   * Overwrite a user's balance with the sum of their committed ledger entries.
+   * Only succeeds when the balance still equals `expectedBalance`, so a
+   * concurrent post between the read and the write is never lost.
+   */
+  async rebuildBalance(userId: string, expectedBalance?: number): Promise<{ success: boolean; previousBalance: number; newBalance: number }> {
+    const users = this.getUsersCollection();
+    const current = expectedBalance ?? await this.getBalance(userId);
+    const { balance } = await this.getLedgerBalance(userId);
+    const filter: any = { ...this.userFilter(userId), points: current };
+    if (current === 0) filter.points = { $in: [0, null] };
+    const result = await users.updateOne(filter, { $set: { points: balance, ledgerRebuiltAt: new Date().toISOString() } });
+    return { success: result.matchedCount > 0, previousBalance: current, newBalance: result.matchedCount > 0 ? balance : current };
+  }
+
+  /**
+   * Record a committed entry without moving the balance. Used by
+   * reconciliation to bring the ledger in line with balances that predate it.
+   *
+   * `expected` is what the drift was computed from. The balance and ledger are
+   * read again and nothing is written (null) if either moved or a posting is
+   * pending, since a post landing between the two original reads makes the
+   * drift wrong and the entry would be permanent.
+   */
+  async appendAdjustment(
+    userId: string,
+    amount: number,
+    description: string,
+    idempotencyKey: string,
+    metadata: Record<string, any> = {},
+    expected?: { balance: number; ledgerBalance: number; entries: number }
+  ): Promise<LedgerEntry | null> {
+    const existing = await this.findByIdempotencyKey(idempotencyKey);
+    if (existing) return existing;
+
+    const balance = await this.getBalance(userId);
+    if (expected) {
+      // Balance first, then the ledger, then pending: an $inc after the balance
+      // read either commits before the ledger read or is still pending after it
+      const ledgerNow = await this.getLedgerBalance(userId);
+      const pending = await this.getLedgerCollection().countDocuments({ userId, status: 'pending' }, { limit: 1 });
+      if (balance !== expected.balance || ledgerNow.balance !== expected.ledgerBalance || ledgerNow.entries !== expected.entries || pending > 0) {
+        return null;
+      }
+    }
+    const entry = this.buildEntry(
+      { userId, amount, type: 'adjustment', source: 'reconciliation', description, idempotencyKey, metadata },
+      amount,
+      'committed',
+      balance
+    );
+    try {
+      await this.getLedgerCollection().insertOne({ ...entry } as any);
+    } catch (error) {
+      if (this.isDuplicateKey(error)) return this.findByIdempotencyKey(idempotencyKey);
+      throw error;
+    }
+    return entry;
+  }
+
+  private async applyEntry(request: LedgerPostRequest, session: ClientSession): Promise<LedgerPostResult> {
+    const users = this.getUsersCollection();
+    const ledger = this.getLedgerCollection();
+
+    const before = await users.findOne(this.userFilter(request.userId), { session, projection: { points: 1 } });
+    if (!before) throw new LedgerRejection('user_not_found');
+
+    const currentBalance = Number(before.points || 0);
+    const amount = this.resolveAmount(request, currentBalance);
+    if (amount === null) throw new LedgerRejection('insufficient_balance');
+
+    const after = await users.findOneAndUpdate(
+      this.balanceFilter(request, amount),
+      this.balanceUpdate(request, amount),
+      { session, returnDocument: 'after', projection: { points: 1 } }
+    );
+    const updated: any = (after as any)?.value !== undefined ? (after as any).value : after;
+    if (!updated) throw new LedgerRejection('insufficient_balance');
+
+    const newBalance = Number(updated.points || 0);
+    const entry = this.buildEntry(request, amount, 'committed', newBalance);
+    await ledger.insertOne({ ...entry } as any, { session });
+
+    this.logPosted(entry);
+    return { success: true, newBalance, entry };
+  }
+
+  private async applyEntryWithoutTransaction(request: LedgerPostRequest): Promise<LedgerPostResult> {
+    const users = this.getUsersCollection();
+    const ledger = this.getLedgerCollection();
+
+    const before = await users.findOne(this.userFilter(request.userId), { projection: { points: 1 } });
+    if (!before) return { success: false, newBalance: 0, error: 'user_not_found' };
+
+    const amount = this.resolveAmount(request, Number(before.points || 0));
+    if (amount === null) return { success: false, newBalance: Number(before.points || 0), error: 'insufficient_balance' };
+
+    // 1. Reserve the entry (and the idempotency key) before touching the balance
+    const entry = this.buildEntry(request, amount, 'pending');
+    try {
+      await ledger.insertOne({ ...entry } as any);
+    } catch (error) {
+      if (this.isDuplicateKey(error) && request.idempotencyKey) {
+        const existing = await this.findByIdempotencyKey(request.idempotencyKey);
+        if (existing) return this.duplicateResult(request.userId, existing);
+      }
+      throw error;
+    }
+
+    // 2. Move the balance with a single conditional $inc
+    let updated: any = null;
+    try {
+      const after = await users.findOneAndUpdate(
+        this.balanceFilter(request, amount),
+        this.balanceUpdate(request, amount),
+        { returnDocument: 'after', projection: { points: 1 } }
+      );
+      updated = (after as any)?.value !== undefined ? (after as any).value : after;
+    } catch (error) {
+      await ledger.updateOne({ id: entry.id, status: 'pending' }, { $set: { status: 'void', voidReason: 'balance_update_failed' } });
+      throw error;
+    }
+
+    if (!updated) {
+      await ledger.updateOne({ id: entry.id, status: 'pending' }, { $set: { status: 'void', voidReason: 'insufficient_balance' } });
+      return { success: false, newBalance: await this.getBalance(request.userId), error: 'insufficient_balance' };
+    }
+
+    // 3. Commit the entry
+    const newBalance = Number(updated.points || 0);
+    const committedAt = new Date();
+    await ledger.updateOne({ id: entry.id }, { $set: { status: 'committed', balanceAfter: newBalance, committedAt } });
+
+    const committed: LedgerEntry = { ...entry, status: 'committed', balanceAfter: newBalance, committedAt };
+    this.logPosted(committed);
+    return { success: true, newBalance, entry: committed };
+  }
+
+  /**
+   * Amount that will actually move, or null if the debit is not allowed
+   */
+  private resolveAmount(request: LedgerPostRequest, currentBalance: number): number | null {
+    if (request.amount > 0 || request.allowNegativeBalance) return request.amount;
+    if (request.clampToZero) {
+      const clamped = -Math.min(Math.abs(request.amount), Math.max(0, currentBalance));
+      return clamped === 0 ? null : clamped;
+    }
+    return currentBalance + request.amount >= 0 ? request.amount : null;
+  }
+
+  private balanceFilter(request: LedgerPostRequest, amount: number): any {
+    const filter: any = this.userFilter(request.userId);
+    if (amount < 0 && !request.allowNegativeBalance) {
+      filter.points = { $gte: Math.abs(amount) };
+    }
+    return filter;
+  }
+
+  private balanceUpdate(request: LedgerPostRequest, amount: number): any {
+    const update: any = {
+      $inc: { points: amount, ...(request.userInc || {}) },
+      $set: { _updatedAt: new Date().toISOString(), ...(request.userSet || {}) }
+    };
+    return update;
+  }
+
+  private buildEntry(request: LedgerPostRequest, amount: number, status: LedgerEntryStatus, balanceAfter?: number): LedgerEntry {
+    const now = new Date();
+    const entry: LedgerEntry = {
+      id: `tx_${now.getTime()}_${request.userId}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: request.userId,
+      amount,
+      type: request.type,
+      source: request.source || 'system',
+      description: request.description,
+      timestamp: now,
+      createdAt: now,
+      status,
+      metadata: {
+        ...(request.metadata || {}),
+        ...(amount !== request.amount ? { requestedAmount: request.amount } : {})
+      }
+    };
+    if (request.idempotencyKey) entry.idempotencyKey = request.idempotencyKey;
+    if (status === 'committed') {
+      entry.balanceAfter = balanceAfter;
+      entry.committedAt = now;
+    }
+    return entry;
+  }
+
+  private async duplicateResult(userId: string, existing: LedgerEntry): Promise<LedgerPostResult> {
+    this.logger.info('Ledger post skipped: idempotency key already used', { userId, idempotencyKey: existing.idempotencyKey, entryId: existing.id });
+    return {
+      success: existing.status !== 'void',
+      duplicate: true,
+      entry: existing,
+      newBalance: await this.getBalance(userId),
+      error: existing.status === 'void' ? 'insufficient_balance' : undefined
+    };
+  }
+
+  private async findByIdempotencyKey(key: string): Promise<LedgerEntry | null> {
+    const doc = await this.getLedgerCollection().findOne({ idempotencyKey: key }, { projection: { _id: 0, _updatedAt: 0 } });
+    return (doc as any) || null;
+  }
+
+  private logPosted(entry: LedgerEntry): void {
+    this.logger.info(`Ledger entry posted: ${entry.amount} for user ${entry.userId}`, {
+      entryId: entry.id,
+      type: entry.type,
+      balanceAfter: entry.balanceAfter,
+      idempotencyKey: entry.idempotencyKey
+    });
+  }
+
+  private async withTransaction<T>(fn: (session: ClientSession) => Promise<T>): Promise<T> {
+    const client = this.getClient();
+    const session = client.startSession();
+    try {
+      let result: T | undefined;
+      await session.withTransaction(async () => {
+        result = await fn(session);
+      }, { readConcern: { level: 'snapshot' }, writeConcern: { w: 'majority' } } as any);
+      return result as T;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  private async canUseTransactions(): Promise<boolean> {
+    if (this.transactionsSupported !== null) return this.transactionsSupported;
+    if (process.env.LEDGER_DISABLE_TRANSACTIONS === 'true') {
+      this.transactionsSupported = false;
+      return false;
+    }
+    try {
+      const hello: any = await this.getClient().db().admin().command({ hello: 1 });
+      this.transactionsSupported = !!(hello?.setName || hello?.msg === 'isdbgrid');
+    } catch {
+      this.transactionsSupported = false;
+    }
+    this.logger.info(`Points ledger using ${this.transactionsSupported ? 'MongoDB transactions' : 'pending-entry protocol'}`);
+    return this.transactionsSupported;
+  }
+
+  private isTransactionUnsupported(error: any): boolean {
+    const msg = (error?.message || '').toString();
+    return error?.code === 20 || msg.includes('Transaction numbers are only allowed') || msg.includes('does not support transactions');
+  }
+
+  private isDuplicateKey(error: any): boolean {
+    return error?.code === 11000;
+  }
+
+  private userFilter(userId: string): any {
+    return { $or: [{ id: userId }, { telegramId: userId }] };
+  }
+
+  private getMongo(): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function' || typeof base.getRawClient !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base;
+  }
+
+  private getClient(): any {
+    return this.getMongo().getRawClient();
+  }
+
+  private getUsersCollection(): any {
+    return this.getMongo().getRawCollection('users');
+  }
+
+  private getLedgerCollection(): any {
+    return this.getMongo().getRawCollection(LEDGER_COLLECTION);
+  }
+}
+
+export const pointsLedger = PointsLedgerService.getInstance();
+export default pointsLedger;
@@ -0,0 +1,19 @@
+/**
+ * Difference between the stored balance and the ledger sum (positive when
+ * the user holds more points than the ledger explains)
+ */
+export function computeDrift(storedBalance: number | null | undefined, ledgerBalance: number): number {
+  return Number(storedBalance || 0) - Number(ledgerBalance || 0);
+}
+
+/**
+ * Decide what to do with stale pending entries for one user. If the stored
+ * balance already includes them the balance update landed and the entries
+ * only missed their commit; if it equals the committed sum the balance update
+ * never happened.
+ */
+export function resolvePendingEntries(storedBalance: number, committedSum: number, pendingSum: number): 'commit' | 'void' | 'unresolved' {
+  if (storedBalance === committedSum + pendingSum) return 'commit';
+  if (storedBalance === committedSum) return 'void';
+  return 'unresolved';
+}
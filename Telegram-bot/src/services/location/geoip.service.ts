@@ -0,0 +1,202 @@
+import fs from 'fs';
+import { LRUCache } from 'lru-cache';
+import { Logger } from '../logger';
+import { config } from '../../config';
+import { MmdbReader } from './mmdb-reader';
+
+export interface GeoIpRecord {
+  ip: string;
+  country?: string;
+  countryCode?: string;
+  region?: string;
+  regionCode?: string;
+  city?: string;
+  latitude?: number;
+  longitude?: number;
+  accuracyRadiusKm?: number;
+  timezone?: string;
+  asn?: number;
+  asnOrganization?: string;
+  /** Network belongs to a hosting/datacenter provider */
+  hosting: boolean;
+}
+
+export interface GeoIpDatabaseStatus {
+  kind: 'city' | 'asn';
+  path: string;
+  loaded: boolean;
+  databaseType?: string;
+  builtAt?: string;
+  loadedAt?: string;
+  error?: string;
+}
+
+type DatabaseKind = GeoIpDatabaseStatus['kind'];
+
+interface LoadedDatabase {
+  reader: MmdbReader | null;
+  mtimeMs: number;
+  loadedAt?: string;
+  error?: string;
+}
+
+/**
+ * Organization names of the large cloud, VPS and colocation providers. Kept
+ * deliberately to names that only appear on hosting ASNs; deployments add
+ * their own ASNs through GEOIP_HOSTING_ASNS.
+ */
+const HOSTING_ORGANIZATION = new RegExp([
+  'amazon', 'aws', 'google cloud', 'google llc', 'microsoft', 'azure', 'digitalocean', 'linode', 'akamai',
+  'vultr', 'choopa', 'ovh', 'hetzner', 'contabo', 'scaleway', 'online s\\.a\\.s', 'leaseweb', 'alibaba',
+  'tencent', 'oracle', 'ionos', 'hostinger', 'm247', 'datacamp', 'cloudflare', 'fastly', 'hosting',
+  'data ?center', 'datacentre', 'server', 'vps', 'colo'
+].join('|'), 'i');
+
+const EMPTY_DATABASE: LoadedDatabase = { reader: null, mtimeMs: 0 };
+
+/** Whether an ASN or its organization name belongs to a hosting provider */
+export function isHostingNetwork(asn: number | undefined, organization: string | undefined, extraAsns: number[] = []): boolean {
+  if (asn && extraAsns.includes(asn)) return true;
+  return !!organization && HOSTING_ORGANIZATION.test(organization);
+}
+
+/**
+ * Offline IP geolocation from MaxMind-format databases (GeoLite2 City and
+ * ASN) on disk. Lookups are cached in an LRU, and the files are polled so a
+ * replaced database is picked up without a restart.
+ */
+export class GeoIpService {
+  private static instance: GeoIpService;
+  private readonly logger = Logger.getInstance();
+  private readonly databases: Record<DatabaseKind, LoadedDatabase> = { city: EMPTY_DATABASE, asn: EMPTY_DATABASE };
+  private readonly cache: LRUCache<string, { record: GeoIpRecord | null }>;
+  private watching = false;
+
+  private constructor() {
+    const { cacheSize, cacheTtlMs } = config.security.geoip;
+    this.cache = new LRUCache({ max: Math.max(1, cacheSize), ttl: cacheTtlMs > 0 ? cacheTtlMs : undefined });
+  }
+
+  static getInstance(): GeoIpService {
+    if (!GeoIpService.instance) {
+      GeoIpService.instance = new GeoIpService();
+      GeoIpService.instance.initialize();
+    }
+    return GeoIpService.instance;
+  }
+
+  /** True when at least one database is loaded */
+  isAvailable(): boolean {
+    return !!(this.databases.city.reader || this.databases.asn.reader);
+  }
+
+  /**
+   * Look up an address in the local databases. Returns null when no
+   * database is loaded or neither knows the address.
+   */
+  lookup(ip: string): GeoIpRecord | null {
+    if (!this.isAvailable()) return null;
+    const key = String(ip || '').trim().toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached) return cached.record;
+
+    let record: GeoIpRecord | null = null;
+    try {
+      record = this.readRecord(key);
+    } catch (error: any) {
+      this.logger.warn('GeoIP lookup failed', { ip: key, error: error?.message });
+    }
+    this.cache.set(key, { record });
+    return record;
+  }
+
+  getStatus(): GeoIpDatabaseStatus[] {
+    const { cityDbPath, asnDbPath } = config.security.geoip;
+    return ([['city', cityDbPath], ['asn', asnDbPath]] as Array<[DatabaseKind, string]>)
+      .filter(([, path]) => !!path)
+      .map(([kind, path]) => {
+        const db = this.databases[kind];
+        return {
+          kind,
+          path,
+          loaded: !!db.reader,
+          databaseType: db.reader?.metadata.databaseType,
+          builtAt: db.reader?.metadata.buildEpoch ? new Date(db.reader.metadata.buildEpoch * 1000).toISOString() : undefined,
+          loadedAt: db.loadedAt,
+          error: db.error
+        };
+      });
+  }
+
+  /** Re-read any database whose file changed since it was loaded */
+  reload(): void {
+    const { cityDbPath, asnDbPath } = config.security.geoip;
+    this.loadDatabase('city', cityDbPath);
+    this.loadDatabase('asn', asnDbPath);
+  }
+
+  private initialize(): void {
+    this.reload();
+    const { cityDbPath, asnDbPath, reloadIntervalMs } = config.security.geoip;
+    if (this.watching || reloadIntervalMs <= 0) return;
+    this.watching = true;
+    for (const [kind, path] of [['city', cityDbPath], ['asn', asnDbPath]] as Array<[DatabaseKind, string]>) {
+      if (!path) continue;
+      // Polling survives the file being replaced by a rename, which fs.watch does not
+      fs.watchFile(path, { interval: reloadIntervalMs, persistent: false }, (current) => {
+        if (current.mtimeMs !== this.databases[kind].mtimeMs) this.loadDatabase(kind, path);
+      });
+    }
+  }
+
+  private loadDatabase(kind: DatabaseKind, path: string): void {
+    if (!path) return;
+    const previous = this.databases[kind];
+    try {
+      const stat = fs.statSync(path);
+      if (previous.reader && stat.mtimeMs === previous.mtimeMs) return;
+      const reader = new MmdbReader(fs.readFileSync(path));
+      this.databases[kind] = { reader, mtimeMs: stat.mtimeMs, loadedAt: new Date().toISOString() };
+      this.cache.clear();
+      this.logger.info('GeoIP database loaded', {
+        kind,
+        path,
+        databaseType: reader.metadata.databaseType,
+        nodes: reader.metadata.nodeCount,
+        reloaded: !!previous.reader
+      });
+    } catch (error: any) {
+      // Keep serving the previous copy; a half-written file is retried on the next poll
+      this.databases[kind] = { ...previous, error: error?.message || String(error) };
+      this.logger.warn('GeoIP database could not be loaded', { kind, path, error: error?.message });
+    }
+  }
+
+  private readRecord(ip: string): GeoIpRecord | null {
+    const city = this.databases.city.reader?.get<any>(ip)?.data;
+    const asn = this.databases.asn.reader?.get<any>(ip)?.data;
+    if (!city && !asn) return null;
+
+    const locale = config.security.geoip.locale;
+    const name = (names: Record<string, string> | undefined) => names?.[locale] || names?.en;
+    const subdivision = Array.isArray(city?.subdivisions) ? city.subdivisions[0] : undefined;
+    const asnNumber = asn?.autonomous_system_number ? Number(asn.autonomous_system_number) : undefined;
+    const asnOrganization = asn?.autonomous_system_organization || undefined;
+
+    return {
+      ip,
+      country: name(city?.country?.names),
+      countryCode: city?.country?.iso_code,
+      region: name(subdivision?.names),
+      regionCode: subdivision?.iso_code,
+      city: name(city?.city?.names),
+      latitude: city?.location?.latitude,
+      longitude: city?.location?.longitude,
+      accuracyRadiusKm: city?.location?.accuracy_radius,
+      timezone: city?.location?.time_zone,
+      asn: asnNumber,
+      asnOrganization,
+      hosting: isHostingNetwork(asnNumber, asnOrganization, config.security.geoip.hostingAsns)
+    };
+  }
+}
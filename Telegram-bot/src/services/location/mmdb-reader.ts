@@ -0,0 +1,235 @@
+import net from 'net';
+
+/**
+ * Minimal reader for MaxMind DB (`.mmdb`) files such as GeoLite2 City and
+ * ASN. Works on a buffer held in memory; see
+ * https://maxmind.github.io/MaxMind-DB/ for the format.
+ */
+
+const METADATA_MARKER = Buffer.from('abcdef4d61784d696e642e636f6d', 'hex');
+const METADATA_SEARCH_BYTES = 128 * 1024;
+const DATA_SECTION_SEPARATOR = 16;
+
+export interface MmdbMetadata {
+  nodeCount: number;
+  recordSize: number;
+  ipVersion: number;
+  databaseType: string;
+  buildEpoch: number;
+  languages: string[];
+}
+
+export interface MmdbResult<T> {
+  data: T;
+  /** Length of the network prefix the address matched */
+  prefixLength: number;
+}
+
+/**
+ * Address bytes for an IPv4 or IPv6 string, with IPv4-mapped IPv6 addresses
+ * unwrapped to IPv4. Returns null for anything that is not an IP.
+ */
+export function ipToBytes(ip: string): number[] | null {
+  let value = String(ip || '').trim();
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(value);
+  if (mapped) value = mapped[1];
+
+  const version = net.isIP(value);
+  if (version === 4) return value.split('.').map(Number);
+  if (version !== 6) return null;
+
+  value = value.replace(/%.*$/, '');
+  // A trailing dotted quad stands for the last two groups
+  const quad = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(value);
+  if (quad) {
+    const [a, b, c, d] = quad.slice(1).map(Number);
+    value = value.slice(0, quad.index) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = value.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = value.includes('::')
+    ? [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+    : headGroups;
+  const bytes: number[] = [];
+  for (const group of groups) {
+    const n = parseInt(group, 16);
+    bytes.push((n >> 8) & 0xff, n & 0xff);
+  }
+  return bytes;
+}
+
+export class MmdbReader {
+  readonly metadata: MmdbMetadata;
+  private readonly nodeByteSize: number;
+  private readonly dataSectionStart: number;
+  private ipv4StartNode = -1;
+
+  constructor(private readonly buffer: Buffer) {
+    const markerAt = buffer.lastIndexOf(METADATA_MARKER, buffer.length);
+    if (markerAt < 0 || markerAt < buffer.length - METADATA_SEARCH_BYTES) {
+      throw new Error('Not a MaxMind DB file (metadata marker missing)');
+    }
+    const raw = this.decode(markerAt + METADATA_MARKER.length, markerAt + METADATA_MARKER.length).value;
+    this.metadata = {
+      nodeCount: Number(raw.node_count),
+      recordSize: Number(raw.record_size),
+      ipVersion: Number(raw.ip_version),
+      databaseType: String(raw.database_type || ''),
+      buildEpoch: Number(raw.build_epoch || 0),
+      languages: Array.isArray(raw.languages) ? raw.languages : []
+    };
+    if (![24, 28, 32].includes(this.metadata.recordSize)) {
+      throw new Error(`Unsupported MaxMind DB record size ${this.metadata.recordSize}`);
+    }
+    this.nodeByteSize = this.metadata.recordSize / 4;
+    this.dataSectionStart = this.nodeByteSize * this.metadata.nodeCount + DATA_SECTION_SEPARATOR;
+    if (this.dataSectionStart > markerAt) {
+      throw new Error('MaxMind DB search tree is larger than the file');
+    }
+  }
+
+  /**
+   * Record for the network containing `ip`, or null when the address is not
+   * in the database (or is IPv6 and the database is IPv4-only).
+   */
+  get<T = any>(ip: string): MmdbResult<T> | null {
+    const bytes = ipToBytes(ip);
+    if (!bytes) return null;
+    if (bytes.length === 16 && this.metadata.ipVersion === 4) return null;
+
+    const bitCount = bytes.length * 8;
+    let node = bytes.length === 4 ? this.ipv4Start() : 0;
+    const { nodeCount } = this.metadata;
+    let depth = 0;
+    for (; depth < bitCount && node < nodeCount; depth++) {
+      const bit = (bytes[depth >> 3] >> (7 - (depth & 7))) & 1;
+      node = this.readRecord(node, bit);
+    }
+    if (node <= nodeCount) return null;
+
+    const offset = node - nodeCount - DATA_SECTION_SEPARATOR;
+    const data = this.decode(this.dataSectionStart + offset, this.dataSectionStart).value as T;
+    return { data, prefixLength: depth };
+  }
+
+  /** IPv4 addresses live under ::/96 in IPv6 databases */
+  private ipv4Start(): number {
+    if (this.metadata.ipVersion === 4) return 0;
+    if (this.ipv4StartNode >= 0) return this.ipv4StartNode;
+    let node = 0;
+    for (let i = 0; i < 96 && node < this.metadata.nodeCount; i++) {
+      node = this.readRecord(node, 0);
+    }
+    this.ipv4StartNode = node;
+    return node;
+  }
+
+  private readRecord(node: number, bit: number): number {
+    const b = this.buffer;
+    const at = node * this.nodeByteSize;
+    switch (this.metadata.recordSize) {
+      case 24:
+        return b.readUIntBE(at + bit * 3, 3);
+      case 28:
+        return bit === 0
+          ? ((b[at + 3] & 0xf0) << 20) | b.readUIntBE(at, 3)
+          : ((b[at + 3] & 0x0f) << 24) | b.readUIntBE(at + 4, 3);
+      default:
+        return b.readUInt32BE(at + bit * 4);
+    }
+  }
+
+  /**
+   * Decode the value at `offset`. `base` is where pointers are counted
+   * from: the data section for records, the metadata start for metadata.
+   */
+  private decode(offset: number, base: number): { value: any; next: number } {
+    const b = this.buffer;
+    const control = b[offset++];
+    let type = control >> 5;
+
+    if (type === 1) {
+      const sizeBits = (control >> 3) & 0x3;
+      const low = control & 0x7;
+      let pointer: number;
+      if (sizeBits === 0) {
+        pointer = (low << 8) | b[offset];
+      } else if (sizeBits === 1) {
+        pointer = ((low << 16) | b.readUInt16BE(offset)) + 2048;
+      } else if (sizeBits === 2) {
+        pointer = (low * 0x1000000 + b.readUIntBE(offset, 3)) + 526336;
+      } else {
+        pointer = b.readUInt32BE(offset);
+      }
+      return { value: this.decode(base + pointer, base).value, next: offset + sizeBits + 1 };
+    }
+
+    if (type === 0) type = 7 + b[offset++];
+
+    let size = control & 0x1f;
+    if (size === 29) {
+      size = 29 + b[offset++];
+    } else if (size === 30) {
+      size = 285 + b.readUInt16BE(offset);
+      offset += 2;
+    } else if (size === 31) {
+      size = 65821 + b.readUIntBE(offset, 3);
+      offset += 3;
+    }
+
+    switch (type) {
+      case 2:
+        return { value: b.toString('utf8', offset, offset + size), next: offset + size };
+      case 3:
+        return { value: b.readDoubleBE(offset), next: offset + 8 };
+      case 4:
+        return { value: Buffer.from(b.subarray(offset, offset + size)), next: offset + size };
+      case 5:
+      case 6:
+      case 9:
+      case 10:
+        return { value: this.readUnsigned(offset, size), next: offset + size };
+      case 7: {
+        const map: Record<string, any> = {};
+        let next = offset;
+        for (let i = 0; i < size; i++) {
+          const key = this.decode(next, base);
+          const value = this.decode(key.next, base);
+          map[key.value] = value.value;
+          next = value.next;
+        }
+        return { value: map, next };
+      }
+      case 8: {
+        const padded = Buffer.alloc(4);
+        b.copy(padded, 4 - size, offset, offset + size);
+        return { value: padded.readInt32BE(0), next: offset + size };
+      }
+      case 11: {
+        const list: any[] = [];
+        let next = offset;
+        for (let i = 0; i < size; i++) {
+          const item = this.decode(next, base);
+          list.push(item.value);
+          next = item.next;
+        }
+        return { value: list, next };
+      }
+      case 14:
+        return { value: size !== 0, next: offset };
+      case 15:
+        return { value: b.readFloatBE(offset), next: offset + 4 };
+      default:
+        throw new Error(`Unsupported MaxMind DB data type ${type} at offset ${offset}`);
+    }
+  }
+
+  /** Unsigned integers up to 128 bits; values past 2^53 come back as strings */
+  private readUnsigned(offset: number, size: number): number | string {
+    if (size <= 6) return size === 0 ? 0 : this.buffer.readUIntBE(offset, size);
+    let value = BigInt(0);
+    for (let i = 0; i < size; i++) value = (value << BigInt(8)) | BigInt(this.buffer[offset + i]);
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+  }
+}
@@ -0,0 +1,92 @@
+import { Context } from 'telegraf';
+import { Logger } from '../logger';
+import { getConfig } from '../../config';
+import { FeatureFlag } from '../../types/maintenance.types';
+import { MaintenanceWindowService } from './maintenance-window.service';
+import {
+  FEATURE_FLAGS,
+  FEATURE_FLAG_LABELS,
+  FeatureBlock,
+  FeatureToggles,
+  formatFeatureBlock,
+  resolveFeatureBlock
+} from './maintenance-rules';
+
+export interface FeatureFlagStatus {
+  feature: FeatureFlag;
+  label: string;
+  enabled: boolean;
+  message: string;
+  /** Why the feature is unavailable right now (flag off or a running window) */
+  block: FeatureBlock | null;
+}
+
+/**
+ * Checks handlers run before a feature's entry points. Flags and the
+ * allowlist are the `features` runtime settings section, so they reach every
+ * replica through RuntimeSettingsService; windows come from
+ * MaintenanceWindowService's in-memory copy.
+ */
+export class FeatureFlagService {
+  private static instance: FeatureFlagService;
+  private readonly logger = Logger.getInstance();
+  private readonly config = getConfig();
+  private readonly windows = MaintenanceWindowService.getInstance();
+
+  private constructor() {}
+
+  static getInstance(): FeatureFlagService {
+    if (!FeatureFlagService.instance) {
+      FeatureFlagService.instance = new FeatureFlagService();
+    }
+    return FeatureFlagService.instance;
+  }
+
+  isAllowlisted(userId?: string): boolean {
+    return !!userId && (this.config.features.allowlist || []).includes(String(userId));
+  }
+
+  /** Why `feature` is unavailable to this user, or null. Without a user only the flag and windows count. */
+  getBlock(feature: FeatureFlag, userId?: string): FeatureBlock | null {
+    if (this.isAllowlisted(userId)) return null;
+    return resolveFeatureBlock(feature, this.config.features as FeatureToggles, this.windows.getWindows());
+  }
+
+  isEnabled(feature: FeatureFlag, userId?: string): boolean {
+    return !this.getBlock(feature, userId);
+  }
+
+  /**
+   * Reply with the feature's message and return false when it is unavailable
+   * to the user behind `ctx`; handlers return right away in that case.
+   */
+  async guard(ctx: Context, feature: FeatureFlag): Promise<boolean> {
+    const userId = ctx.from?.id?.toString();
+    const block = this.getBlock(feature, userId);
+    if (!block) return true;
+
+    this.logger.debug('Feature unavailable', { feature, userId, windowId: block.windowId });
+    try {
+      if (ctx.callbackQuery) {
+        await ctx.answerCbQuery(`${FEATURE_FLAG_LABELS[feature]} unavailable`).catch(() => undefined);
+      }
+      await ctx.reply(formatFeatureBlock(block), {
+        parse_mode: 'HTML',
+        reply_markup: { inline_keyboard: [[{ text: '🏠 Main Menu', callback_data: 'menu_main' }]] }
+      });
+    } catch (error) {
+      this.logger.error('Failed to send feature unavailable message', { feature, userId, error: (error as any)?.message || String(error) });
+    }
+    return false;
+  }
+
+  getStatus(): FeatureFlagStatus[] {
+    return FEATURE_FLAGS.map(feature => ({
+      feature,
+      label: FEATURE_FLAG_LABELS[feature],
+      enabled: this.config.features[feature].enabled !== false,
+      message: this.config.features[feature].message || '',
+      block: this.getBlock(feature)
+    }));
+  }
+}
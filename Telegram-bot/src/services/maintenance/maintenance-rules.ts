@@ -0,0 +1,180 @@
+import { FeatureFlag, MaintenanceWindow, MaintenanceWindowState } from '../../types/maintenance.types';
+
+/**
+ * Feature flags and maintenance windows. A feature is unavailable while its
+ * flag is off or while an active window covers it; a window without features
+ * covers the whole bot. Allowlisted testers are let through by the callers,
+ * not here.
+ */
+
+export const FEATURE_FLAGS: FeatureFlag[] = ['withdrawals', 'transfers', 'tasks', 'referrals', 'captcha', 'support'];
+
+export const FEATURE_FLAG_LABELS: Record<FeatureFlag, string> = {
+  withdrawals: 'Withdrawals',
+  transfers: 'Point transfers',
+  tasks: 'Tasks',
+  referrals: 'Referral rewards',
+  captcha: 'Verification',
+  support: 'Support tickets'
+};
+
+/** Used when the flag (or the window pausing it) has no message of its own */
+export const DEFAULT_FEATURE_MESSAGES: Record<FeatureFlag, string> = {
+  withdrawals: '🔧 <b>Withdrawals are temporarily paused.</b>\n\nYour balance is safe. Please try again a little later.',
+  transfers: '🔧 <b>Point transfers are temporarily paused.</b>\n\nPlease try again a little later.',
+  tasks: '🔧 <b>Tasks are temporarily unavailable.</b>\n\nPlease check back soon.',
+  referrals: '🔧 <b>The referral program is temporarily paused.</b>\n\nRewards earned in the meantime are paid once it is back.',
+  captcha: '🔧 <b>Verification is temporarily unavailable.</b>\n\nPlease try again in a little while.',
+  support: '🔧 <b>Support tickets are temporarily unavailable.</b>\n\nPlease try again later.'
+};
+
+export const MAX_FEATURE_MESSAGE_LENGTH = 1000;
+export const MAX_WINDOW_TITLE_LENGTH = 100;
+export const MAX_WINDOW_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
+/** Windows can be planned at most this far ahead */
+export const MAX_WINDOW_LEAD_MS = 90 * 24 * 60 * 60 * 1000;
+export const MAX_ANNOUNCEMENTS = 5;
+export const MAX_ANNOUNCEMENT_LEAD_MINUTES = 7 * 24 * 60;
+export const DEFAULT_ANNOUNCEMENT_LEADS = [60, 10];
+
+export interface FeatureToggle {
+  enabled?: boolean;
+  message?: string;
+}
+
+export type FeatureToggles = Partial<Record<FeatureFlag, FeatureToggle>>;
+
+export interface FeatureBlock {
+  feature: FeatureFlag;
+  message: string;
+  /** End of the window pausing the feature; absent when the flag itself is off */
+  until?: string;
+  windowId?: string;
+}
+
+export type MaintenanceWindowInput = Pick<MaintenanceWindow, 'title' | 'message' | 'startsAt' | 'endsAt' | 'features' | 'announceMinutesBefore' | 'audience'>;
+
+export function isFeatureFlag(value: unknown): value is FeatureFlag {
+  return typeof value === 'string' && (FEATURE_FLAGS as string[]).includes(value);
+}
+
+export function windowState(window: Pick<MaintenanceWindow, 'status' | 'startsAt' | 'endsAt'>, now: Date = new Date()): MaintenanceWindowState {
+  if (window.status === 'cancelled') return 'cancelled';
+  if (now < new Date(window.startsAt)) return 'upcoming';
+  if (now < new Date(window.endsAt)) return 'active';
+  return 'ended';
+}
+
+export function windowCovers(window: Pick<MaintenanceWindow, 'features'>, feature: FeatureFlag): boolean {
+  return !window.features || window.features.length === 0 || window.features.includes(feature);
+}
+
+/** The running window that takes the whole bot down, if any */
+export function activeFullWindow<T extends MaintenanceWindow>(windows: T[], now: Date = new Date()): T | null {
+  return windows.find(w => windowState(w, now) === 'active' && (!w.features || w.features.length === 0)) || null;
+}
+
+/**
+ * Why the feature is unavailable right now, or null if it is available. The
+ * flag wins over windows since it has no end time.
+ */
+export function resolveFeatureBlock(
+  feature: FeatureFlag,
+  toggles: FeatureToggles,
+  windows: MaintenanceWindow[],
+  now: Date = new Date()
+): FeatureBlock | null {
+  const toggle = toggles[feature];
+  if (toggle && toggle.enabled === false) {
+    return { feature, message: toggle.message?.trim() || DEFAULT_FEATURE_MESSAGES[feature] };
+  }
+  const window = windows
+    .filter(w => windowState(w, now) === 'active' && windowCovers(w, feature))
+    .sort((a, b) => new Date(b.endsAt).getTime() - new Date(a.endsAt).getTime())[0];
+  if (!window) return null;
+  return {
+    feature,
+    message: window.message?.trim() || toggle?.message?.trim() || DEFAULT_FEATURE_MESSAGES[feature],
+    until: window.endsAt,
+    windowId: window.id
+  };
+}
+
+/** Announcement lead times that are still ahead, longest first */
+export function announcementSchedule(startsAt: string, leadMinutes: number[], now: Date = new Date()): Array<{ leadMinutes: number; at: Date }> {
+  const start = new Date(startsAt).getTime();
+  return [...new Set(leadMinutes)]
+    .sort((a, b) => b - a)
+    .map(lead => ({ leadMinutes: lead, at: new Date(start - lead * 60 * 1000) }))
+    .filter(entry => entry.at > now);
+}
+
+export function formatUtc(iso: string): string {
+  return `${new Date(iso).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function formatLead(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} day${minutes === 24 * 60 ? '' : 's'}`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function formatAnnouncement(window: MaintenanceWindowInput, leadMinutes: number): string {
+  const affected = window.features.length === 0
+    ? 'The whole bot will be unavailable.'
+    : `Affected: ${window.features.map(f => FEATURE_FLAG_LABELS[f]).join(', ')}. Everything else keeps working.`;
+  return (
+    `🔧 <b>Scheduled maintenance in ${formatLead(leadMinutes)}</b>\n\n` +
+    `<b>${escapeHtml(window.title)}</b>\n` +
+    `⏰ ${formatUtc(window.startsAt)} – ${formatUtc(window.endsAt)}\n\n` +
+    affected
+  );
+}
+
+export function formatFeatureBlock(block: FeatureBlock): string {
+  return block.until ? `${block.message}\n\n⏰ <b>Expected back:</b> ${formatUtc(block.until)}` : block.message;
+}
+
+export function parseWindowInput(body: any, now: Date = new Date()): { value?: MaintenanceWindowInput; error?: string } {
+  const title = String(body?.title ?? '').trim();
+  if (!title || title.length > MAX_WINDOW_TITLE_LENGTH) return { error: `title is required (max ${MAX_WINDOW_TITLE_LENGTH} characters)` };
+  const message = String(body?.message ?? '').trim();
+  if (message.length > MAX_FEATURE_MESSAGE_LENGTH) return { error: `message is limited to ${MAX_FEATURE_MESSAGE_LENGTH} characters` };
+
+  const startsAt = new Date(body?.startsAt);
+  const endsAt = new Date(body?.endsAt);
+  if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) return { error: 'startsAt and endsAt must be dates' };
+  if (endsAt <= startsAt) return { error: 'endsAt must be after startsAt' };
+  if (endsAt <= now) return { error: 'The window is already over' };
+  if (endsAt.getTime() - startsAt.getTime() > MAX_WINDOW_DURATION_MS) return { error: 'A window can last at most 7 days' };
+  if (startsAt.getTime() - now.getTime() > MAX_WINDOW_LEAD_MS) return { error: 'A window can start at most 90 days ahead' };
+
+  const rawFeatures = body?.features === undefined ? [] : body.features;
+  if (!Array.isArray(rawFeatures) || !rawFeatures.every(isFeatureFlag)) return { error: `features must be a list of ${FEATURE_FLAGS.join(', ')}` };
+
+  const rawLeads = body?.announceMinutesBefore === undefined ? DEFAULT_ANNOUNCEMENT_LEADS : body.announceMinutesBefore;
+  if (!Array.isArray(rawLeads)) return { error: 'announceMinutesBefore must be a list of minutes' };
+  const leads = [...new Set(rawLeads.map(Number))];
+  if (leads.length > MAX_ANNOUNCEMENTS || !leads.every(n => Number.isInteger(n) && n >= 1 && n <= MAX_ANNOUNCEMENT_LEAD_MINUTES)) {
+    return { error: `Up to ${MAX_ANNOUNCEMENTS} announcements, each 1 to ${MAX_ANNOUNCEMENT_LEAD_MINUTES} minutes ahead` };
+  }
+
+  const audience = body?.audience === undefined ? 'active' : body.audience;
+  if (audience !== 'all' && audience !== 'active') return { error: 'audience must be all or active' };
+
+  return {
+    value: {
+      title,
+      message,
+      startsAt: startsAt.toISOString(),
+      endsAt: endsAt.toISOString(),
+      features: [...new Set(rawFeatures as FeatureFlag[])],
+      announceMinutesBefore: leads.sort((a, b) => b - a),
+      audience
+    }
+  };
+}
@@ -0,0 +1,194 @@
+import { Logger } from '../logger';
+import { nanoid } from '../id';
+import { StorageManager } from '../../storage';
+import { BroadcastQueueService } from '../broadcast-queue.service';
+import { AdminIdentity } from '../admin/admin-permission.service';
+import { MaintenanceAnnouncement, MaintenanceWindow, MaintenanceWindowState } from '../../types/maintenance.types';
+import { activeFullWindow, announcementSchedule, formatAnnouncement, parseWindowInput, windowState } from './maintenance-rules';
+
+/** How often each replica reloads upcoming and running windows */
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+export interface MaintenanceWindowResult {
+  success: boolean;
+  error?: 'invalid' | 'not_found' | 'ended';
+  message?: string;
+  window?: MaintenanceWindow;
+}
+
+export type MaintenanceWindowView = MaintenanceWindow & { state: MaintenanceWindowState };
+
+/**
+ * Scheduled maintenance windows. Announcements are queued as scheduled
+ * broadcasts when the window is created and cancelled with it. Each replica
+ * keeps the windows that have not ended in memory, reloaded every
+ * REFRESH_INTERVAL_MS, so the bot's checks never wait on Mongo.
+ */
+export class MaintenanceWindowService {
+  private static instance: MaintenanceWindowService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private windows: MaintenanceWindow[] = [];
+  private activeIds = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  static getInstance(): MaintenanceWindowService {
+    if (!MaintenanceWindowService.instance) {
+      MaintenanceWindowService.instance = new MaintenanceWindowService();
+    }
+    return MaintenanceWindowService.instance;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.refresh(), REFRESH_INTERVAL_MS);
+    this.timer.unref?.();
+    void this.refresh();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Windows that have not ended or been cancelled, as last loaded */
+  getWindows(): MaintenanceWindow[] {
+    return this.windows;
+  }
+
+  getActiveFullWindow(now: Date = new Date()): MaintenanceWindow | null {
+    return activeFullWindow(this.windows, now);
+  }
+
+  async refresh(): Promise<void> {
+    try {
+      const now = new Date();
+      this.windows = await this.getCollection()
+        .find({ status: 'scheduled', endsAt: { $gt: now.toISOString() } }, { projection: { _id: 0 } })
+        .sort({ startsAt: 1 })
+        .limit(100)
+        .toArray();
+
+      const active = new Set(this.windows.filter(w => windowState(w, now) === 'active').map(w => w.id));
+      for (const id of active) {
+        if (!this.activeIds.has(id)) this.logger.info('🔧 Maintenance window started', { id, title: this.windows.find(w => w.id === id)?.title });
+      }
+      for (const id of this.activeIds) {
+        if (!active.has(id)) this.logger.info('✅ Maintenance window ended', { id });
+      }
+      this.activeIds = active;
+    } catch (error: any) {
+      this.logger.error('Failed to load maintenance windows', { error: error?.message || String(error) });
+    }
+  }
+
+  async list(options: { includePast?: boolean; limit?: number } = {}): Promise<MaintenanceWindowView[]> {
+    const now = new Date();
+    const query: any = options.includePast ? {} : { status: 'scheduled', endsAt: { $gt: now.toISOString() } };
+    const rows: MaintenanceWindow[] = await this.getCollection()
+      .find(query, { projection: { _id: 0 } })
+      .sort({ startsAt: options.includePast ? -1 : 1 })
+      .limit(Math.min(200, Math.max(1, options.limit || 50)))
+      .toArray();
+    return rows.map(w => ({ ...w, state: windowState(w, now) }));
+  }
+
+  async create(body: unknown, admin: AdminIdentity | undefined, ipAddress?: string): Promise<MaintenanceWindowResult> {
+    const now = new Date();
+    const { value, error } = parseWindowInput(body, now);
+    if (!value) return { success: false, error: 'invalid', message: error };
+
+    const adminName = admin?.username || 'admin';
+    const window: MaintenanceWindow = {
+      id: `mw_${nanoid()}`,
+      ...value,
+      announcements: [],
+      status: 'scheduled',
+      createdBy: adminName,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+    await this.getCollection().insertOne({ ...window });
+
+    // Lead times already past when the window is created are skipped
+    const broadcasts = BroadcastQueueService.getInstance();
+    for (const { leadMinutes, at } of announcementSchedule(window.startsAt, window.announceMinutesBefore, now)) {
+      try {
+        const broadcastId = await broadcasts.queueBroadcast({
+          type: 'text',
+          message: formatAnnouncement(window, leadMinutes),
+          targetType: window.audience,
+          scheduledAt: at.toISOString(),
+          createdBy: `maintenance:${window.id}`
+        });
+        const announcement: MaintenanceAnnouncement = { leadMinutes, broadcastId, scheduledAt: at.toISOString() };
+        window.announcements.push(announcement);
+        await this.getCollection().updateOne({ id: window.id }, { $push: { announcements: announcement } });
+      } catch (err: any) {
+        this.logger.warn('Failed to schedule maintenance announcement', { windowId: window.id, leadMinutes, error: err?.message || String(err) });
+      }
+    }
+
+    await this.audit('create', window, admin, ipAddress, `${adminName} scheduled maintenance "${window.title}" for ${window.startsAt}`);
+    await this.refresh();
+    return { success: true, window };
+  }
+
+  /**
+   * Call off an upcoming window, or end a running one early. Announcements
+   * that have not gone out are cancelled.
+   */
+  async cancel(id: string, admin: AdminIdentity | undefined, ipAddress?: string): Promise<MaintenanceWindowResult> {
+    const now = new Date().toISOString();
+    const adminName = admin?.username || 'admin';
+    const res = await this.getCollection().findOneAndUpdate(
+      { id, status: 'scheduled', endsAt: { $gt: now } },
+      { $set: { status: 'cancelled', cancelledAt: now, cancelledBy: adminName, updatedAt: now } },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    const window = ((res as any)?.value !== undefined ? (res as any).value : res) as MaintenanceWindow | null;
+    if (!window) {
+      const exists = await this.getCollection().countDocuments({ id }, { limit: 1 });
+      return { success: false, error: exists > 0 ? 'ended' : 'not_found' };
+    }
+
+    const broadcasts = BroadcastQueueService.getInstance();
+    for (const announcement of window.announcements || []) {
+      if (announcement.scheduledAt <= now) continue;
+      try {
+        await broadcasts.cancelBroadcast(announcement.broadcastId);
+      } catch (err: any) {
+        this.logger.warn('Failed to cancel maintenance announcement', { windowId: id, broadcastId: announcement.broadcastId, error: err?.message || String(err) });
+      }
+    }
+
+    const started = window.startsAt <= now;
+    await this.audit(started ? 'end' : 'cancel', window, admin, ipAddress, `${adminName} ${started ? 'ended' : 'cancelled'} maintenance "${window.title}"`);
+    await this.refresh();
+    return { success: true, window };
+  }
+
+  private async audit(action: string, window: MaintenanceWindow, admin: AdminIdentity | undefined, ipAddress: string | undefined, description: string): Promise<void> {
+    await this.storage.saveSecurityAuditLog({
+      id: `sec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      type: 'maintenance_window',
+      severity: window.features.length === 0 ? 'high' : 'medium',
+      action,
+      adminId: admin?.id || null,
+      username: admin?.username || 'admin',
+      role: admin?.role || null,
+      description,
+      details: { windowId: window.id, startsAt: window.startsAt, endsAt: window.endsAt, features: window.features, announcements: window.announcements.length },
+      timestamp: new Date(),
+      ipAddress: ipAddress || null
+    });
+  }
+
+  private getCollection(name = 'maintenance_windows'): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') throw new Error('MongoStorage raw collection access not available');
+    return base.getRawCollection(name);
+  }
+}
@@ -0,0 +1,622 @@
+import { Logger } from '../logger';
+import { nanoid } from '../id';
+import { StorageManager } from '../../storage';
+import { getConfig } from '../../config';
+import { PointsLedgerService } from '../ledger/points-ledger.service';
+import { getTaskCompletionKey } from '../task-submission.service';
+import { Task } from '../../types/task.types';
+import {
+  ChannelMembership,
+  MembershipEnforcement,
+  MembershipEnforcementAction,
+  MembershipEvent,
+  MembershipEventKind,
+  MembershipEventSource,
+  MembershipLeavePolicy,
+  PendingEnforcement,
+  TaskMembershipPolicy
+} from '../../types/membership.types';
+import {
+  LEAVE_POLICIES,
+  MAX_GRACE_MINUTES,
+  chatRefs,
+  enforceAt,
+  membershipChange,
+  rejoinUrl,
+  resolveMembershipPolicy,
+  taskChatId
+} from './membership-rules';
+
+export interface MembershipSweepReport {
+  /** Paid users of watched tasks picked up from the ledger */
+  seeded: number;
+  checked: number;
+  left: number;
+  rejoined: number;
+  enforced: number;
+  errors: number;
+}
+
+export interface TaskMembershipOverview {
+  taskId: string;
+  chatId: string | null;
+  policy: TaskMembershipPolicy;
+  members: number;
+  left: number;
+  /** Users inside their grace period */
+  pending: number;
+  /** Users whose points for this task are currently taken back */
+  revoked: number;
+  events: MembershipEvent[];
+}
+
+export interface UpdateMembershipPolicyResult {
+  success: boolean;
+  error?: 'not_found' | 'not_telegram_join' | 'invalid_policy';
+  policy?: TaskMembershipPolicy;
+}
+
+interface WatchedTask {
+  task: Task;
+  chatId: string;
+  policy: TaskMembershipPolicy;
+}
+
+interface ChangeContext {
+  status: string;
+  source: MembershipEventSource;
+  at: Date;
+  chatTitle?: string;
+}
+
+const MEMBERSHIPS = 'channel_memberships';
+const EVENTS = 'channel_membership_events';
+const SYNC = 'channel_membership_sync';
+const TASK_CACHE_MS = 60_000;
+/** Spacing between getChatMember calls in the sweep, well under the Bot API limits */
+const CHECK_SPACING_MS = 50;
+
+/**
+ * Watches the chats behind `telegram_join` tasks. chat_member updates (and,
+ * for anything missed while the bot was offline, a getChatMember sweep)
+ * keep a join/leave history per user. A paid user who leaves gets a grace
+ * period with a one-tap rejoin link; after it the task's policy applies:
+ * `revoke_points` takes the award back through the ledger and pays it
+ * again on rejoin, `mark_incomplete` reopens the task so it has to be
+ * verified again, `keep` only records the leave.
+ */
+export class ChannelMembershipService {
+  private static instance: ChannelMembershipService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
+  private botInstance: any = null;
+  private watchedCache: { at: number; tasks: WatchedTask[] } | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ChannelMembershipService {
+    if (!ChannelMembershipService.instance) {
+      ChannelMembershipService.instance = new ChannelMembershipService();
+    }
+    return ChannelMembershipService.instance;
+  }
+
+  isEnabled(): boolean {
+    return this.config.task.membership.enabled;
+  }
+
+  /**
+   * Take the bot for getChatMember checks and notifications, and warn about
+   * watched chats where it is not an admin (Telegram only sends chat_member
+   * updates to admins)
+   */
+  start(bot: any): void {
+    this.botInstance = bot;
+    if (!this.isEnabled()) return;
+    void this.checkBotRights();
+  }
+
+  defaultPolicy(): TaskMembershipPolicy {
+    const { onLeave, graceMinutes } = this.config.task.membership;
+    return { onLeave, graceMinutes };
+  }
+
+  /** Forget cached tasks after an admin edit */
+  invalidateTasks(): void {
+    this.watchedCache = null;
+  }
+
+  /**
+   * Entry point for chat_member updates. Only joins and leaves of users
+   * known to the bot in chats of watched tasks are recorded.
+   */
+  async handleUpdate(update: any): Promise<void> {
+    if (!this.isEnabled() || !update?.chat || !update?.new_chat_member?.user) return;
+    const user = update.new_chat_member.user;
+    const change = membershipChange(update.old_chat_member, update.new_chat_member);
+    if (!change || user.is_bot) return;
+
+    try {
+      const refs = chatRefs(update.chat);
+      const watched = (await this.getWatchedTasks()).filter(w => refs.includes(w.chatId));
+      if (watched.length === 0) return;
+
+      const userId = String(user.id);
+      if (!(await this.storage.getUser(userId))) return;
+
+      const context: ChangeContext = {
+        status: update.new_chat_member.status,
+        source: 'update',
+        at: update.date ? new Date(update.date * 1000) : new Date(),
+        chatTitle: update.chat.title
+      };
+      for (const chatId of new Set(watched.map(w => w.chatId))) {
+        await this.recordChange(userId, chatId, change, context, watched.filter(w => w.chatId === chatId));
+      }
+    } catch (error) {
+      this.logger.error('Failed to handle chat_member update', { chatId: update.chat?.id, userId: user.id, error: (error as any)?.message || String(error) });
+    }
+  }
+
+  /**
+   * Periodic job: pick up newly paid users, apply policies whose grace
+   * period is over and re-check members whose last check is older than
+   * `recheckHours`, catching leaves and rejoins that happened while the bot
+   * was offline or not an admin.
+   */
+  async sweep(limit = this.config.task.membership.sweepBatchSize): Promise<MembershipSweepReport> {
+    const report: MembershipSweepReport = { seeded: 0, checked: 0, left: 0, rejoined: 0, enforced: 0, errors: 0 };
+    if (!this.isEnabled()) return report;
+
+    this.invalidateTasks();
+    const watched = await this.getWatchedTasks();
+    if (watched.length === 0) return report;
+    const chats = [...new Set(watched.map(w => w.chatId))];
+    const byChat = (chatId: string) => watched.filter(w => w.chatId === chatId);
+
+    try {
+      report.seeded = await this.seed(watched, limit);
+    } catch (error) {
+      report.errors++;
+      this.logger.error('Membership seeding failed', { error: (error as any)?.message || String(error) });
+    }
+
+    const collection = this.getCollection();
+    const due: ChannelMembership[] = await collection
+      .find({ chatId: { $in: chats }, status: 'left', 'pending.enforceAt': { $lte: new Date().toISOString() } }, { projection: { _id: 0 } })
+      .limit(limit)
+      .toArray();
+    for (const record of due) {
+      try {
+        const live = await this.fetchMembership(record.chatId, record.userId);
+        if (live?.member) {
+          await this.recordChange(record.userId, record.chatId, 'joined', { status: live.status, source: 'reconcile', at: new Date() }, byChat(record.chatId));
+          report.rejoined++;
+        } else {
+          report.enforced += await this.enforce(record, byChat(record.chatId));
+        }
+      } catch (error) {
+        report.errors++;
+        this.logger.error('Membership enforcement failed', { userId: record.userId, chatId: record.chatId, error: (error as any)?.message || String(error) });
+      }
+    }
+
+    if (this.botInstance) {
+      const cutoff = new Date(Date.now() - this.config.task.membership.recheckHours * 3_600_000).toISOString();
+      const stale: ChannelMembership[] = await collection
+        .find({ chatId: { $in: chats }, $or: [{ checkedAt: { $exists: false } }, { checkedAt: { $lt: cutoff } }] }, { projection: { _id: 0 } })
+        .sort({ checkedAt: 1 })
+        .limit(limit)
+        .toArray();
+      for (const record of stale) {
+        try {
+          const live = await this.fetchMembership(record.chatId, record.userId);
+          report.checked++;
+          await collection.updateOne({ userId: record.userId, chatId: record.chatId }, { $set: { checkedAt: new Date().toISOString() } });
+          if (live && live.member !== (record.status === 'member')) {
+            const change: MembershipEventKind = live.member ? 'joined' : 'left';
+            await this.recordChange(record.userId, record.chatId, change, { status: live.status, source: 'reconcile', at: new Date() }, byChat(record.chatId));
+            if (change === 'left') report.left++;
+            else report.rejoined++;
+          }
+        } catch (error) {
+          report.errors++;
+          this.logger.error('Membership re-check failed', { userId: record.userId, chatId: record.chatId, error: (error as any)?.message || String(error) });
+        }
+        await new Promise(resolve => setTimeout(resolve, CHECK_SPACING_MS));
+      }
+    }
+
+    if (report.seeded || report.left || report.rejoined || report.enforced || report.errors) {
+      this.logger.info('Membership sweep finished', report);
+    }
+    return report;
+  }
+
+  async getTaskOverview(taskId: string): Promise<TaskMembershipOverview | null> {
+    const task = await this.storage.getTask(taskId);
+    if (!task || task.type !== 'telegram_join') return null;
+
+    const chatId = taskChatId(task, process.env.TASK_TELEGRAM_CHANNEL_ID);
+    const overview: TaskMembershipOverview = {
+      taskId,
+      chatId,
+      policy: resolveMembershipPolicy(task, this.defaultPolicy()),
+      members: 0,
+      left: 0,
+      pending: 0,
+      revoked: 0,
+      events: []
+    };
+    if (!chatId) return overview;
+
+    const collection = this.getCollection();
+    const [members, left, pending, revoked, events] = await Promise.all([
+      collection.countDocuments({ chatId, status: 'member' }),
+      collection.countDocuments({ chatId, status: 'left' }),
+      collection.countDocuments({ chatId, status: 'left', 'pending.taskId': taskId }),
+      collection.countDocuments({ chatId, enforced: { $elemMatch: { taskId, action: 'revoke_points', restoredAt: { $exists: false } } } }),
+      this.getCollection(EVENTS).find({ chatId }, { projection: { _id: 0 } }).sort({ at: -1 }).limit(50).toArray()
+    ]);
+    return { ...overview, members, left, pending, revoked, events };
+  }
+
+  async updateTaskPolicy(taskId: string, input: { onLeave?: string; graceMinutes?: number }): Promise<UpdateMembershipPolicyResult> {
+    const task = await this.storage.getTask(taskId);
+    if (!task) return { success: false, error: 'not_found' };
+    if (task.type !== 'telegram_join') return { success: false, error: 'not_telegram_join' };
+
+    const grace = Number(input.graceMinutes);
+    if (!LEAVE_POLICIES.includes(input.onLeave as MembershipLeavePolicy) || !Number.isFinite(grace) || grace < 0 || grace > MAX_GRACE_MINUTES) {
+      return { success: false, error: 'invalid_policy' };
+    }
+
+    const membership: TaskMembershipPolicy = { onLeave: input.onLeave as MembershipLeavePolicy, graceMinutes: Math.floor(grace) };
+    await this.storage.saveTask({ ...task, metadata: { ...(task.metadata || {}), membership }, updatedAt: new Date().toISOString() });
+    this.invalidateTasks();
+    return { success: true, policy: membership };
+  }
+
+  private async getWatchedTasks(): Promise<WatchedTask[]> {
+    if (this.watchedCache && Date.now() - this.watchedCache.at < TASK_CACHE_MS) return this.watchedCache.tasks;
+
+    const defaults = this.defaultPolicy();
+    const tasks = (await this.storage.getAllTasks())
+      .filter(task => task.type === 'telegram_join' && !task.isDaily)
+      .map(task => ({ task, chatId: taskChatId(task, process.env.TASK_TELEGRAM_CHANNEL_ID), policy: resolveMembershipPolicy(task, defaults) }))
+      .filter((w): w is WatchedTask => !!w.chatId);
+    this.watchedCache = { at: Date.now(), tasks };
+    return tasks;
+  }
+
+  /**
+   * Move the user's state for one chat and log the event. Repeats of the
+   * current state (an update the sweep already saw, or the other way round)
+   * change nothing.
+   */
+  private async recordChange(userId: string, chatId: string, change: MembershipEventKind, context: ChangeContext, watched: WatchedTask[]): Promise<void> {
+    const changed = change === 'left'
+      ? await this.onLeft(userId, chatId, context.at, watched)
+      : await this.onJoined(userId, chatId, watched);
+    if (!changed) return;
+
+    const event: MembershipEvent = {
+      id: `mev_${nanoid()}`,
+      userId,
+      chatId,
+      ...(context.chatTitle ? { chatTitle: context.chatTitle } : {}),
+      event: change,
+      status: context.status,
+      source: context.source,
+      at: context.at.toISOString()
+    };
+    await this.getCollection(EVENTS).insertOne(event);
+    this.logger.info(`Channel member ${change}`, { userId, chatId, source: context.source });
+  }
+
+  private async onLeft(userId: string, chatId: string, leftAt: Date, watched: WatchedTask[]): Promise<boolean> {
+    const awards = await this.getAwards(userId, watched);
+    const pending: PendingEnforcement[] = watched
+      .filter(w => awards.has(w.task.id) && w.policy.onLeave !== 'keep')
+      .map(w => ({ taskId: w.task.id, action: w.policy.onLeave as MembershipEnforcementAction, enforceAt: enforceAt(leftAt, w.policy.graceMinutes).toISOString() }));
+
+    let record: ChannelMembership | null;
+    try {
+      const res = await this.getCollection().findOneAndUpdate(
+        { userId, chatId, status: { $ne: 'left' } },
+        {
+          $set: { status: 'left', leftAt: leftAt.toISOString(), pending, updatedAt: new Date().toISOString() },
+          $inc: { leaveCount: 1 },
+          $setOnInsert: { enforced: [] }
+        },
+        { upsert: true, returnDocument: 'after', projection: { _id: 0 } }
+      );
+      record = ((res as any)?.value !== undefined ? (res as any).value : res) as ChannelMembership | null;
+    } catch (error: any) {
+      // Already recorded as left
+      if (error?.code === 11000) return false;
+      throw error;
+    }
+    if (!record) return false;
+
+    const now = new Date();
+    if (pending.some(p => new Date(p.enforceAt) <= now)) {
+      await this.enforce(record, watched);
+    }
+    const waiting = pending.filter(p => new Date(p.enforceAt) > now);
+    if (waiting.length > 0) {
+      const first = watched.find(w => w.task.id === waiting[0].taskId)!;
+      const points = waiting.reduce((sum, p) => sum + (p.action === 'revoke_points' ? awards.get(p.taskId)?.amount || 0 : 0), 0);
+      const consequence = points > 0
+        ? `to keep the <b>${points}</b> points you earned for joining`
+        : 'to keep your task completed';
+      await this.notify(
+        userId,
+        `👋 You left the chat of “${this.escapeHtml(first.task.title)}”.\nRejoin within ${this.formatGrace(first.policy.graceMinutes)} ${consequence}.`,
+        this.rejoinKeyboard(first)
+      );
+    }
+    return true;
+  }
+
+  private async onJoined(userId: string, chatId: string, watched: WatchedTask[]): Promise<boolean> {
+    const collection = this.getCollection();
+    const res = await collection.findOneAndUpdate(
+      { userId, chatId, status: 'left' },
+      { $set: { status: 'member', pending: [], updatedAt: new Date().toISOString() }, $unset: { leftAt: '' } },
+      { returnDocument: 'before', projection: { _id: 0 } }
+    );
+    const record = ((res as any)?.value !== undefined ? (res as any).value : res) as ChannelMembership | null;
+
+    if (!record) {
+      const inserted = await collection.updateOne(
+        { userId, chatId },
+        { $setOnInsert: { status: 'member', leaveCount: 0, pending: [], enforced: [], updatedAt: new Date().toISOString() } },
+        { upsert: true }
+      );
+      return inserted.upsertedCount > 0;
+    }
+
+    const restored = await this.restore(record);
+    const reopened = record.enforced.filter(e => e.action === 'mark_incomplete' && new Date(e.at) >= new Date(record.leftAt || 0));
+    if (restored > 0) {
+      await this.notify(userId, `✅ Welcome back! <b>${restored}</b> points were restored to your balance.`, []);
+    } else if (reopened.length > 0) {
+      const task = watched.find(w => w.task.id === reopened[0].taskId)?.task;
+      await this.notify(
+        userId,
+        `✅ Welcome back! Check “${this.escapeHtml(task?.title || 'the task')}” again to complete it.`,
+        [[{ text: '🔄 Check task', callback_data: `task_details_${reopened[0].taskId}` }]]
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Apply the due pending actions of a leave. They are taken off the record
+   * first so a concurrent sweep cannot apply them twice; failures are put
+   * back for the next run.
+   */
+  private async enforce(record: ChannelMembership, watched: WatchedTask[]): Promise<number> {
+    const now = new Date();
+    const due = (record.pending || []).filter(p => new Date(p.enforceAt) <= now);
+    if (due.length === 0) return 0;
+
+    const collection = this.getCollection();
+    const key = { userId: record.userId, chatId: record.chatId };
+    const claimed = await collection.updateOne(
+      { ...key, status: 'left', leaveCount: record.leaveCount },
+      { $pull: { pending: { taskId: { $in: due.map(p => p.taskId) } } } }
+    );
+    if (claimed.modifiedCount === 0) return 0;
+
+    const awards = await this.getAwards(record.userId, watched);
+    const applied: MembershipEnforcement[] = [];
+    const failed: PendingEnforcement[] = [];
+    for (const item of due) {
+      const w = watched.find(x => x.task.id === item.taskId);
+      const award = awards.get(item.taskId);
+      if (!w || !award) continue;
+      const result = item.action === 'revoke_points'
+        ? await this.revokePoints(record, w, award)
+        : await this.reopenTask(record.userId, w.task);
+      if (result) applied.push(result);
+      else failed.push(item);
+    }
+
+    if (applied.length > 0) {
+      await collection.updateOne(key, { $push: { enforced: { $each: applied } } });
+    }
+    if (failed.length > 0) {
+      await collection.updateOne({ ...key, status: 'left', leaveCount: record.leaveCount }, { $push: { pending: { $each: failed } } });
+    }
+
+    // A rejoin that landed while the actions ran found nothing to restore yet
+    const current: ChannelMembership | null = await collection.findOne(key, { projection: { _id: 0 } });
+    if (current?.status === 'member') {
+      await this.restore(current);
+      return applied.length;
+    }
+
+    for (const item of applied) {
+      const w = watched.find(x => x.task.id === item.taskId)!;
+      const text = item.action === 'revoke_points'
+        ? `➖ <b>${item.points}</b> points for “${this.escapeHtml(w.task.title)}” were taken back because you left the chat. Rejoin and they are restored.`
+        : `↩️ “${this.escapeHtml(w.task.title)}” is no longer completed because you left the chat. Rejoin, then check the task again.`;
+      const keyboard = this.rejoinKeyboard(w);
+      if (item.action === 'mark_incomplete') keyboard.push([{ text: '🔄 Check task', callback_data: `task_details_${w.task.id}` }]);
+      await this.notify(record.userId, text, keyboard);
+    }
+    return applied.length;
+  }
+
+  private async revokePoints(record: ChannelMembership, w: WatchedTask, award: { id: string; amount: number }): Promise<MembershipEnforcement | null> {
+    const result = await PointsLedgerService.getInstance().post({
+      userId: record.userId,
+      amount: -Math.abs(award.amount),
+      type: 'penalty',
+      description: `Left the chat of task: ${w.task.title}`,
+      source: 'membership_revoke',
+      idempotencyKey: `membership_revoke:${w.task.id}:${record.userId}:${record.leaveCount}`,
+      metadata: { category: 'membership_revoke', revokedTaskId: w.task.id, chatId: record.chatId, reversedEntryId: award.id },
+      // Points already spent are still owed; the balance recovers when the user rejoins
+      allowNegativeBalance: true
+    });
+    if (!result.success || !result.entry) {
+      this.logger.warn('Membership revocation failed, will retry', { userId: record.userId, taskId: w.task.id, error: result.error });
+      return null;
+    }
+    return { taskId: w.task.id, action: 'revoke_points', at: new Date().toISOString(), points: Math.abs(award.amount), entryId: result.entry.id };
+  }
+
+  private async reopenTask(userId: string, task: Task): Promise<MembershipEnforcement | null> {
+    const key = getTaskCompletionKey(task);
+    await this.getCollection('users').updateOne(
+      { id: userId, [`taskCompletionStatus.${key}`]: 'Completed' },
+      { $unset: { [`taskCompletionStatus.${key}`]: '' }, $pull: { completedTasks: key }, $inc: { tasksCompleted: -1 } }
+    );
+    return { taskId: task.id, action: 'mark_incomplete', at: new Date().toISOString() };
+  }
+
+  /** Pay back every revocation not yet restored; returns the points credited */
+  private async restore(record: ChannelMembership): Promise<number> {
+    let restored = 0;
+    for (const item of record.enforced || []) {
+      if (item.action !== 'revoke_points' || item.restoredAt || !item.entryId) continue;
+      const result = await PointsLedgerService.getInstance().post({
+        userId: record.userId,
+        amount: Math.abs(item.points || 0),
+        type: 'refund',
+        description: 'Rejoined task chat, points restored',
+        source: 'membership_restore',
+        idempotencyKey: `membership_restore:${item.entryId}`,
+        metadata: { category: 'membership_restore', revokedTaskId: item.taskId, chatId: record.chatId, reversedEntryId: item.entryId }
+      });
+      if (!result.success) {
+        this.logger.warn('Restoring revoked task points failed', { userId: record.userId, taskId: item.taskId, error: result.error });
+        continue;
+      }
+      await this.getCollection().updateOne(
+        { userId: record.userId, chatId: record.chatId, 'enforced.entryId': item.entryId },
+        { $set: { 'enforced.$.restoredAt': new Date().toISOString() } }
+      );
+      if (!result.duplicate) restored += Math.abs(item.points || 0);
+    }
+    return restored;
+  }
+
+  /** Committed award entries of the watched tasks for one user, by task id */
+  private async getAwards(userId: string, watched: WatchedTask[]): Promise<Map<string, { id: string; amount: number }>> {
+    const byKey = new Map(watched.map(w => [`task:${w.task.id}:${userId}`, w.task.id]));
+    const entries = await this.getCollection('point_transactions')
+      .find({ idempotencyKey: { $in: [...byKey.keys()] }, status: 'committed' }, { projection: { _id: 0, id: 1, amount: 1, idempotencyKey: 1 } })
+      .toArray();
+    return new Map(entries.map((entry: any) => [byKey.get(entry.idempotencyKey)!, { id: entry.id, amount: entry.amount }]));
+  }
+
+  /**
+   * Create member records for users paid for a watched task since the last
+   * run, so the re-check covers completions from before the watchdog and
+   * ones whose join update never arrived
+   */
+  private async seed(watched: WatchedTask[], limit: number): Promise<number> {
+    const sync = this.getCollection(SYNC);
+    let seeded = 0;
+    for (const w of watched) {
+      const state = await sync.findOne({ taskId: w.task.id });
+      // Start over when the task was pointed at another chat
+      const since = state?.chatId === w.chatId && state?.seededUntil ? new Date(state.seededUntil) : new Date(0);
+      const awards = await this.getCollection('point_transactions')
+        .find({ 'metadata.taskId': w.task.id, createdAt: { $gte: since }, type: 'earned', status: 'committed' }, { projection: { _id: 0, userId: 1, createdAt: 1 } })
+        .sort({ createdAt: 1 })
+        .limit(limit)
+        .toArray();
+      if (awards.length === 0) continue;
+
+      const now = new Date().toISOString();
+      const result = await this.getCollection().bulkWrite(awards.map((a: any) => ({
+        updateOne: {
+          filter: { userId: String(a.userId), chatId: w.chatId },
+          update: { $setOnInsert: { status: 'member', leaveCount: 0, pending: [], enforced: [], updatedAt: now } },
+          upsert: true
+        }
+      })), { ordered: false });
+      seeded += result.upsertedCount || 0;
+      await sync.updateOne({ taskId: w.task.id }, { $set: { chatId: w.chatId, seededUntil: awards[awards.length - 1].createdAt } }, { upsert: true });
+    }
+    return seeded;
+  }
+
+  /** Live membership from the Bot API; null when it cannot be determined */
+  private async fetchMembership(chatId: string, userId: string): Promise<{ member: boolean; status: string } | null> {
+    if (!this.botInstance) return null;
+    try {
+      const member = await this.botInstance.telegram.getChatMember(chatId, Number(userId));
+      return { member: membershipChange(null, member) === 'joined', status: member?.status || 'unknown' };
+    } catch (error: any) {
+      const description = String(error?.response?.description || error?.message || '');
+      // Users who never joined (or deleted their account) are reported as unknown participants
+      if (/user not found|participant_id_invalid/i.test(description)) return { member: false, status: 'left' };
+      this.logger.debug('getChatMember failed during membership check', { chatId, userId, error: description });
+      return null;
+    }
+  }
+
+  private async checkBotRights(): Promise<void> {
+    try {
+      const me = await this.botInstance.telegram.getMe();
+      const chats = [...new Set((await this.getWatchedTasks()).map(w => w.chatId))];
+      for (const chatId of chats) {
+        try {
+          const member = await this.botInstance.telegram.getChatMember(chatId, me.id);
+          if (member?.status !== 'administrator' && member?.status !== 'creator') {
+            this.logger.warn('Bot is not an admin of a watched chat; leaves there are only caught by the sweep', { chatId });
+          }
+        } catch (error) {
+          this.logger.warn('Could not check bot rights in a watched chat', { chatId, error: (error as any)?.message || String(error) });
+        }
+      }
+      this.logger.info('Channel membership watchdog started', { chats });
+    } catch (error) {
+      this.logger.warn('Channel membership watchdog could not inspect watched chats', { error: (error as any)?.message || String(error) });
+    }
+  }
+
+  private rejoinKeyboard(w: WatchedTask): any[][] {
+    const url = rejoinUrl(w.task, w.chatId);
+    return url ? [[{ text: '📢 Rejoin', url }]] : [];
+  }
+
+  private async notify(userId: string, text: string, keyboard: any[][]): Promise<void> {
+    if (!this.botInstance) return;
+    try {
+      await this.botInstance.telegram.sendMessage(userId, text, {
+        parse_mode: 'HTML',
+        ...(keyboard.length > 0 ? { reply_markup: { inline_keyboard: keyboard } } : {})
+      });
+    } catch (error) {
+      this.logger.debug('Could not notify user about membership change', { userId, error: (error as any)?.message || String(error) });
+    }
+  }
+
+  private formatGrace(minutes: number): string {
+    if (minutes % 1440 === 0) return `${minutes / 1440} day(s)`;
+    if (minutes % 60 === 0) return `${minutes / 60} hour(s)`;
+    return `${minutes} minute(s)`;
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private getCollection(name = MEMBERSHIPS): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
+
+export default ChannelMembershipService;
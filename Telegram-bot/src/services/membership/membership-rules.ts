@@ -0,0 +1,88 @@
+import { Task } from '../../types/task.types';
+import { MembershipEventKind, MembershipLeavePolicy, TaskMembershipPolicy } from '../../types/membership.types';
+
+/**
+ * Decisions for ChannelMembershipService: which chat a telegram_join task
+ * points at, whether a chat_member update is a join or a leave, and when a
+ * leave turns into a penalty.
+ */
+
+export const LEAVE_POLICIES: MembershipLeavePolicy[] = ['keep', 'revoke_points', 'mark_incomplete'];
+
+export const MAX_GRACE_MINUTES = 7 * 24 * 60;
+
+interface MemberLike {
+  status?: string;
+  is_member?: boolean;
+}
+
+/** Restricted users are still members unless Telegram says otherwise */
+export function isChatMember(member?: MemberLike | null): boolean {
+  if (!member?.status) return false;
+  if (member.status === 'restricted') return member.is_member === true;
+  return member.status === 'creator' || member.status === 'administrator' || member.status === 'member';
+}
+
+/** Join or leave carried by a chat_member update; null for promotions, restrictions and the like */
+export function membershipChange(oldMember?: MemberLike | null, newMember?: MemberLike | null): MembershipEventKind | null {
+  const was = isChatMember(oldMember);
+  const is = isChatMember(newMember);
+  if (was === is) return null;
+  return is ? 'joined' : 'left';
+}
+
+/**
+ * `-100…` ids stay as they are; `@Name`, `Name` and t.me links become
+ * `@name`. Invite links cannot be resolved to a chat and give null.
+ */
+export function normalizeChatRef(ref: string | number | undefined | null): string | null {
+  if (ref === undefined || ref === null) return null;
+  const value = String(ref).trim();
+  if (!value) return null;
+  if (/^-?\d+$/.test(value)) return value;
+
+  const link = value.match(/^(?:https?:\/\/)?(?:www\.)?(?:t\.me|telegram\.me)\/([^/?#]+)/i);
+  const name = link ? link[1] : value.replace(/^@/, '');
+  if (!/^[A-Za-z][A-Za-z0-9_]{3,}$/.test(name) || name.toLowerCase() === 'joinchat') return null;
+  return `@${name.toLowerCase()}`;
+}
+
+/** Chat a telegram_join task asks users to join, as used for getChatMember */
+export function taskChatId(task: Pick<Task, 'metadata'>, fallback?: string): string | null {
+  const metadata = task.metadata || {} as Task['metadata'];
+  return normalizeChatRef(metadata.channelId)
+    || normalizeChatRef(metadata.channelUsername)
+    || normalizeChatRef(metadata.targetUrl)
+    || normalizeChatRef(fallback);
+}
+
+/** References a chat_member update's chat can be matched by */
+export function chatRefs(chat: { id: number | string; username?: string }): string[] {
+  const refs = [String(chat.id)];
+  const name = normalizeChatRef(chat.username);
+  if (name) refs.push(name);
+  return refs;
+}
+
+export function resolveMembershipPolicy(task: Pick<Task, 'metadata'>, defaults: TaskMembershipPolicy): TaskMembershipPolicy {
+  const override = task.metadata?.membership || {};
+  const onLeave = LEAVE_POLICIES.includes(override.onLeave as MembershipLeavePolicy)
+    ? override.onLeave as MembershipLeavePolicy
+    : LEAVE_POLICIES.includes(defaults.onLeave) ? defaults.onLeave : 'keep';
+  const grace = Number(override.graceMinutes ?? defaults.graceMinutes);
+  return { onLeave, graceMinutes: Math.min(MAX_GRACE_MINUTES, Math.max(0, Math.floor(grace) || 0)) };
+}
+
+export function enforceAt(leftAt: Date, graceMinutes: number): Date {
+  return new Date(leftAt.getTime() + graceMinutes * 60_000);
+}
+
+/** Link behind the one-tap rejoin button; null for private chats without a public link */
+export function rejoinUrl(task: Pick<Task, 'metadata' | 'buttons'>, chatId?: string | null): string | null {
+  const target = task.metadata?.targetUrl;
+  if (target && /^https?:\/\//i.test(target)) return target;
+  const button = (task.buttons || []).find(b => b.action === 'open_url' && b.url && /^https?:\/\//i.test(b.url));
+  if (button?.url) return button.url;
+  const ref = chatId ?? taskChatId(task);
+  return ref && ref.startsWith('@') ? `https://t.me/${ref.slice(1)}` : null;
+}
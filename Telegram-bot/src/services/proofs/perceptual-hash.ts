@@ -0,0 +1,63 @@
+/** dHash compares each pixel with its right neighbour on a 9x8 grayscale thumbnail */
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+
+/** 64-bit hash split into 8-bit bands; two hashes within distance < bands share at least one band */
+export const HASH_BANDS = 8;
+
+export function rgbaToGray(rgba: ArrayLike<number>): number[] {
+  const gray: number[] = [];
+  for (let i = 0; i + 3 < rgba.length; i += 4) {
+    gray.push(Math.round(0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]));
+  }
+  return gray;
+}
+
+/**
+ * 64-bit difference hash as 16 hex chars. `gray` is a row-major
+ * DHASH_WIDTH x DHASH_HEIGHT grayscale thumbnail.
+ */
+export function differenceHash(gray: ArrayLike<number>): string {
+  if (gray.length < DHASH_WIDTH * DHASH_HEIGHT) {
+    throw new Error(`dHash expects ${DHASH_WIDTH * DHASH_HEIGHT} pixels, got ${gray.length}`);
+  }
+  let hex = '';
+  let nibble = 0;
+  let bits = 0;
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const left = gray[y * DHASH_WIDTH + x];
+      const right = gray[y * DHASH_WIDTH + x + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (++bits === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let x = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (x) {
+      distance += x & 1;
+      x >>= 1;
+    }
+  }
+  return distance;
+}
+
+/** Band keys (`<index>:<hex>`) used to index hashes for near-duplicate lookups */
+export function hashBands(hash: string, bands = HASH_BANDS): string[] {
+  const size = Math.max(1, Math.floor(hash.length / bands));
+  const keys: string[] = [];
+  for (let i = 0; i < bands; i++) {
+    keys.push(`${i}:${hash.slice(i * size, (i + 1) * size)}`);
+  }
+  return keys;
+}
@@ -0,0 +1,216 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { Context } from 'telegraf';
+import { Logger } from '../logger';
+import { StorageManager } from '../../storage';
+import { config } from '../../config';
+import { SubmissionProof } from '../../types/task-submission.types';
+import { DHASH_HEIGHT, DHASH_WIDTH, differenceHash, hammingDistance, hashBands, rgbaToGray } from './perceptual-hash';
+
+export type ProofRejection = 'unsupported' | 'too_large' | 'download_failed';
+
+export interface CollectProofResult {
+  proof?: SubmissionProof;
+  error?: ProofRejection;
+}
+
+const IMAGE_MIME = /^image\/(jpeg|png|webp|gif)$/i;
+const DOCUMENT_MIME = /^(image\/(jpeg|png|webp|gif)|application\/pdf|video\/mp4)$/i;
+
+/**
+ * Downloads photo/document proofs from Telegram, optionally mirrors them to
+ * disk and indexes perceptual hashes in `submission_proofs` so screenshots
+ * reused across accounts can be flagged for review.
+ */
+export class SubmissionProofService {
+  private static instance: SubmissionProofService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+
+  private constructor() {}
+
+  static getInstance(): SubmissionProofService {
+    if (!SubmissionProofService.instance) {
+      SubmissionProofService.instance = new SubmissionProofService();
+    }
+    return SubmissionProofService.instance;
+  }
+
+  /**
+   * Build a proof from the photo or document in the current message
+   */
+  async collectProof(ctx: Context, userId: string): Promise<CollectProofResult> {
+    const message: any = ctx.message;
+    const maxBytes = config.task.proofs.maxFileSizeMb * 1024 * 1024;
+    let proof: SubmissionProof;
+
+    if (Array.isArray(message?.photo) && message.photo.length > 0) {
+      // Telegram sends several sizes; the last one is the largest
+      const photo = message.photo[message.photo.length - 1];
+      proof = {
+        kind: 'photo',
+        fileId: photo.file_id,
+        fileUniqueId: photo.file_unique_id,
+        mimeType: 'image/jpeg',
+        fileSize: photo.file_size,
+        width: photo.width,
+        height: photo.height,
+        uploadedAt: new Date().toISOString()
+      };
+    } else if (message?.document) {
+      const doc = message.document;
+      if (!doc.mime_type || !DOCUMENT_MIME.test(doc.mime_type)) {
+        return { error: 'unsupported' };
+      }
+      proof = {
+        kind: 'document',
+        fileId: doc.file_id,
+        fileUniqueId: doc.file_unique_id,
+        mimeType: doc.mime_type,
+        fileName: doc.file_name,
+        fileSize: doc.file_size,
+        uploadedAt: new Date().toISOString()
+      };
+    } else {
+      return { error: 'unsupported' };
+    }
+
+    if (proof.fileSize && proof.fileSize > maxBytes) {
+      return { error: 'too_large' };
+    }
+
+    const needsContent = IMAGE_MIME.test(proof.mimeType || '') || !!config.task.proofs.mirrorDir;
+    if (!needsContent) return { proof };
+
+    const file = await this.downloadFile(proof.fileId, maxBytes);
+    if (!file) {
+      // Hashing and mirroring are best-effort; the file_id alone is enough for review
+      return { proof };
+    }
+
+    if (IMAGE_MIME.test(proof.mimeType || '')) {
+      proof.phash = await this.computeHash(file.buffer);
+    }
+    if (config.task.proofs.mirrorDir) {
+      proof.localPath = await this.mirror(userId, proof, file.buffer, file.filePath);
+    }
+
+    return { proof };
+  }
+
+  /**
+   * Proofs from other accounts that share the file or look like the same image
+   */
+  async findReuse(proof: SubmissionProof, userId: string): Promise<NonNullable<SubmissionProof['reusedFrom']>> {
+    const or: any[] = [{ fileUniqueId: proof.fileUniqueId }];
+    if (proof.phash) or.push({ bands: { $in: hashBands(proof.phash) } });
+
+    const maxDistance = config.task.proofs.duplicateDistance;
+    const candidates = await this.getCollection()
+      .find({ userId: { $ne: userId }, $or: or }, { projection: { _id: 0, userId: 1, submissionId: 1, fileUniqueId: 1, phash: 1 } })
+      .limit(500)
+      .toArray();
+
+    const matches = new Map<string, { userId: string; submissionId: string; distance: number }>();
+    for (const c of candidates) {
+      const distance = c.fileUniqueId === proof.fileUniqueId
+        ? 0
+        : proof.phash && c.phash ? hammingDistance(proof.phash, c.phash) : Number.POSITIVE_INFINITY;
+      if (distance > maxDistance) continue;
+      const existing = matches.get(c.submissionId);
+      if (!existing || existing.distance > distance) {
+        matches.set(c.submissionId, { userId: String(c.userId), submissionId: String(c.submissionId), distance });
+      }
+    }
+    return Array.from(matches.values()).sort((a, b) => a.distance - b.distance).slice(0, 20);
+  }
+
+  async registerProof(proof: SubmissionProof, userId: string, taskId: string, submissionId: string): Promise<void> {
+    try {
+      await this.getCollection().insertOne({
+        userId,
+        taskId,
+        submissionId,
+        fileUniqueId: proof.fileUniqueId,
+        phash: proof.phash || null,
+        bands: proof.phash ? hashBands(proof.phash) : [],
+        createdAt: new Date()
+      });
+    } catch (error) {
+      this.logger.error('Failed to index submission proof', { userId, submissionId, error: (error as any)?.message || String(error) });
+    }
+  }
+
+  /**
+   * Fetch a file through the Bot API. Also used by the admin panel to render proofs.
+   */
+  async downloadFile(fileId: string, maxBytes?: number): Promise<{ buffer: Buffer; filePath: string } | null> {
+    const token = config.bot.token;
+    if (!token) return null;
+    try {
+      const meta: any = await fetch(`${config.bot.apiRoot}/bot${token}/getFile?file_id=${encodeURIComponent(fileId)}`).then(r => r.json());
+      const filePath: string | undefined = meta?.result?.file_path;
+      if (!meta?.ok || !filePath) return null;
+      if (maxBytes && meta.result.file_size && meta.result.file_size > maxBytes) return null;
+
+      const res = await fetch(`${config.bot.apiRoot}/file/bot${token}/${filePath}`);
+      if (!res.ok) return null;
+      return { buffer: Buffer.from(await res.arrayBuffer()), filePath };
+    } catch (error) {
+      this.logger.warn('Failed to download Telegram file', { fileId, error: (error as any)?.message || String(error) });
+      return null;
+    }
+  }
+
+  /**
+   * Absolute path of a mirrored proof, if it exists and stays inside the mirror directory
+   */
+  resolveMirroredPath(localPath?: string): string | null {
+    const root = config.task.proofs.mirrorDir;
+    if (!root || !localPath) return null;
+    const base = path.resolve(root);
+    const full = path.resolve(base, localPath);
+    if (!full.startsWith(base + path.sep)) return null;
+    return fs.existsSync(full) ? full : null;
+  }
+
+  private async computeHash(buffer: Buffer): Promise<string | undefined> {
+    try {
+      const { createCanvas, loadImage } = await import('canvas');
+      const image = await loadImage(buffer);
+      const canvas = createCanvas(DHASH_WIDTH, DHASH_HEIGHT);
+      const context = canvas.getContext('2d');
+      context.drawImage(image, 0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+      const { data } = context.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+      return differenceHash(rgbaToGray(data));
+    } catch (error) {
+      this.logger.warn('Failed to compute perceptual hash', { error: (error as any)?.message || String(error) });
+      return undefined;
+    }
+  }
+
+  private async mirror(userId: string, proof: SubmissionProof, buffer: Buffer, filePath: string): Promise<string | undefined> {
+    try {
+      const ext = path.extname(proof.fileName || filePath) || '.jpg';
+      const relative = path.join(userId.replace(/[^\w-]/g, '_'), `${proof.fileUniqueId.replace(/[^\w-]/g, '_')}${ext}`);
+      const target = path.join(path.resolve(config.task.proofs.mirrorDir), relative);
+      await fs.ensureDir(path.dirname(target));
+      await fs.writeFile(target, buffer);
+      return relative;
+    } catch (error) {
+      this.logger.warn('Failed to mirror submission proof', { userId, error: (error as any)?.message || String(error) });
+      return undefined;
+    }
+  }
+
+  private getCollection(): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection('submission_proofs');
+  }
+}
+
+export const submissionProofService = SubmissionProofService.getInstance();
+export default submissionProofService;
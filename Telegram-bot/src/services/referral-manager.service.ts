@@ -8,6 +8,7 @@ import { Logger } from './logger';
 import { StorageManager } from '../storage';
 import { getConfig } from '../config';
 import { PointsService, PointEarningCategory } from '../shared';
+import { referralProgram } from './referrals/referral-program.service';
 
 interface ReferralSession {
   userId: string;
@@ -71,6 +72,7 @@ export class ReferralManagerService {
    */
   setBotInstance(bot: any): void {
     this.botInstance = bot;
+    referralProgram.setBotInstance(bot);
     this.logger.info('ReferralManager: Bot instance configured');
   }
 
@@ -279,7 +281,10 @@ export class ReferralManagerService {
   }
 
   /**
-   * Process referral bonus with retry mechanism
+   * Record a referral with retry mechanism. The referrer's bonus is deferred:
+   * ReferralProgramService pays it once the referee has passed captcha and
+   * completed `referral.taskThreshold` tasks. Calling this again (e.g. after
+   * captcha completion) re-evaluates the existing record.
    */
   async processReferralBonus(
     referrerId: string, 
@@ -290,20 +295,16 @@ export class ReferralManagerService {
     }
   ): Promise<boolean> {
     try {
-      this.logger.info('ReferralManager: Processing referral bonus', {
+      this.logger.info('ReferralManager: Processing referral', {
         referrerId,
         newUserId,
         immediate: options?.immediate
       });
       
-      // Check if already processed
-      const referrals = await this.storage.getReferralRecords(referrerId);
-      const existingRecord = referrals.find(r => r.referredUserId === newUserId);
+      // Already recorded: only advance it
+      const existingRecord = await referralProgram.getByReferee(newUserId);
       if (existingRecord) {
-        this.logger.info('ReferralManager: Referral bonus already processed', {
-          referrerId,
-          newUserId
-        });
+        await referralProgram.refresh(newUserId);
         return true;
       }
       
@@ -326,37 +327,25 @@ export class ReferralManagerService {
         return false;
       }
       
-      // Calculate bonuses
-      const referrerBonus = this.config.bot.referralBonus;
       const welcomeBonusEnabled = this.config.bot.referralWelcomeBonusEnabled;
       const welcomeBonus = welcomeBonusEnabled ? this.config.bot.referralWelcomeBonus : 0;
       
-      // Award points to referrer
-      const referrerResult = await PointsService.awardPoints(
+      const record = await referralProgram.createReferral({
         referrerId,
-        referrerBonus,
-        `Referral bonus for inviting ${newUser.firstName || 'user'}`,
-        PointEarningCategory.REFERRAL_BONUS,
-        { referredUserId: newUserId }
-      );
-      
-      if (!referrerResult.success) {
-        this.logger.error('ReferralManager: Failed to award referrer points', {
-          referrerId,
-          error: referrerResult.error
-        });
-        
-        // Queue for retry
+        referredUserId: newUserId,
+        referralCode: referrer.referralCode,
+        welcomeBonus
+      });
+      if (!record) {
         if (!options?.immediate) {
           await this.queueReferralBonus(referrerId, newUserId);
         }
         return false;
       }
       
-      // Update referrer stats
+      // Update referrer stats; activeReferrals moves when the referral unlocks
       await this.storage.updateUser(referrerId, {
-        totalReferrals: (referrer.totalReferrals || 0) + 1,
-        activeReferrals: (referrer.activeReferrals || 0) + 1
+        totalReferrals: (referrer.totalReferrals || 0) + 1
       });
       
       // Award welcome bonus to new user (if enabled)
@@ -365,37 +354,25 @@ export class ReferralManagerService {
           newUserId,
           welcomeBonus,
           'Welcome bonus for joining via referral',
-          PointEarningCategory.BONUS
+          PointEarningCategory.BONUS,
+          { referrerId },
+          { idempotencyKey: `referral_welcome:${newUserId}` }
         );
       }
       
-      // Save referral record
-      const referralRecord = {
-        id: `ref_${Date.now()}_${referrerId}`,
-        referrerId,
-        referredUserId: newUserId,
-        referralCode: referrer.referralCode,
-        joinedAt: new Date(),
-        bonusAwarded: referrerBonus,
-        welcomeBonus,
-        isActive: true
-      };
-      
-      await this.storage.saveReferralRecord(referralRecord);
-      
       // Send notification
       await this.sendReferralNotification(
         referrerId,
         newUser,
-        referrerBonus,
+        this.config.bot.referralBonus,
         (referrer.totalReferrals || 0) + 1,
         options?.notificationType || 'simple'
       );
       
-      this.logger.info('ReferralManager: Referral bonus processed successfully', {
+      this.logger.info('ReferralManager: Referral recorded', {
         referrerId,
         newUserId,
-        referrerBonus,
+        status: record.status,
         welcomeBonus
       });
       
@@ -527,14 +504,14 @@ export class ReferralManagerService {
         case 'detailed':
           message = `🎉 <b>New Referral Success!</b>\n\n` +
                    `👤 <b>New Member:</b> ${newUser.firstName}\n` +
-                   `💰 <b>Bonus Earned:</b> ${bonusAmount} points\n` +
+                   `💰 <b>Bonus:</b> ${bonusAmount} points once they complete ${this.config.referral.taskThreshold} tasks\n` +
                    `📊 <b>Total Referrals:</b> ${totalReferrals}\n` +
                    `🏆 <b>Rank Progress:</b> ${this.getReferralRank(totalReferrals)}\n\n` +
                    `💡 <b>Tip:</b> Share your code to earn more!`;
           break;
           
         default:
-          message = `❇️ New referral: ${newUser.firstName} (+${bonusAmount} pts)`;
+          message = `❇️ New referral: ${newUser.firstName} (+${bonusAmount} pts after ${this.config.referral.taskThreshold} tasks)`;
       }
       
       await this.botInstance.telegram.sendMessage(referrerId, message, {
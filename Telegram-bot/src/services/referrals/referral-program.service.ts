@@ -0,0 +1,508 @@
+import { Logger } from '../logger';
+import { nanoid } from '../id';
+import { StorageManager } from '../../storage';
+import { getConfig } from '../../config';
+import { PointsService, PointEarningCategory } from '../../shared';
+import { PointsLedgerService } from '../ledger/points-ledger.service';
+import { FeatureFlagService } from '../maintenance/feature-flag.service';
+import { Referral, ReferralStatus } from '../../types/referral.types';
+import {
+  LOCKED_REFERRAL_STATES,
+  canTransition,
+  effectiveStatus,
+  hasPassedCaptcha,
+  isMultiAccountBlock,
+  normalizeCommissionRates,
+  pendingTransitions,
+  splitCommissions
+} from './referral-rules';
+
+export interface CreateReferralInput {
+  referrerId: string;
+  referredUserId: string;
+  referralCode?: string;
+  welcomeBonus?: number;
+}
+
+export interface ReferralSweepReport {
+  unlocked: number;
+  /** Referrals whose commissions held back by a payout freeze were paid */
+  released: number;
+  clawedBack: number;
+  errors: number;
+}
+
+export interface ReferrerSummary {
+  counts: Record<ReferralStatus, number>;
+  /** Signup bonuses and commissions credited, net of claw-backs */
+  totalEarned: number;
+}
+
+/** Status filter that also matches records written before statuses existed */
+const AWARDED_FILTER = { $or: [{ status: 'bonus_awarded' }, { status: { $exists: false } }] };
+
+/**
+ * Drives referral records through pending → active → bonus_eligible →
+ * bonus_awarded. The referrer's signup bonus is paid only once the referee
+ * has passed captcha and completed `referral.taskThreshold` tasks; from then
+ * on every task payout to the referee pays commission up the referral chain.
+ * Earnings made while a referral is locked accrue on the record and are paid
+ * as one commission when it unlocks. Referees blocked for multi-accounting
+ * have every referral payout reversed. While the `referrals` feature flag is
+ * off (or a maintenance window covers it) nothing is paid: unlocks wait in
+ * bonus_eligible and commissions collect in frozenEarnings, and the sweep
+ * pays both once payouts resume.
+ */
+export class ReferralProgramService {
+  private static instance: ReferralProgramService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
+  private botInstance: any = null;
+
+  private constructor() {}
+
+  static getInstance(): ReferralProgramService {
+    if (!ReferralProgramService.instance) {
+      ReferralProgramService.instance = new ReferralProgramService();
+    }
+    return ReferralProgramService.instance;
+  }
+
+  setBotInstance(bot: any): void {
+    this.botInstance = bot;
+  }
+
+  getCommissionRates(): number[] {
+    return normalizeCommissionRates(this.config.referral.commissionRates);
+  }
+
+  async getByReferee(referredUserId: string): Promise<Referral | null> {
+    return this.getCollection().findOne({ referredUserId }, { projection: { _id: 0 } });
+  }
+
+  /**
+   * Record a new referral as `pending` and advance it as far as the referee's
+   * current progress allows. Returns the existing record if there is one.
+   */
+  async createReferral(input: CreateReferralInput): Promise<Referral | null> {
+    const existing = await this.getByReferee(input.referredUserId);
+    if (existing) return existing;
+
+    const now = new Date().toISOString();
+    const record: Referral = {
+      id: `ref_${nanoid()}`,
+      referrerId: input.referrerId,
+      referredUserId: input.referredUserId,
+      referralCode: input.referralCode || '',
+      registeredAt: now,
+      joinedAt: now,
+      isActive: false,
+      tasksCompleted: 0,
+      pointsEarned: 0,
+      lockedEarnings: 0,
+      bonusAwarded: 0,
+      welcomeBonus: input.welcomeBonus || 0,
+      commissionPaid: 0,
+      status: 'pending',
+      history: []
+    };
+
+    try {
+      await this.getCollection().insertOne({ ...record, createdAt: now });
+    } catch (error: any) {
+      if (error?.code === 11000) return this.getByReferee(input.referredUserId);
+      throw error;
+    }
+
+    this.logger.info('Referral recorded', { referrerId: input.referrerId, referredUserId: input.referredUserId });
+    await this.refresh(input.referredUserId);
+    return this.getByReferee(input.referredUserId);
+  }
+
+  /**
+   * Re-evaluate a locked referral against the referee's captcha and task
+   * progress, unlocking the referrer bonus once both are satisfied
+   */
+  async refresh(referredUserId: string): Promise<ReferralStatus | null> {
+    const record = await this.getByReferee(referredUserId);
+    if (!record) return null;
+
+    const status = effectiveStatus(record.status);
+    if (!LOCKED_REFERRAL_STATES.includes(status)) return status;
+
+    const user = await this.storage.getUser(referredUserId);
+    if (!user || user.isBlocked) return status;
+
+    const progress = {
+      captchaPassed: hasPassedCaptcha(user, this.config.captcha),
+      tasksCompleted: Number(user.tasksCompleted || 0)
+    };
+    await this.getCollection().updateOne({ id: record.id }, { $set: { tasksCompleted: progress.tasksCompleted } });
+
+    for (const to of pendingTransitions(status, progress, this.config.referral)) {
+      const set: Partial<Referral> = to === 'active'
+        ? { captchaPassedAt: new Date().toISOString(), isActive: true }
+        : { bonusEligibleAt: new Date().toISOString() };
+      if (!(await this.transition(record, to, set))) return record.status;
+    }
+
+    if (record.status === 'bonus_eligible') {
+      await this.unlock(record);
+    }
+    return record.status;
+  }
+
+  /**
+   * Hook for every task payout to a referee. Earnings on a locked referral
+   * accrue for later; on an unlocked one they pay commission immediately.
+   * `sourceKey` identifies the payout (e.g. the ledger entry id) so retries
+   * do not pay twice.
+   */
+  async recordEarning(referredUserId: string, points: number, sourceKey: string): Promise<void> {
+    if (!Number.isFinite(points) || points <= 0) return;
+
+    try {
+      const collection = this.getCollection();
+      const accrued = await collection.updateOne(
+        { referredUserId, status: { $in: LOCKED_REFERRAL_STATES }, accruedKeys: { $ne: sourceKey } },
+        { $inc: { lockedEarnings: points, pointsEarned: points }, $push: { accruedKeys: sourceKey } }
+      );
+      const locked = accrued.modifiedCount > 0 || await collection.countDocuments({ referredUserId, status: { $in: LOCKED_REFERRAL_STATES } }, { limit: 1 }) > 0;
+      if (locked) {
+        await this.refresh(referredUserId);
+        return;
+      }
+
+      if (this.payoutsFrozen()) {
+        await collection.updateOne(
+          { referredUserId, ...AWARDED_FILTER, frozenKeys: { $ne: sourceKey } },
+          { $inc: { frozenEarnings: points, pointsEarned: points }, $push: { frozenKeys: sourceKey } }
+        );
+        return;
+      }
+
+      // Commission postings are idempotent per source; pointsEarned is informational
+      const unlocked = await collection.updateOne(
+        { referredUserId, ...AWARDED_FILTER },
+        { $inc: { pointsEarned: points } }
+      );
+      if (unlocked.modifiedCount > 0) {
+        await this.payCommissions(referredUserId, points, sourceKey);
+      }
+    } catch (error) {
+      this.logger.error('Failed to record referral earning', { referredUserId, points, error: (error as any)?.message || String(error) });
+    }
+  }
+
+  /**
+   * Block the referral and reverse every referral payout tied to the referee:
+   * the referrer's signup bonus, commissions at every level and the referee's
+   * welcome bonus. Reversals may take balances below zero.
+   */
+  async clawBack(referredUserId: string, reason: string): Promise<{ success: boolean; reversed: number; entries: number }> {
+    const record = await this.getByReferee(referredUserId);
+    if (!record) return { success: false, reversed: 0, entries: 0 };
+
+    if (record.status === 'blocked') {
+      // Only resume claw-backs that were interrupted part-way
+      if (!record.clawbackPending) return { success: true, reversed: 0, entries: 0 };
+    } else {
+      const wasAwarded = effectiveStatus(record.status) === 'bonus_awarded';
+      const ok = await this.transition(record, 'blocked', { blockedAt: new Date().toISOString(), isActive: false, clawbackPending: true }, reason);
+      if (!ok) return { success: false, reversed: 0, entries: 0 };
+      if (wasAwarded) {
+        await this.getCollection('users').updateOne({ id: record.referrerId }, { $inc: { activeReferrals: -1 } });
+      }
+    }
+
+    const ledger = this.getCollection('point_transactions');
+    const payouts = await ledger.find({
+      status: 'committed',
+      amount: { $gt: 0 },
+      $or: [
+        { 'metadata.category': PointEarningCategory.REFERRAL_BONUS, 'metadata.referredUserId': referredUserId },
+        { idempotencyKey: `referral_welcome:${referredUserId}` }
+      ]
+    }, { projection: { _id: 0, id: 1, userId: 1, amount: 1, idempotencyKey: 1 } }).toArray();
+
+    let reversed = 0;
+    let failed = 0;
+    for (const entry of payouts) {
+      const result = await PointsLedgerService.getInstance().post({
+        userId: String(entry.userId),
+        amount: -Math.abs(entry.amount),
+        type: 'penalty',
+        description: 'Referral payout reversed (multi-account)',
+        source: 'referral_clawback',
+        idempotencyKey: `referral_clawback:${entry.id}`,
+        metadata: { category: 'referral_clawback', referredUserId, reversedEntryId: entry.id, reason },
+        // Fraud proceeds are recovered even if they were already spent
+        allowNegativeBalance: true
+      });
+      if (!result.success) {
+        failed++;
+      } else if (!result.duplicate) {
+        reversed += Math.abs(entry.amount);
+      }
+    }
+
+    const update: any = { $inc: { clawedBack: reversed } };
+    if (failed === 0) update.$unset = { clawbackPending: '' };
+    await this.getCollection().updateOne({ id: record.id }, update);
+
+    this.logger.warn('Referral payouts clawed back', { referredUserId, referrerId: record.referrerId, reversed, entries: payouts.length, failed, reason });
+    return { success: failed === 0, reversed, entries: payouts.length };
+  }
+
+  /**
+   * Periodic job: retry unlocks whose payout failed, claw back referrals
+   * whose referee has since been blocked for multi-accounting, and finish
+   * interrupted claw-backs.
+   */
+  async sweep(limit = 500): Promise<ReferralSweepReport> {
+    const report: ReferralSweepReport = { unlocked: 0, released: 0, clawedBack: 0, errors: 0 };
+    const collection = this.getCollection();
+
+    const frozen = this.payoutsFrozen();
+    const eligible: Referral[] = frozen ? [] : await collection.find({ status: 'bonus_eligible' }, { projection: { _id: 0 } }).limit(limit).toArray();
+    for (const record of eligible) {
+      try {
+        if (await this.unlock(record)) report.unlocked++;
+      } catch (error) {
+        report.errors++;
+        this.logger.error('Referral unlock retry failed', { referralId: record.id, error: (error as any)?.message || String(error) });
+      }
+    }
+
+    const held: Referral[] = frozen ? [] : await collection.find({ frozenEarnings: { $gt: 0 }, ...AWARDED_FILTER }, { projection: { _id: 0, id: 1 } }).limit(limit).toArray();
+    for (const record of held) {
+      try {
+        if (await this.releaseFrozenEarnings(record.id)) report.released++;
+      } catch (error) {
+        report.errors++;
+        this.logger.error('Releasing frozen referral commissions failed', { referralId: record.id, error: (error as any)?.message || String(error) });
+      }
+    }
+
+    const referees = new Set<string>();
+    const interrupted: Referral[] = await collection.find({ status: 'blocked', clawbackPending: true }, { projection: { _id: 0, referredUserId: 1 } }).limit(limit).toArray();
+    interrupted.forEach(r => referees.add(r.referredUserId));
+
+    if (this.config.referral.clawbackEnabled) {
+      const blocked = await this.getCollection('users')
+        .find({ isBlocked: true, referredBy: { $nin: [null, ''] } }, { projection: { _id: 0, id: 1, isBlocked: 1, multiAccountDetected: 1, blockReason: 1, blockedReason: 1 } })
+        .limit(limit * 10)
+        .toArray();
+      const ids = blocked.map((u: any) => String(u.id));
+      const open = new Set<string>(
+        (await collection.find({ referredUserId: { $in: ids }, status: { $ne: 'blocked' } }, { projection: { _id: 0, referredUserId: 1 } }).limit(limit).toArray())
+          .map((r: any) => String(r.referredUserId))
+      );
+      const candidates = blocked.filter((u: any) => open.has(String(u.id)));
+      const bans = candidates.length > 0
+        ? await this.getCollection('banned_users').find({ userId: { $in: candidates.map((u: any) => String(u.id)) } }, { projection: { _id: 0, userId: 1, type: 1, reason: 1 } }).toArray()
+        : [];
+      const banByUser = new Map<string, any>(bans.map((b: any) => [String(b.userId), b]));
+      for (const user of candidates) {
+        if (isMultiAccountBlock(user, banByUser.get(String(user.id)))) referees.add(String(user.id));
+      }
+    }
+
+    for (const referredUserId of referees) {
+      try {
+        const result = await this.clawBack(referredUserId, 'multi_account');
+        if (result.success) report.clawedBack++;
+        else report.errors++;
+      } catch (error) {
+        report.errors++;
+        this.logger.error('Referral claw-back failed', { referredUserId, error: (error as any)?.message || String(error) });
+      }
+    }
+
+    if (report.unlocked || report.released || report.clawedBack || report.errors) {
+      this.logger.info('Referral sweep finished', report);
+    }
+    return report;
+  }
+
+  async getReferrerSummary(referrerId: string): Promise<ReferrerSummary> {
+    const counts: Record<ReferralStatus, number> = { pending: 0, active: 0, bonus_eligible: 0, bonus_awarded: 0, inactive: 0, blocked: 0 };
+    const rows = await this.getCollection().aggregate([
+      { $match: { referrerId } },
+      { $group: { _id: { $ifNull: ['$status', 'bonus_awarded'] }, n: { $sum: 1 } } }
+    ]).toArray();
+    rows.forEach((r: any) => { counts[r._id as ReferralStatus] = r.n; });
+
+    const [earned] = await this.getCollection('point_transactions').aggregate([
+      { $match: { userId: referrerId, status: 'committed', $or: [{ 'metadata.category': PointEarningCategory.REFERRAL_BONUS }, { 'metadata.category': 'referral_clawback' }] } },
+      { $group: { _id: null, total: { $sum: '$amount' } } }
+    ]).toArray();
+
+    return { counts, totalEarned: Number(earned?.total || 0) };
+  }
+
+  private payoutsFrozen(): boolean {
+    return !FeatureFlagService.getInstance().isEnabled('referrals');
+  }
+
+  /**
+   * Pay the commissions held back while payouts were frozen. The amount is
+   * taken off the record before paying, like an unlock's locked earnings.
+   */
+  private async releaseFrozenEarnings(referralId: string): Promise<boolean> {
+    const res = await this.getCollection().findOneAndUpdate(
+      { id: referralId, frozenEarnings: { $gt: 0 } },
+      { $set: { frozenEarnings: 0 }, $unset: { frozenKeys: '' } },
+      { returnDocument: 'before', projection: { _id: 0, referredUserId: 1, frozenEarnings: 1 } }
+    );
+    const record = ((res as any)?.value !== undefined ? (res as any).value : res) as Pick<Referral, 'referredUserId' | 'frozenEarnings'> | null;
+    if (!record?.frozenEarnings) return false;
+    await this.payCommissions(record.referredUserId, record.frozenEarnings, `unfreeze:${referralId}:${Date.now()}`);
+    return true;
+  }
+
+  private async unlock(record: Referral): Promise<boolean> {
+    // Stays bonus_eligible; the sweep retries once payouts resume
+    if (this.payoutsFrozen()) return false;
+    const bonus = this.config.bot.referralBonus;
+    const referee = await this.storage.getUser(record.referredUserId);
+
+    if (bonus > 0) {
+      const result = await PointsService.awardPoints(
+        record.referrerId,
+        bonus,
+        `Referral bonus for inviting ${referee?.firstName || 'user'}`,
+        PointEarningCategory.REFERRAL_BONUS,
+        { referredUserId: record.referredUserId, level: 1, kind: 'signup' },
+        // Same key as the old pay-on-registration bonus, so migrated referrals are not paid twice
+        { idempotencyKey: `referral:${record.referrerId}:${record.referredUserId}` }
+      );
+      if (!result.success) {
+        this.logger.warn('Referral bonus payout failed, will retry', { referralId: record.id, error: result.error });
+        return false;
+      }
+    }
+
+    const res = await this.getCollection().findOneAndUpdate(
+      { id: record.id, status: 'bonus_eligible' },
+      {
+        $set: { status: 'bonus_awarded', bonusAwarded: bonus, bonusAwardedAt: new Date().toISOString() },
+        $unset: { accruedKeys: '' },
+        $push: { history: { from: 'bonus_eligible', to: 'bonus_awarded', at: new Date().toISOString() } }
+      },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    // Earnings stop accruing once the status flips, so this value is final
+    const updated = ((res as any)?.value !== undefined ? (res as any).value : res) as Referral | null;
+    if (!updated) return false;
+    record.status = 'bonus_awarded';
+
+    await this.getCollection('users').updateOne({ id: record.referrerId }, { $inc: { activeReferrals: 1 } });
+    if (updated.lockedEarnings && updated.lockedEarnings > 0) {
+      await this.payCommissions(record.referredUserId, updated.lockedEarnings, 'unlock');
+    }
+
+    this.logger.info('Referral unlocked', { referralId: record.id, referrerId: record.referrerId, bonus, lockedEarnings: updated.lockedEarnings || 0 });
+    await this.notifyReferrer(record.referrerId, `🎁 Referral bonus unlocked: <b>+${bonus}</b> points for inviting ${this.escapeHtml(referee?.firstName || 'a friend')}`);
+    return true;
+  }
+
+  private async payCommissions(referredUserId: string, amount: number, sourceKey: string): Promise<number> {
+    const rates = this.getCommissionRates();
+    if (rates.length === 0) return 0;
+
+    const chain = await this.getReferralChain(referredUserId, rates.length);
+    let paid = 0;
+    for (const share of splitCommissions(amount, rates, chain)) {
+      if (!share.userId) continue;
+      const result = await PointsService.awardPoints(
+        share.userId,
+        share.amount,
+        `Level ${share.level} referral commission`,
+        PointEarningCategory.REFERRAL_BONUS,
+        { referredUserId, level: share.level, kind: 'commission', sourceKey },
+        { idempotencyKey: `referral_commission:${referredUserId}:${sourceKey}:${share.level}` }
+      );
+      if (result.success && !result.duplicate) paid += share.amount;
+      if (!result.success) {
+        this.logger.warn('Referral commission payout failed', { referredUserId, level: share.level, userId: share.userId, error: result.error });
+      }
+    }
+
+    if (paid > 0) {
+      await this.getCollection().updateOne({ referredUserId }, { $inc: { commissionPaid: paid } });
+    }
+    return paid;
+  }
+
+  /**
+   * Up to `depth` ancestors of the referee, nearest first. Blocked ancestors
+   * keep their slot as an empty id (their level is not paid) so deeper
+   * levels do not move up.
+   */
+  private async getReferralChain(referredUserId: string, depth: number): Promise<string[]> {
+    const chain: string[] = [];
+    const seen = new Set<string>([referredUserId]);
+    let current = await this.storage.getUser(referredUserId);
+
+    while (chain.length < depth && current?.referredBy) {
+      const ancestorId = String(current.referredBy);
+      if (seen.has(ancestorId)) break;
+      seen.add(ancestorId);
+
+      const ancestor = await this.storage.getUser(ancestorId);
+      if (!ancestor) break;
+      chain.push(ancestor.isBlocked ? '' : ancestorId);
+      current = ancestor;
+    }
+    return chain;
+  }
+
+  private async transition(record: Referral, to: ReferralStatus, set: Partial<Referral> = {}, reason?: string): Promise<boolean> {
+    const from = effectiveStatus(record.status);
+    if (!canTransition(from, to)) {
+      this.logger.warn('Rejected referral state transition', { referralId: record.id, from, to });
+      return false;
+    }
+
+    const result = await this.getCollection().updateOne(
+      { id: record.id, ...(record.status ? { status: from } : { status: { $exists: false } }) },
+      {
+        $set: { ...set, status: to },
+        $push: { history: { from, to, at: new Date().toISOString(), ...(reason ? { reason } : {}) } }
+      }
+    );
+    if (result.modifiedCount === 0) {
+      this.logger.warn('Referral changed concurrently, transition skipped', { referralId: record.id, from, to });
+      return false;
+    }
+
+    Object.assign(record, set, { status: to });
+    return true;
+  }
+
+  private async notifyReferrer(referrerId: string, text: string): Promise<void> {
+    if (!this.config.notifications.referrerNotification || !this.botInstance) return;
+    try {
+      await this.botInstance.telegram.sendMessage(referrerId, text, { parse_mode: 'HTML' });
+    } catch (error) {
+      this.logger.debug('Could not notify referrer', { referrerId, error: (error as any)?.message || String(error) });
+    }
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private getCollection(name = 'referrals'): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
+
+export const referralProgram = ReferralProgramService.getInstance();
+export default referralProgram;
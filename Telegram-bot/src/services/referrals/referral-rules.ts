@@ -0,0 +1,119 @@
+import { ReferralStatus } from '../../types/referral.types';
+
+/** Referral records in these states have not paid the referrer yet; commissions accrue instead */
+export const LOCKED_REFERRAL_STATES: ReferralStatus[] = ['pending', 'active', 'bonus_eligible'];
+
+/** Deepest commission level honoured, whatever the configuration says */
+export const MAX_COMMISSION_LEVELS = 10;
+
+const TRANSITIONS: Record<ReferralStatus, ReferralStatus[]> = {
+  pending: ['active', 'blocked'],
+  active: ['bonus_eligible', 'blocked'],
+  bonus_eligible: ['bonus_awarded', 'blocked'],
+  bonus_awarded: ['blocked'],
+  // Not produced by the program; kept so hand-edited records can still be clawed back
+  inactive: ['blocked'],
+  blocked: []
+};
+
+export interface ReferralProgress {
+  captchaPassed: boolean;
+  tasksCompleted: number;
+}
+
+export interface ReferralUnlockRules {
+  taskThreshold: number;
+  requireCaptcha: boolean;
+}
+
+export interface CommissionShare {
+  /** 1 = direct referrer */
+  level: number;
+  userId: string;
+  amount: number;
+}
+
+export function canTransition(from: ReferralStatus, to: ReferralStatus): boolean {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Records written before the status field existed paid out at registration,
+ * so they behave like `bonus_awarded`.
+ */
+export function effectiveStatus(status?: ReferralStatus | null): ReferralStatus {
+  return status || 'bonus_awarded';
+}
+
+/**
+ * Steps a locked referral should take given the referee's progress, e.g.
+ * `['active', 'bonus_eligible']`. `bonus_awarded` is never returned; the
+ * service sets it once the payout has landed.
+ */
+export function pendingTransitions(status: ReferralStatus, progress: ReferralProgress, rules: ReferralUnlockRules): ReferralStatus[] {
+  const steps: ReferralStatus[] = [];
+  let current = status;
+
+  if (current === 'pending' && (progress.captchaPassed || !rules.requireCaptcha)) {
+    steps.push('active');
+    current = 'active';
+  }
+  if (current === 'active' && progress.tasksCompleted >= Math.max(0, rules.taskThreshold)) {
+    steps.push('bonus_eligible');
+  }
+  return steps;
+}
+
+/**
+ * The referee has passed every captcha type that is currently enabled
+ */
+export function hasPassedCaptcha(
+  user: { miniappVerified?: boolean; svgCaptchaVerified?: boolean } | null | undefined,
+  captcha: { miniappEnabled: boolean; svgEnabled: boolean }
+): boolean {
+  if (!user) return false;
+  return (!captcha.miniappEnabled || !!user.miniappVerified) && (!captcha.svgEnabled || !!user.svgCaptchaVerified);
+}
+
+/**
+ * Turn configured percentages (`[10, 3, 1]`) into fractions, dropping
+ * invalid entries and trailing zero levels.
+ */
+export function normalizeCommissionRates(percentages: Array<number | string>): number[] {
+  const rates = percentages
+    .slice(0, MAX_COMMISSION_LEVELS)
+    .map(p => Number(p))
+    .map(p => (Number.isFinite(p) ? Math.min(100, Math.max(0, p)) / 100 : 0));
+  while (rates.length > 0 && rates[rates.length - 1] === 0) rates.pop();
+  return rates;
+}
+
+/**
+ * Split `amount` across the referral chain. `chain[0]` is the direct
+ * referrer; shares are rounded down and empty shares are skipped.
+ */
+export function splitCommissions(amount: number, rates: number[], chain: string[]): CommissionShare[] {
+  if (!Number.isFinite(amount) || amount <= 0) return [];
+  const shares: CommissionShare[] = [];
+  for (let i = 0; i < Math.min(rates.length, chain.length); i++) {
+    // Epsilon keeps 30 * 0.1 at 3 instead of 2.9999...
+    const share = Math.floor(amount * rates[i] + 1e-9);
+    if (share > 0) shares.push({ level: i + 1, userId: chain[i], amount: share });
+  }
+  return shares;
+}
+
+/**
+ * Whether a blocked referee was blocked for multi-accounting (as opposed to a
+ * manual or temporary block), which is what triggers a claw-back.
+ */
+export function isMultiAccountBlock(
+  user: { isBlocked?: boolean; multiAccountDetected?: boolean; blockReason?: string; blockedReason?: string } | null | undefined,
+  ban?: { type?: string; reason?: string } | null
+): boolean {
+  if (!user?.isBlocked) return false;
+  if (user.multiAccountDetected) return true;
+  if (ban?.type === 'device_ban' || ban?.type === 'multi_account') return true;
+  const reason = `${user.blockReason || ''} ${user.blockedReason || ''} ${ban?.reason || ''}`;
+  return /multi[\s_-]?account|device (fingerprint )?collision/i.test(reason);
+}
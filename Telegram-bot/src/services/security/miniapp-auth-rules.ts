@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { InitDataError, MiniAppIdentity, MiniAppSessionError } from '../../types/miniapp-auth.types';
+
+/**
+ * Mini App identity. Telegram signs the initData it hands to a Mini App with
+ * a key derived from the bot token, so a verified payload proves which user
+ * opened the app. The server trades it for a short-lived session token that
+ * it signs itself; handlers read the user from that token and never from the
+ * request body.
+ *
+ * https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+ */
+
+export interface InitDataResult {
+  ok: boolean;
+  error?: InitDataError;
+  identity?: MiniAppIdentity;
+  /** Seconds since the epoch, as signed by Telegram */
+  authDate?: number;
+  hash?: string;
+}
+
+export interface MiniAppSessionResult {
+  ok: boolean;
+  error?: MiniAppSessionError;
+  identity?: MiniAppIdentity;
+  expiresAt?: number;
+}
+
+/** Tolerated difference between our clock and Telegram's when checking auth_date */
+const CLOCK_SKEW_SECONDS = 60;
+
+function safeEqualHex(a: string, b: string): boolean {
+  if (a.length !== b.length || !/^[0-9a-f]+$/i.test(a)) return false;
+  return crypto.timingSafeEqual(Buffer.from(a, 'hex'), Buffer.from(b, 'hex'));
+}
+
+function toIdentity(raw: any): MiniAppIdentity | undefined {
+  const id = raw?.id;
+  if ((typeof id !== 'number' && typeof id !== 'string') || !/^\d{1,20}$/.test(String(id))) return undefined;
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+  return {
+    id: String(id),
+    firstName: text(raw.first_name),
+    lastName: text(raw.last_name),
+    username: text(raw.username),
+    languageCode: text(raw.language_code),
+    isPremium: raw.is_premium === true ? true : undefined
+  };
+}
+
+/** The data-check-string: every field except `hash`, sorted, as key=value lines */
+export function initDataCheckString(params: URLSearchParams): string {
+  return Array.from(params.keys())
+    .filter(key => key !== 'hash')
+    .sort()
+    .map(key => `${key}=${params.get(key) ?? ''}`)
+    .join('\n');
+}
+
+export function signInitData(params: URLSearchParams, botToken: string): string {
+  const secretKey = crypto.createHmac('sha256', 'WebAppData').update(botToken).digest();
+  return crypto.createHmac('sha256', secretKey).update(initDataCheckString(params)).digest('hex');
+}
+
+/**
+ * Check the signature and, when `maxAgeSeconds` is above zero, that
+ * auth_date is recent enough.
+ */
+export function verifyInitData(initData: string, botToken: string, maxAgeSeconds: number, now: Date = new Date()): InitDataResult {
+  if (!initData) return { ok: false, error: 'missing' };
+
+  let params: URLSearchParams;
+  try {
+    params = new URLSearchParams(initData);
+  } catch {
+    return { ok: false, error: 'malformed' };
+  }
+  const hash = params.get('hash') || '';
+  const authDate = Number(params.get('auth_date'));
+  if (!hash || !Number.isInteger(authDate) || authDate <= 0) return { ok: false, error: 'malformed' };
+
+  if (!botToken || !safeEqualHex(signInitData(params, botToken), hash)) return { ok: false, error: 'bad_signature' };
+
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  if (maxAgeSeconds > 0 && (nowSeconds - authDate > maxAgeSeconds || authDate - nowSeconds > CLOCK_SKEW_SECONDS)) {
+    return { ok: false, error: 'expired', authDate, hash };
+  }
+
+  let identity: MiniAppIdentity | undefined;
+  try {
+    identity = toIdentity(JSON.parse(params.get('user') || 'null'));
+  } catch {
+    identity = undefined;
+  }
+  if (!identity) return { ok: false, error: 'no_user', authDate, hash };
+
+  return { ok: true, identity, authDate, hash };
+}
+
+function sign(payload: string, secret: Buffer): string {
+  return crypto.createHmac('sha256', secret).update(`miniapp-session.${payload}`).digest('base64url');
+}
+
+/** `<payload>.<signature>`, both base64url; the payload carries the user and the expiry */
+export function signMiniAppSession(identity: MiniAppIdentity, secret: Buffer, ttlSeconds: number, now: Date = new Date()): { token: string; expiresAt: number } {
+  const issuedAt = Math.floor(now.getTime() / 1000);
+  const expiresAt = issuedAt + ttlSeconds;
+  const payload = Buffer.from(JSON.stringify({ sub: identity.id, usr: identity, iat: issuedAt, exp: expiresAt })).toString('base64url');
+  return { token: `${payload}.${sign(payload, secret)}`, expiresAt };
+}
+
+export function verifyMiniAppSession(token: string, secret: Buffer, now: Date = new Date()): MiniAppSessionResult {
+  const parts = String(token || '').split('.');
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return { ok: false, error: 'malformed' };
+
+  const expected = Buffer.from(sign(parts[0], secret));
+  const given = Buffer.from(parts[1]);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return { ok: false, error: 'bad_signature' };
+
+  let claims: any;
+  try {
+    claims = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+  } catch {
+    return { ok: false, error: 'malformed' };
+  }
+  const identity = claims?.usr as MiniAppIdentity | undefined;
+  if (!identity || typeof claims.sub !== 'string' || identity.id !== claims.sub || !Number.isInteger(claims.exp)) return { ok: false, error: 'malformed' };
+  if (Math.floor(now.getTime() / 1000) >= claims.exp) return { ok: false, error: 'expired' };
+
+  return { ok: true, identity, expiresAt: claims.exp };
+}
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import Redis from 'ioredis';
+import { Logger } from '../logger';
+import { getConfig } from '../../config';
+import { InitDataError, MiniAppSession, MiniAppSessionError } from '../../types/miniapp-auth.types';
+import { signMiniAppSession, verifyInitData, verifyMiniAppSession, MiniAppSessionResult } from './miniapp-auth-rules';
+
+export interface MiniAppExchangeResult {
+  success: boolean;
+  error?: InitDataError | 'replayed';
+  session?: MiniAppSession;
+}
+
+/**
+ * Trades verified initData for session tokens. Each initData `hash` is
+ * accepted once: the key lives in Redis for the freshness window so a
+ * captured payload cannot be exchanged again on any replica. Without Redis
+ * the check is per process.
+ */
+export class MiniAppAuthService {
+  private static instance: MiniAppAuthService;
+  private readonly logger = Logger.getInstance();
+  private readonly config = getConfig();
+  private redis: Redis | null = null;
+  private redisReady = false;
+  private readonly seenHashes = new Map<string, number>();
+  private static readonly LOCAL_MAX_HASHES = 50000;
+  /** Replay keys outlive the freshness window so expired payloads are covered too */
+  private static readonly MIN_REPLAY_TTL_SECONDS = 3600;
+
+  private constructor() {
+    this.connectRedis().catch(() => undefined);
+  }
+
+  static getInstance(): MiniAppAuthService {
+    if (!MiniAppAuthService.instance) {
+      MiniAppAuthService.instance = new MiniAppAuthService();
+    }
+    return MiniAppAuthService.instance;
+  }
+
+  /** Verify initData, refuse a hash seen before and issue a session token */
+  async exchange(initData: string): Promise<MiniAppExchangeResult> {
+    const { maxAgeSeconds, sessionTtlSeconds } = this.config.captcha.miniappAuth;
+    const verified = verifyInitData(initData, this.config.bot.token, maxAgeSeconds);
+    if (!verified.ok) return { success: false, error: verified.error };
+
+    if (!(await this.claimHash(verified.hash))) {
+      this.logger.warn('Replayed Mini App initData rejected', { userId: verified.identity.id, authDate: verified.authDate });
+      return { success: false, error: 'replayed' };
+    }
+
+    const { token, expiresAt } = signMiniAppSession(verified.identity, this.sessionKey(), sessionTtlSeconds);
+    return { success: true, session: { identity: verified.identity, token, expiresAt: new Date(expiresAt * 1000).toISOString() } };
+  }
+
+  verifySession(token: string): MiniAppSessionResult {
+    return verifyMiniAppSession(token, this.sessionKey());
+  }
+
+  describeError(error: InitDataError | MiniAppSessionError | 'replayed'): string {
+    switch (error) {
+      case 'missing': return 'Telegram authentication required';
+      case 'expired': return 'Telegram session expired, reopen the app';
+      case 'replayed': return 'Telegram data already used, reopen the app';
+      default: return 'Invalid Telegram data';
+    }
+  }
+
+  private sessionKey(): Buffer {
+    const material = this.config.captcha.miniappAuth.sessionSecret || `miniapp-session:${this.config.jwt.secret}`;
+    return crypto.createHash('sha256').update(material).digest();
+  }
+
+  /** True when the hash had not been used; false for a replay */
+  private async claimHash(hash: string): Promise<boolean> {
+    const ttl = Math.max(this.config.captcha.miniappAuth.maxAgeSeconds, MiniAppAuthService.MIN_REPLAY_TTL_SECONDS);
+    if (this.redis && this.redisReady) {
+      try {
+        return (await this.redis.set(`miniapp:initdata:${hash}`, '1', 'EX', ttl, 'NX')) !== null;
+      } catch (err) {
+        this.logger.warn('Mini App replay check fell back to local memory', err);
+      }
+    }
+    return this.claimLocal(hash, ttl);
+  }
+
+  private claimLocal(hash: string, ttlSeconds: number): boolean {
+    const now = Date.now();
+    const seenUntil = this.seenHashes.get(hash);
+    if (seenUntil && seenUntil > now) return false;
+
+    if (this.seenHashes.size >= MiniAppAuthService.LOCAL_MAX_HASHES) {
+      for (const [key, until] of this.seenHashes) {
+        if (until <= now) this.seenHashes.delete(key);
+      }
+      if (this.seenHashes.size >= MiniAppAuthService.LOCAL_MAX_HASHES) {
+        const oldest = this.seenHashes.keys().next().value;
+        if (oldest !== undefined) this.seenHashes.delete(oldest);
+      }
+    }
+    this.seenHashes.set(hash, now + ttlSeconds * 1000);
+    return true;
+  }
+
+  private async connectRedis(): Promise<void> {
+    const redisUrl = process.env.REDIS_URL;
+    const redisHost = process.env.REDIS_HOST;
+    if (!redisUrl && !redisHost) {
+      this.logger.warn('Redis not configured; Mini App replay protection is per process');
+      return;
+    }
+    try {
+      this.redis = redisUrl
+        ? new Redis(redisUrl, { lazyConnect: true, maxRetriesPerRequest: 2 })
+        : new Redis({
+          host: redisHost,
+          port: parseInt(process.env.REDIS_PORT || '6379'),
+          password: process.env.REDIS_PASSWORD,
+          username: process.env.REDIS_USERNAME || 'default',
+          lazyConnect: true,
+          maxRetriesPerRequest: 2
+        });
+      this.redis.on('error', err => {
+        this.redisReady = false;
+        this.logger.warn('Mini App auth Redis error', err);
+      });
+      this.redis.on('ready', () => { this.redisReady = true; });
+      await this.redis.connect();
+      this.redisReady = true;
+    } catch (err) {
+      this.logger.warn('Mini App auth Redis unavailable; replay protection is per process', err);
+      await this.redis?.quit().catch(() => undefined);
+      this.redis = null;
+    }
+  }
+}
@@ -0,0 +1,300 @@
+import os from 'os';
+import Redis from 'ioredis';
+import { Logger } from '../logger';
+import { StorageManager } from '../../storage';
+import { getConfig } from '../../config';
+import { nanoid } from '../id';
+import {
+  SETTINGS_SECTION_IDS,
+  SettingsChange,
+  SettingsSectionId,
+  SettingsValues,
+  applySection,
+  diffSection,
+  mergeSectionPatch,
+  readSection
+} from './settings-schema';
+
+export interface RuntimeSettingsRecord {
+  section: SettingsSectionId;
+  version: number;
+  values: SettingsValues;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface RuntimeSettingsVersion {
+  id: string;
+  section: SettingsSectionId;
+  version: number;
+  values: SettingsValues;
+  changes: SettingsChange[];
+  author: string;
+  createdAt: string;
+  /** Set when this version restored an earlier one */
+  rollbackOf?: number;
+  reason?: string;
+}
+
+export interface SettingsUpdateResult {
+  success: boolean;
+  record?: RuntimeSettingsRecord;
+  changes?: SettingsChange[];
+  error?: 'invalid' | 'conflict' | 'not_found';
+  message?: string;
+}
+
+/**
+ * Settings admins change at runtime, shared by every replica.
+ *
+ * Each save writes a new numbered version (full values plus the diff and its
+ * author) and moves the section's current pointer. The saving replica applies
+ * it straight away and announces it on Redis; the others reload it from Mongo.
+ * A periodic reconcile covers missed messages and deployments without Redis.
+ */
+export class RuntimeSettingsService {
+  private static instance: RuntimeSettingsService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
+  private readonly instanceId = `${os.hostname()}:${process.pid}`;
+  private readonly applied = new Map<SettingsSectionId, number>();
+  private publisher: Redis | null = null;
+  private subscriber: Redis | null = null;
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  private initialized = false;
+
+  private constructor() {}
+
+  static getInstance(): RuntimeSettingsService {
+    if (!RuntimeSettingsService.instance) {
+      RuntimeSettingsService.instance = new RuntimeSettingsService();
+    }
+    return RuntimeSettingsService.instance;
+  }
+
+  /** Load (seeding any missing section from the current config) and start listening */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+    for (const section of SETTINGS_SECTION_IDS) {
+      const record = (await this.getCurrent(section)) || (await this.seed(section));
+      this.apply(record);
+    }
+    await this.connectRedis();
+    this.reconcileTimer = setInterval(() => {
+      this.reconcile().catch(err => this.logger.warn('Runtime settings reconcile failed', err));
+    }, Math.max(5000, this.config.settings.reconcileIntervalMs));
+    this.initialized = true;
+    this.logger.info('Runtime settings loaded', Object.fromEntries(this.applied));
+  }
+
+  async stop(): Promise<void> {
+    if (this.reconcileTimer) clearInterval(this.reconcileTimer);
+    this.reconcileTimer = null;
+    await Promise.all([this.subscriber, this.publisher].map(r => r?.quit().catch(() => undefined)));
+    this.subscriber = null;
+    this.publisher = null;
+    this.initialized = false;
+  }
+
+  async list(): Promise<RuntimeSettingsRecord[]> {
+    const rows: RuntimeSettingsRecord[] = await this.getCollection().find({}, { projection: { _id: 0 } }).toArray();
+    return SETTINGS_SECTION_IDS.map(section => rows.find(r => r.section === section)).filter(Boolean) as RuntimeSettingsRecord[];
+  }
+
+  /** Values as applied on this replica */
+  get(section: SettingsSectionId): SettingsValues {
+    return readSection(section, this.config);
+  }
+
+  async update(section: SettingsSectionId, patch: unknown, author: string, extra: { rollbackOf?: number; reason?: string } = {}): Promise<SettingsUpdateResult> {
+    const current = (await this.getCurrent(section)) || (await this.seed(section));
+    const { values, error } = mergeSectionPatch(section, current.values, patch);
+    if (error || !values) return { success: false, error: 'invalid', message: error || 'Invalid settings' };
+
+    const changes = diffSection(section, current.values, values);
+    if (!changes.length) return { success: true, record: current, changes };
+
+    const now = new Date().toISOString();
+    const version: RuntimeSettingsVersion = {
+      id: nanoid(),
+      section,
+      version: current.version + 1,
+      values,
+      changes,
+      author,
+      createdAt: now,
+      ...(extra.rollbackOf !== undefined ? { rollbackOf: extra.rollbackOf } : {}),
+      ...(extra.reason ? { reason: extra.reason } : {})
+    };
+    // The unique {section, version} index makes the insert the lock: of two
+    // concurrent saves on the same base version only one gets through
+    try {
+      await this.getVersionCollection().insertOne({ ...version });
+    } catch (err: any) {
+      if (err?.code !== 11000) throw err;
+      // The winning save may have died before updating the current record
+      await this.restoreCurrent(section);
+      return { success: false, error: 'conflict', message: 'Settings were changed by someone else, reload and try again' };
+    }
+    const record: RuntimeSettingsRecord = { section, version: version.version, values, updatedAt: now, updatedBy: author };
+    await this.writeCurrent(record);
+    this.apply(record);
+    await this.publish(section, record.version);
+    this.logger.info(`Runtime settings ${section} v${record.version} saved by ${author}`, { changes });
+    return { success: true, record, changes };
+  }
+
+  async history(section: SettingsSectionId, limit: number = 50): Promise<RuntimeSettingsVersion[]> {
+    return this.getVersionCollection()
+      .find({ section }, { projection: { _id: 0 } })
+      .sort({ version: -1 })
+      .limit(Math.min(200, Math.max(1, limit)))
+      .toArray();
+  }
+
+  /** Restore an earlier version's values as a new version */
+  async rollback(section: SettingsSectionId, version: number, author: string): Promise<SettingsUpdateResult> {
+    const target: RuntimeSettingsVersion | null = await this.getVersionCollection().findOne({ section, version }, { projection: { _id: 0 } });
+    if (!target) return { success: false, error: 'not_found', message: `Version ${version} of ${section} not found` };
+    return this.update(section, target.values, author, { rollbackOf: version, reason: `Rollback to v${version}` });
+  }
+
+  /** Pick up any version newer than the one applied here */
+  async reconcile(): Promise<void> {
+    for (const record of await this.list()) {
+      if (record.version > (this.applied.get(record.section) || 0)) {
+        this.logger.info(`Runtime settings ${record.section} updated to v${record.version} by ${record.updatedBy}`);
+        this.apply(record);
+      }
+    }
+  }
+
+  private apply(record: RuntimeSettingsRecord): void {
+    applySection(record.section, record.values, this.config, process.env);
+    this.applied.set(record.section, record.version);
+  }
+
+  private async seed(section: SettingsSectionId): Promise<RuntimeSettingsRecord> {
+    // History without a current record means an earlier save stopped halfway
+    const restored = await this.restoreCurrent(section);
+    if (restored) return restored;
+
+    const now = new Date().toISOString();
+    const values = readSection(section, this.config);
+    const record: RuntimeSettingsRecord = { section, version: 1, values, updatedAt: now, updatedBy: 'system' };
+    // Current record first: if the history write never happens the section still loads and saves
+    try {
+      await this.getCollection().insertOne({ ...record });
+    } catch (err: any) {
+      // Another replica seeded it first
+      if (err?.code !== 11000) throw err;
+      return (await this.getCurrent(section)) || record;
+    }
+    try {
+      await this.getVersionCollection().insertOne({ id: nanoid(), section, version: 1, values, changes: [], author: 'system', createdAt: now, reason: 'Initial values' });
+    } catch (err: any) {
+      if (err?.code !== 11000) throw err;
+    }
+    return record;
+  }
+
+  /** Move the current record up to the newest saved version; null when the section has no history */
+  private async restoreCurrent(section: SettingsSectionId): Promise<RuntimeSettingsRecord | null> {
+    const latest: RuntimeSettingsVersion | null = await this.getVersionCollection().findOne(
+      { section },
+      { sort: { version: -1 }, projection: { _id: 0 } }
+    );
+    if (!latest) return null;
+    await this.writeCurrent({ section, version: latest.version, values: latest.values, updatedAt: latest.createdAt, updatedBy: latest.author });
+    return this.getCurrent(section);
+  }
+
+  /** Upsert so a missing current record is recreated, never moving it back to an older version */
+  private async writeCurrent(record: RuntimeSettingsRecord): Promise<void> {
+    try {
+      await this.getCollection().updateOne({ section: record.section, version: { $lt: record.version } }, { $set: record }, { upsert: true });
+    } catch (err: any) {
+      // The upsert hit the unique section index: the record is already at this version or newer
+      if (err?.code !== 11000) throw err;
+    }
+  }
+
+  private async getCurrent(section: SettingsSectionId): Promise<RuntimeSettingsRecord | null> {
+    return this.getCollection().findOne({ section }, { projection: { _id: 0 } });
+  }
+
+  private async publish(section: SettingsSectionId, version: number): Promise<void> {
+    if (!this.publisher) return;
+    try {
+      await this.publisher.publish(this.config.settings.syncChannel, JSON.stringify({ section, version, origin: this.instanceId }));
+    } catch (err) {
+      this.logger.warn('Failed to announce runtime settings change; replicas will pick it up on reconcile', err);
+    }
+  }
+
+  private async connectRedis(): Promise<void> {
+    const redisUrl = process.env.REDIS_URL;
+    const redisHost = process.env.REDIS_HOST;
+    if (!redisUrl && !redisHost) {
+      this.logger.warn('Redis not configured; runtime settings reach other replicas on reconcile only');
+      return;
+    }
+    const create = () => redisUrl
+      ? new Redis(redisUrl, { lazyConnect: true, maxRetriesPerRequest: 2 })
+      : new Redis({
+        host: redisHost,
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        password: process.env.REDIS_PASSWORD,
+        username: process.env.REDIS_USERNAME || 'default',
+        lazyConnect: true,
+        maxRetriesPerRequest: 2
+      });
+    try {
+      this.publisher = create();
+      this.subscriber = create();
+      this.publisher.on('error', err => this.logger.warn('Runtime settings publisher error', err));
+      this.subscriber.on('error', err => this.logger.warn('Runtime settings subscriber error', err));
+      await Promise.all([this.publisher.connect(), this.subscriber.connect()]);
+      this.subscriber.on('message', (_channel, message) => {
+        this.onMessage(message).catch(err => this.logger.warn('Failed to apply announced runtime settings', err));
+      });
+      await this.subscriber.subscribe(this.config.settings.syncChannel);
+    } catch (err) {
+      this.logger.warn('Runtime settings pub/sub unavailable; relying on reconcile', err);
+      await Promise.all([this.subscriber, this.publisher].map(r => r?.quit().catch(() => undefined)));
+      this.publisher = null;
+      this.subscriber = null;
+    }
+  }
+
+  private async onMessage(message: string): Promise<void> {
+    const { section, version, origin } = JSON.parse(message) || {};
+    if (origin === this.instanceId) return;
+    if (!SETTINGS_SECTION_IDS.includes(section) || !(Number(version) > (this.applied.get(section) || 0))) return;
+    const record = await this.getCurrent(section);
+    if (record && record.version > (this.applied.get(section) || 0)) {
+      this.logger.info(`Runtime settings ${section} updated to v${record.version} by ${record.updatedBy}`);
+      this.apply(record);
+    }
+  }
+
+  private getCollection(): any {
+    return this.getRawCollection('runtime_settings');
+  }
+
+  private getVersionCollection(): any {
+    return this.getRawCollection('runtime_settings_versions');
+  }
+
+  private getRawCollection(name: string): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
+
+export const runtimeSettingsService = RuntimeSettingsService.getInstance();
+export default runtimeSettingsService;
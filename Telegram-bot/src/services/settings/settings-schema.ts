@@ -0,0 +1,259 @@
+import { FEATURE_FLAGS, MAX_FEATURE_MESSAGE_LENGTH } from '../maintenance/maintenance-rules';
+
+/**
+ * Schema for settings that admins change at runtime. Each field names where
+ * its value lives in the section (`key`, dotted for nested values), in the
+ * app config (`path`) and, when it has one, the environment variable that
+ * older code still reads (`env`).
+ */
+
+export type SettingsSectionId = 'withdraw' | 'task' | 'transfer' | 'walletSupport' | 'walletConfig' | 'captcha' | 'referral' | 'features';
+
+export type SettingFieldType = 'number' | 'integer' | 'boolean' | 'string' | 'list' | 'enum';
+
+export interface SettingField {
+  key: string;
+  path: string;
+  env?: string;
+  type: SettingFieldType;
+  min?: number;
+  max?: number;
+  options?: string[];
+  /** Strings only: reject empty values */
+  required?: boolean;
+}
+
+export interface SettingsSection {
+  id: SettingsSectionId;
+  label: string;
+  fields: SettingField[];
+  /** Checks that span fields, run on the merged values */
+  validate?: (values: SettingsValues) => string | null;
+}
+
+export type SettingsValues = Record<string, any>;
+
+export interface SettingsChange {
+  key: string;
+  from: unknown;
+  to: unknown;
+}
+
+const WALLET_APPS = ['metamask', 'trust', 'coinbase', 'rainbow', 'bitget', 'phantom', 'exodus', 'atomic', 'safepal', 'tokenpocket'];
+
+export const SETTINGS_SECTIONS: Record<SettingsSectionId, SettingsSection> = {
+  withdraw: {
+    id: 'withdraw',
+    label: 'Withdrawals',
+    fields: [
+      { key: 'minWithdraw', path: 'points.minWithdraw', env: 'MIN_WITHDRAW_POINTS', type: 'number', min: 0 },
+      { key: 'conversionRate', path: 'points.conversionRate', env: 'POINTS_TO_TOKEN_CONVERSION_RATE', type: 'number', min: 0 },
+      { key: 'requireChannelJoinForWithdrawal', path: 'points.requireChannelJoinForWithdrawal', env: 'WITHDRAW_REQUIRE_CHANNEL_JOIN', type: 'boolean' },
+      { key: 'requiredChannelId', path: 'bot.requiredChannelId', env: 'REQUIRED_CHANNEL_ID', type: 'string' },
+      { key: 'withdrawAlertChannelId', path: 'bot.withdrawAlertChannelId', env: 'WITHDRAW_ALERT_CHANNEL_ID', type: 'string' }
+    ]
+  },
+  task: {
+    id: 'task',
+    label: 'Tasks',
+    fields: [
+      { key: 'autoApproveSubmissions', path: 'task.autoApproveSubmissions', env: 'AUTO_APPROVE_SUBMISSIONS', type: 'boolean' }
+    ]
+  },
+  transfer: {
+    id: 'transfer',
+    label: 'Point transfers',
+    fields: [
+      { key: 'enabled', path: 'points.transfer.enabled', env: 'TRANSFER_ENABLED', type: 'boolean' },
+      { key: 'minAmount', path: 'points.transfer.minAmount', env: 'TRANSFER_MIN_POINTS', type: 'number', min: 0 },
+      { key: 'maxAmount', path: 'points.transfer.maxAmount', env: 'TRANSFER_MAX_POINTS', type: 'number', min: 0 },
+      { key: 'maxDailyAmount', path: 'points.transfer.maxDailyAmount', env: 'TRANSFER_MAX_DAILY_POINTS', type: 'number', min: 0 },
+      { key: 'feePercentage', path: 'points.transfer.feePercentage', env: 'TRANSFER_FEE_PERCENTAGE', type: 'number', min: 0, max: 100 },
+      { key: 'dailyLimit', path: 'points.transfer.dailyLimit', env: 'TRANSFER_DAILY_LIMIT', type: 'number', min: 0 },
+      { key: 'requireConfirmation', path: 'points.transfer.requireConfirmation', env: 'TRANSFER_REQUIRE_CONFIRMATION', type: 'boolean' }
+    ],
+    validate: v => {
+      if (v.minAmount > v.maxAmount) return 'minAmount cannot exceed maxAmount';
+      if (v.maxDailyAmount < v.minAmount) return 'maxDailyAmount cannot be less than minAmount';
+      return null;
+    }
+  },
+  walletSupport: {
+    id: 'walletSupport',
+    label: 'Wallet apps',
+    fields: [
+      ...WALLET_APPS.map((app): SettingField => ({ key: `apps.${app}`, path: `wallet.apps.${app}`, env: `SHOW_${app.toUpperCase()}_WALLET`, type: 'boolean' })),
+      { key: 'qr.dailyLimit', path: 'wallet.qrCode.dailyLimit', env: 'DAILY_QR_LIMIT', type: 'integer', min: 0 },
+      { key: 'qr.expirySeconds', path: 'wallet.qrCode.expirySeconds', env: 'QR_CODE_EXPIRY_TIME', type: 'integer', min: 1 }
+    ]
+  },
+  walletConfig: {
+    id: 'walletConfig',
+    label: 'Blockchain',
+    fields: [
+      { key: 'chainId', path: 'wallet.chainId', env: 'CHAIN_ID', type: 'integer', min: 1 },
+      { key: 'rpcUrl', path: 'wallet.rpcUrl', env: 'RPC_URL', type: 'string', required: true },
+      { key: 'explorerUrl', path: 'wallet.explorerUrl', env: 'EXPLORER_URL', type: 'string', required: true },
+      { key: 'withdrawMode', path: 'wallet.withdrawMode', env: 'WITHDRAW_MODE', type: 'enum', options: ['claim', 'server'] },
+      { key: 'confirmationsToWait', path: 'wallet.confirmationsToWait', env: 'WITHDRAW_CONFIRMATIONS', type: 'integer', min: 0 },
+      { key: 'tokenContractAddress', path: 'wallet.tokenContractAddress', env: 'TOKEN_CONTRACT_ADDRESS', type: 'string' },
+      { key: 'claimContractAddress', path: 'wallet.claimContractAddress', env: 'CLAIM_CONTRACT_ADDRESS', type: 'string' },
+      { key: 'tokenSymbol', path: 'wallet.tokenSymbol', env: 'TOKEN_SYMBOL', type: 'string' },
+      { key: 'tokenDecimals', path: 'wallet.tokenDecimals', env: 'TOKEN_DECIMALS', type: 'integer', min: 0 },
+      { key: 'payouts.reviewEnabled', path: 'wallet.payouts.reviewEnabled', env: 'PAYOUT_REVIEW_ENABLED', type: 'boolean' },
+      { key: 'payouts.reviewThresholdTokens', path: 'wallet.payouts.reviewThresholdTokens', env: 'PAYOUT_REVIEW_THRESHOLD_TOKENS', type: 'number', min: 0 },
+      { key: 'payouts.reviewRiskScore', path: 'wallet.payouts.reviewRiskScore', env: 'PAYOUT_REVIEW_RISK_SCORE', type: 'number', min: 0, max: 1 },
+      { key: 'payouts.dailyCapTokens', path: 'wallet.payouts.dailyCapTokens', env: 'PAYOUT_DAILY_CAP_TOKENS', type: 'number', min: 0 },
+      { key: 'ownershipProof.requireForWithdrawal', path: 'wallet.ownershipProof.requireForWithdrawal', env: 'WITHDRAW_REQUIRE_VERIFIED_WALLET', type: 'boolean' }
+    ]
+  },
+  captcha: {
+    id: 'captcha',
+    label: 'Captcha',
+    fields: [
+      { key: 'miniappEnabled', path: 'captcha.miniappEnabled', env: 'MINIAPP_CAPTCHA_ENABLED', type: 'boolean' },
+      { key: 'svgEnabled', path: 'captcha.svgEnabled', env: 'SVG_CAPTCHA_ENABLED', type: 'boolean' },
+      { key: 'requireAtLeastOne', path: 'captcha.requireAtLeastOne', env: 'REQUIRE_AT_LEAST_ONE_CAPTCHA', type: 'boolean' },
+      { key: 'forExistingUsers', path: 'captcha.forExistingUsers', env: 'CAPTCHA_FOR_EXISTING_USERS', type: 'boolean' },
+      { key: 'sessionTimeout', path: 'captcha.sessionTimeout', env: 'CAPTCHA_SESSION_TIMEOUT', type: 'number', min: 0 },
+      { key: 'maxAttempts', path: 'captcha.maxAttempts', env: 'CAPTCHA_MAX_ATTEMPTS', type: 'integer', min: 1 },
+      { key: 'geoBlocking.enabled', path: 'captcha.geoBlocking.enabled', type: 'boolean' },
+      { key: 'geoBlocking.blockedCountries', path: 'captcha.geoBlocking.blockedCountries', env: 'BLOCKED_COUNTRIES', type: 'list' },
+      { key: 'geoBlocking.allowedCountries', path: 'captcha.geoBlocking.allowedCountries', env: 'ALLOWED_COUNTRIES', type: 'list' },
+      { key: 'geoBlocking.suspiciousCountries', path: 'captcha.geoBlocking.suspiciousCountries', env: 'SUSPICIOUS_COUNTRIES', type: 'list' },
+      { key: 'riskThresholds.low', path: 'captcha.riskThresholds.low', type: 'number', min: 0, max: 1 },
+      { key: 'riskThresholds.medium', path: 'captcha.riskThresholds.medium', type: 'number', min: 0, max: 1 },
+      { key: 'riskThresholds.high', path: 'captcha.riskThresholds.high', type: 'number', min: 0, max: 1 },
+      { key: 'riskThresholds.critical', path: 'captcha.riskThresholds.critical', type: 'number', min: 0, max: 1 }
+    ]
+  },
+  referral: {
+    id: 'referral',
+    label: 'Referrals',
+    fields: [
+      { key: 'referralBonus', path: 'bot.referralBonus', env: 'REFERRAL_BONUS', type: 'number', min: 0 },
+      { key: 'referralWelcomeBonus', path: 'bot.referralWelcomeBonus', env: 'REFERRAL_WELCOME_BONUS', type: 'number', min: 0 },
+      { key: 'referralWelcomeBonusEnabled', path: 'bot.referralWelcomeBonusEnabled', env: 'REFERRAL_WELCOME_BONUS_ENABLED', type: 'boolean' },
+      { key: 'codeLength', path: 'referral.codeLength', env: 'REFERRAL_CODE_LENGTH', type: 'integer', min: 4, max: 20 },
+      { key: 'taskThreshold', path: 'referral.taskThreshold', env: 'REFERRAL_TASK_THRESHOLD', type: 'integer', min: 0 }
+    ]
+  },
+  features: {
+    id: 'features',
+    label: 'Feature flags',
+    fields: [
+      ...FEATURE_FLAGS.flatMap((flag): SettingField[] => [
+        { key: `${flag}.enabled`, path: `features.${flag}.enabled`, type: 'boolean' },
+        { key: `${flag}.message`, path: `features.${flag}.message`, type: 'string' }
+      ]),
+      { key: 'allowlist', path: 'features.allowlist', env: 'FEATURE_ALLOWLIST', type: 'list' }
+    ],
+    validate: v => {
+      if (FEATURE_FLAGS.some(flag => String(v[flag]?.message || '').length > MAX_FEATURE_MESSAGE_LENGTH)) {
+        return `Messages are limited to ${MAX_FEATURE_MESSAGE_LENGTH} characters`;
+      }
+      if ((v.allowlist || []).some((id: string) => !/^\d+$/.test(id))) return 'allowlist must contain Telegram user ids';
+      return null;
+    }
+  }
+};
+
+export const SETTINGS_SECTION_IDS = Object.keys(SETTINGS_SECTIONS) as SettingsSectionId[];
+
+export function isSettingsSection(value: unknown): value is SettingsSectionId {
+  return typeof value === 'string' && value in SETTINGS_SECTIONS;
+}
+
+export function getPath(source: any, path: string): any {
+  return path.split('.').reduce((node, part) => (node == null ? undefined : node[part]), source);
+}
+
+export function setPath(target: any, path: string, value: unknown): void {
+  const parts = path.split('.');
+  let node = target;
+  for (const part of parts.slice(0, -1)) {
+    if (node[part] == null || typeof node[part] !== 'object') node[part] = {};
+    node = node[part];
+  }
+  node[parts[parts.length - 1]] = value;
+}
+
+function coerceField(field: SettingField, raw: unknown): { value?: unknown; error?: string } {
+  const invalid = { error: `Invalid ${field.key}` };
+  switch (field.type) {
+    case 'boolean':
+      if (typeof raw === 'boolean') return { value: raw };
+      if (raw === 'true' || raw === 'false') return { value: raw === 'true' };
+      return invalid;
+    case 'number':
+    case 'integer': {
+      if (raw === '' || raw === null || typeof raw === 'boolean') return invalid;
+      const n = Number(raw);
+      if (!Number.isFinite(n) || (field.type === 'integer' && !Number.isInteger(n))) return invalid;
+      if (field.min !== undefined && n < field.min) return invalid;
+      if (field.max !== undefined && n > field.max) return invalid;
+      return { value: n };
+    }
+    case 'string': {
+      const s = raw == null ? '' : String(raw).trim();
+      if (field.required && !s) return invalid;
+      return { value: s };
+    }
+    case 'enum':
+      return field.options?.includes(String(raw)) ? { value: String(raw) } : { error: `${field.key} must be one of ${field.options?.join(', ')}` };
+    case 'list': {
+      const items = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : null;
+      if (!items) return invalid;
+      return { value: items.map(x => String(x).trim()).filter(Boolean) };
+    }
+  }
+}
+
+/** Current section values as they sit in the app config */
+export function readSection(section: SettingsSectionId, config: any): SettingsValues {
+  const values: SettingsValues = {};
+  for (const field of SETTINGS_SECTIONS[section].fields) {
+    const value = getPath(config, field.path);
+    setPath(values, field.key, Array.isArray(value) ? [...value] : value);
+  }
+  return values;
+}
+
+/**
+ * Merge a partial update into the current values. Fields missing from the
+ * patch keep their value; unknown keys are ignored.
+ */
+export function mergeSectionPatch(section: SettingsSectionId, current: SettingsValues, patch: unknown): { values?: SettingsValues; error?: string } {
+  const def = SETTINGS_SECTIONS[section];
+  const values: SettingsValues = JSON.parse(JSON.stringify(current || {}));
+  for (const field of def.fields) {
+    const raw = getPath(patch, field.key);
+    if (raw === undefined) continue;
+    const { value, error } = coerceField(field, raw);
+    if (error) return { error };
+    setPath(values, field.key, value);
+  }
+  const crossFieldError = def.validate?.(values);
+  if (crossFieldError) return { error: crossFieldError };
+  return { values };
+}
+
+/** Write section values into the app config and the matching env vars */
+export function applySection(section: SettingsSectionId, values: SettingsValues, config: any, env: Record<string, string | undefined>): void {
+  for (const field of SETTINGS_SECTIONS[section].fields) {
+    const value = getPath(values, field.key);
+    if (value === undefined) continue;
+    setPath(config, field.path, Array.isArray(value) ? [...value] : value);
+    if (field.env) env[field.env] = Array.isArray(value) ? value.join(',') : String(value);
+  }
+}
+
+export function diffSection(section: SettingsSectionId, before: SettingsValues, after: SettingsValues): SettingsChange[] {
+  const changes: SettingsChange[] = [];
+  for (const field of SETTINGS_SECTIONS[section].fields) {
+    const from = getPath(before, field.key);
+    const to = getPath(after, field.key);
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes.push({ key: field.key, from, to });
+  }
+  return changes;
+}
@@ -0,0 +1,154 @@
+import { CampaignLock } from '../../types/campaign.types';
+import { MessageParams } from '../../types/i18n.types';
+import { Task } from '../../types/task.types';
+
+export type EligibilityFailureCode =
+  | 'not_started'
+  | 'expired'
+  | 'country_required'
+  | 'country_unknown'
+  | 'country_blocked'
+  | 'account_too_new'
+  | 'wallet_required'
+  | 'premium_required'
+  | 'minimum_tasks'
+  | 'daily_limit_reached'
+  | 'campaign_locked';
+
+/** Shown to the user as `tasks.eligibility.<code>` with `params` */
+export interface EligibilityFailure {
+  code: EligibilityFailureCode;
+  params?: MessageParams;
+}
+
+
+/** The parts of a `User` record the requirements are evaluated against */
+export interface EligibilityProfile {
+  countryCode?: string;
+  countryName?: string;
+  registeredAt?: string;
+  walletAddress?: string;
+  isPremium?: boolean;
+  tasksCompleted?: number;
+}
+
+export interface EligibilityContext {
+  now?: Date;
+  /** Task-wide completions in the current UTC day, needed for `maxPerDay` */
+  completionsToday?: number;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  /** False when the task should not be listed at all (outside its window, geo-targeted elsewhere) */
+  visible: boolean;
+  failures: EligibilityFailure[];
+}
+
+/** Failures that hide the task instead of showing it locked */
+const HIDDEN_FAILURES: EligibilityFailureCode[] = ['not_started', 'expired', 'country_required', 'country_blocked'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function buildEligibilityProfile(user: any, overrides: Partial<EligibilityProfile> = {}): EligibilityProfile {
+  const location = user?.locationData;
+  return {
+    countryCode: location?.countryCode || undefined,
+    countryName: location?.country || user?.country || undefined,
+    registeredAt: user?.registeredAt || user?.firstSeen || user?.createdAt,
+    walletAddress: user?.walletAddress || undefined,
+    isPremium: user?.isPremium === true,
+    tasksCompleted: Number(user?.tasksCompleted || 0),
+    ...overrides
+  };
+}
+
+function matchesCountry(list: string[], profile: EligibilityProfile): boolean {
+  const code = profile.countryCode?.trim().toUpperCase();
+  const name = profile.countryName?.trim().toUpperCase();
+  return list.some(entry => {
+    const value = String(entry || '').trim().toUpperCase();
+    return value !== '' && (value === code || value === name);
+  });
+}
+
+function hasKnownCountry(profile: EligibilityProfile): boolean {
+  return Boolean(profile.countryCode?.trim() || profile.countryName?.trim());
+}
+
+/**
+ * Evaluate a task's validity window and `TaskRequirements` for one user.
+ * Requirements that are not set are treated as satisfied.
+ */
+export function evaluateTaskEligibility(
+  task: Pick<Task, 'requirements' | 'validFrom' | 'validTo'>,
+  profile: EligibilityProfile,
+  context: EligibilityContext = {}
+): EligibilityResult {
+  const now = (context.now ?? new Date()).getTime();
+  const req = task.requirements || {};
+  const failures: EligibilityFailure[] = [];
+
+  const validFrom = task.validFrom ? Date.parse(task.validFrom) : NaN;
+  const validTo = task.validTo ? Date.parse(task.validTo) : NaN;
+  if (!Number.isNaN(validFrom) && now < validFrom) {
+    failures.push({ code: 'not_started', params: { date: new Date(validFrom).toISOString() } });
+  }
+  if (!Number.isNaN(validTo) && now > validTo) {
+    failures.push({ code: 'expired' });
+  }
+
+  const required = Array.isArray(req.requiredCountry) ? req.requiredCountry.filter(Boolean) : [];
+  if (required.length > 0) {
+    if (!hasKnownCountry(profile)) {
+      failures.push({ code: 'country_unknown' });
+    } else if (!matchesCountry(required, profile)) {
+      failures.push({ code: 'country_required' });
+    }
+  }
+
+  const blocked = Array.isArray(req.blockedCountry) ? req.blockedCountry.filter(Boolean) : [];
+  if (blocked.length > 0 && hasKnownCountry(profile) && matchesCountry(blocked, profile)) {
+    failures.push({ code: 'country_blocked' });
+  }
+
+  if (typeof req.minimumAccountAge === 'number' && req.minimumAccountAge > 0) {
+    const registered = profile.registeredAt ? Date.parse(profile.registeredAt) : NaN;
+    const ageDays = Number.isNaN(registered) ? 0 : Math.floor((now - registered) / DAY_MS);
+    if (ageDays < req.minimumAccountAge) {
+      const remaining = req.minimumAccountAge - ageDays;
+      failures.push({ code: 'account_too_new', params: { days: req.minimumAccountAge, remaining } });
+    }
+  }
+
+  if (req.walletRequired && !profile.walletAddress) {
+    failures.push({ code: 'wallet_required' });
+  }
+
+  if (req.premiumRequired && !profile.isPremium) {
+    failures.push({ code: 'premium_required' });
+  }
+
+  if (typeof req.minimumTasks === 'number' && req.minimumTasks > 0) {
+    const done = Number(profile.tasksCompleted || 0);
+    if (done < req.minimumTasks) {
+      failures.push({ code: 'minimum_tasks', params: { count: req.minimumTasks - done } });
+    }
+  }
+
+  if (typeof req.maxPerDay === 'number' && req.maxPerDay > 0 && (context.completionsToday ?? 0) >= req.maxPerDay) {
+    failures.push({ code: 'daily_limit_reached' });
+  }
+
+  return {
+    eligible: failures.length === 0,
+    visible: !failures.some(f => HIDDEN_FAILURES.includes(f.code)),
+    failures
+  };
+}
+
+/** Lock a task behind an unfinished campaign step */
+export function withCampaignLock(result: EligibilityResult, lock?: CampaignLock | null): EligibilityResult {
+  if (!lock) return result;
+  return { ...result, eligible: false, failures: [...result.failures, { code: 'campaign_locked', params: { ...lock } }] };
+}
@@ -0,0 +1,211 @@
+import { Logger } from '../logger';
+import { StorageManager } from '../../storage';
+import { Task } from '../../types/task.types';
+import { CampaignLock } from '../../types/campaign.types';
+import { CampaignService } from '../campaigns/campaign.service';
+import {
+  EligibilityFailureCode,
+  EligibilityProfile,
+  EligibilityResult,
+  buildEligibilityProfile,
+  evaluateTaskEligibility,
+  withCampaignLock
+} from './eligibility-rules';
+
+export interface EligibilitySegmentRow {
+  country: string;
+  users: number;
+  visible: number;
+  eligible: number;
+}
+
+export interface EligibilityPreview {
+  usersScanned: number;
+  truncated: boolean;
+  visible: number;
+  locked: number;
+  hidden: number;
+  eligible: number;
+  failures: Partial<Record<EligibilityFailureCode, number>>;
+  countries: EligibilitySegmentRow[];
+  flags: {
+    premium: { users: number; eligible: number };
+    withWallet: { users: number; eligible: number };
+    withoutWallet: { users: number; eligible: number };
+  };
+}
+
+export interface EligibilityPreviewOptions {
+  maxUsers?: number;
+  topCountries?: number;
+}
+
+const COMPLETION_COUNT_TTL_MS = 30_000;
+
+/**
+ * Evaluates task validity windows and `TaskRequirements` against user records.
+ * Used by the bot to hide/lock tasks and reject completions, and by the admin
+ * panel to preview which user segments a task reaches.
+ */
+export class TaskEligibilityService {
+  private static instance: TaskEligibilityService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly completionCounts = new Map<string, { day: string; count: number; fetchedAt: number }>();
+
+  private constructor() {}
+
+  static getInstance(): TaskEligibilityService {
+    if (!TaskEligibilityService.instance) {
+      TaskEligibilityService.instance = new TaskEligibilityService();
+    }
+    return TaskEligibilityService.instance;
+  }
+
+  async evaluate(task: Task, user: any, overrides: Partial<EligibilityProfile> = {}): Promise<EligibilityResult> {
+    const locks = await this.getCampaignLocks(user);
+    return withCampaignLock(await this.evaluateRequirements(task, user, overrides), locks.get(task.id));
+  }
+
+  async evaluateAll(tasks: Task[], user: any, overrides: Partial<EligibilityProfile> = {}): Promise<Map<string, EligibilityResult>> {
+    const results = new Map<string, EligibilityResult>();
+    const locks = await this.getCampaignLocks(user);
+    await Promise.all(tasks.map(async task => {
+      results.set(task.id, withCampaignLock(await this.evaluateRequirements(task, user, overrides), locks.get(task.id)));
+    }));
+    return results;
+  }
+
+  private async evaluateRequirements(task: Task, user: any, overrides: Partial<EligibilityProfile>): Promise<EligibilityResult> {
+    const completionsToday = task.requirements?.maxPerDay ? await this.countCompletionsToday(task.id) : undefined;
+    return evaluateTaskEligibility(task, buildEligibilityProfile(user, overrides), { completionsToday });
+  }
+
+  /** Tasks behind an unfinished campaign step. Campaign errors leave tasks unlocked. */
+  private async getCampaignLocks(user: any): Promise<Map<string, CampaignLock>> {
+    try {
+      const campaigns = CampaignService.getInstance();
+      return campaigns.lockedTasks(await campaigns.getUserCampaigns(user));
+    } catch (error) {
+      this.logger.error('Failed to evaluate campaign locks', { error: (error as any)?.message || String(error) });
+      return new Map();
+    }
+  }
+
+  /**
+   * Committed ledger postings for the task since UTC midnight. Cached briefly
+   * since the task list evaluates every task on each render.
+   */
+  async countCompletionsToday(taskId: string, fresh = false): Promise<number> {
+    const day = new Date().toISOString().slice(0, 10);
+    const cached = this.completionCounts.get(taskId);
+    if (!fresh && cached && cached.day === day && Date.now() - cached.fetchedAt < COMPLETION_COUNT_TTL_MS) {
+      return cached.count;
+    }
+
+    try {
+      const count = await this.getCollection('point_transactions').countDocuments({
+        'metadata.taskId': taskId,
+        status: 'committed',
+        amount: { $gt: 0 },
+        createdAt: { $gte: new Date(`${day}T00:00:00.000Z`) }
+      });
+      this.completionCounts.set(taskId, { day, count, fetchedAt: Date.now() });
+      return count;
+    } catch (error) {
+      this.logger.error('Failed to count task completions', { taskId, error: (error as any)?.message || String(error) });
+      return cached?.day === day ? cached.count : 0;
+    }
+  }
+
+  /**
+   * Evaluate a (possibly unsaved) task against the user base and summarise
+   * who would see it, who would see it locked and why.
+   */
+  async previewSegments(task: Pick<Task, 'id' | 'requirements' | 'validFrom' | 'validTo'>, options: EligibilityPreviewOptions = {}): Promise<EligibilityPreview> {
+    const maxUsers = Math.max(1, options.maxUsers ?? 50_000);
+    const topCountries = Math.max(1, options.topCountries ?? 20);
+    const completionsToday = task.requirements?.maxPerDay && task.id ? await this.countCompletionsToday(task.id, true) : undefined;
+
+    const preview: EligibilityPreview = {
+      usersScanned: 0,
+      truncated: false,
+      visible: 0,
+      locked: 0,
+      hidden: 0,
+      eligible: 0,
+      failures: {},
+      countries: [],
+      flags: {
+        premium: { users: 0, eligible: 0 },
+        withWallet: { users: 0, eligible: 0 },
+        withoutWallet: { users: 0, eligible: 0 }
+      }
+    };
+    const countries = new Map<string, EligibilitySegmentRow>();
+
+    const cursor = this.getCollection('users').find(
+      { isBlocked: { $ne: true } },
+      {
+        projection: {
+          _id: 0, id: 1, country: 1, 'locationData.countryCode': 1, 'locationData.country': 1,
+          registeredAt: 1, firstSeen: 1, walletAddress: 1, isPremium: 1, tasksCompleted: 1
+        }
+      }
+    );
+
+    try {
+      for await (const user of cursor) {
+        if (preview.usersScanned >= maxUsers) {
+          preview.truncated = true;
+          break;
+        }
+        preview.usersScanned++;
+
+        const profile = buildEligibilityProfile(user);
+        const result = evaluateTaskEligibility(task, profile, { completionsToday });
+
+        if (!result.visible) preview.hidden++;
+        else if (!result.eligible) preview.locked++;
+        if (result.visible) preview.visible++;
+        if (result.eligible) preview.eligible++;
+        for (const failure of result.failures) {
+          preview.failures[failure.code] = (preview.failures[failure.code] || 0) + 1;
+        }
+
+        const key = (profile.countryCode || profile.countryName || 'unknown').toUpperCase();
+        const row = countries.get(key) || { country: key, users: 0, visible: 0, eligible: 0 };
+        row.users++;
+        if (result.visible) row.visible++;
+        if (result.eligible) row.eligible++;
+        countries.set(key, row);
+
+        const bump = (bucket: { users: number; eligible: number }) => {
+          bucket.users++;
+          if (result.eligible) bucket.eligible++;
+        };
+        if (profile.isPremium) bump(preview.flags.premium);
+        bump(profile.walletAddress ? preview.flags.withWallet : preview.flags.withoutWallet);
+      }
+    } finally {
+      await cursor.close().catch(() => {});
+    }
+
+    preview.countries = Array.from(countries.values())
+      .sort((a, b) => b.users - a.users)
+      .slice(0, topCountries);
+
+    return preview;
+  }
+
+  private getCollection(name: string): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
+
+export const taskEligibilityService = TaskEligibilityService.getInstance();
+export default taskEligibilityService;
@@ -13,6 +13,9 @@ export interface TaskManagerConfig {
   backupInterval?: number; // minutes
 }
 
+const LEGACY_SEED_VALID_FROM = '2025-01-01T00:00:00.000Z';
+const LEGACY_SEED_VALID_TO = '2025-12-31T23:59:59.000Z';
+
 export class TaskManager {
   private static instance: TaskManager;
   private readonly logger = Logger.getInstance();
@@ -374,6 +377,7 @@ export class TaskManager {
         // Only apply defaults for completely missing critical fields
         if (!merged[taskId].createdAt) merged[taskId].createdAt = defaultTask.createdAt;
         if (!merged[taskId].verificationMethod) merged[taskId].verificationMethod = defaultTask.verificationMethod;
+        this.stripLegacySeedValues(merged[taskId], defaultTask);
       } else {
         // New default task not in runtime yet
         merged[taskId] = { ...defaultTask, isPermanent: true };
@@ -392,6 +396,26 @@ export class TaskManager {
     return merged;
   }
 
+  /**
+   * Earlier seed data shipped a placeholder 2025 validity window and a
+   * `minimumTasks` copy of the referral target. Neither was enforced then, but
+   * both are now, so drop them from persisted copies of default tasks.
+   */
+  private stripLegacySeedValues(task: Task, defaultTask: Task): void {
+    if (!defaultTask.validFrom && !defaultTask.validTo &&
+        task.validFrom === LEGACY_SEED_VALID_FROM && task.validTo === LEGACY_SEED_VALID_TO) {
+      delete task.validFrom;
+      delete task.validTo;
+    }
+
+    if (task.requirements && defaultTask.requirements?.minimumTasks === undefined &&
+        task.verificationMethod === 'referral_count' &&
+        task.requirements.minimumTasks === task.metadata?.requiredReferrals) {
+      const { minimumTasks: _legacy, ...requirements } = task.requirements;
+      task.requirements = requirements;
+    }
+  }
+
   private validateTasks(tasks: Record<string, Task>): Record<string, Task> {
     const validated: Record<string, Task> = {};
     let validCount = 0;
@@ -0,0 +1,127 @@
+export interface QuizQuestion {
+  id: string;
+  text: string;
+  options: string[];
+  /** Indexes into `options` that count as correct */
+  correct: number[];
+}
+
+export interface QuizDefinition {
+  questions: QuizQuestion[];
+  /** Fraction of questions (0..1) that must be answered correctly */
+  passThreshold: number;
+  maxAttempts: number;
+}
+
+export interface SurveyField {
+  id: string;
+  text: string;
+  type: 'choice' | 'text';
+  options: string[];
+  required: boolean;
+  maxLength: number;
+}
+
+export interface SurveyDefinition {
+  fields: SurveyField[];
+}
+
+export interface QuizScore {
+  correct: number;
+  total: number;
+  score: number;
+  passed: boolean;
+}
+
+export const DEFAULT_QUIZ_PASS_THRESHOLD = 0.7;
+export const DEFAULT_QUIZ_MAX_ATTEMPTS = 3;
+const DEFAULT_TEXT_MAX_LENGTH = 500;
+/** Telegram callback_data is capped at 64 bytes, so option counts stay small */
+const MAX_OPTIONS = 10;
+
+function toIndexList(value: any, optionCount: number): number[] {
+  const raw = Array.isArray(value) ? value : [value];
+  return Array.from(new Set(raw.map(v => Number(v)).filter(n => Number.isInteger(n) && n >= 0 && n < optionCount)));
+}
+
+/**
+ * Read a quiz from `TaskMetadata.customData`:
+ * `{ questions: [{ id?, text|question, options: string[], correct|answer: number | number[] }], passThreshold?, maxAttempts? }`.
+ * `passThreshold` accepts a fraction (0.8) or a percentage (80). Returns null when unusable.
+ */
+export function parseQuizDefinition(customData?: Record<string, any>): QuizDefinition | null {
+  const rawQuestions = Array.isArray(customData?.questions) ? customData!.questions : [];
+  const questions: QuizQuestion[] = [];
+
+  rawQuestions.forEach((q: any, i: number) => {
+    const text = String(q?.text ?? q?.question ?? '').trim();
+    const options = Array.isArray(q?.options) ? q.options.map((o: any) => String(o).trim()).filter(Boolean).slice(0, MAX_OPTIONS) : [];
+    const correct = toIndexList(q?.correct ?? q?.answer, options.length);
+    if (!text || options.length < 2 || correct.length === 0) return;
+    questions.push({ id: String(q?.id ?? `q${i + 1}`), text, options, correct });
+  });
+
+  if (questions.length === 0) return null;
+
+  let passThreshold = Number(customData?.passThreshold ?? DEFAULT_QUIZ_PASS_THRESHOLD);
+  if (!Number.isFinite(passThreshold) || passThreshold <= 0) passThreshold = DEFAULT_QUIZ_PASS_THRESHOLD;
+  if (passThreshold > 1) passThreshold = passThreshold / 100;
+
+  const maxAttempts = Math.floor(Number(customData?.maxAttempts ?? DEFAULT_QUIZ_MAX_ATTEMPTS));
+
+  return {
+    questions,
+    passThreshold: Math.min(1, passThreshold),
+    maxAttempts: Number.isFinite(maxAttempts) && maxAttempts > 0 ? maxAttempts : DEFAULT_QUIZ_MAX_ATTEMPTS
+  };
+}
+
+/**
+ * Read a survey from `TaskMetadata.customData`:
+ * `{ fields: [{ id?, text|label, type?: 'choice' | 'text', options?, required?, maxLength? }] }`.
+ * Fields with options default to `choice`, others to `text`; fields are required unless `required: false`.
+ */
+export function parseSurveyDefinition(customData?: Record<string, any>): SurveyDefinition | null {
+  const rawFields = Array.isArray(customData?.fields) ? customData!.fields : [];
+  const fields: SurveyField[] = [];
+
+  rawFields.forEach((f: any, i: number) => {
+    const text = String(f?.text ?? f?.label ?? '').trim();
+    const options = Array.isArray(f?.options) ? f.options.map((o: any) => String(o).trim()).filter(Boolean).slice(0, MAX_OPTIONS) : [];
+    const type: SurveyField['type'] = f?.type === 'text' || options.length === 0 ? 'text' : 'choice';
+    if (!text) return;
+    const maxLength = Math.floor(Number(f?.maxLength ?? DEFAULT_TEXT_MAX_LENGTH));
+    fields.push({
+      id: String(f?.id ?? `f${i + 1}`),
+      text,
+      type,
+      options: type === 'choice' ? options : [],
+      required: f?.required !== false,
+      maxLength: maxLength > 0 ? maxLength : DEFAULT_TEXT_MAX_LENGTH
+    });
+  });
+
+  return fields.length > 0 ? { fields } : null;
+}
+
+export function scoreQuiz(definition: QuizDefinition, answers: Record<string, number>): QuizScore {
+  const total = definition.questions.length;
+  const correct = definition.questions.filter(q => q.correct.includes(Number(answers[q.id]))).length;
+  const score = total > 0 ? correct / total : 0;
+  // Small epsilon so 7/10 passes a 0.7 threshold despite float rounding
+  return { correct, total, score, passed: score + 1e-9 >= definition.passThreshold };
+}
+
+/** Text a spreadsheet would run as a formula; user answers get a leading quote so they stay text */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return '"' + text.replace(/"/g, '""') + '"';
+}
+
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers.map(csvCell).join(',')].concat(rows.map(r => r.map(csvCell).join(','))).join('\n');
+}
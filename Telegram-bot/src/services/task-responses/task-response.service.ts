@@ -0,0 +1,123 @@
+import { Logger } from '../logger';
+import { nanoid } from '../id';
+import { StorageManager } from '../../storage';
+import { Task } from '../../types/task.types';
+import { QuizScore, parseSurveyDefinition, toCsv } from './response-rules';
+
+export type TaskResponseKind = 'quiz' | 'survey';
+
+export interface TaskResponseDocument {
+  id: string;
+  taskId: string;
+  userId: string;
+  username?: string;
+  kind: TaskResponseKind;
+  /** 1-based; always 1 for surveys. Unique per user/task/kind */
+  attempt: number;
+  answers: Record<string, string | number | null>;
+  score?: QuizScore;
+  startedAt?: string;
+  submittedAt: string;
+}
+
+export interface RecordResponseResult {
+  success: boolean;
+  duplicate?: boolean;
+  response?: TaskResponseDocument;
+}
+
+/**
+ * Stores quiz attempts and survey answers in `task_responses`.
+ */
+export class TaskResponseService {
+  private static instance: TaskResponseService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+
+  private constructor() {}
+
+  static getInstance(): TaskResponseService {
+    if (!TaskResponseService.instance) {
+      TaskResponseService.instance = new TaskResponseService();
+    }
+    return TaskResponseService.instance;
+  }
+
+  async countAttempts(userId: string, taskId: string, kind: TaskResponseKind): Promise<number> {
+    return this.getCollection().countDocuments({ userId, taskId, kind });
+  }
+
+  async hasPassedQuiz(userId: string, taskId: string): Promise<boolean> {
+    const doc = await this.getCollection().findOne({ userId, taskId, kind: 'quiz', 'score.passed': true }, { projection: { _id: 1 } });
+    return !!doc;
+  }
+
+  /**
+   * Insert a response. The attempt number comes from the current count, and
+   * the unique index turns concurrent double-submits into duplicates.
+   */
+  async record(input: Omit<TaskResponseDocument, 'id' | 'attempt' | 'submittedAt'>): Promise<RecordResponseResult> {
+    const collection = this.getCollection();
+    const attempt = input.kind === 'survey' ? 1 : (await this.countAttempts(input.userId, input.taskId, input.kind)) + 1;
+    const doc: TaskResponseDocument = {
+      ...input,
+      id: `resp_${nanoid()}`,
+      attempt,
+      submittedAt: new Date().toISOString()
+    };
+
+    try {
+      await collection.insertOne({ ...doc });
+      return { success: true, response: doc };
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return { success: false, duplicate: true };
+      }
+      this.logger.error('Failed to record task response', { taskId: input.taskId, userId: input.userId, error: error?.message || String(error) });
+      return { success: false };
+    }
+  }
+
+  async getResponses(taskId: string, kind?: TaskResponseKind, limit = 10_000): Promise<TaskResponseDocument[]> {
+    const filter: any = { taskId };
+    if (kind) filter.kind = kind;
+    return this.getCollection()
+      .find(filter, { projection: { _id: 0 } })
+      .sort({ submittedAt: 1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * One row per respondent; columns follow the survey's current field order,
+   * with answers to fields removed since then appended at the end.
+   */
+  async exportSurveyCsv(task: Task): Promise<string> {
+    const responses = await this.getResponses(task.id, 'survey', 100_000);
+    const fields = parseSurveyDefinition(task.metadata?.customData)?.fields || [];
+
+    const fieldIds = fields.map(f => f.id);
+    for (const r of responses) {
+      for (const key of Object.keys(r.answers || {})) {
+        if (!fieldIds.includes(key)) fieldIds.push(key);
+      }
+    }
+    const labels = fieldIds.map(id => fields.find(f => f.id === id)?.text || id);
+
+    return toCsv(
+      ['submittedAt', 'userId', 'username', ...labels],
+      responses.map(r => [r.submittedAt, r.userId, r.username || '', ...fieldIds.map(id => r.answers?.[id] ?? '')])
+    );
+  }
+
+  private getCollection(): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection('task_responses');
+  }
+}
+
+export const taskResponseService = TaskResponseService.getInstance();
+export default taskResponseService;
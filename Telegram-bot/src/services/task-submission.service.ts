@@ -2,10 +2,15 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { Context } from 'telegraf';
 import { Logger } from './logger';
-import { TaskSubmission, TaskSubmissionStatus, TelegramVerificationResult } from '../types/task-submission.types';
+import { SubmissionProof, TaskSubmission, TaskSubmissionStatus, TelegramVerificationResult } from '../types/task-submission.types';
 import { Task } from '../types/task.types';
 import { MongoStorage } from '../storage/implementations/mongodb-storage';
 import { TaskManager } from './task-manager.service';
+import { TaskEligibilityService } from './task-eligibility/task-eligibility.service';
+import { EligibilityFailure } from './task-eligibility/eligibility-rules';
+import { SubmissionProofService } from './proofs/submission-proof.service';
+import { ReferralProgramService } from './referrals/referral-program.service';
+import { CampaignService } from './campaigns/campaign.service';
 import { PointsService, PointEarningCategory } from '../shared';
 import { writeJsonSafe, atomicOps } from '../utils/atomic-operations';
 import { safeRegex } from './validation.service';
@@ -13,6 +18,38 @@ import { getTaskManagerConfig } from './task-config.service';
 import { getConfig } from '../config';
 import { parseDuration, hasIntervalPassed } from '../utils/time-utils';
 
+/** Task types that usually exist several times over, so completion is tracked per task id */
+const PER_TASK_COMPLETION_TYPES = new Set<string>(['quiz', 'survey']);
+
+/**
+ * Key used in `taskCompletionStatus` / `completedTasks`. Built-in tasks are
+ * one-per-type and keyed by type; quiz and survey tasks are keyed by id.
+ */
+export function getTaskCompletionKey(task: Pick<Task, 'id' | 'type'>): string {
+  return PER_TASK_COMPLETION_TYPES.has(task.type) ? task.id : task.type;
+}
+
+export type TaskSubmitOutcome =
+  | 'appended'
+  | 'config_error'
+  | 'invalid_format'
+  | 'locked'
+  | 'duplicate'
+  | 'auto_approved'
+  | 'submitted'
+  | 'failed';
+
+/** Shown to the user as `tasks.submit.result.<outcome>`, or the eligibility failure when locked */
+export interface TaskSubmitResult {
+  success: boolean;
+  submissionId?: string;
+  outcome: TaskSubmitOutcome;
+  /** `example` for invalid_format, `points` for auto_approved */
+  params?: { example?: string; points?: number };
+  failure?: EligibilityFailure;
+  appended?: boolean;
+}
+
 export class TaskSubmissionService {
   private static instance: TaskSubmissionService;
   private readonly logger = Logger.getInstance();
@@ -154,24 +191,40 @@ export class TaskSubmissionService {
   }
 
   /**
-   * Submit a task for review
+   * Submit a task for review. Photo/document proofs arrive one message at a
+   * time; proofs from the same Telegram album are appended to one submission.
    */
   public async submitTask(
     userId: string, 
     username: string | undefined, 
     taskId: string, 
     submissionText: string, 
-    taskConfig: Task
-  ): Promise<{ success: boolean; submissionId?: string; message: string }> {
+    taskConfig: Task,
+    upload?: { proofs: SubmissionProof[]; mediaGroupId?: string }
+  ): Promise<TaskSubmitResult> {
     try {
       const submissionId = `sub_${Date.now()}_${userId}`;
+      const proofs = upload?.proofs || [];
       
       // OPTIMIZATION FIX: Use task's own autoApprove flag instead of global config
       // because admin panel updates task directly, not the runtime config object
       const requiresSubmission = (taskConfig.validation?.submissionRequired === true) || (taskConfig.verificationMethod === 'user_submission');
       
       // Use task's validation.autoApprove flag directly (updated by admin panel)
-      const autoApprove = requiresSubmission ? (taskConfig.validation?.autoApprove === true) : false;
+      let autoApprove = requiresSubmission ? (taskConfig.validation?.autoApprove === true) : false;
+
+      if (upload?.mediaGroupId) {
+        const appended = await this.appendAlbumProofs(userId, taskId, upload.mediaGroupId, proofs);
+        if (appended) {
+          return { success: true, submissionId: appended, outcome: 'appended', appended: true };
+        }
+      }
+
+      // Screenshots already used by other accounts always go to manual review
+      const reused = await this.flagReusedProofs(userId, proofs);
+      if (reused.length > 0) {
+        autoApprove = false;
+      }
       
       this.logger.debug('Task submission auto-approve check', {
         taskId: taskConfig.id,
@@ -187,39 +240,48 @@ export class TaskSubmissionService {
         username,
         taskId,
         submissionText,
-        submissionType: this.detectSubmissionType(submissionText),
+        submissionType: proofs.length > 0 ? this.detectProofType(proofs[0]) : this.detectSubmissionType(submissionText),
         status: autoApprove ? 'approved' : 'pending',
         submittedAt: new Date().toISOString(),
         metadata: {
-          submissionMethod: 'direct',
+          submissionMethod: proofs.length > 0 ? 'upload' : 'direct',
           autoValidated: autoApprove,
-          reviewPriority: 'normal',
+          reviewPriority: reused.length > 0 ? 'high' : 'normal',
+          ...(proofs.length > 0 ? {
+            screenshots: proofs.filter(p => p.kind === 'photo').map(p => p.fileId),
+            attachments: proofs.filter(p => p.kind === 'document').map(p => p.fileId),
+            proofs
+          } : {}),
+          ...(reused.length > 0 ? { validationResults: reused } : {}),
           customData: {
             taskTitle: taskConfig.title,
-            taskPoints: taskConfig.points
+            taskPoints: taskConfig.points,
+            ...(upload?.mediaGroupId ? { mediaGroupId: upload.mediaGroupId } : {})
           }
         }
       };
 
-      // Validate submission format
-      if (taskConfig.validation?.submissionPattern) {
+      // Validate submission format (uploads carry their proof in the file, not the caption)
+      if (taskConfig.validation?.submissionPattern && proofs.length === 0) {
         const regex = safeRegex(taskConfig.validation.submissionPattern);
         if (!regex) {
           this.logger.error('Invalid submission pattern in task config:', taskConfig.validation.submissionPattern);
-          return {
-            success: false,
-            message: '❌ Task configuration error. Please contact admin.'
-          };
+          return { success: false, outcome: 'config_error' };
         }
         
         if (!regex.test(submissionText)) {
-          return {
-            success: false,
-            message: `❌ Invalid format. Expected: ${taskConfig.validation.submissionExample || 'Valid URL'}`
-          };
+          return { success: false, outcome: 'invalid_format', params: { example: taskConfig.validation.submissionExample || '' } };
         }
       }
 
+      // Requirements or the validity window may have changed since the submission scene started
+      const currentTask = (await this.taskManager.getTask(taskId)) || taskConfig;
+      const submitter = await this.storage.getUser(userId);
+      const eligibility = await TaskEligibilityService.getInstance().evaluate(currentTask, submitter);
+      if (!eligibility.eligible) {
+        return { success: false, outcome: 'locked', failure: eligibility.failures[0] };
+      }
+
       // Check for duplicate submissions in MongoDB
       const existingSubmission = await this.storage.findByQuery<TaskSubmission>('task_submissions', {
         userId,
@@ -228,10 +290,7 @@ export class TaskSubmissionService {
       });
       
       if (existingSubmission.length > 0) {
-        return {
-          success: false,
-          message: '❌ You have already submitted this task. Please wait for review.'
-        };
+        return { success: false, outcome: 'duplicate' };
       }
 
       if (autoApprove) {
@@ -246,18 +305,16 @@ export class TaskSubmissionService {
           await this.storage.updateUser(userId, { submissionHistory: [...history, record] });
         }
         await this.completeTask(userId, username, taskId, taskConfig.points, 'auto_approved', submission);
+        await this.registerProofs(proofs, userId, taskId, submissionId);
         
-        return {
-          success: true,
-          submissionId,
-          message: `✅ Task completed automatically! You earned ${taskConfig.points} points!`
-        };
+        return { success: true, submissionId, outcome: 'auto_approved', params: { points: taskConfig.points } };
       } else {
         await this.storage.set('task_submissions', submission, submissionId);
+        await this.registerProofs(proofs, userId, taskId, submissionId);
         const user = await this.storage.getUser(userId);
         if (user) {
           const task = await this.taskManager.getTask(taskId);
-          const taskType = task?.type || taskId;
+          const taskType = task ? getTaskCompletionKey(task) : taskId;
           const history = Array.isArray(user.submissionHistory) ? user.submissionHistory : [];
           const record = {
             taskTitle: task?.title || taskId,
@@ -273,21 +330,92 @@ export class TaskSubmissionService {
           });
         }
         
-        return {
-          success: true,
-          submissionId,
-          message: `✅ Task submitted for review! You will be notified when it's approved.`
-        };
+        return { success: true, submissionId, outcome: 'submitted' };
       }
     } catch (error) {
       this.logger.error('Error submitting task:', error);
-      return {
-        success: false,
-        message: '❌ Failed to submit task. Please try again.'
-      };
+      return { success: false, outcome: 'failed' };
+    }
+  }
+
+  /**
+   * Pending submission created from the first message of a Telegram album
+   */
+  public async findAlbumSubmission(userId: string, mediaGroupId: string): Promise<TaskSubmission[]> {
+    return this.storage.findByQuery<TaskSubmission>('task_submissions', {
+      userId,
+      status: 'pending',
+      'metadata.customData.mediaGroupId': mediaGroupId
+    }, { limit: 1 });
+  }
+
+  /**
+   * Add proofs from a later message of the same Telegram album to its pending submission
+   */
+  private async appendAlbumProofs(userId: string, taskId: string, mediaGroupId: string, proofs: SubmissionProof[]): Promise<string | null> {
+    const [existing] = await this.storage.findByQuery<TaskSubmission>('task_submissions', {
+      userId,
+      taskId,
+      status: 'pending',
+      'metadata.customData.mediaGroupId': mediaGroupId
+    });
+    if (!existing) return null;
+
+    const reused = await this.flagReusedProofs(userId, proofs);
+    const allProofs = [...(existing.metadata.proofs || []), ...proofs];
+    const metadata = {
+      ...existing.metadata,
+      screenshots: allProofs.filter(p => p.kind === 'photo').map(p => p.fileId),
+      attachments: allProofs.filter(p => p.kind === 'document').map(p => p.fileId),
+      proofs: allProofs,
+      ...(reused.length > 0 ? {
+        reviewPriority: 'high' as const,
+        validationResults: [...(existing.metadata.validationResults || []), ...reused]
+      } : {})
+    };
+    await this.storage.update('task_submissions', { metadata }, existing.id);
+    await this.registerProofs(proofs, userId, taskId, existing.id);
+    return existing.id;
+  }
+
+  /**
+   * Attach cross-account reuse matches to each proof; returns validation results for flagged ones
+   */
+  private async flagReusedProofs(userId: string, proofs: SubmissionProof[]) {
+    const results: NonNullable<TaskSubmission['metadata']['validationResults']> = [];
+    for (const proof of proofs) {
+      try {
+        const matches = await SubmissionProofService.getInstance().findReuse(proof, userId);
+        if (matches.length === 0) continue;
+        proof.reusedFrom = matches;
+        const exact = matches[0].distance === 0;
+        results.push({
+          validator: 'proof_reuse',
+          passed: false,
+          message: `${exact ? 'Identical' : 'Near-identical'} image already submitted by ${new Set(matches.map(m => m.userId)).size} other account(s)`,
+          confidence: exact ? 1 : 0.8,
+          timestamp: new Date().toISOString()
+        });
+        this.logger.warn('Reused submission proof detected', { userId, fileUniqueId: proof.fileUniqueId, matches });
+      } catch (error) {
+        this.logger.error('Proof reuse check failed:', error);
+      }
+    }
+    return results;
+  }
+
+  private async registerProofs(proofs: SubmissionProof[], userId: string, taskId: string, submissionId: string): Promise<void> {
+    for (const proof of proofs) {
+      await SubmissionProofService.getInstance().registerProof(proof, userId, taskId, submissionId);
     }
   }
 
+  private detectProofType(proof: SubmissionProof): TaskSubmission['submissionType'] {
+    if (proof.kind === 'photo' || proof.mimeType?.startsWith('image/')) return 'screenshot';
+    if (proof.mimeType?.startsWith('video/')) return 'video';
+    return 'other';
+  }
+
   /**
    * Complete a task
    */
@@ -308,7 +436,7 @@ export class TaskSubmissionService {
         return false;
       }
       
-      const taskType = task.type; // Use task type instead of task ID
+      const taskType = getTaskCompletionKey(task); // Task type, or the id for per-task types
       
       // Check if task is already completed
       const user = await this.storage.getUser(userId);
@@ -358,7 +486,13 @@ export class TaskSubmissionService {
         points,
         `Task completion: ${task.title}`,
         category,
-        { taskId, taskType, verificationMethod, submissionId: submission?.id }
+        { taskId, taskType: task.type, verificationMethod, submissionId: submission?.id, ...(verificationData ? { verificationData } : {}) },
+        {
+          // One-off tasks pay once per user; repeatable tasks once per submission
+          idempotencyKey: !task.isDaily
+            ? `task:${taskId}:${userId}`
+            : submission?.id ? `task:${taskId}:${userId}:${submission.id}` : undefined
+        }
       );
 
       if (!award.success) {
@@ -414,6 +548,14 @@ export class TaskSubmissionService {
         } catch (e) {
           this.logger.error('Error incrementing task completionCount:', e);
         }
+        if (user.referredBy && !award.duplicate) {
+          await ReferralProgramService.getInstance().recordEarning(userId, points, award.transaction?.id || `task:${taskId}:${userId}:${Date.now()}`);
+        }
+        try {
+          await CampaignService.getInstance().onTaskCompleted(userId, task);
+        } catch (e) {
+          this.logger.error('Error recording campaign progress:', e);
+        }
       }
       
       return success;
@@ -453,7 +595,7 @@ export class TaskSubmissionService {
 
       const user = await this.storage.getUser(submission.userId);
       const task = await this.taskManager.getTask(submission.taskId);
-      const taskType = task?.type || submission.taskId;
+      const taskType = task ? getTaskCompletionKey(task) : submission.taskId;
       const title = task?.title || submission.taskId;
 
       // Update minimal submissionHistory with status
@@ -545,7 +687,7 @@ export class TaskSubmissionService {
             try {
               // Get task to find its type
               const task = await this.taskManager.getTask(key);
-              if (task && task.type) {
+              if (task && task.type && getTaskCompletionKey(task) !== key) {
                 // Add the entry with task type as key
                 newTaskCompletionStatus[task.type] = status;
                 // Remove the old entry with task ID
@@ -676,7 +818,7 @@ export class TaskSubmissionService {
           // ✅ For non-daily tasks: check permanent completion status
           return user.taskCompletionStatus && 
                  (user.taskCompletionStatus[taskId] === 'Completed' || 
-                  user.taskCompletionStatus[task.type] === 'Completed');
+                  user.taskCompletionStatus[getTaskCompletionKey(task)] === 'Completed');
         } catch (error) {
           this.logger.error('Error checking task completion:', error);
           return false;
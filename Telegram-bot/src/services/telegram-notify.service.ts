@@ -39,7 +39,7 @@ export class TelegramNotifyService {
     await Promise.allSettled(
       adminIds.map(async (id) => {
         try {
-          const res = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
+          const res = await fetch(`${config.bot.apiRoot}/bot${token}/sendMessage`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ chat_id: id, text, parse_mode: 'HTML', disable_web_page_preview: true })
@@ -68,7 +68,7 @@ export class TelegramNotifyService {
     }
 
     try {
-      const res = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
+      const res = await fetch(`${config.bot.apiRoot}/bot${token}/sendMessage`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
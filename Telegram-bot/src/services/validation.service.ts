@@ -550,36 +550,15 @@ export class ValidationService {
 
   /**
    * Validate Telegram WebApp data
-   * Merged from security/validation.ts
+   * Signature only; Mini App routes use requireMiniAppIdentity, which also
+   * checks freshness and replays
    */
   public validateTelegramWebAppData(initData: string): boolean {
     try {
-      const params = new URLSearchParams(initData);
-      const receivedHash = params.get('hash');
-      if (!receivedHash) return false;
-
-      params.delete('hash');
-
-      // Build data check string from sorted key=value pairs
-      const dataPairs: string[] = [];
-      Array.from(params.keys())
-        .sort()
-        .forEach((key) => {
-          const value = params.get(key) ?? '';
-          dataPairs.push(`${key}=${value}`);
-        });
-      const dataCheckString = dataPairs.join('\n');
-
-      // Compute secret key: sha256 of bot token
       const { getConfig } = require('../config');
-      const botToken: string = getConfig().bot.token;
-      const crypto = require('crypto');
-      const secretKey = crypto.createHash('sha256').update(botToken).digest();
-
-      // Compute HMAC-SHA256 of dataCheckString
-      const hmac = crypto.createHmac('sha256', secretKey).update(dataCheckString).digest('hex');
-
-      return hmac === receivedHash;
+      const { verifyInitData } = require('./security/miniapp-auth-rules');
+      const result = verifyInitData(initData, getConfig().bot.token, 0);
+      return result.ok || result.error === 'no_user';
     } catch (error) {
       this.logger.error('Telegram WebApp data validation failed:', error);
       return false;
@@ -0,0 +1,278 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { Logger } from '../logger';
+import { StorageManager } from '../../storage';
+import { getConfig } from '../../config';
+import { WalletConnectService } from '../walletconnect.service';
+import { WalletVerification } from '../../types/user.types';
+import {
+  EIP1271_MAGIC_VALUE,
+  ProofChain,
+  buildProofMessage,
+  decodeSignatureCandidates,
+  getProofChain,
+  solanaPublicKey,
+  verifyEd25519,
+  verifyEvmSignature
+} from './wallet-proof';
+import { sessionChainIds, walletConnectChain } from '../chains/chain-rules';
+
+export interface WalletProofChallenge {
+  /** One open challenge per user, keyed by their id */
+  id: string;
+  userId: string;
+  address: string;
+  chain: ProofChain;
+  message: string;
+  nonce: string;
+  attempts: number;
+  createdAt: string;
+  expiresAt: Date;
+}
+
+export interface WalletProofResult {
+  success: boolean;
+  challenge?: WalletProofChallenge;
+  verification?: WalletVerification;
+  error?: 'unsupported_chain' | 'no_challenge' | 'wallet_changed' | 'invalid_signature' | 'too_many_attempts' | 'no_session' | 'signature_rejected' | 'key_unavailable';
+  message?: string;
+}
+
+/**
+ * Proves that a user controls the wallet bound to their account.
+ *
+ * The bot issues a one-time sign-in message (EIP-4361 for EVM, the same
+ * layout for Solana and TON) and accepts the signature either from the
+ * user's WalletConnect session or pasted back into the chat. A valid proof
+ * marks the wallet connection records as verified and is kept on the user
+ * so it outlives the WalletConnect session.
+ */
+export class WalletOwnershipService {
+  private static instance: WalletOwnershipService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
+
+  private constructor() {}
+
+  static getInstance(): WalletOwnershipService {
+    if (!WalletOwnershipService.instance) {
+      WalletOwnershipService.instance = new WalletOwnershipService();
+    }
+    return WalletOwnershipService.instance;
+  }
+
+  /** Whether the user's bound wallet is the one they last proved */
+  isVerified(user: { walletAddress?: string; walletVerification?: WalletVerification } | null | undefined): boolean {
+    const proof = user?.walletVerification;
+    if (!user?.walletAddress || !proof?.address) return false;
+    return this.sameAddress(proof.address, user.walletAddress);
+  }
+
+  /** Issue a fresh challenge for `address`, replacing any open one */
+  async createChallenge(userId: string, address: string): Promise<WalletProofResult> {
+    const chain = getProofChain(address);
+    if (!chain) return { success: false, error: 'unsupported_chain', message: 'Ownership proofs are not available for this wallet type' };
+
+    const settings = this.config.wallet.ownershipProof;
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + Math.max(1, settings.challengeTtlMinutes) * 60000);
+    const nonce = crypto.randomBytes(8).toString('hex');
+    const message = buildProofMessage(chain, {
+      domain: settings.domain,
+      address,
+      statement: `I confirm that I own this wallet and want to link it to Telegram account ${userId}.`,
+      uri: settings.uri,
+      chainId: this.config.wallet.chainId,
+      nonce,
+      issuedAt: now.toISOString(),
+      expirationTime: expiresAt.toISOString()
+    });
+    const challenge: WalletProofChallenge = {
+      id: userId,
+      userId,
+      address,
+      chain,
+      message,
+      nonce,
+      attempts: 0,
+      createdAt: now.toISOString(),
+      expiresAt
+    };
+    await this.getCollection().replaceOne({ id: userId }, challenge, { upsert: true });
+    return { success: true, challenge };
+  }
+
+  /** The user's open challenge; the TTL index removes expired ones lazily */
+  async getChallenge(userId: string): Promise<WalletProofChallenge | null> {
+    const challenge: WalletProofChallenge | null = await this.getCollection().findOne({ id: userId }, { projection: { _id: 0 } });
+    if (!challenge || new Date(challenge.expiresAt).getTime() <= Date.now()) return null;
+    return challenge;
+  }
+
+  async cancelChallenge(userId: string): Promise<void> {
+    await this.getCollection().deleteOne({ id: userId });
+  }
+
+  /** Check a signature the user pasted into the chat */
+  async submitSignature(userId: string, input: string): Promise<WalletProofResult> {
+    return this.verifyAgainstChallenge(userId, 'pasted', decodeSignatureCandidates(input));
+  }
+
+  /** Ask the wallet behind the user's active WalletConnect session to sign the challenge */
+  async requestWalletConnectSignature(userId: string): Promise<WalletProofResult> {
+    const challenge = await this.getChallenge(userId);
+    if (!challenge) return { success: false, error: 'no_challenge', message: 'Verification request expired, start again' };
+    if (challenge.chain !== 'evm') return { success: false, error: 'no_session', message: 'WalletConnect signing is only available for EVM wallets' };
+
+    const walletConnect = WalletConnectService.getInstance();
+    const connections = await this.storage.getWalletConnections(userId);
+    const connection = connections.find(c =>
+      c.isActive && c.walletConnectSession && this.sameAddress(c.walletAddress, challenge.address) &&
+      walletConnect.isSessionActive(c.walletConnectSession.topic)
+    );
+    if (!connection?.walletConnectSession) {
+      return { success: false, error: 'no_session', message: 'No active WalletConnect session for this wallet' };
+    }
+
+    let signature: string;
+    try {
+      signature = await walletConnect.sendSignatureRequest(
+        connection.walletConnectSession.topic,
+        // Any chain the session approved will do: personal_sign does not depend on it
+        walletConnectChain(sessionChainIds(connection.walletConnectSession.namespaces as any, challenge.address)[0] || this.config.wallet.chainId),
+        'personal_sign',
+        [ethers.utils.hexlify(ethers.utils.toUtf8Bytes(challenge.message)), ethers.utils.getAddress(challenge.address)]
+      );
+    } catch (err: any) {
+      this.logger.info('Wallet declined the ownership proof request', { userId, error: err?.message || String(err) });
+      return { success: false, error: 'signature_rejected', message: 'The wallet did not sign the message' };
+    }
+    return this.verifyAgainstChallenge(userId, 'walletconnect', decodeSignatureCandidates(signature));
+  }
+
+  private async verifyAgainstChallenge(
+    userId: string,
+    source: WalletVerification['source'],
+    signatures: Buffer[]
+  ): Promise<WalletProofResult> {
+    const challenge = await this.getChallenge(userId);
+    if (!challenge) return { success: false, error: 'no_challenge', message: 'Verification request expired, start again' };
+    const maxAttempts = Math.max(1, this.config.wallet.ownershipProof.maxAttempts);
+    if (challenge.attempts >= maxAttempts) {
+      return { success: false, error: 'too_many_attempts', message: 'Too many invalid signatures, start a new verification' };
+    }
+
+    const user = await this.storage.getUser(userId);
+    if (!user?.walletAddress || !this.sameAddress(user.walletAddress, challenge.address)) {
+      await this.cancelChallenge(userId);
+      return { success: false, error: 'wallet_changed', message: 'Your linked wallet changed since the request was issued' };
+    }
+
+    let method: WalletVerification['method'] | null;
+    try {
+      method = await this.verify(challenge, signatures);
+    } catch (err: any) {
+      this.logger.warn('Wallet ownership proof could not be checked', { userId, chain: challenge.chain, error: err?.message || String(err) });
+      return { success: false, error: 'key_unavailable', message: 'Could not check the signature right now, try again shortly' };
+    }
+    if (!method) {
+      await this.getCollection().updateOne({ id: userId }, { $inc: { attempts: 1 } });
+      this.logger.info('Rejected wallet ownership proof', { userId, address: challenge.address, chain: challenge.chain, source });
+      return { success: false, challenge, error: 'invalid_signature', message: 'The signature does not match the message and wallet' };
+    }
+
+    const verification: WalletVerification = { address: challenge.address, method, source, verifiedAt: new Date().toISOString() };
+    await this.markVerified(userId, verification, signatures[0]);
+    await this.cancelChallenge(userId);
+    this.logger.info('Wallet ownership proven', { userId, address: challenge.address, method, source });
+    return { success: true, verification };
+  }
+
+  /** Which scheme accepted one of the candidate signatures, or null */
+  private async verify(challenge: WalletProofChallenge, signatures: Buffer[]): Promise<WalletVerification['method'] | null> {
+    if (!signatures.length) return null;
+    if (challenge.chain === 'evm') {
+      if (signatures.some(sig => verifyEvmSignature(challenge.message, sig, challenge.address))) return 'siwe';
+      return (await this.verifyEip1271(challenge, signatures)) ? 'eip1271' : null;
+    }
+    const publicKey = challenge.chain === 'solana'
+      ? solanaPublicKey(challenge.address)
+      : await this.fetchTonPublicKey(challenge.address);
+    if (!publicKey) throw new Error('Wallet public key unavailable');
+    return signatures.some(sig => verifyEd25519(challenge.message, sig, publicKey)) ? 'ed25519' : null;
+  }
+
+  /** Smart-contract wallets sign through ERC-1271 instead of an ECDSA key */
+  private async verifyEip1271(challenge: WalletProofChallenge, signatures: Buffer[]): Promise<boolean> {
+    const provider = new ethers.providers.JsonRpcProvider(this.config.wallet.rpcUrl);
+    const code = await provider.getCode(challenge.address);
+    if (!code || code === '0x') return false;
+    const contract = new ethers.Contract(
+      challenge.address,
+      ['function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'],
+      provider
+    );
+    const hash = ethers.utils.hashMessage(challenge.message);
+    for (const signature of signatures) {
+      try {
+        if (String(await contract.isValidSignature(hash, signature)).toLowerCase() === EIP1271_MAGIC_VALUE) return true;
+      } catch {
+        // reverts mean "invalid" for most implementations
+      }
+    }
+    return false;
+  }
+
+  /** TON addresses hash the wallet contract, so the key has to be read from the chain */
+  private async fetchTonPublicKey(address: string): Promise<Buffer | null> {
+    const { tonApiUrl, tonApiKey } = this.config.wallet.ownershipProof;
+    const res = await fetch(`${tonApiUrl.replace(/\/$/, '')}/runGetMethod`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(tonApiKey ? { 'X-API-Key': tonApiKey } : {}) },
+      body: JSON.stringify({ address, method: 'get_public_key', stack: [] })
+    });
+    if (!res.ok) throw new Error(`TON API responded ${res.status}`);
+    const body: any = await res.json();
+    const value = body?.result?.exit_code === 0 ? body.result.stack?.[0]?.[1] : null;
+    if (typeof value !== 'string') return null;
+    const hex = BigInt(value).toString(16).padStart(64, '0');
+    return hex.length === 64 ? Buffer.from(hex, 'hex') : null;
+  }
+
+  private async markVerified(userId: string, verification: WalletVerification, signature?: Buffer): Promise<void> {
+    const address = verification.address;
+    const filter = ethers.utils.isAddress(address)
+      ? { userId, walletAddress: { $regex: `^${address}$`, $options: 'i' } }
+      : { userId, walletAddress: address };
+    await this.getRawCollection('wallet_connections').updateMany(filter, {
+      $set: {
+        verified: true,
+        verifiedAt: verification.verifiedAt,
+        'metadata.verificationStatus': 'verified',
+        'metadata.lastVerificationAt': verification.verifiedAt,
+        ...(signature ? { 'metadata.signature': `0x${signature.toString('hex')}` } : {})
+      }
+    });
+    await this.storage.updateUser(userId, { walletVerification: verification });
+  }
+
+  private sameAddress(a: string, b: string): boolean {
+    return ethers.utils.isAddress(a) ? a.toLowerCase() === b.toLowerCase() : a === b;
+  }
+
+  private getCollection(): any {
+    return this.getRawCollection('wallet_proof_challenges');
+  }
+
+  private getRawCollection(name: string): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
+
+export const walletOwnershipService = WalletOwnershipService.getInstance();
+export default walletOwnershipService;
@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { isEthereumAddress, isTonAddress } from '../../types/wallet.types';
+
+export type ProofChain = 'evm' | 'solana' | 'ton';
+
+export interface ProofMessageFields {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  /** EVM only */
+  chainId?: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string;
+}
+
+/** ERC-1271 `isValidSignature` magic value */
+export const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
+/** DER prefix that turns a raw 32-byte ed25519 key into an SPKI key Node can load */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+const CHAIN_NAMES: Record<ProofChain, string> = { evm: 'Ethereum', solana: 'Solana', ton: 'TON' };
+
+/**
+ * Which signing scheme proves control of an address, or null when we have
+ * none (Bitcoin). Base58 strings count as Solana only when they decode to a
+ * 32-byte key, which also keeps legacy Bitcoin addresses out.
+ */
+export function getProofChain(address: string): ProofChain | null {
+  if (isEthereumAddress(address)) return 'evm';
+  if (isTonAddress(address)) return 'ton';
+  return solanaPublicKey(address) ? 'solana' : null;
+}
+
+/**
+ * The message the user signs. EVM uses the EIP-4361 (Sign-In with Ethereum)
+ * layout with a checksummed address; Solana and TON reuse the same layout,
+ * as Sign-In with Solana does, minus the chain id.
+ */
+export function buildProofMessage(chain: ProofChain, fields: ProofMessageFields): string {
+  const address = chain === 'evm' ? ethers.utils.getAddress(fields.address) : fields.address;
+  const lines = [
+    `${fields.domain} wants you to sign in with your ${CHAIN_NAMES[chain]} account:`,
+    address,
+    '',
+    fields.statement,
+    '',
+    `URI: ${fields.uri}`,
+    'Version: 1'
+  ];
+  if (chain === 'evm') lines.push(`Chain ID: ${fields.chainId ?? 1}`);
+  lines.push(`Nonce: ${fields.nonce}`, `Issued At: ${fields.issuedAt}`, `Expiration Time: ${fields.expirationTime}`);
+  return lines.join('\n');
+}
+
+/**
+ * Every byte string a pasted signature could stand for. Wallets hand them
+ * out as hex, base64 or base58, and the alphabets overlap, so the caller
+ * tries each.
+ */
+export function decodeSignatureCandidates(input: string): Buffer[] {
+  const text = (input || '').replace(/\s+/g, '');
+  if (!text) return [];
+  const candidates: Buffer[] = [];
+  const hex = text.replace(/^0x/i, '');
+  if (/^[0-9a-fA-F]+$/.test(hex) && hex.length % 2 === 0) candidates.push(Buffer.from(hex, 'hex'));
+  if (/^[A-Za-z0-9+/_-]+={0,2}$/.test(text)) {
+    const bytes = Buffer.from(text.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+    if (bytes.length) candidates.push(bytes);
+  }
+  if (/^[1-9A-HJ-NP-Za-km-z]+$/.test(text)) {
+    try {
+      candidates.push(Buffer.from(ethers.utils.base58.decode(text)));
+    } catch {
+      // not base58 after all
+    }
+  }
+  return candidates.filter(c => c.length >= 64);
+}
+
+/** Whether a chat message could be a signature rather than ordinary text */
+export function looksLikeSignature(input: string): boolean {
+  const text = (input || '').trim();
+  return text.length >= 80 && !/\s/.test(text) && decodeSignatureCandidates(text).length > 0;
+}
+
+/** `personal_sign` (EIP-191) signature from an externally owned account */
+export function verifyEvmSignature(message: string, signature: Buffer, address: string): boolean {
+  if (signature.length !== 65) return false;
+  try {
+    return ethers.utils.verifyMessage(message, signature).toLowerCase() === address.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+export function verifyEd25519(message: string, signature: Buffer, publicKey: Buffer): boolean {
+  if (signature.length !== 64 || publicKey.length !== 32) return false;
+  try {
+    const key = crypto.createPublicKey({ key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey]), format: 'der', type: 'spki' });
+    return crypto.verify(null, Buffer.from(message, 'utf8'), key, signature);
+  } catch {
+    return false;
+  }
+}
+
+/** A Solana address is its base58-encoded ed25519 public key */
+export function solanaPublicKey(address: string): Buffer | null {
+  if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) return null;
+  try {
+    const bytes = Buffer.from(ethers.utils.base58.decode(address));
+    return bytes.length === 32 ? bytes : null;
+  } catch {
+    return null;
+  }
+}
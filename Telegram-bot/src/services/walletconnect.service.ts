@@ -6,6 +6,7 @@ import { WalletConnectSession, WalletConnectRequest, WalletAppId, WalletAppConfi
 import { PointsService, PointEarningCategory } from '../shared';
 import { StorageManager } from '../storage';
 import { nanoid } from './id';
+import { ChainRegistryService } from './chains/chain-registry.service';
 import { Telegraf } from 'telegraf';
 
 export class WalletConnectService {
@@ -80,6 +81,8 @@ export class WalletConnectService {
         await this.initialize();
       }
 
+      // Every enabled payout network is offered; the wallet approves the ones it supports
+      const chains = await ChainRegistryService.getInstance().getWalletConnectChains();
       const { uri, approval } = await this.signClient!.connect({
         optionalNamespaces: {
           eip155: {
@@ -90,7 +93,7 @@ export class WalletConnectService {
               'personal_sign',
               'eth_signTypedData',
             ],
-            chains: [`eip155:${this.config.wallet.chainId}`],
+            chains,
             events: ['chainChanged', 'accountsChanged'],
           },
         },
@@ -643,7 +646,7 @@ export class WalletConnectService {
         userId,
         walletAddress,
         walletType: 'walletconnect',
-        chainId: this.config.wallet.chainId,
+        chainId: Number(ethAccount.split(':')[1]) || this.config.wallet.chainId,
         connectedAt: new Date(),
         lastActiveAt: new Date().toISOString(),
         isActive: true,
@@ -652,7 +655,7 @@ export class WalletConnectService {
         walletConnectSession,
         metadata: {
           connectionMethod: 'walletconnect',
-          verificationStatus: 'verified',
+          verificationStatus: 'pending',
           walletConnectPeer: session.peer.metadata.name,
         },
       });
@@ -0,0 +1,62 @@
+export interface PayoutReviewPolicy {
+  enabled: boolean;
+  /** Token amount at or above which a withdrawal waits for an admin; 0 disables the check */
+  thresholdTokens: number;
+  /** Threat score (0..1) at or above which a withdrawal waits for an admin; 0 disables the check */
+  riskScore: number;
+}
+
+/** Fee fields of a signed transaction, as decimal wei strings */
+export interface GasFees {
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+/** Nodes reject a same-nonce replacement unless every fee rises by at least 10% */
+export const MIN_REPLACEMENT_BUMP_PERCENT = 10;
+
+/**
+ * Why a withdrawal must be reviewed before it is paid, or null to pay it
+ * straight away. A risk score of null means the analysis was unavailable,
+ * which holds the withdrawal when the risk check is on.
+ */
+export function getReviewReason(input: { tokenAmount: number; riskScore?: number | null }, policy: PayoutReviewPolicy): string | null {
+  if (!policy.enabled) return null;
+  if (policy.thresholdTokens > 0 && input.tokenAmount >= policy.thresholdTokens) {
+    return `Amount ${input.tokenAmount} is at or above the review threshold of ${policy.thresholdTokens}`;
+  }
+  if (policy.riskScore > 0) {
+    if (input.riskScore === null || input.riskScore === undefined) return 'Risk score unavailable';
+    if (input.riskScore >= policy.riskScore) {
+      return `Risk score ${input.riskScore.toFixed(2)} is at or above ${policy.riskScore}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Fees for replacing a stuck transaction: every present fee goes up by
+ * `percent` (at least the 10% nodes require), rounded up. With a cap the
+ * fee is clamped to it; null means the cap leaves no room for a valid bump.
+ */
+export function bumpGasFees(fees: GasFees, percent: number, capWei?: string | null): GasFees | null {
+  const pct = BigInt(Math.max(MIN_REPLACEMENT_BUMP_PERCENT, Math.ceil(percent)));
+  const minPct = BigInt(MIN_REPLACEMENT_BUMP_PERCENT);
+  const cap = capWei && BigInt(capWei) > 0n ? BigInt(capWei) : null;
+  const raise = (value: bigint, by: bigint) => (value * (100n + by) + 99n) / 100n;
+
+  const bumped: GasFees = {};
+  for (const key of ['gasPrice', 'maxFeePerGas', 'maxPriorityFeePerGas'] as const) {
+    if (fees[key] === undefined) continue;
+    const previous = BigInt(fees[key]!);
+    let next = raise(previous, pct);
+    if (cap !== null && next > cap) next = cap;
+    if (next < raise(previous, minPct)) return null;
+    bumped[key] = next.toString();
+  }
+  if (bumped.maxPriorityFeePerGas && bumped.maxFeePerGas && BigInt(bumped.maxPriorityFeePerGas) > BigInt(bumped.maxFeePerGas)) {
+    bumped.maxPriorityFeePerGas = bumped.maxFeePerGas;
+  }
+  return Object.keys(bumped).length ? bumped : null;
+}
@@ -0,0 +1,557 @@
+import { ethers } from 'ethers';
+import { Logger } from '../logger';
+import { nanoid } from '../id';
+import { StorageManager } from '../../storage';
+import { getConfig } from '../../config';
+import { ChainRegistryService } from '../chains/chain-registry.service';
+import { NetworkConfig } from '../../types/wallet.types';
+import { WithdrawalService, WithdrawalDocument } from './withdrawal.service';
+import { classifyWithdrawalError } from './withdrawal-state';
+import { GasFees, bumpGasFees } from './payout-rules';
+
+export type PayoutBatchStatus = 'signed' | 'submitted' | 'confirmed' | 'failed';
+
+export interface PayoutBatchDocument {
+  id: string;
+  kind: 'transfer' | 'disperse';
+  chainId: number;
+  /** Hot wallet address */
+  from: string;
+  tokenAddress: string;
+  /** Contract called: the token for a single transfer, the disperse contract otherwise */
+  to: string;
+  data: string;
+  withdrawalIds: string[];
+  recipients: string[];
+  amountsWei: string[];
+  totalWei: string;
+  status: PayoutBatchStatus;
+  txNonce: number;
+  gasLimit: string;
+  fees: GasFees;
+  bumps: number;
+  rawTransaction: string;
+  transactionHash: string;
+  /** Earlier transactions for this nonce, replaced with higher fees; any of them may be the one mined */
+  replacedHashes: string[];
+  minedHash?: string;
+  createdAt: string;
+  broadcastAt?: string;
+  settledAt?: string;
+  failureReason?: string;
+  /** First time the chain showed our nonce used by a transaction we did not send */
+  nonceTakenAt?: string;
+  leaseUntil?: string;
+}
+
+const ERC20_ABI = [
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+];
+const DISPERSE_ABI = ['function disperseToken(address token, address[] recipients, uint256[] values)'];
+const LEASE_MS = 5 * 60 * 1000;
+const MAX_BATCHES_PER_TICK = 10;
+/** How long the chain may show our nonce as used without a receipt for any of our hashes */
+const NONCE_TAKEN_GRACE_MS = 2 * 60 * 1000;
+
+/**
+ * Sends server-signed withdrawals from the hot wallet.
+ *
+ * Approved withdrawals are claimed into a batch: one ERC-20 transfer, or a
+ * single disperse call when the network has a disperse contract. A batch
+ * only carries payouts of one token on one chain; the hot wallet needs gas
+ * on every network it pays out on. Hot-wallet nonces are handed out per
+ * chain from `hot_wallet_nonces` so replicas never sign two transactions
+ * with the same nonce, and every nonce handed out either ends up
+ * in a stored batch or is given back. A batch pending longer than
+ * PAYOUT_STUCK_AFTER_SECONDS is re-signed with higher fees under the same
+ * nonce; every hash is kept because any of them may be the one that is mined.
+ * The outcome is passed back to WithdrawalService, which confirms or refunds.
+ */
+export class PayoutService {
+  private static instance: PayoutService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  private constructor() {}
+
+  static getInstance(): PayoutService {
+    if (!PayoutService.instance) {
+      PayoutService.instance = new PayoutService();
+    }
+    return PayoutService.instance;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    if (!this.config.wallet.privateKey) {
+      this.logger.warn('WALLET_PRIVATE_KEY not configured; server-signed payouts will wait until it is');
+    }
+    const intervalMs = Math.max(5, this.config.wallet.payouts.batchIntervalSeconds) * 1000;
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    this.timer.unref?.();
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Move open batches along, then batch up newly approved payouts. Open
+   * batches go first so lower nonces are on the wire before new ones.
+   */
+  async tick(): Promise<void> {
+    if (this.running || !this.config.wallet.privateKey) return;
+    this.running = true;
+    try {
+      await this.advanceBatches();
+      await this.buildBatches();
+    } catch (error: any) {
+      this.logger.error('Payout worker tick failed', { error: error?.message || String(error) });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async listBatches(options: { status?: string; limit?: number } = {}): Promise<PayoutBatchDocument[]> {
+    const query: any = options.status ? { status: options.status } : {};
+    return this.getBatchCollection()
+      .find(query, { projection: { _id: 0, rawTransaction: 0, data: 0 } })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(200, Math.max(1, options.limit || 50)))
+      .toArray();
+  }
+
+  private async advanceBatches(): Promise<void> {
+    const open: PayoutBatchDocument[] = await this.getBatchCollection()
+      .find({ status: { $in: ['signed', 'submitted'] } }, { projection: { _id: 0, id: 1 } })
+      .sort({ txNonce: 1 })
+      .limit(100)
+      .toArray();
+
+    for (const { id } of open) {
+      const batch = await this.acquireLease(id);
+      if (!batch) continue;
+      try {
+        if (batch.status === 'signed') {
+          await this.broadcast(batch);
+        } else if (batch.status === 'submitted') {
+          await this.checkSubmitted(batch);
+        }
+      } catch (error: any) {
+        this.logger.warn('Payout batch step failed, retrying next tick', { batchId: id, error: error?.message });
+      } finally {
+        await this.releaseLease(id);
+      }
+    }
+  }
+
+  /**
+   * Batch the oldest waiting payout with others of the same chain and token.
+   * A chain whose payouts have to pause (gas cap, RPC trouble, empty hot
+   * wallet) is skipped for the rest of the tick so other chains keep going.
+   */
+  private async buildBatches(): Promise<void> {
+    const registry = ChainRegistryService.getInstance();
+    const paused: number[] = [];
+
+    for (let i = 0; i < MAX_BATCHES_PER_TICK; i++) {
+      const waiting = { method: 'server_signed_transfer', status: 'requested', locked: true, batchId: { $exists: false }, chainId: { $nin: paused } };
+      const [head]: WithdrawalDocument[] = await this.getWithdrawalCollection()
+        .find(waiting, { projection: { _id: 0 } })
+        .sort({ requestedAt: 1 })
+        .limit(1)
+        .toArray();
+      if (!head) return;
+
+      const network = await registry.getNetwork(head.chainId);
+      if (!network) {
+        this.logger.error('Payout waits on a network that is not configured', { withdrawalId: head.id, chainId: head.chainId });
+        paused.push(head.chainId);
+        continue;
+      }
+      const batchSize = network.disperseContractAddress ? Math.max(1, this.config.wallet.payouts.batchSize) : 1;
+      // Records from before the registry carry no token address and pay the primary token
+      const candidates: WithdrawalDocument[] = await this.getWithdrawalCollection()
+        .find({ ...waiting, chainId: head.chainId, tokenAddress: head.tokenAddress || { $exists: false } }, { projection: { _id: 0 } })
+        .sort({ requestedAt: 1 })
+        .limit(batchSize)
+        .toArray();
+      if (!candidates.length) continue;
+
+      // Payouts that broke a batch earlier are sent on their own
+      const group = candidates[0].payoutSolo ? [candidates[0]] : candidates.filter(c => !c.payoutSolo);
+      const batchId = `pb_${nanoid(16)}`;
+      const claimed: WithdrawalDocument[] = [];
+      for (const candidate of group) {
+        const res = await this.getWithdrawalCollection().updateOne(
+          { id: candidate.id, status: 'requested', batchId: { $exists: false } },
+          { $set: { batchId } }
+        );
+        if (res.modifiedCount > 0) claimed.push(candidate);
+      }
+      if (!claimed.length) continue;
+      const tokenAddress = head.tokenAddress || this.config.wallet.tokenContractAddress;
+      if (!(await this.createBatch(batchId, claimed, network, tokenAddress))) paused.push(network.chainId);
+    }
+  }
+
+  /**
+   * Sign and store one batch, then broadcast it. Returns false when payouts
+   * should pause until the next tick (gas above the cap, RPC trouble, empty
+   * hot wallet).
+   */
+  private async createBatch(batchId: string, claimed: WithdrawalDocument[], network: NetworkConfig, tokenAddress: string): Promise<boolean> {
+    const provider = await this.getProvider(network.chainId);
+    const wallet = new ethers.Wallet(this.config.wallet.privateKey, provider);
+    const disperseAddress = network.disperseContractAddress || '';
+    const kind: PayoutBatchDocument['kind'] = claimed.length > 1 ? 'disperse' : 'transfer';
+    const recipients = claimed.map(w => w.walletAddress);
+    const amountsWei = claimed.map(w => w.tokenAmountWei);
+    const total = amountsWei.reduce((sum, amount) => sum.add(amount), ethers.BigNumber.from(0));
+    const to = kind === 'disperse' ? disperseAddress : tokenAddress;
+    const data = kind === 'disperse'
+      ? new ethers.utils.Interface(DISPERSE_ABI).encodeFunctionData('disperseToken', [tokenAddress, recipients, amountsWei])
+      : new ethers.utils.Interface(ERC20_ABI).encodeFunctionData('transfer', [recipients[0], amountsWei[0]]);
+
+    let nonce: number | null = null;
+    try {
+      const fees = await this.currentFees(provider, network);
+      if (!fees) {
+        this.logger.warn('Gas price above the payout gas cap, payouts paused', { batchId, chainId: network.chainId });
+        await this.unclaim(batchId);
+        return false;
+      }
+      if (kind === 'disperse') await this.ensureAllowance(wallet, tokenAddress, disperseAddress, total, network.chainId);
+
+      const gasLimit = (await provider.estimateGas({ from: wallet.address, to, data })).mul(120).div(100);
+      nonce = await this.allocateNonce(wallet.address, provider, network.chainId);
+      const rawTransaction = await wallet.signTransaction({ to, data, nonce, gasLimit, chainId: network.chainId, ...this.toTxFees(fees) });
+
+      const now = new Date();
+      const batch: PayoutBatchDocument = {
+        id: batchId,
+        kind,
+        chainId: network.chainId,
+        from: wallet.address,
+        tokenAddress,
+        to,
+        data,
+        withdrawalIds: claimed.map(w => w.id),
+        recipients,
+        amountsWei,
+        totalWei: total.toString(),
+        status: 'signed',
+        txNonce: nonce,
+        gasLimit: gasLimit.toString(),
+        fees,
+        bumps: 0,
+        rawTransaction,
+        transactionHash: ethers.utils.keccak256(rawTransaction),
+        replacedHashes: [],
+        createdAt: now.toISOString(),
+        leaseUntil: new Date(now.getTime() + LEASE_MS).toISOString()
+      };
+      await this.getBatchCollection().insertOne({ ...batch });
+      // The stored batch owns the nonce from here on
+      nonce = null;
+      this.logger.info('Payout batch signed', { batchId, kind, chainId: batch.chainId, payouts: claimed.length, txNonce: batch.txNonce, hash: batch.transactionHash });
+
+      try {
+        await this.broadcast(batch);
+      } finally {
+        await this.releaseLease(batchId);
+      }
+      return true;
+    } catch (error: any) {
+      if (nonce !== null) await this.releaseNonce(wallet.address, nonce, network.chainId);
+      return await this.handleBatchError(batchId, claimed, wallet, tokenAddress, total, error);
+    }
+  }
+
+  /**
+   * Nothing was sent when building a batch failed. A revert during gas
+   * estimation is either an empty hot wallet (wait for a top-up) or a payout
+   * the token refuses: alone it is failed and refunded, in a group every
+   * member is retried on its own.
+   */
+  private async handleBatchError(batchId: string, claimed: WithdrawalDocument[], wallet: ethers.Wallet, tokenAddress: string, total: ethers.BigNumber, error: any): Promise<boolean> {
+    const msg = String(error?.message || error);
+    if (classifyWithdrawalError(msg, error?.code) !== 'reverted') {
+      await this.unclaim(batchId);
+      this.logger.error('Could not build payout batch, retrying next tick', { batchId, error: msg });
+      return false;
+    }
+
+    const token = new ethers.Contract(tokenAddress, ERC20_ABI, wallet);
+    const balance: ethers.BigNumber | null = await token.balanceOf(wallet.address).catch(() => null);
+    if (balance && balance.lt(total)) {
+      await this.unclaim(batchId);
+      this.logger.error('Hot wallet token balance too low for payouts', { batchId, tokenAddress, balance: balance.toString(), needed: total.toString() });
+      return false;
+    }
+    if (claimed.length > 1) {
+      await this.unclaim(batchId, { payoutSolo: true });
+      this.logger.warn('Payout batch reverts in simulation, sending its payouts one by one', { batchId, error: msg });
+      return true;
+    }
+
+    await this.unclaim(batchId);
+    this.logger.warn('Payout reverts in simulation, failing it', { withdrawalId: claimed[0].id, error: msg });
+    await WithdrawalService.getInstance().settlePayout(claimed[0].id, { confirmed: false, reason: 'Token transfer rejected by the contract', kind: 'reverted' });
+    return true;
+  }
+
+  private async broadcast(batch: PayoutBatchDocument): Promise<void> {
+    try {
+      await (await this.getProvider(batch.chainId)).sendTransaction(batch.rawTransaction);
+    } catch (error: any) {
+      const msg = String(error?.message || '');
+      // Already in the pool or mined; "nonce too low" is sorted out by the receipt check
+      if (!/already known|known transaction|nonce too low|nonce has already been used/i.test(msg)) {
+        this.logger.error('Payout broadcast failed, retrying next tick', { batchId: batch.id, kind: classifyWithdrawalError(msg, error?.code), error: msg });
+        return;
+      }
+    }
+
+    const now = new Date().toISOString();
+    const withdrawals = WithdrawalService.getInstance();
+    for (const id of batch.withdrawalIds) {
+      await withdrawals.markPayoutProgress(id, 'signed', { batchId: batch.id, txNonce: batch.txNonce, transactionHash: batch.transactionHash, signedAt: batch.createdAt });
+      await withdrawals.markPayoutProgress(id, 'submitted', { transactionHash: batch.transactionHash, submittedAt: now });
+    }
+    if (batch.status === 'signed') {
+      await this.getBatchCollection().updateOne({ id: batch.id, status: 'signed' }, { $set: { status: 'submitted', broadcastAt: now } });
+      batch.status = 'submitted';
+      batch.broadcastAt = now;
+    }
+  }
+
+  private async checkSubmitted(batch: PayoutBatchDocument): Promise<void> {
+    const provider = await this.getProvider(batch.chainId);
+    const network = await ChainRegistryService.getInstance().getNetwork(batch.chainId);
+    const confirmations = network?.confirmations || this.config.wallet.confirmationsToWait || 1;
+
+    for (const hash of [batch.transactionHash, ...batch.replacedHashes]) {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (!receipt) continue;
+      if (receipt.confirmations >= confirmations) await this.settle(batch, receipt);
+      return;
+    }
+
+    const latestNonce = await provider.getTransactionCount(batch.from, 'latest');
+    if (latestNonce > batch.txNonce) {
+      // Our nonce is used but none of our transactions are mined; give the RPC a moment to catch up first
+      if (!batch.nonceTakenAt) {
+        await this.getBatchCollection().updateOne({ id: batch.id }, { $set: { nonceTakenAt: new Date().toISOString() } });
+      } else if (Date.now() - new Date(batch.nonceTakenAt).getTime() > NONCE_TAKEN_GRACE_MS) {
+        await this.fail(batch, 'Hot wallet nonce was used by another transaction', 'nonce');
+      }
+      return;
+    }
+
+    const pendingMs = Date.now() - new Date(batch.broadcastAt || batch.createdAt).getTime();
+    if (pendingMs >= this.config.wallet.payouts.stuckAfterSeconds * 1000) {
+      await this.replaceStuck(batch, provider, network);
+    }
+  }
+
+  /**
+   * Re-sign a stuck transaction under the same nonce with higher fees. Once
+   * the bump limit or the gas cap is reached the current transaction is just
+   * re-sent in case nodes dropped it.
+   */
+  private async replaceStuck(batch: PayoutBatchDocument, provider: ethers.providers.JsonRpcProvider, network: NetworkConfig | null): Promise<void> {
+    const payouts = this.config.wallet.payouts;
+    const fees = batch.bumps < payouts.maxGasBumps ? bumpGasFees(batch.fees, payouts.gasBumpPercent, this.gasCapWei(network)) : null;
+    const now = new Date().toISOString();
+
+    if (!fees) {
+      this.logger.warn('Payout transaction still pending and cannot be bumped further, re-sending', { batchId: batch.id, bumps: batch.bumps });
+      await this.getBatchCollection().updateOne({ id: batch.id }, { $set: { broadcastAt: now } });
+      await provider.sendTransaction(batch.rawTransaction).catch(() => undefined);
+      return;
+    }
+
+    const wallet = new ethers.Wallet(this.config.wallet.privateKey, provider);
+    const rawTransaction = await wallet.signTransaction({
+      to: batch.to,
+      data: batch.data,
+      nonce: batch.txNonce,
+      gasLimit: batch.gasLimit,
+      chainId: batch.chainId,
+      ...this.toTxFees(fees)
+    });
+    const transactionHash = ethers.utils.keccak256(rawTransaction);
+
+    // Store the replacement before sending it so no hash of this nonce is ever unknown
+    await this.getBatchCollection().updateOne(
+      { id: batch.id },
+      { $set: { rawTransaction, transactionHash, fees, broadcastAt: now }, $inc: { bumps: 1 }, $push: { replacedHashes: batch.transactionHash } }
+    );
+    await this.getWithdrawalCollection().updateMany({ batchId: batch.id, active: true }, { $set: { transactionHash } });
+    this.logger.info('Payout transaction replaced with higher gas', { batchId: batch.id, bump: batch.bumps + 1, previous: batch.transactionHash, hash: transactionHash, fees });
+
+    try {
+      await provider.sendTransaction(rawTransaction);
+    } catch (error: any) {
+      this.logger.warn('Replacement payout transaction not accepted yet', { batchId: batch.id, error: error?.message });
+    }
+  }
+
+  private async settle(batch: PayoutBatchDocument, receipt: ethers.providers.TransactionReceipt): Promise<void> {
+    if (receipt.status !== 1) {
+      await this.fail(batch, 'Payout transaction reverted', 'reverted', receipt.transactionHash);
+      return;
+    }
+    const withdrawals = WithdrawalService.getInstance();
+    for (const id of batch.withdrawalIds) {
+      await withdrawals.settlePayout(id, { confirmed: true, transactionHash: receipt.transactionHash });
+    }
+    await this.getBatchCollection().updateOne(
+      { id: batch.id },
+      { $set: { status: 'confirmed', minedHash: receipt.transactionHash, settledAt: new Date().toISOString() } }
+    );
+    this.logger.info('Payout batch confirmed', { batchId: batch.id, payouts: batch.withdrawalIds.length, hash: receipt.transactionHash });
+  }
+
+  private async fail(batch: PayoutBatchDocument, reason: string, kind: 'reverted' | 'nonce', minedHash?: string): Promise<void> {
+    const withdrawals = WithdrawalService.getInstance();
+    for (const id of batch.withdrawalIds) {
+      await withdrawals.settlePayout(id, { confirmed: false, reason, kind });
+    }
+    await this.getBatchCollection().updateOne(
+      { id: batch.id },
+      { $set: { status: 'failed', failureReason: reason, settledAt: new Date().toISOString(), ...(minedHash ? { minedHash } : {}) } }
+    );
+    this.logger.warn('Payout batch failed', { batchId: batch.id, payouts: batch.withdrawalIds.length, reason });
+  }
+
+  /** Let the disperse contract pull tokens from the hot wallet */
+  private async ensureAllowance(wallet: ethers.Wallet, tokenAddress: string, spender: string, total: ethers.BigNumber, chainId: number): Promise<void> {
+    const token = new ethers.Contract(tokenAddress, ERC20_ABI, wallet);
+    const allowance: ethers.BigNumber = await token.allowance(wallet.address, spender);
+    if (allowance.gte(total)) return;
+
+    const nonce = await this.allocateNonce(wallet.address, wallet.provider as ethers.providers.JsonRpcProvider, chainId);
+    let tx: ethers.ContractTransaction;
+    try {
+      tx = await token.approve(spender, ethers.constants.MaxUint256, { nonce });
+    } catch (error) {
+      await this.releaseNonce(wallet.address, nonce, chainId);
+      throw error;
+    }
+    this.logger.info('Approving disperse contract to spend hot wallet tokens', { chainId, tokenAddress, spender, hash: tx.hash });
+    await tx.wait(1);
+  }
+
+  /**
+   * Hand out the next hot-wallet nonce. The counter never falls behind the
+   * chain's pending count, so transactions sent outside the bot are skipped.
+   */
+  private async allocateNonce(address: string, provider: ethers.providers.JsonRpcProvider, chainId: number): Promise<number> {
+    const key = { address: address.toLowerCase(), chainId };
+    const pending = await provider.getTransactionCount(address, 'pending');
+    const sync = () => this.getNonceCollection().updateOne(key, { $max: { next: pending }, $set: { updatedAt: new Date().toISOString() } }, { upsert: true });
+    try {
+      await sync();
+    } catch (error: any) {
+      // Two replicas created the counter at once; the second update applies cleanly
+      if (error?.code !== 11000) throw error;
+      await sync();
+    }
+    const res = await this.getNonceCollection().findOneAndUpdate(key, { $inc: { next: 1 } }, { returnDocument: 'before' });
+    const doc = (res as any)?.value !== undefined ? (res as any).value : res;
+    return Number(doc.next);
+  }
+
+  /** Give back a nonce that was never sent, if nothing was handed out after it */
+  private async releaseNonce(address: string, nonce: number, chainId: number): Promise<void> {
+    await this.getNonceCollection().updateOne(
+      { address: address.toLowerCase(), chainId, next: nonce + 1 },
+      { $set: { next: nonce, updatedAt: new Date().toISOString() } }
+    );
+  }
+
+  /** Current network fees, clamped to the cap; null when even the legacy gas price is above it */
+  private async currentFees(provider: ethers.providers.JsonRpcProvider, network: NetworkConfig): Promise<GasFees | null> {
+    const feeData = await provider.getFeeData();
+    const cap = this.gasCapWei(network);
+    if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+      const maxFee = cap && feeData.maxFeePerGas.gt(cap) ? ethers.BigNumber.from(cap) : feeData.maxFeePerGas;
+      const priority = feeData.maxPriorityFeePerGas.gt(maxFee) ? maxFee : feeData.maxPriorityFeePerGas;
+      return { maxFeePerGas: maxFee.toString(), maxPriorityFeePerGas: priority.toString() };
+    }
+    const gasPrice = feeData.gasPrice || (await provider.getGasPrice());
+    if (cap && gasPrice.gt(cap)) return null;
+    return { gasPrice: gasPrice.toString() };
+  }
+
+  private toTxFees(fees: GasFees): ethers.providers.TransactionRequest {
+    return fees.maxFeePerGas
+      ? { type: 2, maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }
+      : { gasPrice: fees.gasPrice };
+  }
+
+  /** The network's own gas cap, else PAYOUT_MAX_GAS_PRICE_GWEI */
+  private gasCapWei(network: NetworkConfig | null): string | null {
+    const gwei = network?.maxGasPriceGwei || this.config.wallet.payouts.maxGasPriceGwei;
+    return gwei > 0 ? ethers.utils.parseUnits(String(gwei), 'gwei').toString() : null;
+  }
+
+  /** Release claimed withdrawals so a later tick batches them again */
+  private async unclaim(batchId: string, set: Record<string, any> = {}): Promise<void> {
+    const update: any = { $unset: { batchId: '' } };
+    if (Object.keys(set).length) update.$set = set;
+    await this.getWithdrawalCollection().updateMany({ batchId, status: 'requested' }, update);
+  }
+
+  private async acquireLease(batchId: string): Promise<PayoutBatchDocument | null> {
+    const now = new Date();
+    const res = await this.getBatchCollection().findOneAndUpdate(
+      { id: batchId, $or: [{ leaseUntil: { $exists: false } }, { leaseUntil: { $lte: now.toISOString() } }] },
+      { $set: { leaseUntil: new Date(now.getTime() + LEASE_MS).toISOString() } },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    const doc = (res as any)?.value !== undefined ? (res as any).value : res;
+    return (doc as PayoutBatchDocument) || null;
+  }
+
+  private async releaseLease(batchId: string): Promise<void> {
+    await this.getBatchCollection().updateOne({ id: batchId }, { $unset: { leaseUntil: '' } });
+  }
+
+  private getProvider(chainId: number): Promise<ethers.providers.JsonRpcProvider> {
+    return ChainRegistryService.getInstance().getProvider(chainId);
+  }
+
+  private getBatchCollection(): any {
+    return this.getRawCollection('payout_batches');
+  }
+
+  private getNonceCollection(): any {
+    return this.getRawCollection('hot_wallet_nonces');
+  }
+
+  private getWithdrawalCollection(): any {
+    return this.getRawCollection('withdrawals');
+  }
+
+  private getRawCollection(name: string): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection(name);
+  }
+}
+
+export const payoutService = PayoutService.getInstance();
+export default payoutService;
@@ -0,0 +1,42 @@
+export type WithdrawalState = 'pending_review' | 'requested' | 'signed' | 'submitted' | 'confirmed' | 'failed' | 'expired' | 'denied';
+
+export type WithdrawalErrorKind = 'rejected' | 'insufficient_gas' | 'reverted' | 'nonce' | 'session_expired' | 'unknown';
+
+/** States that still hold the user's locked points and block a new request */
+export const ACTIVE_WITHDRAWAL_STATES: WithdrawalState[] = ['pending_review', 'requested', 'signed', 'submitted'];
+
+const TRANSITIONS: Record<WithdrawalState, WithdrawalState[]> = {
+  // Held for an admin: approval releases it to the payout worker
+  pending_review: ['requested', 'denied'],
+  requested: ['signed', 'failed', 'expired'],
+  signed: ['submitted', 'confirmed', 'failed', 'expired'],
+  submitted: ['confirmed', 'failed', 'expired'],
+  confirmed: [],
+  // A claim can still land on-chain after we gave up on it; recovery moves it to confirmed
+  failed: ['confirmed'],
+  expired: ['confirmed'],
+  denied: []
+};
+
+export function canTransition(from: WithdrawalState, to: WithdrawalState): boolean {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function isActiveState(state: WithdrawalState): boolean {
+  return ACTIVE_WITHDRAWAL_STATES.includes(state);
+}
+
+/**
+ * Map wallet/RPC errors to the categories shown to the user
+ */
+export function classifyWithdrawalError(message: string, code?: any): WithdrawalErrorKind {
+  const msg = String(message || '');
+  if (code === 4001 || code === 5001 || code === 'ACTION_REJECTED' || /user rejected|rejected|denied|ACTION_REJECTED/i.test(msg)) {
+    return 'rejected';
+  }
+  if (/session not found|session.*expired/i.test(msg)) return 'session_expired';
+  if (/insufficient funds/i.test(msg)) return 'insufficient_gas';
+  if (/execution reverted|ERC20|revert/i.test(msg)) return 'reverted';
+  if (/nonce|already used/i.test(msg)) return 'nonce';
+  return 'unknown';
+}
@@ -0,0 +1,1074 @@
+import { ethers } from 'ethers';
+import { Logger } from '../logger';
+import { nanoid } from '../id';
+import { StorageManager } from '../../storage';
+import { getConfig } from '../../config';
+import { AsyncJobQueueService, JobResult } from '../async-job-queue.service';
+import { WalletConnectService } from '../walletconnect.service';
+import { TelegramNotifyService } from '../telegram-notify.service';
+import { ClaimService } from '../claim.service';
+import { PointsLedgerService } from '../ledger/points-ledger.service';
+import { AirdropSnapshotService } from '../airdrop/airdrop-snapshot.service';
+import { ThreatAnalyzer } from '../../security/threat-analyzer.service';
+import { WalletOwnershipService } from '../wallet-ownership/wallet-ownership.service';
+import { ChainRegistryService } from '../chains/chain-registry.service';
+import { LocalizationService, Translator } from '../i18n/localization.service';
+import { getReviewReason } from './payout-rules';
+import {
+  WithdrawalState,
+  WithdrawalErrorKind,
+  ACTIVE_WITHDRAWAL_STATES,
+  canTransition,
+  classifyWithdrawalError
+} from './withdrawal-state';
+
+export interface WithdrawalDocument {
+  id: string;
+  userId: string;
+  username?: string;
+  chatId?: number;
+  walletAddress: string;
+  method: 'walletconnect_claim' | 'server_signed_transfer' | 'merkle_claim';
+  status: WithdrawalState;
+  /** Present (true) only while the withdrawal is in flight; backs the one-active-per-user index */
+  active?: true;
+  pointsWithdrawn: number;
+  tokenAmount: number;
+  tokenAmountWei: string;
+  tokenSymbol: string;
+  chainId: number;
+  /** Registry token paid out (ChainRegistryService); absent on Merkle claims and older records */
+  tokenId?: string;
+  tokenAddress?: string;
+  tokenDecimals?: number;
+  /** UTC day the amount was counted against the chain's daily cap; cleared when given back */
+  capDay?: string;
+  locked: boolean;
+  refunded?: boolean;
+  /** Contract the claim is sent to: the token's claim contract or the Merkle distributor. Older records use CLAIM_CONTRACT_ADDRESS */
+  contractAddress?: string;
+  snapshotId?: string;
+  merkleIndex?: number;
+  /** Payout batch (PayoutService) carrying this server-signed transfer */
+  batchId?: string;
+  /** Broke a payout batch in simulation; PayoutService sends it on its own */
+  payoutSolo?: boolean;
+  review?: {
+    reason: string;
+    riskScore?: number | null;
+    decidedBy?: string;
+    decidedAt?: string;
+  };
+  nonce?: string;
+  signature?: string;
+  calldata?: string;
+  rawTransaction?: string;
+  txNonce?: number;
+  transactionHash?: string;
+  submitAttemptedAt?: string;
+  requestedAt: string;
+  signedAt?: string;
+  submittedAt?: string;
+  processedAt?: string;
+  expiresAt: string;
+  nextCheckAt: string;
+  leaseUntil?: string;
+  attempts: number;
+  failureReason?: string;
+  errorKind?: WithdrawalErrorKind;
+  history: Array<{ from: WithdrawalState | null; to: WithdrawalState; at: string; reason?: string }>;
+}
+
+export interface WithdrawalRequestResult {
+  success: boolean;
+  withdrawal?: WithdrawalDocument;
+  error?: 'user_not_found' | 'no_wallet' | 'wallet_unverified' | 'below_minimum' | 'active_withdrawal' | 'insufficient_balance' | 'no_allocation' | 'already_claimed' | 'unsupported_token' | 'daily_cap_reached' | 'storage_error';
+}
+
+export interface WithdrawalReviewResult {
+  success: boolean;
+  withdrawal?: WithdrawalDocument;
+  error?: 'not_found' | 'invalid_state';
+}
+
+const QUEUE_NAME = 'withdrawals';
+const JOB_TYPE = 'withdrawal_process';
+const LEASE_MS = 10 * 60 * 1000;
+const LATE_CONFIRMATION_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Persistent withdrawal pipeline.
+ *
+ * A withdrawal is a document in `withdrawals` that moves through
+ * requested → signed → submitted → confirmed | failed | expired. Points are
+ * debited through the ledger when the request is created and refunded if it
+ * fails or expires. Each step is driven by a job on the `withdrawals` queue
+ * and guarded by a lease, so a restart simply picks the record up again;
+ * claims whose outcome was lost are reconciled against the claim contract's
+ * `lastNonceUsed`.
+ *
+ * Server-signed transfers are paid by PayoutService in batches. With payout
+ * review on, large or risky withdrawals wait in `pending_review` (points
+ * already locked) until an admin approves them, which hands them to the
+ * payout worker, or denies them, which refunds the points.
+ */
+export class WithdrawalService {
+  private static instance: WithdrawalService;
+  private readonly logger = Logger.getInstance();
+  private readonly storage = StorageManager.getInstance();
+  private readonly config = getConfig();
+  private readonly jobQueue = AsyncJobQueueService.getInstance();
+  private botInstance: any = null;
+  private threatAnalyzer: ThreatAnalyzer | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private started = false;
+
+  private constructor() {}
+
+  static getInstance(): WithdrawalService {
+    if (!WithdrawalService.instance) {
+      WithdrawalService.instance = new WithdrawalService();
+    }
+    return WithdrawalService.instance;
+  }
+
+  setBotInstance(bot: any): void {
+    this.botInstance = bot;
+  }
+
+  /**
+   * Register the queue worker and resume anything left in flight by a previous process
+   */
+  async start(bot?: any): Promise<void> {
+    if (bot) this.setBotInstance(bot);
+    if (this.started) return;
+    this.started = true;
+
+    // Failed steps are rescheduled by scheduleRecheck and the sweep, not by queue retries
+    await this.jobQueue.createWorker(QUEUE_NAME, async (job) => this.handleJob(job), { concurrency: 2, policy: { maxAttempts: 1 } });
+
+    const recovered = await this.recoverInFlight();
+    if (recovered > 0) {
+      this.logger.info(`Resuming ${recovered} in-flight withdrawal(s)`);
+    }
+
+    const intervalMs = Math.max(15, this.getRecheckSeconds()) * 1000;
+    this.sweepTimer = setInterval(() => {
+      this.recoverInFlight().catch((e) => this.logger.error('Withdrawal sweep failed:', e));
+    }, intervalMs);
+    this.sweepTimer.unref?.();
+  }
+
+  stop(): void {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+
+  /**
+   * Create a withdrawal for the user's full balance and lock the points.
+   * `tokenId` picks the registry token to pay in; without it the first one
+   * available for the withdraw mode is used.
+   */
+  async requestWithdrawal(userId: string, options: { chatId?: number; username?: string; tokenId?: string } = {}): Promise<WithdrawalRequestResult> {
+    try {
+      const user = await this.storage.getUser(userId);
+      if (!user) return { success: false, error: 'user_not_found' };
+      if (!user.walletAddress) return { success: false, error: 'no_wallet' };
+      if (this.config.wallet.ownershipProof.requireForWithdrawal && !WalletOwnershipService.getInstance().isVerified(user)) {
+        return { success: false, error: 'wallet_unverified' };
+      }
+
+      const active = await this.getActiveWithdrawal(userId);
+      if (active) return { success: false, withdrawal: active, error: 'active_withdrawal' };
+
+      if (this.config.wallet.withdrawMode === 'merkle') {
+        return await this.requestMerkleClaim(userId, options);
+      }
+
+      const points = Number(user.points || 0);
+      if (points < this.config.points.minWithdraw) return { success: false, error: 'below_minimum' };
+
+      const tokenAmount = points * this.config.points.conversionRate;
+      const now = new Date();
+      const mode = this.config.wallet.withdrawMode || 'claim';
+      // Reviewed payouts are always sent by the server: the user is not around to sign when an admin approves
+      const review = await this.assessReview(user, tokenAmount);
+      const status: WithdrawalState = review ? 'pending_review' : 'requested';
+      const method: WithdrawalDocument['method'] = mode === 'claim' && !review ? 'walletconnect_claim' : 'server_signed_transfer';
+
+      const registry = ChainRegistryService.getInstance();
+      const target = await registry.resolvePayoutTarget(options.tokenId, { mode: method === 'walletconnect_claim' ? 'claim' : 'server' });
+      if (!target) return { success: false, error: 'unsupported_token' };
+      const { token } = target;
+      const tokenAmountWei = ethers.utils.parseUnits(tokenAmount.toString(), token.decimals).toString();
+      const reservedDay = await registry.reserveDailyPayout(token.chainId, tokenAmount);
+      if (!reservedDay) return { success: false, error: 'daily_cap_reached' };
+
+      const doc: WithdrawalDocument = {
+        id: `wd_${nanoid(16)}`,
+        userId,
+        username: options.username,
+        chatId: options.chatId,
+        walletAddress: user.walletAddress,
+        method,
+        status,
+        active: true,
+        pointsWithdrawn: points,
+        tokenAmount,
+        tokenAmountWei,
+        tokenSymbol: token.symbol,
+        chainId: token.chainId,
+        tokenId: token.id,
+        tokenAddress: token.address || undefined,
+        tokenDecimals: token.decimals,
+        capDay: reservedDay,
+        locked: false,
+        ...(method === 'walletconnect_claim' ? { contractAddress: token.claimContractAddress } : {}),
+        requestedAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + this.getExpiryMinutes() * 60_000).toISOString(),
+        nextCheckAt: now.toISOString(),
+        attempts: 0,
+        ...(review ? { review } : {}),
+        history: [{ from: null, to: status, at: now.toISOString(), ...(review ? { reason: review.reason } : {}) }]
+      };
+
+      try {
+        await this.getCollection().insertOne({ ...doc } as any);
+      } catch (error: any) {
+        await registry.adjustDailyPayout(token.chainId, reservedDay, -tokenAmount);
+        if (error?.code === 11000) {
+          return { success: false, withdrawal: (await this.getActiveWithdrawal(userId)) || undefined, error: 'active_withdrawal' };
+        }
+        throw error;
+      }
+
+      if (!(await this.lockPoints(doc))) {
+        await this.transition(doc, 'failed', { failureReason: 'Insufficient balance to lock' }, 'lock_failed');
+        await this.releaseDailyPayout(doc);
+        return { success: false, error: 'insufficient_balance' };
+      }
+      doc.locked = true;
+
+      // Server-signed transfers are picked up by the payout worker; held ones wait for an admin
+      if (doc.method !== 'server_signed_transfer') await this.enqueue(doc.id);
+      this.logger.info('Withdrawal requested', { withdrawalId: doc.id, userId, points, method: doc.method, status: doc.status, review: review?.reason });
+      return { success: true, withdrawal: doc };
+    } catch (error) {
+      this.logger.error('Error creating withdrawal request:', error);
+      return { success: false, error: 'storage_error' };
+    }
+  }
+
+  /**
+   * Claim the user's snapshot allocation. The points were already debited
+   * when the snapshot froze them, so nothing is locked here and nothing is
+   * refunded on failure: the leaf simply stays claimable.
+   */
+  private async requestMerkleClaim(userId: string, options: { chatId?: number; username?: string }): Promise<WithdrawalRequestResult> {
+    const airdrop = AirdropSnapshotService.getInstance();
+    const allocation = await airdrop.getClaimableAllocation(userId);
+    if (!allocation) return { success: false, error: 'no_allocation' };
+
+    const { snapshot, claim } = allocation;
+    if (await airdrop.isClaimedOnChain(snapshot.distributorAddress!, claim.index!, snapshot.chainId)) {
+      await airdrop.markClaimed(snapshot.id, claim.index!);
+      return { success: false, error: 'already_claimed' };
+    }
+
+    const now = new Date();
+    const doc: WithdrawalDocument = {
+      id: `wd_${nanoid(16)}`,
+      userId,
+      username: options.username,
+      chatId: options.chatId,
+      walletAddress: claim.address,
+      method: 'merkle_claim',
+      status: 'requested',
+      active: true,
+      pointsWithdrawn: claim.points,
+      tokenAmount: Number(ethers.utils.formatUnits(claim.amountWei, snapshot.tokenDecimals)),
+      tokenAmountWei: claim.amountWei,
+      tokenSymbol: snapshot.tokenSymbol,
+      chainId: snapshot.chainId,
+      tokenAddress: snapshot.tokenAddress,
+      tokenDecimals: snapshot.tokenDecimals,
+      locked: true,
+      contractAddress: snapshot.distributorAddress,
+      snapshotId: snapshot.id,
+      merkleIndex: claim.index,
+      requestedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.getExpiryMinutes() * 60_000).toISOString(),
+      nextCheckAt: now.toISOString(),
+      attempts: 0,
+      history: [{ from: null, to: 'requested', at: now.toISOString() }]
+    };
+
+    try {
+      await this.getCollection().insertOne({ ...doc } as any);
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return { success: false, withdrawal: (await this.getActiveWithdrawal(userId)) || undefined, error: 'active_withdrawal' };
+      }
+      throw error;
+    }
+
+    await this.enqueue(doc.id);
+    this.logger.info('Merkle claim requested', { withdrawalId: doc.id, userId, snapshotId: snapshot.id, index: claim.index });
+    return { success: true, withdrawal: doc };
+  }
+
+  /**
+   * Release a held withdrawal to the payout worker
+   */
+  async approve(withdrawalId: string, adminUsername: string): Promise<WithdrawalReviewResult> {
+    const record = await this.getWithdrawal(withdrawalId);
+    if (!record) return { success: false, error: 'not_found' };
+    const now = new Date();
+    const moved = record.status === 'pending_review' && await this.transition(record, 'requested', {
+      review: { ...record.review!, decidedBy: adminUsername, decidedAt: now.toISOString() },
+      expiresAt: new Date(now.getTime() + this.getExpiryMinutes() * 60_000).toISOString(),
+      nextCheckAt: now.toISOString()
+    }, `approved by ${adminUsername}`);
+    if (!moved) return { success: false, withdrawal: record, error: 'invalid_state' };
+    this.logger.info('Withdrawal approved', { withdrawalId, userId: record.userId, admin: adminUsername });
+    return { success: true, withdrawal: record };
+  }
+
+  /**
+   * Reject a held withdrawal: the points go back through the ledger and the
+   * user is told why
+   */
+  async deny(withdrawalId: string, adminUsername: string, reason: string): Promise<WithdrawalReviewResult> {
+    const record = await this.getWithdrawal(withdrawalId);
+    if (!record) return { success: false, error: 'not_found' };
+    const now = new Date().toISOString();
+    const moved = record.status === 'pending_review' && await this.transition(record, 'denied', {
+      review: { ...record.review!, decidedBy: adminUsername, decidedAt: now },
+      failureReason: reason,
+      processedAt: now
+    }, `denied by ${adminUsername}`);
+    if (!moved) return { success: false, withdrawal: record, error: 'invalid_state' };
+    await this.refund(record);
+    this.logger.info('Withdrawal denied', { withdrawalId, userId: record.userId, admin: adminUsername, reason });
+    await this.notifyUser(record);
+    return { success: true, withdrawal: record };
+  }
+
+  /** PayoutService: the batch carrying this withdrawal was signed or broadcast */
+  async markPayoutProgress(withdrawalId: string, to: 'signed' | 'submitted', set: Partial<WithdrawalDocument>): Promise<void> {
+    const record = await this.getWithdrawal(withdrawalId);
+    if (!record || record.status === to) return;
+    await this.transition(record, to, set, set.batchId ? `batch ${set.batchId}` : undefined);
+  }
+
+  /** PayoutService: the batch carrying this withdrawal was mined or failed */
+  async settlePayout(withdrawalId: string, outcome: { confirmed: boolean; transactionHash?: string; reason?: string; kind?: WithdrawalErrorKind }): Promise<void> {
+    const record = await this.getWithdrawal(withdrawalId);
+    if (!record || !record.active) return;
+    if (outcome.confirmed) {
+      await this.confirm(record, outcome.transactionHash, outcome.transactionHash !== record.transactionHash ? 'confirmed via replacement transaction' : undefined);
+    } else {
+      await this.fail(record, outcome.reason || 'Payout transaction failed', outcome.kind || 'unknown');
+    }
+  }
+
+  async getActiveWithdrawal(userId: string): Promise<WithdrawalDocument | null> {
+    const doc = await this.getCollection().findOne({ userId, active: true }, { projection: { _id: 0 } });
+    return (doc as any) || null;
+  }
+
+  async getWithdrawal(id: string): Promise<WithdrawalDocument | null> {
+    const doc = await this.getCollection().findOne({ id }, { projection: { _id: 0 } });
+    return (doc as any) || null;
+  }
+
+  /**
+   * Enqueue every in-flight withdrawal whose next check is due, and look for
+   * claims that landed on-chain after we had given up on them
+   */
+  async recoverInFlight(): Promise<number> {
+    const now = new Date();
+    // Held and batched withdrawals are driven by admins and PayoutService, not this sweep
+    const due = await this.getCollection()
+      .find({
+        active: true,
+        status: { $ne: 'pending_review' },
+        batchId: { $exists: false },
+        nextCheckAt: { $lte: now.toISOString() }
+      }, { projection: { _id: 0, id: 1 } })
+      .limit(200)
+      .toArray();
+
+    for (const row of due) {
+      // Push nextCheckAt forward so other instances running the sweep skip it
+      const bumped = await this.getCollection().updateOne(
+        { id: row.id, active: true, nextCheckAt: { $lte: now.toISOString() } },
+        { $set: { nextCheckAt: new Date(now.getTime() + this.getRecheckSeconds() * 1000).toISOString() } }
+      );
+      if (bumped.modifiedCount > 0) await this.enqueue(row.id);
+    }
+
+    await this.detectLateConfirmations().catch((e) => this.logger.warn('Late confirmation check failed', { error: e?.message }));
+    return due.length;
+  }
+
+  private async handleJob(job: { id: string; data: any }): Promise<JobResult> {
+    const withdrawalId = job.data?.payload?.withdrawalId;
+    if (!withdrawalId) return { success: false, error: 'Missing withdrawalId' };
+    try {
+      await this.process(withdrawalId);
+      return { success: true, result: { withdrawalId } };
+    } catch (error: any) {
+      this.logger.error('Withdrawal job failed', { withdrawalId, error: error?.message || String(error) });
+      await this.scheduleRecheck(withdrawalId);
+      return { success: false, error: error?.message || 'Withdrawal step failed' };
+    }
+  }
+
+  /**
+   * Advance one withdrawal as far as it can go without waiting
+   */
+  private async process(withdrawalId: string): Promise<void> {
+    const record = await this.acquireLease(withdrawalId);
+    if (!record) return;
+
+    try {
+      if (!record.locked) {
+        if (!(await this.lockPoints(record))) {
+          await this.transition(record, 'failed', { failureReason: 'Insufficient balance to lock' }, 'lock_failed');
+          await this.notifyUser(record);
+          return;
+        }
+        record.locked = true;
+      }
+
+      // PayoutService signs, sends and settles server transfers in batches
+      if (record.method === 'server_signed_transfer' && record.status === 'requested') return;
+
+      if (record.status === 'requested') {
+        if (this.isPastExpiry(record)) {
+          await this.expire(record, 'Not signed before expiry');
+          return;
+        }
+        await this.sign(record);
+      }
+
+      if (record.status === 'signed') {
+        await this.submit(record);
+      }
+
+      if (record.status === 'submitted') {
+        await this.awaitConfirmation(record);
+      }
+    } finally {
+      await this.releaseLease(record);
+    }
+  }
+
+  private async sign(record: WithdrawalDocument): Promise<void> {
+    if (record.method === 'merkle_claim') {
+      // Nothing to sign: the proof is the authorisation
+      const claim = await AirdropSnapshotService.getInstance().getClaim(record.snapshotId!, record.merkleIndex!);
+      if (!claim?.proof) throw new Error(`Airdrop claim ${record.snapshotId}#${record.merkleIndex} not found`);
+      const airdrop = this.config.wallet.airdrop;
+      const calldata = ClaimService.buildCalldata(airdrop.claimFunctionSignature, airdrop.claimArgsTemplate, {
+        account: claim.address,
+        amountWei: claim.amountWei,
+        index: claim.index,
+        proof: claim.proof
+      });
+      await this.transition(record, 'signed', { calldata, signedAt: new Date().toISOString() });
+      return;
+    }
+
+    // Per-user claim; server transfers are signed by PayoutService
+    const wallet = this.config.wallet;
+    if (!this.getClaimContract(record)) throw new Error('Claim contract address not configured');
+    if (!wallet.claimFunctionSignature) throw new Error('CLAIM_FUNCTION_SIGNATURE not configured');
+    const signerPk = wallet.claimSignerPrivateKey || wallet.privateKey;
+    if (!signerPk) throw new Error('CLAIM_SIGNER_PRIVATE_KEY or WALLET_PRIVATE_KEY not configured for claim signing');
+
+    const nextNonce = (await this.getLastNonceUsed(record)).add(1);
+    const signer = new ethers.Wallet(signerPk, await this.getProvider(record.chainId));
+    const messageHash = ethers.utils.keccak256(
+      ethers.utils.defaultAbiCoder.encode(
+        ['address', 'uint256', 'uint256'],
+        [record.walletAddress, record.tokenAmountWei, nextNonce]
+      )
+    );
+    const signature = await signer.signMessage(ethers.utils.arrayify(messageHash));
+    const calldata = ClaimService.buildCalldata(wallet.claimFunctionSignature, wallet.claimArgsTemplate || 'amount,nonce,signature', {
+      to: record.walletAddress,
+      account: record.walletAddress,
+      amountWei: record.tokenAmountWei,
+      nonce: nextNonce,
+      signature
+    });
+
+    await this.transition(record, 'signed', {
+      nonce: nextNonce.toString(),
+      signature,
+      calldata,
+      signedAt: new Date().toISOString()
+    });
+  }
+
+  private async submit(record: WithdrawalDocument): Promise<void> {
+    if (record.submitAttemptedAt) {
+      // A previous process may have sent this already; find out before sending again
+      if (await this.resolveInterruptedSubmit(record)) return;
+    }
+
+    await this.getCollection().updateOne({ id: record.id }, { $set: { submitAttemptedAt: new Date().toISOString() }, $inc: { attempts: 1 } });
+    record.submitAttemptedAt = new Date().toISOString();
+
+    try {
+      if (record.method === 'walletconnect_claim' || record.method === 'merkle_claim') {
+        const connections = await this.storage.getWalletConnections(record.userId);
+        const connection = connections.find((c: any) => c.isActive && c.walletConnectSession);
+        if (!connection) {
+          await this.fail(record, 'Wallet session expired', 'session_expired');
+          return;
+        }
+
+        const txHash = await WalletConnectService.getInstance().sendTransactionRequest(
+          connection.walletConnectSession.topic,
+          `eip155:${record.chainId}`,
+          {
+            from: record.walletAddress,
+            to: this.getClaimContract(record),
+            data: record.calldata,
+            value: '0x0'
+          }
+        );
+        await this.transition(record, 'submitted', { transactionHash: txHash, submittedAt: new Date().toISOString() });
+        return;
+      }
+
+      // Server transfer signed individually before payouts were batched
+      const provider = await this.getProvider(record.chainId);
+      try {
+        await provider.sendTransaction(record.rawTransaction!);
+      } catch (error: any) {
+        const msg = String(error?.message || '');
+        // Re-broadcasting an already known transaction is fine
+        if (!/already known|nonce too low|known transaction/i.test(msg)) throw error;
+        // "nonce too low" also means another transaction took the nonce; only ours counts as sent
+        if (/nonce too low/i.test(msg) && !(await provider.getTransaction(ethers.utils.keccak256(record.rawTransaction!)))) {
+          await this.fail(record, 'Nonce already used by another transaction', 'nonce');
+          return;
+        }
+      }
+      await this.transition(record, 'submitted', { submittedAt: new Date().toISOString() });
+    } catch (error: any) {
+      const msg = String(error?.message || '');
+      const code = error?.code ?? error?.data?.code ?? error?.error?.code;
+      const kind = classifyWithdrawalError(msg, code);
+      const txHash = msg.match(/0x[0-9a-fA-F]{64}/)?.[0];
+
+      if (kind !== 'rejected' && txHash) {
+        await this.transition(record, 'submitted', { transactionHash: txHash, submittedAt: new Date().toISOString() });
+        return;
+      }
+      await this.fail(record, msg || 'Transaction failed', kind);
+    }
+  }
+
+  /**
+   * The process died between "about to send" and "sent". Returns true if the
+   * record was moved on (or must wait), false if it is safe to send again.
+   */
+  private async resolveInterruptedSubmit(record: WithdrawalDocument): Promise<boolean> {
+    if (record.method === 'server_signed_transfer') {
+      const tx = record.transactionHash ? await (await this.getProvider(record.chainId)).getTransaction(record.transactionHash) : null;
+      if (tx) {
+        await this.transition(record, 'submitted', { submittedAt: new Date().toISOString() }, 'recovered');
+        return true;
+      }
+      return false;
+    }
+
+    // A WalletConnect request cannot be resumed; the claim contract tells us whether it went through
+    if (record.method === 'merkle_claim') {
+      if (await this.isMerkleLeafClaimed(record)) {
+        await this.confirm(record, undefined, 'confirmed via isClaimed');
+        return true;
+      }
+      if (this.isPastExpiry(record)) {
+        await this.expire(record, 'Claim not executed before expiry');
+        return true;
+      }
+      return false;
+    }
+
+    const lastNonce = await this.getLastNonceUsed(record);
+    if (record.nonce && lastNonce.gte(record.nonce)) {
+      await this.confirm(record, undefined, 'confirmed via lastNonceUsed');
+      return true;
+    }
+    if (this.isPastExpiry(record)) {
+      await this.expire(record, 'Claim not executed before expiry');
+      return true;
+    }
+    // Ask the wallet again; the signed nonce is unchanged so at most one claim can execute
+    return false;
+  }
+
+  private async awaitConfirmation(record: WithdrawalDocument): Promise<void> {
+    const provider = await this.getProvider(record.chainId);
+    const network = await ChainRegistryService.getInstance().getNetwork(record.chainId);
+    const confirmations = network?.confirmations || this.config.wallet.confirmationsToWait || 1;
+
+    let receipt: ethers.providers.TransactionReceipt | null = null;
+    if (record.transactionHash) {
+      try {
+        receipt = await provider.waitForTransaction(record.transactionHash, confirmations, 120_000);
+      } catch (error: any) {
+        if (error?.code !== 'TIMEOUT') throw error;
+      }
+    }
+
+    if (receipt) {
+      if (receipt.status === 1) {
+        await this.confirm(record, record.transactionHash);
+      } else {
+        await this.fail(record, 'Transaction reverted or failed', 'reverted');
+      }
+      return;
+    }
+
+    if (!this.isPastExpiry(record)) {
+      await this.scheduleRecheck(record.id);
+      return;
+    }
+
+    if (record.method === 'walletconnect_claim' && record.nonce) {
+      const lastNonce = await this.getLastNonceUsed(record);
+      if (lastNonce.gte(record.nonce)) {
+        await this.confirm(record, record.transactionHash, 'confirmed via lastNonceUsed');
+        return;
+      }
+    }
+    if (record.method === 'merkle_claim' && (await this.isMerkleLeafClaimed(record))) {
+      await this.confirm(record, record.transactionHash, 'confirmed via isClaimed');
+      return;
+    }
+
+    // Still known to the node means it may yet be mined; keep watching
+    const pending = record.transactionHash ? await provider.getTransaction(record.transactionHash).catch(() => null) : null;
+    if (pending) {
+      await this.scheduleRecheck(record.id);
+      return;
+    }
+
+    await this.expire(record, 'Transaction not mined before expiry');
+  }
+
+  private async confirm(record: WithdrawalDocument, txHash?: string, reason?: string): Promise<void> {
+    const processedAt = new Date().toISOString();
+    const moved = await this.transition(record, 'confirmed', { transactionHash: txHash || record.transactionHash, processedAt }, reason);
+    if (!moved) return;
+
+    if (record.method === 'merkle_claim') {
+      await AirdropSnapshotService.getInstance().markClaimed(record.snapshotId!, record.merkleIndex!, {
+        transactionHash: record.transactionHash,
+        withdrawalId: record.id
+      });
+    }
+
+    const users = (this.storage.getStorageInstance() as any).getRawCollection('users');
+    await users.updateOne(
+      { $or: [{ id: record.userId }, { telegramId: record.userId }] },
+      {
+        $set: {
+          claimed: true,
+          claimTimestamp: processedAt,
+          transactionHash: txHash || record.transactionHash,
+          lastClaimedPoints: record.pointsWithdrawn,
+          _updatedAt: processedAt
+        },
+        $inc: { nonce: 1, totalClaimedPoints: record.pointsWithdrawn }
+      }
+    );
+
+    this.logger.info('Withdrawal confirmed', { withdrawalId: record.id, userId: record.userId, txHash: record.transactionHash });
+
+    if (this.config.bot.withdrawAlertChannelId && record.transactionHash) {
+      try {
+        await TelegramNotifyService.sendWithdrawalAlert(
+          this.config.bot.withdrawAlertChannelId,
+          record.userId,
+          record.username,
+          record.walletAddress,
+          record.pointsWithdrawn,
+          record.tokenAmount,
+          record.tokenSymbol,
+          record.transactionHash,
+          (await ChainRegistryService.getInstance().getExplorerUrl(record.chainId)) || this.config.wallet.explorerUrl
+        );
+      } catch (alertError) {
+        this.logger.warn('Failed to send withdrawal alert to channel:', alertError);
+      }
+    }
+
+    await this.notifyUser(record);
+  }
+
+  private async fail(record: WithdrawalDocument, reason: string, kind: WithdrawalErrorKind): Promise<void> {
+    const moved = await this.transition(record, 'failed', { failureReason: reason, errorKind: kind, processedAt: new Date().toISOString() }, kind);
+    if (!moved) return;
+    await this.refund(record);
+    this.logger.warn('Withdrawal failed', { withdrawalId: record.id, userId: record.userId, kind, reason });
+    await this.notifyUser(record);
+  }
+
+  private async expire(record: WithdrawalDocument, reason: string): Promise<void> {
+    const moved = await this.transition(record, 'expired', { failureReason: reason, processedAt: new Date().toISOString() }, reason);
+    if (!moved) return;
+    await this.refund(record);
+    this.logger.warn('Withdrawal expired', { withdrawalId: record.id, userId: record.userId, reason });
+    await this.notifyUser(record);
+  }
+
+  /**
+   * Failed or expired claims that were handed to the wallet can still execute
+   * later. If the contract shows the nonce as used, take the refunded points
+   * back and mark the withdrawal confirmed.
+   */
+  private async detectLateConfirmations(): Promise<void> {
+    if (this.config.wallet.withdrawMode === 'merkle') {
+      await this.detectLateMerkleClaims();
+      return;
+    }
+    if ((this.config.wallet.withdrawMode || 'claim') !== 'claim') return;
+
+    const since = new Date(Date.now() - LATE_CONFIRMATION_LOOKBACK_MS).toISOString();
+    const candidates = await this.getCollection()
+      .find({
+        method: 'walletconnect_claim',
+        status: { $in: ['failed', 'expired'] },
+        refunded: true,
+        nonce: { $exists: true },
+        submitAttemptedAt: { $exists: true },
+        errorKind: { $ne: 'rejected' },
+        processedAt: { $gte: since }
+      }, { projection: { _id: 0 } })
+      .limit(100)
+      .toArray();
+
+    for (const record of candidates as WithdrawalDocument[]) {
+      if (!this.getClaimContract(record)) continue;
+      const lastNonce = await this.getLastNonceUsed(record);
+      if (!lastNonce.gte(record.nonce!)) continue;
+
+      // A later withdrawal with the same nonce is the one that executed
+      const successor = await this.getCollection().findOne({
+        walletAddress: record.walletAddress,
+        nonce: record.nonce,
+        id: { $ne: record.id },
+        status: { $in: ['signed', 'submitted', 'confirmed'] }
+      });
+      if (successor) continue;
+
+      await PointsLedgerService.getInstance().post({
+        userId: record.userId,
+        amount: -record.pointsWithdrawn,
+        type: 'withdrawal',
+        description: 'Late-confirmed claim withdrawal',
+        idempotencyKey: `withdrawal:${record.id}:late`,
+        allowNegativeBalance: true,
+        metadata: { withdrawalId: record.id, walletAddress: record.walletAddress, nonce: record.nonce }
+      });
+      await this.getCollection().updateOne({ id: record.id }, { $set: { refunded: false } });
+      // The refund gave the day's cap back; the tokens did go out after all
+      if (record.tokenId) {
+        await ChainRegistryService.getInstance().adjustDailyPayout(record.chainId, record.requestedAt.slice(0, 10), record.tokenAmount);
+      }
+      await this.confirm({ ...record, refunded: false }, record.transactionHash, 'late confirmation via lastNonceUsed');
+    }
+  }
+
+  /**
+   * Merkle claims are never refunded, so a late claim only needs the record
+   * confirmed and the leaf marked as claimed
+   */
+  private async detectLateMerkleClaims(): Promise<void> {
+    const since = new Date(Date.now() - LATE_CONFIRMATION_LOOKBACK_MS).toISOString();
+    const candidates = await this.getCollection()
+      .find({
+        method: 'merkle_claim',
+        status: { $in: ['failed', 'expired'] },
+        submitAttemptedAt: { $exists: true },
+        errorKind: { $ne: 'rejected' },
+        processedAt: { $gte: since }
+      }, { projection: { _id: 0 } })
+      .limit(100)
+      .toArray();
+
+    for (const record of candidates as WithdrawalDocument[]) {
+      if (!(await this.isMerkleLeafClaimed(record))) continue;
+      // Another attempt on the same leaf may be the one that executed
+      const successor = await this.getCollection().findOne({
+        snapshotId: record.snapshotId,
+        merkleIndex: record.merkleIndex,
+        id: { $ne: record.id },
+        status: { $in: ['signed', 'submitted', 'confirmed'] }
+      });
+      if (successor) continue;
+      await this.confirm(record, record.transactionHash, 'late confirmation via isClaimed');
+    }
+  }
+
+  /** Throws if the distributor cannot be read; "unclaimed" is never assumed */
+  private async isMerkleLeafClaimed(record: WithdrawalDocument): Promise<boolean> {
+    try {
+      return await AirdropSnapshotService.getInstance().isClaimedOnChain(record.contractAddress!, record.merkleIndex!, record.chainId);
+    } catch (error: any) {
+      throw new Error(`Could not read isClaimed from the distributor: ${error?.message || error}`);
+    }
+  }
+
+  private async lockPoints(record: WithdrawalDocument): Promise<boolean> {
+    const result = await PointsLedgerService.getInstance().post({
+      userId: record.userId,
+      amount: -record.pointsWithdrawn,
+      type: 'withdrawal',
+      description: 'Withdrawal request (points locked)',
+      idempotencyKey: `withdrawal:${record.id}:lock`,
+      metadata: { withdrawalId: record.id, walletAddress: record.walletAddress, tokenAmount: record.tokenAmount, tokenSymbol: record.tokenSymbol }
+    });
+    if (!result.success) return false;
+    await this.getCollection().updateOne({ id: record.id }, { $set: { locked: true } });
+    return true;
+  }
+
+  private async refund(record: WithdrawalDocument): Promise<void> {
+    // Snapshot points stay frozen in the allocation, which remains claimable
+    if (record.method === 'merkle_claim') return;
+    await this.releaseDailyPayout(record);
+    if (!record.locked || record.refunded) return;
+    const result = await PointsLedgerService.getInstance().post({
+      userId: record.userId,
+      amount: record.pointsWithdrawn,
+      type: 'refund',
+      description: `Withdrawal ${record.status}: points returned`,
+      idempotencyKey: `withdrawal:${record.id}:refund`,
+      metadata: { withdrawalId: record.id, ...(record.failureReason ? { reason: record.failureReason } : {}) }
+    });
+    if (result.success) {
+      record.refunded = true;
+      await this.getCollection().updateOne({ id: record.id }, { $set: { refunded: true } });
+    } else {
+      this.logger.error('Withdrawal refund failed', { withdrawalId: record.id, userId: record.userId, error: result.error });
+    }
+  }
+
+  /** Give the amount back to the chain's daily cap, once */
+  private async releaseDailyPayout(record: WithdrawalDocument): Promise<void> {
+    if (!record.capDay) return;
+    const released = await this.getCollection().updateOne({ id: record.id, capDay: record.capDay }, { $unset: { capDay: '' } });
+    if (released.modifiedCount === 0) return;
+    await ChainRegistryService.getInstance().adjustDailyPayout(record.chainId, record.capDay, -record.tokenAmount);
+    delete record.capDay;
+  }
+
+  /**
+   * Move a record to a new state only if it is still in the state we loaded
+   */
+  private async transition(record: WithdrawalDocument, to: WithdrawalState, set: Partial<WithdrawalDocument> = {}, reason?: string): Promise<boolean> {
+    const from = record.status;
+    if (!canTransition(from, to)) {
+      this.logger.warn('Rejected withdrawal state transition', { withdrawalId: record.id, from, to });
+      return false;
+    }
+
+    const update: any = {
+      $set: { ...set, status: to },
+      $push: { history: { from, to, at: new Date().toISOString(), ...(reason ? { reason } : {}) } }
+    };
+    if (ACTIVE_WITHDRAWAL_STATES.includes(to)) {
+      update.$set.active = true;
+    } else {
+      update.$unset = { active: '', leaseUntil: '' };
+      delete update.$set.active;
+    }
+
+    const result = await this.getCollection().updateOne({ id: record.id, status: from }, update);
+    if (result.modifiedCount === 0) {
+      this.logger.warn('Withdrawal changed concurrently, transition skipped', { withdrawalId: record.id, from, to });
+      return false;
+    }
+
+    Object.assign(record, set, { status: to });
+    if (!ACTIVE_WITHDRAWAL_STATES.includes(to)) delete record.active;
+    return true;
+  }
+
+  private async acquireLease(withdrawalId: string): Promise<WithdrawalDocument | null> {
+    const now = new Date();
+    const res = await this.getCollection().findOneAndUpdate(
+      {
+        id: withdrawalId,
+        active: true,
+        $or: [{ leaseUntil: { $exists: false } }, { leaseUntil: { $lte: now.toISOString() } }]
+      },
+      { $set: { leaseUntil: new Date(now.getTime() + LEASE_MS).toISOString() } },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    const doc = (res as any)?.value !== undefined ? (res as any).value : res;
+    return (doc as WithdrawalDocument) || null;
+  }
+
+  private async releaseLease(record: WithdrawalDocument): Promise<void> {
+    await this.getCollection().updateOne({ id: record.id }, { $unset: { leaseUntil: '' } });
+  }
+
+  private async scheduleRecheck(withdrawalId: string): Promise<void> {
+    const delayMs = this.getRecheckSeconds() * 1000;
+    await this.getCollection().updateOne(
+      { id: withdrawalId, active: true },
+      { $set: { nextCheckAt: new Date(Date.now() + delayMs).toISOString() } }
+    );
+  }
+
+  private async enqueue(withdrawalId: string, delayMs: number = 0): Promise<void> {
+    await this.jobQueue.addJob(QUEUE_NAME, {
+      type: JOB_TYPE,
+      payload: { withdrawalId },
+      priority: 8,
+      delay: delayMs
+    });
+  }
+
+  private async notifyUser(record: WithdrawalDocument): Promise<void> {
+    if (!this.botInstance) return;
+    const chatId = record.chatId || record.userId;
+    try {
+      const i18n = LocalizationService.getInstance();
+      const locale = i18n.resolveUserLocale(await this.storage.getUser(record.userId).catch(() => null));
+      const t: Translator = (key, params) => i18n.t(locale, key, params);
+      await this.botInstance.telegram.sendMessage(chatId, this.buildStatusMessage(record, t), {
+        parse_mode: 'HTML',
+        link_preview_options: { is_disabled: true },
+        reply_markup: {
+          inline_keyboard: record.status === 'confirmed' || record.status === 'denied'
+            ? [[{ text: t('withdrawal.btn.earn_more'), callback_data: 'menu_tasks' }], [{ text: t('withdrawal.btn.view_wallet'), callback_data: 'wallet_show' }]]
+            : [[{ text: t('withdrawal.btn.try_again'), callback_data: 'wallet_withdraw_auto' }], [{ text: t('wallet.btn.back'), callback_data: 'wallet_show' }]]
+        }
+      });
+    } catch (error) {
+      this.logger.warn('Failed to notify user about withdrawal', { withdrawalId: record.id, error: (error as any)?.message });
+    }
+  }
+
+  private buildStatusMessage(record: WithdrawalDocument, t: Translator): string {
+    const tokens = `${record.tokenAmount.toFixed(6)} ${record.tokenSymbol}`;
+    const wallet = `${record.walletAddress.slice(0, 6)}...${record.walletAddress.slice(-4)}`;
+    const hash = record.transactionHash ? t('withdrawal.status.hash', { hash: record.transactionHash }) : '';
+    const refunded = t('withdrawal.status.refunded', { points: record.pointsWithdrawn });
+    const sections = (...parts: string[]) => parts.filter(Boolean).join('\n\n');
+
+    if (record.status === 'confirmed') {
+      return sections(
+        t('withdrawal.status.confirmed', { tokens, points: record.pointsWithdrawn, wallet }),
+        hash,
+        t('withdrawal.status.earn_more')
+      );
+    }
+
+    if (record.status === 'denied') {
+      const reason = record.failureReason ? escapeHtml(record.failureReason) : t('withdrawal.status.not_approved');
+      return sections(t('withdrawal.status.denied', { reason, tokens, wallet }), refunded);
+    }
+
+    const reason = record.status === 'expired'
+      ? t('withdrawal.reason.expired')
+      : t(`withdrawal.reason.${record.errorKind || 'unknown'}`, {
+        detail: escapeHtml((record.failureReason || t('common.unknown')).substring(0, 50))
+      });
+
+    return sections(
+      t('withdrawal.status.failed', { reason, tokens, wallet }),
+      hash,
+      record.method === 'merkle_claim' ? t('withdrawal.status.allocation_kept') : refunded
+    );
+  }
+
+  /**
+   * Review reason for a new withdrawal, or null to pay it without review.
+   * The threat score is only computed when the risk check is on.
+   */
+  private async assessReview(user: any, tokenAmount: number): Promise<WithdrawalDocument['review'] | null> {
+    const policy = this.config.wallet.payouts;
+    if (!policy?.reviewEnabled || this.config.wallet.withdrawMode === 'merkle') return null;
+
+    let riskScore: number | null = null;
+    if (policy.reviewRiskScore > 0) {
+      try {
+        if (!this.threatAnalyzer) this.threatAnalyzer = new ThreatAnalyzer();
+        riskScore = (await this.threatAnalyzer.analyzeUser(user)).overallRiskScore;
+      } catch (error: any) {
+        this.logger.warn('Threat analysis failed, holding withdrawal for review', { userId: user?.telegramId, error: error?.message });
+      }
+    }
+
+    const reason = getReviewReason(
+      { tokenAmount, riskScore },
+      { enabled: true, thresholdTokens: policy.reviewThresholdTokens, riskScore: policy.reviewRiskScore }
+    );
+    return reason ? { reason, riskScore } : null;
+  }
+
+  /**
+   * Throws if the contract cannot be read. Treating a failed read as 0 would
+   * re-sign nonce 1 for a wallet that has claimed, or expire and refund a
+   * claim that executed; the job is retried instead.
+   */
+  private async getLastNonceUsed(record: WithdrawalDocument): Promise<ethers.BigNumber> {
+    try {
+      const reader = new ethers.Contract(
+        this.getClaimContract(record),
+        ['function lastNonceUsed(address) view returns (uint256)'],
+        await this.getProvider(record.chainId)
+      );
+      return ethers.BigNumber.from(await reader.lastNonceUsed(record.walletAddress));
+    } catch (error: any) {
+      throw new Error(`Could not read lastNonceUsed: ${error?.message || error}`);
+    }
+  }
+
+  private isPastExpiry(record: WithdrawalDocument): boolean {
+    return Date.now() > new Date(record.expiresAt).getTime();
+  }
+
+  private getClaimContract(record: WithdrawalDocument): string {
+    return record.contractAddress || this.config.wallet.claimContractAddress;
+  }
+
+  private getProvider(chainId: number): Promise<ethers.providers.JsonRpcProvider> {
+    return ChainRegistryService.getInstance().getProvider(chainId);
+  }
+
+  private getExpiryMinutes(): number {
+    return this.config.wallet.withdrawExpiryMinutes || 30;
+  }
+
+  private getRecheckSeconds(): number {
+    return this.config.wallet.withdrawRecheckSeconds || 60;
+  }
+
+  private getCollection(): any {
+    const base = this.storage.getStorageInstance() as any;
+    if (!base || typeof base.getRawCollection !== 'function') {
+      throw new Error('MongoStorage raw collection access not available');
+    }
+    return base.getRawCollection('withdrawals');
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export const withdrawalService = WithdrawalService.getInstance();
+export default withdrawalService;
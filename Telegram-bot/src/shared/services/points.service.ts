@@ -2,6 +2,7 @@ import { Logger } from '../../services/logger';
 import { storage } from '../../storage';
 import { User, PointTransaction } from '../../types';
 import { UserValidationService } from './user-validation.service';
+import { PointsLedgerService } from '../../services/ledger/points-ledger.service';
 
 /**
  * Point transaction types
@@ -46,6 +47,13 @@ interface PointTransactionMetadata {
   [key: string]: any;
 }
 
+/**
+ * Options shared by every balance-changing call
+ */
+export interface PointPostingOptions {
+  idempotencyKey?: string;
+}
+
 /**
  * Shared points management service to eliminate duplicate points logic
  * across all bot handlers
@@ -54,18 +62,21 @@ export class PointsService {
   private static readonly logger = Logger.getInstance();
 
   /**
-   * Award points to a user with automatic transaction logging
+   * Award points to a user with automatic transaction logging.
+   * Pass an idempotency key to make retries of the same award a no-op.
    */
   static async awardPoints(
     userId: string,
     amount: number,
     reason: string,
     category: PointEarningCategory = PointEarningCategory.TASK_COMPLETION,
-    metadata: PointTransactionMetadata = {}
+    metadata: PointTransactionMetadata = {},
+    options: PointPostingOptions = {}
   ): Promise<{
     success: boolean;
     newBalance: number;
     transaction?: PointTransaction;
+    duplicate?: boolean;
     error?: string;
   }> {
     try {
@@ -74,58 +85,34 @@ export class PointsService {
         throw new Error('Point amount must be positive');
       }
 
-      // Get current user data
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return {
-          success: false,
-          newBalance: 0,
-          error: 'User not found'
-        };
-      }
-
-      const currentPoints = user.points || 0;
-      const newBalance = currentPoints + amount;
-
-      // Update user points
-      await storage.updateUser(userId, {
-        points: newBalance,
-        lastPointsEarned: new Date()
-      });
-
-      // Create transaction record
-      const transaction: PointTransaction = {
-        id: `tx_${Date.now()}_${userId}_${Math.random().toString(36).substr(2, 9)}`,
+      const result = await PointsLedgerService.getInstance().post({
         userId,
         amount,
         type: 'earned',
-        source: 'system',
         description: reason,
-        timestamp: new Date(),
-        // createdAt for DB index compatibility
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore
-        createdAt: new Date(),
-        metadata: {
-          category,
-          ...metadata
-        }
-      };
+        idempotencyKey: options.idempotencyKey,
+        metadata: { category, ...metadata },
+        userSet: { lastPointsEarned: new Date() }
+      });
 
-      // Save transaction
-      await storage.savePointTransaction(transaction);
+      if (!result.success) {
+        return { success: false, newBalance: result.newBalance, error: this.describeLedgerError(result.error) };
+      }
 
-      this.logger.info(`Points awarded: ${amount} to user ${userId}`, {
-        reason,
-        category,
-        newBalance,
-        transactionId: transaction.id
-      });
+      if (!result.duplicate) {
+        this.logger.info(`Points awarded: ${amount} to user ${userId}`, {
+          reason,
+          category,
+          newBalance: result.newBalance,
+          transactionId: result.entry?.id
+        });
+      }
 
       return {
         success: true,
-        newBalance,
-        transaction
+        newBalance: result.newBalance,
+        transaction: result.entry,
+        duplicate: result.duplicate
       };
     } catch (error) {
       this.logger.error('Error awarding points:', error);
@@ -144,11 +131,13 @@ export class PointsService {
     userId: string,
     amount: number,
     reason: string,
-    metadata: PointTransactionMetadata = {}
+    metadata: PointTransactionMetadata = {},
+    options: PointPostingOptions = {}
   ): Promise<{
     success: boolean;
     newBalance: number;
     transaction?: PointTransaction;
+    duplicate?: boolean;
     error?: string;
   }> {
     try {
@@ -157,63 +146,34 @@ export class PointsService {
         throw new Error('Point amount must be positive');
       }
 
-      // Get current user data
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return {
-          success: false,
-          newBalance: 0,
-          error: 'User not found'
-        };
-      }
-
-      const currentPoints = user.points || 0;
-      
-      if (currentPoints < amount) {
-        return {
-          success: false,
-          newBalance: currentPoints,
-          error: 'Insufficient points'
-        };
-      }
-
-      const newBalance = currentPoints - amount;
-
-      // Update user points
-      await storage.updateUser(userId, {
-        points: newBalance,
-        lastPointsSpent: new Date()
-      });
-
-      // Create transaction record
-      const transaction: PointTransaction = {
-        id: `tx_${Date.now()}_${userId}_${Math.random().toString(36).substr(2, 9)}`,
+      // The ledger only debits when the balance still covers the amount
+      const result = await PointsLedgerService.getInstance().post({
         userId,
-        amount: -amount, // Negative for spending
+        amount: -amount,
         type: 'spent',
-        source: 'system',
         description: reason,
-        timestamp: new Date(),
-        // createdAt for DB index compatibility
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore
-        createdAt: new Date(),
-        metadata
-      };
+        idempotencyKey: options.idempotencyKey,
+        metadata,
+        userSet: { lastPointsSpent: new Date() }
+      });
 
-      // Save transaction
-      await storage.savePointTransaction(transaction);
+      if (!result.success) {
+        return { success: false, newBalance: result.newBalance, error: this.describeLedgerError(result.error) };
+      }
 
-      this.logger.info(`Points spent: ${amount} by user ${userId}`, {
-        reason,
-        newBalance,
-        transactionId: transaction.id
-      });
+      if (!result.duplicate) {
+        this.logger.info(`Points spent: ${amount} by user ${userId}`, {
+          reason,
+          newBalance: result.newBalance,
+          transactionId: result.entry?.id
+        });
+      }
 
       return {
         success: true,
-        newBalance,
-        transaction
+        newBalance: result.newBalance,
+        transaction: result.entry,
+        duplicate: result.duplicate
       };
     } catch (error) {
       this.logger.error('Error spending points:', error);
@@ -284,40 +244,6 @@ export class PointsService {
     );
   }
 
-  /**
-   * Create point transaction without changing balance (for tracking)
-   */
-  static async createTransaction(
-    userId: string,
-    amount: number,
-    type: PointTransaction['type'],
-    description: string,
-    metadata: PointTransactionMetadata = {}
-  ): Promise<PointTransaction | null> {
-    try {
-      const transaction: PointTransaction = {
-        id: `tx_${Date.now()}_${userId}_${Math.random().toString(36).substr(2, 9)}`,
-        userId,
-        amount,
-        type,
-        source: 'system',
-        description,
-        timestamp: new Date(),
-        // createdAt for DB index compatibility
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore
-        createdAt: new Date(),
-        metadata
-      };
-
-      await storage.savePointTransaction(transaction);
-      return transaction;
-    } catch (error) {
-      this.logger.error('Error creating transaction:', error);
-      return null;
-    }
-  }
-
   /**
    * Get user's point balance
    */
@@ -496,7 +422,8 @@ export class PointsService {
     userId: string,
     amount: number, // Can be positive or negative
     reason: string,
-    adminId: string
+    adminId: string,
+    options: PointPostingOptions = {}
   ): Promise<{
     success: boolean;
     newBalance: number;
@@ -504,58 +431,41 @@ export class PointsService {
     error?: string;
   }> {
     try {
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return {
-          success: false,
-          newBalance: 0,
-          error: 'User not found'
-        };
-      }
-
-      const currentPoints = user.points || 0;
-      const newBalance = Math.max(0, currentPoints + amount); // Prevent negative balance
-
-      // Update user points
-      await storage.updateUser(userId, {
-        points: newBalance
-      });
-
-      // Create admin adjustment transaction
-      const transactionType: PointTransaction['type'] = amount >= 0 ? 'bonus' : 'penalty';
-      const transaction: PointTransaction = {
-        id: `tx_${Date.now()}_${userId}_admin_${Math.random().toString(36).substr(2, 9)}`,
+      // Negative adjustments are clamped so the balance never drops below zero
+      const result = await PointsLedgerService.getInstance().post({
         userId,
         amount,
-        type: transactionType,
+        type: amount >= 0 ? 'bonus' : 'penalty',
         source: 'admin',
         description: `Admin adjustment: ${reason}`,
-        timestamp: new Date(),
-        // createdAt for DB index compatibility
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore
-        createdAt: new Date(),
+        idempotencyKey: options.idempotencyKey,
+        clampToZero: true,
         metadata: {
           adminId,
-          category: PointEarningCategory.ADMIN_REWARD,
-          originalBalance: currentPoints
+          category: PointEarningCategory.ADMIN_REWARD
         }
-      };
+      });
 
-      await storage.savePointTransaction(transaction);
+      if (!result.success) {
+        // Nothing left to deduct is not an error for an admin penalty
+        if (result.error === 'insufficient_balance' && amount < 0) {
+          return { success: true, newBalance: result.newBalance };
+        }
+        return { success: false, newBalance: result.newBalance, error: this.describeLedgerError(result.error) };
+      }
 
       this.logger.warn(`Admin point adjustment: ${amount} for user ${userId}`, {
         adminId,
         reason,
-        oldBalance: currentPoints,
-        newBalance,
-        transactionId: transaction.id
+        appliedAmount: result.entry?.amount,
+        newBalance: result.newBalance,
+        transactionId: result.entry?.id
       });
 
       return {
         success: true,
-        newBalance,
-        transaction
+        newBalance: result.newBalance,
+        transaction: result.entry
       };
     } catch (error) {
       this.logger.error('Error in admin point adjustment:', error);
@@ -613,4 +523,16 @@ export class PointsService {
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Map ledger error codes to the messages callers already expect
+   */
+  private static describeLedgerError(error?: string): string {
+    switch (error) {
+      case 'user_not_found': return 'User not found';
+      case 'insufficient_balance': return 'Insufficient points';
+      case 'invalid_amount': return 'Point amount must be non-zero';
+      default: return 'Failed to update points';
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { StorageStats, CleanupResult, CollectionStats, PerformanceStats, AuditLogEntry, AdminUser } from '../types';
 import { SecurityEvent } from '../security/threat-analyzer.service';
+import { SimilarFingerprintMatch, SimilarFingerprintOptions } from '../types/security.types';
 
 export abstract class BaseStorage {
   protected isInitialized = false;
@@ -134,7 +135,9 @@ export abstract class BaseStorage {
   abstract updateEnhancedDeviceFingerprint(deviceHash: string, updates: any): Promise<boolean>;
   abstract getAllDeviceFingerprints(): Promise<any[]>;
   abstract getDeviceFingerprintsByUser(userId: string): Promise<any[]>;
-  abstract findSimilarDeviceFingerprints(fingerprint: any, threshold: number): Promise<any[]>;
+  abstract findSimilarDeviceFingerprints(fingerprint: any, threshold: number, options?: SimilarFingerprintOptions): Promise<SimilarFingerprintMatch[]>;
+  abstract indexDeviceSimilarity(userId: string, components: any, fingerprintHash?: string): Promise<boolean>;
+  abstract rebuildDeviceSimilarityIndex(): Promise<number>;
 
   // Device ban methods
   abstract saveBannedDevice(banRecord: any): Promise<boolean>;
@@ -1,4 +1,5 @@
 import { MongoClient, Db, Collection, ServerApiVersion } from 'mongodb';
+import crypto from 'crypto';
 import path from 'path';
 import fs from 'fs-extra';
 import { BaseStorage } from '../base-storage';
@@ -7,6 +8,8 @@ import { SecurityEvent } from '../../security/threat-analyzer.service';
 import { config } from '../../config';
 import { logger } from '../../services/logger';
 import { dbOptimizer } from '../../services/database/db-optimizer.service';
+import { compareFeatures, FingerprintFeatures, fingerprintFeatures, LSH_VERSION, minHashSignature, signatureBands } from '../../security/fingerprint-lsh';
+import { SimilarFingerprintMatch, SimilarFingerprintOptions } from '../../types/security.types';
 
 export class MongoStorage extends BaseStorage {
   private client: MongoClient | null = null;
@@ -276,6 +279,8 @@ export class MongoStorage extends BaseStorage {
         { referrerId: 1, referredUserId: 1 },
         { name: 'duplicate_referral_check', unique: true }
       );
+      await createIndexSafely(referralsCollection, { status: 1, clawbackPending: 1 }, { name: 'referral_sweep' });
+      await createIndexSafely(referralsCollection, { frozenEarnings: 1 }, { name: 'referral_frozen_earnings', sparse: true });
 
       const adminUsersCollection = this.getCollection('admin_users');
       await createIndexSafely(adminUsersCollection, { id: 1 }, { unique: true });
@@ -326,9 +331,127 @@ export class MongoStorage extends BaseStorage {
 
       const withdrawalsCollection = this.getCollection('withdrawals');
       await createIndexSafely(withdrawalsCollection, { userId: 1, createdAt: -1 });
+      await createIndexSafely(withdrawalsCollection, { userId: 1 }, { unique: true, partialFilterExpression: { active: true }, name: 'withdrawals_one_active_per_user' });
+      await createIndexSafely(withdrawalsCollection, { active: 1, nextCheckAt: 1 });
+      await createIndexSafely(withdrawalsCollection, { walletAddress: 1, nonce: 1 });
+      await createIndexSafely(withdrawalsCollection, { snapshotId: 1, merkleIndex: 1 }, { partialFilterExpression: { snapshotId: { $type: 'string' } } });
+      await createIndexSafely(withdrawalsCollection, { status: 1, requestedAt: -1 });
+      await createIndexSafely(withdrawalsCollection, { batchId: 1 }, { partialFilterExpression: { batchId: { $type: 'string' } } });
+
+      const payoutBatchesCollection = this.getCollection('payout_batches');
+      await createIndexSafely(payoutBatchesCollection, { id: 1 }, { unique: true });
+      await createIndexSafely(payoutBatchesCollection, { status: 1, txNonce: 1 });
+      await createIndexSafely(payoutBatchesCollection, { createdAt: -1 });
+
+      const hotWalletNoncesCollection = this.getCollection('hot_wallet_nonces');
+      await createIndexSafely(hotWalletNoncesCollection, { address: 1, chainId: 1 }, { unique: true });
+
+      const payoutNetworksCollection = this.getCollection('payout_networks');
+      await createIndexSafely(payoutNetworksCollection, { chainId: 1 }, { unique: true });
+
+      const payoutTokensCollection = this.getCollection('payout_tokens');
+      await createIndexSafely(payoutTokensCollection, { id: 1 }, { unique: true });
+      await createIndexSafely(payoutTokensCollection, { chainId: 1, address: 1 }, { unique: true });
+
+      const deviceSimilarityCollection = this.getCollection('device_similarity_index');
+      await createIndexSafely(deviceSimilarityCollection, { userId: 1, fingerprintHash: 1 }, { unique: true });
+      await createIndexSafely(deviceSimilarityCollection, { bands: 1 });
+
+      const accountClustersCollection = this.getCollection('account_clusters');
+      await createIndexSafely(accountClustersCollection, { id: 1 }, { unique: true });
+      await createIndexSafely(accountClustersCollection, { stale: 1, score: -1, size: -1 });
+      await createIndexSafely(accountClustersCollection, { updatedAt: 1 });
+      await createIndexSafely(accountClustersCollection, { members: 1 });
+
+      const banAppealsCollection = this.getCollection('ban_appeals');
+      await createIndexSafely(banAppealsCollection, { id: 1 }, { unique: true });
+      await createIndexSafely(banAppealsCollection, { banKey: 1 }, { unique: true });
+      await createIndexSafely(banAppealsCollection, { status: 1, submittedAt: 1 });
+      await createIndexSafely(banAppealsCollection, { userId: 1, status: 1 });
+
+      const maintenanceWindowsCollection = this.getCollection('maintenance_windows');
+      await createIndexSafely(maintenanceWindowsCollection, { id: 1 }, { unique: true });
+      await createIndexSafely(maintenanceWindowsCollection, { status: 1, endsAt: 1 });
+      await createIndexSafely(maintenanceWindowsCollection, { startsAt: -1 });
+
+      const campaignsCollection = this.getCollection('campaigns');
+      await createIndexSafely(campaignsCollection, { id: 1 }, { unique: true });
+
+      const campaignProgressCollection = this.getCollection('campaign_progress');
+      await createIndexSafely(campaignProgressCollection, { campaignId: 1, userId: 1 }, { unique: true });
+      await createIndexSafely(campaignProgressCollection, { userId: 1 });
+
+      const payoutDailyTotalsCollection = this.getCollection('payout_daily_totals');
+      await createIndexSafely(payoutDailyTotalsCollection, { chainId: 1, day: 1 }, { unique: true });
+      await createIndexSafely(payoutDailyTotalsCollection, { createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+      const walletProofChallengesCollection = this.getCollection('wallet_proof_challenges');
+      await createIndexSafely(walletProofChallengesCollection, { id: 1 }, { unique: true });
+      await createIndexSafely(walletProofChallengesCollection, { expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+      const airdropSnapshotsCollection = this.getCollection('airdrop_snapshots');
+      await createIndexSafely(airdropSnapshotsCollection, { id: 1 }, { unique: true });
+      await createIndexSafely(airdropSnapshotsCollection, { createdAt: -1 });
+      await createIndexSafely(airdropSnapshotsCollection, { status: 1 }, { unique: true, partialFilterExpression: { status: 'building' }, name: 'airdrop_one_building' });
+
+      const airdropClaimsCollection = this.getCollection('airdrop_claims');
+      await createIndexSafely(airdropClaimsCollection, { snapshotId: 1, userId: 1 }, { unique: true });
+      await createIndexSafely(airdropClaimsCollection, { snapshotId: 1, index: 1 });
+      await createIndexSafely(airdropClaimsCollection, { userId: 1, status: 1, frozenAt: 1 });
+
+      const adminSessionsCollection = this.getCollection('admin_sessions');
+      await createIndexSafely(adminSessionsCollection, { id: 1 }, { unique: true });
+      await createIndexSafely(adminSessionsCollection, { subject: 1, lastSeenAt: -1 });
+      await createIndexSafely(adminSessionsCollection, { expiresAt: 1 });
+
+      const adminMfaCollection = this.getCollection('admin_mfa');
+      await createIndexSafely(adminMfaCollection, { adminId: 1 }, { unique: true });
+
+      const adminMfaChallengesCollection = this.getCollection('admin_mfa_challenges');
+      await createIndexSafely(adminMfaChallengesCollection, { id: 1 }, { unique: true });
+      await createIndexSafely(adminMfaChallengesCollection, { expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+      const broadcastsCollection = this.getCollection('broadcasts');
+      await createIndexSafely(broadcastsCollection, { id: 1 }, { unique: true });
+      await createIndexSafely(broadcastsCollection, { createdAt: -1 });
+      await createIndexSafely(broadcastsCollection, { status: 1, nextRunAt: 1 });
+
+      const broadcastDeliveriesCollection = this.getCollection('broadcast_deliveries');
+      await createIndexSafely(broadcastDeliveriesCollection, { broadcastId: 1, userId: 1 }, { unique: true });
+      await createIndexSafely(broadcastDeliveriesCollection, { broadcastId: 1, status: 1, updatedAt: -1 });
+
+      const runtimeSettingsCollection = this.getCollection('runtime_settings');
+      await createIndexSafely(runtimeSettingsCollection, { section: 1 }, { unique: true });
+
+      const runtimeSettingsVersionsCollection = this.getCollection('runtime_settings_versions');
+      await createIndexSafely(runtimeSettingsVersionsCollection, { section: 1, version: -1 }, { unique: true });
+
+      const taskResponsesCollection = this.getCollection('task_responses');
+      await createIndexSafely(taskResponsesCollection, { taskId: 1, userId: 1, kind: 1, attempt: 1 }, { unique: true });
+      await createIndexSafely(taskResponsesCollection, { taskId: 1, kind: 1, submittedAt: 1 });
+
+      const submissionProofsCollection = this.getCollection('submission_proofs');
+      await createIndexSafely(submissionProofsCollection, { fileUniqueId: 1 });
+      await createIndexSafely(submissionProofsCollection, { bands: 1 });
+      await createIndexSafely(submissionProofsCollection, { submissionId: 1 });
 
       const ptCollection = this.getCollection('point_transactions');
       await createIndexSafely(ptCollection, { userId: 1, createdAt: -1 });
+      await createIndexSafely(ptCollection, { userId: 1, status: 1 });
+      await createIndexSafely(ptCollection, { status: 1, createdAt: 1 });
+      await createIndexSafely(ptCollection, { idempotencyKey: 1 }, { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } });
+      await createIndexSafely(ptCollection, { 'metadata.taskId': 1, createdAt: 1 }, { partialFilterExpression: { 'metadata.taskId': { $type: 'string' } } });
+      await createIndexSafely(ptCollection, { 'metadata.referredUserId': 1 }, { partialFilterExpression: { 'metadata.referredUserId': { $type: 'string' } } });
+      await createIndexSafely(ptCollection, { 'metadata.snapshotId': 1 }, { partialFilterExpression: { 'metadata.snapshotId': { $type: 'string' } } });
+
+      const membershipsCollection = this.getCollection('channel_memberships');
+      await createIndexSafely(membershipsCollection, { userId: 1, chatId: 1 }, { unique: true });
+      await createIndexSafely(membershipsCollection, { chatId: 1, status: 1, 'pending.enforceAt': 1 });
+      await createIndexSafely(membershipsCollection, { chatId: 1, checkedAt: 1 });
+      const membershipEvents = this.getCollection('channel_membership_events');
+      await createIndexSafely(membershipEvents, { chatId: 1, at: -1 });
+      await createIndexSafely(membershipEvents, { userId: 1, at: -1 });
+      await createIndexSafely(this.getCollection('channel_membership_sync'), { taskId: 1 }, { unique: true });
 
       const transfersCollection = this.getCollection('transfers');
       await createIndexSafely(transfersCollection, { senderId: 1, createdAt: -1 });
@@ -358,6 +481,17 @@ export class MongoStorage extends BaseStorage {
         await createIndexSafely(jobsCollection, { queue: 1, status: 1, availableAt: 1, priority: -1, createdAt: 1 });
         await createIndexSafely(jobsCollection, { status: 1, createdAt: -1 });
         await createIndexSafely(jobsCollection, { queue: 1, createdAt: -1 });
+        await createIndexSafely(jobsCollection, { queue: 1, status: 1, lockedUntil: 1 });
+        const deadLetters = this.getCollection('jobs_dead_letter');
+        await createIndexSafely(deadLetters, { id: 1 }, { unique: true });
+        await createIndexSafely(deadLetters, { queue: 1, deadAt: -1 });
+        await createIndexSafely(this.getCollection('job_queues'), { queue: 1 }, { unique: true });
+        await createIndexSafely(this.getCollection('job_rate_windows'), { expiresAt: 1 }, { expireAfterSeconds: 0 });
+      } catch {}
+
+      // Admin-edited translations, one per locale and message key
+      try {
+        await createIndexSafely(this.getCollection('translations'), { locale: 1, key: 1 }, { unique: true });
       } catch {}
 
       // Captcha results TTL index
@@ -1018,6 +1152,13 @@ export class MongoStorage extends BaseStorage {
     return this.getCollection(collectionName);
   }
 
+  public getRawClient(): MongoClient {
+    if (!this.client) {
+      throw new Error('Database not initialized');
+    }
+    return this.client;
+  }
+
   async tryMarkProcessedUpdate(updateId: number, ttlSeconds: number = 900): Promise<boolean> {
     this.ensureInitialized();
     try {
@@ -1752,7 +1893,11 @@ export class MongoStorage extends BaseStorage {
         registeredAt: fingerprint.registeredAt || new Date().toISOString(),
       };
       
-      return await this.set('device_fingerprints', fingerprintData, fingerprintData.id);
+      const saved = await this.set('device_fingerprints', fingerprintData, fingerprintData.id);
+      if (saved && fingerprintData.components) {
+        await this.indexDeviceSimilarity(userId, fingerprintData.components, typeof fingerprintData.hash === 'string' ? fingerprintData.hash : undefined);
+      }
+      return saved;
     } catch (error) {
       logger.error(`Error saving device fingerprint for ${userId}:`, error);
       return false;
@@ -1771,86 +1916,116 @@ export class MongoStorage extends BaseStorage {
     }
   }
 
-  async findSimilarDeviceFingerprints(fingerprint: any, threshold: number): Promise<any[]> {
+  async findSimilarDeviceFingerprints(fingerprint: any, threshold: number, options: SimilarFingerprintOptions = {}): Promise<SimilarFingerprintMatch[]> {
     this.ensureInitialized();
     try {
-      // First, try exact hash match for instant results
-      if (fingerprint.hash) {
-        const coll = this.getCollection('device_fingerprints');
-        const exactMatch = await coll.findOne({ hash: fingerprint.hash });
-        if (exactMatch) {
-          return [this.sanitizeDocument(exactMatch)];
-        }
-      }
+      const features = fingerprintFeatures(fingerprint?.components || fingerprint);
+      const bands = signatureBands(minHashSignature(features));
+      if (bands.length === 0) return [];
 
-      // For similarity search, we'll use a more sophisticated approach with indexes
-      const coll = this.getCollection('device_fingerprints');
-      const query: any = {};
-      
-      // Build query for component-based matching
-      if (fingerprint.components) {
-        const orConditions: any[] = [];
-        
-        if (fingerprint.components['hardware.screenResolution']) {
-          orConditions.push({ 'components.hardware.screenResolution': fingerprint.components['hardware.screenResolution'] });
-        }
-        if (fingerprint.components['rendering.canvasFingerprint']) {
-          orConditions.push({ 'components.rendering.canvasFingerprint': fingerprint.components['rendering.canvasFingerprint'] });
-        }
-        if (fingerprint.components['browser.userAgent']) {
-          orConditions.push({ 'components.browser.userAgent': fingerprint.components['browser.userAgent'] });
-        }
-        
-        if (orConditions.length > 0) {
-          query.$or = orConditions;
-        }
-      }
-      
-      const candidates = await coll.find(query).toArray();
-      const similar: any[] = [];
-      
-      // Calculate similarity for candidates
+      const match: any = { bands: { $in: bands }, version: LSH_VERSION };
+      if (options.excludeUserId) match.userId = { $ne: String(options.excludeUserId) };
+      // Common devices share bands with many others; look at the closest candidates first
+      const candidates = await this.getCollection('device_similarity_index').aggregate([
+        { $match: match },
+        { $project: { _id: 0, userId: 1, fingerprintHash: 1, features: 1, indexedAt: 1, shared: { $size: { $setIntersection: ['$bands', bands] } } } },
+        { $sort: { shared: -1 } },
+        { $limit: 500 }
+      ]).toArray();
+
+      const best = new Map<string, SimilarFingerprintMatch>();
       for (const candidate of candidates) {
-        if (candidate.hash !== fingerprint.hash) {
-          const similarity = this.calculateFingerprintSimilarity(fingerprint, candidate);
-          if (similarity >= threshold) {
-            similar.push({ ...this.sanitizeDocument(candidate), similarity });
-          }
+        const { overall, components } = compareFeatures(features, candidate.features);
+        if (overall < threshold) continue;
+        const existing = best.get(candidate.userId);
+        if (!existing || existing.similarity < overall) {
+          best.set(candidate.userId, {
+            userId: candidate.userId,
+            fingerprintHash: candidate.fingerprintHash,
+            similarity: overall,
+            components,
+            indexedAt: candidate.indexedAt
+          });
         }
       }
-      
-      return similar.sort((a, b) => b.similarity - a.similarity);
+      return [...best.values()].sort((a, b) => b.similarity - a.similarity).slice(0, options.limit ?? 20);
     } catch (error) {
       logger.error('Error finding similar device fingerprints:', error);
       return [];
     }
   }
 
-  private calculateFingerprintSimilarity(fp1: any, fp2: any): number {
-    let matches = 0;
-    let total = 0;
-    
-    const compareField = (path: string) => {
-      total++;
-      const val1 = this.getNestedValue(fp1, path);
-      const val2 = this.getNestedValue(fp2, path);
-      if (val1 === val2 && val1 !== undefined) {
-        matches++;
-      }
+  /**
+   * Store a fingerprint's features and LSH bands in `device_similarity_index`.
+   * Without a fingerprint hash the entry is keyed by its features, so the
+   * same device data is only indexed once per user.
+   */
+  async indexDeviceSimilarity(userId: string, components: any, fingerprintHash?: string): Promise<boolean> {
+    this.ensureInitialized();
+    try {
+      const entry = this.buildSimilarityEntry(components, fingerprintHash);
+      if (!entry) return false;
+      await this.getCollection('device_similarity_index').updateOne(
+        { userId: String(userId), fingerprintHash: entry.fingerprintHash },
+        { $set: { ...entry.fields, indexedAt: new Date().toISOString() } },
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      logger.error(`Error indexing device similarity for ${userId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Re-index every stored device fingerprint and the device data users
+   * verified the captcha with, and drop entries from older LSH versions
+   */
+  async rebuildDeviceSimilarityIndex(): Promise<number> {
+    this.ensureInitialized();
+    const index = this.getCollection('device_similarity_index');
+    const indexedAt = new Date().toISOString();
+    let indexed = 0;
+    let ops: any[] = [];
+    const flush = async () => {
+      if (ops.length === 0) return;
+      await index.bulkWrite(ops, { ordered: false });
+      indexed += ops.length;
+      ops = [];
     };
-    
-    compareField('components.hardware.screenResolution');
-    compareField('components.hardware.platform');
-    compareField('components.hardware.hardwareConcurrency');
-    compareField('components.browser.userAgent');
-    compareField('components.rendering.webGLRenderer');
-    compareField('components.rendering.canvasFingerprint');
-    
-    return total > 0 ? matches / total : 0;
+    const queue = async (userId: any, components: any, fingerprintHash?: string) => {
+      const entry = this.buildSimilarityEntry(components, fingerprintHash);
+      if (!userId || !entry) return;
+      ops.push({ updateOne: { filter: { userId: String(userId), fingerprintHash: entry.fingerprintHash }, update: { $set: { ...entry.fields, indexedAt } }, upsert: true } });
+      if (ops.length >= 500) await flush();
+    };
+
+    await index.deleteMany({ version: { $ne: LSH_VERSION } });
+    const fingerprints = this.getCollection('device_fingerprints').find({ components: { $exists: true } }, { projection: { userId: 1, hash: 1, fingerprintHash: 1, components: 1 } });
+    for await (const fp of fingerprints) {
+      const hash = typeof fp.hash === 'string' ? fp.hash : fp.fingerprintHash;
+      await queue(fp.userId, fp.components, typeof hash === 'string' ? hash : undefined);
+    }
+    const users = this.getCollection('users').find({ enhancedDeviceData: { $exists: true } }, { projection: { telegramId: 1, id: 1, enhancedDeviceData: 1 } });
+    for await (const user of users) {
+      await queue(user.telegramId || user.id, user.enhancedDeviceData);
+    }
+    await flush();
+    logger.info('Device similarity index rebuilt', { indexed });
+    return indexed;
   }
 
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
+  private buildSimilarityEntry(components: any, fingerprintHash?: string): {
+    fingerprintHash: string;
+    fields: { features: FingerprintFeatures; bands: string[]; version: number };
+  } | null {
+    const features = fingerprintFeatures(components);
+    const bands = signatureBands(minHashSignature(features));
+    if (bands.length === 0) return null;
+    return {
+      fingerprintHash: fingerprintHash || `features:${crypto.createHash('sha256').update(JSON.stringify(features)).digest('hex')}`,
+      fields: { features, bands, version: LSH_VERSION }
+    };
   }
 
   async getCaptchaStats(): Promise<any> {
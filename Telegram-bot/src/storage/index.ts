@@ -6,6 +6,7 @@ import { logger } from '../services/logger';
 import { TaskManager } from '../services/task-manager.service';
 import { getTaskManagerConfig } from '../services/task-config.service';
 import { Task, TaskFilter } from '../types/task.types';
+import { SimilarFingerprintMatch, SimilarFingerprintOptions } from '../types/security.types';
 import { MemoryManager } from '../services/memory-manager.service';
 
 class StorageManager {
@@ -894,9 +895,19 @@ class StorageManager {
     return await this.storage!.getDeviceFingerprintsByUser(userId);
   }
 
-  async findSimilarDeviceFingerprints(fingerprint: any, threshold: number): Promise<any[]> {
+  async findSimilarDeviceFingerprints(fingerprint: any, threshold: number, options?: SimilarFingerprintOptions): Promise<SimilarFingerprintMatch[]> {
     this.ensureInitialized();
-    return await this.storage!.findSimilarDeviceFingerprints(fingerprint, threshold);
+    return await this.storage!.findSimilarDeviceFingerprints(fingerprint, threshold, options);
+  }
+
+  async indexDeviceSimilarity(userId: string, components: any, fingerprintHash?: string): Promise<boolean> {
+    this.ensureInitialized();
+    return await this.storage!.indexDeviceSimilarity(userId, components, fingerprintHash);
+  }
+
+  async rebuildDeviceSimilarityIndex(): Promise<number> {
+    this.ensureInitialized();
+    return await this.storage!.rebuildDeviceSimilarityIndex();
   }
 
   // ============= Device Ban Methods =============
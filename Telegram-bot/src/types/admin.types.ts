@@ -8,7 +8,10 @@ export interface AdminUser {
   firstName?: string;
   email?: string;
   role: AdminRole;
+  /** Granted on top of the role's defaults */
   permissions: AdminPermission[];
+  /** Taken away from the role's defaults */
+  revokedPermissions?: AdminPermission[];
   isActive: boolean;
   createdAt: string;
   lastLoginAt?: string | null;
@@ -58,34 +61,55 @@ export interface AdminAccountLockout {
   reason?: string;
 }
 
+// Each admin API route declares one of these; roles map to default sets
+// (see services/admin/permission-rules.ts)
 export type AdminPermission = 
   | 'all' // Super admin permission
-  | 'users.read'
-  | 'users.write'
+  | 'logs.view'
+  | 'logs.delete'
+  | 'analytics.view'
+  | 'system.settings.view'
+  | 'system.settings.edit'
   | 'users.view'
-  | 'users.edit'
+  | 'users.message'
+  | 'users.ledger.view'
+  | 'users.points.adjust'
   | 'users.block'
-  | 'users.unblock'
-  | 'users.delete'
-  | 'tasks.read'
-  | 'tasks.write'
+  | 'users.reset'
+  | 'users.export'
+  | 'points.reconcile.view'
+  | 'points.reconcile.apply'
   | 'tasks.view'
-  | 'tasks.create'
   | 'tasks.edit'
-  | 'tasks.delete'
-  | 'submissions.view'
-  | 'submissions.approve'
-  | 'submissions.reject'
-  | 'broadcasts.view'
-  | 'broadcasts.send'
-  | 'analytics.view'
-  | 'security.read'
+  | 'tasks.responses.view'
+  | 'submissions.review'
   | 'security.view'
-  | 'security.manage'
-  | 'settings.view'
-  | 'settings.edit'
-  | 'system.backup'
-  | 'system.restore';
+  | 'security.devices.manage'
+  | 'security.clusters.manage'
+  | 'appeals.view'
+  | 'appeals.decide'
+  | 'broadcast.view'
+  | 'broadcast.send'
+  | 'referrals.view'
+  | 'referrals.manage'
+  | 'airdrop.view'
+  | 'airdrop.users.view'
+  | 'airdrop.export'
+  | 'airdrop.manage'
+  | 'performance.view'
+  | 'performance.clear'
+  | 'withdrawals.view'
+  | 'withdrawals.approve'
+  | 'chains.view'
+  | 'chains.manage'
+  | 'db.read'
+  | 'db.export'
+  | 'db.write'
+  | 'db.admin'
+  | 'admins.view'
+  | 'admins.manage'
+  | 'support.view'
+  | 'support.reply';
 
 export interface AdminUserMetadata {
   createdBy?: string;
@@ -0,0 +1,78 @@
+/**
+ * Types for quest campaigns: ordered or parallel steps built from tasks
+ */
+
+/**
+ * all: every task in the step has to be completed
+ * any: one of the step's tasks is enough
+ */
+export type CampaignStepMode = 'all' | 'any';
+
+/**
+ * previous: opens once every earlier step is complete
+ * start: open from the start, so it runs in parallel with the others
+ */
+export type CampaignStepUnlock = 'previous' | 'start';
+
+export interface CampaignStep {
+  id: string;
+  title: string;
+  taskIds: string[];
+  mode: CampaignStepMode;
+  unlock: CampaignStepUnlock;
+}
+
+export type CampaignState = 'inactive' | 'scheduled' | 'running' | 'ended';
+
+export interface Campaign {
+  id: string;
+  title: string;
+  description: string;
+  steps: CampaignStep[];
+  /** Paid once when every step is complete */
+  bonusPoints: number;
+  startsAt?: string;
+  endsAt?: string;
+  isActive: boolean;
+  /** Position in the task list, lowest first */
+  order: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The unfinished step a locked task waits on */
+export interface CampaignLock {
+  campaign: string;
+  step: string;
+}
+
+export interface CampaignProgress {
+  campaignId: string;
+  userId: string;
+  /** Tasks completed while the campaign was running */
+  taskIds: string[];
+  completedSteps: string[];
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  /** Ledger transaction of the completion bonus */
+  bonusTransactionId?: string;
+}
+
+export interface CampaignFunnelStep {
+  stepId: string;
+  title: string;
+  completed: number;
+  /** Users who reached the previous stage but not this step */
+  dropOff: number;
+  /** Share of started users who completed the step */
+  conversion: number;
+}
+
+export interface CampaignFunnel {
+  campaignId: string;
+  started: number;
+  completed: number;
+  steps: CampaignFunnelStep[];
+}
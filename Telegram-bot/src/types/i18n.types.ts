@@ -0,0 +1,45 @@
+/**
+ * Types for localization: message catalogs keyed by dotted message keys,
+ * admin-edited overrides and per-locale copies of tasks and broadcasts
+ */
+
+/** Lower-case BCP 47 tag as Telegram reports it (`en`, `ru`, `pt-br`) */
+export type Locale = string;
+
+/**
+ * Messages of one locale. Values use ICU-style syntax: `{name}`,
+ * `{count, number}`, `{count, plural, one {# task} other {# tasks}}` and
+ * `{kind, select, a {…} other {…}}`.
+ */
+export type MessageCatalog = Record<string, string>;
+
+export type MessageParams = Record<string, string | number | boolean | null | undefined>;
+
+/** Admin-edited message stored in `translations`; wins over the built-in catalog */
+export interface TranslationOverride {
+  locale: Locale;
+  key: string;
+  value: string;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+export interface LocaleCoverage {
+  locale: Locale;
+  /** Keys of the default catalog */
+  total: number;
+  translated: number;
+  missing: string[];
+  /** Keys whose placeholders differ from the default locale's message */
+  mismatched: string[];
+  overrides: number;
+}
+
+export interface TaskTranslation {
+  title?: string;
+  description?: string;
+}
+
+export interface BroadcastTranslation {
+  message: string;
+}
@@ -5,3 +5,9 @@ export * from './security.types';
 export * from './admin.types';
 export * from './storage.types';
 export * from './transfer.types';
+export * from './maintenance.types';
+export * from './campaign.types';
+export * from './miniapp-auth.types';
+export * from './job-queue.types';
+export * from './membership.types';
+export * from './i18n.types';
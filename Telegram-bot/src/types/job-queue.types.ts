@@ -0,0 +1,66 @@
+/**
+ * Types for the Mongo-backed job queue: retry policies, leases and the
+ * dead-letter collection
+ */
+
+export interface QueueRateLimit {
+  /** Jobs started per window across all replicas */
+  max: number;
+  windowMs: number;
+}
+
+export interface QueuePolicy {
+  /** Runs before a job is dead-lettered, the first one included */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on every later one */
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  /** Share of the delay randomised (0-1) so retries of a burst spread out */
+  jitter: number;
+  /** A claimed job whose lease is not renewed within this time is handed to another worker */
+  visibilityTimeoutMs: number;
+  rateLimit?: QueueRateLimit;
+}
+
+export interface JobAttemptError {
+  attempt: number;
+  error: string;
+  at: Date;
+}
+
+export interface DeadLetterJob {
+  id: string;
+  queue: string;
+  data: any;
+  priority: number;
+  attemptsMade: number;
+  maxAttempts: number;
+  failedReason: string;
+  errors: JobAttemptError[];
+  createdAt: Date;
+  deadAt: Date;
+  replayCount: number;
+}
+
+export interface QueueState {
+  queue: string;
+  paused: boolean;
+  pausedAt?: Date;
+  pausedBy?: string;
+}
+
+export interface QueueOverview {
+  queue: string;
+  waiting: number;
+  active: number;
+  delayed: number;
+  completed: number;
+  /** Jobs waiting for a retry after at least one failed attempt */
+  retrying: number;
+  deadLettered: number;
+  /** Active jobs whose lease ran out; the next claim re-queues them */
+  stalled: number;
+  paused: boolean;
+  policy: QueuePolicy;
+  oldestWaitingAt?: Date;
+}
@@ -0,0 +1,44 @@
+/**
+ * Types for feature flags and scheduled maintenance
+ */
+
+/** Parts of the bot that can be switched off on their own during an incident */
+export type FeatureFlag = 'withdrawals' | 'transfers' | 'tasks' | 'referrals' | 'captcha' | 'support';
+
+/**
+ * scheduled: stored and not cancelled; whether it is upcoming, running or
+ * over follows from startsAt/endsAt
+ * cancelled: called off (or ended early) by an admin
+ */
+export type MaintenanceWindowStatus = 'scheduled' | 'cancelled';
+
+export type MaintenanceWindowState = 'upcoming' | 'active' | 'ended' | 'cancelled';
+
+export interface MaintenanceAnnouncement {
+  /** Minutes before the window starts */
+  leadMinutes: number;
+  broadcastId: string;
+  scheduledAt: string;
+}
+
+export interface MaintenanceWindow {
+  id: string;
+  title: string;
+  /** Shown to users who hit a paused feature while the window runs; empty uses the feature's message */
+  message: string;
+  startsAt: string;
+  endsAt: string;
+  /** Features paused by the window; empty puts the whole bot in maintenance */
+  features: FeatureFlag[];
+  /** Lead times for the announcement broadcasts, in minutes */
+  announceMinutesBefore: number[];
+  /** Broadcast audience for the announcements */
+  audience: 'all' | 'active';
+  announcements: MaintenanceAnnouncement[];
+  status: MaintenanceWindowStatus;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  cancelledAt?: string;
+  cancelledBy?: string;
+}
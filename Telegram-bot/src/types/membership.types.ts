@@ -0,0 +1,67 @@
+/**
+ * Types for the channel-membership watchdog: join/leave history of users in
+ * the chats behind `telegram_join` tasks and what happens when they leave
+ */
+
+/**
+ * What leaving the task's chat costs the user once the grace period is over:
+ * nothing, the task's points (restored on rejoin) or the completion itself
+ */
+export type MembershipLeavePolicy = 'keep' | 'revoke_points' | 'mark_incomplete';
+
+export type MembershipEnforcementAction = Exclude<MembershipLeavePolicy, 'keep'>;
+
+export interface TaskMembershipPolicy {
+  onLeave: MembershipLeavePolicy;
+  /** Time a user has to rejoin before the policy is applied; 0 applies it at once */
+  graceMinutes: number;
+}
+
+export type MembershipEventKind = 'joined' | 'left';
+
+/** `update` came from a chat_member update; `reconcile` from a getChatMember check in the sweep */
+export type MembershipEventSource = 'update' | 'reconcile';
+
+export interface MembershipEvent {
+  id: string;
+  userId: string;
+  /** Chat reference of the task (`-100…` id or `@username`) */
+  chatId: string;
+  chatTitle?: string;
+  event: MembershipEventKind;
+  /** Telegram member status after the change (member, left, kicked, …) */
+  status: string;
+  source: MembershipEventSource;
+  at: string;
+}
+
+export interface PendingEnforcement {
+  taskId: string;
+  action: MembershipEnforcementAction;
+  enforceAt: string;
+}
+
+export interface MembershipEnforcement {
+  taskId: string;
+  action: MembershipEnforcementAction;
+  at: string;
+  /** Points taken back and the ledger entry that did it (revoke_points) */
+  points?: number;
+  entryId?: string;
+  restoredAt?: string;
+}
+
+/** One document per user and watched chat */
+export interface ChannelMembership {
+  userId: string;
+  chatId: string;
+  status: 'member' | 'left';
+  /** Bumped on every leave; part of the revocation idempotency key */
+  leaveCount: number;
+  leftAt?: string;
+  /** Last getChatMember check by the reconciliation sweep */
+  checkedAt?: string;
+  updatedAt: string;
+  pending: PendingEnforcement[];
+  enforced: MembershipEnforcement[];
+}
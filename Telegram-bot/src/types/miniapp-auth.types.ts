@@ -0,0 +1,25 @@
+/**
+ * Types for Mini App authentication: signed initData and the session tokens
+ * issued in exchange for it
+ */
+
+/** Telegram user taken from a verified initData payload */
+export interface MiniAppIdentity {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  username?: string;
+  languageCode?: string;
+  isPremium?: boolean;
+}
+
+export type InitDataError = 'missing' | 'malformed' | 'bad_signature' | 'expired' | 'no_user';
+
+export type MiniAppSessionError = 'malformed' | 'bad_signature' | 'expired';
+
+export interface MiniAppSession {
+  identity: MiniAppIdentity;
+  /** Signed token to send as `Authorization: Bearer <token>` */
+  token: string;
+  expiresAt: string;
+}
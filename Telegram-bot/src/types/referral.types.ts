@@ -4,15 +4,45 @@ export interface Referral {
   referredUserId: string;
   referralCode: string;
   registeredAt: string;
+  /** Kept alongside registeredAt for records and queries that predate it */
+  joinedAt?: string;
   isActive: boolean;
   tasksCompleted: number;
+  /** Task points the referee has earned since joining */
   pointsEarned: number;
-  bonusAwarded: boolean;
+  /** Task points earned while the referral was still locked; paid out as commission on unlock */
+  lockedEarnings?: number;
+  /** Payout keys already counted in lockedEarnings; cleared on unlock */
+  accruedKeys?: string[];
+  /** Task points earned on an unlocked referral while referral payouts were frozen; paid as commission when they resume */
+  frozenEarnings?: number;
+  /** Payout keys already counted in frozenEarnings; cleared when they are paid */
+  frozenKeys?: string[];
+  /** Signup bonus paid to the referrer (0 until the referral unlocks) */
+  bonusAwarded: number;
   bonusAwardedAt?: string;
+  welcomeBonus?: number;
+  /** Commission paid across all levels for this referee's earnings */
+  commissionPaid?: number;
   status: ReferralStatus;
-  metadata: ReferralMetadata;
+  captchaPassedAt?: string;
+  bonusEligibleAt?: string;
+  blockedAt?: string;
+  /** Points reversed when the referee was blocked for multi-accounting */
+  clawedBack?: number;
+  /** Set while a claw-back has started but not every reversal has been posted */
+  clawbackPending?: boolean;
+  history?: Array<{ from: ReferralStatus; to: ReferralStatus; at: string; reason?: string }>;
+  metadata?: ReferralMetadata;
 }
 
+/**
+ * pending: joined, captcha not passed yet
+ * active: captcha passed, task threshold not reached
+ * bonus_eligible: threshold reached, referrer payout not posted yet
+ * bonus_awarded: referrer paid; commissions flow per task
+ * blocked: referee blocked for multi-accounting, payouts clawed back
+ */
 export type ReferralStatus = 
   | 'pending' 
   | 'active' 
@@ -143,6 +143,22 @@ export interface BehavioralFingerprint {
   clickPattern?: string;
 }
 
+export interface SimilarFingerprintOptions {
+  excludeUserId?: string;
+  limit?: number;
+}
+
+/** A stored fingerprint found through the similarity index */
+export interface SimilarFingerprintMatch {
+  userId: string;
+  fingerprintHash: string;
+  /** Weighted similarity, 0-1 */
+  similarity: number;
+  /** Per-component Jaccard similarity */
+  components: Partial<Record<'hardware' | 'browser' | 'rendering', number>>;
+  indexedAt: string;
+}
+
 export interface FingerprintQuality {
   overall: number;
   hardware: number;
@@ -397,4 +413,33 @@ export interface CaptchaSessionMetadata {
   geoLocation?: string;
   browserFingerprint?: string;
   customData?: Record<string, any>;
-}
\ No newline at end of file
+}
+/**
+ * draft: appeal started in the bot, waiting for the user's explanation
+ * pending: submitted, waiting for a moderator
+ * upheld / unbanned / reduced: decided (the ban stays, is lifted, or becomes temporary)
+ */
+export type BanAppealStatus = 'draft' | 'pending' | 'upheld' | 'unbanned' | 'reduced';
+
+export type BanAppealDecision = 'uphold' | 'unban' | 'reduce';
+
+export interface BanAppeal {
+  id: string;
+  userId: string;
+  /** Identifies the ban being appealed; one appeal per key */
+  banKey: string;
+  blockedAt?: string;
+  blockReason?: string;
+  status: BanAppealStatus;
+  message?: string;
+  draftExpiresAt?: string;
+  submittedAt?: string;
+  decision?: BanAppealDecision;
+  decidedAt?: string;
+  decidedBy?: string;
+  decisionNote?: string;
+  /** End of the temporary ban set by a `reduce` decision */
+  blockedUntil?: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -29,11 +29,32 @@ export interface TaskSubmissionMetadata {
   validationResults?: ValidationResult[];
   autoValidated: boolean;
   reviewPriority: 'low' | 'normal' | 'high' | 'urgent';
+  /** Telegram file_ids of photo proofs */
   screenshots?: string[];
+  /** Telegram file_ids of document proofs */
   attachments?: string[];
+  proofs?: SubmissionProof[];
   customData?: Record<string, any>;
 }
 
+export interface SubmissionProof {
+  kind: 'photo' | 'document';
+  fileId: string;
+  fileUniqueId: string;
+  mimeType?: string;
+  fileName?: string;
+  fileSize?: number;
+  width?: number;
+  height?: number;
+  /** Path relative to the proof mirror directory, when mirroring is enabled */
+  localPath?: string;
+  /** 64-bit dHash (hex) for images */
+  phash?: string;
+  /** Proofs from other accounts that look like the same image */
+  reusedFrom?: Array<{ userId: string; submissionId: string; distance: number }>;
+  uploadedAt: string;
+}
+
 export interface ValidationResult {
   validator: string;
   passed: boolean;
@@ -1,3 +1,6 @@
+import { TaskMembershipPolicy } from './membership.types';
+import { TaskTranslation } from './i18n.types';
+
 export interface Task {
   id: string;
   title: string;
@@ -23,6 +26,8 @@ export interface Task {
   metadata: TaskMetadata;
   isPermanent?: boolean;
   requiresSubmission?: boolean;
+  /** Title and description per locale; missing fields fall back to the fields above */
+  translations?: Record<string, TaskTranslation>;
 }
 
 export type TaskCategory = 
@@ -65,9 +70,12 @@ export interface TaskRequirements {
   premiumRequired?: boolean;
   referralRequired?: boolean;
   cooldownHours?: number;
+  /** Task-wide completion cap per UTC day */
   maxPerDay?: number;
+  /** ISO country codes (or country names) */
   requiredCountry?: string[];
   blockedCountry?: string[];
+  /** Days since registration */
   minimumAccountAge?: number;
 }
 
@@ -121,7 +129,10 @@ export interface TaskMetadata {
   successMessage?: string;
   failureMessage?: string;
   requiredReferrals?: number;
+  /** Type-specific settings, e.g. quiz questions or survey fields (see task-responses/response-rules) */
   customData?: Record<string, any>;
+  /** telegram_join: what leaving the chat costs; unset fields fall back to config.task.membership */
+  membership?: Partial<TaskMembershipPolicy>;
 }
 
 export interface TaskSubmission {
@@ -62,6 +62,8 @@ export interface User {
   firstName?: string;
   lastName?: string;
   languageCode?: string;
+  /** Locale picked with /language; overrides languageCode. null follows Telegram again */
+  preferredLanguage?: string | null;
   isPremium: boolean;
   points: number;
   totalEarned: number;
@@ -69,6 +71,9 @@ export interface User {
   blockedAt?: string;
   blockedUntil?: string;
   blockReason?: string;
+  /** Set when a broadcast got 403 from Telegram; cleared on the user's next update */
+  botBlocked?: boolean;
+  botBlockedAt?: string;
   isVerified: boolean;
   verifiedAt?: string;
   verificationMethod?: 'svg' | 'enhanced_miniapp' | 'miniapp';
@@ -130,6 +135,8 @@ export interface User {
   walletAddress?: string;
   walletConnectedAt?: string;
   walletDisconnectedAt?: string;
+  /** Last signed ownership proof; only counts while `address` is still the bound wallet */
+  walletVerification?: WalletVerification;
   referredBy?: string;
   referralCode: string;
   totalReferrals: number;
@@ -150,16 +157,27 @@ export interface User {
   metadata: UserMetadata;
 }
 
+export interface WalletVerification {
+  address: string;
+  method: 'siwe' | 'eip1271' | 'ed25519';
+  source: 'walletconnect' | 'pasted';
+  verifiedAt: string;
+}
+
 export interface PointTransaction {
   id: string;
   userId: string;
-  type: 'earned' | 'spent' | 'bonus' | 'referral' | 'penalty';
+  type: 'earned' | 'spent' | 'bonus' | 'referral' | 'penalty' | 'withdrawal' | 'transfer_sent' | 'transfer_received' | 'refund' | 'adjustment';
   amount: number;
   source: string;
   description: string;
   taskId?: string;
   referralId?: string;
   timestamp: Date;
+  createdAt?: Date;
+  status?: 'pending' | 'committed' | 'void';
+  idempotencyKey?: string;
+  balanceAfter?: number;
   metadata?: Record<string, string | number | boolean>;
 }
 
@@ -310,6 +328,8 @@ export interface UserUpdateData {
   blockedAt?: string;
   blockedUntil?: string;
   blockReason?: string;
+  botBlocked?: boolean;
+  botBlockedAt?: string;
   isVerified?: boolean;
   verifiedAt?: string;
   updatedAt?: string;
@@ -87,6 +87,9 @@ export interface WalletConnection {
   expiresAt?: Date;
   sessionId?: string;
   walletConnectSession?: WalletConnectSession;
+  /** Set once the user has signed an ownership proof for this address */
+  verified?: boolean;
+  verifiedAt?: string;
   metadata: WalletConnectionMetadata;
 }
 
@@ -182,6 +185,8 @@ export interface WithdrawalRequestMetadata {
 
 // ============= Blockchain Configuration =============
 export interface TokenInfo {
+  /** Registry id; 'default' is the token from the Blockchain settings */
+  id: string;
   address: string;
   name: string;
   symbol: string;
@@ -189,7 +194,15 @@ export interface TokenInfo {
   totalSupply?: string;
   chainId: number;
   logoUrl?: string;
+  /** Decimals and symbol were read back from the contract when the token was saved */
   verified: boolean;
+  enabled: boolean;
+  /** Signature-checked claim contract paying this token; required in claim mode */
+  claimContractAddress?: string;
+  /** Comes from the Blockchain settings rather than the registry */
+  builtIn?: boolean;
+  updatedAt?: string;
+  updatedBy?: string;
 }
 
 export interface NetworkConfig {
@@ -206,6 +219,17 @@ export interface NetworkConfig {
   confirmations: number;
   walletConnectChainReference: string; // e.g., "eip155:1" for Ethereum mainnet
   isTestnet: boolean;
+  enabled: boolean;
+  /** Tokens paid out on this chain per UTC day, all tokens together; 0 means no cap */
+  dailyPayoutCapTokens: number;
+  /** Disperse contract for batched server payouts; empty sends one transfer per payout */
+  disperseContractAddress?: string;
+  /** Overrides PAYOUT_MAX_GAS_PRICE_GWEI on this chain; 0 or unset uses the global cap */
+  maxGasPriceGwei?: number;
+  /** Comes from the Blockchain settings rather than the registry */
+  builtIn?: boolean;
+  updatedAt?: string;
+  updatedBy?: string;
 }
 
 // ============= Statistics Types =============
@@ -35,28 +35,28 @@ export function calculateTransferFee(amount: number, feePercentage: number): num
 }
 
 /**
- * Validate transfer amount
+ * Validate transfer amount; `error` is a reason code the caller translates
  */
 export function validateTransferAmount(
   amount: number, 
   senderBalance: number, 
   minAmount: number, 
   maxAmount: number
-): { isValid: boolean; error?: string } {
+): { isValid: boolean; error?: 'not_positive' | 'below_minimum' | 'above_maximum' | 'insufficient_balance' } {
   if (amount <= 0) {
-    return { isValid: false, error: 'Amount must be greater than 0' };
+    return { isValid: false, error: 'not_positive' };
   }
   
   if (amount < minAmount) {
-    return { isValid: false, error: `Minimum transfer amount is ${minAmount} points` };
+    return { isValid: false, error: 'below_minimum' };
   }
   
   if (amount > maxAmount) {
-    return { isValid: false, error: `Maximum transfer amount is ${maxAmount} points` };
+    return { isValid: false, error: 'above_maximum' };
   }
   
   if (amount > senderBalance) {
-    return { isValid: false, error: 'Insufficient balance' };
+    return { isValid: false, error: 'insufficient_balance' };
   }
   
   return { isValid: true };
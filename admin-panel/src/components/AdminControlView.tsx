@@ -6,6 +6,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import MaintenanceControl from "./MaintenanceControl";
+import JobQueues from "./JobQueues";
+import Translations from "./Translations";
 
 const apiBase =
   (import.meta.env.VITE_API_BASE as string) ||
@@ -100,6 +103,11 @@ export default function AdminControlView({ canManageTasks }: { canManageTasks: b
   const [bcTokenDecimals, setBcTokenDecimals] = useState<string>("");
   const [bcTokenContract, setBcTokenContract] = useState<string>("");
   const [bcClaimContract, setBcClaimContract] = useState<string>("");
+  const [payoutReviewEnabled, setPayoutReviewEnabled] = useState<boolean>(false);
+  const [payoutReviewThreshold, setPayoutReviewThreshold] = useState<string>("");
+  const [payoutReviewRisk, setPayoutReviewRisk] = useState<string>("");
+  const [payoutDailyCap, setPayoutDailyCap] = useState<string>("");
+  const [requireVerifiedWallet, setRequireVerifiedWallet] = useState<boolean>(false);
   const [savingBlockchain, setSavingBlockchain] = useState(false);
 
   const [expCollection, setExpCollection] = useState<string>("users");
@@ -233,6 +241,12 @@ export default function AdminControlView({ canManageTasks }: { canManageTasks: b
         setBcClaimContract(String(c.claimContractAddress ?? ""));
         setBcTokenSymbol(String(t.tokenSymbol ?? ""));
         setBcTokenDecimals(String(t.tokenDecimals ?? ""));
+        const p = wc.payouts || {};
+        setPayoutReviewEnabled(!!p.reviewEnabled);
+        setPayoutReviewThreshold(String(p.reviewThresholdTokens ?? ""));
+        setPayoutReviewRisk(String(p.reviewRiskScore ?? ""));
+        setPayoutDailyCap(String(p.dailyCapTokens ?? ""));
+        setRequireVerifiedWallet(!!wc.ownershipProof?.requireForWithdrawal);
       }
 
       const ref = referralRes?.data;
@@ -400,6 +414,11 @@ export default function AdminControlView({ canManageTasks }: { canManageTasks: b
       if (bcClaimContract !== "") body.claimContractAddress = bcClaimContract;
       if (bcTokenSymbol !== "") body.tokenSymbol = bcTokenSymbol;
       if (bcTokenDecimals !== "") body.tokenDecimals = Number(bcTokenDecimals);
+      body.payouts = { reviewEnabled: payoutReviewEnabled };
+      if (payoutReviewThreshold !== "") body.payouts.reviewThresholdTokens = Number(payoutReviewThreshold);
+      if (payoutReviewRisk !== "") body.payouts.reviewRiskScore = Number(payoutReviewRisk);
+      if (payoutDailyCap !== "") body.payouts.dailyCapTokens = Number(payoutDailyCap);
+      body.ownershipProof = { requireForWithdrawal: requireVerifiedWallet };
       const res: any = await api(`/system/wallet-config`, { method: 'POST', body: JSON.stringify(body) });
       const wc = res?.data;
       if (wc) {
@@ -414,6 +433,12 @@ export default function AdminControlView({ canManageTasks }: { canManageTasks: b
         setBcClaimContract(String(c.claimContractAddress ?? ""));
         setBcTokenSymbol(String(t.tokenSymbol ?? ""));
         setBcTokenDecimals(String(t.tokenDecimals ?? ""));
+        const p = wc.payouts || {};
+        setPayoutReviewEnabled(!!p.reviewEnabled);
+        setPayoutReviewThreshold(String(p.reviewThresholdTokens ?? ""));
+        setPayoutReviewRisk(String(p.reviewRiskScore ?? ""));
+        setPayoutDailyCap(String(p.dailyCapTokens ?? ""));
+        setRequireVerifiedWallet(!!wc.ownershipProof?.requireForWithdrawal);
       }
       toast.success('Blockchain settings saved');
     } catch {
@@ -817,6 +842,12 @@ export default function AdminControlView({ canManageTasks }: { canManageTasks: b
           </CardContent>
         </Card>
 
+        <MaintenanceControl />
+
+        <JobQueues />
+
+        <Translations />
+
         <Card className="rounded-2xl border bg-card/95 h-full min-h-[300px]">
           <CardHeader>
             <CardTitle className="text-lg">Withdrawal Settings</CardTitle>
@@ -1033,6 +1064,26 @@ export default function AdminControlView({ canManageTasks }: { canManageTasks: b
                 <Label>Token Decimals</Label>
                 <Input type="number" value={bcTokenDecimals} onChange={(e)=>setBcTokenDecimals(e.target.value)} placeholder="18" className="h-10 rounded-xl" />
               </div>
+              <div className="flex items-center gap-2 md:col-span-2 pt-2">
+                <Checkbox id="payout-review" checked={payoutReviewEnabled} onCheckedChange={(v:any)=>setPayoutReviewEnabled(!!v)} />
+                <Label htmlFor="payout-review">Hold large or risky withdrawals for admin review</Label>
+              </div>
+              <div className="space-y-1">
+                <Label>Review From Token Amount</Label>
+                <Input type="number" value={payoutReviewThreshold} onChange={(e)=>setPayoutReviewThreshold(e.target.value)} placeholder="0 = off" className="h-10 rounded-xl" />
+              </div>
+              <div className="space-y-1">
+                <Label>Review From Risk Score (0-1)</Label>
+                <Input type="number" step="0.05" value={payoutReviewRisk} onChange={(e)=>setPayoutReviewRisk(e.target.value)} placeholder="0 = off" className="h-10 rounded-xl" />
+              </div>
+              <div className="space-y-1">
+                <Label>Daily Payout Cap (tokens, primary chain)</Label>
+                <Input type="number" value={payoutDailyCap} onChange={(e)=>setPayoutDailyCap(e.target.value)} placeholder="0 = no cap" className="h-10 rounded-xl" />
+              </div>
+              <div className="flex items-center gap-2 md:col-span-2 pt-2">
+                <Checkbox id="require-verified-wallet" checked={requireVerifiedWallet} onCheckedChange={(v:any)=>setRequireVerifiedWallet(!!v)} />
+                <Label htmlFor="require-verified-wallet">Only pay out to wallets with a signed ownership proof</Label>
+              </div>
             </div>
             <div className="pt-3 flex justify-start mt-auto">
               <Button onClick={saveBlockchainSettings} disabled={savingBlockchain} className="rounded-full px-5">{savingBlockchain? 'Saving...' : 'Save Blockchain Settings'}</Button>
@@ -1120,6 +1171,122 @@ export default function AdminControlView({ canManageTasks }: { canManageTasks: b
           </CardContent>
         </Card>
       </div>
+
+      <SettingsHistory onRolledBack={() => void load()} />
     </div>
   );
-}
\ No newline at end of file
+}
+
+type SettingsSectionSummary = { section: string; label: string; version: number; updatedAt: string; updatedBy: string };
+type SettingsVersion = {
+  version: number;
+  author: string;
+  createdAt: string;
+  changes: Array<{ key: string; from: unknown; to: unknown }>;
+  rollbackOf?: number;
+  reason?: string;
+};
+
+function formatSettingValue(value: unknown) {
+  if (value === undefined || value === null || value === "") return "—";
+  return Array.isArray(value) ? value.join(", ") || "—" : String(value);
+}
+
+/** Version history of the runtime settings above, shared by every bot replica */
+function SettingsHistory({ onRolledBack }: { onRolledBack: () => void }) {
+  const [sections, setSections] = useState<SettingsSectionSummary[]>([]);
+  const [section, setSection] = useState<string>("");
+  const [versions, setVersions] = useState<SettingsVersion[]>([]);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+
+  useEffect(() => { void loadSections(); }, []);
+  useEffect(() => { if (section) void loadHistory(section); }, [section]);
+
+  async function loadSections() {
+    try {
+      const res: any = await api(`/system/settings`);
+      const list: SettingsSectionSummary[] = res?.data || [];
+      setSections(list);
+      if (!section && list.length) setSection(list[0].section);
+    } catch {
+      toast.error('Failed to load settings versions');
+    }
+  }
+
+  async function loadHistory(id: string) {
+    try {
+      const res: any = await api(`/system/settings/${id}/history?limit=30`);
+      setVersions(res?.data || []);
+    } catch {
+      toast.error('Failed to load settings history');
+    }
+  }
+
+  async function rollback(version: number) {
+    if (!confirm(`Restore version ${version}? Every bot instance picks it up within seconds.`)) return;
+    setRollingBack(version);
+    try {
+      const res: any = await api(`/system/settings/${section}/rollback`, { method: 'POST', body: JSON.stringify({ version }) });
+      toast.success(res?.data?.changes?.length ? `Restored as version ${res.data.version}` : 'Already matches that version');
+      await Promise.all([loadSections(), loadHistory(section)]);
+      onRolledBack();
+    } catch (e: any) {
+      let message = 'Failed to roll back';
+      try { message = JSON.parse(e?.message || "{}").message || message; } catch { /* non-JSON error body */ }
+      toast.error(message);
+    } finally {
+      setRollingBack(null);
+    }
+  }
+
+  const current = sections.find(s => s.section === section);
+
+  return (
+    <Card className="rounded-2xl border bg-card/95">
+      <CardHeader className="pb-3 flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-lg">Settings History</CardTitle>
+          {current && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Version {current.version} by {current.updatedBy} • {new Date(current.updatedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+        <Select value={section} onValueChange={setSection}>
+          <SelectTrigger className="h-9 w-48 rounded-xl"><SelectValue placeholder="Section" /></SelectTrigger>
+          <SelectContent>
+            {sections.map(s => <SelectItem key={s.section} value={s.section}>{s.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {versions.map((v) => (
+          <div key={v.version} className="rounded-xl border p-3 text-sm">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <span className="font-medium">v{v.version}</span>
+                <span className="text-muted-foreground"> • {v.author} • {new Date(v.createdAt).toLocaleString()}</span>
+                {v.reason && <span className="text-muted-foreground"> • {v.reason}</span>}
+              </div>
+              {current && v.version !== current.version && (
+                <Button variant="outline" size="sm" className="rounded-full" disabled={rollingBack !== null} onClick={() => void rollback(v.version)}>
+                  {rollingBack === v.version ? 'Restoring...' : 'Restore'}
+                </Button>
+              )}
+            </div>
+            {v.changes.length > 0 && (
+              <ul className="mt-2 space-y-1 font-mono text-xs">
+                {v.changes.map((c) => (
+                  <li key={c.key}>
+                    {c.key}: <span className="text-red-600 line-through">{formatSettingValue(c.from)}</span> → <span className="text-green-700">{formatSettingValue(c.to)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+        {versions.length === 0 && <div className="text-sm text-muted-foreground">No versions yet</div>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const apiBase =
+  (import.meta.env.VITE_API_BASE as string) ||
+  (typeof window !== "undefined" ? `${window.location.origin}/api/admin` : "/api/admin");
+
+async function api<T>(path: string, options?: RequestInit): Promise<T> {
+  const token = typeof window !== "undefined" ? localStorage.getItem("admin_token") : null;
+  const headers: Record<string, string> = { "Content-Type": "application/json", "Cache-Control": "no-cache" };
+  if (token) headers["Authorization"] = `Bearer ${token}`;
+  const res = await fetch(`${apiBase}${path}`, {
+    cache: "no-store",
+    headers,
+    credentials: "include",
+    ...options,
+  });
+  if (!res.ok) throw new Error(await res.text());
+  return res.json() as Promise<T>;
+}
+
+function errorMessage(e: any, fallback: string): string {
+  try {
+    return JSON.parse(e?.message || "")?.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+type QueueOverview = {
+  queue: string;
+  waiting: number;
+  active: number;
+  delayed: number;
+  completed: number;
+  retrying: number;
+  deadLettered: number;
+  stalled: number;
+  paused: boolean;
+  policy: { maxAttempts: number; visibilityTimeoutMs: number; rateLimit?: { max: number; windowMs: number } };
+  oldestWaitingAt?: string;
+};
+
+type DeadLetterJob = {
+  id: string;
+  queue: string;
+  data: { type?: string; payload?: any };
+  attemptsMade: number;
+  maxAttempts: number;
+  failedReason: string;
+  errors: { attempt: number; error: string; at: string }[];
+  deadAt: string;
+  replayCount: number;
+};
+
+const ALL_QUEUES = "__all__";
+
+export default function JobQueues() {
+  const [queues, setQueues] = useState<QueueOverview[]>([]);
+  const [deadLetters, setDeadLetters] = useState<DeadLetterJob[]>([]);
+  const [deadTotal, setDeadTotal] = useState(0);
+  const [filter, setFilter] = useState(ALL_QUEUES);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    void loadQueues();
+    const timer = setInterval(() => void loadQueues(), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    void loadDeadLetters();
+  }, [filter]);
+
+  async function loadQueues() {
+    try {
+      const res: any = await api(`/system/queues`);
+      setQueues(res?.data || []);
+    } catch {
+      toast.error("Failed to load job queues");
+    }
+  }
+
+  async function loadDeadLetters() {
+    try {
+      const query = filter === ALL_QUEUES ? "" : `&queue=${encodeURIComponent(filter)}`;
+      const res: any = await api(`/system/queues/dead-letter?limit=50${query}`);
+      setDeadLetters(res?.data?.items || []);
+      setDeadTotal(res?.data?.total || 0);
+    } catch {
+      toast.error("Failed to load dead-lettered jobs");
+    }
+  }
+
+  async function run(key: string, action: () => Promise<void>) {
+    setBusy(key);
+    try {
+      await action();
+      await Promise.all([loadQueues(), loadDeadLetters()]);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function togglePause(q: QueueOverview) {
+    const verb = q.paused ? "resume" : "pause";
+    if (!q.paused && !window.confirm(`Pause the ${q.queue} queue? Running jobs finish; nothing new starts until it is resumed.`)) return;
+    await run(`pause:${q.queue}`, async () => {
+      try {
+        await api(`/system/queues/${encodeURIComponent(q.queue)}/${verb}`, { method: "POST" });
+        toast.success(`Queue ${q.queue} ${q.paused ? "resumed" : "paused"}`);
+      } catch (e: any) {
+        toast.error(errorMessage(e, `Failed to ${verb} queue`));
+      }
+    });
+  }
+
+  async function replayQueue(queue: string) {
+    if (!window.confirm(`Replay every dead-lettered job on ${queue}?`)) return;
+    await run(`replay:${queue}`, async () => {
+      try {
+        const res: any = await api(`/system/queues/${encodeURIComponent(queue)}/dead-letter/replay`, { method: "POST" });
+        toast.success(`${res?.data?.replayed || 0} job(s) replayed`);
+      } catch (e: any) {
+        toast.error(errorMessage(e, "Failed to replay jobs"));
+      }
+    });
+  }
+
+  async function replayJob(job: DeadLetterJob) {
+    await run(`job:${job.id}`, async () => {
+      try {
+        await api(`/system/queues/dead-letter/${encodeURIComponent(job.id)}/replay`, { method: "POST" });
+        toast.success("Job replayed");
+      } catch (e: any) {
+        toast.error(errorMessage(e, "Failed to replay job"));
+      }
+    });
+  }
+
+  async function discardJob(job: DeadLetterJob) {
+    if (!window.confirm(`Discard job ${job.id}? It will not run again.`)) return;
+    await run(`job:${job.id}`, async () => {
+      try {
+        await api(`/system/queues/dead-letter/${encodeURIComponent(job.id)}`, { method: "DELETE" });
+        toast.success("Job discarded");
+      } catch (e: any) {
+        toast.error(errorMessage(e, "Failed to discard job"));
+      }
+    });
+  }
+
+  return (
+    <Card className="rounded-2xl border bg-card/95 h-full min-h-[300px] lg:col-span-2">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg">Job Queues</CardTitle>
+        <Button size="sm" variant="outline" className="rounded-full" onClick={() => void Promise.all([loadQueues(), loadDeadLetters()])}>Refresh</Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Queue</TableHead>
+              <TableHead className="text-right">Waiting</TableHead>
+              <TableHead className="text-right">Delayed</TableHead>
+              <TableHead className="text-right">Active</TableHead>
+              <TableHead className="text-right">Retrying</TableHead>
+              <TableHead className="text-right">Stalled</TableHead>
+              <TableHead className="text-right">Dead</TableHead>
+              <TableHead>Policy</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {queues.length === 0 && (
+              <TableRow><TableCell colSpan={9} className="text-sm text-muted-foreground">No queues yet.</TableCell></TableRow>
+            )}
+            {queues.map(q => (
+              <TableRow key={q.queue}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{q.queue}</span>
+                    {q.paused && <Badge variant="secondary">paused</Badge>}
+                  </div>
+                  {q.oldestWaitingAt && (
+                    <div className="text-xs text-muted-foreground">oldest since {new Date(q.oldestWaitingAt).toLocaleString()}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{q.waiting}</TableCell>
+                <TableCell className="text-right">{q.delayed}</TableCell>
+                <TableCell className="text-right">{q.active}</TableCell>
+                <TableCell className="text-right">{q.retrying}</TableCell>
+                <TableCell className="text-right">{q.stalled > 0 ? <Badge variant="destructive">{q.stalled}</Badge> : 0}</TableCell>
+                <TableCell className="text-right">{q.deadLettered > 0 ? <Badge variant="destructive">{q.deadLettered}</Badge> : 0}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {q.policy.maxAttempts} attempt(s) · lease {Math.round(q.policy.visibilityTimeoutMs / 1000)}s
+                  {q.policy.rateLimit && ` · ${q.policy.rateLimit.max}/${Math.round(q.policy.rateLimit.windowMs / 1000)}s`}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="outline" className="rounded-full" disabled={busy === `pause:${q.queue}`} onClick={() => void togglePause(q)}>
+                      {q.paused ? "Resume" : "Pause"}
+                    </Button>
+                    {q.deadLettered > 0 && (
+                      <Button size="sm" variant="outline" className="rounded-full" disabled={busy === `replay:${q.queue}`} onClick={() => void replayQueue(q.queue)}>
+                        Replay dead
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="font-medium">Dead-letter queue <span className="text-sm text-muted-foreground">({deadTotal})</span></div>
+            <Select value={filter} onValueChange={setFilter}>
+              <SelectTrigger className="h-9 w-48 rounded-xl"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_QUEUES}>All queues</SelectItem>
+                {queues.map(q => <SelectItem key={q.queue} value={q.queue}>{q.queue}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          {deadLetters.length === 0 && <p className="text-sm text-muted-foreground">Nothing has been dead-lettered.</p>}
+          {deadLetters.map(job => (
+            <div key={job.id} className="rounded-xl border p-3 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm">
+                  <span className="font-medium">{job.queue}</span> · {job.data?.type || "job"} · <span className="font-mono text-xs">{job.id}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button size="sm" variant="outline" className="rounded-full" disabled={busy === `job:${job.id}`} onClick={() => void replayJob(job)}>Replay</Button>
+                  <Button size="sm" variant="ghost" className="rounded-full" disabled={busy === `job:${job.id}`} onClick={() => void discardJob(job)}>Discard</Button>
+                </div>
+              </div>
+              <div className="text-xs text-destructive break-all">{job.failedReason}</div>
+              <div className="text-xs text-muted-foreground">
+                {job.attemptsMade}/{job.maxAttempts} attempt(s) · dead since {new Date(job.deadAt).toLocaleString()}
+                {job.replayCount > 0 && ` · replayed ${job.replayCount}×`}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,313 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const apiBase =
+  (import.meta.env.VITE_API_BASE as string) ||
+  (typeof window !== "undefined" ? `${window.location.origin}/api/admin` : "/api/admin");
+
+async function api<T>(path: string, options?: RequestInit): Promise<T> {
+  const token = typeof window !== "undefined" ? localStorage.getItem("admin_token") : null;
+  const headers: Record<string, string> = { "Content-Type": "application/json", "Cache-Control": "no-cache" };
+  if (token) headers["Authorization"] = `Bearer ${token}`;
+  const res = await fetch(`${apiBase}${path}`, {
+    cache: "no-store",
+    headers,
+    credentials: "include",
+    ...options,
+  });
+  if (!res.ok) throw new Error(await res.text());
+  return res.json() as Promise<T>;
+}
+
+function errorMessage(e: any, fallback: string): string {
+  try {
+    return JSON.parse(e?.message || "")?.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+type FeatureFlag = "withdrawals" | "transfers" | "tasks" | "referrals" | "captcha" | "support";
+
+type FeatureFlagStatus = {
+  feature: FeatureFlag;
+  label: string;
+  enabled: boolean;
+  message: string;
+  block: { message: string; until?: string; windowId?: string } | null;
+};
+
+type MaintenanceWindow = {
+  id: string;
+  title: string;
+  message: string;
+  startsAt: string;
+  endsAt: string;
+  features: FeatureFlag[];
+  announceMinutesBefore: number[];
+  audience: "all" | "active";
+  announcements: { leadMinutes: number; broadcastId: string; scheduledAt: string }[];
+  state: "upcoming" | "active" | "ended" | "cancelled";
+  createdBy: string;
+  cancelledBy?: string;
+};
+
+const WINDOW_STATE_VARIANTS: Record<MaintenanceWindow["state"], "default" | "secondary" | "destructive" | "outline"> = {
+  upcoming: "secondary",
+  active: "destructive",
+  ended: "outline",
+  cancelled: "outline",
+};
+
+export default function MaintenanceControl() {
+  const [flags, setFlags] = useState<FeatureFlagStatus[]>([]);
+  const [edits, setEdits] = useState<Record<string, { enabled: boolean; message: string }>>({});
+  const [allowlist, setAllowlist] = useState("");
+  const [savingFlags, setSavingFlags] = useState(false);
+
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([]);
+  const [showPast, setShowPast] = useState(false);
+  const [title, setTitle] = useState("");
+  const [message, setMessage] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [features, setFeatures] = useState<FeatureFlag[]>([]);
+  const [leads, setLeads] = useState("60,10");
+  const [audience, setAudience] = useState<"all" | "active">("active");
+  const [scheduling, setScheduling] = useState(false);
+
+  useEffect(() => {
+    void loadFlags();
+  }, []);
+
+  useEffect(() => {
+    void loadWindows();
+  }, [showPast]);
+
+  function applyFlags(data: any) {
+    const rows: FeatureFlagStatus[] = data?.flags || [];
+    setFlags(rows);
+    setEdits(Object.fromEntries(rows.map(f => [f.feature, { enabled: f.enabled, message: f.message }])));
+    setAllowlist((data?.allowlist || []).join(", "));
+  }
+
+  async function loadFlags() {
+    try {
+      const res: any = await api(`/system/features`);
+      applyFlags(res?.data);
+    } catch {
+      toast.error("Failed to load feature flags");
+    }
+  }
+
+  async function loadWindows() {
+    try {
+      const res: any = await api(`/system/maintenance-windows?includePast=${showPast}`);
+      setWindows(res?.data || []);
+    } catch {
+      toast.error("Failed to load maintenance windows");
+    }
+  }
+
+  async function saveFlags() {
+    setSavingFlags(true);
+    try {
+      const body: any = { ...edits, allowlist: allowlist.split(",").map(s => s.trim()).filter(Boolean) };
+      const res: any = await api(`/system/features`, { method: "POST", body: JSON.stringify(body) });
+      applyFlags(res?.data);
+      toast.success("Feature flags saved");
+    } catch (e: any) {
+      toast.error(errorMessage(e, "Failed to save feature flags"));
+    } finally {
+      setSavingFlags(false);
+    }
+  }
+
+  async function scheduleWindow() {
+    if (!title.trim() || !startsAt || !endsAt) {
+      toast.error("Title, start and end are required");
+      return;
+    }
+    setScheduling(true);
+    try {
+      const body = {
+        title,
+        message,
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: new Date(endsAt).toISOString(),
+        features,
+        announceMinutesBefore: leads.split(",").map(s => s.trim()).filter(Boolean).map(Number),
+        audience,
+      };
+      const res: any = await api(`/system/maintenance-windows`, { method: "POST", body: JSON.stringify(body) });
+      toast.success(`Maintenance scheduled with ${res?.data?.announcements?.length || 0} announcement(s)`);
+      setTitle("");
+      setMessage("");
+      setStartsAt("");
+      setEndsAt("");
+      setFeatures([]);
+      await Promise.all([loadWindows(), loadFlags()]);
+    } catch (e: any) {
+      toast.error(errorMessage(e, "Failed to schedule maintenance"));
+    } finally {
+      setScheduling(false);
+    }
+  }
+
+  async function cancelWindow(w: MaintenanceWindow) {
+    const verb = w.state === "active" ? "End" : "Cancel";
+    if (!window.confirm(`${verb} "${w.title}"? Pending announcements are cancelled.`)) return;
+    try {
+      await api(`/system/maintenance-windows/${encodeURIComponent(w.id)}/cancel`, { method: "POST" });
+      toast.success(w.state === "active" ? "Maintenance ended" : "Maintenance cancelled");
+      await Promise.all([loadWindows(), loadFlags()]);
+    } catch (e: any) {
+      toast.error(errorMessage(e, "Failed to cancel maintenance"));
+    }
+  }
+
+  function toggleFeature(feature: FeatureFlag, checked: boolean) {
+    setFeatures(prev => (checked ? [...prev, feature] : prev.filter(f => f !== feature)));
+  }
+
+  return (
+    <>
+      <Card className="rounded-2xl border bg-card/95 h-full min-h-[300px]">
+        <CardHeader>
+          <CardTitle className="text-lg">Feature Flags</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col h-full space-y-4">
+          {flags.map(flag => {
+            const edit = edits[flag.feature] || { enabled: flag.enabled, message: flag.message };
+            return (
+              <div key={flag.feature} className="space-y-2">
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    id={`flag-${flag.feature}`}
+                    checked={edit.enabled}
+                    onCheckedChange={(v: any) => setEdits(prev => ({ ...prev, [flag.feature]: { ...edit, enabled: !!v } }))}
+                  />
+                  <Label htmlFor={`flag-${flag.feature}`}>{flag.label}</Label>
+                  {flag.block && (
+                    <Badge variant="destructive">
+                      {flag.block.until ? `Paused until ${new Date(flag.block.until).toLocaleString()}` : "Off"}
+                    </Badge>
+                  )}
+                </div>
+                {!edit.enabled && (
+                  <Input
+                    value={edit.message}
+                    onChange={(e) => setEdits(prev => ({ ...prev, [flag.feature]: { ...edit, message: e.target.value } }))}
+                    placeholder="Message for users (HTML, optional)"
+                    className="h-10 rounded-xl"
+                  />
+                )}
+              </div>
+            );
+          })}
+          <div className="space-y-1">
+            <Label>Tester allowlist</Label>
+            <Input value={allowlist} onChange={(e) => setAllowlist(e.target.value)} placeholder="Telegram ids, comma separated" className="h-10 rounded-xl" />
+            <p className="text-xs text-muted-foreground">Allowlisted users get through maintenance and disabled features.</p>
+          </div>
+          <div className="pt-3 flex justify-start mt-auto">
+            <Button onClick={saveFlags} disabled={savingFlags} className="rounded-full px-5">{savingFlags ? "Saving..." : "Save Feature Flags"}</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="rounded-2xl border bg-card/95 h-full min-h-[300px]">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg">Maintenance Windows</CardTitle>
+          <div className="flex items-center gap-2">
+            <Checkbox id="mw-past" checked={showPast} onCheckedChange={(v: any) => setShowPast(!!v)} />
+            <Label htmlFor="mw-past" className="text-sm text-muted-foreground">Show past</Label>
+          </div>
+        </CardHeader>
+        <CardContent className="flex flex-col h-full space-y-4">
+          <div className="space-y-2">
+            {windows.length === 0 && <p className="text-sm text-muted-foreground">No maintenance scheduled.</p>}
+            {windows.map(w => (
+              <div key={w.id} className="rounded-xl border p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="font-medium">{w.title}</div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={WINDOW_STATE_VARIANTS[w.state]}>{w.state}</Badge>
+                    {(w.state === "upcoming" || w.state === "active") && (
+                      <Button size="sm" variant="outline" className="rounded-full" onClick={() => void cancelWindow(w)}>
+                        {w.state === "active" ? "End now" : "Cancel"}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(w.startsAt).toLocaleString()} – {new Date(w.endsAt).toLocaleString()} ·{" "}
+                  {w.features.length === 0 ? "Whole bot" : w.features.join(", ")} · {w.announcements.length} announcement(s) to {w.audience} users
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1 md:col-span-2">
+              <Label>Title</Label>
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Payout node upgrade" className="h-10 rounded-xl" />
+            </div>
+            <div className="space-y-1">
+              <Label>Starts</Label>
+              <Input type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} className="h-10 rounded-xl" />
+            </div>
+            <div className="space-y-1">
+              <Label>Ends</Label>
+              <Input type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} className="h-10 rounded-xl" />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Paused features (none = whole bot)</Label>
+              <div className="flex flex-wrap gap-4">
+                {flags.map(flag => (
+                  <div key={flag.feature} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`mw-feature-${flag.feature}`}
+                      checked={features.includes(flag.feature)}
+                      onCheckedChange={(v: any) => toggleFeature(flag.feature, !!v)}
+                    />
+                    <Label htmlFor={`mw-feature-${flag.feature}`} className="text-sm">{flag.label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Announce (minutes before)</Label>
+              <Input value={leads} onChange={(e) => setLeads(e.target.value)} placeholder="e.g. 1440,60,10" className="h-10 rounded-xl" />
+            </div>
+            <div className="space-y-1">
+              <Label>Announce to</Label>
+              <Select value={audience} onValueChange={(v) => setAudience(v as "all" | "active")}>
+                <SelectTrigger className="h-10 rounded-xl"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Active users</SelectItem>
+                  <SelectItem value="all">All users</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label>Message during maintenance</Label>
+              <Textarea value={message} onChange={(e) => setMessage(e.target.value)} placeholder="Optional HTML; defaults to each feature's message" className="rounded-xl" />
+            </div>
+          </div>
+          <div className="pt-3 flex justify-start mt-auto">
+            <Button onClick={scheduleWindow} disabled={scheduling} className="rounded-full px-5">{scheduling ? "Scheduling..." : "Schedule Maintenance"}</Button>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const apiBase =
+  (import.meta.env.VITE_API_BASE as string) ||
+  (typeof window !== "undefined" ? `${window.location.origin}/api/admin` : "/api/admin");
+
+async function api<T>(path: string, options?: RequestInit): Promise<T> {
+  const token = typeof window !== "undefined" ? localStorage.getItem("admin_token") : null;
+  const headers: Record<string, string> = { "Content-Type": "application/json", "Cache-Control": "no-cache" };
+  if (token) headers["Authorization"] = `Bearer ${token}`;
+  const res = await fetch(`${apiBase}${path}`, {
+    cache: "no-store",
+    headers,
+    credentials: "include",
+    ...options,
+  });
+  if (!res.ok) throw new Error(await res.text());
+  return res.json() as Promise<T>;
+}
+
+function errorMessage(e: any, fallback: string): string {
+  try {
+    return JSON.parse(e?.message || "")?.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+type LocaleCoverage = {
+  locale: string;
+  label: string;
+  total: number;
+  translated: number;
+  missing: string[];
+  mismatched: string[];
+  overrides: number;
+};
+
+type CatalogEntry = {
+  key: string;
+  reference: string;
+  builtIn?: string;
+  override?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  missing: boolean;
+  mismatched: boolean;
+};
+
+type Filter = "attention" | "overridden" | "all";
+
+export default function Translations() {
+  const [defaultLocale, setDefaultLocale] = useState("en");
+  const [locales, setLocales] = useState<LocaleCoverage[]>([]);
+  const [locale, setLocale] = useState("");
+  const [entries, setEntries] = useState<CatalogEntry[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState<Filter>("attention");
+  const [search, setSearch] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    void loadLocales();
+  }, []);
+
+  useEffect(() => {
+    if (locale) void loadCatalog(locale);
+  }, [locale]);
+
+  async function loadLocales() {
+    try {
+      const res: any = await api(`/system/i18n/locales`);
+      const list: LocaleCoverage[] = res?.data?.locales || [];
+      setDefaultLocale(res?.data?.defaultLocale || "en");
+      setLocales(list);
+      setLocale((current) => current || list.find((l) => l.locale !== res?.data?.defaultLocale)?.locale || list[0]?.locale || "");
+    } catch {
+      toast.error("Failed to load locales");
+    }
+  }
+
+  async function loadCatalog(tag: string) {
+    try {
+      const res: any = await api(`/system/i18n/catalog/${encodeURIComponent(tag)}`);
+      setEntries(res?.data || []);
+      setDrafts({});
+    } catch {
+      toast.error("Failed to load translations");
+    }
+  }
+
+  const visible = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return entries.filter((e) => {
+      if (filter === "attention" && !e.missing && !e.mismatched) return false;
+      if (filter === "overridden" && e.override === undefined) return false;
+      if (!needle) return true;
+      return e.key.toLowerCase().includes(needle) || e.reference.toLowerCase().includes(needle) || (e.override ?? e.builtIn ?? "").toLowerCase().includes(needle);
+    });
+  }, [entries, filter, search]);
+
+  async function save(entry: CatalogEntry) {
+    const value = drafts[entry.key];
+    if (value === undefined) return;
+    setBusy(entry.key);
+    try {
+      await api(`/system/i18n/catalog/${encodeURIComponent(locale)}/${encodeURIComponent(entry.key)}`, { method: "PUT", body: JSON.stringify({ value }) });
+      toast.success(`Saved ${entry.key}`);
+      await Promise.all([loadCatalog(locale), loadLocales()]);
+    } catch (e: any) {
+      toast.error(errorMessage(e, "Failed to save translation"));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function revert(entry: CatalogEntry) {
+    if (!window.confirm(`Drop the edited ${locale} message for ${entry.key}? The built-in text (or the ${defaultLocale} fallback) is served again.`)) return;
+    setBusy(entry.key);
+    try {
+      await api(`/system/i18n/catalog/${encodeURIComponent(locale)}/${encodeURIComponent(entry.key)}`, { method: "DELETE" });
+      toast.success(`Reverted ${entry.key}`);
+      await Promise.all([loadCatalog(locale), loadLocales()]);
+    } catch (e: any) {
+      toast.error(errorMessage(e, "Failed to revert translation"));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const current = locales.find((l) => l.locale === locale);
+
+  return (
+    <Card className="rounded-2xl border bg-card/95 h-full min-h-[300px] lg:col-span-2">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg">Translations</CardTitle>
+        <Button size="sm" variant="outline" className="rounded-full" onClick={() => void Promise.all([loadLocales(), locale ? loadCatalog(locale) : Promise.resolve()])}>Refresh</Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {locales.map((l) => {
+            const complete = l.missing.length === 0 && l.mismatched.length === 0;
+            return (
+              <button key={l.locale} type="button" onClick={() => setLocale(l.locale)} className={`rounded-xl border px-3 py-2 text-left text-sm ${l.locale === locale ? "border-primary" : ""}`}>
+                <div className="font-medium">
+                  {l.label} <span className="text-xs text-muted-foreground uppercase">{l.locale}</span>
+                  {l.locale === defaultLocale && <span className="text-xs text-muted-foreground"> · default</span>}
+                </div>
+                <div className="flex gap-1 pt-1">
+                  <Badge variant={complete ? "default" : "secondary"}>{l.total ? Math.floor((l.translated / l.total) * 100) : 100}%</Badge>
+                  {l.missing.length > 0 && <Badge variant="destructive">{l.missing.length} missing</Badge>}
+                  {l.mismatched.length > 0 && <Badge variant="destructive">{l.mismatched.length} mismatched</Badge>}
+                  {l.overrides > 0 && <Badge variant="outline">{l.overrides} edited</Badge>}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={filter} onValueChange={(v) => setFilter(v as Filter)}>
+            <SelectTrigger className="h-9 w-52 rounded-xl"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="attention">Missing or mismatched</SelectItem>
+              <SelectItem value="overridden">Edited in the panel</SelectItem>
+              <SelectItem value="all">All messages</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search key or text" className="h-9 w-64 rounded-xl" />
+          <span className="text-xs text-muted-foreground">
+            {visible.length} of {entries.length} messages · placeholders such as {"{name}"} and plural forms must match the {defaultLocale} message
+          </span>
+        </div>
+
+        {current && visible.length === 0 && (
+          <p className="text-sm text-muted-foreground">{filter === "attention" ? `${current.label} has every message translated.` : "No messages match."}</p>
+        )}
+        <div className="max-h-[640px] overflow-y-auto space-y-3 pr-1">
+          {visible.map((entry) => {
+            const value = drafts[entry.key] ?? entry.override ?? entry.builtIn ?? "";
+            const dirty = drafts[entry.key] !== undefined && drafts[entry.key] !== (entry.override ?? entry.builtIn ?? "");
+            return (
+              <div key={entry.key} className="rounded-xl border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-xs">{entry.key}</span>
+                    {entry.missing && <Badge variant="destructive">missing</Badge>}
+                    {entry.mismatched && <Badge variant="destructive">placeholders differ</Badge>}
+                    {entry.override !== undefined && <Badge variant="outline">edited{entry.updatedBy ? ` by ${entry.updatedBy}` : ""}</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {entry.override !== undefined && (
+                      <Button size="sm" variant="ghost" className="rounded-full" disabled={busy === entry.key} onClick={() => void revert(entry)}>Revert</Button>
+                    )}
+                    <Button size="sm" variant="outline" className="rounded-full" disabled={!dirty || busy === entry.key} onClick={() => void save(entry)}>Save</Button>
+                  </div>
+                </div>
+                {locale !== defaultLocale && (
+                  <pre className="whitespace-pre-wrap break-words rounded-lg bg-muted/50 p-2 text-xs text-muted-foreground">{entry.reference}</pre>
+                )}
+                <Textarea
+                  rows={Math.min(12, Math.max(2, value.split("\n").length))}
+                  value={value}
+                  placeholder={`Not translated — ${defaultLocale} text is shown`}
+                  onChange={(e) => setDrafts((d) => ({ ...d, [entry.key]: e.target.value }))}
+                  className="font-mono text-xs"
+                />
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}